@@ -4,7 +4,8 @@ import './globals.css';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { NotificationProvider } from '@/contexts/NotificationContext';
 import { ToastProvider } from '@/contexts/ToastContext';
-import { GamificationProvider } from '@/contexts/GamificationContext';
+import { QueryProvider } from '@/contexts/QueryProvider';
+import SessionExpiryPrompt from '@/components/SessionExpiryPrompt';
 import { Toaster } from 'react-hot-toast';
 
 const inter = Inter({ subsets: ['latin'] });
@@ -23,11 +24,12 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
-        <AuthProvider>
-          <NotificationProvider>
-            <GamificationProvider>
+        <QueryProvider>
+          <AuthProvider>
+            <NotificationProvider>
               <ToastProvider>
                 {children}
+                <SessionExpiryPrompt />
                 <Toaster
                   position="top-right"
                   toastOptions={{
@@ -52,9 +54,9 @@ export default function RootLayout({
                   }}
                 />
               </ToastProvider>
-            </GamificationProvider>
-          </NotificationProvider>
-        </AuthProvider>
+            </NotificationProvider>
+          </AuthProvider>
+        </QueryProvider>
       </body>
     </html>
   );
@@ -22,6 +22,18 @@ const otpSchema = z.object({
 type EmailFormData = z.infer<typeof emailSchema>;
 type OTPFormData = z.infer<typeof otpSchema>;
 
+// The path of a return URL on this site, or null for one that would leave it
+// (e.g. "//evil.com" or "/\evil.com", which browsers read as another host)
+function getSameOriginPath(returnTo: string | null): string | null {
+  if (!returnTo) return null;
+  try {
+    const url = new URL(returnTo, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : null;
+  } catch {
+    return null;
+  }
+}
+
 export default function LoginPage() {
   const [step, setStep] = useState<'email' | 'otp'>('email');
   const [email, setEmail] = useState('');
@@ -36,8 +48,9 @@ export default function LoginPage() {
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated) {
-      const redirectPath = getRedirectPath();
-      router.replace(redirectPath);
+      // Send the user back to the page their session expired on, if any
+      const returnTo = new URLSearchParams(window.location.search).get('returnTo');
+      router.replace(getSameOriginPath(returnTo) || getRedirectPath());
     }
   }, [isAuthenticated, router, getRedirectPath]);
 
@@ -4,51 +4,18 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import MeetingTrackerSidebar from '@/components/meeting-tracker/Sidebar';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-// Type definitions
-interface GamificationStats {
-  user_id: string;
-  lifetime_xp: number;
-  level: number;
-  level_name: string;
-  level_icon: string;
-  xp_to_next_level: number;
-  current_year_xp: number;
-  current_year: number;
-  annual_tier: string;
-  tier_name: string;
-  tier_icon: string;
-  xp_to_next_tier: number;
-  current_streak: number;
-  longest_streak: number;
-  reports_submitted: number;
-  tasks_completed: number;
-  current_rank: number;
-}
-
-interface Transaction {
-  transaction_id: string;
-  points: number;
-  action_type: string;
-  description: string | null;
-  created_at: string;
-}
-
-interface BadgeWithProgress {
-  badge_id: string;
-  name: string;
-  description: string;
-  icon: string;
-  rarity: string;
-  category: string;
-  earned: boolean;
-  unlocked_at: string | null;
-  progress: number;
-  progress_text: string;
-}
+import {
+  claimRetroactiveBadges,
+  getBadgeProgress,
+  getGamificationStats,
+  getTransactions,
+} from '@/lib/api/meeting-tracker/gamification';
+import { formatErrorForDisplay } from '@/lib/utils';
+import type {
+  BadgeWithProgress,
+  GamificationStats,
+  XPTransaction as Transaction,
+} from '@/types/meeting-tracker';
 
 /**
  * Achievements Page Content
@@ -75,38 +42,12 @@ function AchievementsContent() {
 
   const fetchData = async () => {
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        setError('Not authenticated');
-        setLoading(false);
-        return;
-      }
-
-      const { access_token: token } = JSON.parse(authTokens);
-
       // Fetch stats and transactions in parallel
-      const [statsResponse, transactionsResponse] = await Promise.all([
-        fetch(`${API_BASE_URL}/api/v1/gamification/stats`, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }),
-        fetch(`${API_BASE_URL}/api/v1/gamification/transactions?limit=10`, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }),
+      const [statsData, transactionsData] = await Promise.all([
+        getGamificationStats(),
+        getTransactions(10),
       ]);
 
-      if (!statsResponse.ok || !transactionsResponse.ok) {
-        throw new Error('Failed to fetch data');
-      }
-
-      const statsData = await statsResponse.json();
-      const transactionsData = await transactionsResponse.json();
-
       if (statsData.success && statsData.data) {
         setStats(statsData.data);
       }
@@ -116,7 +57,7 @@ function AchievementsContent() {
       }
     } catch (err) {
       console.error('Error fetching gamification data:', err);
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      setError(formatErrorForDisplay(err, 'Failed to fetch data'));
     } finally {
       setLoading(false);
     }
@@ -124,25 +65,8 @@ function AchievementsContent() {
 
   const fetchBadges = async () => {
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        setBadgesLoading(false);
-        return;
-      }
-
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const response = await fetch(`${API_BASE_URL}/api/v1/gamification/badges/progress`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setBadges(data.data || []);
-      }
+      const data = await getBadgeProgress();
+      setBadges(data.data || []);
     } catch (err) {
       console.error('Error fetching badges:', err);
     } finally {
@@ -153,40 +77,19 @@ function AchievementsContent() {
   const claimEarnedBadges = async () => {
     setClaiming(true);
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        alert('Please log in to claim badges');
-        return;
-      }
+      const data = await claimRetroactiveBadges();
+      const count = data.data?.count || 0;
 
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const response = await fetch(`${API_BASE_URL}/api/v1/gamification/_retroactive_badges`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        const badgesAwarded = data.data?.badges_awarded || [];
-        const count = data.data?.count || 0;
-
-        if (count > 0) {
-          alert(`Success! ${count} badge${count !== 1 ? 's' : ''} awarded!`);
-          // Refresh badges
-          await fetchBadges();
-        } else {
-          alert('No new badges to claim. You already have all eligible badges!');
-        }
+      if (count > 0) {
+        alert(`Success! ${count} badge${count !== 1 ? 's' : ''} awarded!`);
+        // Refresh badges
+        await fetchBadges();
       } else {
-        alert('Failed to claim badges. Please try again later.');
+        alert('No new badges to claim. You already have all eligible badges!');
       }
     } catch (err) {
       console.error('Error claiming badges:', err);
-      alert('An error occurred while claiming badges.');
+      alert('Failed to claim badges. Please try again later.');
     } finally {
       setClaiming(false);
     }
@@ -432,7 +335,7 @@ function AchievementsContent() {
         </div>
 
         {/* Company Rank */}
-        {stats.current_rank > 0 && (
+        {!!stats.current_rank && stats.current_rank > 0 && (
           <div className="bg-gradient-to-r from-purple-900/30 to-blue-900/30 border border-purple-700/50 rounded-lg p-6">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-4">
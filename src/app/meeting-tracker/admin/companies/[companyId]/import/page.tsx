@@ -4,6 +4,13 @@ import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import MeetingTrackerSidebar from '@/components/meeting-tracker/Sidebar';
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  downloadCsvTemplate,
+  getCompany,
+  importCompanyCsv,
+  validateCompanyCsv,
+} from '@/lib/api/meeting-tracker/admin';
+import { formatErrorForDisplay } from '@/lib/utils';
 
 interface Company {
   company_id: string;
@@ -62,27 +69,10 @@ export default function CompanyImportPage() {
 
   const fetchCompany = async () => {
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) throw new Error('No authentication token found. Please log in again.');
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      if (!token) throw new Error('No authentication token found. Please log in again.');
-
-      const response = await fetch(
-        `http://localhost:8000/api/v1/admin/meeting-tracker/companies/${companyId}`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      if (!response.ok) throw new Error('Failed to fetch company');
-
-      const data = await response.json();
+      const data = await getCompany(companyId);
       setCompany(data);
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Failed to fetch company'));
     } finally {
       setLoading(false);
     }
@@ -90,24 +80,7 @@ export default function CompanyImportPage() {
 
   const handleDownloadTemplate = async () => {
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) throw new Error('No authentication token found. Please log in again.');
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      if (!token) throw new Error('No authentication token found. Please log in again.');
-
-      const response = await fetch(
-        `http://localhost:8000/api/v1/admin/meeting-tracker/companies/${companyId}/csv-template`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      if (!response.ok) throw new Error('Failed to download template');
-
-      const blob = await response.blob();
+      const blob = await downloadCsvTemplate(companyId);
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -116,8 +89,8 @@ export default function CompanyImportPage() {
       a.click();
       window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Failed to download template'));
     }
   };
 
@@ -139,35 +112,10 @@ export default function CompanyImportPage() {
     setValidationResult(null);
 
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) throw new Error('No authentication token found. Please log in again.');
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      if (!token) throw new Error('No authentication token found. Please log in again.');
-
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-
-      const response = await fetch(
-        `http://localhost:8000/api/v1/admin/meeting-tracker/companies/${companyId}/validate-csv`,
-        {
-          method: 'POST',
-          headers: { Authorization: `Bearer ${token}` },
-          body: formData,
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Validation failed');
-      }
-
-      const result = await response.json();
+      const result = await validateCompanyCsv(companyId, selectedFile);
       setValidationResult(result);
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Validation failed'));
     } finally {
       setValidating(false);
     }
@@ -181,32 +129,7 @@ export default function CompanyImportPage() {
     setImportResult(null);
 
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) throw new Error('No authentication token found. Please log in again.');
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      if (!token) throw new Error('No authentication token found. Please log in again.');
-
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-
-      const response = await fetch(
-        `http://localhost:8000/api/v1/admin/meeting-tracker/companies/${companyId}/import-csv`,
-        {
-          method: 'POST',
-          headers: { Authorization: `Bearer ${token}` },
-          body: formData,
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Import failed');
-      }
-
-      const result = await response.json();
+      const result = await importCompanyCsv(companyId, selectedFile);
       setImportResult(result);
 
       if (result.success) {
@@ -215,8 +138,8 @@ export default function CompanyImportPage() {
           router.push('/meeting-tracker/admin/companies');
         }, 2000);
       }
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Import failed'));
     } finally {
       setUploading(false);
     }
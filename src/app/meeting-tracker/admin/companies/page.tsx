@@ -4,8 +4,17 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import MeetingTrackerSidebar from '@/components/meeting-tracker/Sidebar';
 import { useAuth } from '@/contexts/AuthContext';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+import {
+  activateCompany,
+  createTeamMemberWithUser,
+  deactivateCompany,
+  deleteCompany,
+  linkExistingTeamMember,
+  listCompanies,
+  listTeamMembers,
+} from '@/lib/api/meeting-tracker/admin';
+import { formatErrorForDisplay } from '@/lib/utils';
+import type { ApiError } from '@/types/auth';
 
 interface Company {
   company_id: string;
@@ -67,59 +76,16 @@ export default function CompaniesListPage() {
 
   const fetchCompanies = async () => {
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) {
-        setError('No authentication token found. Please log in again.');
-        setLoading(false);
-        return;
-      }
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      if (!token) {
-        setError('No authentication token found. Please log in again.');
-        setLoading(false);
-        return;
-      }
-
-      // Fetch draft companies
-      const draftResponse = await fetch(
-        `${API_BASE_URL}/api/v1/admin/meeting-tracker/companies/drafts`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      if (!draftResponse.ok) throw new Error('Failed to fetch draft companies');
-      const draftData = await draftResponse.json();
-
-      // Fetch active companies
-      const activeResponse = await fetch(
-        `${API_BASE_URL}/api/v1/admin/meeting-tracker/companies/active`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      if (!activeResponse.ok) throw new Error('Failed to fetch active companies');
-      const activeData = await activeResponse.json();
-
-      // Fetch inactive companies
-      const inactiveResponse = await fetch(
-        `${API_BASE_URL}/api/v1/admin/meeting-tracker/companies/inactive`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      if (!inactiveResponse.ok) throw new Error('Failed to fetch inactive companies');
-      const inactiveData = await inactiveResponse.json();
+      const [draftData, activeData, inactiveData] = await Promise.all([
+        listCompanies('drafts'),
+        listCompanies('active'),
+        listCompanies('inactive'),
+      ]);
 
       // Combine all companies
       setAllCompanies([...draftData, ...activeData, ...inactiveData]);
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Failed to fetch companies'));
     } finally {
       setLoading(false);
     }
@@ -155,24 +121,9 @@ export default function CompaniesListPage() {
 
   const fetchAvailableManagers = async (companyId: string) => {
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) return;
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/admin/meeting-tracker/hierarchy/members?company_id=${companyId}&limit=100`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      if (!response.ok) throw new Error('Failed to fetch managers');
-      const data = await response.json();
-
+      const data = await listTeamMembers({ company_id: companyId, limit: 100 });
       setAvailableManagers(data.members || []);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error fetching managers:', err);
       setAvailableManagers([]);
     }
@@ -185,56 +136,31 @@ export default function CompaniesListPage() {
       setAddingMember(true);
       setAddMemberError(null);
 
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) {
-        throw new Error('No authentication token found');
-      }
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/admin/meeting-tracker/hierarchy/members/with-user`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            email: addMemberData.email,
-            first_name: addMemberData.first_name,
-            last_name: addMemberData.last_name,
-            phone: addMemberData.phone || null,
-            company_id: selectedCompanyId,
-            manager_id: addMemberData.manager_id || null,
-            level: addMemberData.level,
-            team_name: addMemberData.team_name || null,
-            position_title: addMemberData.position_title || null,
-          }),
-        }
-      );
-
-      if (response.status === 409) {
-        // User already exists - show confirmation dialog
-        const errorData = await response.json();
-        setExistingUserData(errorData.detail);
-        setShowConfirmation(true);
-        setAddingMember(false);
-        return;
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Failed to add member');
-      }
+      await createTeamMemberWithUser({
+        email: addMemberData.email,
+        first_name: addMemberData.first_name,
+        last_name: addMemberData.last_name,
+        phone: addMemberData.phone || null,
+        company_id: selectedCompanyId,
+        manager_id: addMemberData.manager_id || null,
+        level: addMemberData.level,
+        team_name: addMemberData.team_name || null,
+        position_title: addMemberData.position_title || null,
+      });
 
       // Success - close modal and refresh companies
       setShowAddMemberModal(false);
       setSelectedCompanyId(null);
       await fetchCompanies();
-    } catch (err: any) {
-      setAddMemberError(err.message);
+    } catch (err) {
+      const apiError = err as ApiError;
+      if (apiError.status_code === 409) {
+        // User already exists - detail carries the existing user, show confirmation dialog
+        setExistingUserData(apiError.detail);
+        setShowConfirmation(true);
+        return;
+      }
+      setAddMemberError(formatErrorForDisplay(err, 'Failed to add member'));
     } finally {
       setAddingMember(false);
     }
@@ -247,37 +173,14 @@ export default function CompaniesListPage() {
       setAddingMember(true);
       setAddMemberError(null);
 
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) {
-        throw new Error('No authentication token found');
-      }
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/admin/meeting-tracker/hierarchy/members/link-existing`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            user_id: existingUserData.user_id,
-            company_id: selectedCompanyId,
-            manager_id: addMemberData.manager_id || null,
-            level: addMemberData.level,
-            team_name: addMemberData.team_name || null,
-            position_title: addMemberData.position_title || null,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Failed to link existing user');
-      }
+      await linkExistingTeamMember({
+        user_id: existingUserData.user_id,
+        company_id: selectedCompanyId,
+        manager_id: addMemberData.manager_id || null,
+        level: addMemberData.level,
+        team_name: addMemberData.team_name || null,
+        position_title: addMemberData.position_title || null,
+      });
 
       // Success - close all modals and refresh companies
       setShowConfirmation(false);
@@ -285,8 +188,8 @@ export default function CompaniesListPage() {
       setSelectedCompanyId(null);
       setExistingUserData(null);
       await fetchCompanies();
-    } catch (err: any) {
-      setAddMemberError(err.message);
+    } catch (err) {
+      setAddMemberError(formatErrorForDisplay(err, 'Failed to link existing user'));
       setShowConfirmation(false);
     } finally {
       setAddingMember(false);
@@ -299,74 +202,33 @@ export default function CompaniesListPage() {
 
   const handleDelete = async (companyId: string, companyName: string, status: string) => {
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) {
-        throw new Error('No authentication token found');
-      }
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
       if (status === 'draft') {
         // Delete draft company
         if (!confirm(`Are you sure you want to delete "${companyName}"? This action cannot be undone.`)) {
           return;
         }
 
-        const response = await fetch(
-          `${API_BASE_URL}/api/v1/admin/meeting-tracker/companies/${companyId}`,
-          {
-            method: 'DELETE',
-            headers: { Authorization: `Bearer ${token}` },
-          }
-        );
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.detail || 'Failed to delete company');
-        }
+        await deleteCompany(companyId);
       } else if (status === 'active') {
         // Deactivate active company
         if (!confirm(`Are you sure you want to deactivate "${companyName}"? Users from this company will not be able to log in.`)) {
           return;
         }
 
-        const response = await fetch(
-          `${API_BASE_URL}/api/v1/admin/meeting-tracker/companies/${companyId}/deactivate`,
-          {
-            method: 'POST',
-            headers: { Authorization: `Bearer ${token}` },
-          }
-        );
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.detail || 'Failed to deactivate company');
-        }
+        await deactivateCompany(companyId);
       } else if (status === 'inactive') {
         // Reactivate inactive company
         if (!confirm(`Are you sure you want to reactivate "${companyName}"? Users from this company will be able to log in again.`)) {
           return;
         }
 
-        const response = await fetch(
-          `${API_BASE_URL}/api/v1/admin/meeting-tracker/companies/${companyId}/activate`,
-          {
-            method: 'POST',
-            headers: { Authorization: `Bearer ${token}` },
-          }
-        );
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.detail || 'Failed to activate company');
-        }
+        await activateCompany(companyId);
       }
 
       // Refresh companies list
       await fetchCompanies();
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Failed to update company'));
     }
   };
 
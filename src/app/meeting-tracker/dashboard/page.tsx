@@ -8,12 +8,10 @@ import UpcomingEvents from '@/components/meeting-tracker/UpcomingEvents';
 import ViewContextBanner from '@/components/meeting-tracker/ViewContextBanner';
 import FloatingActionButton from '@/components/meeting-tracker/FloatingActionButton';
 import QuickCreateModal from '@/components/meeting-tracker/QuickCreateModal';
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, subDays, subMonths, subYears, addDays } from 'date-fns';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+import { useMeetings } from '@/hooks/meeting-tracker';
 
 // Type definitions
 interface DashboardStats {
@@ -46,7 +44,10 @@ function DashboardContent() {
   const isInitialMount = useRef(true);
   // Track if we've already handled the initial URL clear to prevent loops
   const hasHandledInitialURL = useRef(false);
-  const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const { data: meetingsData, isLoading: loading } = useMeetings({
+    team_filter: teamFilter && teamFilter !== 'me' ? teamFilter : undefined,
+  });
+  const meetings = useMemo<Meeting[]>(() => meetingsData || [], [meetingsData]);
   const [stats, setStats] = useState<DashboardStats>({
     total_meetings: 0,
     pending_reports: 0,
@@ -55,7 +56,6 @@ function DashboardContent() {
     recruitment_count: 0,
     new_count: 0,
   });
-  const [loading, setLoading] = useState(true);
 
   // Date filter state
   const [dateRange, setDateRange] = useState<DateRangeFilter>('next_7_days');
@@ -73,56 +73,6 @@ function DashboardContent() {
     }
   }, []);
 
-  // Define fetchDashboardData BEFORE useEffects that depend on it
-  const fetchDashboardData = useCallback(async () => {
-    setLoading(true);
-
-    try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      // Build query string with team filter
-      const params = new URLSearchParams();
-      if (teamFilter && teamFilter !== 'me') {
-        params.append('team_filter', teamFilter);
-      }
-
-      const queryString = params.toString();
-      const url = `${API_BASE_URL}/api/v1/meeting-tracker/meetings${queryString ? `?${queryString}` : ''}`;
-
-      // console.log('🔍 [DASHBOARD] Fetching meetings:', {
-      //   teamFilter,
-      //   url,
-      //   queryString
-      // });
-
-      // Fetch meetings
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        const meetingsList = data.meetings || [];
-        // console.log('🔍 [DASHBOARD] Received data:', {
-          // teamFilter,
-          // count: meetingsList.length,
-          // firstMeetingUser: meetingsList[0]?.user_id,
-          // response: data
-        // });
-        setMeetings(meetingsList);
-      }
-    } catch (error) {
-      console.error('Failed to fetch dashboard stats:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [teamFilter]);
-
   // Clear URL parameters on initial mount to ensure clean state
   useEffect(() => {
     if (isInitialMount.current) {
@@ -141,11 +91,6 @@ function DashboardContent() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  useEffect(() => {
-    // console.log('🔍 [DASHBOARD] Fetching data for teamFilter:', teamFilter);
-    fetchDashboardData();
-  }, [fetchDashboardData]);
-
   // Recalculate stats when meetings or date filter changes
   useEffect(() => {
     if (meetings.length === 0) return;
@@ -436,7 +381,7 @@ function DashboardContent() {
               </div>
 
               {/* Upcoming Events */}
-              <UpcomingEvents viewType={viewType} onRefresh={fetchDashboardData} />
+              <UpcomingEvents viewType={viewType} />
             </>
           )}
         </div>
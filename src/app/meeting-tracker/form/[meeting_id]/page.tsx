@@ -2,48 +2,21 @@
 
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/contexts/ToastContext';
-import { useGamification } from '@/contexts/GamificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import MeetingTrackerSidebar from '@/components/meeting-tracker/Sidebar';
 import { useParams, useRouter } from 'next/navigation';
 import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface Task {
-  title: string;
-  due_date: string;
-  priority: 'high' | 'medium' | 'low';
-  status: 'in_progress' | 'done';
-}
-
-interface Meeting {
-  meeting_id: string;
-  title: string;
-  start_time: string;
-  end_time: string;
-  description?: string;
-  category: string;
-  user_id: string;
-}
-
-interface Report {
-  report_id: string;
-  meeting_outcome: string;
-  has_tasks: boolean;
-  follow_up_needed: boolean;
-  follow_up_date?: string;
-  follow_up_notes?: string;
-  is_draft: boolean;
-}
+import { getMeeting, getMeetingReport } from '@/lib/api/meeting-tracker/meetings';
+import { useSubmitMeetingReport } from '@/hooks/meeting-tracker';
+import { formatErrorForDisplay } from '@/lib/utils';
+import type { Meeting, MeetingReport as Report, ReportTask as Task } from '@/types/meeting-tracker';
 
 function FormContent() {
   const { user } = useAuth();
   const { showXPToast, showLevelUpToast, showTierUpToast, showBadgeUnlockToast } = useToast();
-  const { triggerRefresh } = useGamification();
+  const submitReportMutation = useSubmitMeetingReport();
   const params = useParams();
   const router = useRouter();
   const meetingId = params.meeting_id as string;
@@ -75,21 +48,8 @@ function FormContent() {
 
   const fetchMeetingAndReport = async () => {
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        router.push('/auth/login');
-        return;
-      }
-      const { access_token: token } = JSON.parse(authTokens);
-
       // Fetch meeting details
-      const meetingRes = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/meetings/${meetingId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (!meetingRes.ok) throw new Error('Failed to fetch meeting');
-
-      const meetingData = await meetingRes.json();
+      const meetingData = await getMeeting(meetingId);
       const fetchedMeeting = meetingData.meeting;
       setMeeting(fetchedMeeting);
 
@@ -99,19 +59,15 @@ function FormContent() {
 
       // Try to fetch existing report
       try {
-        const reportRes = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/reports/${meetingId}`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-
-        if (reportRes.ok) {
-          const reportData = await reportRes.json();
+        const reportData = await getMeetingReport(meetingId);
+        if (reportData.report) {
           const report = reportData.report;
           const existingTasks = reportData.tasks || [];
 
           setExistingReport(report);
           setMeetingOutcome(report.meeting_outcome || '');
           setHasTasks(report.has_tasks || false);
-          setTasks(existingTasks.map((t: any) => ({
+          setTasks(existingTasks.map((t) => ({
             title: t.title,
             due_date: t.due_date.split('T')[0], // Convert to YYYY-MM-DD
             priority: t.priority || 'medium',
@@ -190,13 +146,6 @@ function FormContent() {
         return;
       }
 
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        router.push('/auth/login');
-        return;
-      }
-      const { access_token: token } = JSON.parse(authTokens);
-
       // Prepare request body
       const body = {
         meeting_id: meetingId,
@@ -211,22 +160,9 @@ function FormContent() {
         is_draft: isDraft,
       };
 
-      // Submit report
-      const res = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/reports`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-      });
-
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.detail || 'Failed to save report');
-      }
-
-      const data = await res.json();
+      // Submit report (also refreshes meeting lists, tasks and gamification widgets)
+      const data = await submitReportMutation.mutateAsync(body);
+      const xpAwarded = data.xp_awarded;
 
       // Show success message and XP toast
       if (isDraft) {
@@ -234,49 +170,40 @@ function FormContent() {
         // Redirect immediately for drafts
         router.push('/meeting-tracker/dashboard');
       } else {
-        // Trigger gamification widget refresh with updated stats
-        if (data.xp_awarded && data.xp_awarded.points > 0) {
-          // Pass the updated stats directly to avoid extra API call
-          triggerRefresh(data.xp_awarded);
-        } else {
-          // No XP awarded, just trigger refresh (will fetch from API)
-          triggerRefresh();
-        }
-
         // Show gamification toast notifications if points were awarded
-        if (data.xp_awarded && data.xp_awarded.points > 0) {
+        if (xpAwarded && xpAwarded.points && xpAwarded.points > 0) {
           // Show XP toast first
-          showXPToast(data.xp_awarded.points, data.xp_awarded.bonus_message);
+          showXPToast(xpAwarded.points, xpAwarded.bonus_message);
 
           // Show level-up toast if user leveled up
-          if (data.xp_awarded.level_changed) {
+          if (xpAwarded.level_changed) {
             setTimeout(() => {
               showLevelUpToast(
-                data.xp_awarded.new_level,
-                data.xp_awarded.level_name,
-                data.xp_awarded.level_icon
+                xpAwarded.new_level ?? xpAwarded.level,
+                xpAwarded.level_name,
+                xpAwarded.level_icon
               );
             }, 500); // Delay to show after XP toast
           }
 
           // Show tier-up toast if user tiered up
-          if (data.xp_awarded.tier_changed) {
+          if (xpAwarded.tier_changed) {
             setTimeout(() => {
               showTierUpToast(
-                data.xp_awarded.new_tier,
-                data.xp_awarded.tier_name,
-                data.xp_awarded.tier_icon
+                xpAwarded.new_tier ?? xpAwarded.annual_tier,
+                xpAwarded.tier_name,
+                xpAwarded.tier_icon
               );
-            }, data.xp_awarded.level_changed ? 1000 : 500); // Delay more if both level and tier changed
+            }, xpAwarded.level_changed ? 1000 : 500); // Delay more if both level and tier changed
           }
 
           // Show badge unlock toasts if any badges were unlocked
-          if (data.xp_awarded.badges_unlocked && data.xp_awarded.badges_unlocked.length > 0) {
+          if (xpAwarded.badges_unlocked && xpAwarded.badges_unlocked.length > 0) {
             let badgeDelay = 1500; // Start after XP/level/tier toasts
-            if (data.xp_awarded.level_changed) badgeDelay += 500;
-            if (data.xp_awarded.tier_changed) badgeDelay += 500;
+            if (xpAwarded.level_changed) badgeDelay += 500;
+            if (xpAwarded.tier_changed) badgeDelay += 500;
 
-            data.xp_awarded.badges_unlocked.forEach((badge: any, index: number) => {
+            xpAwarded.badges_unlocked.forEach((badge, index) => {
               setTimeout(() => {
                 showBadgeUnlockToast(badge.name, badge.icon, badge.rarity);
               }, badgeDelay + (index * 600)); // Stagger multiple badges
@@ -285,17 +212,17 @@ function FormContent() {
         }
 
         // Delay redirect to allow toasts to be visible
-        let redirectDelay = data.xp_awarded?.level_changed || data.xp_awarded?.tier_changed ? 3000 : 1500;
-        if (data.xp_awarded?.badges_unlocked && data.xp_awarded.badges_unlocked.length > 0) {
-          redirectDelay += data.xp_awarded.badges_unlocked.length * 1000; // Add time for badge toasts
+        let redirectDelay = xpAwarded?.level_changed || xpAwarded?.tier_changed ? 3000 : 1500;
+        if (xpAwarded?.badges_unlocked && xpAwarded.badges_unlocked.length > 0) {
+          redirectDelay += xpAwarded.badges_unlocked.length * 1000; // Add time for badge toasts
         }
         setTimeout(() => {
           router.push('/meeting-tracker/dashboard');
         }, redirectDelay);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error saving report:', error);
-      setError(error.message || 'Failed to save report');
+      setError(formatErrorForDisplay(error, 'Failed to save report'));
     } finally {
       setSaving(false);
     }
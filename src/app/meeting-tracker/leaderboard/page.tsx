@@ -4,23 +4,9 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import MeetingTrackerSidebar from '@/components/meeting-tracker/Sidebar';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-// Type definitions
-interface LeaderboardEntry {
-  rank: number;
-  user_id: string;
-  first_name: string;
-  last_name: string;
-  xp: number;
-  level?: number;
-  annual_tier?: string;
-  is_current_user: boolean;
-}
-
-type Period = 'annual' | 'all_time' | 'monthly' | 'weekly';
+import { getLeaderboard } from '@/lib/api/meeting-tracker/gamification';
+import { formatErrorForDisplay } from '@/lib/utils';
+import type { LeaderboardEntry, LeaderboardPeriod as Period } from '@/types/meeting-tracker';
 
 /**
  * Leaderboard Page Content
@@ -43,36 +29,13 @@ function LeaderboardContent() {
   const fetchLeaderboard = async () => {
     setLoading(true);
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        setError('Not authenticated');
-        setLoading(false);
-        return;
-      }
-
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/gamification/leaderboard?period=${period}&limit=100`,
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch leaderboard');
-      }
-
-      const data = await response.json();
+      const data = await getLeaderboard(period, 100);
       if (data.success && data.data) {
         setEntries(data.data.entries);
       }
     } catch (err) {
       console.error('Error fetching leaderboard:', err);
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      setError(formatErrorForDisplay(err, 'Failed to fetch leaderboard'));
     } finally {
       setLoading(false);
     }
@@ -13,28 +13,8 @@ import MeetingsCompactList from '@/components/meeting-tracker/MeetingsCompactLis
 import { useState, useEffect, useMemo } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, subDays, subMonths, subYears } from 'date-fns';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface Meeting {
-  meeting_id: string;
-  title: string;
-  category: 'R' | 'N' | 'S';
-  start_time: string;
-  end_time: string;
-  description?: string;
-  needs_review: boolean;
-  confidence: string;
-  has_report: boolean;
-  draft_saved: boolean;
-  user?: {
-    user_id: string;
-    email: string;
-    first_name: string;
-    last_name: string;
-  };
-}
+import { useInvalidateMeetingData, useMeetings } from '@/hooks/meeting-tracker';
+import type { Meeting } from '@/types/meeting-tracker';
 
 interface DashboardStats {
   total_meetings: number;
@@ -51,7 +31,6 @@ function DashboardContent() {
   const { user } = useAuth();
   const searchParams = useSearchParams();
   const router = useRouter();
-  const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [stats, setStats] = useState<DashboardStats>({
     total_meetings: 0,
     pending_reports: 0,
@@ -60,7 +39,6 @@ function DashboardContent() {
     recruitment_count: 0,
     new_count: 0,
   });
-  const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<'all' | 'R' | 'N' | 'S'>('all');
   const [selectedMeeting, setSelectedMeeting] = useState<MeetingForModal | null>(null);
 
@@ -75,6 +53,13 @@ function DashboardContent() {
   // Quick Create Modal state
   const [isQuickCreateModalOpen, setIsQuickCreateModalOpen] = useState(false);
 
+  // Fetch meetings, scoped by the team filter
+  const { data: meetingsData, isLoading: loading } = useMeetings({
+    team_filter: teamFilter && teamFilter !== 'me' ? teamFilter : undefined,
+  });
+  const meetings = useMemo<Meeting[]>(() => meetingsData || [], [meetingsData]);
+  const invalidateMeetingData = useInvalidateMeetingData();
+
   // Clear URL parameters on initial mount to ensure clean state
   useEffect(() => {
     const viewParam = searchParams.get('view');
@@ -95,10 +80,6 @@ function DashboardContent() {
     }
   }, []);
 
-  useEffect(() => {
-    fetchDashboardData();
-  }, [teamFilter]); // Refetch when team filter changes
-
   // Recalculate stats when meetings or date filter changes
   useEffect(() => {
     if (meetings.length === 0) return;
@@ -123,39 +104,6 @@ function DashboardContent() {
     });
   }, [meetings, dateRange, customStartDate, customEndDate]);
 
-  const fetchDashboardData = async () => {
-    try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      // Build query string with team filter
-      const params = new URLSearchParams();
-      if (teamFilter && teamFilter !== 'me') {
-        params.append('team_filter', teamFilter);
-      }
-
-      const queryString = params.toString();
-      const url = `${API_BASE_URL}/api/v1/meeting-tracker/meetings${queryString ? `?${queryString}` : ''}`;
-
-      // Fetch meetings
-      const meetingsRes = await fetch(url, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (!meetingsRes.ok) throw new Error('Failed to fetch meetings');
-
-      const meetingsData = await meetingsRes.json();
-      const meetingsList = meetingsData.meetings || [];
-
-      setMeetings(meetingsList);
-    } catch (error) {
-      console.error('Error fetching dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const getCategoryLabel = (category: string): string => {
     switch (category) {
       case 'R':
@@ -479,7 +427,7 @@ function DashboardContent() {
         <MeetingDetailModal
           meeting={selectedMeeting}
           onClose={() => setSelectedMeeting(null)}
-          onRefresh={fetchDashboardData}
+          onRefresh={invalidateMeetingData}
         />
       )}
 
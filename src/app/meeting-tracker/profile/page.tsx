@@ -9,9 +9,7 @@ import ProtectedRoute from '@/components/ProtectedRoute';
 import MeetingTrackerSidebar from '@/components/meeting-tracker/Sidebar';
 import { ApiError } from '@/types/auth';
 import { formatErrorForDisplay } from '@/lib/utils';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+import { getSettings, updateSettings } from '@/lib/api/meeting-tracker/settings';
 
 // Common timezones for dropdown
 const COMMON_TIMEZONES = [
@@ -72,20 +70,10 @@ function ProfileContent() {
   useEffect(() => {
     const fetchUserSettings = async () => {
       try {
-        const authTokens = localStorage.getItem('auth_tokens');
-        if (!authTokens) return;
-        const { access_token: token } = JSON.parse(authTokens);
-
-        const res = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/settings`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-
-        if (res.ok) {
-          const data = await res.json();
-          const userTimezone = data.settings?.timezone || 'UTC';
-          setCurrentTimezone(userTimezone);
-          form.setValue('timezone', userTimezone);
-        }
+        const data = await getSettings();
+        const userTimezone = data.settings?.timezone || 'UTC';
+        setCurrentTimezone(userTimezone);
+        form.setValue('timezone', userTimezone);
       } catch (error) {
         console.error('Error fetching user settings:', error);
       }
@@ -100,10 +88,6 @@ function ProfileContent() {
     setSuccess(null);
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) throw new Error('Not authenticated');
-      const { access_token: token } = JSON.parse(authTokens);
-
       // Update user profile
       await updateProfile({
         first_name: data.first_name,
@@ -112,18 +96,7 @@ function ProfileContent() {
       });
 
       // Update timezone in meeting tracker settings
-      const settingsRes = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/settings`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ timezone: data.timezone }),
-      });
-
-      if (!settingsRes.ok) {
-        throw new Error('Failed to update timezone');
-      }
+      await updateSettings({ timezone: data.timezone });
 
       await refreshUser();
       setCurrentTimezone(data.timezone);
@@ -4,9 +4,19 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import MeetingTrackerSidebar from '@/components/meeting-tracker/Sidebar';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+import {
+  disconnectGoogleCalendar,
+  generateTelegramLink,
+  getGoogleAuthUrl,
+  getGoogleCalendarStatus,
+  getSettings,
+  getTelegramStatus,
+  sendTelegramTest,
+  syncGoogleCalendar,
+  unlinkTelegram,
+  updateSettings,
+} from '@/lib/api/meeting-tracker/settings';
+import { formatErrorForDisplay } from '@/lib/utils';
 
 // Common timezones for dropdown
 const COMMON_TIMEZONES = [
@@ -95,16 +105,15 @@ function SettingsContent() {
 
   const fetchAllSettings = async () => {
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      // Fetch Google Calendar status
-      const googleRes = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/google/status`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (googleRes.ok) {
-        const data = await googleRes.json();
+      // Each source is independent - one failing shouldn't hide the others
+      const [googleResult, telegramResult, settingsResult] = await Promise.allSettled([
+        getGoogleCalendarStatus(),
+        getTelegramStatus(),
+        getSettings(),
+      ]);
+
+      if (googleResult.status === 'fulfilled') {
+        const data = googleResult.value;
         setGoogleStatus({
           is_connected: data.connected,
           last_sync: data.last_sync_at,
@@ -112,12 +121,8 @@ function SettingsContent() {
         });
       }
 
-      // Fetch Telegram status
-      const telegramRes = await fetch(`${API_BASE_URL}/api/v1/telegram/status`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (telegramRes.ok) {
-        const data = await telegramRes.json();
+      if (telegramResult.status === 'fulfilled') {
+        const data = telegramResult.value;
         if (data.success && data.data) {
           setTelegramStatus({
             connected: data.data.connected,
@@ -126,12 +131,8 @@ function SettingsContent() {
         }
       }
 
-      // Fetch user settings
-      const settingsRes = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/settings`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (settingsRes.ok) {
-        const data = await settingsRes.json();
+      if (settingsResult.status === 'fulfilled') {
+        const data = settingsResult.value;
         setSettings({
           timezone: data.settings?.timezone || 'UTC',
           meeting_prefix: data.settings?.meeting_prefix || 'Meeting',
@@ -147,32 +148,11 @@ function SettingsContent() {
 
   const handleConnectGoogle = async () => {
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        console.error('No access token found');
-        setError('Not authenticated. Please log in again.');
-        return;
-      }
-      const { access_token: token } = JSON.parse(authTokens);
-
-      // console.log('Connecting to Google Calendar...');
-      const res = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/google/auth-url`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      // console.log('Response status:', res.status);
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({ detail: 'Unknown error' }));
-        console.error('Error response:', errorData);
-        throw new Error(errorData.detail || 'Failed to initiate Google OAuth');
-      }
-
-      const data = await res.json();
-      // console.log('Auth URL received:', data);
+      const data = await getGoogleAuthUrl();
       window.location.href = data.authorization_url;
     } catch (error) {
       console.error('Google Calendar connection error:', error);
-      setError(error instanceof Error ? error.message : 'Failed to connect Google Calendar');
+      setError(formatErrorForDisplay(error, 'Failed to connect Google Calendar'));
     }
   };
 
@@ -182,16 +162,7 @@ function SettingsContent() {
     }
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const res = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/google/disconnect`, {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (!res.ok) throw new Error('Failed to disconnect');
+      await disconnectGoogleCalendar();
 
       setGoogleStatus({ is_connected: false });
       setSuccess('Google Calendar disconnected successfully');
@@ -204,18 +175,7 @@ function SettingsContent() {
   const handleSyncNow = async () => {
     setSyncingCalendar(true);
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const res = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/google/sync`, {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (!res.ok) throw new Error('Sync failed');
-
-      const data = await res.json();
+      const data = await syncGoogleCalendar();
       const created = data.stats?.meetings_created || 0;
       const updated = data.stats?.meetings_updated || 0;
       const total = created + updated;
@@ -243,30 +203,21 @@ function SettingsContent() {
 
   const checkTelegramStatus = async () => {
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const telegramRes = await fetch(`${API_BASE_URL}/api/v1/telegram/status`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (telegramRes.ok) {
-        const data = await telegramRes.json();
-        if (data.success && data.data) {
-          setTelegramStatus({
-            connected: data.data.connected,
-            chat_id: data.data.chat_id
-          });
+      const data = await getTelegramStatus();
+      if (data.success && data.data) {
+        setTelegramStatus({
+          connected: data.data.connected,
+          chat_id: data.data.chat_id
+        });
 
-          // If connected, stop polling and show success
-          if (data.data.connected && pollingInterval) {
-            clearInterval(pollingInterval);
-            setPollingInterval(null);
-            setTelegramLink(null);
-            setTelegramToken(null);
-            setSuccess('Telegram connected successfully!');
-            setTimeout(() => setSuccess(null), 5000);
-          }
+        // If connected, stop polling and show success
+        if (data.data.connected && pollingInterval) {
+          clearInterval(pollingInterval);
+          setPollingInterval(null);
+          setTelegramLink(null);
+          setTelegramToken(null);
+          setSuccess('Telegram connected successfully!');
+          setTimeout(() => setSuccess(null), 5000);
         }
       }
     } catch (error) {
@@ -280,20 +231,7 @@ function SettingsContent() {
     setSuccess(null);
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const res = await fetch(`${API_BASE_URL}/api/v1/telegram/generate-link`, {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new Error(data.detail || 'Failed to generate Telegram link');
-      }
+      const data = await generateTelegramLink();
 
       if (data.success && data.data.token) {
         setTelegramToken(data.data.token);
@@ -314,7 +252,7 @@ function SettingsContent() {
         }, 15 * 60 * 1000);
       }
     } catch (error) {
-      setError(error instanceof Error ? error.message : 'Failed to generate link');
+      setError(formatErrorForDisplay(error, 'Failed to generate link'));
       setTimeout(() => setError(null), 5000);
     } finally {
       setGeneratingLink(false);
@@ -327,25 +265,12 @@ function SettingsContent() {
     setSuccess(null);
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const res = await fetch(`${API_BASE_URL}/api/v1/telegram/test`, {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new Error(data.detail || 'Failed to send test notification');
-      }
+      await sendTelegramTest();
 
       setSuccess('Test notification sent! Check your Telegram.');
       setTimeout(() => setSuccess(null), 5000);
     } catch (error) {
-      setError(error instanceof Error ? error.message : 'Failed to send test notification');
+      setError(formatErrorForDisplay(error, 'Failed to send test notification'));
       setTimeout(() => setError(null), 5000);
     } finally {
       setTestingTelegram(false);
@@ -358,16 +283,7 @@ function SettingsContent() {
     }
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const res = await fetch(`${API_BASE_URL}/api/v1/telegram/unlink`, {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (!res.ok) throw new Error('Failed to unlink');
+      await unlinkTelegram();
 
       setTelegramStatus({ connected: false });
       setSuccess('Telegram unlinked successfully');
@@ -383,20 +299,7 @@ function SettingsContent() {
     setSuccess(null);
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const res = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/settings`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(settings),
-      });
-
-      if (!res.ok) throw new Error('Failed to save settings');
+      await updateSettings(settings);
 
       setSuccess('Settings saved successfully!');
       setTimeout(() => setSuccess(null), 3000);
@@ -2,7 +2,6 @@
 
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/contexts/ToastContext';
-import { useGamification } from '@/contexts/GamificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import MeetingTrackerSidebar from '@/components/meeting-tracker/Sidebar';
 import TeamFilter from '@/components/meeting-tracker/TeamFilter';
@@ -13,8 +12,7 @@ import MeetingTaskGroup from '@/components/meeting-tracker/MeetingTaskGroup';
 import { useState, useEffect } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { format, isToday, isTomorrow, isPast, parseISO, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, subDays, subMonths, subYears, addDays } from 'date-fns';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+import { useDeleteTask, useTasks, useUpdateTaskStatus } from '@/hooks/meeting-tracker';
 
 type DateRangeFilter = 'this_month' | 'last_7_days' | 'last_30_days' | 'this_week' | 'last_month' | 'this_year' | 'last_year' | 'custom' | 'all_time';
 
@@ -65,18 +63,8 @@ interface GroupedTasks {
 function TasksContent() {
   const { user } = useAuth();
   const { showXPToast, showLevelUpToast, showTierUpToast } = useToast();
-  const { triggerRefresh } = useGamification();
   const searchParams = useSearchParams();
   const router = useRouter();
-  const [loading, setLoading] = useState(true);
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [groupedTasks, setGroupedTasks] = useState<GroupedTasks[]>([]);
-  const [statistics, setStatistics] = useState<Statistics>({
-    total: 0,
-    completed: 0,
-    pending: 0,
-    overdue: 0,
-  });
 
   // Team filter
   const [teamFilter, setTeamFilter] = useState<string>('me');
@@ -109,51 +97,6 @@ function TasksContent() {
     }
   }, []);
 
-  useEffect(() => {
-    if (user) {
-      fetchTasks();
-    }
-  }, [user, teamFilter, statusFilter, priorityFilter, dateRange, customStartDate, customEndDate]);
-
-  const fetchTasks = async () => {
-    try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      // Build query parameters
-      const params = new URLSearchParams();
-      if (statusFilter !== 'all') params.append('status', statusFilter);
-      if (priorityFilter !== 'all') params.append('priority', priorityFilter);
-      if (teamFilter && teamFilter !== 'me') params.append('team_filter', teamFilter);
-
-      // Add date range filters
-      const { start, end } = getDateRange();
-      if (start) params.append('due_from', format(start, 'yyyy-MM-dd'));
-      if (end) params.append('due_to', format(end, 'yyyy-MM-dd'));
-
-      const res = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/tasks/?${params.toString()}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (!res.ok) throw new Error('Failed to fetch tasks');
-
-      const data = await res.json();
-      const fetchedTasks = data.tasks || [];
-
-      setTasks(fetchedTasks);
-      setStatistics(data.statistics || { total: 0, completed: 0, pending: 0, overdue: 0 });
-
-      // Group and sort tasks
-      const grouped = groupAndSortTasks(fetchedTasks);
-      setGroupedTasks(grouped);
-    } catch (error) {
-      console.error('Error fetching tasks:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   // Group tasks by meeting and sort them according to the plan
   const groupAndSortTasks = (tasks: Task[]): GroupedTasks[] => {
     // Filter out tasks without meeting information
@@ -265,6 +208,25 @@ function TasksContent() {
     }
   };
 
+  // Add date range filters
+  const { start, end } = getDateRange();
+  const { data, isLoading: loading } = useTasks(
+    {
+      status: statusFilter !== 'all' ? statusFilter : undefined,
+      priority: priorityFilter !== 'all' ? priorityFilter : undefined,
+      team_filter: teamFilter && teamFilter !== 'me' ? teamFilter : undefined,
+      due_from: start ? format(start, 'yyyy-MM-dd') : undefined,
+      due_to: end ? format(end, 'yyyy-MM-dd') : undefined,
+    },
+    !!user
+  );
+  const tasks = data?.tasks || [];
+  const statistics: Statistics = data?.statistics || { total: 0, completed: 0, pending: 0, overdue: 0 };
+  const groupedTasks = groupAndSortTasks(tasks);
+
+  const updateTaskStatusMutation = useUpdateTaskStatus();
+  const deleteTaskMutation = useDeleteTask();
+
   // Get label for current date filter
   const getDateRangeLabel = (): string => {
     switch (dateRange) {
@@ -289,67 +251,37 @@ function TasksContent() {
 
   const toggleTaskStatus = async (taskId: string, newStatus: 'pending' | 'completed') => {
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const res = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/tasks/${taskId}`, {
-        method: 'PATCH',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ status: newStatus }),
-      });
-
-      if (!res.ok) throw new Error('Failed to update task');
-
-      const data = await res.json();
-      // console.log('[TasksPage] Task update response:', data);
-      // console.log('[TasksPage] xp_awarded object:', data.xp_awarded);
-
-      // Trigger gamification widget refresh with updated stats
-      // Check if xp_awarded exists and has the expected structure
-      if (data.xp_awarded && data.xp_awarded.user_id) {
-        // console.log('[TasksPage] XP awarded, passing stats to triggerRefresh:', data.xp_awarded);
-        // Pass the updated stats directly to avoid extra API call
-        triggerRefresh(data.xp_awarded);
-      } else {
-        // console.log('[TasksPage] No XP awarded, triggering refresh without stats');
-        // No XP awarded, just trigger refresh (will fetch from API)
-        triggerRefresh();
-      }
+      // Also refreshes the task list and the gamification widgets
+      const data = await updateTaskStatusMutation.mutateAsync({ taskId, status: newStatus });
+      const xpAwarded = data.xp_awarded;
 
       // Show gamification toast notifications if points were awarded
-      if (data.xp_awarded && data.xp_awarded.points > 0) {
+      if (xpAwarded && xpAwarded.points && xpAwarded.points > 0) {
         // Show XP toast first
-        showXPToast(data.xp_awarded.points, data.xp_awarded.bonus_message);
+        showXPToast(xpAwarded.points, xpAwarded.bonus_message);
 
         // Show level-up toast if user leveled up
-        if (data.xp_awarded.level_changed) {
+        if (xpAwarded.level_changed) {
           setTimeout(() => {
             showLevelUpToast(
-              data.xp_awarded.new_level,
-              data.xp_awarded.level_name,
-              data.xp_awarded.level_icon
+              xpAwarded.new_level ?? xpAwarded.level,
+              xpAwarded.level_name,
+              xpAwarded.level_icon
             );
           }, 500); // Delay to show after XP toast
         }
 
         // Show tier-up toast if user tiered up
-        if (data.xp_awarded.tier_changed) {
+        if (xpAwarded.tier_changed) {
           setTimeout(() => {
             showTierUpToast(
-              data.xp_awarded.new_tier,
-              data.xp_awarded.tier_name,
-              data.xp_awarded.tier_icon
+              xpAwarded.new_tier ?? xpAwarded.annual_tier,
+              xpAwarded.tier_name,
+              xpAwarded.tier_icon
             );
-          }, data.xp_awarded.level_changed ? 1000 : 500); // Delay more if both level and tier changed
+          }, xpAwarded.level_changed ? 1000 : 500); // Delay more if both level and tier changed
         }
       }
-
-      // Refresh tasks
-      await fetchTasks();
     } catch (error) {
       console.error('Error updating task:', error);
     }
@@ -364,19 +296,7 @@ function TasksContent() {
     if (!confirm('Are you sure you want to delete this task?')) return;
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const res = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/tasks/${taskId}`, {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (!res.ok) throw new Error('Failed to delete task');
-
-      // Refresh tasks
-      await fetchTasks();
+      await deleteTaskMutation.mutateAsync(taskId);
     } catch (error) {
       console.error('Error deleting task:', error);
     }
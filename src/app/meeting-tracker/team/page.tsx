@@ -3,42 +3,14 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import MeetingTrackerSidebar from '@/components/meeting-tracker/Sidebar';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface HierarchyNode {
-  member_id: string;
-  user_id: string;
-  name: string;
-  email: string;
-  level: number;
-  team_name: string | null;
-  position_title: string | null;
-  depth: number;
-  manager_id: string | null;
-}
-
-interface GamificationStats {
-  user_id: string;
-  has_stats: boolean;
-  lifetime_xp?: number;
-  level?: number;
-  level_name?: string;
-  level_icon?: string;
-  xp_to_next_level?: number;
-  current_year_xp?: number;
-  current_year?: number;
-  annual_tier?: string;
-  tier_name?: string;
-  tier_icon?: string;
-  xp_to_next_tier?: number;
-  current_streak?: number;
-  longest_streak?: number;
-  reports_submitted?: number;
-  tasks_completed?: number;
-}
+import { getTeamStats } from '@/lib/api/meeting-tracker/gamification';
+import { getHierarchyTree } from '@/lib/api/meeting-tracker/hierarchy';
+import { hierarchyMeQueryOptions } from '@/hooks/meeting-tracker';
+import { formatErrorForDisplay } from '@/lib/utils';
+import type { HierarchyNode, TeamMemberStats as GamificationStats } from '@/types/meeting-tracker';
 
 interface HierarchyByLevel {
   [key: number]: HierarchyNode[];
@@ -53,6 +25,7 @@ type ViewMode = 'level' | 'manager';
 
 function MyTeamContent() {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hierarchyData, setHierarchyData] = useState<HierarchyNode[]>([]);
@@ -67,30 +40,11 @@ function MyTeamContent() {
 
   const fetchGamificationStats = async () => {
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
       // Fetch team gamification stats
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/gamification/team-stats`,
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      if (!response.ok) {
-        console.warn('Failed to fetch team gamification stats');
-        return;
-      }
-
-      const data = await response.json();
+      const data = await getTeamStats();
       if (data.success && data.data.team_members) {
         const statsMap = new Map<string, GamificationStats>();
-        data.data.team_members.forEach((member: GamificationStats) => {
+        data.data.team_members.forEach((member) => {
           statsMap.set(member.user_id, member);
         });
         setGamificationStats(statsMap);
@@ -105,28 +59,8 @@ function MyTeamContent() {
     setError(null);
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        throw new Error('No authentication token found');
-      }
-      const { access_token: token } = JSON.parse(authTokens);
-
       // Fetch current user's hierarchy info first
-      const meResponse = await fetch(
-        `${API_BASE_URL}/api/v1/meeting-tracker/hierarchy/me`,
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      if (!meResponse.ok) {
-        throw new Error('Failed to fetch current user hierarchy info');
-      }
-
-      const meData = await meResponse.json();
+      const meData = await queryClient.fetchQuery(hierarchyMeQueryOptions);
 
       if (!meData.is_in_hierarchy) {
         setError('You are not part of any team hierarchy');
@@ -134,24 +68,10 @@ function MyTeamContent() {
         return;
       }
 
-      setCurrentUserMemberId(meData.member_id);
+      setCurrentUserMemberId(meData.member_id || null);
 
       // Fetch hierarchy tree
-      const treeResponse = await fetch(
-        `${API_BASE_URL}/api/v1/meeting-tracker/hierarchy/tree`,
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      if (!treeResponse.ok) {
-        throw new Error('Failed to fetch hierarchy tree');
-      }
-
-      const treeData = await treeResponse.json();
+      const treeData = await getHierarchyTree();
 
       if (treeData.tree && treeData.tree.length > 0) {
         setHierarchyData(treeData.tree);
@@ -162,7 +82,7 @@ function MyTeamContent() {
       }
 
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load team hierarchy');
+      setError(formatErrorForDisplay(err, 'Failed to load team hierarchy'));
     } finally {
       setLoading(false);
     }
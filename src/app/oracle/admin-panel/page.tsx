@@ -6,42 +6,8 @@ import Sidebar from '@/components/Sidebar';
 import { UserRole } from '@/types/auth';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { apiClient } from '@/lib/api';
-
-interface AdminStats {
-  total_team_members: number;
-  total_products: number;
-  pending_invitations: number;
-  total_proposals: number;
-}
-
-interface RecentUpload {
-  insurance_name: string;
-  created_at: string;
-}
-
-interface RecentInvitation {
-  invited_by_name: string;
-  email: string;
-  created_at: string;
-}
-
-interface RecentProposal {
-  created_by_name: string;
-  client_name: string;
-  created_at: string;
-}
-
-interface RecentActivities {
-  recent_uploads: RecentUpload[];
-  recent_invitations: RecentInvitation[];
-  recent_proposals: RecentProposal[];
-}
-
-interface AdminDashboardData {
-  stats: AdminStats;
-  recent_activities: RecentActivities;
-}
+import { getAdminDashboard } from '@/lib/api/oracle/admin';
+import type { AdminDashboardData } from '@/types/oracle/admin-dashboard';
 
 function AdminPanelContent() {
   const { user } = useAuth();
@@ -58,13 +24,7 @@ function AdminPanelContent() {
     try {
       setIsLoading(true);
       setError(null);
-      const response = await apiClient.get('/api/v1/oracle/admin-dashboard/stats');
-
-      if (response.data.success) {
-        setDashboardData(response.data.data);
-      } else {
-        setError('Failed to load admin dashboard data');
-      }
+      setDashboardData(await getAdminDashboard());
     } catch (err) {
       console.error('Error fetching admin dashboard data:', err);
       setError('Failed to load admin dashboard data');
@@ -6,21 +6,9 @@ import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
 import { UserRole } from '@/types/auth';
 import { useRouter } from 'next/navigation';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface Insurance {
-  insurance_id: string;
-  insurance_name: string;
-  provider: string;
-  category: string;
-  commission_count?: number;
-  role_commission?: {
-    year_1: number;
-    year_2: number;
-    year_3: number;
-  };
-}
+import { listProductsWithCommissions } from '@/lib/api/oracle/commissions';
+import { formatErrorForDisplay } from '@/lib/utils';
+import type { ProductWithCommissions as Insurance } from '@/types/oracle/commission';
 
 function CommissionsContent() {
   const { user } = useAuth();
@@ -62,53 +50,17 @@ function CommissionsContent() {
 
   const fetchInsurances = async () => {
     try {
-      // Get token from the same storage method used by the auth system
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      let token = null;
-      
-      if (authTokensStr) {
-        try {
-          const authTokens = JSON.parse(authTokensStr);
-          token = authTokens?.access_token;
-        } catch (e) {
-          console.error('Failed to parse auth tokens:', e);
-        }
-      }
+      // Use the new optimized endpoint that returns products with commission data in one call
+      const result = await listProductsWithCommissions(getDisplayRoleId());
       
-      if (!token) {
-        alert('No authentication token found. Please log out and log back in.');
-        return;
-      }
+      // Extract data from BaseResponse format
+      const insurancesData = result.success && result.data ? result.data : [];
       
-      // Use the new optimized endpoint that returns products with commission data in one call
-      const displayRoleId = getDisplayRoleId();
-      const response = await fetch(`${API_BASE_URL}/api/v1/oracle/commissions/products-with-commissions?display_role_id=${displayRoleId}&limit=2000`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        // console.log('Optimized Products API response:', result); // Debug log
-        
-        // Extract data from BaseResponse format
-        // const insurancesData = result.success && result.data ? result.data : [];
-        
-        // Data already includes commission_count and role_commission - no additional processing needed!
-        // setInsurances(insurancesData);
-      } else {
-        const errorResult = await response.text();
-        console.error('Failed to fetch insurances:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorResult
-        });
-        alert(`Failed to fetch insurances: ${response.status} ${response.statusText}\n\nResponse: ${errorResult.substring(0, 200)}...`);
-      }
+      // Data already includes commission_count and role_commission - no additional processing needed!
+      setInsurances(insurancesData);
     } catch (error) {
       console.error('Error fetching insurances:', error);
+      alert(`Failed to fetch insurances: ${formatErrorForDisplay(error)}`);
     } finally {
       setLoading(false);
     }
@@ -5,30 +5,15 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import { apiClient } from '@/lib/api';
-
-interface Company {
-  company_id: string;
-  name: string;
-  email?: string;
-  phone?: string;
-  address?: string;
-  website?: string;
-  city?: string;
-  country?: string;
-  logo_url?: string;
-  vision?: string;
-  mission?: string;
-  tagline?: string;
-  summary?: string;
-  description?: string;
-  values?: string[];
-  licensing_info?: string;
-  certifications?: string[];
-  is_default?: boolean;
-  created_at: string;
-  updated_at?: string;
-}
+import {
+  createCompany,
+  deleteCompany,
+  getOwnCompany,
+  listCompanies,
+  updateCompany,
+  uploadCompanyLogo,
+} from '@/lib/api/oracle/companies';
+import type { CompanyProfile as Company } from '@/types/oracle/company';
 
 function CompanyManagementContent() {
   const { user } = useAuth();
@@ -76,13 +61,13 @@ function CompanyManagementContent() {
       // MASTER role: View all companies
       // SUPER_ADMIN/ADMIN: View only their own company
       if (user?.role === 'MASTER') {
-        const response = await apiClient.get('/api/v1/oracle/companies');
-        setCompanies(response.data.companies || []);
+        const response = await listCompanies();
+        setCompanies(response.companies || []);
       } else {
         // For non-MASTER users, fetch their own company
-        const response = await apiClient.get('/api/v1/oracle/companies/me');
+        const company = await getOwnCompany();
         // Wrap single company in array for consistent UI handling
-        setCompanies([response.data]);
+        setCompanies([company]);
         // Don't auto-open modal - let user click Edit button
       }
     } catch (error: any) {
@@ -125,46 +110,21 @@ function CompanyManagementContent() {
         delete payload.updated_at;
       }
 
-      let response;
+      let company: Company;
       if (editingCompany) {
         // Update existing company
-        response = await apiClient.patch(`/api/v1/oracle/companies/${editingCompany.company_id}`, payload);
+        company = await updateCompany(editingCompany.company_id, payload);
         notifySuccess('Success', 'Company updated successfully');
       } else {
         // Create new company
-        response = await apiClient.post('/api/v1/oracle/companies', payload);
+        company = await createCompany(payload);
         notifySuccess('Success', 'Company created successfully');
       }
 
-      // Upload logo if provided
-      // console.log('🔍 Debug - Logo upload check:', {
-      //   hasLogoFile: !!logoFile,
-      //   responseStructure: Object.keys(response || {}),
-      //   response: response
-      // });
-      
       if (logoFile) {
-        // Handle different response structures
-        let companyId = null;
-        if (response.data?.company_id) {
-          // Direct company data in response.data
-          companyId = response.data.company_id;
-        } else if (response.data?.company?.company_id) {
-          // Wrapped company data in response.data.company
-          companyId = response.data.company.company_id;
-        } else if (response.company?.company_id) {
-          // Company data in response.company
-          companyId = response.company.company_id;
-        }
-
-        if (companyId) {
-          // console.log('🚀 Starting logo upload for company:', companyId);
-          const logoUrl = await handleLogoUpload(companyId);
-          if (logoUrl) {
-            notifySuccess('Logo Upload', 'Logo uploaded successfully');
-          }
-        } else {
-          console.warn('⚠️ Logo file selected but no company ID found in response:', response);
+        const logoUrl = await handleLogoUpload(company.company_id);
+        if (logoUrl) {
+          notifySuccess('Logo Upload', 'Logo uploaded successfully');
         }
       }
 
@@ -196,7 +156,7 @@ function CompanyManagementContent() {
     }
 
     try {
-      await apiClient.delete(`/api/v1/oracle/companies/${companyId}`);
+      await deleteCompany(companyId);
       notifySuccess('Success', 'Company deleted successfully');
       await fetchCompanies();
     } catch (error: any) {
@@ -247,23 +207,7 @@ function CompanyManagementContent() {
 
     try {
       setIsUploadingLogo(true);
-      
-      const formData = new FormData();
-      formData.append('logo_file', logoFile);
-
-      // console.log('📡 Sending logo upload request...');
-      const response = await apiClient.post(
-        `/api/v1/oracle/companies/${companyId}/upload-logo`,
-        formData,
-        {
-          headers: {
-            'Content-Type': 'multipart/form-data',
-          },
-        }
-      );
-
-      // console.log('✅ Logo upload response:', response);
-      return response.logo_url;
+      return await uploadCompanyLogo(companyId, logoFile);
     } catch (error: any) {
       console.error('❌ Logo upload error:', error);
       notifyError('Upload Error', error.detail || 'Failed to upload logo');
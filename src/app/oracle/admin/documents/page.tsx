@@ -13,7 +13,7 @@ import {
   UploadedDocument,
   DEFAULT_UPLOAD_OPTIONS 
 } from '@/types/upload';
-import { apiClient } from '@/lib/api';
+import { listUploadedDocuments } from '@/lib/api/oracle/admin';
 import { formatErrorForDisplay } from '@/lib/utils';
 
 function DocumentsContent() {
@@ -48,14 +48,7 @@ function DocumentsContent() {
     try {
       setIsLoading(true);
       
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: UploadedDocument[];
-      }>('/api/v1/oracle/admin/uploaded-documents?limit=5');
-      
-      // Extract documents array from wrapped response
-      const documents = response.data.data || [];
+      const documents = await listUploadedDocuments(5);
       setUploadedDocuments(documents);
       
       // Calculate stats from the documents array
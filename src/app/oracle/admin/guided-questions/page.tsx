@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Sidebar from '@/components/Sidebar';
+import GuidedQuestionSetEditor from '@/components/guided-discovery/GuidedQuestionSetEditor';
+import { GUIDED_CATEGORY_NAMES, getAllCategories, type Question } from '@/config/guidedQuestions';
+import { useGuidedQuestionSets, useResetGuidedQuestionSet, useSaveGuidedQuestionSet } from '@/hooks/oracle';
+import { resolveQuestionSet } from '@/lib/guided-questions';
+import { UserRole } from '@/types/auth';
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+function GuidedQuestionsContent() {
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const { data: sets = [], isLoading, isError, refetch } = useGuidedQuestionSets();
+  const saveSet = useSaveGuidedQuestionSet();
+  const resetSet = useResetGuidedQuestionSet();
+
+  const getCategoryName = (categoryId: string) => GUIDED_CATEGORY_NAMES[categoryId] || categoryId;
+
+  const handleSave = (questions: Question[]) => {
+    if (!editingCategory) return;
+    const name = getCategoryName(editingCategory);
+    saveSet.mutate(
+      { categoryId: editingCategory, data: { questions } },
+      {
+        onSuccess: () => {
+          toast.success(`Saved ${name} questions`);
+          setEditingCategory(null);
+        },
+        onError: (error: any) => {
+          console.error('Error saving guided questions:', error);
+          toast.error(error.detail || 'Failed to save questions');
+        },
+      }
+    );
+  };
+
+  const handleReset = (categoryId: string) => {
+    const name = getCategoryName(categoryId);
+    const confirmReset = window.confirm(
+      `Go back to the default ${name} questions? Your company's changes to them will be lost.`
+    );
+    if (!confirmReset) return;
+
+    resetSet.mutate(categoryId, {
+      onSuccess: () => toast.success(`${name} is back to the default questions`),
+      onError: (error: any) => {
+        console.error('Error resetting guided questions:', error);
+        toast.error(error.detail || 'Failed to reset questions');
+      },
+    });
+  };
+
+  return (
+    <Sidebar>
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
+        <main className="max-w-7xl mx-auto px-6 py-8">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">Guided Questions</h1>
+            <p className="text-gray-600 mt-2">
+              The questions advisors answer in guided product search and when finding products for a client. Changes
+              apply to your company only; categories you haven&apos;t edited use the standard questions.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : isError ? (
+            <div className="text-center py-12">
+              <p className="text-red-600 mb-4">Failed to load guided questions</p>
+              <button
+                onClick={() => refetch()}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Try Again
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {getAllCategories().map((categoryId) => {
+                const own = sets.find((set) => set.category_id === categoryId);
+                const questions = resolveQuestionSet(categoryId, sets);
+                const branching = questions.filter((question) => question.showIf && question.showIf.length > 0).length;
+                return (
+                  <div
+                    key={categoryId}
+                    className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6 flex flex-col"
+                  >
+                    <div className="flex items-start justify-between mb-2">
+                      <h2 className="text-lg font-semibold text-gray-900">{getCategoryName(categoryId)}</h2>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          own ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {own ? 'Custom' : 'Default'}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 mb-1">
+                      {questions.length} question{questions.length === 1 ? '' : 's'}
+                      {branching > 0 && `, ${branching} asked only after certain answers`}
+                    </p>
+                    {own && (
+                      <p className="text-xs text-gray-500 mb-4">
+                        Edited {formatDate(own.updated_at)}
+                        {own.updated_by_name && ` by ${own.updated_by_name}`}
+                      </p>
+                    )}
+
+                    <div className="flex justify-end space-x-3 mt-auto pt-4">
+                      {own && (
+                        <button
+                          onClick={() => handleReset(categoryId)}
+                          disabled={resetSet.isPending}
+                          className="px-3 py-1.5 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Reset to default
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setEditingCategory(categoryId)}
+                        className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                      >
+                        Edit
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </main>
+      </div>
+
+      {editingCategory && (
+        <GuidedQuestionSetEditor
+          categoryName={getCategoryName(editingCategory)}
+          initialQuestions={resolveQuestionSet(editingCategory, sets)}
+          saving={saveSet.isPending}
+          onSave={handleSave}
+          onClose={() => setEditingCategory(null)}
+        />
+      )}
+    </Sidebar>
+  );
+}
+
+export default function GuidedQuestionsPage() {
+  return (
+    <ProtectedRoute allowedRoles={[UserRole.ADMIN, UserRole.SUPER_ADMIN]}>
+      <GuidedQuestionsContent />
+    </ProtectedRoute>
+  );
+}
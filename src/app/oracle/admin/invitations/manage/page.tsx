@@ -6,22 +6,13 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import { apiClient } from '@/lib/api';
-
-interface Invitation {
-  id: number;
-  email: string;
-  role_id: number;
-  role_name: string;
-  company_id: string;
-  company_name: string;
-  invited_by: string;
-  invited_by_email: string;
-  status: string;
-  created_at: string;
-  expires_at: string;
-  updated_at?: string;
-}
+import {
+  cleanupExpiredInvitations,
+  listInvitations,
+  resendInvitation,
+  revokeInvitation,
+} from '@/lib/api/oracle/invitations';
+import type { Invitation } from '@/types/oracle/invitation';
 
 function ManageInvitationsContent() {
   const { user } = useAuth();
@@ -44,22 +35,13 @@ function ManageInvitationsContent() {
     try {
       setIsLoading(true);
       
-      const params = new URLSearchParams({
-        limit: '50' // Get more invitations for the management page
+      const { invitations, total } = await listInvitations({
+        limit: 50, // Get more invitations for the management page
+        status_filter: statusFilter || undefined
       });
-      
-      if (statusFilter) {
-        params.append('status_filter', statusFilter);
-      }
-      
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: { invitations: Invitation[]; total: number };
-      }>(`/api/v1/oracle/invitations?${params.toString()}`);
-      
-      setInvitations(response.data.data.invitations || []);
-      setTotalInvitations(response.data.data.total || 0);
+
+      setInvitations(invitations || []);
+      setTotalInvitations(total || 0);
     } catch (error: any) {
       console.error('Error fetching invitations:', error);
       notifyError('Error', 'Failed to fetch invitations');
@@ -70,12 +52,12 @@ function ManageInvitationsContent() {
 
   const handleResendInvitation = async (invitationId: number, email: string) => {
     try {
-      await apiClient.post(`/api/v1/oracle/invitations/${invitationId}/resend`);
+      await resendInvitation(invitationId);
       notifySuccess('Success', `Invitation resent to ${email}`);
       fetchInvitations();
     } catch (error: any) {
       console.error('Error resending invitation:', error);
-      const errorMessage = error.response?.data?.detail || error.message || 'Failed to resend invitation';
+      const errorMessage = error.detail || error.message || 'Failed to resend invitation';
       notifyError('Resend Error', errorMessage);
     }
   };
@@ -86,12 +68,12 @@ function ManageInvitationsContent() {
     }
 
     try {
-      await apiClient.delete(`/api/v1/oracle/invitations/${invitationId}`);
+      await revokeInvitation(invitationId);
       notifySuccess('Success', `Invitation for ${email} has been revoked`);
       fetchInvitations();
     } catch (error: any) {
       console.error('Error revoking invitation:', error);
-      const errorMessage = error.response?.data?.detail || error.message || 'Failed to revoke invitation';
+      const errorMessage = error.detail || error.message || 'Failed to revoke invitation';
       notifyError('Revoke Error', errorMessage);
     }
   };
@@ -102,18 +84,12 @@ function ManageInvitationsContent() {
     }
 
     try {
-      const response = await apiClient.post<{
-        success: boolean;
-        message: string;
-        data: { expired_count: number };
-      }>('/api/v1/oracle/invitations/cleanup-expired');
-      
-      const count = response.data.data.expired_count;
+      const count = await cleanupExpiredInvitations();
       notifySuccess('Success', `Cleaned up ${count} expired invitations`);
       fetchInvitations();
     } catch (error: any) {
       console.error('Error cleaning up expired invitations:', error);
-      const errorMessage = error.response?.data?.detail || error.message || 'Failed to cleanup expired invitations';
+      const errorMessage = error.detail || error.message || 'Failed to cleanup expired invitations';
       notifyError('Cleanup Error', errorMessage);
     }
   };
@@ -6,23 +6,14 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import { apiClient } from '@/lib/api';
-
-interface Role {
-  id: number;
-  name: string;
-  description?: string;
-}
-
-interface RecentInvitation {
-  id: number;
-  email: string;
-  role_name: string;
-  status: string;
-  created_at: string;
-  expires_at: string;
-  invited_by_email: string;
-}
+import {
+  createInvitation,
+  listInvitableRoles,
+  listInvitations,
+  resendInvitation,
+  revokeInvitation,
+} from '@/lib/api/oracle/invitations';
+import type { InvitableRole as Role, Invitation } from '@/types/oracle/invitation';
 
 function InvitationsContent() {
   const { user } = useAuth();
@@ -32,7 +23,7 @@ function InvitationsContent() {
   const [email, setEmail] = useState('');
   const [selectedRoleId, setSelectedRoleId] = useState<number | ''>('');
   const [availableRoles, setAvailableRoles] = useState<Role[]>([]);
-  const [recentInvitations, setRecentInvitations] = useState<RecentInvitation[]>([]);
+  const [recentInvitations, setRecentInvitations] = useState<Invitation[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoadingRoles, setIsLoadingRoles] = useState(true);
   const [isLoadingInvitations, setIsLoadingInvitations] = useState(true);
@@ -45,17 +36,10 @@ function InvitationsContent() {
   const fetchAvailableRoles = async () => {
     try {
       setIsLoadingRoles(true);
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: { roles: Role[]; user_role: string };
-      }>('/api/v1/oracle/invitations/roles/available');
-      
-      
-      setAvailableRoles(response.data.data?.roles || []);
+      const roles = await listInvitableRoles();
+      setAvailableRoles(roles);
     } catch (error: any) {
       console.error('Error fetching available roles:', error);
-      console.error('Error details:', error.response?.data);
       
       // Fallback: Set roles based on current user role
       if (user) {
@@ -91,13 +75,8 @@ function InvitationsContent() {
   const fetchRecentInvitations = async () => {
     try {
       setIsLoadingInvitations(true);
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: { invitations: RecentInvitation[] };
-      }>('/api/v1/oracle/invitations?limit=5');
-      
-      setRecentInvitations(response.data.data.invitations || []);
+      const { invitations } = await listInvitations({ limit: 5 });
+      setRecentInvitations(invitations || []);
     } catch (error: any) {
       console.error('Error fetching recent invitations:', error);
       notifyError('Error', 'Failed to fetch recent invitations');
@@ -117,25 +96,18 @@ function InvitationsContent() {
     try {
       setIsSubmitting(true);
       
-      const response = await apiClient.post<{
-        success: boolean;
-        message: string;
-        data: any;
-      }>('/api/v1/oracle/invitations/invite', {
+      await createInvitation({
         email: email.trim(),
         role_id: selectedRoleId,
         expires_days: 7 // Default 7 days as requested
       });
-
-      if (response.data.success) {
-        notifySuccess('Success', `Invitation sent to ${email}`);
-        setEmail('');
-        setSelectedRoleId('');
-        fetchRecentInvitations(); // Refresh the recent invitations
-      }
+      notifySuccess('Success', `Invitation sent to ${email}`);
+      setEmail('');
+      setSelectedRoleId('');
+      fetchRecentInvitations(); // Refresh the recent invitations
     } catch (error: any) {
       console.error('Error sending invitation:', error);
-      const errorMessage = error.response?.data?.detail || error.message || 'Failed to send invitation';
+      const errorMessage = error.detail || error.message || 'Failed to send invitation';
       notifyError('Invitation Error', errorMessage);
     } finally {
       setIsSubmitting(false);
@@ -144,12 +116,12 @@ function InvitationsContent() {
 
   const handleResendInvitation = async (invitationId: number, email: string) => {
     try {
-      await apiClient.post(`/api/v1/oracle/invitations/${invitationId}/resend`);
+      await resendInvitation(invitationId);
       notifySuccess('Success', `Invitation resent to ${email}`);
       fetchRecentInvitations();
     } catch (error: any) {
       console.error('Error resending invitation:', error);
-      const errorMessage = error.response?.data?.detail || error.message || 'Failed to resend invitation';
+      const errorMessage = error.detail || error.message || 'Failed to resend invitation';
       notifyError('Resend Error', errorMessage);
     }
   };
@@ -160,12 +132,12 @@ function InvitationsContent() {
     }
 
     try {
-      await apiClient.delete(`/api/v1/oracle/invitations/${invitationId}`);
+      await revokeInvitation(invitationId);
       notifySuccess('Success', `Invitation for ${email} has been revoked`);
       fetchRecentInvitations();
     } catch (error: any) {
       console.error('Error revoking invitation:', error);
-      const errorMessage = error.response?.data?.detail || error.message || 'Failed to revoke invitation';
+      const errorMessage = error.detail || error.message || 'Failed to revoke invitation';
       notifyError('Revoke Error', errorMessage);
     }
   };
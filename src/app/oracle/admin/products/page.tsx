@@ -6,33 +6,14 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import { apiClient } from '@/lib/api';
-
-interface Product {
-  insurance_id: string;
-  insurance_name: string;
-  provider: string;
-  category: string;
-  key_features: string;
-  created_at: string;
-  processing_status: string;
-  pdf_url?: string;
-  discontinued: boolean;
-
-  // Jurisdiction metadata
-  jurisdiction?: string;
-  jurisdiction_confidence_score?: number;
-  jurisdiction_confidence_level?: 'HIGH' | 'MEDIUM' | 'LOW' | 'NONE';
-  jurisdiction_requires_review?: boolean;
-  jurisdiction_manually_verified?: boolean;
-}
-
-interface ProductsResponse {
-  products: Product[];
-  total: number;
-  limit: number;
-  offset: number;
-}
+import {
+  deleteProduct,
+  listManagedProducts,
+  listProductCategories,
+  listProductProviders,
+  updateProduct,
+} from '@/lib/api/oracle/products';
+import type { InsuranceProduct as Product } from '@/types/oracle/insurance-product';
 
 function AdminProductsContent() {
   const { user } = useAuth();
@@ -74,29 +55,15 @@ function AdminProductsContent() {
 
       const offset = (currentPage - 1) * itemsPerPage;
 
-      // Build query parameters
-      const params = new URLSearchParams({
-        limit: itemsPerPage.toString(),
-        offset: offset.toString(),
-        include_discontinued: showDiscontinued.toString(),
-      });
-
-      if (selectedCategory) {
-        params.append('category', selectedCategory);
-      }
-
-      if (selectedProvider) {
-        params.append('provider', selectedProvider);
-      }
-
       // Admin view: include discontinued products
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: ProductsResponse;
-      }>(`/api/v1/oracle/products?${params.toString()}`);
+      const { data } = await listManagedProducts({
+        limit: itemsPerPage,
+        offset,
+        include_discontinued: showDiscontinued,
+        category: selectedCategory || undefined,
+        provider: selectedProvider || undefined,
+      });
 
-      const data = response.data.data;
       const productList = data.products || [];
       const total = data.total || 0;
 
@@ -118,13 +85,7 @@ function AdminProductsContent() {
 
   const fetchCategories = async () => {
     try {
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: string[];
-      }>('/api/v1/oracle/products/categories');
-
-      const categories = response.data.data || [];
+      const categories = await listProductCategories();
 
       setAllCategories(categories);
 
@@ -135,13 +96,7 @@ function AdminProductsContent() {
 
   const fetchProviders = async () => {
     try {
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: string[];
-      }>('/api/v1/oracle/products/providers');
-
-      const providers = response.data.data || [];
+      const providers = await listProductProviders();
 
       setAllProviders(providers);
 
@@ -177,7 +132,7 @@ function AdminProductsContent() {
     }
 
     try {
-      await apiClient.put(`/api/v1/oracle/products/${product.insurance_id}`, {
+      await updateProduct(product.insurance_id, {
         discontinued: !product.discontinued
       });
 
@@ -200,7 +155,7 @@ function AdminProductsContent() {
 
     setIsDeleting(true);
     try {
-      await apiClient.delete(`/api/v1/oracle/products/${productToDelete.insurance_id}`);
+      await deleteProduct(productToDelete.insurance_id);
 
       notifySuccess(
         'Product Deleted',
@@ -230,7 +185,7 @@ function AdminProductsContent() {
     try {
       // Delete all selected products
       const deletePromises = Array.from(selectedProducts).map(productId =>
-        apiClient.delete(`/api/v1/oracle/products/${productId}`)
+        deleteProduct(productId)
       );
 
       await Promise.all(deletePromises);
@@ -288,7 +243,8 @@ function AdminProductsContent() {
     setExpandedRows(newExpanded);
   };
 
-  const formatDate = (dateString: string) => {
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return 'N/A';
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
@@ -296,7 +252,7 @@ function AdminProductsContent() {
     });
   };
 
-  const truncateText = (text: string, maxLength: number = 100) => {
+  const truncateText = (text: string | undefined, maxLength: number = 100) => {
     if (!text) return 'N/A';
     if (text.length <= maxLength) return text;
     return text.slice(0, maxLength) + '...';
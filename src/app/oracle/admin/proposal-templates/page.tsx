@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Sidebar from '@/components/Sidebar';
+import ProposalTemplateEditor from '@/components/oracle/proposal/ProposalTemplateEditor';
+import { useDeleteProposalTemplate, useProposalTemplates, useSaveProposalTemplate } from '@/hooks/oracle';
+import { createBlankTemplate, getProposalSection } from '@/lib/proposal-templates';
+import { UserRole } from '@/types/auth';
+import type { ProposalTemplate, ProposalTemplateCreate } from '@/types/oracle/proposal-template';
+
+// The template being edited: a new one, or an existing one by id
+type EditorState = { templateId?: string; initialValue: ProposalTemplateCreate } | null;
+
+function toTemplateCreate(template: ProposalTemplate): ProposalTemplateCreate {
+  return {
+    name: template.name,
+    description: template.description || '',
+    audience: template.audience || '',
+    sections: template.sections,
+    cover: template.cover,
+    disclaimers: template.disclaimers,
+    palette: template.palette,
+    typography: template.typography,
+    is_default: template.is_default,
+  };
+}
+
+function ProposalTemplatesContent() {
+  const { user } = useAuth();
+  const [editor, setEditor] = useState<EditorState>(null);
+  const { data: templates = [], isLoading, isError, refetch } = useProposalTemplates();
+  const saveTemplate = useSaveProposalTemplate();
+  const deleteTemplate = useDeleteProposalTemplate();
+
+  const handleSave = (data: ProposalTemplateCreate) => {
+    saveTemplate.mutate(
+      { templateId: editor?.templateId, data },
+      {
+        onSuccess: (saved) => {
+          toast.success(`Saved template "${saved.name}"`);
+          setEditor(null);
+        },
+        onError: (error: any) => {
+          console.error('Error saving proposal template:', error);
+          toast.error(error.detail || 'Failed to save template');
+        },
+      }
+    );
+  };
+
+  const handleDelete = (template: ProposalTemplate) => {
+    const confirmDelete = window.confirm(
+      `Delete the "${template.name}" template? Proposals that use it will fall back to the company default.`
+    );
+    if (!confirmDelete) return;
+
+    deleteTemplate.mutate(template.template_id, {
+      onSuccess: () => toast.success(`Deleted template "${template.name}"`),
+      onError: (error: any) => {
+        console.error('Error deleting proposal template:', error);
+        toast.error(error.detail || 'Failed to delete template');
+      },
+    });
+  };
+
+  return (
+    <Sidebar>
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
+        <main className="max-w-7xl mx-auto px-6 py-8">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Proposal Templates</h1>
+              <p className="text-gray-600 mt-2">
+                Layouts and branding your advisors choose from when they create a proposal, e.g. one look for
+                high net worth clients and another for mass-market clients.
+              </p>
+            </div>
+            <button
+              onClick={() => setEditor({ initialValue: createBlankTemplate(user?.company?.brand_colors) })}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              + New Template
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : isError ? (
+            <div className="text-center py-12">
+              <p className="text-red-600 mb-4">Failed to load proposal templates</p>
+              <button
+                onClick={() => refetch()}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Try Again
+              </button>
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-12 text-center">
+              <div className="text-5xl mb-4">🎨</div>
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">No templates yet</h2>
+              <p className="text-gray-600">
+                Proposals use the standard layout until you create a template for your company.
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {templates.map((template) => (
+                <div
+                  key={template.template_id}
+                  className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6 flex flex-col"
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">{template.name}</h2>
+                      {template.audience && <p className="text-sm text-blue-700">{template.audience}</p>}
+                    </div>
+                    {template.is_default && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        Default
+                      </span>
+                    )}
+                  </div>
+                  {template.description && <p className="text-sm text-gray-600 mb-3">{template.description}</p>}
+
+                  <div className="flex space-x-1 mb-3">
+                    {[
+                      template.palette.primary,
+                      template.palette.secondary,
+                      template.palette.accent,
+                      template.palette.text,
+                      template.palette.background,
+                    ].map((color, index) => (
+                      <span
+                        key={index}
+                        className="h-6 w-6 rounded border border-gray-200"
+                        style={{ backgroundColor: color }}
+                      ></span>
+                    ))}
+                  </div>
+
+                  <p className="text-xs text-gray-500 mb-1">
+                    {template.cover && 'Cover · '}
+                    {template.sections.map((section) => getProposalSection(section)?.label || section).join(' · ')}
+                    {template.disclaimers.length > 0 && ' · Disclaimers'}
+                  </p>
+                  <p className="text-xs text-gray-500 mb-4">
+                    {template.typography.heading_font} / {template.typography.body_font},{' '}
+                    {template.typography.base_font_size}pt
+                  </p>
+
+                  <div className="flex justify-end space-x-3 mt-auto">
+                    <button
+                      onClick={() => handleDelete(template)}
+                      disabled={deleteTemplate.isPending}
+                      className="px-3 py-1.5 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      onClick={() =>
+                        setEditor({ templateId: template.template_id, initialValue: toTemplateCreate(template) })
+                      }
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
+
+      {editor && (
+        <ProposalTemplateEditor
+          initialValue={editor.initialValue}
+          isNew={!editor.templateId}
+          saving={saveTemplate.isPending}
+          onSave={handleSave}
+          onClose={() => setEditor(null)}
+        />
+      )}
+    </Sidebar>
+  );
+}
+
+export default function ProposalTemplatesPage() {
+  return (
+    <ProtectedRoute allowedRoles={[UserRole.ADMIN, UserRole.SUPER_ADMIN]}>
+      <ProposalTemplatesContent />
+    </ProtectedRoute>
+  );
+}
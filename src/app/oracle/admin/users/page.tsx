@@ -6,29 +6,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import { apiClient } from '@/lib/api';
-
-interface User {
-  user_id: string;
-  email: string;
-  first_name: string | null;
-  last_name: string | null;
-  phone: string | null;
-  role: string;
-  company_id: string | null;
-  is_profile_complete: boolean;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string | null;
-  deactivated_at: string | null;
-}
-
-interface EditUserData {
-  first_name: string;
-  last_name: string;
-  phone: string;
-  role: string;
-}
+import { activateUser, deactivateUser, listUsers, updateUser } from '@/lib/api/oracle/users';
+import type { ManagedUser as User, ManagedUserUpdateData as EditUserData } from '@/types/oracle/user';
 
 const ROLE_OPTIONS = [
   { value: 'SUPER_ADMIN', label: 'Super Admin' },
@@ -73,40 +52,22 @@ function UsersContent() {
       // Calculate offset from page number (backend uses limit/offset pagination)
       const offset = (currentPage - 1) * pageSize;
 
-      // Build query parameters
-      const params = new URLSearchParams({
-        limit: pageSize.toString(),
-        offset: offset.toString(),
+      const response = await listUsers({
+        limit: pageSize,
+        offset,
+        search: searchQuery.trim() || undefined,
+        include_inactive: showInactive || undefined,
       });
 
-      if (searchQuery.trim()) {
-        params.append('search', searchQuery.trim());
-      }
-
-      if (showInactive) {
-        params.append('include_inactive', 'true');
-      }
-
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: {
-          users: User[];
-          total: number;
-          limit: number;
-          offset: number;
-        };
-      }>(`/api/v1/oracle/admin/users?${params.toString()}`);
-
-      if (response.data.success) {
-        setUsers(response.data.data.users);
-        setTotalUsers(response.data.data.total);
+      if (response.success) {
+        setUsers(response.data.users);
+        setTotalUsers(response.data.total);
         // Calculate total pages from total count
-        setTotalPages(Math.ceil(response.data.data.total / pageSize));
+        setTotalPages(Math.ceil(response.data.total / pageSize));
       }
     } catch (error: any) {
       console.error('Error fetching users:', error);
-      const errorMessage = error.response?.data?.detail || 'Failed to fetch users';
+      const errorMessage = error.detail || 'Failed to fetch users';
       notifyError('Error', errorMessage);
     } finally {
       setIsLoading(false);
@@ -130,19 +91,13 @@ function UsersContent() {
     try {
       setIsSubmitting(true);
 
-      const response = await apiClient.put(
-        `/api/v1/oracle/admin/users/${selectedUser.user_id}`,
-        editData
-      );
-
-      if (response.data.success) {
-        notifySuccess('Success', 'User updated successfully');
-        setIsEditModalOpen(false);
-        fetchUsers(); // Refresh the user list
-      }
+      await updateUser(selectedUser.user_id, editData);
+      notifySuccess('Success', 'User updated successfully');
+      setIsEditModalOpen(false);
+      fetchUsers(); // Refresh the user list
     } catch (error: any) {
       console.error('Error updating user:', error);
-      const errorMessage = error.response?.data?.detail || 'Failed to update user';
+      const errorMessage = error.detail || 'Failed to update user';
       notifyError('Error', errorMessage);
     } finally {
       setIsSubmitting(false);
@@ -155,17 +110,12 @@ function UsersContent() {
     }
 
     try {
-      const response = await apiClient.post(
-        `/api/v1/oracle/admin/users/${userId}/deactivate`
-      );
-
-      if (response.data.success) {
-        notifySuccess('Success', 'User deactivated successfully');
-        fetchUsers(); // Refresh the user list
-      }
+      await deactivateUser(userId);
+      notifySuccess('Success', 'User deactivated successfully');
+      fetchUsers(); // Refresh the user list
     } catch (error: any) {
       console.error('Error deactivating user:', error);
-      const errorMessage = error.response?.data?.detail || 'Failed to deactivate user';
+      const errorMessage = error.detail || 'Failed to deactivate user';
       notifyError('Error', errorMessage);
     }
   };
@@ -176,17 +126,12 @@ function UsersContent() {
     }
 
     try {
-      const response = await apiClient.post(
-        `/api/v1/oracle/admin/users/${userId}/activate`
-      );
-
-      if (response.data.success) {
-        notifySuccess('Success', 'User activated successfully');
-        fetchUsers(); // Refresh the user list
-      }
+      await activateUser(userId);
+      notifySuccess('Success', 'User activated successfully');
+      fetchUsers(); // Refresh the user list
     } catch (error: any) {
       console.error('Error activating user:', error);
-      const errorMessage = error.response?.data?.detail || 'Failed to activate user';
+      const errorMessage = error.detail || 'Failed to activate user';
       notifyError('Error', errorMessage);
     }
   };
@@ -6,8 +6,18 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import { apiClient } from '@/lib/api';
-import ReactMarkdown from 'react-markdown';
+import {
+  archiveChatSession,
+  createChatSession,
+  listChatMessages,
+  listChatSessions,
+  renameChatSession,
+  streamChatMessage,
+} from '@/lib/api/oracle/chat';
+import { listManagedProducts } from '@/lib/api/oracle/products';
+import { isAbortError } from '@/lib/event-stream';
+import type { ChatMessage, ChatSession, ChatSessionWithDetails } from '@/types/oracle/product-chat';
+import ReactMarkdown, { type Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import PageBadge from '@/components/PageBadge';
 import MobileSessionsBar from '@/components/oracle/chat/MobileSessionsBar';
@@ -18,76 +28,26 @@ interface Product {
   insurance_name: string;
   provider: string;
   category: string;
-  key_features: string;
-  created_at: string;
+  key_features?: string;
+  created_at?: string;
 }
 
-// Updated to match backend API
-interface ChatMessage {
-  message_id: string;
-  session_id: string;
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  created_at: string;
-  sequence_number: number;
-  status: 'pending' | 'sent' | 'delivered' | 'failed' | 'deleted';
-  metadata?: Record<string, any>;
-}
-
-interface ChatSession {
-  session_id: string;
-  user_id: string;
-  insurance_id: string;
-  session_name: string;
-  status: 'active' | 'archived' | 'deleted';
-  created_at: string;
-  updated_at: string;
-  last_message_at: string;
-  message_count: number;
-  session_metadata?: Record<string, any>;
-}
-
-interface ChatSessionWithDetails extends ChatSession {
-  insurance_title?: string;
-  insurance_company?: string;
-  insurance_product_type?: string;
-  activity_status?: 'recent' | 'today' | 'this_week' | 'older';
-}
-
-// API Response types
-interface CreateSessionResponse {
-  success: boolean;
-  session: ChatSession;
-  first_message?: ChatMessage;
-  message: string;
-}
-
-interface ListSessionsResponse {
-  success: boolean;
-  sessions: ChatSessionWithDetails[];
-  total_count: number;
-  active_count: number;
-  archived_count: number;
-}
-
-interface SendMessageResponse {
-  success: boolean;
-  user_message: ChatMessage;
-  assistant_message?: ChatMessage;
-  session: ChatSession;
-  message: string;
-  error_details?: string;
-}
-
-interface GetMessagesResponse {
-  success: boolean;
-  messages: ChatMessage[];
-  session: ChatSession;
-  total_messages: number;
-  page: number;
-  limit: number;
-  has_more: boolean;
-}
+// Tables in assistant answers scroll sideways on narrow screens
+const ANSWER_MARKDOWN_COMPONENTS: Components = {
+  table: ({node, ...props}) => (
+    <div className="overflow-x-auto my-4">
+      <table className="min-w-full border-collapse border border-gray-300" {...props} />
+    </div>
+  ),
+  th: ({node, ...props}) => (
+    <th className="border border-gray-300 px-3 py-2 bg-gray-100 text-left font-semibold" {...props} />
+  ),
+  td: ({node, ...props}) => (
+    <td className="border border-gray-300 px-3 py-2" {...props} />
+  ),
+};
+
+const ANSWER_PROSE_CLASSES = 'text-sm prose prose-sm max-w-none prose-headings:text-gray-900 prose-p:text-gray-900 prose-strong:text-gray-900 prose-ul:text-gray-900 prose-ol:text-gray-900 prose-table:text-gray-900 prose-thead:text-gray-900 prose-tbody:text-gray-900 prose-tr:border-gray-200 prose-td:border-gray-200 prose-th:border-gray-200';
 
 function ChatContent() {
   const { user } = useAuth();
@@ -114,6 +74,8 @@ function ChatContent() {
   const [inputMessage, setInputMessage] = useState('');
   const [isSendingMessage, setIsSendingMessage] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  // Answer text received so far for the message being sent
+  const [streamingReply, setStreamingReply] = useState('');
   
   // UI state
   const [showSessionActions, setShowSessionActions] = useState<string | null>(null);
@@ -129,6 +91,7 @@ function ChatContent() {
   const searchInputRef = useRef<HTMLInputElement>(null);
   const productSelectorRef = useRef<HTMLDivElement>(null);
   const sessionActionsRef = useRef<HTMLDivElement>(null);
+  const sendAbortRef = useRef<AbortController | null>(null);
 
   // Fetch products and sessions when component mounts
   useEffect(() => {
@@ -152,8 +115,13 @@ function ChatContent() {
     }
   }, [searchParams, products]);
   
+  // Stop a streaming answer when leaving the page
+  useEffect(() => () => sendAbortRef.current?.abort(), []);
+
   // Load messages when current session ID changes (not just session object)
   useEffect(() => {
+    // An answer still streaming belongs to the previous session
+    sendAbortRef.current?.abort();
     if (currentSession) {
       fetchMessages(currentSession.session_id);
     } else {
@@ -171,7 +139,7 @@ function ChatContent() {
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingReply]);
 
   // Handle click outside for product selector
   useEffect(() => {
@@ -215,18 +183,9 @@ function ChatContent() {
     try {
       setIsLoadingProducts(true);
 
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: {
-          products: Product[];
-          total: number;
-          limit: number;
-          offset: number;
-        };
-      }>('/api/v1/oracle/products?limit=100'); // Fetch products for chat selector (max allowed)
-
-      const productList = response.data.data.products || [];
+      const response = await listManagedProducts({ limit: 100 }); // Fetch products for chat selector (max allowed)
+
+      const productList = response.data.products || [];
       // console.log('📦 Products loaded:', productList.length, 'products');
       // console.log('📦 First product:', productList[0]);
       setProducts(productList);
@@ -247,17 +206,15 @@ function ChatContent() {
       // console.log('Current user:', user);
       // console.log('Auth headers:', apiClient.defaults.headers.common['Authorization']);
 
-      const response = await apiClient.get<ListSessionsResponse>('/api/v1/oracle/chat/sessions', {
-        params: {
-          status: 'active',
-          limit: 50,
-          order_by: 'last_message_at',
-          order_direction: 'desc'
-        }
+      const response = await listChatSessions({
+        status: 'active',
+        limit: 50,
+        order_by: 'last_message_at',
+        order_direction: 'desc'
       });
 
-      if (response.data.success) {
-        setSessions(response.data.sessions);
+      if (response.success) {
+        setSessions(response.sessions);
       }
 
     } catch (error: any) {
@@ -279,17 +236,15 @@ function ChatContent() {
 
   const fetchArchivedSessions = async () => {
     try {
-      const response = await apiClient.get<ListSessionsResponse>('/api/v1/oracle/chat/sessions', {
-        params: {
-          status: 'archived',
-          limit: 50,
-          order_by: 'last_message_at',
-          order_direction: 'desc'
-        }
+      const response = await listChatSessions({
+        status: 'archived',
+        limit: 50,
+        order_by: 'last_message_at',
+        order_direction: 'desc'
       });
 
-      if (response.data.success) {
-        setArchivedSessions(response.data.sessions);
+      if (response.success) {
+        setArchivedSessions(response.sessions);
       }
 
     } catch (error: any) {
@@ -306,19 +261,14 @@ function ChatContent() {
       // console.log('🔄 fetchMessages called for session:', sessionId);
       setIsLoadingMessages(true);
       
-      const response = await apiClient.get<GetMessagesResponse>(
-        `/api/v1/oracle/chat/sessions/${sessionId}/messages`,
-        {
-          params: {
-            limit: 50,
-            order_direction: 'asc'
-          }
-        }
-      );
+      const response = await listChatMessages(sessionId, {
+        limit: 50,
+        order_direction: 'asc'
+      });
       
-      if (response.data.success) {
-        // console.log('✅ Messages loaded:', response.data.messages.length, 'messages');
-        setMessages(response.data.messages);
+      if (response.success) {
+        // console.log('✅ Messages loaded:', response.messages.length, 'messages');
+        setMessages(response.messages);
       }
       
     } catch (error: any) {
@@ -344,17 +294,15 @@ function ChatContent() {
       
       // First, get fresh sessions data directly from API
       // console.log('🔄 Product Select: Fetching fresh sessions from API...');
-      const response = await apiClient.get<ListSessionsResponse>('/api/v1/oracle/chat/sessions', {
-        params: {
-          status: 'active',
-          limit: 50,
-          order_by: 'last_message_at',
-          order_direction: 'desc'
-        }
+      const response = await listChatSessions({
+        status: 'active',
+        limit: 50,
+        order_by: 'last_message_at',
+        order_direction: 'desc'
       });
       
-      if (response.data.success) {
-        const freshSessions = response.data.sessions;
+      if (response.success) {
+        const freshSessions = response.sessions;
         // console.log('🔄 Fresh sessions loaded:', freshSessions.length);
         
         // Check if there's already an active session for this insurance product
@@ -402,13 +350,13 @@ function ChatContent() {
 
       // console.log('📡 Making API request to create session...');
       // console.log('📋 Request payload:', requestPayload);
-      const response = await apiClient.post<CreateSessionResponse>('/api/v1/oracle/chat/sessions', requestPayload);
+      const response = await createChatSession(requestPayload);
       
       // console.log('📥 API response received:', response);
       // console.log('📥 Response data:', response.data);
       
-      if (response.data.success) {
-        const newSession = response.data.session;
+      if (response.success) {
+        const newSession = response.session;
         // console.log('✅ Session created successfully:', newSession);
         
         // Update sessions list
@@ -421,9 +369,9 @@ function ChatContent() {
         // console.log('🎯 Set current session:', newSession);
         
         // If there was a first message, add it to messages
-        if (response.data.first_message) {
-          setMessages([response.data.first_message]);
-          // console.log('💬 Set first message:', response.data.first_message);
+        if (response.first_message) {
+          setMessages([response.first_message]);
+          // console.log('💬 Set first message:', response.first_message);
         } else {
           setMessages([]);
           // console.log('💬 No first message, cleared messages');
@@ -499,55 +447,63 @@ function ChatContent() {
     }
     
     const messageContent = inputMessage.trim();
-    
+    const controller = new AbortController();
+    sendAbortRef.current = controller;
+    // Once the backend has saved the message, a failure shouldn't put it back in the input
+    let messageSaved = false;
+
     try {
       setIsSendingMessage(true);
       setIsTyping(true);
       setInputMessage('');
-      
-      const response = await apiClient.post<SendMessageResponse>(
-        `/api/v1/oracle/chat/sessions/${currentSession.session_id}/messages`,
+      setStreamingReply('');
+
+      const result = await streamChatMessage(
+        currentSession.session_id,
+        messageContent,
         {
-          content: messageContent,
-          role: 'user'
-        }
+          onUserMessage: (message) => {
+            messageSaved = true;
+            setMessages(prev => [...prev, message]);
+          },
+          onToken: (delta) => {
+            setIsTyping(false);
+            setStreamingReply(prev => prev + delta);
+          },
+        },
+        controller.signal
       );
-      
-      if (response.data.success) {
-        // Add both user and assistant messages
-        const newMessages = [response.data.user_message];
-        if (response.data.assistant_message) {
-          newMessages.push(response.data.assistant_message);
-        }
-        
-        setMessages(prev => [...prev, ...newMessages]);
-        
-        // Update current session with new message count (this should NOT trigger message refetch now)
-        if (response.data.session) {
-          setCurrentSession(response.data.session);
-          // Update session in the sessions list
-          setSessions(prev => prev.map(s => 
-            s.session_id === response.data.session.session_id ? 
-            { ...s, ...response.data.session } : s
-          ));
-        }
+
+      if (result.assistant_message) {
+        const assistantMessage = result.assistant_message;
+        setMessages(prev => [...prev, assistantMessage]);
       }
-      
+
+      // Update current session with new message count (this should NOT trigger message refetch now)
+      if (result.session) {
+        setCurrentSession(result.session);
+        // Update session in the sessions list
+        setSessions(prev => prev.map(s =>
+          s.session_id === result.session.session_id ?
+          { ...s, ...result.session } : s
+        ));
+      }
+
     } catch (error: any) {
+      if (isAbortError(error)) return;
       console.error('❌ Error sending message:', error);
-      console.error('❌ Error type:', typeof error);
-      console.error('❌ Error keys:', Object.keys(error || {}));
-      console.error('❌ Error detail:', error?.detail);
-      console.error('❌ Error message:', error?.message);
-      console.error('❌ Error response:', error?.response);
-      
-      const errorMessage = error?.detail || error?.message || error?.response?.data?.detail || 'Failed to send message';
+
+      const errorMessage = error?.detail || error?.message || 'Failed to send message';
       const safeErrorMessage = typeof errorMessage === 'string' ? errorMessage : JSON.stringify(errorMessage);
       notifyError('Message Error', safeErrorMessage);
-      
+
       // Restore the input message on error
-      setInputMessage(messageContent);
+      if (!messageSaved) {
+        setInputMessage(messageContent);
+      }
     } finally {
+      if (sendAbortRef.current === controller) sendAbortRef.current = null;
+      setStreamingReply('');
       setIsSendingMessage(false);
       setIsTyping(false);
     }
@@ -555,25 +511,23 @@ function ChatContent() {
   
   const handleArchiveSession = async (sessionId: string) => {
     try {
-      const response = await apiClient.delete(`/api/v1/oracle/chat/sessions/${sessionId}`);
+      await archiveChatSession(sessionId);
 
-      if (response.data.success) {
-        // Remove session from list
-        setSessions(prev => prev.filter(s => s.session_id !== sessionId));
+      // Remove session from list
+      setSessions(prev => prev.filter(s => s.session_id !== sessionId));
 
-        // If this was the current session, clear it
-        if (currentSession?.session_id === sessionId) {
-          setCurrentSession(null);
-          setSelectedProduct(null);
-          setMessages([]);
-        }
+      // If this was the current session, clear it
+      if (currentSession?.session_id === sessionId) {
+        setCurrentSession(null);
+        setSelectedProduct(null);
+        setMessages([]);
+      }
 
-        notifySuccess('Session Archived', 'Chat session has been archived');
+      notifySuccess('Session Archived', 'Chat session has been archived');
 
-        // Refresh archived sessions list if it's currently expanded
-        if (showArchivedSessions) {
-          await fetchArchivedSessions();
-        }
+      // Refresh archived sessions list if it's currently expanded
+      if (showArchivedSessions) {
+        await fetchArchivedSessions();
       }
 
     } catch (error: any) {
@@ -588,34 +542,32 @@ function ChatContent() {
   const handleArchiveAndCreateNew = async (sessionIdToArchive: string) => {
     try {
       // Archive the selected session
-      const response = await apiClient.delete(`/api/v1/oracle/chat/sessions/${sessionIdToArchive}`);
+      await archiveChatSession(sessionIdToArchive);
 
-      if (response.data.success) {
-        // Remove from active sessions
-        setSessions(prev => prev.filter(s => s.session_id !== sessionIdToArchive));
+      // Remove from active sessions
+      setSessions(prev => prev.filter(s => s.session_id !== sessionIdToArchive));
 
-        // Clear current session if it was archived
-        if (currentSession?.session_id === sessionIdToArchive) {
-          setCurrentSession(null);
-          setSelectedProduct(null);
-          setMessages([]);
-        }
+      // Clear current session if it was archived
+      if (currentSession?.session_id === sessionIdToArchive) {
+        setCurrentSession(null);
+        setSelectedProduct(null);
+        setMessages([]);
+      }
 
-        notifySuccess('Session Archived', 'Chat session has been archived');
+      notifySuccess('Session Archived', 'Chat session has been archived');
 
-        // Refresh archived sessions list if it's currently expanded
-        if (showArchivedSessions) {
-          await fetchArchivedSessions();
-        }
+      // Refresh archived sessions list if it's currently expanded
+      if (showArchivedSessions) {
+        await fetchArchivedSessions();
+      }
 
-        // Close the modal
-        setShowArchiveModal(false);
+      // Close the modal
+      setShowArchiveModal(false);
 
-        // Now create the new session if we have a pending product
-        if (pendingProductId) {
-          await createNewSession(pendingProductId);
-          setPendingProductId(null);
-        }
+      // Now create the new session if we have a pending product
+      if (pendingProductId) {
+        await createNewSession(pendingProductId);
+        setPendingProductId(null);
       }
 
     } catch (error: any) {
@@ -627,24 +579,20 @@ function ChatContent() {
 
   const handleRenameSession = async (sessionId: string, newName: string) => {
     try {
-      const response = await apiClient.patch(`/api/v1/oracle/chat/sessions/${sessionId}/rename`, {
-        new_name: newName
-      });
+      await renameChatSession(sessionId, newName);
       
-      if (response.data.success) {
-        // Update session in the list
-        setSessions(prev => prev.map(s => 
-          s.session_id === sessionId ? { ...s, session_name: newName } : s
-        ));
-        
-        // If this is the current session, update it
-        if (currentSession?.session_id === sessionId) {
-          setCurrentSession(prev => prev ? { ...prev, session_name: newName } : null);
-        }
-        
-        notifySuccess('Session Renamed', `Session renamed to "${newName}"`);
+      // Update session in the list
+      setSessions(prev => prev.map(s => 
+        s.session_id === sessionId ? { ...s, session_name: newName } : s
+      ));
+      
+      // If this is the current session, update it
+      if (currentSession?.session_id === sessionId) {
+        setCurrentSession(prev => prev ? { ...prev, session_name: newName } : null);
       }
       
+      notifySuccess('Session Renamed', `Session renamed to "${newName}"`);
+      
     } catch (error: any) {
       console.error('Error renaming session:', error);
       const errorMessage = error.detail || error.message || 'Failed to rename session';
@@ -670,17 +618,15 @@ function ChatContent() {
     try {
       // First, get fresh sessions data directly from API
       // console.log('🔄 New Chat: Fetching fresh sessions from API...');
-      const response = await apiClient.get<ListSessionsResponse>('/api/v1/oracle/chat/sessions', {
-        params: {
-          status: 'active',
-          limit: 50,
-          order_by: 'last_message_at',
-          order_direction: 'desc'
-        }
+      const response = await listChatSessions({
+        status: 'active',
+        limit: 50,
+        order_by: 'last_message_at',
+        order_direction: 'desc'
       });
       
-      if (response.data.success) {
-        const freshSessions = response.data.sessions;
+      if (response.success) {
+        const freshSessions = response.sessions;
         // console.log('🔄 Fresh sessions loaded:', freshSessions.length);
         
         // Check if there's already an active session for the selected product
@@ -1120,23 +1066,8 @@ function ChatContent() {
                       >
                         {message.role === 'assistant' ? (
                           <>
-                            <div className="text-sm prose prose-sm max-w-none prose-headings:text-gray-900 prose-p:text-gray-900 prose-strong:text-gray-900 prose-ul:text-gray-900 prose-ol:text-gray-900 prose-table:text-gray-900 prose-thead:text-gray-900 prose-tbody:text-gray-900 prose-tr:border-gray-200 prose-td:border-gray-200 prose-th:border-gray-200">
-                              <ReactMarkdown
-                                remarkPlugins={[remarkGfm]}
-                                components={{
-                                  table: ({node, ...props}) => (
-                                    <div className="overflow-x-auto my-4">
-                                      <table className="min-w-full border-collapse border border-gray-300" {...props} />
-                                    </div>
-                                  ),
-                                  th: ({node, ...props}) => (
-                                    <th className="border border-gray-300 px-3 py-2 bg-gray-100 text-left font-semibold" {...props} />
-                                  ),
-                                  td: ({node, ...props}) => (
-                                    <td className="border border-gray-300 px-3 py-2" {...props} />
-                                  ),
-                                }}
-                              >
+                            <div className={ANSWER_PROSE_CLASSES}>
+                              <ReactMarkdown remarkPlugins={[remarkGfm]} components={ANSWER_MARKDOWN_COMPONENTS}>
                                 {message.content}
                               </ReactMarkdown>
                             </div>
@@ -1202,6 +1133,20 @@ function ChatContent() {
                     </div>
                   ))}
 
+                  {/* Answer so far, while it streams in */}
+                  {streamingReply && (
+                    <div className="flex justify-start">
+                      <div className="max-w-sm lg:max-w-2xl px-4 py-2 rounded-lg bg-white/80 backdrop-blur-sm border border-gray-200 text-gray-900">
+                        <div className={ANSWER_PROSE_CLASSES}>
+                          <ReactMarkdown remarkPlugins={[remarkGfm]} components={ANSWER_MARKDOWN_COMPONENTS}>
+                            {streamingReply}
+                          </ReactMarkdown>
+                          <span className="inline-block w-1.5 h-4 bg-gray-500 animate-pulse align-text-bottom" aria-hidden="true" />
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
                   {isTyping && (
                     <div className="flex justify-start">
                       <div className="bg-white/80 backdrop-blur-sm border border-gray-200 text-gray-900 px-4 py-2 rounded-lg">
@@ -0,0 +1,324 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import Sidebar from '@/components/Sidebar';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import { GuidedQuestionnaire } from '@/components/guided-discovery';
+import ClientFitResults from '@/components/oracle/products/ClientFitResults';
+import { useClient, useClientPolicies, useFxRateMap, useGuidedQuestions, useProducts } from '@/hooks/oracle';
+import {
+  CLIENT_FIT_CATEGORIES,
+  CLIENT_FIT_CURRENCIES,
+  getClientAge,
+  getClientCurrency,
+  getPremiumCurrencies,
+  getPrefilledAnswers,
+  isInFitCategory,
+  rankProducts,
+  type ClientFitCategory,
+  type ClientFitProfile,
+} from '@/lib/client-fit';
+import { countGuidedAnswers } from '@/lib/saved-searches';
+import { PremiumPeriod } from '@/types/client';
+import type { GuidedParameters } from '@/types/oracle/guided-question';
+
+// Products are scored in the browser, so the whole catalogue is loaded up to this many
+const PRODUCT_LIMIT = 500;
+const MAX_COMPARE = 5;
+
+const BUDGET_PERIOD_LABELS: Record<PremiumPeriod, string> = {
+  [PremiumPeriod.MONTHLY]: 'per month',
+  [PremiumPeriod.YEARLY]: 'per year',
+  [PremiumPeriod.ONE_TIME]: 'single premium',
+};
+
+function FindProductsContent() {
+  const router = useRouter();
+  const params = useParams();
+  const clientId = params?.id as string;
+
+  const { data: client, isLoading, error: clientError } = useClient(clientId);
+  const { data: policies } = useClientPolicies(clientId);
+
+  const [category, setCategory] = useState<ClientFitCategory | null>(null);
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [budget, setBudget] = useState('');
+  const [budgetPeriod, setBudgetPeriod] = useState<PremiumPeriod>(PremiumPeriod.MONTHLY);
+  const [answers, setAnswers] = useState<GuidedParameters | null>(null);
+  const [showQuestionnaire, setShowQuestionnaire] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (clientError) {
+      console.error('Error loading client:', clientError);
+      toast.error('Failed to load client details');
+      router.push('/oracle/clients');
+    }
+  }, [clientError]);
+
+  // Until the advisor picks one, the currency most of the client's policies are in
+  const clientCurrency = currency || getClientCurrency(policies || []);
+
+  const { data: productsData, isLoading: productsLoading, isError: productsError } = useProducts(
+    { limit: PRODUCT_LIMIT },
+    !!answers
+  );
+  const allProducts = useMemo(() => productsData?.data.products || [], [productsData]);
+  const total = productsData?.data.total || allProducts.length;
+  const products = useMemo(
+    () => (category ? allProducts.filter((product) => isInFitCategory(product, category)) : []),
+    [allProducts, category]
+  );
+
+  const premiumCurrencies = useMemo(() => getPremiumCurrencies(products), [products]);
+  const rates = useFxRateMap(null, premiumCurrencies, clientCurrency);
+  const { questions } = useGuidedQuestions(category?.id || '');
+
+  // The questionnaire resets to these whenever they change, so they're kept stable
+  const preFilledAnswers = useMemo(
+    () => answers || (category ? getPrefilledAnswers(category, clientCurrency) : {}),
+    [answers, category, clientCurrency]
+  );
+
+  const profile: ClientFitProfile | null = useMemo(() => {
+    if (!client || !answers) return null;
+    const amount = parseFloat(budget);
+    return {
+      age: getClientAge(client.date_of_birth),
+      currency: clientCurrency,
+      budget: isFinite(amount) && amount > 0 ? amount : null,
+      budgetPeriod,
+      answers,
+    };
+  }, [client, answers, budget, budgetPeriod, clientCurrency]);
+
+  const results = profile ? rankProducts(products, profile, questions, rates) : [];
+  const eligibleCount = results.filter((result) => result.eligible).length;
+
+  const handleSelectCategory = (next: ClientFitCategory) => {
+    if (category && next.id !== category.id) {
+      setAnswers(null);
+      setSelectedIds([]);
+    }
+    setCategory(next);
+  };
+
+  const handleQuestionnaireComplete = (parameters: GuidedParameters) => {
+    setAnswers(parameters);
+    setShowQuestionnaire(false);
+  };
+
+  const handleToggleSelect = (productId: string) => {
+    if (selectedIds.indexOf(productId) !== -1) {
+      setSelectedIds(selectedIds.filter((id) => id !== productId));
+    } else if (selectedIds.length >= MAX_COMPARE) {
+      toast.error(`You can only compare up to ${MAX_COMPARE} products at a time`);
+    } else {
+      setSelectedIds(selectedIds.concat(productId));
+    }
+  };
+
+  const handleCompare = () => {
+    window.open(`/oracle/products/compare?products=${selectedIds.join(',')}`, '_blank');
+  };
+
+  if (isLoading || !client) {
+    return (
+      <Sidebar>
+        <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
+          <main className="max-w-5xl mx-auto px-6 py-8">
+            <div className="animate-pulse">
+              <div className="h-8 bg-gray-200 rounded w-1/3 mb-4"></div>
+              <div className="h-40 bg-gray-200 rounded"></div>
+            </div>
+          </main>
+        </div>
+      </Sidebar>
+    );
+  }
+
+  const age = getClientAge(client.date_of_birth);
+  const answerCount = countGuidedAnswers(answers);
+
+  return (
+    <Sidebar>
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
+        <main className="max-w-5xl mx-auto px-6 py-8">
+          <div className="mb-8">
+            <button
+              onClick={() => router.push(`/oracle/clients/${clientId}`)}
+              className="text-blue-600 hover:text-blue-800 mb-4 flex items-center space-x-2"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+              <span>
+                Back to {client.first_name} {client.last_name}
+              </span>
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">Find products for this client</h1>
+            <p className="text-gray-600 mt-1">
+              {client.first_name} {client.last_name}
+              {age !== null && <> · Age {age}</>}
+              {client.gender && <> · {client.gender}</>}
+              {client.occupation && <> · {client.occupation}</>}
+            </p>
+          </div>
+
+          {/* Client needs */}
+          <div className="bg-white rounded-lg shadow p-6 mb-8 space-y-6">
+            <div>
+              <h2 className="text-sm font-medium text-gray-700 mb-2">What is the client looking for?</h2>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                {CLIENT_FIT_CATEGORIES.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => handleSelectCategory(option)}
+                    aria-pressed={category?.id === option.id}
+                    className={`text-left border rounded-lg p-3 transition-colors ${
+                      category?.id === option.id
+                        ? 'border-blue-600 bg-blue-50'
+                        : 'border-gray-200 hover:border-blue-300'
+                    }`}
+                  >
+                    <p className="font-medium text-gray-900">{option.name}</p>
+                    <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+                <select
+                  value={clientCurrency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {CLIENT_FIT_CURRENCIES.concat(
+                    CLIENT_FIT_CURRENCIES.indexOf(clientCurrency) === -1 ? [clientCurrency] : []
+                  ).map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Budget ({clientCurrency})</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={budget}
+                  onChange={(e) => setBudget(e.target.value)}
+                  placeholder="Optional"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Paid</label>
+                <select
+                  value={budgetPeriod}
+                  onChange={(e) => setBudgetPeriod(e.target.value as PremiumPeriod)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {[PremiumPeriod.MONTHLY, PremiumPeriod.YEARLY, PremiumPeriod.ONE_TIME].map((period) => (
+                    <option key={period} value={period}>
+                      {BUDGET_PERIOD_LABELS[period]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between pt-4 border-t border-gray-100">
+              <p className="text-sm text-gray-500">
+                {answers
+                  ? `${answerCount} guided answer${answerCount === 1 ? '' : 's'}. Budget and currency changes re-rank the list straight away.`
+                  : 'Answer the guided questions for this category to rank its products.'}
+              </p>
+              <button
+                type="button"
+                onClick={() => setShowQuestionnaire(true)}
+                disabled={!category}
+                className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+              >
+                {answers ? 'Edit answers' : 'Answer guided questions'}
+              </button>
+            </div>
+          </div>
+
+          {/* Ranked products */}
+          {answers && (
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Ranked products</h2>
+                  {!productsLoading && !productsError && (
+                    <p className="text-sm text-gray-500">
+                      {eligibleCount} of {results.length} {category?.name} products the client can enter at their age
+                    </p>
+                  )}
+                </div>
+                {selectedIds.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={handleCompare}
+                    disabled={selectedIds.length < 2}
+                    className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Compare {selectedIds.length} selected
+                  </button>
+                )}
+              </div>
+
+              {total > allProducts.length && (
+                <p className="text-sm text-amber-700 mb-4">
+                  Only the first {allProducts.length} of {total} products in the catalogue were scored.
+                </p>
+              )}
+
+              {productsLoading ? (
+                <div className="flex justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : productsError ? (
+                <p className="text-sm text-red-600">Failed to load products</p>
+              ) : (
+                <ClientFitResults
+                  results={results}
+                  selectedIds={selectedIds}
+                  onToggleSelect={(product) => handleToggleSelect(product.insurance_id)}
+                />
+              )}
+            </div>
+          )}
+        </main>
+      </div>
+
+      {category && (
+        <GuidedQuestionnaire
+          isOpen={showQuestionnaire}
+          onClose={() => setShowQuestionnaire(false)}
+          categoryId={category.id}
+          categoryName={category.name}
+          onComplete={handleQuestionnaireComplete}
+          preFilledAnswers={preFilledAnswers}
+        />
+      )}
+    </Sidebar>
+  );
+}
+
+export default function FindProductsPage() {
+  return (
+    <ProtectedRoute>
+      <FindProductsContent />
+    </ProtectedRoute>
+  );
+}
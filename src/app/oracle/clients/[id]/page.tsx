@@ -2,15 +2,18 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
 import Sidebar from '@/components/Sidebar';
 import ProtectedRoute from '@/components/ProtectedRoute';
-import { apiClient } from '@/lib/api';
 import { toast } from 'react-hot-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useClient, useClientPolicies, useClientProposals, useDeleteClientPolicy } from '@/hooks/oracle';
+import { createClientPolicy, deleteClient, updateClient, uploadPolicyDocument } from '@/lib/api/oracle/clients';
+import { listProducts } from '@/lib/api/oracle/products';
+import { queryKeys } from '@/lib/query-keys';
+import { getClientLanguageOptions } from '@/lib/proposal-i18n';
 import {
   ClientWithPolicies,
-  ClientResponse,
-  ClientPolicyWithInsurance,
-  PolicyListResponse,
   ClientUpdateData,
   Gender,
   PolicyStatus,
@@ -21,50 +24,42 @@ function ClientDetailContent() {
   const router = useRouter();
   const params = useParams();
   const clientId = params?.id as string;
+  const { user } = useAuth();
 
-  const [client, setClient] = useState<ClientWithPolicies | null>(null);
-  const [policies, setPolicies] = useState<ClientPolicyWithInsurance[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const { data: client, isLoading: loading, error: clientError } = useClient(clientId);
+  const { data: policiesData, error: policiesError } = useClientPolicies(clientId);
+  const policies = policiesData || [];
+  const deletePolicyMutation = useDeleteClientPolicy(clientId);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showAddPolicyModal, setShowAddPolicyModal] = useState(false);
   const [uploadingPolicyId, setUploadingPolicyId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'policies' | 'proposals'>('policies');
 
-  // Load client data
-  const loadClient = async () => {
-    try {
-      setLoading(true);
-      const response = await apiClient.get<ClientResponse>(`/api/v1/clients/${clientId}`);
-      if (response.data.success) {
-        setClient(response.data.data);
-      }
-    } catch (error: any) {
-      console.error('Error loading client:', error);
+  useEffect(() => {
+    if (clientError) {
+      console.error('Error loading client:', clientError);
       toast.error('Failed to load client details');
       router.push('/oracle/clients');
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [clientError]);
 
-  // Load policies
-  const loadPolicies = async () => {
-    try {
-      const response = await apiClient.get<PolicyListResponse>(`/api/v1/clients/${clientId}/policies`);
-      if (response.data.success) {
-        setPolicies(response.data.data.policies);
-      }
-    } catch (error: any) {
-      console.error('Error loading policies:', error);
+  useEffect(() => {
+    if (policiesError) {
+      console.error('Error loading policies:', policiesError);
       toast.error('Failed to load policies');
     }
+  }, [policiesError]);
+
+  // Refetch the client and its policies (the policies key is nested under the client)
+  const refreshClient = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.oracle.client(clientId) });
   };
 
-  useEffect(() => {
-    if (clientId) {
-      loadClient();
-      loadPolicies();
-    }
-  }, [clientId]);
+  // Opens the proposal form with this client selected (name, DOB, gender and occupation prefilled)
+  const handleCreateProposal = () => {
+    router.push(`/oracle/proposals?tab=create&client_id=${clientId}`);
+  };
 
   const handleDeleteClient = async () => {
     if (!confirm('Are you sure you want to delete this client? All associated policies will also be deleted.')) {
@@ -72,7 +67,7 @@ function ClientDetailContent() {
     }
 
     try {
-      await apiClient.delete(`/api/v1/clients/${clientId}`);
+      await deleteClient(clientId);
       toast.success('Client deleted successfully');
       router.push('/oracle/clients');
     } catch (error: any) {
@@ -87,10 +82,8 @@ function ClientDetailContent() {
     }
 
     try {
-      await apiClient.delete(`/api/v1/clients/${clientId}/policies/${policyId}`);
+      await deletePolicyMutation.mutateAsync(policyId);
       toast.success('Policy deleted successfully');
-      loadPolicies();
-      loadClient(); // Reload to update stats
     } catch (error: any) {
       console.error('Error deleting policy:', error);
       toast.error(error.response?.data?.detail || 'Failed to delete policy');
@@ -101,26 +94,12 @@ function ClientDetailContent() {
     try {
       setUploadingPolicyId(policyId);
 
-      const formData = new FormData();
-      formData.append('file', file);
-
-      const response = await apiClient.post(
-        `/api/v1/clients/${clientId}/policies/${policyId}/upload-document`,
-        formData,
-        {
-          headers: {
-            'Content-Type': 'multipart/form-data',
-          },
-        }
-      );
-
-      if (response.data.success) {
-        toast.success('Policy document uploaded successfully!');
-        loadPolicies();
-      }
+      await uploadPolicyDocument(clientId, policyId, file);
+      toast.success('Policy document uploaded successfully!');
+      refreshClient();
     } catch (error: any) {
       console.error('Error uploading document:', error);
-      toast.error(error.response?.data?.detail || 'Failed to upload document');
+      toast.error(error.detail || 'Failed to upload document');
     } finally {
       setUploadingPolicyId(null);
     }
@@ -165,6 +144,9 @@ function ClientDetailContent() {
     return null;
   }
 
+  // Team leaders can view their team members' clients, but not change them
+  const isReadOnly = !!(user && client.user_id !== user.id);
+
   return (
     <Sidebar>
       <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
@@ -189,26 +171,42 @@ function ClientDetailContent() {
                 <p className="text-gray-600 mt-1">
                   Client since {new Date(client.created_at).toLocaleDateString()}
                 </p>
+                {isReadOnly && (
+                  <p className="text-sm text-amber-700 mt-1">A team member&apos;s client: view only</p>
+                )}
               </div>
               <div className="flex space-x-3">
                 <button
-                  onClick={() => setShowEditModal(true)}
-                  className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg flex items-center space-x-2"
+                  onClick={() => router.push(`/oracle/clients/${clientId}/find-products`)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2"
                 >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                   </svg>
-                  <span>Edit Client</span>
-                </button>
-                <button
-                  onClick={handleDeleteClient}
-                  className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                  <span>Delete</span>
+                  <span>Find products for this client</span>
                 </button>
+                {!isReadOnly && (
+                  <>
+                    <button
+                      onClick={() => setShowEditModal(true)}
+                      className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg flex items-center space-x-2"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                      </svg>
+                      <span>Edit Client</span>
+                    </button>
+                    <button
+                      onClick={handleDeleteClient}
+                      className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                      <span>Delete</span>
+                    </button>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -323,19 +321,47 @@ function ClientDetailContent() {
             <div className="lg:col-span-2">
               <div className="bg-white rounded-lg shadow p-6">
                 <div className="flex items-center justify-between mb-6">
-                  <h2 className="text-xl font-semibold text-gray-900">Insurance Policies</h2>
-                  <button
-                    onClick={() => setShowAddPolicyModal(true)}
-                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2"
-                  >
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                    </svg>
-                    <span>Add Policy</span>
-                  </button>
+                  <div className="flex space-x-6">
+                    {(['policies', 'proposals'] as const).map((tab) => (
+                      <button
+                        key={tab}
+                        onClick={() => setActiveTab(tab)}
+                        className={`pb-1 text-xl font-semibold border-b-2 transition-colors ${
+                          activeTab === tab
+                            ? 'text-gray-900 border-blue-600'
+                            : 'text-gray-400 border-transparent hover:text-gray-700'
+                        }`}
+                      >
+                        {tab === 'policies' ? 'Insurance Policies' : 'Proposals'}
+                      </button>
+                    ))}
+                  </div>
+                  {isReadOnly ? null : activeTab === 'policies' ? (
+                    <button
+                      onClick={() => setShowAddPolicyModal(true)}
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                      </svg>
+                      <span>Add Policy</span>
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleCreateProposal}
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                      </svg>
+                      <span>Create proposal for this client</span>
+                    </button>
+                  )}
                 </div>
 
-                {policies.length === 0 ? (
+                {activeTab === 'proposals' ? (
+                  <ClientProposalsTab clientId={clientId} onCreateProposal={isReadOnly ? undefined : handleCreateProposal} />
+                ) : policies.length === 0 ? (
                   <div className="text-center py-12">
                     <svg
                       className="w-16 h-16 text-gray-300 mx-auto mb-4"
@@ -351,13 +377,17 @@ function ClientDetailContent() {
                       />
                     </svg>
                     <h3 className="text-lg font-semibold text-gray-900 mb-2">No policies yet</h3>
-                    <p className="text-gray-600 mb-4">Add the first insurance policy for this client.</p>
-                    <button
-                      onClick={() => setShowAddPolicyModal(true)}
-                      className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg"
-                    >
-                      Add First Policy
-                    </button>
+                    {!isReadOnly && (
+                      <>
+                        <p className="text-gray-600 mb-4">Add the first insurance policy for this client.</p>
+                        <button
+                          onClick={() => setShowAddPolicyModal(true)}
+                          className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg"
+                        >
+                          Add First Policy
+                        </button>
+                      </>
+                    )}
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -435,27 +465,31 @@ function ClientDetailContent() {
                                 </svg>
                                 <span>{policy.policy_document_filename || 'View Document'}</span>
                               </a>
-                              <label className="cursor-pointer text-sm text-gray-600 hover:text-gray-800">
-                                {uploadingPolicyId === policy.policy_id ? (
-                                  <span className="text-blue-600">Uploading...</span>
-                                ) : (
-                                  <>
-                                    Replace
-                                    <input
-                                      type="file"
-                                      accept=".pdf"
-                                      className="hidden"
-                                      onChange={(e) => {
-                                        const file = e.target.files?.[0];
-                                        if (file) {
-                                          handleUploadDocument(policy.policy_id, file);
-                                        }
-                                      }}
-                                    />
-                                  </>
-                                )}
-                              </label>
+                              {!isReadOnly && (
+                                <label className="cursor-pointer text-sm text-gray-600 hover:text-gray-800">
+                                  {uploadingPolicyId === policy.policy_id ? (
+                                    <span className="text-blue-600">Uploading...</span>
+                                  ) : (
+                                    <>
+                                      Replace
+                                      <input
+                                        type="file"
+                                        accept=".pdf"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                          const file = e.target.files?.[0];
+                                          if (file) {
+                                            handleUploadDocument(policy.policy_id, file);
+                                          }
+                                        }}
+                                      />
+                                    </>
+                                  )}
+                                </label>
+                              )}
                             </div>
+                          ) : isReadOnly ? (
+                            <p className="text-sm text-gray-500">No policy document</p>
                           ) : (
                             <label className="cursor-pointer inline-flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-800">
                               {uploadingPolicyId === policy.policy_id ? (
@@ -483,14 +517,16 @@ function ClientDetailContent() {
                           )}
                         </div>
 
-                        <div className="flex justify-end space-x-2 pt-3 border-t">
-                          <button
-                            onClick={() => handleDeletePolicy(policy.policy_id)}
-                            className="text-red-600 hover:text-red-800 text-sm font-medium"
-                          >
-                            Delete
-                          </button>
-                        </div>
+                        {!isReadOnly && (
+                          <div className="flex justify-end space-x-2 pt-3 border-t">
+                            <button
+                              onClick={() => handleDeletePolicy(policy.policy_id)}
+                              className="text-red-600 hover:text-red-800 text-sm font-medium"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -508,7 +544,7 @@ function ClientDetailContent() {
           onClose={() => setShowEditModal(false)}
           onSuccess={() => {
             setShowEditModal(false);
-            loadClient();
+            refreshClient();
           }}
         />
       )}
@@ -520,8 +556,7 @@ function ClientDetailContent() {
           onClose={() => setShowAddPolicyModal(false)}
           onSuccess={() => {
             setShowAddPolicyModal(false);
-            loadPolicies();
-            loadClient();
+            refreshClient();
           }}
         />
       )}
@@ -529,6 +564,83 @@ function ClientDetailContent() {
   );
 }
 
+// Client Proposals Tab Component
+const PROPOSAL_STATUS_COLORS: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  extracting: 'bg-blue-100 text-blue-800',
+  reviewing: 'bg-yellow-100 text-yellow-800',
+  generating: 'bg-purple-100 text-purple-800',
+  completed: 'bg-green-100 text-green-800',
+  signed: 'bg-emerald-100 text-emerald-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+// Without onCreateProposal (a team member's client) the tab is view only
+function ClientProposalsTab({ clientId, onCreateProposal }: { clientId: string; onCreateProposal?: () => void }) {
+  const router = useRouter();
+  const { data: proposals = [], isLoading, isError } = useClientProposals(clientId);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="text-center py-12 text-red-600">Failed to load proposals</p>;
+  }
+
+  if (proposals.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">No proposals yet</h3>
+        {onCreateProposal && (
+          <>
+            <p className="text-gray-600 mb-4">Create the first proposal for this client.</p>
+            <button onClick={onCreateProposal} className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg">
+              Create First Proposal
+            </button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {proposals.map((proposal) => (
+        <button
+          key={proposal.proposal_id}
+          onClick={() => router.push(`/oracle/proposals/${proposal.proposal_id}`)}
+          className="w-full text-left border border-gray-200 rounded-lg p-4 hover:border-blue-300 transition-colors"
+        >
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                {proposal.highlighted_insurance_name || 'No product highlighted yet'}
+              </h3>
+              <p className="text-sm text-gray-600">
+                Created {new Date(proposal.created_at).toLocaleDateString()} • Updated{' '}
+                {new Date(proposal.updated_at).toLocaleDateString()}
+                {proposal.target_currency && <> • {proposal.target_currency}</>}
+              </p>
+            </div>
+            <span
+              className={`px-3 py-1 rounded-full text-xs font-medium capitalize ${
+                PROPOSAL_STATUS_COLORS[proposal.status] || 'bg-gray-100 text-gray-800'
+              }`}
+            >
+              {proposal.status.replace(/_/g, ' ')}
+            </span>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
+
 // Add Policy Modal Component
 function AddPolicyModal({
   clientId,
@@ -561,10 +673,8 @@ function AddPolicyModal({
     const loadInsurances = async () => {
       try {
         setLoadingInsurances(true);
-        const response = await apiClient.get('/api/v1/products?limit=500');
-        if (response.data.success) {
-          setInsurances(response.data.data.products || []);
-        }
+        const response = await listProducts({ limit: 500 });
+        setInsurances(response.data.products || []);
       } catch (error: any) {
         console.error('Error loading insurances:', error);
         toast.error('Failed to load insurance products');
@@ -603,15 +713,12 @@ function AddPolicyModal({
       if (formData.premium_amount) payload.premium_amount = parseFloat(formData.premium_amount);
       if (formData.coverage_amount) payload.coverage_amount = parseFloat(formData.coverage_amount);
 
-      const response = await apiClient.post(`/api/v1/clients/${clientId}/policies`, payload);
-
-      if (response.data.success) {
-        toast.success('Policy added successfully!');
-        onSuccess();
-      }
+      await createClientPolicy(clientId, payload);
+      toast.success('Policy added successfully!');
+      onSuccess();
     } catch (error: any) {
       console.error('Error adding policy:', error);
-      toast.error(error.response?.data?.detail || 'Failed to add policy');
+      toast.error(error.detail || 'Failed to add policy');
     } finally {
       setSubmitting(false);
     }
@@ -870,15 +977,12 @@ function EditClientModal({
     setSubmitting(true);
 
     try {
-      const response = await apiClient.put(`/api/v1/clients/${client.client_id}`, formData);
-
-      if (response.data.success) {
-        toast.success('Client updated successfully!');
-        onSuccess();
-      }
+      await updateClient(client.client_id, formData);
+      toast.success('Client updated successfully!');
+      onSuccess();
     } catch (error: any) {
       console.error('Error updating client:', error);
-      toast.error(error.response?.data?.detail || 'Failed to update client');
+      toast.error(error.detail || 'Failed to update client');
     } finally {
       setSubmitting(false);
     }
@@ -1018,6 +1122,20 @@ function EditClientModal({
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Preferred Language</label>
+                <select
+                  value={formData.preferred_language}
+                  onChange={(e) => setFormData({ ...formData, preferred_language: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {getClientLanguageOptions(formData.preferred_language).map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
                 <div className="flex gap-2 mb-2">
@@ -1,26 +1,31 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Sidebar from '@/components/Sidebar';
 import ProtectedRoute from '@/components/ProtectedRoute';
-import { apiClient } from '@/lib/api';
+import TeamFilter from '@/components/meeting-tracker/TeamFilter';
+import ViewContextBanner from '@/components/meeting-tracker/ViewContextBanner';
+import { createClient, listClients } from '@/lib/api/oracle/clients';
+import { getClientLanguageOptions } from '@/lib/proposal-i18n';
 import { toast } from 'react-hot-toast';
 import {
   ClientListItem,
-  ClientListResponse,
   ClientCreateData,
   Gender,
 } from '@/types/client';
 
 function ClientsPageContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [clients, setClients] = useState<ClientListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [totalClients, setTotalClients] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
   const [filterHasPolicies, setFilterHasPolicies] = useState<boolean | undefined>(undefined);
+  // 'me', 'team' or a team member's user id (team leaders only), kept in the ?team= query parameter
+  const [teamFilter, setTeamFilter] = useState(searchParams.get('team') || 'me');
 
   // Pagination
   const [currentPage, setCurrentPage] = useState(1);
@@ -30,26 +35,19 @@ function ClientsPageContent() {
   const loadClients = async () => {
     try {
       setLoading(true);
-      const params = new URLSearchParams({
-        limit: itemsPerPage.toString(),
-        offset: ((currentPage - 1) * itemsPerPage).toString(),
+      const result = await listClients({
+        limit: itemsPerPage,
+        offset: (currentPage - 1) * itemsPerPage,
         sort_by: 'created_at',
         sort_order: 'desc',
+        search: searchQuery || undefined,
+        has_policies: filterHasPolicies,
+        team_filter: teamFilter !== 'me' ? teamFilter : undefined,
       });
 
-      if (searchQuery) {
-        params.append('search', searchQuery);
-      }
-
-      if (filterHasPolicies !== undefined) {
-        params.append('has_policies', filterHasPolicies.toString());
-      }
-
-      const response = await apiClient.get<ClientListResponse>(`/api/v1/clients?${params.toString()}`);
-
-      if (response.data.success) {
-        setClients(response.data.data.clients);
-        setTotalClients(response.data.data.total);
+      if (result.success) {
+        setClients(result.data.clients);
+        setTotalClients(result.data.total);
       }
     } catch (error: any) {
       console.error('Error loading clients:', error);
@@ -61,7 +59,25 @@ function ClientsPageContent() {
 
   useEffect(() => {
     loadClients();
-  }, [currentPage, filterHasPolicies]);
+  }, [currentPage, filterHasPolicies, teamFilter]);
+
+  useEffect(() => {
+    setTeamFilter(searchParams.get('team') || 'me');
+  }, [searchParams]);
+
+  const handleTeamFilterChange = (newFilter: string) => {
+    setTeamFilter(newFilter);
+    setCurrentPage(1);
+
+    // Update URL query parameter
+    const params = new URLSearchParams(searchParams.toString());
+    if (newFilter && newFilter !== 'me') {
+      params.set('team', newFilter);
+    } else {
+      params.delete('team');
+    }
+    router.push(`?${params.toString()}`, { scroll: false });
+  };
 
   // Search with debounce
   useEffect(() => {
@@ -90,6 +106,12 @@ function ClientsPageContent() {
     <Sidebar>
       <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
         <main className="max-w-7xl mx-auto px-6 py-8">
+          <ViewContextBanner
+            userId={teamFilter !== 'me' && teamFilter !== 'team' ? teamFilter : null}
+            variant="light"
+            returnHref="?"
+          />
+
           {/* Header */}
           <div className="mb-8">
             <div className="flex items-center justify-between mb-4">
@@ -134,6 +156,7 @@ function ClientsPageContent() {
                 <option value="true">With Policies</option>
                 <option value="false">Without Policies</option>
               </select>
+              <TeamFilter value={teamFilter} onChange={handleTeamFilterChange} variant="light" />
             </div>
           </div>
 
@@ -185,9 +208,13 @@ function ClientsPageContent() {
               </svg>
               <h3 className="text-xl font-semibold text-gray-900 mb-2">No clients yet</h3>
               <p className="text-gray-600 mb-6">
-                {searchQuery ? 'No clients match your search criteria.' : 'Get started by adding your first client.'}
+                {searchQuery
+                  ? 'No clients match your search criteria.'
+                  : teamFilter !== 'me'
+                  ? 'No clients for this team view yet.'
+                  : 'Get started by adding your first client.'}
               </p>
-              {!searchQuery && (
+              {!searchQuery && teamFilter === 'me' && (
                 <button
                   onClick={handleAddClient}
                   className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg transition-colors"
@@ -214,6 +241,9 @@ function ClientsPageContent() {
                       {client.phone && (
                         <p className="text-sm text-gray-600">{client.phone}</p>
                       )}
+                      {teamFilter !== 'me' && client.owner_name && (
+                        <p className="text-xs text-gray-500 mt-1">👤 {client.owner_name}</p>
+                      )}
                     </div>
 
                     {/* Stats */}
@@ -348,15 +378,12 @@ function AddClientModal({ onClose, onSuccess }: { onClose: () => void; onSuccess
         return;
       }
 
-      const response = await apiClient.post('/api/v1/clients', formData);
-
-      if (response.data.success) {
-        toast.success('Client added successfully!');
-        onSuccess();
-      }
+      await createClient(formData);
+      toast.success('Client added successfully!');
+      onSuccess();
     } catch (error: any) {
       console.error('Error adding client:', error);
-      toast.error(error.response?.data?.detail || 'Failed to add client');
+      toast.error(error.detail || 'Failed to add client');
     } finally {
       setSubmitting(false);
     }
@@ -508,6 +535,20 @@ function AddClientModal({ onClose, onSuccess }: { onClose: () => void; onSuccess
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Preferred Language</label>
+                <select
+                  value={formData.preferred_language}
+                  onChange={(e) => setFormData({ ...formData, preferred_language: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {getClientLanguageOptions(formData.preferred_language).map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
                 <div className="flex gap-2 mb-2">
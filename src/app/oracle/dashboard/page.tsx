@@ -6,7 +6,7 @@ import Sidebar from '@/components/Sidebar';
 import { UserRole } from '@/types/auth';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { apiClient } from '@/lib/api';
+import { getDashboardStats } from '@/lib/api/oracle/admin';
 
 function DashboardContent() {
   const { user, logout } = useAuth();
@@ -20,11 +20,7 @@ function DashboardContent() {
     
     try {
       setIsLoadingStats(true);
-      const response = await apiClient.get('/api/v1/oracle/dashboard/stats');
-      
-      if (response.data.success) {
-        setStatsCards(response.data.data.stats);
-      }
+      setStatsCards(await getDashboardStats());
     } catch (error) {
       console.error('Failed to fetch dashboard stats:', error);
       // Fall back to static stats
@@ -229,6 +225,20 @@ function DashboardContent() {
             description: 'Manage company profile and branding',
             underConstruction: false
           },
+          {
+            title: 'Proposal Templates',
+            href: '/oracle/admin/proposal-templates',
+            icon: '🎨',
+            description: 'Manage proposal layouts and branding presets',
+            underConstruction: false
+          },
+          {
+            title: 'Guided Questions',
+            href: '/oracle/admin/guided-questions',
+            icon: '🧭',
+            description: 'Edit the guided discovery questions your advisors ask',
+            underConstruction: false
+          },
           {
             title: 'Financial Reports',
             href: '/oracle/admin/financial-reports',
@@ -281,6 +291,20 @@ function DashboardContent() {
             description: 'Create and configure commission rates',
             underConstruction: false
           },
+          {
+            title: 'Proposal Templates',
+            href: '/oracle/admin/proposal-templates',
+            icon: '🎨',
+            description: 'Manage proposal layouts and branding presets',
+            underConstruction: false
+          },
+          {
+            title: 'Guided Questions',
+            href: '/oracle/admin/guided-questions',
+            icon: '🧭',
+            description: 'Edit the guided discovery questions your advisors ask',
+            underConstruction: false
+          },
         ];
       // ADVISOR, LEADER_1, LEADER_2, SENIOR_PARTNER get NO admin actions
       default:
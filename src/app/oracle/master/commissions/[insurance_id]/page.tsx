@@ -7,19 +7,14 @@ import Sidebar from '@/components/Sidebar';
 import { UserRole } from '@/types/auth';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useParams } from 'next/navigation';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-
-interface Commission {
-  commission_id: string;
-  insurance_id: string;
-  premium_term: string;
-  role_id: number;
-  commission_year: number;
-  commission_rate: number;
-  role_name?: string;
-}
+import {
+  createCommission,
+  deleteCommission,
+  getInsuranceCommissions,
+  updateCommission,
+} from '@/lib/api/oracle/commissions';
+import { formatErrorForDisplay } from '@/lib/utils';
+import type { Commission } from '@/types/oracle/commission';
 
 interface CommissionFormData {
   premium_term: string;
@@ -47,20 +42,6 @@ function CommissionEditContent() {
   console.log('MASTER Commission Edit - User role:', user?.role);
   const searchParams = useSearchParams();
   
-  // Helper function to get auth token
-  const getAuthToken = () => {
-    const authTokensStr = localStorage.getItem('auth_tokens');
-    if (authTokensStr) {
-      try {
-        const authTokens = JSON.parse(authTokensStr);
-        return authTokens?.access_token;
-      } catch (e) {
-        console.error('Failed to parse auth tokens:', e);
-      }
-    }
-    return null;
-  };
-  
   const insurance_id = params.insurance_id as string;
   const insurance_name = searchParams.get('name') || 'Unknown Insurance';
   const company_name = searchParams.get('company') || 'Unknown Company';
@@ -108,35 +89,25 @@ function CommissionEditContent() {
 
   const fetchCommissions = async () => {
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/oracle/commissions/insurance/${insurance_id}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${getAuthToken()}`,
-          },
-        }
-      );
-      if (response.ok) {
-        const data = await response.json();
-        // Add role names to commissions
-        const commissionsWithRoles = data.map((commission: Commission) => ({
-          ...commission,
-          role_name: getRoleName(commission.role_id)
-        }));
-        setCommissions(commissionsWithRoles);
-        
-        // Initialize editing data after commissions are loaded
-        if (!editMode) {
-          const editData: Record<string, Record<string, number>> = {};
-          commissionsWithRoles.forEach((commission: Commission) => {
-            const key = `${commission.premium_term}-${commission.commission_year}`;
-            if (!editData[key]) {
-              editData[key] = {};
-            }
-            editData[key][commission.role_id] = commission.commission_rate;
-          });
-          setEditingData(editData);
-        }
+      const data = await getInsuranceCommissions(insurance_id);
+      // Add role names to commissions
+      const commissionsWithRoles = data.map((commission: Commission) => ({
+        ...commission,
+        role_name: getRoleName(commission.role_id)
+      }));
+      setCommissions(commissionsWithRoles);
+      
+      // Initialize editing data after commissions are loaded
+      if (!editMode) {
+        const editData: Record<string, Record<string, number>> = {};
+        commissionsWithRoles.forEach((commission: Commission) => {
+          const key = `${commission.premium_term}-${commission.commission_year}`;
+          if (!editData[key]) {
+            editData[key] = {};
+          }
+          editData[key][commission.role_id] = commission.commission_rate;
+        });
+        setEditingData(editData);
       }
     } catch (error) {
       console.error('Error fetching commissions:', error);
@@ -148,37 +119,19 @@ function CommissionEditContent() {
     setSaving(true);
 
     try {
-      const url = editingCommission
-        ? `${API_BASE_URL}/api/v1/oracle/commissions/${editingCommission.commission_id}`
-        : `${API_BASE_URL}/api/v1/oracle/commissions`;
-
-      const method = editingCommission ? 'PUT' : 'POST';
-      
-      const payload = editingCommission
-        ? formData
-        : { ...formData, insurance_id };
-
-      const response = await fetch(url, {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${getAuthToken()}`,
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (response.ok) {
-        await fetchCommissions();
-        resetForm();
-        setShowAddForm(false);
-        setEditingCommission(null);
+      if (editingCommission) {
+        await updateCommission(editingCommission.commission_id, formData);
       } else {
-        const error = await response.json();
-        alert(`Error: ${error.detail || 'Failed to save commission'}`);
+        await createCommission({ ...formData, insurance_id });
       }
+
+      await fetchCommissions();
+      resetForm();
+      setShowAddForm(false);
+      setEditingCommission(null);
     } catch (error) {
       console.error('Error saving commission:', error);
-      alert('Failed to save commission');
+      alert(`Error: ${formatErrorForDisplay(error, 'Failed to save commission')}`);
     } finally {
       setSaving(false);
     }
@@ -191,21 +144,8 @@ function CommissionEditContent() {
 
     setSaving(true);
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/oracle/commissions/${commissionId}`,
-        {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${getAuthToken()}`,
-          },
-        }
-      );
-
-      if (response.ok) {
-        await fetchCommissions();
-      } else {
-        alert('Failed to delete commission');
-      }
+      await deleteCommission(commissionId);
+      await fetchCommissions();
     } catch (error) {
       console.error('Error deleting commission:', error);
       alert('Failed to delete commission');
@@ -345,12 +285,6 @@ function CommissionEditContent() {
 
     setSaving(true);
     try {
-      const token = getAuthToken();
-      if (!token) {
-        alert('Authentication token not found. Please log in again.');
-        return;
-      }
-
       // Create all commission records
       const promises = [];
       let hasZeroRates = false;
@@ -386,32 +320,20 @@ function CommissionEditContent() {
               commission_rate: rate
             };
 
-            promises.push(
-              fetch(`${API_BASE_URL}/api/v1/oracle/commissions`, {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(commissionData),
-              })
-            );
+            promises.push(createCommission(commissionData));
           }
         }
       }
 
       // Execute all requests
-      const responses = await Promise.all(promises);
+      const responses = await Promise.allSettled(promises);
       
       // Check if all requests succeeded
-      const failures = responses.filter(response => !response.ok);
+      const failures = responses.filter(
+        (response): response is PromiseRejectedResult => response.status === 'rejected'
+      );
       if (failures.length > 0) {
-        const errorMessages = await Promise.all(
-          failures.map(async (response) => {
-            const error = await response.text();
-            return `${response.status}: ${error}`;
-          })
-        );
+        const errorMessages = failures.map((failure) => formatErrorForDisplay(failure.reason));
         alert(`Some commission rates failed to save:\n${errorMessages.join('\n')}`);
       } else {
         alert(`Successfully created ${responses.length} commission rates!`);
@@ -578,12 +500,7 @@ function CommissionEditContent() {
 
       // Delete each commission
       for (const commission of commissionsToDelete) {
-        await fetch(`${API_BASE_URL}/api/v1/oracle/commissions/${commission.commission_id}`, {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${getAuthToken()}`,
-          },
-        });
+        await deleteCommission(commission.commission_id);
       }
 
       // Remove from editing data
@@ -622,12 +539,6 @@ function CommissionEditContent() {
 
     setSaving(true);
     try {
-      const token = getAuthToken();
-      if (!token) {
-        alert('Authentication token not found. Please log in again.');
-        return;
-      }
-
       // Get all commissions for this premium term from database
       const commissionsToDelete = commissions.filter(c => c.premium_term === premiumTerm);
       
@@ -663,18 +574,13 @@ function CommissionEditContent() {
 
       // Delete all commissions for this premium term
       const deletePromises = commissionsToDelete.map(commission =>
-        fetch(`${API_BASE_URL}/api/v1/oracle/commissions/${commission.commission_id}`, {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-        })
+        deleteCommission(commission.commission_id)
       );
 
-      const responses = await Promise.all(deletePromises);
+      const responses = await Promise.allSettled(deletePromises);
       
       // Check if all deletions succeeded
-      const failures = responses.filter(response => !response.ok);
+      const failures = responses.filter(response => response.status === 'rejected');
       if (failures.length > 0) {
         alert(`Failed to delete ${failures.length} commission records. Please try again.`);
         return;
@@ -731,43 +637,22 @@ function CommissionEditContent() {
         );
 
         try {
-          let response;
           if (existing) {
             // Update existing commission
             // console.log(`Updating commission ${existing.commission_id}:`, change);
-            response = await fetch(`${API_BASE_URL}/api/v1/oracle/commissions/${existing.commission_id}`, {
-              method: 'PUT',
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${getAuthToken()}`,
-              },
-              body: JSON.stringify({
-                commission_rate: change.commission_rate
-              }),
+            await updateCommission(existing.commission_id, {
+              commission_rate: change.commission_rate
             });
           } else {
             // Create new commission
             // console.log('Creating new commission:', { ...change, insurance_id });
-            response = await fetch(`${API_BASE_URL}/api/v1/oracle/commissions`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${getAuthToken()}`,
-              },
-              body: JSON.stringify({
-                ...change,
-                insurance_id
-              }),
+            await createCommission({
+              ...change,
+              insurance_id
             });
           }
 
-          if (response.ok) {
-            successCount++;
-          } else {
-            const errorData = await response.json();
-            console.error(`Failed to save commission:`, errorData);
-            errorCount++;
-          }
+          successCount++;
         } catch (err) {
           console.error('Error saving individual commission:', err);
           errorCount++;
@@ -6,22 +6,11 @@ import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
 import { UserRole } from '@/types/auth';
 import { useRouter } from 'next/navigation';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface Insurance {
-  insurance_id: string;
-  insurance_name: string;
-  category: string;
-  discontinued: boolean;
-  company_id: string;
-  company_name: string;
-}
-
-interface Company {
-  company_id: string;
-  name: string;
-}
+import type { ApiError } from '@/types/auth';
+import { listMasterCommissions } from '@/lib/api/oracle/commissions';
+import { listCompanies } from '@/lib/api/oracle/companies';
+import type { CompanySummary as Company } from '@/lib/api/oracle/companies';
+import type { MasterCommissionInsurance as Insurance } from '@/types/oracle/commission';
 
 function MasterCommissionsContent() {
   const { user } = useAuth();
@@ -53,51 +42,20 @@ function MasterCommissionsContent() {
     fetchInsurances();
   }, [selectedCompanyId, searchQuery, currentPage]);
 
-  const getAuthToken = () => {
-    const authTokensStr = localStorage.getItem('auth_tokens');
-    if (authTokensStr) {
-      try {
-        const authTokens = JSON.parse(authTokensStr);
-        return authTokens?.access_token;
-      } catch (e) {
-        console.error('Failed to parse auth tokens:', e);
-      }
-    }
-    return null;
-  };
-
   const fetchCompanies = async () => {
     try {
       setLoadingCompanies(true);
-      const token = getAuthToken();
-
-      if (!token) {
-        alert('No authentication token found. Please log out and log back in.');
-        return;
-      }
-
-      const response = await fetch(`${API_BASE_URL}/api/v1/oracle/companies`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        console.log('Companies API response:', result);
-        // The companies endpoint returns { success, companies, total_count, message }
-        const companiesData = result.companies || [];
-        console.log('Companies loaded:', companiesData.length);
-        setCompanies(companiesData);
-
-        // Set default company if user has company_id
-        if (user?.company_id && !selectedCompanyId) {
-          console.log('Setting default company to user company_id:', user.company_id);
-          setSelectedCompanyId(user.company_id);
-        }
-      } else {
-        console.error('Failed to fetch companies:', response.statusText);
+      const result = await listCompanies();
+      console.log('Companies API response:', result);
+      // The companies endpoint returns { success, companies, total_count, message }
+      const companiesData = result.companies || [];
+      console.log('Companies loaded:', companiesData.length);
+      setCompanies(companiesData);
+
+      // Set default company if user has company_id
+      if (user?.company_id && !selectedCompanyId) {
+        console.log('Setting default company to user company_id:', user.company_id);
+        setSelectedCompanyId(user.company_id);
       }
     } catch (error) {
       console.error('Error fetching companies:', error);
@@ -109,56 +67,30 @@ function MasterCommissionsContent() {
   const fetchInsurances = async () => {
     try {
       setLoading(true);
-      const token = getAuthToken();
-
-      if (!token) {
-        alert('No authentication token found. Please log out and log back in.');
-        return;
-      }
-
-      // Build query parameters
-      const params = new URLSearchParams();
-      if (selectedCompanyId) {
-        params.append('company_id', selectedCompanyId);
-      }
-      if (searchQuery.trim()) {
-        params.append('search', searchQuery.trim());
-      }
-      params.append('limit', itemsPerPage.toString());
-      params.append('offset', ((currentPage - 1) * itemsPerPage).toString());
-
-      const url = `${API_BASE_URL}/api/v1/oracle/master/commissions?${params.toString()}`;
-      console.log('Fetching insurances with URL:', url);
       console.log('Selected company ID:', selectedCompanyId);
       console.log('Search query:', searchQuery);
 
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
+      const result = await listMasterCommissions({
+        company_id: selectedCompanyId || undefined,
+        search: searchQuery.trim() || undefined,
+        limit: itemsPerPage,
+        offset: (currentPage - 1) * itemsPerPage,
       });
-
-      if (response.ok) {
-        const result = await response.json();
-        console.log('API Response:', result);
-        if (result.success && result.data) {
-          console.log('Insurances received:', result.data.insurances?.length, 'Total:', result.data.total);
-          setInsurances(result.data.insurances || []);
-          setTotalInsurances(result.data.total || 0);
-        } else {
-          setInsurances([]);
-          setTotalInsurances(0);
-        }
-      } else if (response.status === 403) {
-        alert('You do not have permission to access this page. MASTER role required.');
-        router.push('/oracle/dashboard');
+      console.log('API Response:', result);
+      if (result.success && result.data) {
+        console.log('Insurances received:', result.data.insurances?.length, 'Total:', result.data.total);
+        setInsurances(result.data.insurances || []);
+        setTotalInsurances(result.data.total || 0);
       } else {
-        console.error('Failed to fetch insurances:', response.statusText);
         setInsurances([]);
         setTotalInsurances(0);
       }
     } catch (error) {
+      if ((error as ApiError).status_code === 403) {
+        alert('You do not have permission to access this page. MASTER role required.');
+        router.push('/oracle/dashboard');
+        return;
+      }
       console.error('Error fetching insurances:', error);
       setInsurances([]);
       setTotalInsurances(0);
@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Sidebar from '@/components/Sidebar';
 import { useAuth } from '@/contexts/AuthContext';
+import { getCompany, updateCompany, uploadCompanyLogo } from '@/lib/api/meeting-tracker/admin';
+import { formatErrorForDisplay } from '@/lib/utils';
 
 interface CompanyFormData {
   name: string;
@@ -77,31 +79,7 @@ export default function EditCompanyPage() {
 
   const fetchCompany = async () => {
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) {
-        setError('No authentication token found. Please log in again.');
-        setLoading(false);
-        return;
-      }
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      if (!token) {
-        setError('No authentication token found. Please log in again.');
-        setLoading(false);
-        return;
-      }
-
-      const response = await fetch(
-        `http://localhost:8000/api/v1/admin/meeting-tracker/companies/${companyId}`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      if (!response.ok) throw new Error('Failed to fetch company details');
-      const company = await response.json();
+      const company = await getCompany(companyId);
 
       setFormData({
         name: company.name || '',
@@ -120,8 +98,8 @@ export default function EditCompanyPage() {
         address: company.address || '',
         logo_url: company.logo_url || '',
       });
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Failed to fetch company details'));
     } finally {
       setLoading(false);
     }
@@ -161,37 +139,10 @@ export default function EditCompanyPage() {
     setError(null);
 
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) {
-        throw new Error('No authentication token found. Please log in again.');
-      }
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      const formDataUpload = new FormData();
-      formDataUpload.append('file', file);
-
-      const response = await fetch(
-        `http://localhost:8000/api/v1/admin/meeting-tracker/companies/${companyId}/logo`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-          body: formDataUpload,
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Failed to upload logo');
-      }
-
-      const data = await response.json();
+      const data = await uploadCompanyLogo(companyId, file);
       setFormData((prev) => ({ ...prev, logo_url: data.logo_url }));
-    } catch (err: any) {
-      setError(err.message || 'Failed to upload logo');
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Failed to upload logo'));
     } finally {
       setUploadingLogo(false);
     }
@@ -203,54 +154,27 @@ export default function EditCompanyPage() {
     setError(null);
 
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) {
-        throw new Error('No authentication token found. Please log in again.');
-      }
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please log in again.');
-      }
-
-      const response = await fetch(
-        `http://localhost:8000/api/v1/admin/meeting-tracker/companies/${companyId}`,
-        {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            name: formData.name,
-            email: formData.email,
-            phone: formData.phone,
-            country: formData.country,
-            city: formData.city,
-            timezone: formData.timezone,
-            plan_type: formData.plan_type,
-            website: formData.website || null,
-            meeting_prefix: formData.meeting_prefix || null,
-            vision: formData.vision || null,
-            mission: formData.mission || null,
-            summary: formData.summary || null,
-            tagline: formData.tagline || null,
-            address: formData.address || null,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Failed to update company');
-      }
+      await updateCompany(companyId, {
+        name: formData.name,
+        email: formData.email,
+        phone: formData.phone,
+        country: formData.country,
+        city: formData.city,
+        timezone: formData.timezone,
+        plan_type: formData.plan_type,
+        website: formData.website || null,
+        meeting_prefix: formData.meeting_prefix || null,
+        vision: formData.vision || null,
+        mission: formData.mission || null,
+        summary: formData.summary || null,
+        tagline: formData.tagline || null,
+        address: formData.address || null,
+      });
 
       // Redirect back to companies list
       router.push('/oracle/master/companies');
-    } catch (err: any) {
-      setError(err.message || 'Failed to update company');
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Failed to update company'));
     } finally {
       setSaving(false);
     }
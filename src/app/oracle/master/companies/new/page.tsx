@@ -4,6 +4,8 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Sidebar from '@/components/Sidebar';
 import { useAuth } from '@/contexts/AuthContext';
+import { createCompany } from '@/lib/api/meeting-tracker/admin';
+import { formatErrorForDisplay } from '@/lib/utils';
 
 interface CompanyFormData {
   name: string;
@@ -85,48 +87,22 @@ export default function NewCompanyPage() {
     setError(null);
 
     try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      if (!authTokensStr) {
-        throw new Error('No authentication token found. Please log in again.');
-      }
-
-      const authTokens = JSON.parse(authTokensStr);
-      const token = authTokens.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please log in again.');
-      }
-
-      const response = await fetch('http://localhost:8000/api/v1/admin/meeting-tracker/companies', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          name: formData.name,
-          email: formData.email,
-          phone: formData.phone,
-          country: formData.country,
-          city: formData.city,
-          timezone: formData.timezone,
-          subscribed_plans: formData.subscribed_plans,
-          website: formData.website || null,
-          meeting_prefix: formData.meeting_prefix || null,
-        }),
+      const company = await createCompany({
+        name: formData.name,
+        email: formData.email,
+        phone: formData.phone,
+        country: formData.country,
+        city: formData.city,
+        timezone: formData.timezone,
+        subscribed_plans: formData.subscribed_plans,
+        website: formData.website || null,
+        meeting_prefix: formData.meeting_prefix || null,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Failed to create company');
-      }
-
-      const company = await response.json();
-
       // Redirect to CSV upload page
       router.push(`/oracle/master/companies/${company.company_id}/import`);
-    } catch (err: any) {
-      setError(err.message || 'Failed to create company');
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Failed to create company'));
     } finally {
       setLoading(false);
     }
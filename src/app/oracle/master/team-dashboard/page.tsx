@@ -4,58 +4,20 @@ import { useAuth } from '@/contexts/AuthContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
 import { useState, useEffect, useRef } from 'react';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface Company {
-  company_id: string;
-  name: string;
-  status: string;
-}
-
-interface TeamMember {
-  member_id: string;
-  user_id: string;
-  email: string;
-  first_name: string;
-  last_name: string;
-  manager_id: string | null;
-  manager_name: string | null;
-  level: number;
-  team_name: string | null;
-  position_title: string | null;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-  company?: {
-    company_id: string;
-    name: string;
-  };
-}
-
-interface PaginatedResponse {
-  members: TeamMember[];
-  total: number;
-  page: number;
-  limit: number;
-  total_pages: number;
-}
-
-interface ValidationError {
-  row: number;
-  field: string;
-  error: string;
-}
-
-interface UploadResponse {
-  success: boolean;
-  validated: number;
-  imported: number;
-  errors: ValidationError[];
-  total_rows: number;
-  message: string;
-}
+import {
+  exportHierarchyCsv,
+  listCompanies,
+  listTeamMembers,
+  updateTeamMember,
+  uploadHierarchyCsv,
+} from '@/lib/api/meeting-tracker/admin';
+import { formatErrorForDisplay } from '@/lib/utils';
+import type {
+  AdminCompany as Company,
+  AdminTeamMember as TeamMember,
+  AdminTeamMemberUpdateData,
+  HierarchyUploadResponse as UploadResponse,
+} from '@/types/meeting-tracker';
 
 function OracleTeamDashboardContent() {
   const { user } = useAuth();
@@ -112,20 +74,7 @@ function OracleTeamDashboardContent() {
   const fetchCompanies = async () => {
     try {
       setLoadingCompanies(true);
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const res = await fetch(
-        `${API_BASE_URL}/api/v1/admin/meeting-tracker/companies/active?limit=100`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      if (!res.ok) throw new Error('Failed to fetch companies');
-
-      const data: Company[] = await res.json();
+      const data = await listCompanies('active', 100);
       setCompanies(data);
     } catch (error) {
       console.error('Error fetching companies:', error);
@@ -137,29 +86,13 @@ function OracleTeamDashboardContent() {
   const fetchMembers = async () => {
     try {
       setLoading(true);
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: '20',
+      const data = await listTeamMembers({
+        page,
+        limit: 20,
+        search: searchQuery || undefined,
+        level: levelFilter || undefined,
+        company_id: companyFilter || undefined,
       });
-
-      if (searchQuery) params.append('search', searchQuery);
-      if (levelFilter) params.append('level', levelFilter.toString());
-      if (companyFilter) params.append('company_id', companyFilter);
-
-      const res = await fetch(
-        `${API_BASE_URL}/api/v1/admin/meeting-tracker/hierarchy/members?${params}`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      if (!res.ok) throw new Error('Failed to fetch members');
-
-      const data: PaginatedResponse = await res.json();
       setMembers(data.members);
       setTotal(data.total);
       setTotalPages(data.total_pages);
@@ -183,23 +116,7 @@ function OracleTeamDashboardContent() {
       setUploading(true);
       setUploadResult(null);
 
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const formData = new FormData();
-      formData.append('file', file);
-
-      const res = await fetch(
-        `${API_BASE_URL}/api/v1/admin/meeting-tracker/hierarchy/upload`,
-        {
-          method: 'POST',
-          headers: { Authorization: `Bearer ${token}` },
-          body: formData,
-        }
-      );
-
-      const data: UploadResponse = await res.json();
+      const data = await uploadHierarchyCsv(file);
       setUploadResult(data);
 
       if (data.success && data.imported > 0) {
@@ -212,7 +129,7 @@ function OracleTeamDashboardContent() {
         success: false,
         validated: 0,
         imported: 0,
-        errors: [{ row: 0, field: 'CSV', error: 'Failed to upload file' }],
+        errors: [{ row: 0, field: 'CSV', error: formatErrorForDisplay(error, 'Failed to upload file') }],
         total_rows: 0,
         message: 'Upload failed',
       });
@@ -223,22 +140,7 @@ function OracleTeamDashboardContent() {
 
   const exportCSV = async () => {
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const params = new URLSearchParams();
-      if (companyFilter) params.append('company_id', companyFilter);
-
-      const exportUrl = `${API_BASE_URL}/api/v1/admin/meeting-tracker/hierarchy/export${params.toString() ? `?${params}` : ''}`;
-
-      const res = await fetch(exportUrl, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (!res.ok) throw new Error('Failed to export CSV');
-
-      const blob = await res.blob();
+      const blob = await exportHierarchyCsv(companyFilter || undefined);
       const blobUrl = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = blobUrl;
@@ -274,12 +176,8 @@ function OracleTeamDashboardContent() {
       setSaving(true);
       setEditError(null);
 
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
       // Build update payload (only include changed fields)
-      const updatePayload: any = {};
+      const updatePayload: AdminTeamMemberUpdateData = {};
 
       if (editFormData.first_name !== editingMember.first_name) {
         updatePayload.first_name = editFormData.first_name;
@@ -300,30 +198,15 @@ function OracleTeamDashboardContent() {
         updatePayload.position_title = editFormData.position_title || null;
       }
 
-      const res = await fetch(
-        `${API_BASE_URL}/api/v1/admin/meeting-tracker/hierarchy/members/${editingMember.member_id}`,
-        {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(updatePayload),
-        }
-      );
-
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.detail || 'Failed to update team member');
-      }
+      await updateTeamMember(editingMember.member_id, updatePayload);
 
       // Success - refresh the members list and close modal
       await fetchMembers();
       setShowEditModal(false);
       setEditingMember(null);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating team member:', error);
-      setEditError(error.message);
+      setEditError(formatErrorForDisplay(error, 'Failed to update team member'));
     } finally {
       setSaving(false);
     }
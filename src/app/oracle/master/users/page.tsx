@@ -6,32 +6,10 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import { apiClient } from '@/lib/api';
+import { activateUser, deactivateUser, listUsers, updateUser } from '@/lib/api/oracle/users';
+import type { ManagedUser as User, ManagedUserUpdateData as EditUserData } from '@/types/oracle/user';
 import { UserRole } from '@/types/auth';
 
-interface User {
-  user_id: string;
-  email: string;
-  first_name: string | null;
-  last_name: string | null;
-  phone: string | null;
-  role: string;
-  company_id: string | null;
-  company_name?: string | null;
-  is_profile_complete: boolean;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string | null;
-  deactivated_at: string | null;
-}
-
-interface EditUserData {
-  first_name: string;
-  last_name: string;
-  phone: string;
-  role: string;
-}
-
 const ROLE_OPTIONS = [
   { value: 'SUPER_ADMIN', label: 'Super Admin' },
   { value: 'ADMIN', label: 'Admin' },
@@ -75,41 +53,23 @@ function GlobalUsersContent() {
       // Calculate offset from page number (backend uses limit/offset pagination)
       const offset = (currentPage - 1) * pageSize;
 
-      // Build query parameters
-      const params = new URLSearchParams({
-        limit: pageSize.toString(),
-        offset: offset.toString(),
+      const response = await listUsers({
+        limit: pageSize,
+        offset,
+        search: searchQuery.trim() || undefined,
+        include_inactive: showInactive || undefined,
       });
 
-      if (searchQuery.trim()) {
-        params.append('search', searchQuery.trim());
-      }
-
-      if (showInactive) {
-        params.append('include_inactive', 'true');
-      }
-
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: {
-          users: User[];
-          total: number;
-          limit: number;
-          offset: number;
-        };
-      }>(`/api/v1/oracle/admin/users?${params.toString()}`);
-
-      if (response.data.success) {
-        setUsers(response.data.data.users);
-        setTotalUsers(response.data.data.total);
-        setTotalPages(Math.ceil(response.data.data.total / pageSize));
+      if (response.success) {
+        setUsers(response.data.users);
+        setTotalUsers(response.data.total);
+        setTotalPages(Math.ceil(response.data.total / pageSize));
       } else {
         notifyError('Failed to load users');
       }
     } catch (error: any) {
       console.error('Error fetching users:', error);
-      notifyError(error.response?.data?.detail || 'Failed to load users');
+      notifyError(error.detail || 'Failed to load users');
     } finally {
       setIsLoading(false);
     }
@@ -144,21 +104,13 @@ function GlobalUsersContent() {
     try {
       setIsSubmitting(true);
 
-      const response = await apiClient.put(
-        `/api/v1/oracle/admin/users/${selectedUser.user_id}`,
-        editData
-      );
-
-      if (response.data.success) {
-        notifySuccess('User updated successfully');
-        closeEditModal();
-        fetchUsers(); // Refresh the list
-      } else {
-        notifyError('Failed to update user');
-      }
+      await updateUser(selectedUser.user_id, editData);
+      notifySuccess('User updated successfully');
+      closeEditModal();
+      fetchUsers(); // Refresh the list
     } catch (error: any) {
       console.error('Error updating user:', error);
-      notifyError(error.response?.data?.detail || 'Failed to update user');
+      notifyError(error.detail || 'Failed to update user');
     } finally {
       setIsSubmitting(false);
     }
@@ -166,21 +118,16 @@ function GlobalUsersContent() {
 
   const handleToggleStatus = async (userId: string, currentStatus: boolean) => {
     try {
-      const endpoint = currentStatus
-        ? `/api/v1/oracle/admin/users/${userId}/deactivate`
-        : `/api/v1/oracle/admin/users/${userId}/activate`;
-
-      const response = await apiClient.put(endpoint);
-
-      if (response.data.success) {
-        notifySuccess(currentStatus ? 'User deactivated successfully' : 'User activated successfully');
-        fetchUsers(); // Refresh the list
+      if (currentStatus) {
+        await deactivateUser(userId);
       } else {
-        notifyError('Failed to update user status');
+        await activateUser(userId);
       }
+      notifySuccess(currentStatus ? 'User deactivated successfully' : 'User activated successfully');
+      fetchUsers(); // Refresh the list
     } catch (error: any) {
       console.error('Error toggling user status:', error);
-      notifyError(error.response?.data?.detail || 'Failed to update user status');
+      notifyError(error.detail || 'Failed to update user status');
     }
   };
 
@@ -6,7 +6,9 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import { apiClient } from '@/lib/api';
+import { calculateCommission, getInsuranceCommissions } from '@/lib/api/oracle/commissions';
+import { generateComparisonPdf } from '@/lib/api/oracle/compare';
+import { getProduct } from '@/lib/api/oracle/products';
 import ComparisonSummary from '@/components/oracle/ComparisonSummary';
 import FloatingChatContainer from '@/components/oracle/compare/FloatingChatContainer';
 import AdvisorVerdictCard from '@/components/oracle/compare/AdvisorVerdictCard';
@@ -27,8 +29,8 @@ interface CommissionData {
   role_id: number;
   commission_year: number;
   commission_rate: number;
-  created_at: string;
-  updated_at: string;
+  created_at?: string;
+  updated_at?: string;
 }
 
 interface CommissionsByTerm {
@@ -67,14 +69,7 @@ function CompareContent() {
       setLoading(true);
       
       // Fetch detailed product information
-      const productPromises = productIds.map(id => 
-        apiClient.get<{success: boolean; data: Product}>(`/api/v1/oracle/products/${id}`)
-      );
-      
-      const productResults = await Promise.all(productPromises);
-      const productData = productResults
-        .filter(result => result.data.success)
-        .map(result => result.data.data);
+      const productData = await Promise.all(productIds.map((id) => getProduct(id)));
       
       if (productData.length === 0) {
         notifyError('No Products Found', 'Could not load product comparison data');
@@ -100,11 +95,11 @@ function CompareContent() {
           try {
             // Try to get all commission data if user is SUPER_ADMIN or ADMIN
             if (user.role === 'SUPER_ADMIN' || user.role === 'ADMIN') {
-              const response = await apiClient.get<CommissionData[]>(`/api/v1/oracle/commissions/insurance/${id}`);
+              const commissions = await getInsuranceCommissions(id);
               
-              if (response.data && response.data.length > 0) {
+              if (commissions.length > 0) {
                 // Filter for user's role and group by premium term
-                const userCommissions = response.data.filter(comm => comm.role_id === userRoleId);
+                const userCommissions = commissions.filter(comm => comm.role_id === userRoleId);
                 
                 // Group by premium term
                 const commissionsByTerm: CommissionsByTerm = {};
@@ -124,14 +119,10 @@ function CompareContent() {
               
               for (const term of commonTerms) {
                 try {
-                  const response = await apiClient.get<{
-                    insurance_id: string;
-                    premium_term: string;
-                    commission_structure: Record<string, Record<string, number>>;
-                  }>(`/api/v1/oracle/commissions/calculate/${id}?premium_term=${encodeURIComponent(term)}`);
+                  const calculation = await calculateCommission(id, term);
                   
-                  if (response.data.commission_structure) {
-                    const userCommissions = response.data.commission_structure[userRoleId.toString()] || {};
+                  if (calculation.commission_structure) {
+                    const userCommissions = calculation.commission_structure[userRoleId.toString()] || {};
                     
                     if (Object.keys(userCommissions).length > 0) {
                       const commissionArray: CommissionData[] = [];
@@ -139,7 +130,7 @@ function CompareContent() {
                         commissionArray.push({
                           commission_id: `calc-${id}-${term}-${year}`,
                           insurance_id: id,
-                          premium_term: response.data.premium_term,
+                          premium_term: calculation.premium_term,
                           role_id: userRoleId,
                           commission_year: parseInt(year),
                           commission_rate: rate,
@@ -149,7 +140,7 @@ function CompareContent() {
                       });
                       
                       if (commissionArray.length > 0) {
-                        commissionsByTerm[response.data.premium_term] = commissionArray;
+                        commissionsByTerm[calculation.premium_term] = commissionArray;
                       }
                     }
                   }
@@ -249,23 +240,15 @@ function CompareContent() {
       };
 
       // Call backend API to generate professional 9-page PDF
-      const response = await apiClient.post<{
-        pdf_url: string;
-        pdf_path: string;
-        generated_at: string;
-        page_count: number;
-        file_size: number;
-        category_group: string;
-        product_count: number;
-      }>('/api/v1/oracle/compare/generate-pdf', requestBody);
-
-      if (response.data.pdf_url) {
+      const pdf = await generateComparisonPdf(requestBody);
+
+      if (pdf.pdf_url) {
         // Open PDF in new tab for download
-        window.open(response.data.pdf_url, '_blank');
+        window.open(pdf.pdf_url, '_blank');
 
         notifySuccess(
           'PDF Generated',
-          `Professional ${response.data.page_count}-page comparison PDF has been generated (${(response.data.file_size / 1024 / 1024).toFixed(2)} MB)`
+          `Professional ${pdf.page_count}-page comparison PDF has been generated (${(pdf.file_size / 1024 / 1024).toFixed(2)} MB)`
         );
       } else {
         throw new Error('No PDF URL returned from server');
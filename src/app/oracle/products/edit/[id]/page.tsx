@@ -6,14 +6,14 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import { apiClient } from '@/lib/api';
+import { getProduct, updateProduct } from '@/lib/api/oracle/products';
 
 interface ProductDetails {
   // Core identifiers
   insurance_id: string;
-  created_at: string;
+  created_at?: string;
   updated_at?: string;
-  processing_status: string;
+  processing_status?: string;
   pdf_url?: string;
   markdown_url?: string;
   uploaded_by?: string;
@@ -230,13 +230,7 @@ function EditProductContent() {
     try {
       setIsLoading(true);
 
-      const response = await apiClient.get<{
-        success: boolean;
-        message: string;
-        data: ProductDetails;
-      }>(`/api/v1/oracle/products/${productId}`);
-
-      const productData = response.data.data;
+      const productData = await getProduct(productId);
       setProduct(productData);
 
     } catch (error: any) {
@@ -258,16 +252,9 @@ function EditProductContent() {
     setIsSaving(true);
 
     try {
-      const response = await apiClient.put<{
-        success: boolean;
-        message: string;
-        data: ProductDetails;
-      }>(`/api/v1/oracle/products/${productId}`, product);
-
-      if (response.data.success) {
-        notifySuccess('Success', 'Product updated successfully');
-        router.push('/oracle/admin/products');
-      }
+      await updateProduct(productId, product);
+      notifySuccess('Success', 'Product updated successfully');
+      router.push('/oracle/admin/products');
 
     } catch (error: any) {
       console.error('Error updating product:', error);
@@ -1,13 +1,35 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import { apiClient } from '@/lib/api';
-import { CategorySelector, GuidedQuestionnaire, type CategoryOption, type GuidedParameters } from '@/components/guided-discovery';
+import ProductFacetSidebar from '@/components/oracle/products/ProductFacetSidebar';
+import SaveSearchModal from '@/components/oracle/products/SaveSearchModal';
+import SavedSearchesModal from '@/components/oracle/products/SavedSearchesModal';
+import { useMarkSavedSearchRun, useSavedSearch } from '@/hooks/oracle';
+import { archiveChatSession, listChatSessions } from '@/lib/api/oracle/chat';
+import {
+  listProductCategories,
+  listProducts,
+  streamAiSearch,
+  type AiSearchParams,
+  type AiSearchStreamEvent,
+} from '@/lib/api/oracle/products';
+import { isAbortError } from '@/lib/event-stream';
+import {
+  EMPTY_FACET_FILTERS,
+  filterProductsByFacets,
+  flattenFacetGroups,
+  getApplicableFacets,
+  type ProductFacetFilters,
+} from '@/lib/product-facets';
+import { CategorySelector, GuidedQuestionnaire } from '@/components/guided-discovery';
+import { GUIDED_CATEGORY_NAMES } from '@/config/guidedQuestions';
+import type { CategoryOption, GuidedParameters } from '@/types/oracle/guided-question';
+import type { SavedSearch } from '@/types/oracle/saved-search';
 
 interface Product {
   insurance_id: string;
@@ -40,6 +62,10 @@ interface Product {
   jurisdiction_confidence_score?: number;
 }
 
+// Facets are counted over the loaded products, so load up to this many at once. The backend may
+// return fewer per request than asked for, so the rest are loaded page by page
+const MANUAL_SEARCH_LIMIT = 500;
+
 interface SearchResult {
   query: string;
   category: string;
@@ -53,6 +79,7 @@ function ProductsContent() {
   const { user, companyJurisdiction } = useAuth();
   const { notifyError, notifySuccess } = useNotifications();
   const router = useRouter();
+  const searchParams = useSearchParams();
 
   // Tab state
   const [activeTab, setActiveTab] = useState<'ai' | 'manual'>('ai');
@@ -72,9 +99,12 @@ function ProductsContent() {
   const [searchProgress, setSearchProgress] = useState<{ current: number; total: number } | null>(null);
   const [pendingResults, setPendingResults] = useState<number>(0);
   const [showPartialMatch, setShowPartialMatch] = useState<boolean>(false);
+  const searchAbortRef = useRef<AbortController | null>(null);
   
   // Manual Search state
   const [manualProducts, setManualProducts] = useState<Product[]>([]);
+  const [manualTotal, setManualTotal] = useState(0);
+  const [facetFilters, setFacetFilters] = useState<ProductFacetFilters>(EMPTY_FACET_FILTERS);
   const [manualSearchName, setManualSearchName] = useState('');
   const [manualCategory, setManualCategory] = useState('');
   const [manualProvider, setManualProvider] = useState('');
@@ -105,6 +135,16 @@ function ProductsContent() {
   const [originalQuery, setOriginalQuery] = useState<string>('');
   const [preFilledAnswers, setPreFilledAnswers] = useState<Record<string, any>>({});
 
+  // Saved searches: the last search run (with any guided answers) is the one that gets saved
+  const [lastSearch, setLastSearch] = useState<AiSearchParams | null>(null);
+  const [showSaveSearch, setShowSaveSearch] = useState(false);
+  const [showSavedSearches, setShowSavedSearches] = useState(false);
+  const markSavedSearchRun = useMarkSavedSearchRun();
+  // ?saved_search={id}, from a new product alert
+  const linkedSearchId = searchParams.get('saved_search');
+  const { data: linkedSearch } = useSavedSearch(linkedSearchId);
+  const linkedSearchRunRef = useRef<string | null>(null);
+
   // Helper: Check if product is local based on jurisdiction
   const isLocalProduct = (product: Product): boolean => {
     if (!companyJurisdiction || !product.jurisdiction) return false;
@@ -132,6 +172,9 @@ function ProductsContent() {
     };
   };
 
+  // Stop a running search when leaving the page
+  useEffect(() => () => searchAbortRef.current?.abort(), []);
+
   useEffect(() => {
     fetchCategories();
     if (activeTab === 'manual') {
@@ -141,14 +184,7 @@ function ProductsContent() {
 
   const fetchCategories = async () => {
     try {
-      const response = await apiClient.get<{
-        success: boolean;
-        data: string[];
-      }>('/api/v1/oracle/products/categories');
-      
-      if (response.data.success) {
-        setCategories(response.data.data);
-      }
+      setCategories(await listProductCategories());
     } catch (error) {
       console.error('Error fetching categories:', error);
     }
@@ -157,25 +193,28 @@ function ProductsContent() {
   const fetchManualProducts = async () => {
     try {
       setIsManualLoading(true);
-      
-      const params = new URLSearchParams();
-      if (manualSearchName) params.append('search', manualSearchName);
-      if (manualCategory) params.append('category', manualCategory);
-      if (manualProvider) params.append('provider', manualProvider);
-      
-      const response = await apiClient.get<{
-        success: boolean;
-        data: {
-          products: Product[];
-          total: number;
-          limit: number;
-          offset: number;
-        };
-      }>(`/api/v1/products?${params.toString()}`);
-
-
-      const productList = response.data.data?.products || [];
+      // Filters picked for the previous results may not apply to the new ones
+      setFacetFilters(EMPTY_FACET_FILTERS);
+
+      let productList: Product[] = [];
+      let total = 0;
+      for (;;) {
+        const response = await listProducts({
+          search: manualSearchName || undefined,
+          category: manualCategory || undefined,
+          provider: manualProvider || undefined,
+          limit: MANUAL_SEARCH_LIMIT - productList.length,
+          offset: productList.length,
+        });
+        const page: Product[] = response.data?.products || [];
+        // A backend that ignores the offset would send the first page again
+        if (productList.length > 0 && response.data?.offset !== productList.length) break;
+        productList = productList.concat(page);
+        total = response.data?.total || productList.length;
+        if (page.length === 0 || productList.length >= Math.min(total, MANUAL_SEARCH_LIMIT)) break;
+      }
       setManualProducts(productList);
+      setManualTotal(total);
       
       // Extract unique providers for filter
       const uniqueProviders = Array.from(new Set(
@@ -193,148 +232,126 @@ function ProductsContent() {
     }
   };
 
-  const handleAiSearch = async (e?: React.FormEvent) => {
-    e?.preventDefault();
+  const facetGroups = useMemo(() => getApplicableFacets(manualProducts), [manualProducts]);
+  const facetedProducts = useMemo(
+    () => filterProductsByFacets(manualProducts, flattenFacetGroups(facetGroups), facetFilters),
+    [manualProducts, facetGroups, facetFilters]
+  );
 
-    if (!aiQuery.trim()) {
-      notifyError('Search Error', 'Please enter a search query');
-      return;
-    }
+  // Results, progress and guided discovery prompts arrive as the search runs
+  const handleSearchEvent = (data: AiSearchStreamEvent<Product>, query: string) => {
+    if (data.type === 'init') {
+      // Initialize progress with total count
+      setSearchProgress({ current: 0, total: data.total });
+      setPendingResults(data.total);
+    } else if (data.type === 'progress') {
+      setSearchProgress({ current: data.current, total: data.total });
+    } else if (data.type === 'result') {
+      // Add result immediately
+      setAiResults(prev => [...prev, data.data]);
+      setPendingResults(prev => Math.max(0, prev - 1));
+    } else if (data.type === 'guided_discovery_needed') {
+      // Guided discovery needed - either ambiguous query or incomplete information
+      setOriginalQuery(query);
+
+      if (data.skip_category_selection) {
+        // Category is clear but incomplete - go straight to questionnaire
+        const categoryOption = data.detected_category ?
+          {
+            id: data.detected_category,
+            name:
+              GUIDED_CATEGORY_NAMES[data.detected_category] ||
+              data.detected_category.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()),
+          } :
+          null;
+
+        setSelectedCategory(data.detected_category || null);
+        setSelectedCategoryName(categoryOption?.name || '');
+        setPreFilledAnswers(data.pre_filled_answers || {});
+        setShowGuidedQuestionnaire(true);
+      } else {
+        // Ambiguous query - show category selector first
+        setCategoryOptions(data.category_options || []);
+        setShowCategorySelector(true);
+      }
 
-    try {
-      setIsAiSearching(true);
-      setAiResults([]); // Clear previous results
+      setSearchProgress(null);
+      setPendingResults(0);
+    } else if (data.type === 'complete') {
       setSearchProgress(null);
       setPendingResults(0);
 
-      const params = new URLSearchParams({
-        query: aiQuery.trim(),
-        max_results: '5'
-      });
-
-      // Use streaming endpoint
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      const authTokens = authTokensStr ? JSON.parse(authTokensStr) : null;
-      const token = authTokens?.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please log in again.');
-      }
-
-      const apiBaseUrl = process.env.NEXT_PUBLIC_API_URL || process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8000';
-      const response = await fetch(
-        `${apiBaseUrl}/api/v1/products/search-ai-stream?${params.toString()}`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Accept': 'text/event-stream',
-          },
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Search request failed:', response.status, errorText);
-        throw new Error(`Search request failed: ${response.status} ${errorText}`);
+      // Only show success notification if search actually ran
+      if (!data.requires_category_selection) {
+        notifySuccess('Search Complete', `Found ${data.total_results} matching products`);
       }
+    } else if (data.type === 'error') {
+      notifyError('Search Error', data.message);
+      setSearchProgress(null);
+      setPendingResults(0);
+    }
+  };
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error('Response body is not readable');
-      }
+  // Starting a search stops the one still running
+  const runAiSearch = async (params: AiSearchParams, failureMessage: string) => {
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
 
-      let totalResults = 0;
-
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              if (data.type === 'init') {
-                // Initialize progress with total count
-                setSearchProgress({ current: 0, total: data.total });
-                setPendingResults(data.total);
-              } else if (data.type === 'progress') {
-                // Update progress
-                setSearchProgress({ current: data.current, total: data.total });
-              } else if (data.type === 'result') {
-                // Add result immediately
-                // console.log('🔍 DEBUG: Received result data:', {
-                  // insurance_name: data.data.insurance_name,
-                  // is_summary_based: data.data.is_summary_based,
-                  // pdf_url: data.data.pdf_url,
-                  // has_pdf_url: !!data.data.pdf_url
-                // });
-                setAiResults(prev => [...prev, data.data]);
-                setPendingResults(prev => Math.max(0, prev - 1));
-                totalResults++;
-              } else if (data.type === 'guided_discovery_needed') {
-                // Guided discovery needed - either ambiguous query or incomplete information
-                setOriginalQuery(aiQuery);
-
-                if (data.skip_category_selection) {
-                  // Category is clear but incomplete - go straight to questionnaire
-                  const categoryOption = data.detected_category ?
-                    { id: data.detected_category, name: data.detected_category.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()) } :
-                    null;
-
-                  setSelectedCategory(data.detected_category);
-                  setSelectedCategoryName(categoryOption?.name || '');
-                  setPreFilledAnswers(data.pre_filled_answers || {});
-                  setShowGuidedQuestionnaire(true);
-                } else {
-                  // Ambiguous query - show category selector first
-                  setCategoryOptions(data.category_options);
-                  setShowCategorySelector(true);
-                }
-
-                setSearchProgress(null);
-                setPendingResults(0);
-              } else if (data.type === 'complete') {
-                // Search complete
-                setSearchProgress(null);
-                setPendingResults(0);
-
-                // Only show success notification if search actually ran
-                if (!data.requires_category_selection) {
-                  notifySuccess('Search Complete', `Found ${data.total_results} matching products`);
-                }
-              } else if (data.type === 'error') {
-                // Error occurred
-                notifyError('Search Error', data.message);
-                setSearchProgress(null);
-                setPendingResults(0);
-              }
-            } catch (parseError) {
-              console.error('Error parsing SSE data:', parseError);
-            }
-          }
-        }
-      }
+    try {
+      setIsAiSearching(true);
+      setLastSearch(params);
+      setAiResults([]); // Clear previous results
+      setSearchProgress(null);
+      setPendingResults(0);
 
+      await streamAiSearch<Product>(params, (data) => handleSearchEvent(data, params.query), controller.signal);
     } catch (error: any) {
+      if (isAbortError(error)) return;
       console.error('Error in AI search:', error);
-      const errorMessage = error.detail || error.message || 'AI search failed';
-      notifyError('Search Error', errorMessage);
+      notifyError('Search Error', error.detail || error.message || failureMessage);
       setAiResults([]);
       setSearchProgress(null);
       setPendingResults(0);
     } finally {
-      setIsAiSearching(false);
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setIsAiSearching(false);
+      }
+    }
+  };
+
+  const handleAiSearch = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    if (!aiQuery.trim()) {
+      notifyError('Search Error', 'Please enter a search query');
+      return;
     }
+
+    await runAiSearch({ query: aiQuery.trim(), max_results: 5 }, 'AI search failed');
   };
 
+  const runSavedSearch = async (search: SavedSearch) => {
+    setShowSavedSearches(false);
+    setActiveTab('ai');
+    setAiQuery(search.query);
+    setAiCategory(search.category || 'All');
+    setJurisdictionFilter(search.jurisdiction);
+    markSavedSearchRun.mutate(search.search_id);
+
+    await runAiSearch(
+      { query: search.query, max_results: 5, guided_parameters: search.guided_parameters || undefined },
+      'Saved search failed'
+    );
+  };
+
+  useEffect(() => {
+    if (!linkedSearch || linkedSearchRunRef.current === linkedSearch.search_id) return;
+    linkedSearchRunRef.current = linkedSearch.search_id;
+    runSavedSearch(linkedSearch);
+  }, [linkedSearch]);
+
   const toggleDescription = (productId: string) => {
     const newExpanded = new Set(expandedCards);
     if (newExpanded.has(productId)) {
@@ -360,119 +377,21 @@ function ProductsContent() {
   const handleQuestionnaireComplete = async (parameters: GuidedParameters) => {
     setShowGuidedQuestionnaire(false);
 
-    // Clear previous results
-    setAiResults([]);
-    setIsAiSearching(true);
-    setSearchProgress(null);
-    setPendingResults(0);
-
-    try {
-      const authTokensStr = localStorage.getItem('auth_tokens');
-      const authTokens = authTokensStr ? JSON.parse(authTokensStr) : null;
-      const token = authTokens?.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please log in again.');
-      }
-
-      const apiBaseUrl = process.env.NEXT_PUBLIC_API_URL || process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8000';
-
-      // Re-run search with guided parameters
-      const response = await fetch(
-        `${apiBaseUrl}/api/v1/products/search-ai-stream?query=${encodeURIComponent(originalQuery)}&max_results=5`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-            'Accept': 'text/event-stream',
-          },
-          body: JSON.stringify({ guided_parameters: parameters })
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Guided search request failed:', response.status, errorText);
-        throw new Error(`Search request failed: ${response.status} ${errorText}`);
-      }
-
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error('Response body is not readable');
-      }
-
-      let totalResults = 0;
-
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              if (data.type === 'init') {
-                setSearchProgress({ current: 0, total: data.total });
-                setPendingResults(data.total);
-              } else if (data.type === 'progress') {
-                setSearchProgress({ current: data.current, total: data.total });
-              } else if (data.type === 'result') {
-                setAiResults(prev => [...prev, data.data]);
-                setPendingResults(prev => Math.max(0, prev - 1));
-                totalResults++;
-              } else if (data.type === 'complete') {
-                setSearchProgress(null);
-                setPendingResults(0);
-                notifySuccess('Search Complete', `Found ${data.total_results} matching products`);
-              } else if (data.type === 'error') {
-                notifyError('Search Error', data.message);
-                setSearchProgress(null);
-                setPendingResults(0);
-              }
-            } catch (parseError) {
-              console.error('Error parsing SSE data:', parseError);
-            }
-          }
-        }
-      }
-
-    } catch (error: any) {
-      console.error('Error in guided search:', error);
-      const errorMessage = error.detail || error.message || 'Guided search failed';
-      notifyError('Search Error', errorMessage);
-      setAiResults([]);
-      setSearchProgress(null);
-      setPendingResults(0);
-    } finally {
-      setIsAiSearching(false);
-    }
+    // Re-run search with guided parameters
+    await runAiSearch({ query: originalQuery, max_results: 5, guided_parameters: parameters }, 'Guided search failed');
   };
 
   const fetchChatSessions = async () => {
     try {
       setIsLoadingSessions(true);
-      const response = await apiClient.get<{
-        success: boolean;
-        sessions: any[];
-        active_count: number;
-      }>('/api/v1/oracle/chat/sessions', {
-        params: {
-          status: 'active',
-          limit: 50
-        }
+      const response = await listChatSessions({
+        status: 'active',
+        limit: 50
       });
 
-      if (response.data.success) {
-        setChatSessions(response.data.sessions);
-        return response.data.sessions;
+      if (response.success) {
+        setChatSessions(response.sessions);
+        return response.sessions;
       }
       return [];
     } catch (error: any) {
@@ -487,20 +406,18 @@ function ProductsContent() {
   const handleArchiveSession = async (sessionId: string) => {
     try {
       setIsArchiving(true);
-      const response = await apiClient.delete(`/api/v1/oracle/chat/sessions/${sessionId}`);
-
-      if (response.data.success) {
-        // Remove from local state
-        setChatSessions(prev => prev.filter(s => s.session_id !== sessionId));
-        notifySuccess('Session Archived', 'Chat session has been archived');
-
-        // After archiving, navigate to chat with the selected product
-        if (productToChat) {
-          router.push(`/oracle/chat?product=${productToChat.insurance_id}`);
-        }
-        setShowArchiveModal(false);
-        setProductToChat(null);
+      await archiveChatSession(sessionId);
+
+      // Remove from local state
+      setChatSessions(prev => prev.filter(s => s.session_id !== sessionId));
+      notifySuccess('Session Archived', 'Chat session has been archived');
+
+      // After archiving, navigate to chat with the selected product
+      if (productToChat) {
+        router.push(`/oracle/chat?product=${productToChat.insurance_id}`);
       }
+      setShowArchiveModal(false);
+      setProductToChat(null);
     } catch (error: any) {
       console.error('Error archiving session:', error);
       notifyError('Error', 'Failed to archive session');
@@ -924,6 +841,25 @@ function ProductsContent() {
                     </div>
                   </div>
                 </form>
+
+                <div className="flex justify-end space-x-3 mt-4">
+                  {lastSearch && !isAiSearching && (
+                    <button
+                      type="button"
+                      onClick={() => setShowSaveSearch(true)}
+                      className="px-4 py-2 text-sm text-primary-700 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors"
+                    >
+                      💾 Save this search
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setShowSavedSearches(true)}
+                    className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    📁 Saved searches
+                  </button>
+                </div>
               </div>
 
               {/* Category Fallback Warning Banner */}
@@ -1181,7 +1117,7 @@ function ProductsContent() {
                     Manual Product Search
                   </h2>
                   <p className="text-gray-600">
-                    Filter products by name, category, and provider
+                    Filter products by name, category, and provider, then refine by coverage, entry age, currency and more
                   </p>
                 </div>
 
@@ -1259,19 +1195,48 @@ function ProductsContent() {
                   <p className="text-gray-600">Try adjusting your search filters.</p>
                 </div>
               ) : (
-                <div>
-                  <div className="flex items-center justify-center mb-8">
-                    <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-white/20">
-                      <div className="text-center">
-                        <div className="text-3xl font-bold text-primary-600 mb-2">
-                          {manualProducts.length}
+                <div className="grid grid-cols-1 lg:grid-cols-[18rem_1fr] gap-6 items-start">
+                  <ProductFacetSidebar
+                    products={manualProducts}
+                    groups={facetGroups}
+                    filters={facetFilters}
+                    onChange={setFacetFilters}
+                  />
+                  <div>
+                    <div className="flex items-center justify-center mb-8">
+                      <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-white/20">
+                        <div className="text-center">
+                          <div className="text-3xl font-bold text-primary-600 mb-2">
+                            {facetedProducts.length}
+                          </div>
+                          <div className="text-sm text-gray-600">
+                            {facetedProducts.length === manualProducts.length
+                              ? 'Products Found'
+                              : `of ${manualProducts.length} Products Match`}
+                          </div>
                         </div>
-                        <div className="text-sm text-gray-600">Products Found</div>
                       </div>
                     </div>
-                  </div>
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {manualProducts.map(renderProductCard)}
+                    {manualTotal > manualProducts.length && (
+                      <p className="text-sm text-gray-500 text-center -mt-4 mb-6">
+                        Refining the first {manualProducts.length} of {manualTotal} products. Narrow the search above to include the rest.
+                      </p>
+                    )}
+                    {facetedProducts.length === 0 ? (
+                      <div className="text-center py-12">
+                        <p className="text-gray-600 mb-2">No products match these filters.</p>
+                        <button
+                          onClick={() => setFacetFilters(EMPTY_FACET_FILTERS)}
+                          className="text-primary-600 hover:text-primary-700 text-sm font-medium"
+                        >
+                          Clear filters
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                        {facetedProducts.map(renderProductCard)}
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -1433,6 +1398,22 @@ function ProductsContent() {
           onComplete={handleQuestionnaireComplete}
           preFilledAnswers={preFilledAnswers}
         />
+
+        {showSaveSearch && lastSearch && (
+          <SaveSearchModal
+            search={{
+              query: lastSearch.query,
+              category: aiCategory === 'All' ? null : aiCategory,
+              jurisdiction: jurisdictionFilter,
+              guided_parameters: lastSearch.guided_parameters,
+            }}
+            onClose={() => setShowSaveSearch(false)}
+          />
+        )}
+
+        {showSavedSearches && (
+          <SavedSearchesModal onRun={runSavedSearch} onClose={() => setShowSavedSearches(false)} />
+        )}
       </div>
     </Sidebar>
   );
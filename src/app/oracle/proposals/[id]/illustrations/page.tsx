@@ -8,6 +8,14 @@ import { toast } from 'react-hot-toast';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
 import IllustrationDataReview from '@/components/IllustrationDataReview';
+import {
+  deleteIllustration,
+  getProposal,
+  listIllustrations,
+  updateIllustration,
+  uploadIllustrations,
+} from '@/lib/api/oracle/proposals';
+import { formatErrorForDisplay } from '@/lib/utils';
 
 // Types for illustration data
 interface ExtractedData {
@@ -114,42 +122,23 @@ function IllustrationManagementContent() {
   // Load proposal and illustrations
   const loadData = useCallback(async () => {
     try {
-      const token = localStorage.getItem('token');
-      
       // Load proposal
-      const proposalResponse = await fetch(`/api/proposals/${proposalId}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (proposalResponse.ok) {
-        const proposalData = await proposalResponse.json();
-        setProposal(proposalData.data);
-      } else {
+      try {
+        setProposal(await getProposal(proposalId));
+      } catch (error) {
+        console.error('Error loading proposal:', error);
         toast.error('Failed to load proposal');
         router.push('/oracle/proposals');
         return;
       }
 
       // Load illustrations
-      const illustrationsResponse = await fetch(`/api/proposals/${proposalId}/illustrations`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (illustrationsResponse.ok) {
-        const illustrationsData = await illustrationsResponse.json();
-        setIllustrations(illustrationsData.data || []);
-      } else {
+      try {
+        setIllustrations(await listIllustrations<Illustration>(proposalId));
+      } catch (error) {
+        console.error('Error loading illustrations:', error);
         toast.error('Failed to load illustrations');
       }
-    } catch (error) {
-      console.error('Error loading data:', error);
-      toast.error('Failed to load data');
     } finally {
       setLoading(false);
     }
@@ -173,33 +162,12 @@ function IllustrationManagementContent() {
     setUploading(true);
     
     try {
-      const token = localStorage.getItem('token');
-      const formData = new FormData();
-      
-      // Add all files to form data
-      acceptedFiles.forEach(file => {
-        formData.append('files', file);
-      });
-
-      const response = await fetch(`/api/proposals/${proposalId}/illustrations/upload`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-        body: formData,
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        toast.success(`Successfully uploaded ${acceptedFiles.length} illustration(s)`);
-        await loadData(); // Reload data to show new illustrations
-      } else {
-        const error = await response.json();
-        toast.error(error.detail || 'Failed to upload illustrations');
-      }
+      await uploadIllustrations(proposalId, acceptedFiles);
+      toast.success(`Successfully uploaded ${acceptedFiles.length} illustration(s)`);
+      await loadData(); // Reload data to show new illustrations
     } catch (error) {
       console.error('Error uploading files:', error);
-      toast.error('Failed to upload illustrations');
+      toast.error(formatErrorForDisplay(error, 'Failed to upload illustrations'));
     } finally {
       setUploading(false);
     }
@@ -210,8 +178,6 @@ function IllustrationManagementContent() {
     setSavingChanges(true);
     
     try {
-      const token = localStorage.getItem('token');
-      
       const updatePayload: any = {
         extracted_data: updatedData,
       };
@@ -220,33 +186,20 @@ function IllustrationManagementContent() {
         updatePayload.selected_insurance_id = selectedInsurance.insurance_id;
       }
 
-      const response = await fetch(`/api/proposals/${proposalId}/illustrations/${illustrationId}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updatePayload),
-      });
-
-      if (response.ok) {
-        toast.success('Changes saved successfully');
-        await loadData(); // Reload to get updated data
-        
-        // Update the selected illustration if it's the one being edited
-        if (selectedIllustration?.illustration_id === illustrationId) {
-          const updatedIllustration = illustrations.find(ill => ill.illustration_id === illustrationId);
-          if (updatedIllustration) {
-            setSelectedIllustration({ ...updatedIllustration, extracted_data: updatedData });
-          }
+      await updateIllustration(proposalId, illustrationId, updatePayload);
+      toast.success('Changes saved successfully');
+      await loadData(); // Reload to get updated data
+      
+      // Update the selected illustration if it's the one being edited
+      if (selectedIllustration?.illustration_id === illustrationId) {
+        const updatedIllustration = illustrations.find(ill => ill.illustration_id === illustrationId);
+        if (updatedIllustration) {
+          setSelectedIllustration({ ...updatedIllustration, extracted_data: updatedData });
         }
-      } else {
-        const error = await response.json();
-        toast.error(error.detail || 'Failed to save changes');
       }
     } catch (error) {
       console.error('Error saving changes:', error);
-      toast.error('Failed to save changes');
+      toast.error(formatErrorForDisplay(error, 'Failed to save changes'));
     } finally {
       setSavingChanges(false);
     }
@@ -259,27 +212,15 @@ function IllustrationManagementContent() {
     }
 
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/proposals/${proposalId}/illustrations/${illustrationId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (response.ok) {
-        toast.success('Illustration deleted successfully');
-        await loadData();
-        if (selectedIllustration?.illustration_id === illustrationId) {
-          setSelectedIllustration(null);
-        }
-      } else {
-        const error = await response.json();
-        toast.error(error.detail || 'Failed to delete illustration');
+      await deleteIllustration(proposalId, illustrationId);
+      toast.success('Illustration deleted successfully');
+      await loadData();
+      if (selectedIllustration?.illustration_id === illustrationId) {
+        setSelectedIllustration(null);
       }
     } catch (error) {
       console.error('Error deleting illustration:', error);
-      toast.error('Failed to delete illustration');
+      toast.error(formatErrorForDisplay(error, 'Failed to delete illustration'));
     }
   };
 
@@ -3,8 +3,44 @@
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiClient } from '@/lib/api';
 import { toast } from 'react-hot-toast';
+import CashValueProjectionChart from '@/components/oracle/proposal/CashValueProjectionChart';
+import ProposalPageEditor from '@/components/oracle/proposal/ProposalPageEditor';
+import ShareProposalModal from '@/components/oracle/proposal/ShareProposalModal';
+import SignProposalModal from '@/components/oracle/proposal/SignProposalModal';
+import { useProposalSignature, useSignProposal } from '@/hooks/oracle';
+import {
+  deletePageOverride,
+  downloadProposalPdf,
+  downloadSignedPdf,
+  getIntelligentAnalysisStatus,
+  getProposal,
+  getProposalPageHtml,
+  listIllustrations,
+  listPageOverrides,
+  savePageOverride,
+} from '@/lib/api/oracle/proposals';
+import { getProposalTemplate } from '@/lib/api/oracle/proposal-templates';
+import { formatRatesAsOf } from '@/lib/fx-rates';
+import { formatProposalLocale, getProposalLocale, localize, type ProposalLocale } from '@/lib/proposal-i18n';
+import { savePdf } from '@/lib/pdfUtils';
+import { getSigningAcknowledgements } from '@/lib/proposal-signing';
+import { canSignProposal } from '@/lib/proposal-workflow';
+import {
+  getProposalPageTitle,
+  getTemplatePageNumbers,
+  getTemplateStylesheet,
+  withTemplatePages,
+} from '@/lib/proposal-templates';
+import type { RenderedProposalPage } from '@/lib/proposal-templates';
+import type { ProposalFxRate } from '@/types/oracle/fx-rate';
+import type {
+  ExtractedIllustration,
+  ProposalLanguage,
+  ProposalPageOverride,
+  ProposalSignatureCreate,
+} from '@/types/oracle/proposal';
+import type { ProposalTemplate } from '@/types/oracle/proposal-template';
 
 interface ProposalData {
   proposal_id: string;
@@ -12,11 +48,16 @@ interface ProposalData {
   generated_html?: string;
   generated_at?: string;
   status: string;
-}
-
-interface PageData {
-  title: string;
-  content: string;
+  template_id?: string;
+  fx_rates?: ProposalFxRate[];
+  target_currency?: string;
+  client_dob?: string;
+  language?: ProposalLanguage;
+  secondary_language?: ProposalLanguage;
+  created_by?: {
+    user_id: string;
+    name: string;
+  };
 }
 
 export default function ProposalPreviewPage() {
@@ -27,28 +68,47 @@ export default function ProposalPreviewPage() {
   const [loading, setLoading] = useState(true);
   const [downloading, setDownloading] = useState(false);
   const [activeTab, setActiveTab] = useState(0);
-  const [pages, setPages] = useState<PageData[]>([]);
-
-  // Function to fetch individual page content from backend
-  const fetchIndividualPages = async (proposalId: string): Promise<PageData[]> => {
-    const pageNames = ['Page 1 - Title', 'Page 2 - Features', 'Page 3 - Illustration', 'Page 4 - Recommendation'];
-    const pages: PageData[] = [];
+  const [pages, setPages] = useState<RenderedProposalPage[]>([]);
+  const [template, setTemplate] = useState<ProposalTemplate | null>(null);
+  const [illustrations, setIllustrations] = useState<ExtractedIllustration[]>([]);
+  const [showShareModal, setShowShareModal] = useState(false);
+  const [showSignModal, setShowSignModal] = useState(false);
+  const [pageOverrides, setPageOverrides] = useState<ProposalPageOverride[]>([]);
+  const [isEditingPage, setIsEditingPage] = useState(false);
+  const [savingPage, setSavingPage] = useState(false);
+  const isSigned = proposalData?.status === 'signed';
+  // A team leader previewing a team member's proposal can read and download it, not change it
+  const isReadOnly = !!(user && proposalData?.created_by && proposalData.created_by.user_id !== user.id);
+  const { data: signature } = useProposalSignature(proposalId as string, isSigned);
+  const signProposal = useSignProposal(proposalId as string);
+
+  // Function to fetch individual page content from backend, in the template's section order
+  const fetchIndividualPages = async (
+    proposalId: string,
+    pageNumbers: number[],
+    locale: ProposalLocale
+  ): Promise<RenderedProposalPage[]> => {
+    const pageNames: Record<number, string> = {};
+    pageNumbers.forEach((pageNumber) => {
+      pageNames[pageNumber] = getProposalPageTitle(pageNumber, locale);
+    });
+    const pages: RenderedProposalPage[] = [];
 
     try {
       // Fetch each page individually
-      for (let pageNumber = 1; pageNumber <= 4; pageNumber++) {
+      for (const pageNumber of pageNumbers) {
         try {
           // Special handling for Page 3 - check intelligent analysis status first
           if (pageNumber === 3) {
             try {
               // console.log('🤖 Checking intelligent analysis status for Page 3...');
-              const statusResponse = await apiClient.get(`/api/v1/oracle/proposals/${proposalId}/intelligent-analysis-status`);
-              const status = statusResponse.data?.data?.status;
+              const status = await getIntelligentAnalysisStatus(proposalId);
 
               if (status === 'pending') {
                 // Show loading state for Page 3
                 pages.push({
-                  title: pageNames[pageNumber - 1],
+                  title: pageNames[pageNumber],
+                  pageNumber,
                   content: `
                     <html>
                       <head>
@@ -98,28 +158,31 @@ export default function ProposalPreviewPage() {
             }
           }
 
-          const response = await apiClient.get(`/api/v1/oracle/proposals/${proposalId}/page/${pageNumber}`);
+          const content = await getProposalPageHtml(proposalId, pageNumber);
 
-          if (response.data) {
+          if (content) {
             pages.push({
-              title: pageNames[pageNumber - 1],
-              content: response.data
+              title: pageNames[pageNumber],
+              pageNumber,
+              content
             });
-            // console.log(`✅ Successfully loaded ${pageNames[pageNumber - 1]}`);
+            // console.log(`✅ Successfully loaded ${pageNames[pageNumber]}`);
           } else {
             // Fallback for missing page
             pages.push({
-              title: pageNames[pageNumber - 1],
-              content: `<html><body><div class="p-8 text-center text-gray-500">${pageNames[pageNumber - 1]} content not available</div></body></html>`
+              title: pageNames[pageNumber],
+              pageNumber,
+              content: `<html><body><div class="p-8 text-center text-gray-500">${pageNames[pageNumber]} content not available</div></body></html>`
             });
-            console.warn(`⚠️ ${pageNames[pageNumber - 1]} content not available`);
+            console.warn(`⚠️ ${pageNames[pageNumber]} content not available`);
           }
         } catch (pageError) {
-          console.error(`❌ Error loading ${pageNames[pageNumber - 1]}:`, pageError);
+          console.error(`❌ Error loading ${pageNames[pageNumber]}:`, pageError);
           // Fallback for failed page
           pages.push({
-            title: pageNames[pageNumber - 1],
-            content: `<html><body><div class="p-8 text-center text-gray-500">Error loading ${pageNames[pageNumber - 1]}</div></body></html>`
+            title: pageNames[pageNumber],
+            pageNumber,
+            content: `<html><body><div class="p-8 text-center text-gray-500">Error loading ${pageNames[pageNumber]}</div></body></html>`
           });
         }
       }
@@ -137,9 +200,10 @@ export default function ProposalPreviewPage() {
       }
 
       // Return fallback pages for other errors
-      return pageNames.map((name, index) => ({
-        title: name,
-        content: `<html><body><div class="p-8 text-center text-gray-500">Error loading ${name}</div></body></html>`
+      return pageNumbers.map((pageNumber) => ({
+        title: pageNames[pageNumber],
+        pageNumber,
+        content: `<html><body><div class="p-8 text-center text-gray-500">Error loading ${pageNames[pageNumber]}</div></body></html>`
       }));
     }
   };
@@ -160,21 +224,62 @@ export default function ProposalPreviewPage() {
         // console.log('✅ User authenticated:', user.email);
 
         // Get proposal basic data
-        const response = await apiClient.get(`/api/v1/oracle/proposals/${proposalId}`);
+        const data = await getProposal(proposalId as string);
+        setProposalData(data);
+
+        // Proposals without a template (or whose template can't be loaded) use the standard layout
+        let proposalTemplate: ProposalTemplate | null = null;
+        if (data.template_id) {
+          try {
+            proposalTemplate = await getProposalTemplate(data.template_id);
+          } catch (templateError) {
+            console.warn('⚠️ Could not load proposal template, using the standard layout:', templateError);
+          }
+        }
+        setTemplate(proposalTemplate);
 
-        if (response.data && response.data.success) {
-          const data = response.data.data;
-          setProposalData(data);
+        // Illustrations for the interactive cash value chart; the pages still load without them
+        try {
+          setIllustrations(await listIllustrations(proposalId as string));
+        } catch (illustrationsError) {
+          console.warn('⚠️ Could not load illustrations for the cash value chart:', illustrationsError);
+        }
 
-          // Fetch individual pages from backend
-          // console.log('🔄 Fetching individual pages...');
-          const individualPages = await fetchIndividualPages(proposalId as string);
-          // console.log(`✅ Loaded ${individualPages.length} individual pages:`, individualPages.map(p => p.title));
-          setPages(individualPages);
-        } else {
-          toast.error('Failed to load proposal data');
-          router.push('/oracle/proposals');
+        // Fetch individual pages from backend; titles are in the proposal's language(s), like the pages
+        // console.log('🔄 Fetching individual pages...');
+        const locale = getProposalLocale(data);
+        const individualPages = await fetchIndividualPages(
+          proposalId as string,
+          getTemplatePageNumbers(proposalTemplate),
+          locale
+        );
+        // console.log(`✅ Loaded ${individualPages.length} individual pages:`, individualPages.map(p => p.title));
+
+        // Pages the advisor edited are shown as edited
+        let overrides: ProposalPageOverride[] = [];
+        try {
+          overrides = await listPageOverrides(proposalId as string);
+        } catch (overridesError) {
+          console.warn('⚠️ Could not load page edits, showing the generated pages:', overridesError);
         }
+        setPageOverrides(overrides);
+        const editedPages = individualPages.map((page) => {
+          const override = overrides.find((candidate) => candidate.page_number === page.pageNumber);
+          return override ? { ...page, content: override.html } : page;
+        });
+
+        setPages(
+          withTemplatePages(
+            editedPages,
+            proposalTemplate,
+            {
+              clientName: data.client_name,
+              companyName: user.company?.name,
+              logoUrl: user.company?.logo_url,
+            },
+            locale
+          )
+        );
       } catch (error: any) {
         console.error('Error loading proposal:', error);
 
@@ -201,25 +306,26 @@ export default function ProposalPreviewPage() {
   useEffect(() => {
     let intervalId: NodeJS.Timeout;
 
+    const page3Index = pages.findIndex((page) => page.pageNumber === 3);
+
     const checkAndRefreshPage3 = async () => {
       try {
         // Only check if we have pages loaded and Page 3 exists
-        if (pages.length >= 3 && proposalId) {
-          const statusResponse = await apiClient.get(`/api/v1/oracle/proposals/${proposalId}/intelligent-analysis-status`);
-          const status = statusResponse.data?.data?.status;
+        if (page3Index >= 0 && proposalId) {
+          const status = await getIntelligentAnalysisStatus(proposalId as string);
 
           // If analysis completed and Page 3 currently shows loading, refresh it
-          if (status === 'completed' && pages[2].content.includes('Analyzing Cash Surrender Values')) {
+          if (status === 'completed' && pages[page3Index].content.includes('Analyzing Cash Surrender Values')) {
             // console.log('🎉 Intelligent analysis completed! Refreshing Page 3...');
 
             try {
-              const page3Response = await apiClient.get(`/api/v1/oracle/proposals/${proposalId}/page/3`);
-              if (page3Response.data) {
+              const page3Content = await getProposalPageHtml(proposalId as string, 3);
+              if (page3Content) {
                 setPages(prevPages => {
                   const newPages = [...prevPages];
-                  newPages[2] = {
-                    title: 'Page 3 - Illustration',
-                    content: page3Response.data
+                  newPages[page3Index] = {
+                    ...newPages[page3Index],
+                    content: page3Content
                   };
                   return newPages;
                 });
@@ -236,7 +342,7 @@ export default function ProposalPreviewPage() {
     };
 
     // Start checking every 5 seconds if Page 3 is in loading state
-    if (pages.length >= 3 && pages[2].content.includes('Analyzing Cash Surrender Values')) {
+    if (page3Index >= 0 && pages[page3Index].content.includes('Analyzing Cash Surrender Values')) {
       // console.log('⏰ Starting intelligent analysis status checks...');
       intervalId = setInterval(checkAndRefreshPage3, 5000);
     }
@@ -248,14 +354,16 @@ export default function ProposalPreviewPage() {
     };
   }, [pages, proposalId]);
 
-  // Keyboard navigation
+  // Keyboard navigation (not while a dialog with inputs is open or a page is being edited)
   useEffect(() => {
+    if (showShareModal || showSignModal || isEditingPage) return;
+
     const handleKeyPress = (e: KeyboardEvent) => {
       if (e.key === 'ArrowLeft' && activeTab > 0) {
         setActiveTab(activeTab - 1);
       } else if (e.key === 'ArrowRight' && activeTab < pages.length - 1) {
         setActiveTab(activeTab + 1);
-      } else if (e.key >= '1' && e.key <= '4') {
+      } else if (e.key >= '1' && e.key <= '9') {
         const pageIndex = parseInt(e.key) - 1;
         if (pageIndex < pages.length) {
           setActiveTab(pageIndex);
@@ -265,30 +373,87 @@ export default function ProposalPreviewPage() {
 
     document.addEventListener('keydown', handleKeyPress);
     return () => document.removeEventListener('keydown', handleKeyPress);
-  }, [activeTab, pages.length]);
+  }, [activeTab, pages.length, showShareModal, showSignModal, isEditingPage]);
+
+  const activePage = pages[activeTab];
+  const activeOverride = activePage
+    ? pageOverrides.find((override) => override.page_number === activePage.pageNumber)
+    : undefined;
+  // Generated pages can be edited until the client signs; the template's cover and disclaimers come from the template
+  const canEditActivePage =
+    !!activePage &&
+    activePage.pageNumber !== undefined &&
+    !isSigned &&
+    !isReadOnly &&
+    !activePage.content.includes('Analyzing Cash Surrender Values');
+
+  const replacePageContent = (pageNumber: number, content: string) => {
+    setPages((prevPages) => prevPages.map((page) => (page.pageNumber === pageNumber ? { ...page, content } : page)));
+  };
+
+  // Save the edited page; the PDF uses it from now on
+  const handleSavePage = async (html: string) => {
+    if (!activePage || activePage.pageNumber === undefined) return;
+    const pageNumber = activePage.pageNumber;
+    try {
+      setSavingPage(true);
+      const override = await savePageOverride(proposalId as string, pageNumber, html);
+      setPageOverrides((current) => [...current.filter((item) => item.page_number !== pageNumber), override]);
+      replacePageContent(pageNumber, override.html);
+      setIsEditingPage(false);
+      toast.success('Page saved');
+    } catch (error: any) {
+      console.error('Error saving page edits:', error);
+      toast.error(error.detail || 'Failed to save page');
+    } finally {
+      setSavingPage(false);
+    }
+  };
 
-  // Download proposal as PDF
+  // Drop the page's edits and show the generated page again
+  const handleRevertPage = async () => {
+    if (!activePage || activePage.pageNumber === undefined) return;
+    const pageNumber = activePage.pageNumber;
+    const confirmRevert = window.confirm(
+      `Discard your edits to ${activePage.title}? The generated page will be used in the preview and PDF again.`
+    );
+    if (!confirmRevert) return;
+
+    try {
+      setSavingPage(true);
+      await deletePageOverride(proposalId as string, pageNumber);
+      setPageOverrides((current) => current.filter((item) => item.page_number !== pageNumber));
+      const content = await getProposalPageHtml(proposalId as string, pageNumber);
+      if (content) replacePageContent(pageNumber, content);
+      toast.success('Page reverted to the generated version');
+    } catch (error: any) {
+      console.error('Error reverting page edits:', error);
+      toast.error(error.detail || 'Failed to revert page');
+    } finally {
+      setSavingPage(false);
+    }
+  };
+
+  // Download proposal as PDF (the sealed signed copy once the client has signed)
   const handleDownloadPDF = async () => {
     try {
       setDownloading(true);
+      const fileDate = new Date().toISOString().split('T')[0];
+
+      if (isSigned) {
+        const blob = await downloadSignedPdf(proposalId as string);
+        savePdf(blob, `proposal-${proposalData?.client_name || 'client'}-signed-${fileDate}.pdf`);
+        toast.success('Signed PDF downloaded');
+        return;
+      }
+
       toast('Generating PDF download...');
 
       // Call backend API to generate and download PDF
       // The backend PDF endpoint will generate the combined HTML internally
-      const response = await apiClient.get(`/api/v1/oracle/proposals/${proposalId}/download-pdf`, {
-        responseType: 'blob'
-      });
-
-      // Create blob and download
-      const blob = new Blob([response.data], { type: 'application/pdf' });
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `proposal-${proposalData?.client_name || 'client'}-${new Date().toISOString().split('T')[0]}.pdf`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      const blob = await downloadProposalPdf(proposalId as string);
+
+      savePdf(blob, `proposal-${proposalData?.client_name || 'client'}-${fileDate}.pdf`);
 
       toast.success('PDF downloaded successfully!');
     } catch (error: any) {
@@ -299,6 +464,23 @@ export default function ProposalPreviewPage() {
     }
   };
 
+  // Record the client's signature, signed in person on this device
+  const handleSign = (data: ProposalSignatureCreate) => {
+    if (!proposalData || !canSignProposal(proposalData) || isReadOnly) return;
+
+    signProposal.mutate(data, {
+      onSuccess: () => {
+        toast.success('Proposal signed');
+        setShowSignModal(false);
+        setProposalData((current) => (current ? { ...current, status: 'signed' } : current));
+      },
+      onError: (error: any) => {
+        console.error('Error signing proposal:', error);
+        toast.error(error.detail || 'Failed to sign proposal');
+      },
+    });
+  };
+
   // Go back to proposal editor
   const handleBackToEditor = () => {
     router.push(`/proposals/${proposalId}`);
@@ -348,6 +530,20 @@ export default function ProposalPreviewPage() {
                 Generated on {new Date(proposalData.generated_at).toLocaleString()}
               </p>
             )}
+            <p className="text-sm text-gray-500 mt-1">
+              Language: {formatProposalLocale(getProposalLocale(proposalData))}
+            </p>
+            {formatRatesAsOf(proposalData.fx_rates) && (
+              <p className="text-sm text-gray-500 mt-1">{formatRatesAsOf(proposalData.fx_rates)}</p>
+            )}
+            {signature && (
+              <p className="text-sm text-emerald-700 mt-1">
+                ✓ Signed by {signature.signer_name} on {new Date(signature.signed_at).toLocaleString()}
+                {signature.channel === 'in_person' && signature.witnessed_by && (
+                  <> (in person, with {signature.witnessed_by.name})</>
+                )}
+              </p>
+            )}
           </div>
 
           <div className="flex items-center space-x-4">
@@ -358,6 +554,24 @@ export default function ProposalPreviewPage() {
               ← Back to Editor
             </button>
 
+            {!isReadOnly && (
+              <button
+                onClick={() => setShowShareModal(true)}
+                className="px-4 py-2 text-blue-700 border border-blue-300 rounded-lg hover:bg-blue-50 transition-colors"
+              >
+                Share with client
+              </button>
+            )}
+
+            {canSignProposal(proposalData) && !isReadOnly && (
+              <button
+                onClick={() => setShowSignModal(true)}
+                className="px-4 py-2 text-emerald-700 border border-emerald-300 rounded-lg hover:bg-emerald-50 transition-colors"
+              >
+                Sign with client
+              </button>
+            )}
+
             <button
               onClick={handleDownloadPDF}
               disabled={downloading}
@@ -373,7 +587,7 @@ export default function ProposalPreviewPage() {
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
-                  <span>Download PDF</span>
+                  <span>{isSigned ? 'Download signed PDF' : 'Download PDF'}</span>
                 </>
               )}
             </button>
@@ -390,7 +604,8 @@ export default function ProposalPreviewPage() {
                 <button
                   key={index}
                   onClick={() => setActiveTab(index)}
-                  className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  disabled={isEditingPage}
+                  className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors disabled:cursor-not-allowed ${
                     activeTab === index
                       ? 'border-blue-500 text-blue-600'
                       : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
@@ -405,7 +620,7 @@ export default function ProposalPreviewPage() {
             <div className="flex items-center space-x-2">
               <button
                 onClick={() => setActiveTab(Math.max(0, activeTab - 1))}
-                disabled={activeTab === 0}
+                disabled={activeTab === 0 || isEditingPage}
                 className="p-2 rounded-lg text-gray-400 hover:text-gray-600 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -419,7 +634,7 @@ export default function ProposalPreviewPage() {
 
               <button
                 onClick={() => setActiveTab(Math.min(pages.length - 1, activeTab + 1))}
-                disabled={activeTab >= pages.length - 1}
+                disabled={activeTab >= pages.length - 1 || isEditingPage}
                 className="p-2 rounded-lg text-gray-400 hover:text-gray-600 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -442,24 +657,78 @@ export default function ProposalPreviewPage() {
                   <span className="text-sm font-medium text-gray-700">
                     {pages[activeTab].title}
                   </span>
-                  <span className="text-xs text-gray-500 ml-4">
-                    Use ← → arrow keys or 1-4 number keys to navigate
+                  {activeOverride && (
+                    <span
+                      className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                      title={`Edited ${new Date(activeOverride.updated_at).toLocaleString()}${
+                        activeOverride.updated_by ? ` by ${activeOverride.updated_by.name}` : ''
+                      }`}
+                    >
+                      Edited
+                    </span>
+                  )}
+                  {!isEditingPage && (
+                    <span className="text-xs text-gray-500 ml-4">
+                      Use ← → arrow keys or 1-{Math.min(pages.length, 9)} number keys to navigate
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-3">
+                  {canEditActivePage && !isEditingPage && (
+                    <>
+                      {activeOverride && (
+                        <button
+                          onClick={handleRevertPage}
+                          disabled={savingPage}
+                          className="text-xs text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                        >
+                          Revert to generated
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setIsEditingPage(true)}
+                        disabled={savingPage}
+                        className="px-3 py-1 text-xs font-medium text-blue-700 border border-blue-300 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+                      >
+                        Edit page
+                      </button>
+                    </>
+                  )}
+                  <span className="text-xs text-gray-500">
+                    {activeTab + 1} of {pages.length}
                   </span>
                 </div>
-                <span className="text-xs text-gray-500">
-                  {activeTab + 1} of {pages.length}
-                </span>
               </div>
             </div>
           )}
 
           {/* Page Content */}
-          {pages.length > 0 && pages[activeTab] ? (
+          {isEditingPage && activePage ? (
+            <ProposalPageEditor
+              html={activePage.content}
+              isSaving={savingPage}
+              onSave={handleSavePage}
+              onCancel={() => setIsEditingPage(false)}
+            />
+          ) : pages.length > 0 && pages[activeTab] ? (
             <div className="proposal-page-viewer">
               <div
                 className="proposal-content"
                 dangerouslySetInnerHTML={{ __html: pages[activeTab].content }}
               />
+              {pages[activeTab].pageNumber === 3 && illustrations.length > 0 && (
+                <div className="bg-white rounded-lg shadow-sm mt-4 p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                    {localize(getProposalLocale(proposalData), 'cash_value_projection')}
+                  </h3>
+                  <CashValueProjectionChart
+                    illustrations={illustrations}
+                    clientDob={proposalData.client_dob}
+                    targetCurrency={proposalData.target_currency || 'MYR'}
+                    fxRates={proposalData.fx_rates}
+                  />
+                </div>
+              )}
             </div>
           ) : (
             <div className="p-8 text-center text-gray-500">
@@ -470,6 +739,24 @@ export default function ProposalPreviewPage() {
         </div>
       </div>
 
+      {showShareModal && (
+        <ShareProposalModal proposalId={proposalId as string} onClose={() => setShowShareModal(false)} />
+      )}
+
+      {showSignModal && (
+        <SignProposalModal
+          clientName={proposalData.client_name}
+          acknowledgements={getSigningAcknowledgements(template)}
+          witnessNote="Hand this device to the client. You will be recorded as the witness."
+          isSubmitting={signProposal.isPending}
+          onSubmit={handleSign}
+          onClose={() => setShowSignModal(false)}
+        />
+      )}
+
+      {/* Template palette and typography, applied over the defaults below */}
+      {template && <style>{getTemplateStylesheet(template, '.proposal-content')}</style>}
+
       {/* Print styles for better PDF generation */}
       <style jsx global>{`
         .proposal-page-viewer {
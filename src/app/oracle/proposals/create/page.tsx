@@ -1,39 +1,48 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useCallback, useState, useEffect } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { toast } from 'react-hot-toast';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import apiClient from '@/lib/api';
-
-// Types
-interface SavedSearch {
-  id: string;
-  query_text: string;
-  created_at: string;
-  result_count: number;
-}
+import { createProposal, listAiQueryHistory } from '@/lib/api/oracle/proposals';
+import ClientPicker from '@/components/oracle/proposal/ClientPicker';
+import ProposalTemplatePicker from '@/components/oracle/proposal/ProposalTemplatePicker';
+import { useClient } from '@/hooks/oracle';
+import { PROPOSAL_LANGUAGES, toProposalLanguage } from '@/lib/proposal-i18n';
+import type { AiQueryHistoryItem } from '@/types/oracle/proposal';
 
 // Form schema
 const proposalSchema = z.object({
+  client_id: z.string({ required_error: 'Select or add a client' }).min(1, 'Select or add a client'),
+  // Copied from the selected client
   client_name: z.string().min(2, 'Client name must be at least 2 characters'),
   client_dob: z.string().min(1, 'Date of birth is required'),
+  client_gender: z.string().optional(),
+  client_occupation: z.string().optional(),
   client_needs: z.string().min(10, 'Client needs must be at least 10 characters'),
   needs_source: z.enum(['manual', 'ai_query']),
   ai_query_id: z.string().optional(),
   proposal_type: z.enum(['complete', 'summary', 'both']),
   target_currency: z.enum(['MYR', 'IDR']),
+  language: z.enum(['en', 'ms', 'zh']),
+  // Set for a bilingual proposal
+  secondary_language: z.enum(['en', 'ms', 'zh']).optional(),
+  template_id: z.string().optional(),
+}).refine((data) => data.secondary_language !== data.language, {
+  message: 'Choose a different second language',
+  path: ['secondary_language'],
 });
 
 type ProposalFormData = z.infer<typeof proposalSchema>;
 
 function CreateProposalContent() {
   const router = useRouter();
-  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const searchParams = useSearchParams();
+  const [savedSearches, setSavedSearches] = useState<AiQueryHistoryItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingSearches, setLoadingSearches] = useState(false);
 
@@ -46,13 +55,48 @@ function CreateProposalContent() {
   } = useForm<ProposalFormData>({
     resolver: zodResolver(proposalSchema),
     defaultValues: {
+      client_id: searchParams.get('client_id') || undefined,
       needs_source: 'manual',
       proposal_type: 'complete',
-      target_currency: 'MYR'
+      target_currency: 'MYR',
+      language: 'en'
     }
   });
 
   const needsSource = watch('needs_source');
+  const templateId = watch('template_id');
+  const clientId = watch('client_id');
+  const language = watch('language');
+  const secondaryLanguage = watch('secondary_language');
+  const { data: linkedClient } = useClient(clientId || '');
+
+  // Copy the client's details onto the proposal for the illustration age sync
+  useEffect(() => {
+    setValue('client_name', linkedClient ? `${linkedClient.first_name} ${linkedClient.last_name}` : '');
+    setValue('client_dob', linkedClient ? linkedClient.date_of_birth.split('T')[0] : '');
+    setValue('client_gender', linkedClient?.gender || undefined);
+    setValue('client_occupation', linkedClient?.occupation || undefined);
+  }, [linkedClient, setValue]);
+
+  // Generate in the client's preferred language unless the advisor picks another
+  useEffect(() => {
+    if (linkedClient) setValue('language', toProposalLanguage(linkedClient.preferred_language));
+  }, [linkedClient, setValue]);
+
+  const handleBilingualChange = (bilingual: boolean) => {
+    const other = PROPOSAL_LANGUAGES.find((option) => option.value !== language);
+    setValue('secondary_language', bilingual && other ? other.value : undefined, { shouldValidate: true });
+  };
+
+  const handleClientChange = useCallback(
+    (clientId: string | undefined) => setValue('client_id', clientId as string, { shouldValidate: !!clientId }),
+    [setValue]
+  );
+
+  const handleTemplateChange = useCallback(
+    (templateId: string | undefined) => setValue('template_id', templateId),
+    [setValue]
+  );
 
   // Load saved searches
   useEffect(() => {
@@ -64,8 +108,7 @@ function CreateProposalContent() {
   const loadSavedSearches = async () => {
     setLoadingSearches(true);
     try {
-      const response = await apiClient.get('/api/v1/oracle/ai-generation/saved-searches');
-      setSavedSearches(response.data.data?.searches || []);
+      setSavedSearches(await listAiQueryHistory());
     } catch (error) {
       console.error('Error loading saved searches:', error);
       toast.error('Failed to load saved searches');
@@ -78,9 +121,9 @@ function CreateProposalContent() {
     setLoading(true);
     
     try {
-      const response = await apiClient.post('/api/v1/oracle/proposals', data);
+      const created = await createProposal(data);
       toast.success('Proposal created successfully!');
-      router.push(`/proposals/${response.data.data.proposal_id}`);
+      router.push(`/proposals/${created.proposal_id}`);
     } catch (error: any) {
       console.error('Error creating proposal:', error);
       toast.error(error.detail || 'Failed to create proposal');
@@ -124,39 +167,13 @@ function CreateProposalContent() {
             {/* Client Information */}
             <div>
               <h2 className="text-xl font-semibold text-gray-900 mb-4">Client Information</h2>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <label htmlFor="client_name" className="block text-sm font-medium text-gray-700 mb-1">
-                    Client Name
-                  </label>
-                  <input
-                    type="text"
-                    id="client_name"
-                    {...register('client_name')}
-                    placeholder="Enter client's full name"
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  />
-                  {errors.client_name && (
-                    <p className="mt-1 text-sm text-red-600">{errors.client_name.message}</p>
-                  )}
-                </div>
 
-                <div>
-                  <label htmlFor="client_dob" className="block text-sm font-medium text-gray-700 mb-1">
-                    Date of Birth
-                  </label>
-                  <input
-                    type="date"
-                    id="client_dob"
-                    {...register('client_dob')}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  />
-                  {errors.client_dob && (
-                    <p className="mt-1 text-sm text-red-600">{errors.client_dob.message}</p>
-                  )}
-                </div>
-              </div>
+              <ClientPicker value={clientId} onChange={handleClientChange} />
+              {(errors.client_id || errors.client_name || errors.client_dob) && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.client_id?.message || errors.client_name?.message || errors.client_dob?.message}
+                </p>
+              )}
             </div>
 
             {/* Client Needs */}
@@ -289,9 +306,63 @@ function CreateProposalContent() {
                     Currency for displaying all financial amounts in the proposal
                   </p>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Language
+                  </label>
+                  <select
+                    {...register('language')}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {PROPOSAL_LANGUAGES.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Generated content, labels and the PDF are written in this language
+                    {linkedClient?.preferred_language && " (defaults to the client's preferred language)"}
+                  </p>
+
+                  <label className="flex items-center mt-3">
+                    <input
+                      type="checkbox"
+                      checked={!!secondaryLanguage}
+                      onChange={(e) => handleBilingualChange(e.target.checked)}
+                      className="mr-2"
+                    />
+                    <span className="text-sm">Bilingual: show a second language side by side</span>
+                  </label>
+                  {secondaryLanguage && (
+                    <select
+                      {...register('secondary_language')}
+                      className="w-full mt-2 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {PROPOSAL_LANGUAGES.map((option) => (
+                        <option key={option.value} value={option.value} disabled={option.value === language}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {errors.secondary_language && (
+                    <p className="mt-1 text-sm text-red-600">{errors.secondary_language.message}</p>
+                  )}
+                </div>
               </div>
             </div>
 
+            {/* Proposal Template */}
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Proposal Template</h2>
+              <p className="text-xs text-gray-600 mb-3">
+                Sets the section order, cover, disclaimers and branding of the generated proposal
+              </p>
+              <ProposalTemplatePicker value={templateId} onChange={handleTemplateChange} />
+            </div>
+
             {/* Submit Button */}
             <div className="flex justify-end space-x-4 pt-6 border-t border-gray-200">
               <button
@@ -1,25 +1,18 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { toast } from 'react-hot-toast';
+import { useAuth } from '@/contexts/AuthContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Sidebar from '@/components/Sidebar';
-import apiClient from '@/lib/api';
 import CreateProposalForm from '@/components/CreateProposalForm';
-
-// Types
-interface ProposalListItem {
-  proposal_id: string;
-  client_name: string;
-  proposal_type: string;
-  status: string;
-  illustration_count: number;
-  highlighted_insurance_name?: string;
-  created_at: string;
-  updated_at: string;
-}
+import TeamFilter from '@/components/meeting-tracker/TeamFilter';
+import ViewContextBanner from '@/components/meeting-tracker/ViewContextBanner';
+import ProposalBoard from '@/components/oracle/proposal/ProposalBoard';
+import { archiveProposal, deleteProposal, listProposals, unarchiveProposal } from '@/lib/api/oracle/proposals';
+import type { ProposalListItem } from '@/types/oracle/proposal';
 
 const STATUS_COLORS = {
   draft: 'bg-gray-100 text-gray-800',
@@ -27,25 +20,96 @@ const STATUS_COLORS = {
   reviewing: 'bg-yellow-100 text-yellow-800',
   generating: 'bg-purple-100 text-purple-800',
   completed: 'bg-green-100 text-green-800',
+  signed: 'bg-emerald-100 text-emerald-800',
   failed: 'bg-red-100 text-red-800',
 };
 
+type SearchParamsLike = { get(name: string): string | null };
+
+// The layout is kept in ?view= (list; board when absent)
+function getLayoutParam(searchParams: SearchParamsLike): 'board' | 'list' {
+  return searchParams.get('view') === 'list' ? 'list' : 'board';
+}
+
+// A ?view= value that isn't a layout is a team filter from a link made before it moved to ?team=
+function getLegacyTeamFilter(searchParams: SearchParamsLike): string | null {
+  const view = searchParams.get('view');
+  return view && view !== 'board' && view !== 'list' ? view : null;
+}
+
+function getTeamFilterParam(searchParams: SearchParamsLike): string {
+  return searchParams.get('team') || getLegacyTeamFilter(searchParams) || 'me';
+}
+
 function ProposalsContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { user } = useAuth();
   const [proposals, setProposals] = useState<ProposalListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
+  // Kept in the ?view= query parameter
+  const [layout, setLayout] = useState(getLayoutParam(searchParams));
+  // 'me', 'team' or a team member's user id (team leaders only), kept in the ?team= query parameter
+  const [teamFilter, setTeamFilter] = useState(getTeamFilterParam(searchParams));
+  const [showArchived, setShowArchived] = useState(false);
   const [activeTab, setActiveTab] = useState<'list' | 'create'>(
     searchParams.get('tab') === 'create' ? 'create' : 'list'
   );
 
+  useEffect(() => {
+    setLayout(getLayoutParam(searchParams));
+    setTeamFilter(getTeamFilterParam(searchParams));
+  }, [searchParams]);
+
+  const handleLayoutChange = (newLayout: 'board' | 'list') => {
+    setLayout(newLayout);
+
+    // Update URL query parameter; the board is the default
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('team', getTeamFilterParam(params));
+    if (params.get('team') === 'me') {
+      params.delete('team');
+    }
+    if (newLayout === 'list') {
+      params.set('view', 'list');
+    } else {
+      params.delete('view');
+    }
+    router.push(`?${params.toString()}`, { scroll: false });
+  };
+
+  const handleTeamFilterChange = (newFilter: string) => {
+    setTeamFilter(newFilter);
+
+    // Update URL query parameter
+    const params = new URLSearchParams(searchParams.toString());
+    if (newFilter && newFilter !== 'me') {
+      params.set('team', newFilter);
+    } else {
+      params.delete('team');
+    }
+    // The filter now lives in ?team=, so drop a legacy one from ?view=
+    if (getLegacyTeamFilter(params)) {
+      params.delete('view');
+    }
+    router.push(`?${params.toString()}`, { scroll: false });
+  };
+
+  // Team members' proposals are read-only to their leader, and so is one whose owner isn't known
+  const isOwnProposal = (proposal: ProposalListItem) =>
+    !!user && !!proposal.created_by && proposal.created_by.user_id === user.id;
+
   // Load proposals
-  const loadProposals = async () => {
+  const loadProposals = useCallback(async () => {
     try {
-      const response = await apiClient.get('/api/v1/oracle/proposals');
-      setProposals(response.data.data?.proposals || []);
+      setProposals(
+        await listProposals({
+          team_filter: teamFilter !== 'me' ? teamFilter : undefined,
+          archived: showArchived,
+        })
+      );
     } catch (error: any) {
       // Handle different error cases
       if (error.status_code === 401) {
@@ -64,6 +128,33 @@ function ProposalsContent() {
     } finally {
       setLoading(false);
     }
+  }, [teamFilter, showArchived]);
+
+  // Archive from the board: the card leaves the board straight away
+  const handleArchiveProposal = async (proposal: ProposalListItem) => {
+    setProposals((current) => current.filter((item) => item.proposal_id !== proposal.proposal_id));
+    try {
+      await archiveProposal(proposal.proposal_id);
+      toast.success(`Archived the proposal for ${proposal.client_name}`);
+    } catch (error: any) {
+      console.error('Error archiving proposal:', error);
+      toast.error(error.detail || 'Failed to archive proposal');
+      loadProposals();
+    }
+  };
+
+  const handleUnarchiveProposal = async (proposalId: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    try {
+      await unarchiveProposal(proposalId);
+      toast.success('Proposal restored');
+      loadProposals();
+    } catch (error: any) {
+      console.error('Error unarchiving proposal:', error);
+      toast.error(error.detail || 'Failed to unarchive proposal');
+    }
   };
 
   // Delete proposal
@@ -81,14 +172,14 @@ function ProposalsContent() {
     }
 
     try {
-      const response = await apiClient.delete(`/api/v1/oracle/proposals/${proposalId}`);
+      const result = await deleteProposal(proposalId);
 
-      if (response.data.success) {
+      if (result.success) {
         toast.success('Proposal deleted successfully');
         // Reload proposals list
         loadProposals();
       } else {
-        toast.error(response.data.message || 'Failed to delete proposal');
+        toast.error(result.message || 'Failed to delete proposal');
       }
     } catch (error: any) {
       console.error('Error deleting proposal:', error);
@@ -106,13 +197,17 @@ function ProposalsContent() {
 
     window.addEventListener('focus', handleFocus);
     return () => window.removeEventListener('focus', handleFocus);
-  }, []);
+  }, [loadProposals]);
+
+  // Archived proposals are only listed, never on the board
+  const showBoard = layout === 'board' && !showArchived;
 
   // Filter proposals
   const filteredProposals = proposals.filter(proposal => {
     const matchesSearch = proposal.client_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (proposal.highlighted_insurance_name?.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesStatus = statusFilter === 'all' || proposal.status === statusFilter;
+    // The board shows every status in its own column
+    const matchesStatus = showBoard || statusFilter === 'all' || proposal.status === statusFilter;
     
     return matchesSearch && matchesStatus;
   });
@@ -125,6 +220,12 @@ function ProposalsContent() {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
         );
+      case 'signed':
+        return (
+          <svg className="w-4 h-4 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+          </svg>
+        );
       case 'failed':
         return (
           <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -212,6 +313,12 @@ function ProposalsContent() {
         {/* Tab Content */}
         {activeTab === 'list' && (
           <>
+            <ViewContextBanner
+              userId={teamFilter !== 'me' && teamFilter !== 'team' ? teamFilter : null}
+              variant="light"
+              returnHref={layout === 'list' ? '?view=list' : '?'}
+            />
+
             {/* Filters */}
             <div className="mb-6 bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0 sm:space-x-4">
@@ -231,23 +338,55 @@ function ProposalsContent() {
                   </div>
                 </div>
 
-                {/* Status Filter */}
-                <div className="sm:w-48">
-                  <select
-                    value={statusFilter}
-                    onChange={(e) => setStatusFilter(e.target.value)}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  >
-                    <option value="all">All Status</option>
-                    <option value="draft">Draft</option>
-                    <option value="extracting">Extracting</option>
-                    <option value="reviewing">Reviewing</option>
-                    <option value="generating">Generating</option>
-                    <option value="completed">Completed</option>
-                    <option value="failed">Failed</option>
-                  </select>
+                {/* Board / List */}
+                <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                  {(['board', 'list'] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => handleLayoutChange(option)}
+                      className={`px-3 py-2 capitalize ${
+                        layout === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
                 </div>
 
+                {/* Advisor filter, for team leaders */}
+                <TeamFilter value={teamFilter} onChange={handleTeamFilterChange} variant="light" />
+
+                <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={showArchived}
+                    onChange={(e) => setShowArchived(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Archived
+                </label>
+
+                {/* Status Filter */}
+                {!showBoard && (
+                  <div className="sm:w-48">
+                    <select
+                      value={statusFilter}
+                      onChange={(e) => setStatusFilter(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="all">All Status</option>
+                      <option value="draft">Draft</option>
+                      <option value="extracting">Extracting</option>
+                      <option value="reviewing">Reviewing</option>
+                      <option value="needs_review">Needs review</option>
+                      <option value="generating">Generating</option>
+                      <option value="completed">Completed</option>
+                      <option value="signed">Signed</option>
+                      <option value="failed">Failed</option>
+                    </select>
+                  </div>
+                )}
+
                 {/* Refresh Button */}
                 <button
                   onClick={() => {
@@ -270,8 +409,15 @@ function ProposalsContent() {
               </div>
             </div>
 
-        {/* Proposals Grid */}
-        {filteredProposals.length > 0 ? (
+        {/* Proposals Board */}
+        {showBoard && filteredProposals.length > 0 ? (
+          <ProposalBoard
+            proposals={filteredProposals}
+            showAdvisor={teamFilter !== 'me'}
+            canArchive={isOwnProposal}
+            onArchive={handleArchiveProposal}
+          />
+        ) : filteredProposals.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {filteredProposals.map((proposal) => (
               <div key={proposal.proposal_id} className="relative">
@@ -292,16 +438,27 @@ function ProposalsContent() {
                       </div>
                       <div className="flex items-center space-x-2">
                         {getStatusIcon(proposal.status)}
+                        {proposal.archived_at && isOwnProposal(proposal) && (
+                          <button
+                            onClick={(e) => handleUnarchiveProposal(proposal.proposal_id, e)}
+                            className="px-2 py-1 rounded-lg text-xs text-blue-700 hover:bg-blue-50"
+                            title="Move back to the board"
+                          >
+                            Unarchive
+                          </button>
+                        )}
                         {/* Delete Button */}
-                        <button
-                          onClick={(e) => handleDeleteProposal(proposal.proposal_id, proposal.client_name, proposal.status, e)}
-                          className="p-2 rounded-lg transition-colors text-red-600 hover:bg-red-50 hover:text-red-700"
-                          title="Delete proposal"
-                        >
-                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
+                        {isOwnProposal(proposal) && (
+                          <button
+                            onClick={(e) => handleDeleteProposal(proposal.proposal_id, proposal.client_name, proposal.status, e)}
+                            className="p-2 rounded-lg transition-colors text-red-600 hover:bg-red-50 hover:text-red-700"
+                            title="Delete proposal"
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                     </div>
 
@@ -321,6 +478,13 @@ function ProposalsContent() {
                       </span>
                     </div>
 
+                    {teamFilter !== 'me' && proposal.created_by && (
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600">Advisor:</span>
+                        <span className="text-gray-900 font-medium">{proposal.created_by.name}</span>
+                      </div>
+                    )}
+
                     {proposal.highlighted_insurance_name && (
                       <div>
                         <span className="text-xs text-gray-500 block mb-1">Highlighted:</span>
@@ -358,7 +522,7 @@ function ProposalsContent() {
           </div>
         ) : (
           <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-12 text-center">
-            {searchTerm || statusFilter !== 'all' ? (
+            {searchTerm || statusFilter !== 'all' || showArchived || teamFilter !== 'me' ? (
               // No results for filters
               <div>
                 <svg className="w-16 h-16 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -372,6 +536,8 @@ function ProposalsContent() {
                   onClick={() => {
                     setSearchTerm('');
                     setStatusFilter('all');
+                    setShowArchived(false);
+                    handleTeamFilterChange('me');
                   }}
                   className="px-4 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
                 >
@@ -439,6 +605,7 @@ function ProposalsContent() {
         {/* Create Tab Content */}
         {activeTab === 'create' && (
           <CreateProposalForm 
+            initialClientId={searchParams.get('client_id') || undefined}
             onProposalCreated={(proposalId) => {
               // Reload proposals list and switch to list tab
               loadProposals();
@@ -0,0 +1,490 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import SignProposalModal from '@/components/oracle/proposal/SignProposalModal';
+import {
+  downloadSharedSignedPdf,
+  getSharedProposal,
+  getSharedProposalPage,
+  recordSharedProposalActivity,
+  sendSharedProposalActivityBeacon,
+  signSharedProposal,
+  startSharedProposalView,
+} from '@/lib/api/oracle/proposal-shares';
+import { savePdf } from '@/lib/pdfUtils';
+import { getProposalLocale, localize } from '@/lib/proposal-i18n';
+import {
+  ACTIVITY_REPORT_INTERVAL_MS,
+  READING_IDLE_TIMEOUT_MS,
+  addPageTime,
+  toPageTimes,
+} from '@/lib/proposal-shares';
+import type { PageTimeTotals } from '@/lib/proposal-shares';
+import { getSigningAcknowledgements } from '@/lib/proposal-signing';
+import {
+  getProposalPageTitle,
+  getTemplatePageNumbers,
+  getTemplateStylesheet,
+  withTemplatePages,
+} from '@/lib/proposal-templates';
+import type { RenderedProposalPage } from '@/lib/proposal-templates';
+import { canSignProposal } from '@/lib/proposal-workflow';
+import type { ApiError } from '@/types/auth';
+import type { ProposalSignatureCreate } from '@/types/oracle/proposal';
+import type { SharedProposal, SharedProposalSession } from '@/types/oracle/proposal-share';
+
+type ViewerError = 'not_found' | 'expired' | 'failed';
+
+const VIEWER_ERROR_MESSAGES: Record<ViewerError, { title: string; message: string }> = {
+  not_found: {
+    title: 'Link not available',
+    message: 'This link is no longer active. Please ask your advisor for a new one.',
+  },
+  expired: {
+    title: 'Link expired',
+    message: 'This link has expired. Please ask your advisor for a new one.',
+  },
+  failed: {
+    title: 'Something went wrong',
+    message: 'The proposal could not be loaded. Please check your connection and try again.',
+  },
+};
+
+function toViewerError(error: unknown): ViewerError {
+  const statusCode = (error as ApiError)?.status_code;
+  if (statusCode === 404) return 'not_found';
+  if (statusCode === 410) return 'expired';
+  return 'failed';
+}
+
+export default function SharedProposalPage() {
+  const { token } = useParams<{ token: string }>();
+  const [proposal, setProposal] = useState<SharedProposal | null>(null);
+  const [session, setSession] = useState<SharedProposalSession | null>(null);
+  const [pages, setPages] = useState<RenderedProposalPage[]>([]);
+  const [activeTab, setActiveTab] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ViewerError | null>(null);
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  const [showSignModal, setShowSignModal] = useState(false);
+  const [signing, setSigning] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  // Open the proposal (starting a view in the advisor's log) and load its pages
+  const openProposal = useCallback(
+    async (sharedProposal: SharedProposal, pinValue?: string) => {
+      const viewSession = await startSharedProposalView(token, pinValue);
+      // Page titles are in the proposal's language(s), like the pages themselves
+      const locale = getProposalLocale(sharedProposal);
+      const loadedPages = await Promise.all(
+        getTemplatePageNumbers(viewSession.template).map(async (pageNumber) => {
+          const title = getProposalPageTitle(pageNumber, locale);
+          try {
+            const content = await getSharedProposalPage(token, viewSession.view_token, pageNumber);
+            return { title, pageNumber, content };
+          } catch (pageError) {
+            console.error(`Error loading ${title}:`, pageError);
+            return {
+              title,
+              pageNumber,
+              content: `<div class="p-8 text-center text-gray-500">${localize(locale, 'page_unavailable', { title })}</div>`,
+            };
+          }
+        })
+      );
+
+      setSession(viewSession);
+      setPages(
+        withTemplatePages(
+          loadedPages,
+          viewSession.template,
+          {
+            clientName: sharedProposal.client_name,
+            companyName: sharedProposal.company_name,
+            logoUrl: sharedProposal.company_logo_url,
+          },
+          locale
+        )
+      );
+    },
+    [token]
+  );
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const sharedProposal = await getSharedProposal(token);
+        setProposal(sharedProposal);
+        if (!sharedProposal.pin_required) {
+          await openProposal(sharedProposal);
+        }
+      } catch (loadError) {
+        console.error('Error loading shared proposal:', loadError);
+        setError(toViewerError(loadError));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      load();
+    }
+  }, [token, openProposal]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!proposal || !pin) return;
+
+    setUnlocking(true);
+    setPinError(null);
+    try {
+      await openProposal(proposal, pin);
+    } catch (unlockError) {
+      console.error('Error opening shared proposal:', unlockError);
+      if ((unlockError as ApiError)?.status_code === 403) {
+        setPinError('Incorrect PIN. Please try again.');
+      } else {
+        setError(toViewerError(unlockError));
+      }
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  // =============================================================================
+  // Signing
+  // =============================================================================
+
+  const handleSign = async (data: ProposalSignatureCreate) => {
+    if (!proposal || !session || !canSignProposal(proposal)) return;
+
+    setSigning(true);
+    try {
+      const signature = await signSharedProposal(token, session, data);
+      setProposal({
+        ...proposal,
+        status: 'signed',
+        signature: { signer_name: signature.signer_name, signed_at: signature.signed_at },
+      });
+      setShowSignModal(false);
+      toast.success('Thank you, the proposal is signed');
+    } catch (signError) {
+      console.error('Error signing shared proposal:', signError);
+      toast.error((signError as ApiError)?.detail || 'The proposal could not be signed. Please try again.');
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const handleDownloadSigned = async () => {
+    if (!proposal || !session) return;
+
+    setDownloading(true);
+    try {
+      const blob = await downloadSharedSignedPdf(token, session);
+      savePdf(blob, `proposal-${proposal.client_name}-signed.pdf`);
+    } catch (downloadError) {
+      console.error('Error downloading signed proposal:', downloadError);
+      toast.error('The signed copy could not be downloaded. Please try again.');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  // =============================================================================
+  // Reading time
+  // =============================================================================
+
+  // Seconds read per page since the last report
+  const pageTimesRef = useRef<PageTimeTotals>({});
+  const lastInteractionRef = useRef(Date.now());
+  const activePageNumber = pages[activeTab]?.pageNumber;
+
+  useEffect(() => {
+    if (!session) return;
+
+    const markInteraction = () => {
+      lastInteractionRef.current = Date.now();
+    };
+
+    const takePageTimes = () => {
+      const pageTimes = toPageTimes(pageTimesRef.current);
+      pageTimesRef.current = {};
+      return pageTimes;
+    };
+
+    const report = () => {
+      const pageTimes = takePageTimes();
+      if (pageTimes.length === 0) return;
+      recordSharedProposalActivity(token, session, pageTimes).catch((reportError) => {
+        console.warn('Could not record reading time:', reportError);
+      });
+    };
+
+    // The tab may never come back, so hand what's left to the browser to send
+    const reportOnLeave = () => {
+      if (document.visibilityState === 'visible') return;
+      const pageTimes = takePageTimes();
+      if (pageTimes.length > 0) {
+        sendSharedProposalActivityBeacon(token, session, pageTimes);
+      }
+    };
+
+    // Cover and disclaimer pages aren't backend pages, so they aren't timed
+    const tick = setInterval(() => {
+      const idle = Date.now() - lastInteractionRef.current > READING_IDLE_TIMEOUT_MS;
+      if (activePageNumber && document.visibilityState === 'visible' && !idle) {
+        pageTimesRef.current = addPageTime(pageTimesRef.current, activePageNumber, 1);
+      }
+    }, 1000);
+    const reportInterval = setInterval(report, ACTIVITY_REPORT_INTERVAL_MS);
+
+    const interactionEvents = ['scroll', 'mousemove', 'keydown', 'touchstart', 'click'];
+    interactionEvents.forEach((event) => window.addEventListener(event, markInteraction, true));
+    document.addEventListener('visibilitychange', reportOnLeave);
+    window.addEventListener('pagehide', reportOnLeave);
+
+    return () => {
+      clearInterval(tick);
+      clearInterval(reportInterval);
+      interactionEvents.forEach((event) => window.removeEventListener(event, markInteraction, true));
+      document.removeEventListener('visibilitychange', reportOnLeave);
+      window.removeEventListener('pagehide', reportOnLeave);
+      report();
+    };
+  }, [session, token, activePageNumber]);
+
+  // Keyboard navigation (not while signing, where the arrows move the cursor)
+  useEffect(() => {
+    if (showSignModal) return;
+
+    const handleKeyPress = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') {
+        setActiveTab((tab) => Math.max(0, tab - 1));
+      } else if (e.key === 'ArrowRight') {
+        setActiveTab((tab) => Math.min(pages.length - 1, tab + 1));
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyPress);
+    return () => document.removeEventListener('keydown', handleKeyPress);
+  }, [pages.length, showSignModal]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading proposal...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !proposal) {
+    const { title, message } = VIEWER_ERROR_MESSAGES[error || 'failed'];
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center max-w-md px-4">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">{title}</h1>
+          <p className="text-gray-600">{message}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center px-4">
+        <form
+          onSubmit={handleUnlock}
+          className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-8 w-full max-w-sm text-center"
+        >
+          {proposal.company_logo_url && (
+            <img src={proposal.company_logo_url} alt="" className="h-12 mx-auto mb-4 object-contain" />
+          )}
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Proposal for {proposal.client_name}</h1>
+          <p className="text-sm text-gray-600 mb-6">Enter the PIN your advisor gave you to view this proposal.</p>
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={pin}
+            onChange={(e) => setPin(e.target.value.trim())}
+            placeholder="PIN"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center tracking-widest"
+          />
+          {pinError && <p className="mt-2 text-sm text-red-600">{pinError}</p>}
+          <button
+            type="submit"
+            disabled={unlocking || !pin}
+            className="mt-4 w-full px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {unlocking ? 'Opening...' : 'View Proposal'}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            {proposal.company_logo_url && (
+              <img src={proposal.company_logo_url} alt="" className="h-10 object-contain" />
+            )}
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Proposal for {proposal.client_name}</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                {proposal.advisor_name && <>Prepared by {proposal.advisor_name}</>}
+                {proposal.advisor_name && proposal.company_name && <>, </>}
+                {proposal.company_name}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-4">
+            <p className="text-xs text-gray-500">
+              Available until {format(new Date(proposal.expires_at), 'd MMM yyyy')}
+              {proposal.fx_rates_as_of && (
+                <>
+                  <br />
+                  Exchange rates as of {format(new Date(proposal.fx_rates_as_of), 'd MMM yyyy')}
+                </>
+              )}
+            </p>
+            {canSignProposal(proposal) && (
+              <button
+                onClick={() => setShowSignModal(true)}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Sign proposal
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {proposal.signature && (
+        <div className="bg-emerald-50 border-b border-emerald-200 px-6 py-3 flex items-center justify-between">
+          <p className="text-sm text-emerald-800">
+            ✓ Signed by {proposal.signature.signer_name} on{' '}
+            {format(new Date(proposal.signature.signed_at), "d MMMM yyyy 'at' HH:mm")}
+          </p>
+          <button
+            onClick={handleDownloadSigned}
+            disabled={downloading}
+            className="text-sm text-emerald-800 font-medium hover:text-emerald-900 disabled:opacity-50"
+          >
+            {downloading ? 'Downloading...' : 'Download signed copy'}
+          </button>
+        </div>
+      )}
+
+      {/* Page Tabs */}
+      <div className="bg-white border-b border-gray-200 px-6">
+        <div className="flex items-center justify-between">
+          <div className="flex space-x-8 overflow-x-auto">
+            {pages.map((page, index) => (
+              <button
+                key={index}
+                onClick={() => setActiveTab(index)}
+                className={`py-3 px-1 border-b-2 font-medium text-sm whitespace-nowrap transition-colors ${
+                  activeTab === index
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {page.title}
+              </button>
+            ))}
+          </div>
+          <span className="text-sm text-gray-500 min-w-[60px] text-center">
+            {activeTab + 1} / {pages.length}
+          </span>
+        </div>
+      </div>
+
+      {/* Page Content */}
+      <div className="p-6">
+        <div className="bg-white rounded-lg shadow-lg overflow-auto max-h-[calc(100vh-180px)]">
+          {pages[activeTab] && (
+            <div className="proposal-page-viewer">
+              <div className="proposal-content" dangerouslySetInnerHTML={{ __html: pages[activeTab].content }} />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showSignModal && (
+        <SignProposalModal
+          clientName={proposal.client_name}
+          acknowledgements={getSigningAcknowledgements(session.template)}
+          isSubmitting={signing}
+          onSubmit={handleSign}
+          onClose={() => setShowSignModal(false)}
+        />
+      )}
+
+      {session.template && <style>{getTemplateStylesheet(session.template, '.proposal-content')}</style>}
+
+      <style jsx global>{`
+        .proposal-page-viewer {
+          display: block;
+          padding: 20px;
+          background: #f3f4f6;
+          overflow: visible;
+        }
+
+        .proposal-content {
+          transform: scale(0.85);
+          transform-origin: top left;
+          box-shadow: 0 10px 25px rgba(0, 0, 0, 0.1);
+          border-radius: 8px;
+          background: white;
+          font-family: 'Inter', system-ui, -apple-system, sans-serif;
+          display: inline-block;
+          min-width: 297mm;
+          width: auto;
+        }
+
+        /* The page HTML sets body{overflow:hidden} for PDF rendering */
+        .proposal-content html,
+        .proposal-content body {
+          overflow: visible !important;
+          height: auto !important;
+          min-height: auto !important;
+        }
+
+        .proposal-content img {
+          max-width: 100%;
+          height: auto;
+        }
+
+        .proposal-content table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+
+        @media (max-width: 1024px) {
+          .proposal-content {
+            transform: scale(0.65);
+          }
+        }
+
+        @media (max-width: 768px) {
+          .proposal-content {
+            transform: scale(0.5);
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,39 +1,42 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useCallback, useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { toast } from 'react-hot-toast';
-import apiClient from '@/lib/api';
-
-// Types
-interface SavedSearch {
-  id: string;
-  query_text: string;
-  created_at: string;
-  result_count: number;
-}
+import { createProposal, listAiQueryHistory } from '@/lib/api/oracle/proposals';
+import ClientPicker from '@/components/oracle/proposal/ClientPicker';
+import ProposalTemplatePicker from '@/components/oracle/proposal/ProposalTemplatePicker';
+import { useClient } from '@/hooks/oracle';
+import type { AiQueryHistoryItem } from '@/types/oracle/proposal';
 
 interface CreateProposalFormProps {
   onProposalCreated: (proposalId: string) => void;
+  // Preselects a client, e.g. from "Create proposal for this client"
+  initialClientId?: string;
 }
 
 // Form schema
 const proposalSchema = z.object({
+  client_id: z.string({ required_error: 'Select or add a client' }).min(1, 'Select or add a client'),
+  // Copied from the selected client
   client_name: z.string().min(2, 'Client name must be at least 2 characters'),
   client_dob: z.string().min(1, 'Date of birth is required'),
+  client_gender: z.string().optional(),
+  client_occupation: z.string().optional(),
   client_needs: z.string().min(10, 'Client needs must be at least 10 characters'),
   needs_source: z.enum(['manual', 'ai_query']),
   ai_query_id: z.string().optional(),
   proposal_type: z.enum(['complete', 'summary', 'both']),
   target_currency: z.enum(['MYR', 'IDR', 'SGD', 'USD']),
+  template_id: z.string().optional(),
 });
 
 type ProposalFormData = z.infer<typeof proposalSchema>;
 
-export default function CreateProposalForm({ onProposalCreated }: CreateProposalFormProps) {
-  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+export default function CreateProposalForm({ onProposalCreated, initialClientId }: CreateProposalFormProps) {
+  const [savedSearches, setSavedSearches] = useState<AiQueryHistoryItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingSearches, setLoadingSearches] = useState(false);
 
@@ -46,6 +49,7 @@ export default function CreateProposalForm({ onProposalCreated }: CreateProposal
   } = useForm<ProposalFormData>({
     resolver: zodResolver(proposalSchema),
     defaultValues: {
+      client_id: initialClientId,
       needs_source: 'manual',
       proposal_type: 'complete',
       target_currency: 'MYR'
@@ -53,6 +57,27 @@ export default function CreateProposalForm({ onProposalCreated }: CreateProposal
   });
 
   const needsSource = watch('needs_source');
+  const templateId = watch('template_id');
+  const clientId = watch('client_id');
+  const { data: linkedClient } = useClient(clientId || '');
+
+  // Copy the client's details onto the proposal for the illustration age sync
+  useEffect(() => {
+    setValue('client_name', linkedClient ? `${linkedClient.first_name} ${linkedClient.last_name}` : '');
+    setValue('client_dob', linkedClient ? linkedClient.date_of_birth.split('T')[0] : '');
+    setValue('client_gender', linkedClient?.gender || undefined);
+    setValue('client_occupation', linkedClient?.occupation || undefined);
+  }, [linkedClient, setValue]);
+
+  const handleClientChange = useCallback(
+    (clientId: string | undefined) => setValue('client_id', clientId as string, { shouldValidate: !!clientId }),
+    [setValue]
+  );
+
+  const handleTemplateChange = useCallback(
+    (templateId: string | undefined) => setValue('template_id', templateId),
+    [setValue]
+  );
 
   // Load saved searches
   useEffect(() => {
@@ -64,8 +89,7 @@ export default function CreateProposalForm({ onProposalCreated }: CreateProposal
   const loadSavedSearches = async () => {
     setLoadingSearches(true);
     try {
-      const response = await apiClient.get('/api/v1/oracle/ai-generation/saved-searches');
-      setSavedSearches(response.data.data?.searches || []);
+      setSavedSearches(await listAiQueryHistory());
     } catch (error) {
       console.error('Error loading saved searches:', error);
       toast.error('Failed to load saved searches');
@@ -78,9 +102,9 @@ export default function CreateProposalForm({ onProposalCreated }: CreateProposal
     setLoading(true);
     
     try {
-      const response = await apiClient.post('/api/v1/oracle/proposals', data);
+      const created = await createProposal(data);
       toast.success('Proposal created successfully!');
-      onProposalCreated(response.data.data.proposal_id);
+      onProposalCreated(created.proposal_id);
     } catch (error: any) {
       console.error('Error creating proposal:', error);
       toast.error(error.detail || 'Failed to create proposal');
@@ -108,39 +132,13 @@ export default function CreateProposalForm({ onProposalCreated }: CreateProposal
         {/* Client Information */}
         <div>
           <h3 className="text-xl font-semibold text-gray-900 mb-4">Client Information</h3>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label htmlFor="client_name" className="block text-sm font-medium text-gray-700 mb-1">
-                Client Name
-              </label>
-              <input
-                type="text"
-                id="client_name"
-                {...register('client_name')}
-                placeholder="Enter client's full name"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-              {errors.client_name && (
-                <p className="mt-1 text-sm text-red-600">{errors.client_name.message}</p>
-              )}
-            </div>
 
-            <div>
-              <label htmlFor="client_dob" className="block text-sm font-medium text-gray-700 mb-1">
-                Date of Birth
-              </label>
-              <input
-                type="date"
-                id="client_dob"
-                {...register('client_dob')}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-              {errors.client_dob && (
-                <p className="mt-1 text-sm text-red-600">{errors.client_dob.message}</p>
-              )}
-            </div>
-          </div>
+          <ClientPicker value={clientId} onChange={handleClientChange} />
+          {(errors.client_id || errors.client_name || errors.client_dob) && (
+            <p className="mt-1 text-sm text-red-600">
+              {errors.client_id?.message || errors.client_name?.message || errors.client_dob?.message}
+            </p>
+          )}
         </div>
 
         {/* Client Needs */}
@@ -344,6 +342,15 @@ export default function CreateProposalForm({ onProposalCreated }: CreateProposal
           </div>
         </div>
 
+        {/* Proposal Template */}
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900 mb-4">Proposal Template</h3>
+          <p className="text-xs text-gray-600 mb-3">
+            Sets the section order, cover, disclaimers and branding of the generated proposal
+          </p>
+          <ProposalTemplatePicker value={templateId} onChange={handleTemplateChange} />
+        </div>
+
         {/* Submit Button */}
         <div className="flex justify-end">
           <button
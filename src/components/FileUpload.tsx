@@ -6,11 +6,9 @@ import {
   FileUploadProgress, 
   FileValidationError, 
   FileUploadOptions, 
-  DEFAULT_UPLOAD_OPTIONS,
-  UploadResponse,
-  ProcessingStatus 
+  DEFAULT_UPLOAD_OPTIONS
 } from '@/types/upload';
-import { apiClient } from '@/lib/api';
+import { getUploadStatus, uploadInsuranceDocuments } from '@/lib/api/oracle/admin';
 import { formatErrorForDisplay } from '@/lib/utils';
 
 // Metadata removed - backend extracts everything from PDF
@@ -133,56 +131,26 @@ export default function FileUpload({
         updateFileProgress(file, { status: 'uploading', progress: 0 });
       });
 
-      // Create FormData with all files and metadata
-      const formData = new FormData();
-
-      // Add all files under the same 'files' key (FastAPI expects List[UploadFile])
-      filesToUpload.forEach((file, index) => {
-        // console.log(`📎 Adding file ${index + 1}: ${file.name} (${file.size} bytes)`);
-        formData.append('files', file);
-      });
-
-      // Add category selection
-      formData.append('category', selectedCategory);
-
-      // Debug FormData contents
-      // console.log('📤 FormData contents:');
-      const entries = Array.from(formData.entries());
-      entries.forEach(([key, value]) => {
-        if (value instanceof File) {
-          // console.log(`  ${key}: File(${value.name}, ${value.size} bytes, ${value.type})`);
-        } else {
-          // console.log(`  ${key}: ${value}`);
-        }
-      });
-
       // Upload all files with progress tracking
-      const response = await apiClient.post<{
-        success: boolean;
-        message: string;
-        uploads: UploadResponse[];
-        failed_uploads: Array<{[key: string]: string}>;
-      }>('/api/v1/oracle/admin/upload-insurance', formData, {
-        onUploadProgress: (progressEvent) => {
-          if (progressEvent.total) {
-            const progress = Math.round((progressEvent.loaded * 100) / progressEvent.total);
-            // Update progress for all uploading files
-            filesToUpload.forEach(file => {
-              updateFileProgress(file, { progress });
-            });
-          }
-        },
+      const result = await uploadInsuranceDocuments(filesToUpload, selectedCategory, (progressEvent) => {
+        if (progressEvent.total) {
+          const progress = Math.round((progressEvent.loaded * 100) / progressEvent.total);
+          // Update progress for all uploading files
+          filesToUpload.forEach(file => {
+            updateFileProgress(file, { progress });
+          });
+        }
       });
 
-      // console.log('✅ Upload response received:', response.data);
+      // console.log('✅ Upload response received:', result);
 
-      if (!response.data.success) {
-        throw new Error(response.data.message || 'Upload failed');
+      if (!result.success) {
+        throw new Error(result.message || 'Upload failed');
       }
 
       // Handle successful uploads
-      if (response.data.uploads && response.data.uploads.length > 0) {
-        response.data.uploads.forEach((uploadResponse, index) => {
+      if (result.uploads && result.uploads.length > 0) {
+        result.uploads.forEach((uploadResponse, index) => {
           const file = filesToUpload[index];
           if (file) {
             // console.log(`✅ File ${file.name} uploaded successfully with ID: ${uploadResponse.upload_id}`);
@@ -200,8 +168,8 @@ export default function FileUpload({
       }
 
       // Handle failed uploads
-      if (response.data.failed_uploads && response.data.failed_uploads.length > 0) {
-        response.data.failed_uploads.forEach((failedUpload, index) => {
+      if (result.failed_uploads && result.failed_uploads.length > 0) {
+        result.failed_uploads.forEach((failedUpload, index) => {
           const file = filesToUpload[index];
           if (file) {
             const errorMessage = Object.values(failedUpload)[0] || 'Upload failed';
@@ -248,8 +216,7 @@ export default function FileUpload({
 
     const checkStatus = async (): Promise<void> => {
       try {
-        const response = await apiClient.get<ProcessingStatus>(`/api/v1/oracle/admin/upload-status/${uploadId}`);
-        const status = response.data;
+        const status = await getUploadStatus(uploadId);
 
         // Update progress based on processing step
         let progress = 100;
@@ -261,7 +228,8 @@ export default function FileUpload({
 
         updateFileProgress(file, { 
           progress,
-          status: status.status === 'completed' ? 'completed' : 'processing'
+          status: status.status === 'completed' ? 'completed' : 'processing',
+          savedSearchMatches: status.saved_search_matches
         });
 
         if (status.status === 'completed') {
@@ -584,6 +552,11 @@ export default function FileUpload({
                     <p className="text-sm text-green-700">
                       Document uploaded and processed successfully!
                     </p>
+                    {!!fileProgress.savedSearchMatches && (
+                      <p className="text-sm text-green-700 mt-1">
+                        Matches {fileProgress.savedSearchMatches} saved search{fileProgress.savedSearchMatches === 1 ? '' : 'es'}; the advisors who saved them are being notified.
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
@@ -3,6 +3,10 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import InsuranceSearch from './InsuranceSearch';
+import FieldSourceBadge from '@/components/oracle/proposal/FieldSourceBadge';
+import IllustrationPdfViewer from '@/components/oracle/proposal/IllustrationPdfViewer';
+import { getFieldConfidence, getFieldProvenance } from '@/lib/extraction-provenance';
+import type { FieldProvenance } from '@/types/oracle/proposal';
 
 interface ExtractedData {
   basic_info: {
@@ -38,6 +42,8 @@ interface ExtractedData {
   extraction_metadata: {
     confidence_score: number;
     extraction_notes: string;
+    // Where each field was read from in the PDF, keyed by field name
+    field_provenance?: Record<string, FieldProvenance>;
   };
 }
 
@@ -54,6 +60,9 @@ interface DatabaseMatch {
 }
 
 interface IllustrationReviewData {
+  // Both are needed to show the source PDF next to the form
+  illustration_id?: string;
+  proposal_id?: string;
   illustration_order: number;
   original_filename: string;
   file_size: number;
@@ -79,6 +88,20 @@ export default function IllustrationDataReview({
   const [selectedInsurance, setSelectedInsurance] = useState<any>(null);
   const [activeTab, setActiveTab] = useState('basic');
   const [hasChanges, setHasChanges] = useState(false);
+  // Field whose source is highlighted in the PDF
+  const [activeField, setActiveField] = useState<string | null>(null);
+
+  const fieldProvenance = illustration.extracted_data.extraction_metadata?.field_provenance;
+  const showPdf = !!(illustration.proposal_id && illustration.illustration_id);
+
+  const renderFieldSource = (field: string) => (
+    <FieldSourceBadge
+      provenance={showPdf ? getFieldProvenance(fieldProvenance, field) : null}
+      confidence={getFieldConfidence(fieldProvenance, field, illustration.extraction_confidence)}
+      active={activeField === field}
+      onShowSource={() => setActiveField(field)}
+    />
+  );
 
   // Initialize selected insurance from database match
   useEffect(() => {
@@ -212,7 +235,7 @@ export default function IllustrationDataReview({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+      <div className={`bg-white rounded-lg shadow-xl w-full ${showPdf ? 'max-w-7xl' : 'max-w-4xl'} max-h-[90vh] overflow-hidden`}>
         {/* Header */}
         <div className="border-b border-gray-200 p-6">
           <div className="flex items-center justify-between">
@@ -256,305 +279,347 @@ export default function IllustrationDataReview({
         </div>
 
         {/* Content */}
-        <div className="p-6 overflow-y-auto" style={{ maxHeight: 'calc(90vh - 200px)' }}>
+        <div className={showPdf ? 'flex' : ''}>
+          <div className="flex-1 min-w-0 p-6 overflow-y-auto" style={{ maxHeight: 'calc(90vh - 200px)' }}>
           
-          {/* Basic Info Tab */}
-          {activeTab === 'basic' && (
-            <div className="space-y-6">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Insurance Selection
-                </label>
-                <InsuranceSearch
-                  selectedInsurance={selectedInsurance}
-                  onSelect={setSelectedInsurance}
-                  fuzzyMatches={illustration.database_match.fuzzy_matches}
-                  showFuzzyMatches={true}
-                  placeholder="Search for insurance or use extracted name..."
-                />
+            {/* Basic Info Tab */}
+            {activeTab === 'basic' && (
+              <div className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Insurance Selection
+                  </label>
+                  <InsuranceSearch
+                    selectedInsurance={selectedInsurance}
+                    onSelect={setSelectedInsurance}
+                    fuzzyMatches={illustration.database_match.fuzzy_matches}
+                    showFuzzyMatches={true}
+                    placeholder="Search for insurance or use extracted name..."
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Insurance Name
+                      {renderFieldSource('insurance_name')}
+                    </label>
+                    <input
+                      type="text"
+                      value={editedData.basic_info.insurance_name || ''}
+                      onChange={(e) => handleBasicInfoChange('insurance_name', e.target.value)}
+                      onFocus={() => setActiveField('insurance_name')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Provider
+                      {renderFieldSource('insurance_provider')}
+                    </label>
+                    <input
+                      type="text"
+                      value={editedData.basic_info.insurance_provider || ''}
+                      onChange={(e) => handleBasicInfoChange('insurance_provider', e.target.value)}
+                      onFocus={() => setActiveField('insurance_provider')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Currency
+                      {renderFieldSource('currency')}
+                    </label>
+                    <select
+                      value={editedData.basic_info.currency || ''}
+                      onChange={(e) => handleBasicInfoChange('currency', e.target.value)}
+                      onFocus={() => setActiveField('currency')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Select currency</option>
+                      <option value="USD">USD</option>
+                      <option value="SGD">SGD</option>
+                      <option value="MYR">MYR</option>
+                      <option value="EUR">EUR</option>
+                      <option value="GBP">GBP</option>
+                      <option value="IDR">IDR</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Product Category
+                      {renderFieldSource('product_category')}
+                    </label>
+                    <select
+                      value={editedData.basic_info.product_category || ''}
+                      onChange={(e) => handleBasicInfoChange('product_category', e.target.value)}
+                      onFocus={() => setActiveField('product_category')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Select category</option>
+                      <option value="Life Insurance">Life Insurance</option>
+                      <option value="Investment-Linked">Investment-Linked</option>
+                      <option value="Term Life">Term Life</option>
+                      <option value="Whole Life">Whole Life</option>
+                      <option value="Medical">Medical</option>
+                      <option value="Critical Illness">Critical Illness</option>
+                    </select>
+                  </div>
+                </div>
               </div>
+            )}
 
+            {/* Financial Tab */}
+            {activeTab === 'financial' && (
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Insurance Name
+                    Death Benefit
+                    {renderFieldSource('death_benefit')}
                   </label>
                   <input
                     type="text"
-                    value={editedData.basic_info.insurance_name || ''}
-                    onChange={(e) => handleBasicInfoChange('insurance_name', e.target.value)}
+                    value={editedData.financial_data.death_benefit || ''}
+                    onChange={(e) => handleFinancialDataChange('death_benefit', e.target.value)}
+                    onFocus={() => setActiveField('death_benefit')}
+                    placeholder="e.g., 100,000"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Provider
+                    Premium per Year
+                    {renderFieldSource('premium_per_year')}
                   </label>
                   <input
                     type="text"
-                    value={editedData.basic_info.insurance_provider || ''}
-                    onChange={(e) => handleBasicInfoChange('insurance_provider', e.target.value)}
+                    value={editedData.financial_data.premium_per_year || ''}
+                    onChange={(e) => handleFinancialDataChange('premium_per_year', e.target.value)}
+                    onFocus={() => setActiveField('premium_per_year')}
+                    placeholder="e.g., 1,500"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Currency
+                    Total Premium
+                    {renderFieldSource('total_premium')}
                   </label>
-                  <select
-                    value={editedData.basic_info.currency || ''}
-                    onChange={(e) => handleBasicInfoChange('currency', e.target.value)}
+                  <input
+                    type="text"
+                    value={editedData.financial_data.total_premium || ''}
+                    onChange={(e) => handleFinancialDataChange('total_premium', e.target.value)}
+                    onFocus={() => setActiveField('total_premium')}
+                    placeholder="e.g., 30,000"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value="">Select currency</option>
-                    <option value="USD">USD</option>
-                    <option value="SGD">SGD</option>
-                    <option value="MYR">MYR</option>
-                    <option value="EUR">EUR</option>
-                    <option value="GBP">GBP</option>
-                    <option value="IDR">IDR</option>
-                  </select>
+                  />
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Product Category
+                    Payment Period
+                    {renderFieldSource('payment_period')}
                   </label>
-                  <select
-                    value={editedData.basic_info.product_category || ''}
-                    onChange={(e) => handleBasicInfoChange('product_category', e.target.value)}
+                  <input
+                    type="text"
+                    value={editedData.financial_data.payment_period || ''}
+                    onChange={(e) => handleFinancialDataChange('payment_period', e.target.value)}
+                    onFocus={() => setActiveField('payment_period')}
+                    placeholder="e.g., 20 Years"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value="">Select category</option>
-                    <option value="Life Insurance">Life Insurance</option>
-                    <option value="Investment-Linked">Investment-Linked</option>
-                    <option value="Term Life">Term Life</option>
-                    <option value="Whole Life">Whole Life</option>
-                    <option value="Medical">Medical</option>
-                    <option value="Critical Illness">Critical Illness</option>
-                  </select>
+                  />
                 </div>
-              </div>
-            </div>
-          )}
 
-          {/* Financial Tab */}
-          {activeTab === 'financial' && (
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Death Benefit
-                </label>
-                <input
-                  type="text"
-                  value={editedData.financial_data.death_benefit || ''}
-                  onChange={(e) => handleFinancialDataChange('death_benefit', e.target.value)}
-                  placeholder="e.g., 100,000"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Premium per Year
-                </label>
-                <input
-                  type="text"
-                  value={editedData.financial_data.premium_per_year || ''}
-                  onChange={(e) => handleFinancialDataChange('premium_per_year', e.target.value)}
-                  placeholder="e.g., 1,500"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Total Premium
-                </label>
-                <input
-                  type="text"
-                  value={editedData.financial_data.total_premium || ''}
-                  onChange={(e) => handleFinancialDataChange('total_premium', e.target.value)}
-                  placeholder="e.g., 30,000"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Payment Period
-                </label>
-                <input
-                  type="text"
-                  value={editedData.financial_data.payment_period || ''}
-                  onChange={(e) => handleFinancialDataChange('payment_period', e.target.value)}
-                  placeholder="e.g., 20 Years"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Coverage Term
+                    {renderFieldSource('coverage_term')}
+                  </label>
+                  <input
+                    type="text"
+                    value={editedData.financial_data.coverage_term || ''}
+                    onChange={(e) => handleFinancialDataChange('coverage_term', e.target.value)}
+                    onFocus={() => setActiveField('coverage_term')}
+                    placeholder="e.g., Lifetime, 65 Years"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
               </div>
+            )}
+
+            {/* Cash Value Tab */}
+            {activeTab === 'cash_value' && (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={editedData.cash_value_data.has_cash_value || false}
+                        onChange={(e) => handleCashValueChange('has_cash_value', e.target.checked)}
+                        className="mr-2"
+                      />
+                      <span className="text-sm font-medium text-gray-700">Has Cash Value</span>
+                    </label>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Breakeven Years
+                      {renderFieldSource('breakeven_years')}
+                    </label>
+                    <input
+                      type="text"
+                      value={editedData.cash_value_data.breakeven_years || ''}
+                      onChange={(e) => handleCashValueChange('breakeven_years', e.target.value)}
+                      onFocus={() => setActiveField('breakeven_years')}
+                      placeholder="e.g., 15"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
 
-              <div className="col-span-2">
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Coverage Term
-                </label>
-                <input
-                  type="text"
-                  value={editedData.financial_data.coverage_term || ''}
-                  onChange={(e) => handleFinancialDataChange('coverage_term', e.target.value)}
-                  placeholder="e.g., Lifetime, 65 Years"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <label className="text-sm font-medium text-gray-700">
+                      Cash Values by Age
+                    </label>
+                    <button
+                      onClick={addCashValue}
+                      className="px-3 py-1 text-sm bg-blue-100 text-blue-800 rounded hover:bg-blue-200"
+                    >
+                      Add Cash Value
+                    </button>
+                  </div>
+
+                  <div className="space-y-2">
+                    {editedData.cash_value_data.cash_values.map((item, index) => (
+                      <div key={index} className="grid grid-cols-3 gap-2">
+                        <input
+                          type="number"
+                          value={item.age}
+                          onChange={(e) => updateCashValue(index, 'age', parseInt(e.target.value) || 0)}
+                          placeholder="Age"
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                          type="text"
+                          value={item.value}
+                          onChange={(e) => updateCashValue(index, 'value', e.target.value)}
+                          placeholder="Cash value"
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                          onClick={() => removeCashValue(index)}
+                          className="px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Cash Value Tab */}
-          {activeTab === 'cash_value' && (
-            <div className="space-y-6">
+            {/* Ratings Tab */}
+            {activeTab === 'ratings' && (
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={editedData.cash_value_data.has_cash_value || false}
-                      onChange={(e) => handleCashValueChange('has_cash_value', e.target.checked)}
-                      className="mr-2"
-                    />
-                    <span className="text-sm font-medium text-gray-700">Has Cash Value</span>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    S&P Rating
+                    {renderFieldSource('snp_rating')}
                   </label>
+                  <input
+                    type="text"
+                    value={editedData.ratings.snp_rating || ''}
+                    onChange={(e) => handleRatingChange('snp_rating', e.target.value)}
+                    onFocus={() => setActiveField('snp_rating')}
+                    placeholder="e.g., A+, AA-, BBB+"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Breakeven Years
+                    Financial Strength
+                    {renderFieldSource('financial_strength')}
                   </label>
                   <input
                     type="text"
-                    value={editedData.cash_value_data.breakeven_years || ''}
-                    onChange={(e) => handleCashValueChange('breakeven_years', e.target.value)}
-                    placeholder="e.g., 15"
+                    value={editedData.ratings.financial_strength || ''}
+                    onChange={(e) => handleRatingChange('financial_strength', e.target.value)}
+                    onFocus={() => setActiveField('financial_strength')}
+                    placeholder="e.g., Excellent, Very Good"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
               </div>
+            )}
 
-              <div>
-                <div className="flex items-center justify-between mb-3">
-                  <label className="text-sm font-medium text-gray-700">
-                    Cash Values by Age
+            {/* Policy Details Tab */}
+            {activeTab === 'policy' && (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Benefits
+                    {renderFieldSource('benefits')}
                   </label>
-                  <button
-                    onClick={addCashValue}
-                    className="px-3 py-1 text-sm bg-blue-100 text-blue-800 rounded hover:bg-blue-200"
-                  >
-                    Add Cash Value
-                  </button>
+                  <textarea
+                    value={editedData.policy_details.benefits || ''}
+                    onChange={(e) => handlePolicyDetailsChange('benefits', e.target.value)}
+                    onFocus={() => setActiveField('benefits')}
+                    rows={3}
+                    placeholder="Key benefits and coverage details..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
                 </div>
 
-                <div className="space-y-2">
-                  {editedData.cash_value_data.cash_values.map((item, index) => (
-                    <div key={index} className="grid grid-cols-3 gap-2">
-                      <input
-                        type="number"
-                        value={item.age}
-                        onChange={(e) => updateCashValue(index, 'age', parseInt(e.target.value) || 0)}
-                        placeholder="Age"
-                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                      />
-                      <input
-                        type="text"
-                        value={item.value}
-                        onChange={(e) => updateCashValue(index, 'value', e.target.value)}
-                        placeholder="Cash value"
-                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                      />
-                      <button
-                        onClick={() => removeCashValue(index)}
-                        className="px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg"
-                      >
-                        Remove
-                      </button>
-                    </div>
-                  ))}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Exclusions
+                    {renderFieldSource('exclusions')}
+                  </label>
+                  <textarea
+                    value={editedData.policy_details.exclusions || ''}
+                    onChange={(e) => handlePolicyDetailsChange('exclusions', e.target.value)}
+                    onFocus={() => setActiveField('exclusions')}
+                    rows={3}
+                    placeholder="Important exclusions or limitations..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
                 </div>
-              </div>
-            </div>
-          )}
-
-          {/* Ratings Tab */}
-          {activeTab === 'ratings' && (
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  S&P Rating
-                </label>
-                <input
-                  type="text"
-                  value={editedData.ratings.snp_rating || ''}
-                  onChange={(e) => handleRatingChange('snp_rating', e.target.value)}
-                  placeholder="e.g., A+, AA-, BBB+"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Financial Strength
-                </label>
-                <input
-                  type="text"
-                  value={editedData.ratings.financial_strength || ''}
-                  onChange={(e) => handleRatingChange('financial_strength', e.target.value)}
-                  placeholder="e.g., Excellent, Very Good"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-            </div>
-          )}
 
-          {/* Policy Details Tab */}
-          {activeTab === 'policy' && (
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Benefits
-                </label>
-                <textarea
-                  value={editedData.policy_details.benefits || ''}
-                  onChange={(e) => handlePolicyDetailsChange('benefits', e.target.value)}
-                  rows={3}
-                  placeholder="Key benefits and coverage details..."
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Exclusions
-                </label>
-                <textarea
-                  value={editedData.policy_details.exclusions || ''}
-                  onChange={(e) => handlePolicyDetailsChange('exclusions', e.target.value)}
-                  rows={3}
-                  placeholder="Important exclusions or limitations..."
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Conditions
+                    {renderFieldSource('conditions')}
+                  </label>
+                  <textarea
+                    value={editedData.policy_details.conditions || ''}
+                    onChange={(e) => handlePolicyDetailsChange('conditions', e.target.value)}
+                    onFocus={() => setActiveField('conditions')}
+                    rows={3}
+                    placeholder="Key policy conditions..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
               </div>
+            )}
+          </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Conditions
-                </label>
-                <textarea
-                  value={editedData.policy_details.conditions || ''}
-                  onChange={(e) => handlePolicyDetailsChange('conditions', e.target.value)}
-                  rows={3}
-                  placeholder="Key policy conditions..."
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
+          {showPdf && (
+            <div className="w-[440px] flex-shrink-0 p-4 border-l border-gray-200" style={{ height: 'calc(90vh - 200px)' }}>
+              <IllustrationPdfViewer
+                proposalId={illustration.proposal_id as string}
+                illustrationId={illustration.illustration_id as string}
+                highlight={activeField ? getFieldProvenance(fieldProvenance, activeField) : null}
+              />
             </div>
           )}
         </div>
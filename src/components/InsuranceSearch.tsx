@@ -2,14 +2,8 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { toast } from 'react-hot-toast';
-import apiClient from '@/lib/api';
-
-interface Insurance {
-  insurance_id: string;
-  insurance_name: string;
-  provider: string;
-  category: string;
-}
+import { listInsuranceOptions } from '@/lib/api/oracle/products';
+import type { InsuranceOption as Insurance } from '@/types/oracle/insurance-product';
 
 interface InsuranceSearchProps {
   selectedInsurance?: Insurance | null;
@@ -89,8 +83,7 @@ export default function InsuranceSearch({
   const loadAllInsurances = async () => {
     try {
       setLoading(true);
-      const response = await apiClient.get('/api/v1/oracle/insurance');
-      setAllInsurances(response.data.data || []);
+      setAllInsurances(await listInsuranceOptions());
     } catch (error: any) {
       console.error('Error loading insurances:', error);
       toast.error('Failed to load insurance options');
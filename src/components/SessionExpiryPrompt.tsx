@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { formatErrorForDisplay } from '@/lib/utils';
+
+/**
+ * Session expiry warning and in-place sign-in.
+ * Rendered over the current page so unsaved work is not lost while re-authenticating.
+ */
+export default function SessionExpiryPrompt() {
+  const {
+    user,
+    sessionExpiresInMinutes,
+    sessionExpired,
+    requestOTP,
+    reauthenticate,
+    dismissSessionWarning,
+    logout,
+  } = useAuth();
+  const [codeSent, setCodeSent] = useState(false);
+  const [otpCode, setOtpCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user || (!sessionExpired && sessionExpiresInMinutes === null)) {
+    return null;
+  }
+
+  const handleSendCode = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await requestOTP(user.email);
+      setCodeSent(true);
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Failed to send verification code'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await reauthenticate(otpCode);
+      setCodeSent(false);
+      setOtpCode('');
+    } catch (err) {
+      setError(formatErrorForDisplay(err, 'Invalid verification code'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl">
+        <h2 className="text-lg font-semibold text-gray-900">
+          {sessionExpired ? 'Your session has expired' : `Your session expires in ${sessionExpiresInMinutes} minute${sessionExpiresInMinutes === 1 ? '' : 's'}`}
+        </h2>
+        <p className="mt-2 text-sm text-gray-600">
+          Sign in again to keep working. You will stay on this page and any unsaved changes are kept.
+        </p>
+
+        {error && (
+          <div className="mt-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {codeSent ? (
+          <form onSubmit={handleVerify} className="mt-4 space-y-4">
+            <p className="text-sm text-gray-600">
+              Enter the 6-digit code sent to <span className="font-medium text-gray-900">{user.email}</span>
+            </p>
+            <input
+              type="text"
+              value={otpCode}
+              onChange={(e) => setOtpCode(e.target.value.replace(/\D/g, ''))}
+              maxLength={6}
+              autoFocus
+              className="input-field text-center tracking-widest text-lg"
+              placeholder="000000"
+            />
+            <button
+              type="submit"
+              disabled={isLoading || otpCode.length !== 6}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? <LoadingSpinner size="sm" /> : 'Verify and Continue'}
+            </button>
+          </form>
+        ) : (
+          <div className="mt-4 space-y-2">
+            <button
+              onClick={handleSendCode}
+              disabled={isLoading}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? <LoadingSpinner size="sm" /> : 'Send Verification Code'}
+            </button>
+            {sessionExpired ? (
+              <button
+                onClick={logout}
+                className="w-full py-2 px-4 text-sm font-medium text-gray-600 hover:text-gray-900"
+              >
+                Sign out
+              </button>
+            ) : (
+              <button
+                onClick={dismissSessionWarning}
+                className="w-full py-2 px-4 text-sm font-medium text-gray-600 hover:text-gray-900"
+              >
+                Remind me later
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
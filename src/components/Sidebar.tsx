@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNotifications } from '@/contexts/NotificationContext';
+import { useSavedSearchAlerts } from '@/hooks/saved-search-alerts';
 import { UserRole } from '@/types/auth';
 
 interface SidebarItem {
@@ -23,6 +24,7 @@ export default function Sidebar({ children }: SidebarProps) {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { user, logout } = useAuth();
   const { unreadCount } = useNotifications();
+  useSavedSearchAlerts();
   const router = useRouter();
   const pathname = usePathname();
 
@@ -3,13 +3,7 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { XMarkIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
-
-export interface CategoryOption {
-  id: string;
-  name: string;
-  description: string;
-  examples: string;
-}
+import type { CategoryOption } from '@/types/oracle/guided-question';
 
 interface CategorySelectorProps {
   isOpen: boolean;
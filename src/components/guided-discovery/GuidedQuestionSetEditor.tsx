@@ -0,0 +1,509 @@
+/**
+ * Guided Question Set Editor Component
+ * Modal for editing a company's guided questions for one category: wording, options, branching and product filters
+ */
+
+import { useState } from 'react';
+import type { Question, QuestionCondition } from '@/config/guidedQuestions';
+import { getQuestionSetError, parseAnswerMatch } from '@/lib/guided-questions';
+
+interface GuidedQuestionSetEditorProps {
+  categoryName: string;
+  initialQuestions: Question[];
+  saving: boolean;
+  onSave: (questions: Question[]) => void;
+  onClose: () => void;
+}
+
+// Product filters are edited as JSON, so a half-typed one is kept as text until saving
+interface DraftOption {
+  value: string;
+  label: string;
+  description: string;
+  matchText: string;
+}
+
+interface DraftQuestion extends Omit<Question, 'options'> {
+  options: DraftOption[];
+}
+
+const QUESTION_TYPE_LABELS: Record<Question['type'], string> = {
+  single: 'Single choice',
+  multiple: 'Multiple choice',
+  input: 'Free text',
+};
+
+const MATCH_PLACEHOLDER = `{
+  "need": "Pays out at early stages",
+  "filter": { "type": "has_benefit", "fields": ["ci_early_minor_stage"] }
+}`;
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+function toDraft(questions: Question[]): DraftQuestion[] {
+  return questions.map((question) => ({
+    ...question,
+    options: (question.options || []).map((option) => ({
+      value: option.value,
+      label: option.label,
+      description: option.description || '',
+      matchText: option.match ? JSON.stringify(option.match, null, 2) : '',
+    })),
+  }));
+}
+
+function fromDraft(draft: DraftQuestion[]): { questions: Question[]; error?: string } {
+  const questions: Question[] = [];
+  for (let i = 0; i < draft.length; i++) {
+    const { options, ...rest } = draft[i];
+    const question: Question = {
+      ...rest,
+      helpText: rest.helpText?.trim() || undefined,
+      placeholder: rest.type === 'input' ? rest.placeholder?.trim() || undefined : undefined,
+      showIf: rest.showIf && rest.showIf.length > 0 ? rest.showIf : undefined,
+    };
+    if (rest.type !== 'input') {
+      question.options = [];
+      for (let j = 0; j < options.length; j++) {
+        const option = options[j];
+        const parsed = parseAnswerMatch(option.matchText);
+        if (parsed.error) {
+          return { questions, error: `Question ${i + 1}: the product filter on "${option.label}" ${parsed.error}` };
+        }
+        question.options.push({
+          value: option.value.trim(),
+          label: option.label.trim(),
+          description: option.description.trim() || undefined,
+          match: parsed.match,
+        });
+      }
+    }
+    questions.push(question);
+  }
+  return { questions };
+}
+
+function ConditionEditor({
+  condition,
+  sources,
+  onChange,
+  onRemove,
+}: {
+  condition: QuestionCondition;
+  // Earlier choice questions the condition can depend on
+  sources: DraftQuestion[];
+  onChange: (condition: QuestionCondition) => void;
+  onRemove: () => void;
+}) {
+  const source = sources.find((question) => question.id === condition.questionId);
+  const excludes = !!condition.notIn;
+  const selected = (excludes ? condition.notIn : condition.in) || [];
+
+  const setValues = (values: string[], exclude: boolean) => {
+    onChange(exclude ? { questionId: condition.questionId, notIn: values } : { questionId: condition.questionId, in: values });
+  };
+
+  const toggle = (value: string) => {
+    setValues(selected.indexOf(value) === -1 ? selected.concat(value) : selected.filter((item) => item !== value), excludes);
+  };
+
+  return (
+    <div className="p-3 border border-gray-200 rounded-lg space-y-2">
+      <div className="flex items-center space-x-2">
+        <select
+          value={condition.questionId}
+          onChange={(e) => onChange({ questionId: e.target.value, in: [] })}
+          className={inputClassName}
+        >
+          {!source && <option value={condition.questionId}>{condition.questionId} (not an earlier question)</option>}
+          {sources.map((question) => (
+            <option key={question.id} value={question.id}>
+              {question.question || question.id}
+            </option>
+          ))}
+        </select>
+        <select
+          value={excludes ? 'not_in' : 'in'}
+          onChange={(e) => setValues(selected, e.target.value === 'not_in')}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        >
+          <option value="in">is one of</option>
+          <option value="not_in">is none of</option>
+        </select>
+        <button type="button" onClick={onRemove} className="px-2 py-1 text-xs text-red-600 hover:text-red-800">
+          Remove
+        </button>
+      </div>
+      {source && (
+        <div className="flex flex-wrap gap-2">
+          {source.options.map((option) => {
+            const isSelected = selected.indexOf(option.value) !== -1;
+            return (
+              <button
+                key={option.value}
+                type="button"
+                aria-pressed={isSelected}
+                onClick={() => toggle(option.value)}
+                className={`px-2.5 py-1 rounded-full border text-xs transition-colors ${
+                  isSelected
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                }`}
+              >
+                {option.label || option.value}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function GuidedQuestionSetEditor({
+  categoryName,
+  initialQuestions,
+  saving,
+  onSave,
+  onClose,
+}: GuidedQuestionSetEditorProps) {
+  const [questions, setQuestions] = useState<DraftQuestion[]>(() => toDraft(initialQuestions));
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateQuestion = (index: number, changes: Partial<DraftQuestion>) => {
+    setQuestions((current) => current.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const updateOption = (index: number, optionIndex: number, changes: Partial<DraftOption>) => {
+    updateQuestion(index, {
+      options: questions[index].options.map((option, i) => (i === optionIndex ? { ...option, ...changes } : option)),
+    });
+  };
+
+  const updateConditions = (index: number, showIf: QuestionCondition[]) => {
+    updateQuestion(index, { showIf });
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const next = [...questions];
+    const [question] = next.splice(index, 1);
+    next.splice(index + offset, 0, question);
+    setQuestions(next);
+    if (openIndex === index) setOpenIndex(index + offset);
+    else if (openIndex === index + offset) setOpenIndex(index);
+  };
+
+  const removeQuestion = (index: number) => {
+    setQuestions(questions.filter((_, i) => i !== index));
+    setOpenIndex(null);
+  };
+
+  const addQuestion = () => {
+    let number = questions.length + 1;
+    while (questions.some((question) => question.id === `q${number}_custom`)) number++;
+    setQuestions(
+      questions.concat({
+        id: `q${number}_custom`,
+        question: '',
+        type: 'single',
+        required: true,
+        options: [
+          { value: '', label: '', description: '', matchText: '' },
+          { value: '', label: '', description: '', matchText: '' },
+        ],
+      })
+    );
+    setOpenIndex(questions.length);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const draft = fromDraft(questions);
+    const validationError = draft.error || getQuestionSetError(draft.questions);
+    setError(validationError);
+    if (!validationError) {
+      onSave(draft.questions);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">{categoryName} Questions</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {questions.map((question, index) => {
+            const isOpen = openIndex === index;
+            const sources = questions.slice(0, index).filter((earlier) => earlier.type !== 'input');
+            const conditions = question.showIf || [];
+            return (
+              <div key={index} className="border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between p-3">
+                  <button
+                    type="button"
+                    onClick={() => setOpenIndex(isOpen ? null : index)}
+                    className="flex-1 text-left min-w-0"
+                    aria-expanded={isOpen}
+                  >
+                    <span className="text-sm font-medium text-gray-900">
+                      {index + 1}. {question.question || 'New question'}
+                    </span>
+                    <p className="text-xs text-gray-500">
+                      {QUESTION_TYPE_LABELS[question.type]}
+                      {!question.required && ' · Optional'}
+                      {conditions.length > 0 && ' · Asked only after some answers'}
+                    </p>
+                  </button>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => moveQuestion(index, -1)}
+                      disabled={index === 0}
+                      className="px-2 py-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      aria-label={`Move question ${index + 1} up`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveQuestion(index, 1)}
+                      disabled={index === questions.length - 1}
+                      className="px-2 py-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      aria-label={`Move question ${index + 1} down`}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeQuestion(index)}
+                      className="px-2 py-1 text-xs text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+
+                {isOpen && (
+                  <div className="p-4 border-t border-gray-200 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Question</label>
+                        <input
+                          type="text"
+                          value={question.question}
+                          onChange={(e) => updateQuestion(index, { question: e.target.value })}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Id</label>
+                        <input
+                          type="text"
+                          value={question.id}
+                          onChange={(e) => updateQuestion(index, { id: e.target.value.trim() })}
+                          className={`${inputClassName} font-mono`}
+                        />
+                      </div>
+                      <div className="md:col-span-3">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Help text</label>
+                        <input
+                          type="text"
+                          value={question.helpText || ''}
+                          onChange={(e) => updateQuestion(index, { helpText: e.target.value })}
+                          placeholder="Optional"
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Answer type</label>
+                        <select
+                          value={question.type}
+                          onChange={(e) => updateQuestion(index, { type: e.target.value as Question['type'] })}
+                          className={inputClassName}
+                        >
+                          {(['single', 'multiple', 'input'] as Question['type'][]).map((type) => (
+                            <option key={type} value={type}>
+                              {QUESTION_TYPE_LABELS[type]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {question.type === 'input' && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Placeholder</label>
+                          <input
+                            type="text"
+                            value={question.placeholder || ''}
+                            onChange={(e) => updateQuestion(index, { placeholder: e.target.value })}
+                            className={inputClassName}
+                          />
+                        </div>
+                      )}
+                      <label className="flex items-center space-x-2 text-sm text-gray-700 self-end pb-2">
+                        <input
+                          type="checkbox"
+                          checked={question.required}
+                          onChange={(e) => updateQuestion(index, { required: e.target.checked })}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                        <span>Required</span>
+                      </label>
+                    </div>
+
+                    {/* Options */}
+                    {question.type !== 'input' && (
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <h4 className="text-sm font-semibold text-gray-900">Options</h4>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateQuestion(index, {
+                                options: question.options.concat({ value: '', label: '', description: '', matchText: '' }),
+                              })
+                            }
+                            className="text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            + Add option
+                          </button>
+                        </div>
+                        <div className="space-y-3">
+                          {question.options.map((option, optionIndex) => (
+                            <div key={optionIndex} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                              <div className="flex items-center space-x-2">
+                                <input
+                                  type="text"
+                                  value={option.label}
+                                  onChange={(e) => updateOption(index, optionIndex, { label: e.target.value })}
+                                  placeholder="Label"
+                                  className={inputClassName}
+                                />
+                                <input
+                                  type="text"
+                                  value={option.value}
+                                  onChange={(e) => updateOption(index, optionIndex, { value: e.target.value.trim() })}
+                                  placeholder="value"
+                                  className={`${inputClassName} font-mono`}
+                                />
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    updateQuestion(index, {
+                                      options: question.options.filter((_, i) => i !== optionIndex),
+                                    })
+                                  }
+                                  className="px-2 py-1 text-xs text-red-600 hover:text-red-800"
+                                >
+                                  Remove
+                                </button>
+                              </div>
+                              <input
+                                type="text"
+                                value={option.description}
+                                onChange={(e) => updateOption(index, optionIndex, { description: e.target.value })}
+                                placeholder="Description (optional)"
+                                className={inputClassName}
+                              />
+                              <textarea
+                                value={option.matchText}
+                                onChange={(e) => updateOption(index, optionIndex, { matchText: e.target.value })}
+                                rows={option.matchText ? 5 : 2}
+                                placeholder={`Product filter (optional), e.g.\n${MATCH_PLACEHOLDER}`}
+                                className={`${inputClassName} font-mono text-xs`}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Branching */}
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-sm font-semibold text-gray-900">Ask only when</h4>
+                        <button
+                          type="button"
+                          onClick={() => updateConditions(index, conditions.concat({ questionId: sources[0].id, in: [] }))}
+                          disabled={sources.length === 0}
+                          className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          + Add condition
+                        </button>
+                      </div>
+                      {conditions.length === 0 ? (
+                        <p className="text-xs text-gray-500">
+                          {sources.length === 0
+                            ? 'Only questions after a choice question can depend on its answer.'
+                            : 'Always asked.'}
+                        </p>
+                      ) : (
+                        <div className="space-y-2">
+                          {conditions.map((condition, conditionIndex) => (
+                            <ConditionEditor
+                              key={conditionIndex}
+                              condition={condition}
+                              sources={sources}
+                              onChange={(next) =>
+                                updateConditions(
+                                  index,
+                                  conditions.map((item, i) => (i === conditionIndex ? next : item))
+                                )
+                              }
+                              onRemove={() =>
+                                updateConditions(
+                                  index,
+                                  conditions.filter((_, i) => i !== conditionIndex)
+                                )
+                              }
+                            />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={addQuestion}
+            className="w-full py-2 text-sm border border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-400 hover:text-blue-700"
+          >
+            + Add question
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between p-6 border-t border-gray-200">
+          <p className="text-sm text-red-600">{error}</p>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Questions'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -3,12 +3,10 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { XMarkIcon, CheckIcon, ChevronDownIcon, ChevronUpIcon, PencilIcon } from '@heroicons/react/24/outline';
-import { Question, getQuestionsForCategory } from '@/config/guidedQuestions';
-
-export interface GuidedParameters {
-  category: string;
-  [key: string]: string | string[] | undefined;
-}
+import { Question } from '@/config/guidedQuestions';
+import { useGuidedQuestions } from '@/hooks/oracle';
+import { getVisibleQuestions, pruneHiddenAnswers } from '@/lib/guided-questions';
+import type { GuidedParameters } from '@/types/oracle/guided-question';
 
 interface GuidedQuestionnaireProps {
   isOpen: boolean;
@@ -27,7 +25,8 @@ export default function GuidedQuestionnaire({
   onComplete,
   preFilledAnswers = {}
 }: GuidedQuestionnaireProps) {
-  const questions = getQuestionsForCategory(categoryId);
+  // The company's version of the category if its admins edited one
+  const { questions } = useGuidedQuestions(categoryId);
   const [answers, setAnswers] = useState<Record<string, string | string[]>>({});
   const [showPreFilled, setShowPreFilled] = useState(false);
   const [editingPreFilled, setEditingPreFilled] = useState<Set<string>>(new Set());
@@ -39,15 +38,21 @@ export default function GuidedQuestionnaire({
     }
   }, [isOpen, preFilledAnswers]);
 
+  // Questions an earlier answer rules out are skipped
+  const visibleQuestions = useMemo(() =>
+    getVisibleQuestions(questions, answers),
+    [questions, answers]
+  );
+
   // Separate questions into pre-filled and unanswered
   const preFilledQuestions = useMemo(() =>
-    questions.filter(q => preFilledAnswers && preFilledAnswers[q.id] !== undefined),
-    [questions, preFilledAnswers]
+    visibleQuestions.filter(q => preFilledAnswers && preFilledAnswers[q.id] !== undefined),
+    [visibleQuestions, preFilledAnswers]
   );
 
   const unansweredQuestions = useMemo(() =>
-    questions.filter(q => !preFilledAnswers || preFilledAnswers[q.id] === undefined),
-    [questions, preFilledAnswers]
+    visibleQuestions.filter(q => !preFilledAnswers || preFilledAnswers[q.id] === undefined),
+    [visibleQuestions, preFilledAnswers]
   );
 
   // Compute if all required UNANSWERED questions are answered
@@ -64,9 +69,10 @@ export default function GuidedQuestionnaire({
   };
 
   const handleComplete = () => {
+    // Answers to questions that were skipped after all don't go with the rest
     const parameters: GuidedParameters = {
       category: categoryId,
-      ...answers
+      ...pruneHiddenAnswers(questions, answers)
     };
     onComplete(parameters);
   };
@@ -350,7 +356,7 @@ export default function GuidedQuestionnaire({
                     </>
                   ) : (
                     <>
-                      Please answer {questions.length} question{questions.length > 1 ? 's' : ''} to help us find the right products for you.
+                      Please answer {visibleQuestions.length} question{visibleQuestions.length > 1 ? 's' : ''} to help us find the right products for you.
                     </>
                   )}
                 </p>
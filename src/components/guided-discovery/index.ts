@@ -1,5 +1,3 @@
 export { default as CategorySelector } from './CategorySelector';
-export type { CategoryOption } from './CategorySelector';
 
 export { default as GuidedQuestionnaire } from './GuidedQuestionnaire';
-export type { GuidedParameters } from './GuidedQuestionnaire';
@@ -1,104 +1,15 @@
 'use client';
 
-import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { useGamification, type GamificationStats } from '@/contexts/GamificationContext';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface Badge {
-  badge_id: string;
-  name: string;
-  description: string;
-  icon: string;
-  rarity: string;
-  category: string;
-  unlocked_at: string;
-}
+import { useGamificationStats, useRecentBadges } from '@/hooks/meeting-tracker';
 
 /**
  * GamificationSidebarWidget Component
  * Compact version for sidebar - shows progress with minimal space
  */
 export default function GamificationSidebarWidget() {
-  const [stats, setStats] = useState<GamificationStats | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [topBadges, setTopBadges] = useState<Badge[]>([]);
-  const { refreshTrigger, latestStats } = useGamification();
-
-  useEffect(() => {
-    // console.log('[GamificationSidebarWidget] useEffect triggered. refreshTrigger:', refreshTrigger, 'latestStats:', latestStats);
-    // If we have latestStats from context, use them immediately (no API call)
-    if (latestStats) {
-      // console.log('[GamificationSidebarWidget] Using latestStats from context:', latestStats);
-      setStats(latestStats);
-      setLoading(false);
-    } else {
-      // console.log('[GamificationSidebarWidget] No latestStats, fetching from API');
-      // Otherwise fetch from API
-      fetchGamificationStats();
-    }
-
-    // Fetch top 3 badges
-    fetchTopBadges();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [refreshTrigger]); // Only depend on refreshTrigger to avoid infinite loops
-
-  const fetchGamificationStats = async () => {
-    try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        setLoading(false);
-        return;
-      }
-
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const response = await fetch(`${API_BASE_URL}/api/v1/gamification/stats`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch gamification stats');
-      }
-
-      const data = await response.json();
-      if (data.success && data.data) {
-        setStats(data.data);
-      }
-    } catch (err) {
-      console.error('Error fetching gamification stats:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchTopBadges = async () => {
-    try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const response = await fetch(`${API_BASE_URL}/api/v1/gamification/badges?limit=3`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setTopBadges(data.data || []);
-      }
-    } catch (err) {
-      console.error('Error fetching top badges:', err);
-    }
-  };
+  const { data: stats, isLoading: loading } = useGamificationStats();
+  const { data: topBadges = [] } = useRecentBadges(3);
 
   // Calculate progress percentages
   const lifetimeProgress = stats
@@ -1,11 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { useGamification, type GamificationStats } from '@/contexts/GamificationContext';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+import { useGamificationStats } from '@/hooks/meeting-tracker';
 
 /**
  * GamificationWidget Component
@@ -13,61 +9,7 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
  * Shows both lifetime level and annual tier with progress bars
  */
 export default function GamificationWidget() {
-  const [stats, setStats] = useState<GamificationStats | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const { refreshTrigger, latestStats } = useGamification();
-
-  useEffect(() => {
-    // console.log('[GamificationWidget] useEffect triggered. refreshTrigger:', refreshTrigger, 'latestStats:', latestStats);
-    // If we have latestStats from context, use them immediately (no API call)
-    if (latestStats) {
-      // console.log('[GamificationWidget] Using latestStats from context:', latestStats);
-      setStats(latestStats);
-      setLoading(false);
-    } else {
-      // console.log('[GamificationWidget] No latestStats, fetching from API');
-      // Otherwise fetch from API
-      fetchGamificationStats();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [refreshTrigger]); // Only depend on refreshTrigger to avoid infinite loops
-
-  const fetchGamificationStats = async () => {
-    try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        setError('Not authenticated');
-        setLoading(false);
-        return;
-      }
-
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const response = await fetch(`${API_BASE_URL}/api/v1/gamification/stats`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch gamification stats');
-      }
-
-      const data = await response.json();
-      if (data.success && data.data) {
-        setStats(data.data);
-      } else {
-        setError('Invalid response format');
-      }
-    } catch (err) {
-      console.error('Error fetching gamification stats:', err);
-      setError(err instanceof Error ? err.message : 'Unknown error');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: stats, isLoading: loading, error } = useGamificationStats();
 
   // Calculate progress percentages
   const lifetimeProgress = stats
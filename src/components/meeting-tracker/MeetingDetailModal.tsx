@@ -1,9 +1,8 @@
 'use client';
 
 import { useState, useEffect, useCallback, memo } from 'react';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+import { cancelMeeting, rescheduleMeeting, scheduleFollowUp } from '@/lib/api/meeting-tracker/meetings';
+import { formatErrorForDisplay } from '@/lib/utils';
 
 // Type definitions
 export interface MeetingForModal {
@@ -147,30 +146,11 @@ export const MeetingDetailModal = memo(function MeetingDetailModal({
     setErrorMessage(null);
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) throw new Error('Not authenticated');
-      const { access_token } = JSON.parse(authTokens);
-
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/meeting-tracker/meetings/${meeting.id}/reschedule`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${access_token}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            new_date: rescheduleDate,
-            new_start_time: rescheduleStartTime,
-            new_end_time: rescheduleEndTime
-          })
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || 'Failed to reschedule meeting');
-      }
+      await rescheduleMeeting(meeting.id, {
+        new_date: rescheduleDate,
+        new_start_time: rescheduleStartTime,
+        new_end_time: rescheduleEndTime
+      });
 
       setSuccessMessage('Meeting rescheduled successfully!');
       setShowReschedule(false);
@@ -178,8 +158,8 @@ export const MeetingDetailModal = memo(function MeetingDetailModal({
         setSuccessMessage(null);
         onRefresh();
       }, 1500);
-    } catch (error: any) {
-      setErrorMessage(error.message);
+    } catch (error) {
+      setErrorMessage(formatErrorForDisplay(error, 'Failed to reschedule meeting'));
     } finally {
       setLoading(false);
     }
@@ -194,33 +174,15 @@ export const MeetingDetailModal = memo(function MeetingDetailModal({
     setErrorMessage(null);
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) throw new Error('Not authenticated');
-      const { access_token } = JSON.parse(authTokens);
-
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/meeting-tracker/meetings/${meeting.id}/cancel`,
-        {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${access_token}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || 'Failed to cancel meeting');
-      }
+      await cancelMeeting(meeting.id);
 
       setSuccessMessage('Meeting cancelled successfully!');
       setTimeout(() => {
         onClose();
         onRefresh();
       }, 1000);
-    } catch (error: any) {
-      setErrorMessage(error.message);
+    } catch (error) {
+      setErrorMessage(formatErrorForDisplay(error, 'Failed to cancel meeting'));
     } finally {
       setLoading(false);
     }
@@ -236,31 +198,12 @@ export const MeetingDetailModal = memo(function MeetingDetailModal({
     setErrorMessage(null);
 
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) throw new Error('Not authenticated');
-      const { access_token } = JSON.parse(authTokens);
-
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/meeting-tracker/meetings/${meeting.id}/schedule-followup`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${access_token}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            follow_up_date: followUpDate,
-            follow_up_start_time: followUpStartTime,
-            follow_up_end_time: followUpEndTime,
-            follow_up_notes: followUpNotes || undefined
-          })
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || 'Failed to schedule follow-up');
-      }
+      await scheduleFollowUp(meeting.id, {
+        follow_up_date: followUpDate,
+        follow_up_start_time: followUpStartTime,
+        follow_up_end_time: followUpEndTime,
+        follow_up_notes: followUpNotes || undefined
+      });
 
       setSuccessMessage('Follow-up meeting scheduled successfully!');
       setShowFollowUp(false);
@@ -269,8 +212,8 @@ export const MeetingDetailModal = memo(function MeetingDetailModal({
         onClose();
         onRefresh();
       }, 1500);
-    } catch (error: any) {
-      setErrorMessage(error.message);
+    } catch (error) {
+      setErrorMessage(formatErrorForDisplay(error, 'Failed to schedule follow-up'));
     } finally {
       setLoading(false);
     }
@@ -7,8 +7,10 @@ import MeetingForm, { MeetingFormData } from './MeetingForm';
 import MultiTaskForm from './MultiTaskForm';
 import { TaskFormFieldsData } from './TaskFormFields';
 import { subDays, addDays } from 'date-fns';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+import { createMeeting, listMeetings } from '@/lib/api/meeting-tracker/meetings';
+import { createTasksBulk } from '@/lib/api/meeting-tracker/tasks';
+import { formatErrorForDisplay } from '@/lib/utils';
+import { useHierarchyMe, useInvalidateMeetingData } from '@/hooks/meeting-tracker';
 
 // Meeting interface for dropdown
 interface MeetingOption {
@@ -36,8 +38,6 @@ type ModalView = 'select' | 'meeting-form' | 'task-form';
 export default function QuickCreateModal({ isOpen, onClose }: QuickCreateModalProps) {
   const { user } = useAuth();
   const [selectedUserId, setSelectedUserId] = useState<string>('');
-  const [isLeader, setIsLeader] = useState(false);
-  const [checkingLeaderStatus, setCheckingLeaderStatus] = useState(true);
   const [currentView, setCurrentView] = useState<ModalView>('select');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -66,32 +66,9 @@ export default function QuickCreateModal({ isOpen, onClose }: QuickCreateModalPr
   }, [user]);
 
   // Check if user is a leader
-  useEffect(() => {
-    if (!isOpen) return;
-
-    const checkLeaderStatus = async () => {
-      try {
-        const authTokens = localStorage.getItem('auth_tokens');
-        if (!authTokens) return;
-        const { access_token: token } = JSON.parse(authTokens);
-
-        const response = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/hierarchy/me`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          setIsLeader(data.is_leader || false);
-        }
-      } catch (error) {
-        console.error('Failed to check leader status:', error);
-      } finally {
-        setCheckingLeaderStatus(false);
-      }
-    };
-
-    checkLeaderStatus();
-  }, [isOpen]);
+  const { data: hierarchy, isLoading: checkingLeaderStatus } = useHierarchyMe(isOpen);
+  const isLeader = hierarchy?.is_leader || false;
+  const invalidateMeetingData = useInvalidateMeetingData();
 
   // Prevent body scroll when modal is open
   useEffect(() => {
@@ -125,32 +102,23 @@ export default function QuickCreateModal({ isOpen, onClose }: QuickCreateModalPr
   const fetchMeetingsForUser = async (userId: string) => {
     setLoadingMeetings(true);
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
       // Calculate date range: last 30 days only (no future meetings since they can't have reports yet)
       const now = new Date();
       const dateFrom = subDays(now, 30).toISOString();
       const dateTo = now.toISOString();
 
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/meeting-tracker/meetings?user_id=${userId}&date_from=${dateFrom}&date_to=${dateTo}&status=completed`,
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        // Sort by start_time descending (most recent first)
-        const sortedMeetings = (data.meetings || []).sort((a: MeetingOption, b: MeetingOption) => {
-          return new Date(b.start_time).getTime() - new Date(a.start_time).getTime();
-        });
-        setMeetings(sortedMeetings);
-      }
+      const data = await listMeetings({
+        user_id: userId,
+        date_from: dateFrom,
+        date_to: dateTo,
+        status: 'completed',
+      });
+
+      // Sort by start_time descending (most recent first)
+      const sortedMeetings = (data.meetings || []).sort((a: MeetingOption, b: MeetingOption) => {
+        return new Date(b.start_time).getTime() - new Date(a.start_time).getTime();
+      });
+      setMeetings(sortedMeetings);
     } catch (error) {
       console.error('Failed to fetch meetings:', error);
       setMeetings([]);
@@ -162,50 +130,30 @@ export default function QuickCreateModal({ isOpen, onClose }: QuickCreateModalPr
   const handleCreateMeeting = async (meetingData: MeetingFormData) => {
     setIsSubmitting(true);
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        throw new Error('Not authenticated');
-      }
-      const { access_token: token } = JSON.parse(authTokens);
-
       // Combine date + time into ISO format
       const startTime = new Date(`${meetingData.date}T${meetingData.start_time}`).toISOString();
       const endTime = new Date(`${meetingData.date}T${meetingData.end_time}`).toISOString();
 
-      const response = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/meetings`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          title: meetingData.title,
-          category: meetingData.category,
-          start_time: startTime,
-          end_time: endTime,
-          description: meetingData.description || null,
-          target_user_id: selectedUserId !== user?.id ? selectedUserId : null,
-          sync_to_calendar: true, // Enable Google Calendar sync by default
-        }),
+      const result = await createMeeting({
+        title: meetingData.title,
+        category: meetingData.category,
+        start_time: startTime,
+        end_time: endTime,
+        description: meetingData.description || null,
+        target_user_id: selectedUserId !== user?.id ? selectedUserId : null,
+        sync_to_calendar: true, // Enable Google Calendar sync by default
       });
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || 'Failed to create meeting');
-      }
-
-      const result = await response.json();
-
       // Success! Close modal and show success message
       const forWhom = selectedUserId === user?.id ? 'yourself' : 'your team member';
       alert(`Meeting "${result.meeting.title}" created successfully for ${forWhom} and synced to Google Calendar!`);
       onClose();
 
-      // Refresh the page to show the new meeting
-      window.location.reload();
+      // Refresh meeting lists to show the new meeting
+      invalidateMeetingData();
     } catch (error) {
       console.error('Failed to create meeting:', error);
-      alert(error instanceof Error ? error.message : 'Failed to create meeting. Please try again.');
+      alert(formatErrorForDisplay(error, 'Failed to create meeting. Please try again.'));
     } finally {
       setIsSubmitting(false);
     }
@@ -214,38 +162,18 @@ export default function QuickCreateModal({ isOpen, onClose }: QuickCreateModalPr
   const handleCreateTask = async (tasks: TaskFormFieldsData[]) => {
     setIsSubmitting(true);
     try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        throw new Error('Not authenticated');
-      }
-      const { access_token: token } = JSON.parse(authTokens);
-
       // Phase 5: Use bulk endpoint for creating multiple tasks in one request
-      const response = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/tasks/bulk`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          meeting_id: selectedMeetingId,
-          target_user_id: selectedUserId !== user?.id ? selectedUserId : null,
-          tasks: tasks.map(task => ({
-            task_description: task.task_description,
-            priority: task.priority,
-            due_date: task.due_date,
-            assigned_to: task.assigned_to || null,
-          })),
-        }),
+      const result = await createTasksBulk({
+        meeting_id: selectedMeetingId,
+        target_user_id: selectedUserId !== user?.id ? selectedUserId : null,
+        tasks: tasks.map(task => ({
+          task_description: task.task_description,
+          priority: task.priority,
+          due_date: task.due_date,
+          assigned_to: task.assigned_to || null,
+        })),
       });
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || 'Failed to create tasks');
-      }
-
-      const result = await response.json();
-
       // Success! Close modal and show success message
       const forWhom = selectedUserId === user?.id ? 'yourself' : 'your team member';
       const taskCount = result.statistics?.total_created || tasks.length;
@@ -253,11 +181,11 @@ export default function QuickCreateModal({ isOpen, onClose }: QuickCreateModalPr
       alert(`${taskCount} ${taskWord} created successfully for ${forWhom}!`);
       onClose();
 
-      // Refresh the page to show the new tasks
-      window.location.reload();
+      // Refresh task lists to show the new tasks
+      invalidateMeetingData();
     } catch (error) {
       console.error('Failed to create tasks:', error);
-      alert(error instanceof Error ? error.message : 'Failed to create tasks. Please try again.');
+      alert(formatErrorForDisplay(error, 'Failed to create tasks. Please try again.'));
     } finally {
       setIsSubmitting(false);
     }
@@ -1,25 +1,21 @@
 'use client';
 
-import { useState, ReactNode, useEffect } from 'react';
+import { useState, ReactNode } from 'react';
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import GamificationSidebarWidget from './GamificationSidebarWidget';
+import { useHierarchyMe } from '@/hooks/meeting-tracker';
 
 interface SidebarProps {
   children: ReactNode;
 }
 
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
 export default function MeetingTrackerSidebar({ children }: SidebarProps) {
   const [isOpen, setIsOpen] = useState(false);
   const pathname = usePathname();
   const router = useRouter();
   const { user, logout } = useAuth();
-  const [isLeader, setIsLeader] = useState(false);
-  const [subordinatesCount, setSubordinatesCount] = useState(0);
 
   const navigation = [
     {
@@ -68,32 +64,9 @@ export default function MeetingTrackerSidebar({ children }: SidebarProps) {
   const isAdminPage = pathname?.startsWith('/meeting-tracker/admin');
 
   // Check if user is a leader
-  useEffect(() => {
-    const checkLeaderStatus = async () => {
-      if (!user || isAdminPage) return;
-
-      try {
-        const authTokens = localStorage.getItem('auth_tokens');
-        if (!authTokens) return;
-        const { access_token: token } = JSON.parse(authTokens);
-
-        const response = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/hierarchy/me`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          // The response structure is directly { is_leader: bool, subordinates_count: N, ... }
-          setIsLeader(data.is_leader || false);
-          setSubordinatesCount(data.subordinates_count || 0);
-        }
-      } catch (error) {
-        console.error('Failed to check leader status:', error);
-      }
-    };
-
-    checkLeaderStatus();
-  }, [user, isAdminPage]);
+  const { data: hierarchy } = useHierarchyMe(!!user && !isAdminPage);
+  const isLeader = hierarchy?.is_leader || false;
+  const subordinatesCount = hierarchy?.subordinates_count || 0;
 
   const handleLogout = async () => {
     try {
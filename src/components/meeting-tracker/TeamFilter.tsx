@@ -1,27 +1,26 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface Subordinate {
-  member_id: string;
-  user_id: string;
-  manager_id?: string;
-  level: number;
-  team_name?: string;
-  position_title?: string;
-  user_name?: string;
-  user_email: string;
-  depth: number;
-}
+import { useHierarchyMe, useSubordinates } from '@/hooks/meeting-tracker';
 
 interface TeamFilterProps {
   value: string; // 'me', 'team', or specific user_id
   onChange: (value: string) => void;
   className?: string;
+  // 'light' for pages outside the dark meeting tracker
+  variant?: 'dark' | 'light';
 }
 
+const VARIANT_CLASSES = {
+  dark: {
+    label: 'text-gray-300',
+    select: 'bg-gray-800 border-gray-700 text-white focus:border-blue-500',
+  },
+  light: {
+    label: 'text-gray-700',
+    select: 'bg-white border-gray-300 text-gray-900 focus:border-transparent',
+  },
+};
+
 /**
  * Team Filter Component
  *
@@ -32,92 +31,34 @@ interface TeamFilterProps {
  *
  * Only shows if the user is a leader (has subordinates)
  */
-export default function TeamFilter({ value, onChange, className = '' }: TeamFilterProps) {
-  const [isLeader, setIsLeader] = useState(false);
-  const [subordinates, setSubordinates] = useState<Subordinate[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    checkLeaderStatus();
-  }, []);
-
-  const checkLeaderStatus = async () => {
-    try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        // console.log('[TeamFilter] No auth tokens found');
-        setLoading(false);
-        return;
-      }
-
-      const { access_token: token } = JSON.parse(authTokens);
-
-      // Check if user is a leader by getting their hierarchy info
-      const hierarchyRes = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/hierarchy/me`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      // console.log('[TeamFilter] Hierarchy check response status:', hierarchyRes.status);
-
-      if (!hierarchyRes.ok) {
-        const errorText = await hierarchyRes.text();
-        // console.log('[TeamFilter] Hierarchy check failed:', errorText);
-        setLoading(false);
-        return;
-      }
-
-      const hierarchyData = await hierarchyRes.json();
-      // console.log('[TeamFilter] Hierarchy data:', hierarchyData);
-
-      // Check if user is in hierarchy and is a leader
-      const isInHierarchy = hierarchyData.is_in_hierarchy || false;
-      const isUserLeader = hierarchyData.is_leader || false;
-
-      // console.log('[TeamFilter] Is in hierarchy?', isInHierarchy, 'Is leader?', isUserLeader);
-      setIsLeader(isUserLeader);
-
-      // If user is a leader, fetch subordinates
-      if (isUserLeader) {
-        const subRes = await fetch(`${API_BASE_URL}/api/v1/meeting-tracker/hierarchy/subordinates`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-
-        // console.log('[TeamFilter] Subordinates response status:', subRes.status);
+export default function TeamFilter({ value, onChange, className = '', variant = 'dark' }: TeamFilterProps) {
+  // Check if user is a leader by getting their hierarchy info
+  const { data: hierarchy, isLoading: loadingHierarchy } = useHierarchyMe();
+  const isLeader = hierarchy?.is_leader || false;
 
-        if (subRes.ok) {
-          const subData = await subRes.json();
-          // console.log('[TeamFilter] Subordinates data:', subData);
-          // The response structure is { subordinates: [...], total_count: N }
-          setSubordinates(subData.subordinates || []);
-        }
-      }
-    } catch (error) {
-      console.error('[TeamFilter] Error checking leader status:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // If user is a leader, fetch subordinates
+  const { data: subordinates = [], isLoading: loadingSubordinates } = useSubordinates(isLeader);
 
   // Don't render if not a leader or still loading
-  if (loading || !isLeader || subordinates.length === 0) {
+  if (loadingHierarchy || loadingSubordinates || !isLeader || subordinates.length === 0) {
     return null;
   }
 
   return (
     <div className={`flex items-center gap-2 ${className}`}>
-      <label htmlFor="team-filter" className="text-sm font-medium text-gray-300">
+      <label htmlFor="team-filter" className={`text-sm font-medium ${VARIANT_CLASSES[variant].label}`}>
         View:
       </label>
       <select
         id="team-filter"
         value={value}
         onChange={(e) => onChange(e.target.value)}
-        className="bg-gray-800 border border-gray-700 text-white text-sm rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        className={`border text-sm rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 ${VARIANT_CLASSES[variant].select}`}
       >
         <option value="me">My Data</option>
         <option value="team">My Team (All {subordinates.length})</option>
         <optgroup label="Individual Team Members">
-          {subordinates
+          {[...subordinates]
             .sort((a, b) => {
               // Sort by depth (direct reports first), then by name
               if (a.depth !== b.depth) return a.depth - b.depth;
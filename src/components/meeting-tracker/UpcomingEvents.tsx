@@ -2,43 +2,12 @@
 
 import { useState, useEffect, useRef, memo, useCallback, useMemo } from 'react';
 import { MeetingDetailModal, type MeetingForModal } from '@/components/meeting-tracker/MeetingDetailModal';
-
-// API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-// Type definitions
-interface Meeting {
-  id: string;
-  meeting_type: 'S' | 'R' | 'N' | 'U';
-  person_name?: string;
-  meeting_title: string;
-  start_time: string;
-  end_time: string;
-  status: string;
-  user_id: string;
-  has_report?: boolean;
-}
-
-interface DateData {
-  date: string;
-  day_name: string;
-  meetings: Meeting[];
-}
-
-interface UpcomingEventsData {
-  success: boolean;
-  data: {
-    date_range: {
-      start_date: string;
-      end_date: string;
-    };
-    meetings_by_date: DateData[];
-  };
-}
+import { useInvalidateMeetingData, useUpcomingEvents } from '@/hooks/meeting-tracker';
+import { formatErrorForDisplay } from '@/lib/utils';
+import type { UpcomingMeeting as Meeting } from '@/types/meeting-tracker';
 
 interface UpcomingEventsProps {
   viewType: string;
-  onRefresh?: () => void;
 }
 
 /**
@@ -46,17 +15,18 @@ interface UpcomingEventsProps {
  * Displays a 7-day horizontal calendar view of upcoming meetings
  * with support for different view types (my_data, my_team, subordinate)
  */
-export default function UpcomingEvents({ viewType, onRefresh }: UpcomingEventsProps) {
-  const [data, setData] = useState<UpcomingEventsData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+export default function UpcomingEvents({ viewType }: UpcomingEventsProps) {
+  const { data, isLoading: loading, error: queryError, refetch } = useUpcomingEvents(viewType, 7);
+  const error = queryError ? formatErrorForDisplay(queryError, 'Failed to load upcoming events') : null;
+  const invalidateMeetingData = useInvalidateMeetingData();
   const [expandedDates, setExpandedDates] = useState<Set<string>>(new Set());
   const [selectedMeeting, setSelectedMeeting] = useState<Meeting | null>(null);
   const todayRef = useRef<HTMLDivElement>(null);
   const [hasScrolled, setHasScrolled] = useState(false);
 
+  // Scroll to today again whenever the view changes
   useEffect(() => {
-    fetchUpcomingEvents();
+    setHasScrolled(false);
   }, [viewType]);
 
   // Auto-scroll to today once data is loaded
@@ -73,41 +43,6 @@ export default function UpcomingEvents({ viewType, onRefresh }: UpcomingEventsPr
     }
   }, [loading, data, hasScrolled]);
 
-  const fetchUpcomingEvents = async () => {
-    setLoading(true);
-    setError(null);
-    setHasScrolled(false);
-
-    try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) {
-        throw new Error('No authentication token found');
-      }
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/meeting-tracker/meetings/upcoming-events?days=7&view_type=${viewType}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch upcoming events');
-      }
-
-      const result = await response.json();
-      setData(result);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load upcoming events');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   // Memoized callbacks to prevent unnecessary re-renders
   const toggleExpand = useCallback((date: string) => {
     setExpandedDates(prev => {
@@ -135,18 +70,11 @@ export default function UpcomingEvents({ viewType, onRefresh }: UpcomingEventsPr
   }, []);
 
   const handleRetry = useCallback(() => {
-    fetchUpcomingEvents();
-  }, [viewType]);
+    refetch();
+  }, [refetch]);
 
-  const handleModalRefresh = useCallback(() => {
-    // If parent provides onRefresh, call it (for Dashboard page)
-    // Otherwise, just refresh the upcoming events (standalone usage)
-    if (onRefresh) {
-      onRefresh();
-    } else {
-      fetchUpcomingEvents();
-    }
-  }, [onRefresh, viewType]);
+  // Refreshes these events and any meeting lists on the page
+  const handleModalRefresh = invalidateMeetingData;
 
   if (loading) {
     return (
@@ -1,20 +1,8 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface Subordinate {
-  member_id: string;
-  user_id: string;
-  user_name: string;
-  user_email: string;
-  level: number;
-  team_name?: string;
-  position_title?: string;
-  depth: number;
-}
+import { useSubordinates } from '@/hooks/meeting-tracker';
 
 interface UserSelectorDropdownProps {
   value: string; // user_id of selected user
@@ -30,43 +18,10 @@ interface UserSelectorDropdownProps {
  */
 export default function UserSelectorDropdown({ value, onChange, label = "For" }: UserSelectorDropdownProps) {
   const { user } = useAuth();
-  const [subordinates, setSubordinates] = useState<Subordinate[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: subordinates = [], isLoading: loading } = useSubordinates();
   const [searchQuery, setSearchQuery] = useState('');
   const [isOpen, setIsOpen] = useState(false);
 
-  useEffect(() => {
-    fetchSubordinates();
-  }, []);
-
-  const fetchSubordinates = async () => {
-    setLoading(true);
-    try {
-      const authTokens = localStorage.getItem('auth_tokens');
-      if (!authTokens) return;
-      const { access_token: token } = JSON.parse(authTokens);
-
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/meeting-tracker/hierarchy/subordinates`,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        setSubordinates(data.subordinates || []);
-      }
-    } catch (error) {
-      console.error('Failed to fetch subordinates:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   // Filter subordinates based on search query
   const filteredSubordinates = useMemo(() => {
     if (!searchQuery) return subordinates;
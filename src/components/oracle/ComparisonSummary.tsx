@@ -1,21 +1,13 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
-import { apiClient } from '@/lib/api';
+import { getComparisonSummary, type ComparisonSummary as SummaryData } from '@/lib/api/oracle/compare';
 
 interface ComparisonSummaryProps {
   insuranceIds: string[];
   userQuery?: string;
 }
 
-interface SummaryData {
-  summary: string;
-  key_points: string[];
-  cached: boolean;
-  generated_at: string;
-  category: string | null;
-}
-
 export default function ComparisonSummary({ insuranceIds, userQuery }: ComparisonSummaryProps) {
   const [summary, setSummary] = useState<SummaryData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -32,15 +24,8 @@ export default function ComparisonSummary({ insuranceIds, userQuery }: Compariso
         setLoading(true);
         setError(null);
 
-        const response = await apiClient.post<SummaryData>(
-          '/api/v1/oracle/compare/summary',
-          {
-            insurance_ids: insuranceIds,
-            user_query: userQuery || null
-          }
-        );
-
-        setSummary(response.data);
+        const data = await getComparisonSummary(insuranceIds, userQuery);
+        setSummary(data);
       } catch (err: any) {
         console.error('Error fetching comparison summary:', err);
         setError(err.detail || err.message || 'Failed to generate comparison summary');
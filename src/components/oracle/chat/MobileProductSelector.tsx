@@ -15,8 +15,8 @@ interface Product {
   insurance_name: string;
   provider: string;
   category: string;
-  key_features: string;
-  created_at: string;
+  key_features?: string;
+  created_at?: string;
 }
 
 interface MobileProductSelectorProps {
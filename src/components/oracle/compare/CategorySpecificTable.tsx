@@ -24,7 +24,8 @@
  */
 
 import { InsuranceProduct } from '@/types/oracle/insurance-product';
-import { formatFieldName, isFieldApplicable, getCategoryGroup, getCategoryBadgeColor, hasTableData } from './utils';
+import { getCategoryGroup } from '@/lib/product-categories';
+import { formatFieldName, isFieldApplicable, getCategoryBadgeColor, hasTableData } from './utils';
 import FormattedValue from './FormattedValue';
 
 interface CategorySpecificTableProps {
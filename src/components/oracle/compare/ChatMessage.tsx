@@ -1,6 +1,7 @@
 /**
  * Chat Message Component
- * Displays individual user or assistant messages with references
+ * Displays individual user or assistant messages with references; assistant
+ * answers render token by token while they stream in
  *
  * Phase 6 of Enhanced Product Comparison Feature
  */
@@ -17,7 +18,7 @@ import {
   isSectionReference,
 } from "@/types/oracle/comparison-chat";
 
-export default function ChatMessage({ message, isLoading, pdfUrl }: ChatMessageProps) {
+export default function ChatMessage({ message, isLoading, isStreaming = false, pdfUrl }: ChatMessageProps) {
   const isUser = message.role === "user";
 
   return (
@@ -80,12 +81,15 @@ export default function ChatMessage({ message, isLoading, pdfUrl }: ChatMessageP
               >
                 {message.content}
               </ReactMarkdown>
+              {isStreaming && (
+                <span className="inline-block w-1.5 h-4 bg-gray-500 animate-pulse align-text-bottom" aria-hidden="true" />
+              )}
             </div>
           )}
         </div>
 
         {/* References (only for assistant messages from RAG with page numbers) */}
-        {!isUser && message.source === "rag" && message.references && message.references.length > 0 && pdfUrl && (
+        {!isUser && !isStreaming && message.source === "rag" && message.references && message.references.length > 0 && pdfUrl && (
           <div className="mt-3 pt-3 border-t border-gray-200">
             <div className="flex flex-wrap gap-1.5">
               {message.references.map((ref, index) => (
@@ -96,7 +100,7 @@ export default function ChatMessage({ message, isLoading, pdfUrl }: ChatMessageP
         )}
 
         {/* Timestamp */}
-        {message.timestamp && (
+        {message.timestamp && !isStreaming && (
           <div
             className={`text-xs mt-2 ${
               isUser ? "text-blue-200" : "text-gray-500"
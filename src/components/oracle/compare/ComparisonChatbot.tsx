@@ -18,7 +18,8 @@ import {
   isAnswerResponse,
   isClarificationResponse,
 } from "@/types/oracle/comparison-chat";
-import { sendChatMessage, formatClarificationQuestion } from "@/lib/api/oracle/compare";
+import { streamChatMessage, formatClarificationQuestion } from "@/lib/api/oracle/compare";
+import { isAbortError } from "@/lib/event-stream";
 import ChatMessageComponent from "./ChatMessage";
 import ChatInput from "./ChatInput";
 import LoadingIndicator from "./LoadingIndicator";
@@ -35,11 +36,14 @@ export default function ComparisonChatbot({
   const [error, setError] = useState<string | null>(null);
   const [pendingClarification, setPendingClarification] =
     useState<ClarificationResponse | null>(null);
+  // Answer text received so far for the question being answered
+  const [streamingAnswer, setStreamingAnswer] = useState("");
 
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const hasLoadedHistory = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Session storage key
   const storageKey = `chat-history-${insuranceIds.sort().join("-")}`;
@@ -73,11 +77,15 @@ export default function ComparisonChatbot({
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [chatHistory, isLoading, pendingClarification]);
+  }, [chatHistory, isLoading, pendingClarification, streamingAnswer]);
+
+  // Stop a streaming answer when the chat closes
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Listen for clear chat event from FloatingChatContainer
   useEffect(() => {
     const handleClearChat = () => {
+      abortRef.current?.abort();
       setChatHistory([]);
       setPendingClarification(null);
       setError(null);
@@ -119,13 +127,19 @@ export default function ComparisonChatbot({
     setChatHistory((prev) => [...prev, userMessage]);
     setInputValue("");
     setIsLoading(true);
+    setStreamingAnswer("");
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      // Send message to API
-      const response = await sendChatMessage(
+      // Send message to API; the answer renders as it streams in
+      const response = await streamChatMessage(
         question,
         insuranceIds,
-        chatHistory
+        chatHistory,
+        (delta) => setStreamingAnswer((prev) => prev + delta),
+        controller.signal
       );
 
       // Handle response based on type
@@ -159,6 +173,7 @@ export default function ComparisonChatbot({
         setPendingClarification(response);
       }
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Error sending message:", err);
       setError(
         err instanceof Error
@@ -166,6 +181,8 @@ export default function ComparisonChatbot({
           : "Failed to send message. Please try again."
       );
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setStreamingAnswer("");
       setIsLoading(false);
     }
   };
@@ -239,8 +256,14 @@ export default function ComparisonChatbot({
           );
         })}
 
-        {/* Loading indicator */}
-        {isLoading && <LoadingIndicator />}
+        {/* Answer so far, then the loading indicator until the first token */}
+        {isLoading && streamingAnswer && (
+          <ChatMessageComponent
+            message={{ role: "assistant", content: streamingAnswer, timestamp: "" }}
+            isStreaming
+          />
+        )}
+        {isLoading && !streamingAnswer && <LoadingIndicator />}
 
         {/* Clarification buttons */}
         {pendingClarification && (
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Info } from 'lucide-react';
-import { CategoryGroup } from './utils';
+import type { CategoryGroup } from '@/types/oracle/insurance-product';
 
 interface CrossCategoryBannerProps {
   groups: Set<CategoryGroup>;
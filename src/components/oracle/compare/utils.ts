@@ -3,45 +3,8 @@
  * Handles category detection, field relevance, and formatting
  */
 
-import { InsuranceProduct } from '@/types/oracle/insurance-product';
-
-export type ProductCategory =
-  | 'critical illness'
-  | 'whole life'
-  | 'term life insurance'
-  | 'universal life'
-  | 'savings plan'
-  | 'endowment'
-  | 'investment-linked';
-
-export type CategoryGroup = 'critical-illness' | 'life-protection' | 'savings' | 'ilp';
-
-/**
- * Map product category to category group
- */
-export function getCategoryGroup(category: string | undefined | null): CategoryGroup | null {
-  if (!category) return null;
-
-  const normalized = category.toLowerCase().trim();
-
-  if (normalized === 'critical illness') {
-    return 'critical-illness';
-  }
-
-  if (normalized === 'whole life' || normalized === 'term life insurance' || normalized === 'universal life') {
-    return 'life-protection';
-  }
-
-  if (normalized === 'savings plan' || normalized === 'endowment') {
-    return 'savings';
-  }
-
-  if (normalized === 'investment-linked' || normalized === 'ilp') {
-    return 'ilp';
-  }
-
-  return null;
-}
+import { getCategoryGroup } from '@/lib/product-categories';
+import type { CategoryGroup, InsuranceProduct } from '@/types/oracle/insurance-product';
 
 /**
  * Get color scheme for category badge
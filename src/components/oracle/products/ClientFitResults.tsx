@@ -0,0 +1,151 @@
+/**
+ * Client Fit Results Component
+ * Products ranked against a client, each with its score and the checks behind it
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  FIT_CRITERION_LABELS,
+  getFitScoreColor,
+  type ClientFitResult,
+  type FitCheck,
+  type FitCriterion,
+  type FitOutcome,
+} from '@/lib/client-fit';
+import type { InsuranceProduct } from '@/types/oracle/insurance-product';
+
+interface ClientFitResultsProps {
+  results: ClientFitResult<InsuranceProduct>[];
+  // Products picked to compare side by side
+  selectedIds: string[];
+  onToggleSelect: (product: InsuranceProduct) => void;
+}
+
+const OUTCOME_STYLES: Record<FitOutcome, { icon: string; className: string }> = {
+  pass: { icon: '✓', className: 'text-green-600' },
+  partial: { icon: '~', className: 'text-yellow-600' },
+  fail: { icon: '✗', className: 'text-red-600' },
+  unknown: { icon: '?', className: 'text-gray-400' },
+};
+
+const CRITERIA: FitCriterion[] = ['age', 'budget', 'currency', 'needs'];
+
+function CheckRow({ check }: { check: FitCheck }) {
+  const style = OUTCOME_STYLES[check.outcome];
+  return (
+    <li className="flex items-start space-x-2 text-sm">
+      <span className={`w-4 text-center font-semibold ${style.className}`} aria-label={check.outcome}>
+        {style.icon}
+      </span>
+      <span className="text-gray-700">
+        {check.criterion === 'needs' ? (
+          <>
+            <span className="font-medium">{check.label}:</span> {check.reason}
+          </>
+        ) : (
+          check.reason
+        )}
+      </span>
+    </li>
+  );
+}
+
+function ResultCard({
+  result,
+  rank,
+  isSelected,
+  onToggleSelect,
+}: {
+  result: ClientFitResult<InsuranceProduct>;
+  rank: number;
+  isSelected: boolean;
+  onToggleSelect: () => void;
+}) {
+  const [expanded, setExpanded] = useState(rank <= 3);
+  const { product, score, eligible, checks } = result;
+
+  return (
+    <li className={`border rounded-lg p-4 ${eligible ? 'border-gray-200 bg-white' : 'border-gray-200 bg-gray-50'}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500">#{rank}</p>
+          <h3 className={`font-semibold truncate ${eligible ? 'text-gray-900' : 'text-gray-500'}`}>
+            {product.insurance_name}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {product.provider} · {product.category}
+          </p>
+          {!eligible && <p className="text-xs text-red-600 mt-1">Not eligible at the client&apos;s age</p>}
+        </div>
+        <span className={`px-3 py-1 rounded-full text-sm font-semibold whitespace-nowrap ${getFitScoreColor(score)}`}>
+          {score}% fit
+        </span>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="text-sm text-blue-600 hover:text-blue-800 mt-3"
+      >
+        {expanded ? 'Hide reasons' : 'Show reasons'}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {CRITERIA.map((criterion) => {
+            const own = checks.filter((check) => check.criterion === criterion);
+            if (own.length === 0) return null;
+            return (
+              <div key={criterion}>
+                <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+                  {FIT_CRITERION_LABELS[criterion]}
+                </p>
+                <ul className="space-y-1">
+                  {own.map((check, index) => (
+                    <CheckRow key={index} check={check} />
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-4 pt-3 border-t border-gray-100 text-sm">
+        <label className="flex items-center space-x-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={onToggleSelect}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Compare</span>
+        </label>
+        <Link href={`/oracle/chat?product=${product.insurance_id}`} className="text-blue-600 hover:text-blue-800">
+          Ask about this product
+        </Link>
+      </div>
+    </li>
+  );
+}
+
+export default function ClientFitResults({ results, selectedIds, onToggleSelect }: ClientFitResultsProps) {
+  if (results.length === 0) {
+    return <p className="text-sm text-gray-500">No products in this category yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {results.map((result, index) => (
+        <ResultCard
+          key={result.product.insurance_id}
+          result={result}
+          rank={index + 1}
+          isSelected={selectedIds.indexOf(result.product.insurance_id) !== -1}
+          onToggleSelect={() => onToggleSelect(result.product)}
+        />
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * Product Facet Sidebar Component
+ * Filters the manual search results by structured product fields, with range sliders, multi-selects and live counts
+ */
+
+import {
+  EMPTY_FACET_FILTERS,
+  FACET_GROUP_LABELS,
+  countActiveFacets,
+  flattenFacetGroups,
+  formatFacetNumber,
+  getFacetStep,
+  summarizeFacet,
+  type MultiFacet,
+  type MultiFacetSummary,
+  type NumericRange,
+  type ProductFacet,
+  type ProductFacetFilters,
+  type ProductFacetGroup,
+  type RangeFacet,
+  type RangeFacetSummary,
+} from '@/lib/product-facets';
+import type { InsuranceProduct } from '@/types/oracle/insurance-product';
+
+interface ProductFacetSidebarProps {
+  // Every product loaded for the current name, category and provider filters
+  products: Partial<InsuranceProduct>[];
+  // From getApplicableFacets(products)
+  groups: ProductFacetGroup[];
+  filters: ProductFacetFilters;
+  onChange: (filters: ProductFacetFilters) => void;
+}
+
+function RangeFacetControl({
+  facet,
+  summary,
+  selected,
+  onChange,
+}: {
+  facet: RangeFacet;
+  summary: RangeFacetSummary;
+  selected?: NumericRange;
+  onChange: (range: NumericRange | null) => void;
+}) {
+  const { bounds } = summary;
+  const step = getFacetStep(facet, bounds);
+  const min = selected ? selected.min : bounds.min;
+  const max = selected ? selected.max : bounds.max;
+
+  // Within a step of the ends counts as the end, since the step may not land on it
+  const update = (nextMin: number, nextMax: number) => {
+    const from = nextMin - bounds.min < step ? bounds.min : nextMin;
+    const to = bounds.max - nextMax < step ? bounds.max : nextMax;
+    // The full span means no filter, so products without a value aren't dropped
+    if (from === bounds.min && to === bounds.max) onChange(null);
+    else onChange({ min: from, max: to });
+  };
+
+  if (bounds.min === bounds.max) {
+    return (
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!selected}
+          onChange={(e) => onChange(e.target.checked ? { min: bounds.min, max: bounds.max } : null)}
+          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>
+          {formatFacetNumber(bounds.min, facet.unit)} <span className="text-gray-400">({summary.count})</span>
+        </span>
+      </label>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>
+          {formatFacetNumber(min, facet.unit)} – {formatFacetNumber(max, facet.unit)}
+        </span>
+        <span className="text-gray-400">{summary.count} products</span>
+      </div>
+      <input
+        type="range"
+        aria-label={`${facet.label} from`}
+        min={bounds.min}
+        max={bounds.max}
+        step={step}
+        value={min}
+        onChange={(e) => update(Math.min(Number(e.target.value), max), max)}
+        className="w-full accent-primary-600"
+      />
+      <input
+        type="range"
+        aria-label={`${facet.label} to`}
+        min={bounds.min}
+        max={bounds.max}
+        step={step}
+        value={max}
+        onChange={(e) => update(min, Math.max(Number(e.target.value), min))}
+        className="w-full accent-primary-600"
+      />
+    </div>
+  );
+}
+
+function MultiFacetControl({
+  facet,
+  summary,
+  selected,
+  onChange,
+}: {
+  facet: MultiFacet;
+  summary: MultiFacetSummary;
+  selected: string[];
+  onChange: (values: string[]) => void;
+}) {
+  const toggle = (value: string) => {
+    onChange(selected.indexOf(value) === -1 ? selected.concat(value) : selected.filter((item) => item !== value));
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {summary.options.map((option) => {
+        const isSelected = selected.indexOf(option.value) !== -1;
+        return (
+          <button
+            key={option.value}
+            type="button"
+            aria-pressed={isSelected}
+            aria-label={`${facet.label} ${option.value}`}
+            onClick={() => toggle(option.value)}
+            disabled={!isSelected && option.count === 0}
+            className={`px-2.5 py-1 rounded-full border text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+              isSelected
+                ? 'bg-primary-600 border-primary-600 text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:border-primary-400'
+            }`}
+          >
+            {option.value} <span className={isSelected ? 'text-primary-100' : 'text-gray-400'}>{option.count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function ProductFacetSidebar({ products, groups, filters, onChange }: ProductFacetSidebarProps) {
+  const facets = flattenFacetGroups(groups);
+  const activeCount = countActiveFacets(facets, filters);
+
+  const setRange = (facet: ProductFacet, range: NumericRange | null) => {
+    const ranges = { ...filters.ranges };
+    if (range) ranges[facet.key] = range;
+    else delete ranges[facet.key];
+    onChange({ ...filters, ranges });
+  };
+
+  const setValues = (facet: ProductFacet, values: string[]) => {
+    const next = { ...filters.values };
+    if (values.length > 0) next[facet.key] = values;
+    else delete next[facet.key];
+    onChange({ ...filters, values: next });
+  };
+
+  if (groups.length === 0) return null;
+
+  return (
+    <aside className="bg-white/80 backdrop-blur-sm rounded-2xl p-5 shadow-lg border border-white/20 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">Refine</h3>
+        {activeCount > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_FACET_FILTERS)}
+            className="text-xs text-primary-600 hover:text-primary-700"
+          >
+            Clear {activeCount} filter{activeCount === 1 ? '' : 's'}
+          </button>
+        )}
+      </div>
+
+      {groups.map((entry) => (
+        <div key={entry.group} className="space-y-4">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+            {FACET_GROUP_LABELS[entry.group]}
+          </h4>
+          {entry.facets.map((facet) => {
+            const summary = summarizeFacet(products, facet, facets, filters);
+            return (
+              <div key={facet.key}>
+                <div className="flex items-baseline justify-between mb-2">
+                  <p className="text-sm font-medium text-gray-800">{facet.label}</p>
+                  {(filters.ranges[facet.key] || filters.values[facet.key]) && (
+                    <button
+                      type="button"
+                      onClick={() => (facet.kind === 'range' ? setRange(facet, null) : setValues(facet, []))}
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      Any
+                    </button>
+                  )}
+                </div>
+                {facet.hint && <p className="text-xs text-gray-400 -mt-1 mb-2">{facet.hint}</p>}
+                {facet.kind === 'range' && summary.kind === 'range' ? (
+                  <RangeFacetControl
+                    facet={facet}
+                    summary={summary}
+                    selected={filters.ranges[facet.key]}
+                    onChange={(range) => setRange(facet, range)}
+                  />
+                ) : facet.kind === 'multi' && summary.kind === 'multi' ? (
+                  <MultiFacetControl
+                    facet={facet}
+                    summary={summary}
+                    selected={filters.values[facet.key] || []}
+                    onChange={(values) => setValues(facet, values)}
+                  />
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </aside>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Save Search Modal
+ * Name the current AI search, with its filters and guided answers, and choose whether to be alerted about new matches
+ */
+
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useCreateSavedSearch } from '@/hooks/oracle';
+import { describeSavedSearchFilters, getDefaultSearchName } from '@/lib/saved-searches';
+import type { SavedSearch, SavedSearchCreate } from '@/types/oracle/saved-search';
+
+interface SaveSearchModalProps {
+  search: Omit<SavedSearchCreate, 'name' | 'alerts_enabled'>;
+  onClose: () => void;
+  onSaved?: (search: SavedSearch) => void;
+}
+
+export default function SaveSearchModal({ search, onClose, onSaved }: SaveSearchModalProps) {
+  const [name, setName] = useState(() => getDefaultSearchName(search.query));
+  const [alertsEnabled, setAlertsEnabled] = useState(true);
+  const createSearch = useCreateSavedSearch();
+
+  const handleSave = () => {
+    createSearch.mutate(
+      { ...search, name: name.trim(), alerts_enabled: alertsEnabled },
+      {
+        onSuccess: (saved) => {
+          toast.success('Search saved');
+          onSaved?.(saved);
+          onClose();
+        },
+        onError: (error: any) => {
+          console.error('Error saving search:', error);
+          toast.error(error.detail || 'Failed to save search');
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-lg mx-4">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Save this search</h3>
+            <p className="text-sm text-gray-500 mt-1">Run it again from Saved searches without re-typing the brief.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={120}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-3">
+            <p className="text-sm text-gray-900 whitespace-pre-wrap">{search.query}</p>
+            <p className="text-xs text-gray-500 mt-2">{describeSavedSearchFilters(search)}</p>
+          </div>
+
+          <label className="flex items-start space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={alertsEnabled}
+              onChange={(e) => setAlertsEnabled(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Notify me when a newly added product matches this search</span>
+          </label>
+        </div>
+
+        <div className="flex justify-end space-x-3 px-6 pb-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={createSearch.isPending || !name.trim()}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {createSearch.isPending ? 'Saving...' : 'Save search'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * Saved Searches Modal
+ * The advisor's saved AI searches: run one again, rename it, turn its new-product alerts on or off, or delete it
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { useDeleteSavedSearch, useSavedSearches, useUpdateSavedSearch } from '@/hooks/oracle';
+import { describeSavedSearchFilters } from '@/lib/saved-searches';
+import type { SavedSearch } from '@/types/oracle/saved-search';
+
+interface SavedSearchesModalProps {
+  onRun: (search: SavedSearch) => void;
+  onClose: () => void;
+}
+
+export default function SavedSearchesModal({ onRun, onClose }: SavedSearchesModalProps) {
+  const { data: searches = [], isLoading, isError } = useSavedSearches();
+  const updateSearch = useUpdateSavedSearch();
+  const deleteSearch = useDeleteSavedSearch();
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+
+  const startRename = (search: SavedSearch) => {
+    setRenamingId(search.search_id);
+    setNameDraft(search.name);
+  };
+
+  const handleRename = (search: SavedSearch) => {
+    const name = nameDraft.trim();
+    if (!name || name === search.name) {
+      setRenamingId(null);
+      return;
+    }
+    updateSearch.mutate(
+      { searchId: search.search_id, data: { name } },
+      {
+        onSuccess: () => setRenamingId(null),
+        onError: (error: any) => {
+          console.error('Error renaming saved search:', error);
+          toast.error(error.detail || 'Failed to rename search');
+        },
+      }
+    );
+  };
+
+  const handleToggleAlerts = (search: SavedSearch) => {
+    updateSearch.mutate(
+      { searchId: search.search_id, data: { alerts_enabled: !search.alerts_enabled } },
+      {
+        onError: (error: any) => {
+          console.error('Error updating saved search alerts:', error);
+          toast.error(error.detail || 'Failed to update alerts');
+        },
+      }
+    );
+  };
+
+  const handleDelete = (search: SavedSearch) => {
+    if (!window.confirm(`Delete "${search.name}"? You will no longer be alerted about new matches.`)) return;
+    deleteSearch.mutate(search.search_id, {
+      onSuccess: () => toast.success('Search deleted'),
+      onError: (error: any) => {
+        console.error('Error deleting saved search:', error);
+        toast.error(error.detail || 'Failed to delete search');
+      },
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Saved searches</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              With alerts on, you get a notification when a newly added product matches.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : isError ? (
+            <p className="text-sm text-red-600">Failed to load saved searches</p>
+          ) : searches.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No saved searches yet. Run an AI search and choose &quot;Save this search&quot;.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {searches.map((search) => (
+                <li key={search.search_id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 flex-1">
+                      {renamingId === search.search_id ? (
+                        <input
+                          type="text"
+                          value={nameDraft}
+                          autoFocus
+                          maxLength={120}
+                          onChange={(e) => setNameDraft(e.target.value)}
+                          onBlur={() => handleRename(search)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename(search);
+                            if (e.key === 'Escape') setRenamingId(null);
+                          }}
+                          className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                        />
+                      ) : (
+                        <div className="flex items-center space-x-2">
+                          <p className="text-sm font-semibold text-gray-900 truncate">{search.name}</p>
+                          {search.new_match_count > 0 && (
+                            <span className="px-2 py-0.5 rounded-full bg-blue-100 text-xs font-medium text-blue-800 whitespace-nowrap">
+                              {search.new_match_count} new
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      <p className="text-sm text-gray-600 mt-1 line-clamp-2">{search.query}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {describeSavedSearchFilters(search)} · Saved {format(new Date(search.created_at), 'd MMM yyyy')}
+                        {search.last_run_at && <> · Last run {format(new Date(search.last_run_at), 'd MMM yyyy')}</>}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => onRun(search)}
+                      className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 whitespace-nowrap"
+                    >
+                      Run
+                    </button>
+                  </div>
+
+                  <div className="flex items-center justify-between mt-3 pt-2 border-t border-gray-100 text-sm">
+                    <label className="flex items-center space-x-2 text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={search.alerts_enabled}
+                        onChange={() => handleToggleAlerts(search)}
+                        disabled={updateSearch.isPending}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>New product alerts</span>
+                    </label>
+                    <div className="flex items-center space-x-3">
+                      <button onClick={() => startRename(search)} className="text-gray-600 hover:text-gray-900">
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => handleDelete(search)}
+                        disabled={deleteSearch.isPending}
+                        className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
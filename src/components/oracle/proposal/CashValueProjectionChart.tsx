@@ -0,0 +1,184 @@
+/**
+ * Cash Value Projection Chart Component
+ * The cash value of every illustration by age, with premiums paid and breakeven points
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceDot,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { useFxRateMap } from '@/hooks/oracle';
+import {
+  ProjectionCurrencyMode,
+  buildCashValueProjection,
+  formatCompactAmount,
+  getIllustrationCurrency,
+} from '@/lib/cash-value-projection';
+import type { ProposalFxRate } from '@/types/oracle/fx-rate';
+import type { ExtractedIllustration } from '@/types/oracle/proposal';
+
+// Fixed size of the chart sent to the backend for the PDF
+export const EXPORT_CHART_WIDTH = 720;
+export const EXPORT_CHART_HEIGHT = 360;
+
+interface CashValueProjectionChartProps {
+  illustrations: ExtractedIllustration[];
+  clientDob?: string | null;
+  targetCurrency: string;
+  fxRates?: ProposalFxRate[] | null;
+  // Static rendering for the PDF: fixed size, target currency, no controls or animation
+  forExport?: boolean;
+}
+
+export default function CashValueProjectionChart({
+  illustrations,
+  clientDob,
+  targetCurrency,
+  fxRates,
+  forExport = false,
+}: CashValueProjectionChartProps) {
+  const [selectedMode, setSelectedMode] = useState<ProjectionCurrencyMode>('target');
+  const mode = forExport ? 'target' : selectedMode;
+
+  const currencies = useMemo(
+    () => illustrations.map(getIllustrationCurrency).filter((currency, index, all) => all.indexOf(currency) === index),
+    [illustrations]
+  );
+  const rates = useFxRateMap(fxRates, currencies, targetCurrency);
+
+  const projection = useMemo(
+    () => buildCashValueProjection(illustrations, { clientDob, targetCurrency, mode, rates }),
+    [illustrations, clientDob, targetCurrency, mode, rates]
+  );
+
+  const seriesCurrencies = projection.series
+    .map((series) => series.currency)
+    .filter((currency, index, all) => all.indexOf(currency) === index);
+  const axisCurrency = seriesCurrencies.length === 1 ? seriesCurrencies[0] : null;
+
+  if (projection.series.length === 0) {
+    if (forExport) return null;
+    return (
+      <p className="text-sm text-gray-500">
+        {projection.missingRates.length > 0
+          ? `Waiting for exchange rates (${projection.missingRates.join(', ')})...`
+          : 'No cash values extracted yet.'}
+      </p>
+    );
+  }
+
+  const chart = (
+    <LineChart
+      data={projection.rows}
+      width={forExport ? EXPORT_CHART_WIDTH : undefined}
+      height={forExport ? EXPORT_CHART_HEIGHT : undefined}
+      margin={{ top: 16, right: 24, bottom: 8, left: 8 }}
+    >
+      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+      <XAxis dataKey="age" type="number" domain={['dataMin', 'dataMax']} tickCount={10} fontSize={12} />
+      <YAxis
+        tickFormatter={formatCompactAmount}
+        fontSize={12}
+        width={56}
+        label={
+          axisCurrency
+            ? { value: axisCurrency, angle: -90, position: 'insideLeft', fontSize: 12, fill: '#6b7280' }
+            : undefined
+        }
+      />
+      {!forExport && (
+        <Tooltip
+          labelFormatter={(age) => `Age ${age}`}
+          formatter={(value: number) => Math.round(value).toLocaleString()}
+        />
+      )}
+      <Legend wrapperStyle={{ fontSize: 12 }} />
+      {projection.series.map((series) => (
+        <Line
+          key={series.cashValueKey}
+          type="monotone"
+          dataKey={series.cashValueKey}
+          name={axisCurrency ? series.name : `${series.name} (${series.currency})`}
+          stroke={series.color}
+          strokeWidth={2}
+          dot={false}
+          connectNulls
+          isAnimationActive={!forExport}
+        />
+      ))}
+      {projection.series.map((series) => (
+        <Line
+          key={series.premiumKey}
+          type="stepAfter"
+          dataKey={series.premiumKey}
+          name={`${series.name} premiums paid`}
+          stroke={series.color}
+          strokeDasharray="5 4"
+          strokeOpacity={0.6}
+          dot={false}
+          connectNulls
+          isAnimationActive={!forExport}
+        />
+      ))}
+      {projection.series
+        .filter((series) => series.breakevenAge !== null && series.breakevenValue !== null)
+        .map((series) => (
+          <ReferenceDot
+            key={`breakeven_${series.cashValueKey}`}
+            x={series.breakevenAge as number}
+            y={series.breakevenValue as number}
+            r={5}
+            fill={series.color}
+            stroke="#ffffff"
+            label={{ value: `Breakeven ${series.breakevenAge}`, position: 'top', fontSize: 11, fill: series.color }}
+          />
+        ))}
+    </LineChart>
+  );
+
+  if (forExport) return chart;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs text-gray-500">Dashed lines show total premiums paid. Dots mark breakeven.</p>
+        <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+          <button
+            onClick={() => setSelectedMode('illustration')}
+            className={`px-3 py-1 ${
+              mode === 'illustration' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {currencies.length === 1 ? currencies[0] : 'Illustration currency'}
+          </button>
+          <button
+            onClick={() => setSelectedMode('target')}
+            className={`px-3 py-1 border-l border-gray-300 ${
+              mode === 'target' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {targetCurrency}
+          </button>
+        </div>
+      </div>
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          {chart}
+        </ResponsiveContainer>
+      </div>
+      {projection.missingRates.length > 0 && (
+        <p className="text-xs text-amber-700 mt-2">
+          Not shown in {targetCurrency}: no exchange rate for {projection.missingRates.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
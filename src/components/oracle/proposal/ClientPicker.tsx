@@ -0,0 +1,243 @@
+/**
+ * Client Picker Component
+ * Search the advisor's clients for a proposal, or add a new one inline
+ */
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useClient, useCreateClient } from '@/hooks/oracle';
+import { listClients } from '@/lib/api/oracle/clients';
+import { ClientCreateData, ClientListItem, Gender } from '@/types/client';
+
+interface ClientPickerProps {
+  value?: string;
+  onChange: (clientId: string | undefined) => void;
+}
+
+const EMPTY_CLIENT: ClientCreateData = {
+  first_name: '',
+  last_name: '',
+  date_of_birth: '',
+  gender: undefined,
+  occupation: '',
+};
+
+function formatDob(dateOfBirth: string) {
+  return new Date(dateOfBirth).toLocaleDateString();
+}
+
+export default function ClientPicker({ value, onChange }: ClientPickerProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [results, setResults] = useState<ClientListItem[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [showQuickCreate, setShowQuickCreate] = useState(false);
+  const [newClient, setNewClient] = useState<ClientCreateData>(EMPTY_CLIENT);
+  const { data: selectedClient, isLoading: loadingSelected } = useClient(value || '');
+  const createClient = useCreateClient();
+
+  // Search with debounce
+  useEffect(() => {
+    if (value) return;
+
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const result = await listClients({
+          limit: 8,
+          sort_by: 'created_at',
+          sort_order: 'desc',
+          search: searchQuery || undefined,
+        });
+        setResults(result.data.clients);
+      } catch (error) {
+        console.error('Error searching clients:', error);
+        setResults([]);
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery, value]);
+
+  const handleQuickCreate = () => {
+    if (!newClient.first_name.trim() || !newClient.last_name.trim() || !newClient.date_of_birth) {
+      toast.error('First name, last name and date of birth are required');
+      return;
+    }
+
+    createClient.mutate(
+      {
+        ...newClient,
+        first_name: newClient.first_name.trim(),
+        last_name: newClient.last_name.trim(),
+        occupation: newClient.occupation?.trim() || undefined,
+      },
+      {
+        onSuccess: (client) => {
+          toast.success('Client added');
+          setShowQuickCreate(false);
+          setNewClient(EMPTY_CLIENT);
+          onChange(client.client_id);
+        },
+        onError: (error: any) => {
+          console.error('Error adding client:', error);
+          toast.error(error.detail || 'Failed to add client');
+        },
+      }
+    );
+  };
+
+  if (value) {
+    if (loadingSelected || !selectedClient) {
+      return (
+        <div className="flex items-center space-x-2 p-4 border border-gray-200 rounded-lg">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span className="text-sm text-gray-600">Loading client...</span>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-start justify-between p-4 border border-blue-300 bg-blue-50 rounded-lg">
+        <div>
+          <div className="text-sm font-medium text-gray-900">
+            {selectedClient.first_name} {selectedClient.last_name}
+          </div>
+          <div className="text-xs text-gray-600 mt-1">
+            Born {formatDob(selectedClient.date_of_birth)}
+            {selectedClient.gender && <> • {selectedClient.gender}</>}
+            {selectedClient.occupation && <> • {selectedClient.occupation}</>}
+          </div>
+        </div>
+        <button type="button" onClick={() => onChange(undefined)} className="text-sm text-blue-600 hover:text-blue-800">
+          Change
+        </button>
+      </div>
+    );
+  }
+
+  if (showQuickCreate) {
+    return (
+      <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">First Name</label>
+            <input
+              type="text"
+              value={newClient.first_name}
+              onChange={(e) => setNewClient({ ...newClient, first_name: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Last Name</label>
+            <input
+              type="text"
+              value={newClient.last_name}
+              onChange={(e) => setNewClient({ ...newClient, last_name: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date of Birth</label>
+            <input
+              type="date"
+              value={newClient.date_of_birth}
+              onChange={(e) => setNewClient({ ...newClient, date_of_birth: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Gender</label>
+            <select
+              value={newClient.gender || ''}
+              onChange={(e) => setNewClient({ ...newClient, gender: (e.target.value as Gender) || undefined })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Select gender</option>
+              <option value={Gender.MALE}>Male</option>
+              <option value={Gender.FEMALE}>Female</option>
+              <option value={Gender.OTHER}>Other</option>
+              <option value={Gender.PREFER_NOT_TO_SAY}>Prefer not to say</option>
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Occupation</label>
+            <input
+              type="text"
+              value={newClient.occupation || ''}
+              onChange={(e) => setNewClient({ ...newClient, occupation: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={() => setShowQuickCreate(false)}
+            className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleQuickCreate}
+            disabled={createClient.isPending}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {createClient.isPending ? 'Adding...' : 'Add Client'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-3">
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search clients by name, email or phone..."
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="button"
+          onClick={() => setShowQuickCreate(true)}
+          className="px-4 py-2 text-sm text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 transition-colors whitespace-nowrap"
+        >
+          + New Client
+        </button>
+      </div>
+      {searching ? (
+        <div className="flex items-center space-x-2 p-4 border border-gray-200 rounded-lg">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span className="text-sm text-gray-600">Searching clients...</span>
+        </div>
+      ) : results.length > 0 ? (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {results.map((client) => (
+            <button
+              key={client.client_id}
+              type="button"
+              onClick={() => onChange(client.client_id)}
+              className="w-full text-left p-3 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors"
+            >
+              <div className="text-sm font-medium text-gray-900">{client.full_name}</div>
+              <div className="text-xs text-gray-500">
+                Born {formatDob(client.date_of_birth)}
+                {client.email && <> • {client.email}</>}
+              </div>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center p-4 text-gray-500 text-sm">
+          {searchQuery ? 'No matching clients. Add them as a new client.' : 'No clients yet. Add your first client.'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Client Sharing Card Component
+ * Whether the client has opened the proposal, with the share dialog
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useProposalShareLinks } from '@/hooks/oracle';
+import { getShareLinkStatus } from '@/lib/proposal-shares';
+import ShareProposalModal from './ShareProposalModal';
+
+interface ClientSharingCardProps {
+  proposalId: string;
+  // Only generated proposals can be shared
+  canShare: boolean;
+}
+
+export default function ClientSharingCard({ proposalId, canShare }: ClientSharingCardProps) {
+  const [showShareModal, setShowShareModal] = useState(false);
+  const { data: links = [], isLoading } = useProposalShareLinks(proposalId);
+
+  const activeLinks = links.filter((link) => getShareLinkStatus(link) === 'active');
+  const viewCount = links.reduce((sum, link) => sum + link.view_count, 0);
+  const lastViewedAt = links
+    .map((link) => link.last_viewed_at)
+    .filter((viewedAt): viewedAt is string => !!viewedAt)
+    .sort()
+    .pop();
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Client Access</h2>
+        <button
+          onClick={() => setShowShareModal(true)}
+          disabled={!canShare}
+          title={canShare ? undefined : 'Generate the proposal before sharing it'}
+          className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Share with client
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500">Not shared with the client yet.</p>
+      ) : (
+        <div className="space-y-1 text-sm">
+          {lastViewedAt ? (
+            <p className="text-gray-900">
+              Last opened by the client {format(new Date(lastViewedAt), 'd MMM yyyy, HH:mm')}
+            </p>
+          ) : (
+            <p className="text-amber-700">Shared, but the client hasn&apos;t opened it yet</p>
+          )}
+          <p className="text-gray-500">
+            {viewCount} view{viewCount === 1 ? '' : 's'} · {activeLinks.length} active link
+            {activeLinks.length === 1 ? '' : 's'}
+          </p>
+        </div>
+      )}
+
+      {showShareModal && <ShareProposalModal proposalId={proposalId} onClose={() => setShowShareModal(false)} />}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Field Source Badge Component
+ * Next to an extracted field: the PDF page it came from, and a flag when extraction was unsure
+ */
+
+import { formatProvenance, isLowConfidence } from '@/lib/extraction-provenance';
+import type { FieldProvenance } from '@/types/oracle/proposal';
+
+interface FieldSourceBadgeProps {
+  provenance: FieldProvenance | null;
+  confidence: number | null;
+  active?: boolean;
+  onShowSource: () => void;
+}
+
+export default function FieldSourceBadge({ provenance, confidence, active = false, onShowSource }: FieldSourceBadgeProps) {
+  const lowConfidence = isLowConfidence(confidence);
+  if (!provenance && !lowConfidence) return null;
+
+  return (
+    <span className="inline-flex items-center space-x-1 ml-2 align-middle">
+      {lowConfidence && (
+        <span
+          className="px-1.5 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800"
+          title="The extractor was unsure of this value. Check it against the PDF."
+        >
+          ⚠️ {Math.round((confidence as number) * 100)}%
+        </span>
+      )}
+      {provenance && (
+        <button
+          type="button"
+          onClick={onShowSource}
+          className={`px-1.5 py-0.5 rounded text-xs font-medium ${
+            active ? 'bg-blue-600 text-white' : 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+          }`}
+          title={`Show in PDF: ${formatProvenance(provenance)}`}
+        >
+          p. {provenance.page}
+        </button>
+      )}
+    </span>
+  );
+}
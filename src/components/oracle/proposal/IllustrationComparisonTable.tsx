@@ -0,0 +1,79 @@
+/**
+ * Illustration Comparison Table Component
+ * Premium, benefit and return figures of every illustration, ranked side by side
+ */
+
+import { COMPARISON_METRICS, formatMetricValue, getMetricValue } from '@/lib/proposal-analytics';
+import type { ProposalComparison } from '@/types/oracle/proposal-analytics';
+
+interface IllustrationComparisonTableProps {
+  comparison: ProposalComparison;
+}
+
+export default function IllustrationComparisonTable({ comparison }: IllustrationComparisonTableProps) {
+  const { illustrations, rankings, currency, missingRates } = comparison;
+  if (illustrations.length === 0) {
+    return <p className="text-sm text-gray-500">No illustrations to compare yet.</p>;
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="text-left font-medium text-gray-700 py-2 pr-4">Metric</th>
+              {illustrations.map((analytics) => (
+                <th key={analytics.illustrationId} className="text-right font-medium text-gray-700 py-2 px-4">
+                  {analytics.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {COMPARISON_METRICS.map((metric) => {
+              const ranking = rankings.find((candidate) => candidate.metric === metric.key);
+              const rankCount = ranking ? ranking.entries.length : 0;
+              return (
+                <tr key={metric.key}>
+                  <td className="py-2 pr-4">
+                    <p className="font-medium text-gray-900">{metric.label}</p>
+                    <p className="text-xs text-gray-500">{metric.description}</p>
+                  </td>
+                  {illustrations.map((analytics) => {
+                    const entry = ranking?.entries.find((candidate) => candidate.illustrationId === analytics.illustrationId);
+                    const isFirst = !!entry && entry.rank === 1 && rankCount > 1;
+                    return (
+                      <td
+                        key={analytics.illustrationId}
+                        className={`py-2 px-4 text-right whitespace-nowrap ${isFirst ? 'bg-green-50' : ''}`}
+                      >
+                        <span className={isFirst ? 'font-semibold text-green-800' : 'text-gray-900'}>
+                          {formatMetricValue(metric.format, getMetricValue(analytics, metric.key), currency)}
+                        </span>
+                        {entry && rankCount > 1 && (
+                          <span
+                            className={`ml-2 px-1.5 py-0.5 rounded text-xs font-medium ${
+                              isFirst ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                            }`}
+                          >
+                            #{entry.rank}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {missingRates.length > 0 && (
+        <p className="text-xs text-amber-700 mt-2">
+          Amounts not shown in {currency}: no exchange rate for {missingRates.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+/**
+ * Illustration PDF Viewer Component
+ * The illustration's source PDF page by page, with the region a field was extracted from highlighted
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { useIllustrationPdf } from '@/hooks/oracle';
+import { formatProvenance } from '@/lib/extraction-provenance';
+import type { FieldProvenance } from '@/types/oracle/proposal';
+
+interface IllustrationPdfViewerProps {
+  proposalId: string;
+  illustrationId: string;
+  // The field source to jump to and highlight
+  highlight?: FieldProvenance | null;
+}
+
+interface HighlightBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// pdf.js only runs in the browser, so it is loaded on first use
+async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+  return pdfjs;
+}
+
+export default function IllustrationPdfViewer({ proposalId, illustrationId, highlight }: IllustrationPdfViewerProps) {
+  const { data: pdfBlob, isLoading, error: downloadError } = useIllustrationPdf(proposalId, illustrationId);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [highlightBox, setHighlightBox] = useState<HighlightBox | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  // Open the downloaded file
+  useEffect(() => {
+    if (!pdfBlob) return;
+    let cancelled = false;
+    let opened: PDFDocumentProxy | null = null;
+
+    (async () => {
+      try {
+        const pdfjs = await loadPdfjs();
+        const loaded = await pdfjs.getDocument({ data: await pdfBlob.arrayBuffer() }).promise;
+        if (cancelled) {
+          loaded.destroy();
+          return;
+        }
+        opened = loaded;
+        setPdf(loaded);
+        setLoadError(null);
+      } catch (error) {
+        console.error('Error opening illustration PDF:', error);
+        if (!cancelled) setLoadError('Could not open the PDF');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+      setPdf(null);
+    };
+  }, [pdfBlob]);
+
+  // Jump to the page the highlighted field came from
+  useEffect(() => {
+    if (highlight) setPageNumber(highlight.page);
+  }, [highlight]);
+
+  // Draw the page to fit the pane's width, and place the highlight on it
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+    const page = Math.min(Math.max(pageNumber, 1), pdf.numPages);
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    (async () => {
+      try {
+        const pdfPage = await pdf.getPage(page);
+        if (cancelled || !canvasRef.current || !containerRef.current) return;
+
+        const baseViewport = pdfPage.getViewport({ scale: 1 });
+        const viewport = pdfPage.getViewport({ scale: containerRef.current.clientWidth / baseViewport.width });
+        const outputScale = window.devicePixelRatio || 1;
+        const canvas = canvasRef.current;
+        canvas.width = Math.floor(viewport.width * outputScale);
+        canvas.height = Math.floor(viewport.height * outputScale);
+        canvas.style.width = `${Math.floor(viewport.width)}px`;
+        canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+        const context = canvas.getContext('2d');
+        if (!context) return;
+        renderTask = pdfPage.render({
+          canvasContext: context,
+          viewport,
+          transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+        });
+        await renderTask.promise;
+
+        if (highlight?.bbox && highlight.page === page) {
+          const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(highlight.bbox);
+          setHighlightBox({
+            left: Math.min(x1, x2),
+            top: Math.min(y1, y2),
+            width: Math.abs(x2 - x1),
+            height: Math.abs(y2 - y1),
+          });
+        } else {
+          setHighlightBox(null);
+        }
+      } catch (error: any) {
+        if (error?.name !== 'RenderingCancelledException') {
+          console.error('Error rendering illustration PDF page:', error);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, highlight]);
+
+  useEffect(() => {
+    if (highlightBox) highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlightBox]);
+
+  const numPages = pdf?.numPages || 0;
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-gray-50 flex flex-col h-full min-h-[480px]">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-white rounded-t-lg">
+        <span className="text-sm font-medium text-gray-900">Source PDF</span>
+        {numPages > 0 && (
+          <div className="flex items-center space-x-2 text-sm">
+            <button
+              type="button"
+              onClick={() => setPageNumber((current) => Math.max(current - 1, 1))}
+              disabled={pageNumber <= 1}
+              className="px-2 py-0.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            >
+              ‹
+            </button>
+            <span className="text-gray-600">
+              {pageNumber} / {numPages}
+            </span>
+            <button
+              type="button"
+              onClick={() => setPageNumber((current) => Math.min(current + 1, numPages))}
+              disabled={pageNumber >= numPages}
+              className="px-2 py-0.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            >
+              ›
+            </button>
+          </div>
+        )}
+      </div>
+
+      {highlight && (
+        <p className="px-3 py-1.5 text-xs text-blue-800 bg-blue-50 border-b border-blue-100">
+          {formatProvenance(highlight)}
+          {!highlight.bbox && ' (exact region not recorded)'}
+        </p>
+      )}
+
+      <div className="flex-1 overflow-auto p-2">
+        {isLoading && <p className="text-sm text-gray-500 p-4">Loading PDF...</p>}
+        {(downloadError || loadError) && (
+          <p className="text-sm text-red-600 p-4">{loadError || 'Could not download the PDF'}</p>
+        )}
+        <div ref={containerRef} className="relative w-full">
+          <canvas ref={canvasRef} className={pdf ? 'block shadow-sm bg-white' : 'hidden'} />
+          {highlightBox && (
+            <div
+              ref={highlightRef}
+              className="absolute border-2 border-amber-500 bg-amber-300/30 rounded-sm pointer-events-none"
+              style={highlightBox}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+/**
+ * Illustration Upload Queue Component
+ * Each PDF's upload and extraction stages, with per-file retry and re-extract
+ */
+
+import { isUploadFinished } from '@/lib/illustration-upload-queue';
+import type { IllustrationUploadProgress } from '@/types/upload';
+
+interface IllustrationUploadQueueProps {
+  items: IllustrationUploadProgress[];
+  onRetryUpload: (item: IllustrationUploadProgress) => void;
+  onReextract: (item: IllustrationUploadProgress, scope: 'all' | 'cash_values') => void;
+  onDismiss: (item: IllustrationUploadProgress) => void;
+  onClearFinished: () => void;
+}
+
+const STAGES = [
+  { label: 'Upload', statuses: ['pending', 'uploading'] },
+  { label: 'Extract', statuses: ['extracting'] },
+  { label: 'Cash values', statuses: ['processing'] },
+];
+
+const FAILED_STAGE_INDEX = { upload: 0, extraction: 1, cash_extraction: 2 };
+
+// Index of the stage the item is in, or STAGES.length once completed
+function getStageIndex(item: IllustrationUploadProgress): number {
+  if (item.status === 'completed') return STAGES.length;
+  if (item.status === 'error') return FAILED_STAGE_INDEX[item.failedStage || 'upload'];
+  return STAGES.findIndex((stage) => stage.statuses.indexOf(item.status) >= 0);
+}
+
+function getStatusText(item: IllustrationUploadProgress): string {
+  switch (item.status) {
+    case 'pending':
+      return 'Waiting to upload';
+    case 'uploading':
+      return `Uploading ${item.progress}%`;
+    case 'extracting':
+      return 'Extracting illustration data';
+    case 'processing':
+      return 'Extracting cash values';
+    case 'completed':
+      return 'Ready';
+    default:
+      return item.error || 'Failed';
+  }
+}
+
+function formatFileSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+export default function IllustrationUploadQueue({
+  items,
+  onRetryUpload,
+  onReextract,
+  onDismiss,
+  onClearFinished,
+}: IllustrationUploadQueueProps) {
+  if (items.length === 0) return null;
+
+  const handleReextract = (item: IllustrationUploadProgress) => {
+    const confirmReextract = window.confirm(
+      `Extract "${item.file.name}" again? Its extracted data will be replaced.`
+    );
+    if (confirmReextract) onReextract(item, 'all');
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg mb-6">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+        <span className="text-sm font-medium text-gray-900">Upload queue</span>
+        {items.some(isUploadFinished) && (
+          <button onClick={onClearFinished} className="text-xs text-gray-600 hover:text-gray-900">
+            Clear finished
+          </button>
+        )}
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {items.map((item) => {
+          const stageIndex = getStageIndex(item);
+          return (
+            <li key={item.id} className="px-4 py-3">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {item.file.name}
+                    <span className="ml-2 text-xs font-normal text-gray-500">{formatFileSize(item.file.size)}</span>
+                  </p>
+                  <div className="flex items-center space-x-2 mt-1">
+                    {STAGES.map((stage, index) => (
+                      <span
+                        key={stage.label}
+                        className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          index < stageIndex
+                            ? 'bg-green-100 text-green-800'
+                            : index === stageIndex && item.status === 'error'
+                            ? 'bg-red-100 text-red-800'
+                            : index === stageIndex
+                            ? 'bg-blue-100 text-blue-800'
+                            : 'bg-gray-100 text-gray-500'
+                        }`}
+                      >
+                        {stage.label}
+                      </span>
+                    ))}
+                  </div>
+                  <p className={`text-xs mt-1 ${item.status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+                    {getStatusText(item)}
+                  </p>
+                  {item.status === 'uploading' && (
+                    <div className="mt-2 bg-gray-200 rounded-full h-1.5">
+                      <div className="bg-blue-600 h-1.5 rounded-full transition-all" style={{ width: `${item.progress}%` }}></div>
+                    </div>
+                  )}
+                </div>
+                <div className="flex-shrink-0 flex items-center space-x-3 ml-4 text-xs">
+                  {item.status === 'error' && item.failedStage === 'upload' && (
+                    <button onClick={() => onRetryUpload(item)} className="text-blue-600 hover:text-blue-800">
+                      Retry upload
+                    </button>
+                  )}
+                  {item.status === 'error' && item.failedStage === 'extraction' && (
+                    <button onClick={() => onReextract(item, 'all')} className="text-blue-600 hover:text-blue-800">
+                      Retry extraction
+                    </button>
+                  )}
+                  {item.status === 'error' && item.failedStage === 'cash_extraction' && (
+                    <button onClick={() => onReextract(item, 'cash_values')} className="text-blue-600 hover:text-blue-800">
+                      Retry cash values
+                    </button>
+                  )}
+                  {item.status === 'completed' && (
+                    <button onClick={() => handleReextract(item)} className="text-gray-600 hover:text-gray-900">
+                      Re-extract
+                    </button>
+                  )}
+                  {(isUploadFinished(item) || item.status === 'pending') && (
+                    <button onClick={() => onDismiss(item)} className="text-gray-400 hover:text-gray-600" title="Remove from queue">
+                      ✕
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * Proposal Board Component
+ * Proposals in one column per workflow stage, with counts; drag a card onto the archive zone to archive it
+ */
+
+import { useMemo, useState } from 'react';
+import type { DragEvent } from 'react';
+import Link from 'next/link';
+import {
+  OTHER_BOARD_COLUMN_KEY,
+  PROPOSAL_BOARD_COLUMNS,
+  formatProposalAge,
+  getProposalAgeDays,
+  groupProposalsByColumn,
+  isStaleProposal,
+} from '@/lib/proposal-board';
+import { MAX_ILLUSTRATIONS } from '@/lib/proposal-workflow';
+import type { ProposalListItem } from '@/types/oracle/proposal';
+
+interface ProposalBoardProps {
+  proposals: ProposalListItem[];
+  // Show each card's advisor (team view)
+  showAdvisor?: boolean;
+  // Team members' proposals are read-only to their leader, so they can't be archived from here
+  canArchive?: (proposal: ProposalListItem) => boolean;
+  onArchive: (proposal: ProposalListItem) => void;
+}
+
+const DRAG_TYPE = 'application/x-proposal-id';
+
+export default function ProposalBoard({
+  proposals,
+  showAdvisor = false,
+  canArchive = () => true,
+  onArchive,
+}: ProposalBoardProps) {
+  const columns = useMemo(() => groupProposalsByColumn(proposals), [proposals]);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overArchive, setOverArchive] = useState(false);
+
+  const handleDragStart = (e: DragEvent, proposal: ProposalListItem) => {
+    e.dataTransfer.setData(DRAG_TYPE, proposal.proposal_id);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggingId(proposal.proposal_id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setOverArchive(false);
+  };
+
+  const handleArchiveDragOver = (e: DragEvent) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setOverArchive(true);
+  };
+
+  const handleArchiveDrop = (e: DragEvent) => {
+    e.preventDefault();
+    const proposalId = e.dataTransfer.getData(DRAG_TYPE) || draggingId;
+    const proposal = proposals.find((candidate) => candidate.proposal_id === proposalId);
+    handleDragEnd();
+    if (proposal) onArchive(proposal);
+  };
+
+  return (
+    <div>
+      <div
+        onDragOver={handleArchiveDragOver}
+        onDragLeave={() => setOverArchive(false)}
+        onDrop={handleArchiveDrop}
+        className={`mb-4 rounded-xl border-2 border-dashed px-4 py-3 text-center text-sm transition-colors ${
+          overArchive
+            ? 'border-gray-700 bg-gray-100 text-gray-900'
+            : draggingId
+            ? 'border-gray-400 bg-white/70 text-gray-700'
+            : 'border-gray-200 bg-white/40 text-gray-400'
+        }`}
+      >
+        {draggingId ? 'Drop here to archive' : 'Drag a card here to archive it'}
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {PROPOSAL_BOARD_COLUMNS.map((column) => {
+          const cards = columns[column.key];
+          if (column.key === OTHER_BOARD_COLUMN_KEY && cards.length === 0) return null;
+          return (
+            <div key={column.key} className="flex-shrink-0 w-72 bg-white/50 rounded-2xl border border-white/40 shadow">
+              <div className={`flex items-center justify-between px-4 py-3 border-t-4 rounded-t-2xl ${column.accent}`}>
+                <h3 className="text-sm font-semibold text-gray-900">{column.label}</h3>
+                <span className="px-2 py-0.5 rounded-full bg-gray-100 text-xs font-medium text-gray-700">
+                  {cards.length}
+                </span>
+              </div>
+
+              <div className="px-3 pb-3 space-y-3 max-h-[70vh] overflow-y-auto">
+                {cards.length === 0 && <p className="text-xs text-gray-400 text-center py-4">No proposals</p>}
+                {cards.map((proposal) => {
+                  const ageDays = getProposalAgeDays(proposal);
+                  const archivable = canArchive(proposal);
+                  return (
+                    <Link
+                      key={proposal.proposal_id}
+                      href={`/oracle/proposals/${proposal.proposal_id}`}
+                      draggable={archivable}
+                      onDragStart={(e) => (archivable ? handleDragStart(e, proposal) : e.preventDefault())}
+                      onDragEnd={handleDragEnd}
+                      className={`block bg-white rounded-xl border border-gray-200 p-3 shadow-sm hover:shadow-md transition-shadow ${
+                        archivable ? 'cursor-grab' : 'cursor-pointer'
+                      } ${draggingId === proposal.proposal_id ? 'opacity-50' : ''}`}
+                    >
+                      <p className="text-sm font-semibold text-gray-900 truncate">{proposal.client_name}</p>
+                      {proposal.highlighted_insurance_name && (
+                        <p className="text-xs text-gray-600 truncate mt-0.5">{proposal.highlighted_insurance_name}</p>
+                      )}
+                      <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+                        <span>
+                          {proposal.illustration_count}/{MAX_ILLUSTRATIONS} illustrations
+                        </span>
+                        <span
+                          className={isStaleProposal(proposal) ? 'text-amber-700 font-medium' : ''}
+                          title={`Created ${new Date(proposal.created_at).toLocaleDateString()}`}
+                        >
+                          {formatProposalAge(ageDays)}
+                        </span>
+                      </div>
+                      {showAdvisor && proposal.created_by && (
+                        <p className="text-xs text-gray-500 mt-1 truncate">👤 {proposal.created_by.name}</p>
+                      )}
+                    </Link>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
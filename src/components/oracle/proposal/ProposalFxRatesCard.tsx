@@ -0,0 +1,239 @@
+/**
+ * Proposal FX Rates Card Component
+ * The exchange rates a proposal is converted with, with refresh and manual override
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import {
+  useClearProposalFxRateOverride,
+  useFxRate,
+  useOverrideProposalFxRate,
+  useRefreshProposalFxRates,
+} from '@/hooks/oracle';
+import { findProposalFxRate, formatFxRate, formatRatesAsOf, getFxOverrideError, isFxRateOverridden } from '@/lib/fx-rates';
+import type { Proposal } from '@/types/oracle/proposal';
+
+interface ProposalFxRatesCardProps {
+  proposal: Proposal;
+  // Currencies of the uploaded illustrations
+  sourceCurrencies: string[];
+  // Called after the rates change, so the editor can reload the proposal and reconvert
+  onChanged: () => void;
+}
+
+interface FxRateRowProps {
+  proposal: Proposal;
+  fromCurrency: string;
+  toCurrency: string;
+  onChanged: () => void;
+}
+
+function FxRateRow({ proposal, fromCurrency, toCurrency, onChanged }: FxRateRowProps) {
+  const [editing, setEditing] = useState(false);
+  const [rate, setRate] = useState('');
+  const [reason, setReason] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const snapshot = findProposalFxRate(proposal.fx_rates, fromCurrency, toCurrency);
+  const { data: quote, isLoading, isError } = useFxRate(fromCurrency, toCurrency, !snapshot);
+  const overrideRate = useOverrideProposalFxRate(proposal.proposal_id);
+  const clearOverride = useClearProposalFxRateOverride(proposal.proposal_id);
+
+  const startEditing = () => {
+    setRate(String(snapshot?.rate ?? quote?.rate ?? ''));
+    setReason('');
+    setFormError(null);
+    setEditing(true);
+  };
+
+  const handleSave = () => {
+    const error = getFxOverrideError(rate, reason);
+    setFormError(error);
+    if (error) return;
+
+    overrideRate.mutate(
+      { fromCurrency, data: { rate: Number(rate), reason: reason.trim() } },
+      {
+        onSuccess: () => {
+          toast.success(`${fromCurrency} rate overridden`);
+          setEditing(false);
+          onChanged();
+        },
+        onError: (error: any) => {
+          console.error('Error overriding exchange rate:', error);
+          toast.error(error.detail || 'Failed to override exchange rate');
+        },
+      }
+    );
+  };
+
+  const handleClear = () => {
+    clearOverride.mutate(fromCurrency, {
+      onSuccess: () => {
+        toast.success(`${fromCurrency} is back on the market rate`);
+        onChanged();
+      },
+      onError: (error: any) => {
+        console.error('Error clearing exchange rate override:', error);
+        toast.error(error.detail || 'Failed to clear override');
+      },
+    });
+  };
+
+  return (
+    <li className="py-3">
+      <div className="flex items-start justify-between">
+        <div>
+          {snapshot ? (
+            <>
+              <p className="text-sm font-medium text-gray-900">{formatFxRate(snapshot)}</p>
+              {isFxRateOverridden(snapshot) ? (
+                <p className="text-xs text-amber-700 mt-1">
+                  Manual{snapshot.overridden_by && <> by {snapshot.overridden_by.name}</>}: {snapshot.override_reason}
+                  {snapshot.market_rate && <> (market {snapshot.market_rate})</>}
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">
+                  {snapshot.source} · as of {format(new Date(snapshot.as_of), 'd MMM yyyy, HH:mm')}
+                </p>
+              )}
+            </>
+          ) : isLoading ? (
+            <p className="text-sm text-gray-500">Loading {fromCurrency} rate...</p>
+          ) : isError || !quote ? (
+            <p className="text-sm text-red-600">{fromCurrency} rate unavailable</p>
+          ) : (
+            <>
+              <p className="text-sm font-medium text-gray-900">{formatFxRate(quote)}</p>
+              <p className="text-xs text-gray-500 mt-1">Live rate · captured when the proposal is generated</p>
+            </>
+          )}
+        </div>
+        {!editing && (
+          <div className="flex items-center space-x-3 text-sm">
+            {snapshot && isFxRateOverridden(snapshot) && (
+              <button
+                onClick={handleClear}
+                disabled={clearOverride.isPending}
+                className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              >
+                Use market rate
+              </button>
+            )}
+            <button onClick={startEditing} className="text-blue-600 hover:text-blue-800">
+              Override
+            </button>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="text-gray-700">1 {fromCurrency} =</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              className="w-32 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-gray-700">{toCurrency}</span>
+          </div>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason, e.g. rate agreed with the client"
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {formError && <p className="text-xs text-red-600">{formError}</p>}
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setEditing(false)}
+              className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={overrideRate.isPending}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {overrideRate.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function ProposalFxRatesCard({ proposal, sourceCurrencies, onChanged }: ProposalFxRatesCardProps) {
+  const targetCurrency = proposal.target_currency || 'MYR';
+  const refreshRates = useRefreshProposalFxRates(proposal.proposal_id);
+  const foreignCurrencies = sourceCurrencies.filter((currency) => currency !== targetCurrency);
+  const ratesAsOf = formatRatesAsOf(proposal.fx_rates);
+
+  const handleRefresh = () => {
+    const confirmRefresh = window.confirm(
+      "Replace the captured rates (and any overrides) with today's market rates? The client's converted numbers will change."
+    );
+    if (!confirmRefresh) return;
+
+    refreshRates.mutate(undefined, {
+      onSuccess: () => {
+        toast.success("Rates updated to today's market rates");
+        onChanged();
+      },
+      onError: (error: any) => {
+        console.error('Error refreshing exchange rates:', error);
+        toast.error(error.detail || 'Failed to refresh exchange rates');
+      },
+    });
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xl font-semibold text-gray-900">Exchange Rates</h2>
+        {proposal.fx_rates && proposal.fx_rates.length > 0 && (
+          <button
+            onClick={handleRefresh}
+            disabled={refreshRates.isPending}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {refreshRates.isPending ? 'Refreshing...' : "Use today's rates"}
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-2">
+        {ratesAsOf
+          ? `${ratesAsOf}. Regenerating keeps these rates.`
+          : 'Rates are captured when the proposal is first generated.'}
+      </p>
+
+      {foreignCurrencies.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {sourceCurrencies.length === 0
+            ? 'Upload illustrations to see their exchange rates.'
+            : `All illustrations are already in ${targetCurrency}.`}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {foreignCurrencies.map((currency) => (
+            <FxRateRow
+              key={currency}
+              proposal={proposal}
+              fromCurrency={currency}
+              toCurrency={targetCurrency}
+              onChanged={onChanged}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * Proposal Page Editor Component
+ * Edit a generated proposal page in place: headings, lists, bold and tables, keeping the page's styles
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { MouseEvent, ReactNode } from 'react';
+import {
+  cleanEditedHtml,
+  createTableHtml,
+  deleteColumn,
+  deleteRow,
+  getSelectedCell,
+  insertColumnAfter,
+  insertRowAfter,
+  joinPageHtml,
+  splitPageHtml,
+} from '@/lib/proposal-page-editing';
+
+interface ProposalPageEditorProps {
+  // The page document as shown in the preview
+  html: string;
+  isSaving: boolean;
+  onSave: (html: string) => void;
+  onCancel: () => void;
+}
+
+const BLOCK_FORMATS = [
+  { tag: 'p', label: 'Paragraph' },
+  { tag: 'h1', label: 'Heading 1' },
+  { tag: 'h2', label: 'Heading 2' },
+  { tag: 'h3', label: 'Heading 3' },
+];
+
+function ToolbarButton({ title, onClick, children }: { title: string; onClick: () => void; children: ReactNode }) {
+  // Acting on mouse down keeps the selection in the page
+  const handleMouseDown = (e: MouseEvent) => {
+    e.preventDefault();
+    onClick();
+  };
+  return (
+    <button
+      type="button"
+      title={title}
+      onMouseDown={handleMouseDown}
+      className="px-2 py-1 rounded text-sm text-gray-700 hover:bg-gray-100 min-w-[28px]"
+    >
+      {children}
+    </button>
+  );
+}
+
+export default function ProposalPageEditor({ html, isSaving, onSave, onCancel }: ProposalPageEditorProps) {
+  const parts = useMemo(() => splitPageHtml(html), [html]);
+  const editableRef = useRef<HTMLDivElement>(null);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // The editable area is left to the browser once filled, so typing doesn't reset the caret
+  useEffect(() => {
+    if (editableRef.current) editableRef.current.innerHTML = parts.body;
+    setIsDirty(false);
+  }, [parts.body]);
+
+  const runCommand = (command: string, value?: string) => {
+    editableRef.current?.focus();
+    document.execCommand(command, false, value);
+    setIsDirty(true);
+  };
+
+  const runTableCommand = (action: (cell: HTMLTableCellElement) => void) => {
+    if (!editableRef.current) return;
+    const cell = getSelectedCell(editableRef.current);
+    if (!cell) return;
+    action(cell);
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    if (!editableRef.current) return;
+    onSave(joinPageHtml(html, cleanEditedHtml(editableRef.current.innerHTML)));
+  };
+
+  const handleCancel = () => {
+    if (isDirty && !window.confirm('Discard your changes to this page?')) return;
+    onCancel();
+  };
+
+  return (
+    <div>
+      <div className="sticky top-0 z-10 flex flex-wrap items-center gap-1 px-4 py-2 bg-white border-b border-gray-200">
+        <select
+          defaultValue=""
+          onChange={(e) => {
+            if (e.target.value) runCommand('formatBlock', e.target.value);
+            e.target.value = '';
+          }}
+          className="text-sm border border-gray-300 rounded px-2 py-1 mr-2"
+        >
+          <option value="" disabled>
+            Text style
+          </option>
+          {BLOCK_FORMATS.map((format) => (
+            <option key={format.tag} value={format.tag}>
+              {format.label}
+            </option>
+          ))}
+        </select>
+
+        <ToolbarButton title="Bold" onClick={() => runCommand('bold')}>
+          <span className="font-bold">B</span>
+        </ToolbarButton>
+        <ToolbarButton title="Italic" onClick={() => runCommand('italic')}>
+          <span className="italic">I</span>
+        </ToolbarButton>
+        <ToolbarButton title="Underline" onClick={() => runCommand('underline')}>
+          <span className="underline">U</span>
+        </ToolbarButton>
+
+        <span className="w-px h-5 bg-gray-200 mx-1" />
+        <ToolbarButton title="Bulleted list" onClick={() => runCommand('insertUnorderedList')}>
+          • List
+        </ToolbarButton>
+        <ToolbarButton title="Numbered list" onClick={() => runCommand('insertOrderedList')}>
+          1. List
+        </ToolbarButton>
+
+        <span className="w-px h-5 bg-gray-200 mx-1" />
+        <ToolbarButton title="Insert a 3 × 3 table" onClick={() => runCommand('insertHTML', createTableHtml(3, 3))}>
+          Table
+        </ToolbarButton>
+        <ToolbarButton title="Add a row below" onClick={() => runTableCommand(insertRowAfter)}>
+          + Row
+        </ToolbarButton>
+        <ToolbarButton title="Add a column to the right" onClick={() => runTableCommand(insertColumnAfter)}>
+          + Column
+        </ToolbarButton>
+        <ToolbarButton title="Delete this row" onClick={() => runTableCommand(deleteRow)}>
+          − Row
+        </ToolbarButton>
+        <ToolbarButton title="Delete this column" onClick={() => runTableCommand(deleteColumn)}>
+          − Column
+        </ToolbarButton>
+
+        <span className="w-px h-5 bg-gray-200 mx-1" />
+        <ToolbarButton title="Undo" onClick={() => runCommand('undo')}>
+          ↶
+        </ToolbarButton>
+        <ToolbarButton title="Redo" onClick={() => runCommand('redo')}>
+          ↷
+        </ToolbarButton>
+
+        <div className="ml-auto flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={handleCancel}
+            disabled={isSaving}
+            className="px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || !isDirty}
+            className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save page'}
+          </button>
+        </div>
+      </div>
+
+      <div className="proposal-page-viewer">
+        <div className="proposal-content">
+          <div dangerouslySetInnerHTML={{ __html: parts.styles }} />
+          <div
+            ref={editableRef}
+            contentEditable={!isSaving}
+            suppressContentEditableWarning
+            onInput={() => setIsDirty(true)}
+            className="outline-none focus:ring-2 focus:ring-blue-200"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+/**
+ * Proposal Template Editor Component
+ * Modal for editing a template's sections, cover, disclaimers and branding
+ */
+
+import { useState } from 'react';
+import {
+  MAX_BASE_FONT_SIZE,
+  MIN_BASE_FONT_SIZE,
+  PROPOSAL_SECTIONS,
+  TEMPLATE_FONTS,
+  getProposalSection,
+  getTemplateValidationError,
+  isHexColor,
+} from '@/lib/proposal-templates';
+import type {
+  ProposalSectionKey,
+  ProposalTemplateCreate,
+  ProposalTemplatePalette,
+} from '@/types/oracle/proposal-template';
+
+interface ProposalTemplateEditorProps {
+  initialValue: ProposalTemplateCreate;
+  isNew: boolean;
+  saving: boolean;
+  onSave: (template: ProposalTemplateCreate) => void;
+  onClose: () => void;
+}
+
+const PALETTE_FIELDS: { key: keyof ProposalTemplatePalette; label: string }[] = [
+  { key: 'primary', label: 'Primary' },
+  { key: 'secondary', label: 'Secondary' },
+  { key: 'accent', label: 'Accent' },
+  { key: 'text', label: 'Text' },
+  { key: 'background', label: 'Background' },
+];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export default function ProposalTemplateEditor({
+  initialValue,
+  isNew,
+  saving,
+  onSave,
+  onClose,
+}: ProposalTemplateEditorProps) {
+  const [template, setTemplate] = useState<ProposalTemplateCreate>(initialValue);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<ProposalTemplateCreate>) => {
+    setTemplate((current) => ({ ...current, ...changes }));
+  };
+
+  const toggleSection = (key: ProposalSectionKey) => {
+    update({
+      sections: template.sections.includes(key)
+        ? template.sections.filter((section) => section !== key)
+        : [...template.sections, key],
+    });
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const sections = [...template.sections];
+    const [section] = sections.splice(index, 1);
+    sections.splice(index + offset, 0, section);
+    update({ sections });
+  };
+
+  const updateDisclaimer = (index: number, field: 'title' | 'body', value: string) => {
+    update({
+      disclaimers: template.disclaimers.map((disclaimer, i) =>
+        i === index ? { ...disclaimer, [field]: value } : disclaimer
+      ),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = getTemplateValidationError(template);
+    setError(validationError);
+    if (!validationError) {
+      onSave(template);
+    }
+  };
+
+  const excludedSections = PROPOSAL_SECTIONS.filter((section) => !template.sections.includes(section.key));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">{isNew ? 'New Proposal Template' : 'Edit Proposal Template'}</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Details */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={template.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="e.g. Private Wealth"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Audience</label>
+              <input
+                type="text"
+                value={template.audience || ''}
+                onChange={(e) => update({ audience: e.target.value })}
+                placeholder="e.g. High net worth clients"
+                className={inputClassName}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <textarea
+                value={template.description || ''}
+                onChange={(e) => update({ description: e.target.value })}
+                rows={2}
+                className={inputClassName}
+              />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={template.is_default}
+                onChange={(e) => update({ is_default: e.target.checked })}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span>Preselect for new proposals</span>
+            </label>
+          </div>
+
+          {/* Sections */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Sections</h4>
+            <ol className="space-y-2">
+              {template.sections.map((key, index) => {
+                const section = getProposalSection(key);
+                return (
+                  <li key={key} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                    <div>
+                      <span className="text-sm font-medium text-gray-900">
+                        {index + 1}. {section.label}
+                      </span>
+                      <p className="text-xs text-gray-500">{section.description}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => moveSection(index, -1)}
+                        disabled={index === 0}
+                        className="px-2 py-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                        aria-label={`Move ${section.label} up`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveSection(index, 1)}
+                        disabled={index === template.sections.length - 1}
+                        className="px-2 py-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                        aria-label={`Move ${section.label} down`}
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => toggleSection(key)}
+                        className="px-2 py-1 text-xs text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+            {excludedSections.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {excludedSections.map((section) => (
+                  <button
+                    key={section.key}
+                    type="button"
+                    onClick={() => toggleSection(section.key)}
+                    className="px-3 py-1 text-xs border border-dashed border-gray-300 rounded-full text-gray-600 hover:border-blue-400 hover:text-blue-700"
+                  >
+                    + {section.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Cover */}
+          <div>
+            <label className="flex items-center space-x-2 text-sm font-semibold text-gray-900 mb-2">
+              <input
+                type="checkbox"
+                checked={!!template.cover}
+                onChange={(e) => update({ cover: e.target.checked ? { title: 'Insurance Proposal for {client_name}' } : null })}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span>Cover page</span>
+            </label>
+            {template.cover && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <input
+                  type="text"
+                  value={template.cover.title}
+                  onChange={(e) => update({ cover: { ...template.cover!, title: e.target.value } })}
+                  placeholder="Title"
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  value={template.cover.subtitle || ''}
+                  onChange={(e) => update({ cover: { ...template.cover!, subtitle: e.target.value } })}
+                  placeholder="Subtitle (optional)"
+                  className={inputClassName}
+                />
+                <p className="md:col-span-2 text-xs text-gray-500">
+                  {'{client_name}'} is replaced with the client&apos;s name.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Disclaimers */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-gray-900">Disclaimers</h4>
+              <button
+                type="button"
+                onClick={() => update({ disclaimers: [...template.disclaimers, { title: '', body: '' }] })}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                + Add disclaimer
+              </button>
+            </div>
+            {template.disclaimers.length === 0 ? (
+              <p className="text-xs text-gray-500">Disclaimers are added as the last page of the proposal.</p>
+            ) : (
+              <div className="space-y-3">
+                {template.disclaimers.map((disclaimer, index) => (
+                  <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={disclaimer.title}
+                        onChange={(e) => updateDisclaimer(index, 'title', e.target.value)}
+                        placeholder="Title"
+                        className={inputClassName}
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          update({ disclaimers: template.disclaimers.filter((_, i) => i !== index) })
+                        }
+                        className="px-2 py-1 text-xs text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <textarea
+                      value={disclaimer.body}
+                      onChange={(e) => updateDisclaimer(index, 'body', e.target.value)}
+                      rows={3}
+                      placeholder="Disclaimer text"
+                      className={inputClassName}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Branding */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Colour palette</h4>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {PALETTE_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-xs text-gray-600 mb-1">{label}</label>
+                  <div className="flex items-center space-x-1">
+                    <input
+                      type="color"
+                      value={isHexColor(template.palette[key]) ? template.palette[key] : '#000000'}
+                      onChange={(e) => update({ palette: { ...template.palette, [key]: e.target.value } })}
+                      className="h-8 w-8 border border-gray-300 rounded cursor-pointer"
+                    />
+                    <input
+                      type="text"
+                      value={template.palette[key]}
+                      onChange={(e) => update({ palette: { ...template.palette, [key]: e.target.value } })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Typography</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Heading font</label>
+                <select
+                  value={template.typography.heading_font}
+                  onChange={(e) => update({ typography: { ...template.typography, heading_font: e.target.value } })}
+                  className={inputClassName}
+                >
+                  {TEMPLATE_FONTS.map((font) => (
+                    <option key={font} value={font}>
+                      {font}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Body font</label>
+                <select
+                  value={template.typography.body_font}
+                  onChange={(e) => update({ typography: { ...template.typography, body_font: e.target.value } })}
+                  className={inputClassName}
+                >
+                  {TEMPLATE_FONTS.map((font) => (
+                    <option key={font} value={font}>
+                      {font}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Base font size (pt)</label>
+                <input
+                  type="number"
+                  min={MIN_BASE_FONT_SIZE}
+                  max={MAX_BASE_FONT_SIZE}
+                  value={template.typography.base_font_size}
+                  onChange={(e) =>
+                    update({ typography: { ...template.typography, base_font_size: Number(e.target.value) } })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-6 border-t border-gray-200">
+          <p className="text-sm text-red-600">{error}</p>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
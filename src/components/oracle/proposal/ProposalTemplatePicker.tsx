@@ -0,0 +1,80 @@
+/**
+ * Proposal Template Picker Component
+ * Choose the company template a new proposal is generated with
+ */
+
+import { useEffect } from 'react';
+import { useProposalTemplates } from '@/hooks/oracle';
+import { getDefaultTemplate, getProposalSection } from '@/lib/proposal-templates';
+
+interface ProposalTemplatePickerProps {
+  value: string | undefined;
+  onChange: (templateId: string | undefined) => void;
+}
+
+export default function ProposalTemplatePicker({ value, onChange }: ProposalTemplatePickerProps) {
+  const { data: templates = [], isLoading, isError } = useProposalTemplates();
+
+  // Preselect the company default once the templates arrive
+  useEffect(() => {
+    if (!value && templates.length > 0) {
+      onChange(getDefaultTemplate(templates)?.template_id);
+    }
+  }, [value, templates, onChange]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center space-x-2 p-4 border border-gray-200 rounded-lg">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+        <span className="text-sm text-gray-600">Loading templates...</span>
+      </div>
+    );
+  }
+
+  if (isError || templates.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 p-4 border border-gray-200 rounded-lg">
+        {isError
+          ? 'Templates could not be loaded. The proposal will use the standard layout.'
+          : 'Your company has no proposal templates yet. The proposal will use the standard layout.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {templates.map((template) => {
+        const selected = template.template_id === value;
+        return (
+          <button
+            key={template.template_id}
+            type="button"
+            onClick={() => onChange(template.template_id)}
+            className={`text-left p-4 border rounded-lg transition-colors ${
+              selected ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-200' : 'border-gray-200 hover:border-blue-300'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium text-gray-900">{template.name}</span>
+              <div className="flex space-x-1">
+                {[template.palette.primary, template.palette.secondary, template.palette.accent].map((color, index) => (
+                  <span
+                    key={index}
+                    className="h-4 w-4 rounded-full border border-gray-200"
+                    style={{ backgroundColor: color }}
+                  ></span>
+                ))}
+              </div>
+            </div>
+            {template.audience && <p className="text-xs text-blue-700 mb-1">{template.audience}</p>}
+            {template.description && <p className="text-xs text-gray-600 mb-1">{template.description}</p>}
+            <p className="text-xs text-gray-500">
+              {template.sections.map((section) => getProposalSection(section)?.label || section).join(' · ')}
+              {template.is_default && ' · Default'}
+            </p>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * Revision Diff Modal
+ * Side-by-side comparison of a revision with the one before it, with restore
+ */
+
+import { format } from 'date-fns';
+import { useProposalRevision } from '@/hooks/oracle';
+import { diffRevisionSnapshots, getRevisionTriggerLabel } from '@/lib/proposal-revisions';
+import type { ProposalRevision } from '@/types/oracle/proposal';
+
+interface RevisionDiffModalProps {
+  proposalId: string;
+  revision: ProposalRevision;
+  previousRevision: ProposalRevision | null;
+  restoring: boolean;
+  onRestore: (revision: ProposalRevision) => void;
+  onClose: () => void;
+}
+
+function formatRevisionTitle(revision: ProposalRevision) {
+  return `#${revision.revision_number} · ${format(new Date(revision.created_at), 'd MMM yyyy, HH:mm')}`;
+}
+
+export default function RevisionDiffModal({
+  proposalId,
+  revision,
+  previousRevision,
+  restoring,
+  onRestore,
+  onClose,
+}: RevisionDiffModalProps) {
+  const { data: detail, isLoading: loadingDetail, isError: detailFailed } = useProposalRevision(
+    proposalId,
+    revision.revision_id
+  );
+  const { data: previousDetail, isLoading: loadingPrevious, isError: previousFailed } = useProposalRevision(
+    proposalId,
+    previousRevision?.revision_id || null
+  );
+
+  const loading = loadingDetail || (!!previousRevision && loadingPrevious);
+  const failed = detailFailed || previousFailed;
+  const sections = detail && previousDetail ? diffRevisionSnapshots(previousDetail.snapshot, detail.snapshot) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-5xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">{getRevisionTriggerLabel(revision.trigger)}</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Revision {formatRevisionTitle(revision)}
+              {revision.created_by && <> by {revision.created_by.name}</>}
+            </p>
+            {revision.summary && <p className="text-sm text-gray-700 mt-1">{revision.summary}</p>}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : failed ? (
+            <p className="text-sm text-red-600 text-center py-12">Failed to load this revision. Please try again.</p>
+          ) : !previousRevision ? (
+            <p className="text-sm text-gray-600 text-center py-12">
+              This is the first revision of the proposal, so there is nothing earlier to compare it with.
+            </p>
+          ) : sections.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-12">
+              Nothing changed since revision {formatRevisionTitle(previousRevision)}.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)_minmax(0,2fr)] gap-3 text-xs font-medium text-gray-500 uppercase tracking-wide">
+                <span>Field</span>
+                <span>Before · {formatRevisionTitle(previousRevision)}</span>
+                <span>After · {formatRevisionTitle(revision)}</span>
+              </div>
+
+              {sections.map((section) => (
+                <div key={section.title}>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">{section.title}</h4>
+                  <div className="space-y-2">
+                    {section.changes.map((change) => (
+                      <div
+                        key={change.field}
+                        className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)_minmax(0,2fr)] gap-3 text-sm"
+                      >
+                        <span className="text-gray-600 break-words">{change.label}</span>
+                        <div className="bg-red-50 border border-red-100 rounded px-2 py-1 whitespace-pre-wrap break-words text-red-900">
+                          {change.before ?? <span className="italic text-gray-400">Not set</span>}
+                        </div>
+                        <div className="bg-green-50 border border-green-100 rounded px-2 py-1 whitespace-pre-wrap break-words text-green-900">
+                          {change.after ?? <span className="italic text-gray-400">Not set</span>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => onRestore(revision)}
+            disabled={restoring}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {restoring ? 'Restoring...' : 'Restore this revision'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Revision Timeline Component
+ * Every save and regeneration of a proposal, newest first, with diff and restore
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { useProposalRevisions, useRestoreProposalRevision } from '@/hooks/oracle';
+import { getRevisionTriggerLabel, isClientFacingRevision } from '@/lib/proposal-revisions';
+import type { ProposalRevision, ProposalRevisionDetail } from '@/types/oracle/proposal';
+import RevisionDiffModal from './RevisionDiffModal';
+
+interface RevisionTimelineProps {
+  proposalId: string;
+  onRestored: (revision: ProposalRevisionDetail) => void;
+}
+
+export default function RevisionTimeline({ proposalId, onRestored }: RevisionTimelineProps) {
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const [clientFacingOnly, setClientFacingOnly] = useState(false);
+  const { data: revisions = [], isLoading, isError } = useProposalRevisions(proposalId);
+  const restoreRevision = useRestoreProposalRevision(proposalId);
+
+  const visibleRevisions = clientFacingOnly
+    ? revisions.filter((revision) => isClientFacingRevision(revision.trigger))
+    : revisions;
+
+  // Revisions are newest first, so the one before the selected revision follows it
+  const selectedIndex = revisions.findIndex((revision) => revision.revision_id === selectedRevisionId);
+  const selectedRevision = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const previousRevision = selectedIndex >= 0 ? revisions[selectedIndex + 1] || null : null;
+
+  const handleRestore = (revision: ProposalRevision) => {
+    const confirmRestore = window.confirm(
+      `Restore revision #${revision.revision_number}? The proposal details, illustration edits and generated content will be replaced with this revision. The current state stays in the history.`
+    );
+    if (!confirmRestore) return;
+
+    restoreRevision.mutate(revision.revision_id, {
+      onSuccess: (restored) => {
+        toast.success(`Restored revision #${revision.revision_number}`);
+        setSelectedRevisionId(null);
+        onRestored(restored);
+      },
+      onError: (error: any) => {
+        console.error('Error restoring revision:', error);
+        toast.error(error.detail || 'Failed to restore revision');
+      },
+    });
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Revision History</h2>
+        <label className="flex items-center space-x-2 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={clientFacingOnly}
+            onChange={(e) => setClientFacingOnly(e.target.checked)}
+            className="h-3 w-3 text-blue-600 border-gray-300 rounded"
+          />
+          <span>Shown to client only</span>
+        </label>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : isError ? (
+        <p className="text-sm text-red-600">Failed to load revision history</p>
+      ) : visibleRevisions.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {clientFacingOnly
+            ? 'This proposal has not been generated for the client yet.'
+            : 'Revisions appear here each time the proposal is saved or regenerated.'}
+        </p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4 max-h-96 overflow-y-auto">
+          {visibleRevisions.map((revision) => {
+            const clientFacing = isClientFacingRevision(revision.trigger);
+            return (
+              <li key={revision.revision_id} className="ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                    clientFacing ? 'bg-green-500' : 'bg-gray-300'
+                  }`}
+                ></span>
+                <button
+                  onClick={() => setSelectedRevisionId(revision.revision_id)}
+                  className="text-left w-full rounded-lg px-2 py-1 hover:bg-blue-50 transition-colors"
+                >
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-gray-900">{getRevisionTriggerLabel(revision.trigger)}</span>
+                    {clientFacing && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        Shown to client
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    #{revision.revision_number} · {format(new Date(revision.created_at), 'd MMM yyyy, HH:mm')}
+                    {revision.created_by && <> · {revision.created_by.name}</>}
+                  </p>
+                  {revision.summary && <p className="text-xs text-gray-600 mt-0.5">{revision.summary}</p>}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {selectedRevision && (
+        <RevisionDiffModal
+          proposalId={proposalId}
+          revision={selectedRevision}
+          previousRevision={previousRevision}
+          restoring={restoreRevision.isPending}
+          onRestore={handleRestore}
+          onClose={() => setSelectedRevisionId(null)}
+        />
+      )}
+    </div>
+  );
+}
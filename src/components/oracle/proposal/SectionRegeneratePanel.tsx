@@ -0,0 +1,167 @@
+/**
+ * Section Regenerate Panel Component
+ * Regenerate one AI-written section with a tone and instructions, then compare the draft before accepting it
+ */
+
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { TONE_PRESETS } from '@/lib/proposal-content';
+import type { ProposalContentGuidance, ProposalContentTone } from '@/types/oracle/proposal';
+
+interface SectionRegeneratePanelProps<T> {
+  sectionLabel: string;
+  // The section as it is now, including the advisor's edits
+  currentText: string;
+  onGenerate: (guidance: ProposalContentGuidance) => Promise<T>;
+  describe: (draft: T) => string;
+  // Apply the draft; the current text stays if this throws
+  onAccept: (draft: T) => Promise<void>;
+  disabled?: boolean;
+}
+
+export default function SectionRegeneratePanel<T>({
+  sectionLabel,
+  currentText,
+  onGenerate,
+  describe,
+  onAccept,
+  disabled = false,
+}: SectionRegeneratePanelProps<T>) {
+  const [open, setOpen] = useState(false);
+  const [tone, setTone] = useState<ProposalContentTone | null>(null);
+  const [instructions, setInstructions] = useState('');
+  const [draft, setDraft] = useState<T | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [accepting, setAccepting] = useState(false);
+
+  const close = () => {
+    setOpen(false);
+    setDraft(null);
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      setDraft(await onGenerate({ tone, instructions: instructions.trim() }));
+    } catch (error: any) {
+      console.error(`Error regenerating ${sectionLabel}:`, error);
+      toast.error(error.detail || `Failed to regenerate ${sectionLabel}`);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (draft === null) return;
+    setAccepting(true);
+    try {
+      await onAccept(draft);
+      toast.success(`${sectionLabel} updated`);
+      close();
+      setInstructions('');
+    } catch (error: any) {
+      console.error(`Error accepting ${sectionLabel} draft:`, error);
+      toast.error(error.detail || `Failed to update ${sectionLabel}`);
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm rounded-lg transition-colors flex items-center space-x-1.5 border border-gray-300 disabled:opacity-50"
+        title={`Regenerate ${sectionLabel} with new guidance`}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+        </svg>
+        <span>Regenerate</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full mt-4 border border-purple-200 bg-purple-50/50 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium text-purple-900">Regenerate {sectionLabel}</h4>
+        <button onClick={close} className="text-gray-400 hover:text-gray-600 text-sm" title="Close">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="text-xs text-gray-600">Tone:</span>
+        {TONE_PRESETS.map((preset) => (
+          <button
+            key={preset.value}
+            onClick={() => setTone(tone === preset.value ? null : preset.value)}
+            className={`px-2.5 py-1 rounded-full text-xs font-medium border ${
+              tone === preset.value
+                ? 'bg-purple-600 text-white border-purple-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        rows={2}
+        value={instructions}
+        onChange={(e) => setInstructions(e.target.value)}
+        placeholder='Optional instructions, e.g. "make it shorter" or "emphasise legacy planning"'
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+      />
+
+      <div className="flex justify-end mt-2">
+        <button
+          onClick={handleGenerate}
+          disabled={generating || accepting}
+          className="px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50 flex items-center space-x-2"
+        >
+          {generating && <div className="animate-spin rounded-full h-3.5 w-3.5 border-b-2 border-white"></div>}
+          <span>{draft === null ? 'Generate draft' : 'Try again'}</span>
+        </button>
+      </div>
+
+      {draft !== null && (
+        <div className="mt-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs font-medium text-gray-600 mb-1">Current</p>
+              <div className="bg-white border border-gray-200 rounded-lg p-3 text-sm text-gray-700 whitespace-pre-wrap max-h-72 overflow-y-auto">
+                {currentText || 'No content yet'}
+              </div>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-purple-700 mb-1">New draft</p>
+              <div className="bg-white border border-purple-300 rounded-lg p-3 text-sm text-gray-900 whitespace-pre-wrap max-h-72 overflow-y-auto">
+                {describe(draft)}
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 mt-3">
+            <button
+              onClick={close}
+              disabled={accepting}
+              className="px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50"
+            >
+              Keep current
+            </button>
+            <button
+              onClick={handleAccept}
+              disabled={accepting || generating}
+              className="px-3 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              {accepting ? 'Applying...' : 'Accept draft'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+/**
+ * Share Proposal Modal
+ * Create expiring client links to a proposal and see when the client read it
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import {
+  useCreateProposalShareLink,
+  useProposalShareLinks,
+  useProposalShareViews,
+  useRevokeProposalShareLink,
+} from '@/hooks/oracle';
+import {
+  DEFAULT_SHARE_EXPIRY_DAYS,
+  SHARE_EXPIRY_OPTIONS,
+  formatReadingTime,
+  getPinError,
+  getShareLinkStatus,
+  getShareUrl,
+  summarizeShareViews,
+} from '@/lib/proposal-shares';
+import { getProposalPageTitle } from '@/lib/proposal-templates';
+import type { ProposalShareLink, ProposalSharePageTime } from '@/types/oracle/proposal-share';
+
+interface ShareProposalModalProps {
+  proposalId: string;
+  onClose: () => void;
+}
+
+const STATUS_BADGES = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-600',
+  revoked: 'bg-red-100 text-red-700',
+};
+
+function formatDateTime(value: string) {
+  return format(new Date(value), 'd MMM yyyy, HH:mm');
+}
+
+async function copyShareUrl(link: ProposalShareLink) {
+  try {
+    await navigator.clipboard.writeText(getShareUrl(link.token));
+    toast.success('Link copied');
+  } catch (error) {
+    console.error('Error copying share link:', error);
+    toast.error('Could not copy the link. Please copy it manually.');
+  }
+}
+
+function ShareViewLog({ proposalId, shareId }: { proposalId: string; shareId: string }) {
+  const { data: views = [], isLoading, isError } = useProposalShareViews(proposalId, shareId);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+  if (isError) {
+    return <p className="text-sm text-red-600 py-2">Failed to load the view log</p>;
+  }
+  if (views.length === 0) {
+    return <p className="text-sm text-gray-500 py-2">The client hasn&apos;t opened this link yet.</p>;
+  }
+
+  const summary = summarizeShareViews(views);
+  const mostRead = summary.pages.reduce<ProposalSharePageTime | null>(
+    (best, page) => (!best || page.seconds > best.seconds ? page : best),
+    null
+  );
+
+  return (
+    <>
+      <p className="text-xs text-gray-500 mb-1">
+        {summary.viewCount} view{summary.viewCount === 1 ? '' : 's'} · {formatReadingTime(summary.totalSeconds)} in total
+        {mostRead && <> · most time on {getProposalPageTitle(mostRead.page_number)}</>}
+      </p>
+      <ul className="divide-y divide-gray-100">
+        {views.map((view) => (
+          <li key={view.view_id} className="py-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-900">{formatDateTime(view.opened_at)}</span>
+              <span className="text-gray-600">
+                {formatReadingTime(view.duration_seconds)}
+                {view.device && <> · {view.device}</>}
+              </span>
+            </div>
+            {view.pages.length > 0 ? (
+              <div className="flex flex-wrap gap-2 mt-1">
+                {view.pages.map((page) => (
+                  <span key={page.page_number} className="px-2 py-0.5 rounded bg-blue-50 text-xs text-blue-800">
+                    {getProposalPageTitle(page.page_number)}: {formatReadingTime(page.seconds)}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">Opened without reading any page</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
+
+export default function ShareProposalModal({ proposalId, onClose }: ShareProposalModalProps) {
+  const [expiresInDays, setExpiresInDays] = useState(DEFAULT_SHARE_EXPIRY_DAYS);
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [expandedShareId, setExpandedShareId] = useState<string | null>(null);
+  const { data: links = [], isLoading, isError } = useProposalShareLinks(proposalId);
+  const createLink = useCreateProposalShareLink(proposalId);
+  const revokeLink = useRevokeProposalShareLink(proposalId);
+
+  const handleCreate = () => {
+    const error = getPinError(pin);
+    setPinError(error);
+    if (error) return;
+
+    createLink.mutate(
+      { expires_in_days: expiresInDays, pin: pin || undefined },
+      {
+        onSuccess: (link) => {
+          toast.success(pin ? 'Link created. Send the PIN to the client separately.' : 'Link created');
+          setPin('');
+          copyShareUrl(link);
+        },
+        onError: (error: any) => {
+          console.error('Error creating share link:', error);
+          toast.error(error.detail || 'Failed to create share link');
+        },
+      }
+    );
+  };
+
+  const handleRevoke = (link: ProposalShareLink) => {
+    const confirmRevoke = window.confirm(
+      'Revoke this link? The client will no longer be able to open it. Its view log is kept.'
+    );
+    if (!confirmRevoke) return;
+
+    revokeLink.mutate(link.share_id, {
+      onSuccess: () => toast.success('Link revoked'),
+      onError: (error: any) => {
+        console.error('Error revoking share link:', error);
+        toast.error(error.detail || 'Failed to revoke link');
+      },
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Share with client</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              A read-only web view of the proposal. You can see when the client opened it and which pages they read.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* New link */}
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires after</label>
+              <select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              >
+                {SHARE_EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.days} value={option.days}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">PIN (optional)</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.trim())}
+                placeholder="4-6 digits"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              />
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={createLink.isPending}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              {createLink.isPending ? 'Creating...' : 'Create & copy link'}
+            </button>
+          </div>
+          {pinError && <p className="text-sm text-red-600 -mt-4">{pinError}</p>}
+
+          {/* Existing links */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Links</h4>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : isError ? (
+              <p className="text-sm text-red-600">Failed to load share links</p>
+            ) : links.length === 0 ? (
+              <p className="text-sm text-gray-500">This proposal hasn&apos;t been shared yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {links.map((link) => {
+                  const status = getShareLinkStatus(link);
+                  const expanded = expandedShareId === link.share_id;
+                  return (
+                    <li key={link.share_id} className="border border-gray-200 rounded-lg p-3">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <div className="flex items-center space-x-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[status]}`}>
+                              {status.charAt(0).toUpperCase() + status.slice(1)}
+                            </span>
+                            {link.pin_protected && <span className="text-xs text-gray-600">🔒 PIN</span>}
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Created {formatDateTime(link.created_at)}
+                            {link.created_by && <> by {link.created_by.name}</>} ·{' '}
+                            {status === 'revoked' ? 'Revoked' : status === 'expired' ? 'Expired' : 'Expires'}{' '}
+                            {formatDateTime(link.revoked_at || link.expires_at)}
+                          </p>
+                          <p className="text-sm text-gray-900 mt-1">
+                            {link.view_count === 0
+                              ? 'Not opened yet'
+                              : `Opened ${link.view_count} time${link.view_count === 1 ? '' : 's'}`}
+                            {link.last_viewed_at && (
+                              <span className="text-gray-500"> · last {formatDateTime(link.last_viewed_at)}</span>
+                            )}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-3 text-sm">
+                          {status === 'active' && (
+                            <button onClick={() => copyShareUrl(link)} className="text-blue-600 hover:text-blue-800">
+                              Copy link
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setExpandedShareId(expanded ? null : link.share_id)}
+                            className="text-gray-600 hover:text-gray-900"
+                          >
+                            {expanded ? 'Hide views' : 'Views'}
+                          </button>
+                          {status === 'active' && (
+                            <button
+                              onClick={() => handleRevoke(link)}
+                              disabled={revokeLink.isPending}
+                              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              Revoke
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      {expanded && (
+                        <div className="mt-3 pt-2 border-t border-gray-100">
+                          <ShareViewLog proposalId={proposalId} shareId={link.share_id} />
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
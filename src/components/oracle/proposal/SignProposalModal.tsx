@@ -0,0 +1,163 @@
+/**
+ * Sign Proposal Modal
+ * Client acknowledgements and a drawn or typed signature on a completed proposal
+ */
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { getSignatureError } from '@/lib/proposal-signing';
+import type {
+  ProposalAcknowledgement,
+  ProposalSignatureCreate,
+  ProposalSignatureMethod,
+} from '@/types/oracle/proposal';
+import SignaturePad from './SignaturePad';
+
+interface SignProposalModalProps {
+  clientName: string;
+  acknowledgements: ProposalAcknowledgement[];
+  // Shown when the advisor hands over their device to sign in person
+  witnessNote?: string;
+  isSubmitting: boolean;
+  onSubmit: (data: ProposalSignatureCreate) => void;
+  onClose: () => void;
+}
+
+export default function SignProposalModal({
+  clientName,
+  acknowledgements,
+  witnessNote,
+  isSubmitting,
+  onSubmit,
+  onClose,
+}: SignProposalModalProps) {
+  const [signerName, setSignerName] = useState(clientName);
+  const [method, setMethod] = useState<ProposalSignatureMethod>('drawn');
+  const [drawnSignature, setDrawnSignature] = useState('');
+  const [accepted, setAccepted] = useState<boolean[]>(() => acknowledgements.map(() => false));
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [now, setNow] = useState(new Date());
+
+  // The backend records the actual signing time; this keeps the shown one current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const toggleAccepted = (index: number) => {
+    setAccepted((current) => current.map((value, i) => (i === index ? !value : value)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const data: ProposalSignatureCreate = {
+      signer_name: signerName.trim(),
+      method,
+      signature: method === 'drawn' ? drawnSignature : signerName.trim(),
+      acknowledgements: acknowledgements.filter((_, index) => accepted[index]),
+    };
+    const error = getSignatureError(data, acknowledgements);
+    setValidationError(error);
+    if (error) return;
+    onSubmit(data);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Sign proposal</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Signing confirms you accept this proposal. A sealed PDF copy is kept with your signature.
+            </p>
+            {witnessNote && <p className="text-sm text-amber-700 mt-1">{witnessNote}</p>}
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Acknowledgements */}
+          <div className="space-y-3">
+            {acknowledgements.map((acknowledgement, index) => (
+              <label key={index} className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={accepted[index]}
+                  onChange={() => toggleAccepted(index)}
+                  className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">
+                  <span className="font-medium text-gray-900">{acknowledgement.title}. </span>
+                  {acknowledgement.text}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {/* Signer */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Full name</label>
+            <input
+              type="text"
+              value={signerName}
+              onChange={(e) => setSignerName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          {/* Signature */}
+          <div>
+            <div className="flex space-x-2 mb-2">
+              {(['drawn', 'typed'] as ProposalSignatureMethod[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setMethod(option)}
+                  className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                    method === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {option === 'drawn' ? 'Draw' : 'Type'}
+                </button>
+              ))}
+            </div>
+            {method === 'drawn' ? (
+              <SignaturePad onChange={setDrawnSignature} />
+            ) : (
+              <div className="h-40 border-2 border-dashed border-gray-300 rounded-lg bg-white flex items-center justify-center px-4">
+                <span className="text-4xl text-gray-900 italic font-serif truncate">
+                  {signerName.trim() || 'Your name'}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">Signing on {format(now, "d MMMM yyyy 'at' HH:mm")}</p>
+          {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Signing...' : 'Sign proposal'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
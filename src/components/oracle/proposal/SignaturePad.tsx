@@ -0,0 +1,95 @@
+/**
+ * Signature Pad Component
+ * Canvas the client signs on with a finger, pen or mouse
+ */
+
+import { useEffect, useRef } from 'react';
+
+interface SignaturePadProps {
+  // PNG data URL of the signature, or '' once cleared
+  onChange: (dataUrl: string) => void;
+}
+
+export default function SignaturePad({ onChange }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const hasInkRef = useRef(false);
+
+  // Match the canvas to its rendered size so strokes aren't stretched or blurry
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.scale(ratio, ratio);
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.strokeStyle = '#111827';
+    }
+  }, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(e);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+    hasInkRef.current = true;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    if (hasInkRef.current) {
+      onChange(e.currentTarget.toDataURL('image/png'));
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    hasInkRef.current = false;
+    onChange('');
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full h-40 border-2 border-dashed border-gray-300 rounded-lg bg-white cursor-crosshair touch-none"
+      />
+      <div className="flex items-center justify-between mt-1">
+        <p className="text-xs text-gray-500">Sign inside the box</p>
+        <button type="button" onClick={handleClear} className="text-xs text-gray-600 hover:text-gray-900">
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -6,12 +6,53 @@
  *
  * Based on rough-plan.md specifications - uses plain language
  * that explains benefits rather than technical insurance jargon.
+ *
+ * A question can depend on earlier answers (showIf), and an answer can say
+ * what it asks of a product (match) so products can be checked against it.
+ * Both are plain data: company admins edit these sets per company, and their
+ * versions replace the defaults below (see src/lib/guided-questions.ts).
  */
 
+import type { ProductCategory } from '@/types/oracle/insurance-product';
+import type { FacetUnit } from '@/lib/product-facets';
+import type { InsuranceProduct } from '@/types/oracle/insurance-product';
+
+export type ProductField = keyof InsuranceProduct;
+
+export type AnswerFilter =
+  // One of the fields is filled in and doesn't say the benefit is missing ("No", "N/A", "Not covered")
+  | { type: 'has_benefit'; fields: ProductField[] }
+  // One of the fields matches a case-insensitive regular expression
+  | { type: 'mentions'; fields: ProductField[]; pattern: string }
+  // The numbers read from the field overlap min..max
+  | { type: 'range'; field: ProductField; unit: FacetUnit; min?: number; max?: number }
+  // The product is in one of these categories
+  | { type: 'category'; categories: ProductCategory[] }
+  | { type: 'all'; filters: AnswerFilter[] }
+  | { type: 'any'; filters: AnswerFilter[] }
+  | { type: 'not'; filter: AnswerFilter };
+
+export interface AnswerMatch {
+  // What the answer asks of a product, e.g. "Pays out at early stages"
+  need: string;
+  filter: AnswerFilter;
+}
+
 export interface QuestionOption {
   value: string;
   label: string;
   description?: string;
+  match?: AnswerMatch;
+}
+
+// Every condition must hold for the question to be asked
+export interface QuestionCondition {
+  // An earlier question in the same set
+  questionId: string;
+  // Its answer is (or, for multiple choice, includes) one of these
+  in?: string[];
+  // Its answer is none of these; an unanswered question counts as none
+  notIn?: string[];
 }
 
 export interface Question {
@@ -22,6 +63,7 @@ export interface Question {
   placeholder?: string;
   required: boolean;
   helpText?: string;
+  showIf?: QuestionCondition[];
 }
 
 export interface CategoryQuestions {
@@ -40,12 +82,28 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'specific_period',
           label: 'For a specific period',
-          description: 'Just until I hit a milestone (like retiring or the kids finishing school).'
+          description: 'Just until I hit a milestone (like retiring or the kids finishing school).',
+          match: {
+            need: 'Covers a fixed term',
+            filter: {
+              type: 'mentions',
+              fields: ['coverage_term', 'product_core_type', 'category'],
+              pattern: 'term|\\d+\\s*years?|age [4-8]\\d\\b'
+            }
+          }
         },
         {
           value: 'whole_life',
           label: 'For my whole life',
-          description: 'I want to leave a legacy behind, no matter what age I pass away.'
+          description: 'I want to leave a legacy behind, no matter what age I pass away.',
+          match: {
+            need: 'Covers the whole of life',
+            filter: {
+              type: 'mentions',
+              fields: ['coverage_term', 'product_core_type', 'category'],
+              pattern: 'whole[- ]?life|lifetime|age (99|100)'
+            }
+          }
         },
         {
           value: 'others',
@@ -54,6 +112,14 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         }
       ]
     },
+    {
+      id: 'q1_duration_other',
+      question: 'How long would you like the coverage to last?',
+      type: 'input',
+      required: true,
+      placeholder: 'e.g. Until my youngest child turns 25',
+      showIf: [{ questionId: 'q1_duration', in: ['others'] }]
+    },
     {
       id: 'q2_goal',
       question: 'What is the main goal for your money?',
@@ -63,12 +129,24 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'pure_protection',
           label: 'Pure Protection',
-          description: "I don't need cash savings. I just want the highest payout for the lowest monthly cost."
+          description: "I don't need cash savings. I just want the highest payout for the lowest monthly cost.",
+          match: {
+            need: 'Pure protection',
+            filter: {
+              type: 'mentions',
+              fields: ['product_core_type', 'category', 'coverage_term'],
+              pattern: 'term|pure|no cash value'
+            }
+          }
         },
         {
           value: 'protection_and_savings',
           label: 'Protection + Savings',
-          description: 'I want the policy to build cash value over time so I can withdraw from it later if I need to.'
+          description: 'I want the policy to build cash value over time so I can withdraw from it later if I need to.',
+          match: {
+            need: 'Builds cash value',
+            filter: { type: 'has_benefit', fields: ['cash_value_access', 'growth_mechanism'] }
+          }
         }
       ]
     },
@@ -81,38 +159,78 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'fixed_for_life',
           label: 'Fixed for life',
-          description: 'Same amount every year, ongoing'
+          description: 'Same amount every year, ongoing',
+          match: {
+            need: 'Regular premiums',
+            filter: {
+              type: 'mentions',
+              fields: ['premium_payment_options', 'premium_structure'],
+              pattern: 'regular|annual|monthly|whole[- ]?life|level'
+            }
+          }
         },
         {
           value: 'short_pay',
           label: 'Pay it off in a few years',
-          description: '5 or 10-pay, then covered forever'
+          description: '5 or 10-pay, then covered forever',
+          match: {
+            need: 'Limited premium term',
+            filter: {
+              type: 'mentions',
+              fields: ['premium_payment_options', 'premium_structure'],
+              pattern: 'limited|\\d+[- ]?pay|\\d+\\s*years?'
+            }
+          }
         },
         {
           value: 'single_lump_sum',
           label: 'Single lump sum',
-          description: 'Pay once, done'
+          description: 'Pay once, done',
+          match: {
+            need: 'Single premium',
+            filter: {
+              type: 'mentions',
+              fields: ['premium_payment_options', 'premium_structure'],
+              pattern: 'single|lump|one[- ]?time'
+            }
+          }
         }
       ]
     },
     {
       id: 'q4_growth',
-      question: 'If you want cash savings, how do you prefer it to grow?',
+      question: 'How do you prefer your cash savings to grow?',
       type: 'single',
-      required: false,
+      required: true,
       options: [
         {
           value: 'safe_and_steady',
           label: 'Safe & Steady',
-          description: 'I prefer stable growth with guaranteed minimums, even if the returns are a bit lower.'
+          description: 'I prefer stable growth with guaranteed minimums, even if the returns are a bit lower.',
+          match: {
+            need: 'Guaranteed or participating growth',
+            filter: {
+              type: 'mentions',
+              fields: ['growth_mechanism', 'downside_protection_floor'],
+              pattern: 'guarantee|participating|bonus|dividend'
+            }
+          }
         },
         {
           value: 'market_linked',
           label: 'Market-Linked',
-          description: 'I am okay with market ups and downs if it means higher potential growth (like tracking the S&P 500).'
+          description: 'I am okay with market ups and downs if it means higher potential growth (like tracking the S&P 500).',
+          match: {
+            need: 'Market-linked growth',
+            filter: {
+              type: 'mentions',
+              fields: ['growth_mechanism', 'upside_potential_cap'],
+              pattern: 'invest|market|index|fund|ilp'
+            }
+          }
         }
       ],
-      helpText: 'Optional - only if you chose "Protection + Savings" as your goal'
+      showIf: [{ questionId: 'q2_goal', in: ['protection_and_savings'] }]
     },
     {
       id: 'q5_boost',
@@ -123,7 +241,11 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'boost_coverage',
           label: 'Yes, "Boost" my coverage',
-          description: 'I want a higher payout while I am young and have dependents, which can safely drop down after I retire (e.g., age 70).'
+          description: 'I want a higher payout while I am young and have dependents, which can safely drop down after I retire (e.g., age 70).',
+          match: {
+            need: 'Boosted cover',
+            filter: { type: 'has_benefit', fields: ['death_benefit_multipliers'] }
+          }
         },
         {
           value: 'keep_flat',
@@ -170,17 +292,35 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'advanced_stage',
           label: 'Only for severe, advanced illnesses',
-          description: 'Keep my monthly costs as low as possible. I only need a major payout if the condition becomes life-threatening (like late-stage cancer or a major heart attack).'
+          description: 'Keep my monthly costs as low as possible. I only need a major payout if the condition becomes life-threatening (like late-stage cancer or a major heart attack).',
+          match: {
+            need: 'Pays out at the severe stage',
+            filter: { type: 'has_benefit', fields: ['ci_major_advanced_stage'] }
+          }
         },
         {
           value: 'earliest_diagnosis',
           label: 'Only for early detection',
-          description: 'I just want a smaller safety net if an illness is caught in its very first stages, so I can pay for early treatments and take a short break from work.'
+          description: 'I just want a smaller safety net if an illness is caught in its very first stages, so I can pay for early treatments and take a short break from work.',
+          match: {
+            need: 'Pays out at early stages',
+            filter: { type: 'has_benefit', fields: ['ci_early_minor_stage'] }
+          }
         },
         {
           value: 'both_early_and_severe',
           label: 'Cover me from start to finish (Both)',
-          description: 'I want total peace of mind. I want a payout whether the illness is caught on day one, and I want coverage if it ever progresses to a severe stage.'
+          description: 'I want total peace of mind. I want a payout whether the illness is caught on day one, and I want coverage if it ever progresses to a severe stage.',
+          match: {
+            need: 'Pays out at early and severe stages',
+            filter: {
+              type: 'all',
+              filters: [
+                { type: 'has_benefit', fields: ['ci_early_minor_stage'] },
+                { type: 'has_benefit', fields: ['ci_major_advanced_stage'] }
+              ]
+            }
+          }
         }
       ]
     },
@@ -198,7 +338,17 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'multiple_claims',
           label: 'I want continuous safety (Multiple Claims)',
-          description: 'I want the ability to claim again in the future if the cancer returns or if I get a different condition (like a heart attack) years later.'
+          description: 'I want the ability to claim again in the future if the cancer returns or if I get a different condition (like a heart attack) years later.',
+          match: {
+            need: 'Allows more than one claim',
+            filter: {
+              type: 'any',
+              filters: [
+                { type: 'mentions', fields: ['ci_max_claims_allowed'], pattern: 'multiple|unlimited|recurr' },
+                { type: 'range', field: 'ci_max_claims_allowed', unit: 'count', min: 2 }
+              ]
+            }
+          }
         }
       ]
     },
@@ -211,12 +361,28 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'lowest_premium',
           label: "That's fine — I want the lowest possible premium",
-          description: "I accept I won't get anything back if I never claim"
+          description: "I accept I won't get anything back if I never claim",
+          match: {
+            need: 'Lowest premium (no savings element)',
+            filter: {
+              type: 'mentions',
+              fields: ['product_core_type', 'premium_structure', 'coverage_term'],
+              pattern: 'term|pure|no cash value|standalone'
+            }
+          }
         },
         {
           value: 'refund_premiums',
           label: 'I want my premiums refunded',
-          description: 'If I stay healthy until the policy ends, I want my money back'
+          description: 'If I stay healthy until the policy ends, I want my money back',
+          match: {
+            need: 'Returns premiums',
+            filter: {
+              type: 'mentions',
+              fields: ['premium_structure', 'key_features', 'product_core_type'],
+              pattern: 'return of premium|refund|maturity|cash value|savings'
+            }
+          }
         }
       ]
     },
@@ -229,12 +395,28 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'working_years',
           label: 'Just during my working years',
-          description: 'I only need cover until I retire (e.g., age 65 or 70), when getting sick would hurt my income the most.'
+          description: 'I only need cover until I retire (e.g., age 65 or 70), when getting sick would hurt my income the most.',
+          match: {
+            need: 'Covers the working years',
+            filter: {
+              type: 'mentions',
+              fields: ['coverage_term', 'ci_age_limits_on_coverage'],
+              pattern: 'term|\\d+\\s*years?|age [5-8]\\d\\b'
+            }
+          }
         },
         {
           value: 'whole_life',
           label: 'For my whole life',
-          description: 'I want to be covered in my old age too (e.g., up to age 99 or 100), even though I know it costs a bit more.'
+          description: 'I want to be covered in my old age too (e.g., up to age 99 or 100), even though I know it costs a bit more.',
+          match: {
+            need: 'Covers the whole of life',
+            filter: {
+              type: 'mentions',
+              fields: ['coverage_term', 'ci_age_limits_on_coverage'],
+              pattern: 'whole[- ]?life|lifetime|age (99|100)'
+            }
+          }
         }
       ],
       helpText: 'CI premiums increase significantly for coverage into 80s and 90s. Choose working years if on a budget.'
@@ -253,7 +435,11 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'comprehensive',
           label: 'Comprehensive',
-          description: '100+ conditions including rare diseases, ICU events, and gender-specific conditions'
+          description: '100+ conditions including rare diseases, ICU events, and gender-specific conditions',
+          match: {
+            need: 'Covers 100 or more conditions',
+            filter: { type: 'range', field: 'ci_total_conditions_covered', unit: 'count', min: 100 }
+          }
         }
       ],
       helpText: 'Many insurers offer "Cancer-only" or "Big 3" plans for budget-friendly coverage.'
@@ -272,17 +458,35 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'short_medium_term',
           label: 'Short/Medium-Term Goal',
-          description: 'Saving for something specific in the next 5 to 15 years (like a house downpayment or child\'s education).'
+          description: 'Saving for something specific in the next 5 to 15 years (like a house downpayment or child\'s education).',
+          match: {
+            need: 'Breaks even within 10 years',
+            filter: { type: 'range', field: 'savings_guaranteed_breakeven_target', unit: 'years', max: 10 }
+          }
         },
         {
           value: 'retirement_income',
           label: 'Retirement Income',
-          description: 'Building a nest egg that will pay me a steady income during my golden years.'
+          description: 'Building a nest egg that will pay me a steady income during my golden years.',
+          match: {
+            need: 'Pays a retirement income',
+            filter: {
+              type: 'has_benefit',
+              fields: ['savings_income_payout_period', 'savings_cashback_coupon_payouts']
+            }
+          }
         },
         {
           value: 'wealth_legacy',
           label: 'Wealth Accumulation & Legacy',
-          description: 'Growing my money over the long term (20+ years) to eventually pass down to my children or grandchildren.'
+          description: 'Growing my money over the long term (20+ years) to eventually pass down to my children or grandchildren.',
+          match: {
+            need: 'Can pass to the next generation',
+            filter: {
+              type: 'has_benefit',
+              fields: ['savings_change_of_insured', 'savings_contingent_owner', 'ilp_change_of_insured']
+            }
+          }
         }
       ]
     },
@@ -300,12 +504,23 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'yearly_income',
           label: 'Steady Regular Income',
-          description: 'Just pay me a steady, predictable stream of cash every month or year (like a pension or passive dividend) once the plan is ready.'
+          description: 'Just pay me a steady, predictable stream of cash every month or year (like a pension or passive dividend) once the plan is ready.',
+          match: {
+            need: 'Yearly cashback or income',
+            filter: {
+              type: 'has_benefit',
+              fields: ['savings_cashback_coupon_payouts', 'savings_income_payout_period']
+            }
+          }
         },
         {
           value: 'mix_of_both',
           label: 'A Mix of Both (Lump Sums + Income)',
-          description: 'I want cash payouts at key milestones (like a lump sum to travel when I retire), but I also want a steady stream of regular income afterward.'
+          description: 'I want cash payouts at key milestones (like a lump sum to travel when I retire), but I also want a steady stream of regular income afterward.',
+          match: {
+            need: 'Cashback as well as a maturity sum',
+            filter: { type: 'has_benefit', fields: ['savings_cashback_coupon_payouts'] }
+          }
         }
       ]
     },
@@ -318,17 +533,53 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'one_time_lump',
           label: 'One-Time Lump Sum',
-          description: 'I have a chunk of cash right now that I want to put to work.'
+          description: 'I have a chunk of cash right now that I want to put to work.',
+          match: {
+            need: 'Single premium',
+            filter: {
+              type: 'mentions',
+              fields: [
+                'savings_premium_funding_options',
+                'ilp_premium_funding_options',
+                'premium_payment_options'
+              ],
+              pattern: 'single|lump|one[- ]?time'
+            }
+          }
         },
         {
           value: 'pay_quickly',
           label: 'Pay it off quickly',
-          description: 'I want to fund the plan over a short, fixed period (e.g., 3 to 5 years) and then let it grow.'
+          description: 'I want to fund the plan over a short, fixed period (e.g., 3 to 5 years) and then let it grow.',
+          match: {
+            need: 'Limited premium term',
+            filter: {
+              type: 'mentions',
+              fields: [
+                'savings_premium_funding_options',
+                'ilp_premium_funding_options',
+                'premium_payment_options'
+              ],
+              pattern: 'limited|\\d+[- ]?pay|\\d+\\s*years?'
+            }
+          }
         },
         {
           value: 'slow_steady',
           label: 'Slow and Steady',
-          description: 'I want to save a smaller, manageable amount every month or year for a longer period (10+ years).'
+          description: 'I want to save a smaller, manageable amount every month or year for a longer period (10+ years).',
+          match: {
+            need: 'Regular premiums',
+            filter: {
+              type: 'mentions',
+              fields: [
+                'savings_premium_funding_options',
+                'ilp_premium_funding_options',
+                'premium_payment_options'
+              ],
+              pattern: 'regular|annual|monthly'
+            }
+          }
         }
       ]
     },
@@ -341,12 +592,44 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'maximum_safety',
           label: 'Maximum Safety',
-          description: 'I want a plan where my base capital is 100% guaranteed, even if the overall growth is a bit slower.'
+          description: 'I want a plan where my base capital is 100% guaranteed, even if the overall growth is a bit slower.',
+          match: {
+            need: 'Capital guaranteed',
+            filter: {
+              type: 'all',
+              filters: [
+                { type: 'not', filter: { type: 'category', categories: ['investment-linked'] } },
+                { type: 'mentions', fields: ['savings_capital_guarantee_status'], pattern: 'guarantee' },
+                {
+                  type: 'not',
+                  filter: {
+                    type: 'mentions',
+                    fields: ['savings_capital_guarantee_status'],
+                    pattern: 'not guaranteed|non[- ]guaranteed|^\\s*(no|none|nil|n/?a)\\b'
+                  }
+                }
+              ]
+            }
+          }
         },
         {
           value: 'higher_potential',
           label: 'Higher Potential',
-          description: 'I am okay with relying on non-guaranteed bonuses for part of the payout if it means my money can grow much faster over time.'
+          description: 'I am okay with relying on non-guaranteed bonuses for part of the payout if it means my money can grow much faster over time.',
+          match: {
+            need: 'Higher growth potential',
+            filter: {
+              type: 'any',
+              filters: [
+                { type: 'category', categories: ['investment-linked'] },
+                {
+                  type: 'mentions',
+                  fields: ['savings_growth_mechanism', 'savings_bonus_structure'],
+                  pattern: 'participat|non[- ]guaranteed|invest|market|bonus'
+                }
+              ]
+            }
+          }
         }
       ]
     },
@@ -382,12 +665,26 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
         {
           value: 'hands_off',
           label: 'Hands-off (Let the insurer do it)',
-          description: 'I want the insurance company to manage everything smoothly and declare yearly bonuses. I prefer a "set it and forget it" approach.'
+          description: 'I want the insurance company to manage everything smoothly and declare yearly bonuses. I prefer a "set it and forget it" approach.',
+          match: {
+            need: 'No funds to manage',
+            filter: { type: 'not', filter: { type: 'category', categories: ['investment-linked'] } }
+          }
         },
         {
           value: 'hands_on',
           label: 'Hands-on (I want fund choices)',
-          description: 'I want my money invested in global funds (like mutual funds or tech sectors). I know there are no guarantees, but I want maximum control and potential returns.'
+          description: 'I want my money invested in global funds (like mutual funds or tech sectors). I know there are no guarantees, but I want maximum control and potential returns.',
+          match: {
+            need: 'Choice of funds',
+            filter: {
+              type: 'any',
+              filters: [
+                { type: 'category', categories: ['investment-linked'] },
+                { type: 'has_benefit', fields: ['ilp_fund_universe'] }
+              ]
+            }
+          }
         }
       ],
       helpText: 'Choosing "Hands-on" will show Investment-Linked Products (ILPs) with fund selection options.'
@@ -528,6 +825,1324 @@ export const GUIDED_QUESTIONS: CategoryQuestions = {
     }
   ],
 
+  // 🛡️ Term Life Questions
+  // Cover for a fixed period at the lowest cost, with no cash value
+  term_life: [
+    {
+      id: 'q1_cover_until',
+      question: 'How do you want to decide when the cover ends?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'fixed_years',
+          label: 'After a set number of years',
+          description: 'e.g. 20 years, until the mortgage is paid off',
+          match: {
+            need: 'Covers a fixed number of years',
+            filter: {
+              type: 'mentions',
+              fields: ['coverage_term', 'policy_term_maturity'],
+              pattern: '\\d+\\s*years?'
+            }
+          }
+        },
+        {
+          value: 'to_age',
+          label: 'At a certain age',
+          description: 'e.g. until I retire at 65',
+          match: {
+            need: 'Covers to a stated age',
+            filter: {
+              type: 'mentions',
+              fields: ['coverage_term', 'policy_term_maturity'],
+              pattern: 'age\\s*\\d+|to \\d+'
+            }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q1a_term_years',
+      question: 'How many years of cover do you need?',
+      type: 'input',
+      required: false,
+      placeholder: 'e.g. 20 years',
+      showIf: [{ questionId: 'q1_cover_until', in: ['fixed_years'] }]
+    },
+    {
+      id: 'q1b_term_age',
+      question: 'Until what age do you need cover?',
+      type: 'input',
+      required: false,
+      placeholder: 'e.g. age 65',
+      showIf: [{ questionId: 'q1_cover_until', in: ['to_age'] }]
+    },
+    {
+      id: 'q2_reason',
+      question: 'What is the cover mainly for?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'family_income',
+          label: 'Replacing my income for my family',
+          description: 'So my family can keep their lifestyle if I pass away.'
+        },
+        {
+          value: 'mortgage',
+          label: 'Paying off a home loan',
+          description: 'So my family keeps the house if I pass away.',
+          match: {
+            need: 'Suits a home loan',
+            filter: {
+              type: 'mentions',
+              fields: ['key_features', 'death_benefit_options', 'suitable_for'],
+              pattern: 'mortgage|decreasing|reducing|home loan'
+            }
+          }
+        },
+        {
+          value: 'business',
+          label: 'Protecting my business',
+          description: 'Key person cover, or funding a partner buy-out.',
+          match: {
+            need: 'Suits business cover',
+            filter: {
+              type: 'mentions',
+              fields: ['key_features', 'suitable_for', 'target_market'],
+              pattern: 'business|key ?person|keyman|partner'
+            }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q3_cover_shape',
+      question: 'Should the payout shrink as the loan is paid down?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'decreasing',
+          label: 'Yes, decreasing cover',
+          description: 'The payout follows the outstanding loan, which keeps premiums lower.',
+          match: {
+            need: 'Decreasing cover',
+            filter: {
+              type: 'mentions',
+              fields: ['death_benefit_options', 'key_features'],
+              pattern: 'decreasing|reducing'
+            }
+          }
+        },
+        {
+          value: 'level',
+          label: 'No, keep it level',
+          description: 'The same payout for the whole term.',
+          match: {
+            need: 'Level cover',
+            filter: {
+              type: 'mentions',
+              fields: ['death_benefit_options', 'key_features'],
+              pattern: 'level|fixed|constant'
+            }
+          }
+        }
+      ],
+      showIf: [{ questionId: 'q2_reason', in: ['mortgage'] }]
+    },
+    {
+      id: 'q4_riders',
+      question: 'Do you want to add any of these to your cover?',
+      type: 'multiple',
+      required: false,
+      options: [
+        {
+          value: 'critical_illness',
+          label: 'Critical illness',
+          description: 'A payout if I am diagnosed with a serious illness.',
+          match: {
+            need: 'Critical illness rider',
+            filter: { type: 'has_benefit', fields: ['critical_illness_rider'] }
+          }
+        },
+        {
+          value: 'tpd',
+          label: 'Total and permanent disability',
+          description: 'A payout if I can never work again.',
+          match: {
+            need: 'Covers total and permanent disability',
+            filter: { type: 'has_benefit', fields: ['total_permanent_disability'] }
+          }
+        },
+        {
+          value: 'premium_waiver',
+          label: 'Premium waiver',
+          description: 'Premiums stop if I can no longer pay them because of illness or disability.',
+          match: {
+            need: 'Premium waiver available',
+            filter: { type: 'has_benefit', fields: ['premium_waiver_riders'] }
+          }
+        },
+        {
+          value: 'no_riders',
+          label: 'No, keep it simple',
+          description: 'Just the life cover.'
+        }
+      ]
+    },
+    {
+      id: 'q5_convertible',
+      question: 'Would you like the option to switch to whole life cover later without a medical check?',
+      type: 'single',
+      required: false,
+      options: [
+        {
+          value: 'yes',
+          label: 'Yes, keep that option open',
+          description: 'Useful if my health changes before the term ends.',
+          match: {
+            need: 'Convertible to whole life',
+            filter: { type: 'has_benefit', fields: ['convertibility_option', 'guaranteed_issuance_option'] }
+          }
+        },
+        {
+          value: 'no',
+          label: 'No, I only need the term',
+          description: 'I will not need cover after the term ends.'
+        }
+      ]
+    },
+    {
+      id: 'q6_underwriting',
+      question: 'How much medical checking are you comfortable with?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'full',
+          label: 'Full medical checks are fine',
+          description: 'I am happy to answer health questions or see a doctor for the best price.'
+        },
+        {
+          value: 'simplified',
+          label: 'As little as possible',
+          description: 'I want a quick approval with only a few health questions.',
+          match: {
+            need: 'Simplified or no medical underwriting',
+            filter: {
+              type: 'mentions',
+              fields: ['medical_underwriting'],
+              pattern: 'simplified|guaranteed issu|no medical|non-medical'
+            }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q7_currency',
+      question: 'Do you have a currency preference for this policy?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'local_currency',
+          label: 'Local Currency Only',
+          description: 'I earn and spend in my home currency, so I want my policy in my local currency (like SGD, MYR, or IDR) to avoid exchange rate risks.'
+        },
+        {
+          value: 'usd',
+          label: 'US Dollars (USD)',
+          description: 'I want a USD-denominated plan to hold a globally stable currency and diversify my wealth.'
+        },
+        {
+          value: 'multi_currency',
+          label: 'Multi-Currency Flexibility',
+          description: 'I want the option to switch currencies later, for example when retiring abroad or sending kids overseas.'
+        }
+      ]
+    }
+  ],
+
+  // 🏛️ Whole Life Questions
+  // Lifelong cover that builds cash value
+  whole_life: [
+    {
+      id: 'q1_goal',
+      question: 'What do you want this policy to do for you?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'legacy',
+          label: 'Leave a legacy',
+          description: 'Pass on a guaranteed sum to my children or grandchildren.',
+          match: {
+            need: 'Can pass to the next generation',
+            filter: {
+              type: 'has_benefit',
+              fields: ['change_of_life_insured', 'contingent_policy_owner', 'policy_split_option']
+            }
+          }
+        },
+        {
+          value: 'protection_and_savings',
+          label: 'Protection plus savings',
+          description: 'Cover for life, with cash value I can draw on later.',
+          match: {
+            need: 'Builds cash value',
+            filter: { type: 'has_benefit', fields: ['cash_value_access', 'growth_mechanism'] }
+          }
+        },
+        {
+          value: 'protection_only',
+          label: 'Lifelong protection only',
+          description: 'I just want cover that never runs out, at the lowest cost.'
+        }
+      ]
+    },
+    {
+      id: 'q2_payment',
+      question: 'How do you want to pay your premiums?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'fixed_for_life',
+          label: 'For life',
+          description: 'A smaller amount every year for as long as the policy runs.',
+          match: {
+            need: 'Regular premiums',
+            filter: {
+              type: 'mentions',
+              fields: ['premium_payment_options', 'premium_structure'],
+              pattern: 'regular|annual|monthly|whole[- ]?life|level'
+            }
+          }
+        },
+        {
+          value: 'short_pay',
+          label: 'Over a few years',
+          description: 'Pay more each year for a limited time (e.g. 5, 10 or 20 years), then nothing more.',
+          match: {
+            need: 'Limited premium term',
+            filter: {
+              type: 'mentions',
+              fields: ['premium_payment_options', 'premium_structure'],
+              pattern: 'limited|\\d+[- ]?pay|\\d+\\s*years?'
+            }
+          }
+        },
+        {
+          value: 'single_lump_sum',
+          label: 'In one go',
+          description: 'Pay a single premium up front.',
+          match: {
+            need: 'Single premium',
+            filter: {
+              type: 'mentions',
+              fields: ['premium_payment_options', 'premium_structure'],
+              pattern: 'single|lump|one[- ]?time'
+            }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q2a_pay_years',
+      question: 'Over how many years would you like to pay?',
+      type: 'input',
+      required: false,
+      placeholder: 'e.g. 10 years',
+      showIf: [{ questionId: 'q2_payment', in: ['short_pay'] }]
+    },
+    {
+      id: 'q3_growth',
+      question: 'How should the cash value grow?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'safe_and_steady',
+          label: 'Safe & Steady',
+          description: 'Guaranteed growth plus bonuses, even if returns are a bit lower.',
+          match: {
+            need: 'Guaranteed or participating growth',
+            filter: {
+              type: 'mentions',
+              fields: ['growth_mechanism', 'downside_protection_floor'],
+              pattern: 'guarantee|participating|bonus|dividend'
+            }
+          }
+        },
+        {
+          value: 'market_linked',
+          label: 'Market-Linked',
+          description: 'Higher potential growth that moves with the markets.',
+          match: {
+            need: 'Market-linked growth',
+            filter: {
+              type: 'mentions',
+              fields: ['growth_mechanism', 'upside_potential_cap'],
+              pattern: 'invest|market|index|fund|ilp'
+            }
+          }
+        }
+      ],
+      showIf: [{ questionId: 'q1_goal', in: ['legacy', 'protection_and_savings'] }]
+    },
+    {
+      id: 'q4_multiplier',
+      question: 'Do you want extra cover while your family depends on you?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'boost_coverage',
+          label: 'Yes, multiply my cover',
+          description: 'A higher payout (e.g. 3x or 5x) until a set age, then it steps down.',
+          match: {
+            need: 'Boosted cover',
+            filter: { type: 'has_benefit', fields: ['death_benefit_multipliers'] }
+          }
+        },
+        {
+          value: 'keep_flat',
+          label: 'No, keep it flat',
+          description: 'The same payout for life.'
+        }
+      ]
+    },
+    {
+      id: 'q4a_multiplier_age',
+      question: 'Until what age should the extra cover last?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'until_65',
+          label: 'Until 65',
+          description: 'Through my working years.',
+          match: {
+            need: 'Multiplier to age 65 or later',
+            filter: { type: 'range', field: 'death_benefit_multipliers', unit: 'count', min: 65 }
+          }
+        },
+        {
+          value: 'until_70',
+          label: 'Until 70',
+          description: 'A little past retirement.',
+          match: {
+            need: 'Multiplier to age 70 or later',
+            filter: { type: 'range', field: 'death_benefit_multipliers', unit: 'count', min: 70 }
+          }
+        },
+        {
+          value: 'until_85',
+          label: 'Until 85',
+          description: 'For as long as possible.',
+          match: {
+            need: 'Multiplier to age 85 or later',
+            filter: { type: 'range', field: 'death_benefit_multipliers', unit: 'count', min: 85 }
+          }
+        }
+      ],
+      showIf: [{ questionId: 'q4_multiplier', in: ['boost_coverage'] }]
+    },
+    {
+      id: 'q5_riders',
+      question: 'Do you want to add any of these to your cover?',
+      type: 'multiple',
+      required: false,
+      options: [
+        {
+          value: 'critical_illness',
+          label: 'Critical illness',
+          description: 'A payout if I am diagnosed with a serious illness.',
+          match: {
+            need: 'Critical illness rider',
+            filter: { type: 'has_benefit', fields: ['critical_illness_rider'] }
+          }
+        },
+        {
+          value: 'premium_waiver',
+          label: 'Premium waiver',
+          description: 'Premiums stop if I can no longer pay them because of illness or disability.',
+          match: {
+            need: 'Premium waiver available',
+            filter: { type: 'has_benefit', fields: ['premium_waiver_riders'] }
+          }
+        },
+        {
+          value: 'accidental_death',
+          label: 'Accidental death',
+          description: 'An extra payout if death is caused by an accident.',
+          match: {
+            need: 'Accidental death benefit',
+            filter: { type: 'has_benefit', fields: ['accidental_death_benefit'] }
+          }
+        },
+        {
+          value: 'no_riders',
+          label: 'No, keep it simple',
+          description: 'Just the life cover.'
+        }
+      ]
+    },
+    {
+      id: 'q6_currency',
+      question: 'Do you have a currency preference for this policy?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'local_currency',
+          label: 'Local Currency Only',
+          description: 'I earn and spend in my home currency, so I want my policy in my local currency (like SGD, MYR, or IDR) to avoid exchange rate risks.'
+        },
+        {
+          value: 'usd',
+          label: 'US Dollars (USD)',
+          description: 'I want a USD-denominated plan to hold a globally stable currency and diversify my wealth.'
+        },
+        {
+          value: 'multi_currency',
+          label: 'Multi-Currency Flexibility',
+          description: 'I want the option to switch currencies later, for example when retiring abroad or sending kids overseas.'
+        }
+      ]
+    }
+  ],
+
+  // 🌐 Universal Life Questions
+  // High sum assured cover for estate and business planning
+  universal_life: [
+    {
+      id: 'q1_goal',
+      question: 'What is this policy mainly for?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'estate_planning',
+          label: 'Estate planning',
+          description: 'Leave a large, tax-efficient sum to my heirs.',
+          match: {
+            need: 'Suits estate planning',
+            filter: {
+              type: 'any',
+              filters: [
+                {
+                  type: 'has_benefit',
+                  fields: ['change_of_life_insured', 'contingent_policy_owner', 'policy_split_option']
+                },
+                {
+                  type: 'mentions',
+                  fields: ['key_features', 'suitable_for'],
+                  pattern: 'estate|legacy|wealth transfer|heir'
+                }
+              ]
+            }
+          }
+        },
+        {
+          value: 'business_succession',
+          label: 'Business succession',
+          description: 'Key person cover or funding a partner buy-out.',
+          match: {
+            need: 'Suits business succession',
+            filter: {
+              type: 'mentions',
+              fields: ['key_features', 'suitable_for', 'target_market'],
+              pattern: 'business|key ?person|keyman|succession|buy-?sell'
+            }
+          }
+        },
+        {
+          value: 'wealth_protection',
+          label: 'Protecting my wealth',
+          description: 'A large sum assured to protect what I have built.'
+        }
+      ]
+    },
+    {
+      id: 'q2_crediting',
+      question: 'How should the policy account grow?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'declared_rate',
+          label: 'A declared crediting rate',
+          description: 'The insurer declares a rate each year, with a guaranteed minimum.',
+          match: {
+            need: 'Declared crediting rate',
+            filter: {
+              type: 'mentions',
+              fields: ['growth_mechanism'],
+              pattern: 'declared|crediting|guaranteed minimum|fixed'
+            }
+          }
+        },
+        {
+          value: 'indexed',
+          label: 'Linked to a market index',
+          description: 'Growth follows an index such as the S&P 500, within a floor and a cap.',
+          match: {
+            need: 'Index-linked growth',
+            filter: { type: 'mentions', fields: ['growth_mechanism'], pattern: 'index' }
+          }
+        },
+        {
+          value: 'variable',
+          label: 'Invested in funds',
+          description: 'Growth follows the funds I choose, with no guarantee.',
+          match: {
+            need: 'Fund-linked growth',
+            filter: { type: 'mentions', fields: ['growth_mechanism'], pattern: 'fund|variable|invest' }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q2a_floor',
+      question: 'Which matters more to you?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'guaranteed_floor',
+          label: 'A floor on losses',
+          description: 'The account never goes down in a bad year, even if gains are capped.',
+          match: {
+            need: 'Has a downside floor',
+            filter: { type: 'has_benefit', fields: ['downside_protection_floor'] }
+          }
+        },
+        {
+          value: 'uncapped_upside',
+          label: 'Uncapped gains',
+          description: 'I accept bad years for the full upside in good ones.',
+          match: {
+            need: 'Uncapped upside',
+            filter: {
+              type: 'mentions',
+              fields: ['upside_potential_cap'],
+              pattern: 'uncapped|no cap|unlimited'
+            }
+          }
+        }
+      ],
+      showIf: [{ questionId: 'q2_crediting', in: ['indexed', 'variable'] }]
+    },
+    {
+      id: 'q3_funding',
+      question: 'How will you fund the policy?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'single_premium',
+          label: 'A single premium',
+          description: 'One large payment up front.',
+          match: {
+            need: 'Single premium',
+            filter: {
+              type: 'mentions',
+              fields: ['premium_payment_options', 'premium_structure'],
+              pattern: 'single|lump|one[- ]?time'
+            }
+          }
+        },
+        {
+          value: 'limited_pay',
+          label: 'Over a few years',
+          description: 'Fixed payments over a short period.',
+          match: {
+            need: 'Limited premium term',
+            filter: {
+              type: 'mentions',
+              fields: ['premium_payment_options', 'premium_structure'],
+              pattern: 'limited|\\d+[- ]?pay|\\d+\\s*years?'
+            }
+          }
+        },
+        {
+          value: 'flexible',
+          label: 'Flexibly',
+          description: 'Pay more or less from year to year as my cash flow allows.',
+          match: {
+            need: 'Flexible premiums',
+            filter: {
+              type: 'mentions',
+              fields: ['premium_payment_options', 'premium_structure'],
+              pattern: 'flexible|vary|top[- ]?up'
+            }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q3a_financing',
+      question: 'Will you finance the premium with a bank loan?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'bank_financed',
+          label: 'Yes, with premium financing',
+          description: 'I want to borrow against the policy to fund most of the premium.',
+          match: {
+            need: 'Supports premium financing',
+            filter: {
+              type: 'mentions',
+              fields: ['key_features', 'cash_value_access'],
+              pattern: 'premium financ|bank financ|loan'
+            }
+          }
+        },
+        {
+          value: 'own_funds',
+          label: 'No, from my own funds',
+          description: 'I will pay the premium myself.'
+        }
+      ],
+      showIf: [{ questionId: 'q3_funding', in: ['single_premium'] }]
+    },
+    {
+      id: 'q4_guarantee',
+      question: 'Do you need the death benefit guaranteed?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'guaranteed',
+          label: 'Yes, guaranteed for life',
+          description: 'The payout must not depend on how the account performs.',
+          match: {
+            need: 'Guaranteed death benefit',
+            filter: {
+              type: 'all',
+              filters: [
+                { type: 'has_benefit', fields: ['death_benefit_guarantee'] },
+                {
+                  type: 'not',
+                  filter: {
+                    type: 'mentions',
+                    fields: ['death_benefit_guarantee'],
+                    pattern: 'not guaranteed|non[- ]guaranteed|^\\s*(no|none|nil|n/?a)\\b'
+                  }
+                }
+              ]
+            }
+          }
+        },
+        {
+          value: 'flexible',
+          label: 'No, flexibility is fine',
+          description: 'A lower premium is worth some dependence on account performance.'
+        }
+      ]
+    },
+    {
+      id: 'q5_currency',
+      question: 'Do you have a currency preference for this policy?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'local_currency',
+          label: 'Local Currency Only',
+          description: 'I earn and spend in my home currency, so I want my policy in my local currency (like SGD, MYR, or IDR) to avoid exchange rate risks.'
+        },
+        {
+          value: 'usd',
+          label: 'US Dollars (USD)',
+          description: 'I want a USD-denominated plan to hold a globally stable currency and diversify my wealth.'
+        },
+        {
+          value: 'multi_currency',
+          label: 'Multi-Currency Flexibility',
+          description: 'I want the option to switch currencies later, for example when retiring abroad or sending kids overseas.'
+        }
+      ],
+      helpText: 'Universal life plans are usually in USD.'
+    }
+  ],
+
+  // 🎓 Endowment Questions
+  // Saving for a goal on a fixed date, with a guaranteed maturity sum
+  endowment: [
+    {
+      id: 'q1_purpose',
+      question: 'What are you saving for?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'education',
+          label: 'A child\'s education',
+          description: 'University fees when my child grows up.',
+          match: {
+            need: 'Suits education savings',
+            filter: {
+              type: 'mentions',
+              fields: ['suitable_for', 'target_market', 'key_features'],
+              pattern: 'education|child|children|university'
+            }
+          }
+        },
+        {
+          value: 'retirement',
+          label: 'Retirement',
+          description: 'A sum or an income when I stop working.',
+          match: {
+            need: 'Suits retirement savings',
+            filter: {
+              type: 'any',
+              filters: [
+                { type: 'has_benefit', fields: ['savings_income_payout_period'] },
+                {
+                  type: 'mentions',
+                  fields: ['suitable_for', 'target_market', 'key_features'],
+                  pattern: 'retire'
+                }
+              ]
+            }
+          }
+        },
+        {
+          value: 'milestone',
+          label: 'Another milestone',
+          description: 'A home, a wedding or another goal on a set date.'
+        }
+      ]
+    },
+    {
+      id: 'q1a_child_age',
+      question: 'How old is your child today?',
+      type: 'input',
+      required: false,
+      placeholder: 'e.g. 5 years old',
+      showIf: [{ questionId: 'q1_purpose', in: ['education'] }]
+    },
+    {
+      id: 'q2_horizon',
+      question: 'When will you need the money?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'up_to_10',
+          label: 'Within 10 years',
+          description: 'A shorter-term goal.',
+          match: {
+            need: 'Matures within 10 years',
+            filter: { type: 'range', field: 'policy_term_maturity', unit: 'years', max: 10 }
+          }
+        },
+        {
+          value: '10_to_20',
+          label: 'In 10 to 20 years',
+          description: 'A medium-term goal.',
+          match: {
+            need: 'Matures in 10 to 20 years',
+            filter: { type: 'range', field: 'policy_term_maturity', unit: 'years', min: 10, max: 20 }
+          }
+        },
+        {
+          value: 'over_20',
+          label: 'In more than 20 years',
+          description: 'A long-term goal.',
+          match: {
+            need: 'Matures after 20 years or more',
+            filter: { type: 'range', field: 'policy_term_maturity', unit: 'years', min: 20 }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q3_payout',
+      question: 'How do you want to receive the money?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'lump_sum',
+          label: 'All at maturity',
+          description: 'One sum when the policy matures.'
+        },
+        {
+          value: 'cashback',
+          label: 'Regular cashback',
+          description: 'Payouts every year or every few years along the way.',
+          match: {
+            need: 'Pays regular cashback',
+            filter: { type: 'has_benefit', fields: ['savings_cashback_coupon_payouts'] }
+          }
+        },
+        {
+          value: 'both',
+          label: 'Both',
+          description: 'Some cashback along the way and a sum at maturity.',
+          match: {
+            need: 'Cashback as well as a maturity sum',
+            filter: { type: 'has_benefit', fields: ['savings_cashback_coupon_payouts'] }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q3a_cashback_use',
+      question: 'What would you do with the cashback?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'take_cash',
+          label: 'Take it as cash',
+          description: 'Use it as it comes.'
+        },
+        {
+          value: 'reinvest',
+          label: 'Leave it in to grow',
+          description: 'Keep it with the insurer to earn interest.',
+          match: {
+            need: 'Cashback can be left in to grow',
+            filter: { type: 'has_benefit', fields: ['savings_cashback_reinvestment'] }
+          }
+        }
+      ],
+      showIf: [{ questionId: 'q3_payout', in: ['cashback', 'both'] }]
+    },
+    {
+      id: 'q4_funding',
+      question: 'How do you prefer to pay in?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'one_time_lump',
+          label: 'One-Time Lump Sum',
+          description: 'A single payment up front.',
+          match: {
+            need: 'Single premium',
+            filter: {
+              type: 'mentions',
+              fields: ['savings_premium_funding_options', 'premium_payment_options'],
+              pattern: 'single|lump|one[- ]?time'
+            }
+          }
+        },
+        {
+          value: 'pay_quickly',
+          label: 'Pay it off quickly',
+          description: 'Over a short, fixed period (e.g. 3 to 5 years).',
+          match: {
+            need: 'Limited premium term',
+            filter: {
+              type: 'mentions',
+              fields: ['savings_premium_funding_options', 'premium_payment_options'],
+              pattern: 'limited|\\d+[- ]?pay|\\d+\\s*years?'
+            }
+          }
+        },
+        {
+          value: 'slow_steady',
+          label: 'Slow and Steady',
+          description: 'A smaller amount every month or year until the policy matures.',
+          match: {
+            need: 'Regular premiums',
+            filter: {
+              type: 'mentions',
+              fields: ['savings_premium_funding_options', 'premium_payment_options'],
+              pattern: 'regular|annual|monthly'
+            }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q5_guarantee',
+      question: 'How much of the maturity sum should be guaranteed?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'capital_guaranteed',
+          label: 'At least what I put in',
+          description: 'I must get back at least my premiums, even if growth is slower.',
+          match: {
+            need: 'Capital guaranteed',
+            filter: {
+              type: 'all',
+              filters: [
+                { type: 'not', filter: { type: 'category', categories: ['investment-linked'] } },
+                { type: 'mentions', fields: ['savings_capital_guarantee_status'], pattern: 'guarantee' },
+                {
+                  type: 'not',
+                  filter: {
+                    type: 'mentions',
+                    fields: ['savings_capital_guarantee_status'],
+                    pattern: 'not guaranteed|non[- ]guaranteed|^\\s*(no|none|nil|n/?a)\\b'
+                  }
+                }
+              ]
+            }
+          }
+        },
+        {
+          value: 'higher_potential',
+          label: 'I can rely on bonuses',
+          description: 'Part of the sum can depend on non-guaranteed bonuses for better growth.',
+          match: {
+            need: 'Higher growth potential',
+            filter: {
+              type: 'any',
+              filters: [
+                { type: 'category', categories: ['investment-linked'] },
+                {
+                  type: 'mentions',
+                  fields: ['savings_growth_mechanism', 'savings_bonus_structure'],
+                  pattern: 'participat|non[- ]guaranteed|invest|market|bonus'
+                }
+              ]
+            }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q6_currency',
+      question: 'Do you have a currency preference for this policy?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'local_currency',
+          label: 'Local Currency Only',
+          description: 'I earn and spend in my home currency, so I want my policy in my local currency (like SGD, MYR, or IDR) to avoid exchange rate risks.'
+        },
+        {
+          value: 'usd',
+          label: 'US Dollars (USD)',
+          description: 'I want a USD-denominated plan to hold a globally stable currency and diversify my wealth.'
+        },
+        {
+          value: 'multi_currency',
+          label: 'Multi-Currency Flexibility',
+          description: 'I want the option to switch currencies later, for example when retiring abroad or sending kids overseas.'
+        }
+      ]
+    }
+  ],
+
+  // 📈 Investment-Linked (ILP) Questions
+  // Insurance with premiums invested in funds you choose
+  investment_linked: [
+    {
+      id: 'q1_goal',
+      question: 'What do you want the plan to do?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'growth',
+          label: 'Grow my money',
+          description: 'Long-term growth is the priority; the insurance is secondary.'
+        },
+        {
+          value: 'protection_and_investment',
+          label: 'Protect and invest',
+          description: 'Life cover and investing in one plan.',
+          match: {
+            need: 'Has protection riders',
+            filter: { type: 'has_benefit', fields: ['ilp_embedded_riders'] }
+          }
+        },
+        {
+          value: 'retirement',
+          label: 'Build a retirement fund',
+          description: 'Invest steadily now and draw on it when I retire.',
+          match: {
+            need: 'Allows withdrawals',
+            filter: { type: 'has_benefit', fields: ['ilp_partial_withdrawals'] }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q2_risk',
+      question: 'How much investment risk are you comfortable with?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'conservative',
+          label: 'Conservative',
+          description: 'Mostly bonds and money market funds; smaller ups and downs.',
+          match: {
+            need: 'Offers lower-risk funds',
+            filter: {
+              type: 'mentions',
+              fields: ['ilp_fund_universe'],
+              pattern: 'bond|money market|fixed income|conservative'
+            }
+          }
+        },
+        {
+          value: 'balanced',
+          label: 'Balanced',
+          description: 'A mix of shares and bonds.',
+          match: {
+            need: 'Offers balanced funds',
+            filter: {
+              type: 'mentions',
+              fields: ['ilp_fund_universe'],
+              pattern: 'balanced|mixed|multi-asset|managed'
+            }
+          }
+        },
+        {
+          value: 'aggressive',
+          label: 'Aggressive',
+          description: 'Mostly shares, including sectors and emerging markets.',
+          match: {
+            need: 'Offers equity funds',
+            filter: {
+              type: 'mentions',
+              fields: ['ilp_fund_universe'],
+              pattern: 'equit|technology|emerging|growth|shares'
+            }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q3_involvement',
+      question: 'How involved do you want to be in the investments?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'hands_off',
+          label: 'Hands-off',
+          description: 'A managed portfolio that rebalances itself.',
+          match: {
+            need: 'Managed or auto-rebalancing portfolios',
+            filter: {
+              type: 'any',
+              filters: [
+                { type: 'has_benefit', fields: ['ilp_auto_rebalancing'] },
+                { type: 'mentions', fields: ['ilp_fund_universe'], pattern: 'managed|portfolio|model' }
+              ]
+            }
+          }
+        },
+        {
+          value: 'hands_on',
+          label: 'Hands-on',
+          description: 'I pick the funds and switch between them myself.',
+          match: { need: 'Choice of funds', filter: { type: 'has_benefit', fields: ['ilp_fund_universe'] } }
+        }
+      ]
+    },
+    {
+      id: 'q3a_switching',
+      question: 'How often do you expect to switch funds?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'often',
+          label: 'Several times a year',
+          description: 'I want to react to the markets.',
+          match: {
+            need: 'Free fund switches',
+            filter: {
+              type: 'mentions',
+              fields: ['ilp_fund_switching_fee'],
+              pattern: 'free|no charge|waived|unlimited'
+            }
+          }
+        },
+        {
+          value: 'rarely',
+          label: 'Rarely',
+          description: 'Once I choose, I mostly stay put.'
+        }
+      ],
+      showIf: [{ questionId: 'q3_involvement', in: ['hands_on'] }]
+    },
+    {
+      id: 'q4_income',
+      question: 'Do you want the plan to pay you an income?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'dividend_income',
+          label: 'Yes, from dividend-paying funds',
+          description: 'Regular payouts from the funds.',
+          match: {
+            need: 'Dividend-paying funds',
+            filter: { type: 'has_benefit', fields: ['ilp_dividend_paying_funds'] }
+          }
+        },
+        {
+          value: 'accumulate',
+          label: 'No, let it grow',
+          description: 'Reinvest everything.'
+        }
+      ]
+    },
+    {
+      id: 'q4a_dividend_settlement',
+      question: 'What should happen to the dividends?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'cash_payout',
+          label: 'Pay them out to me',
+          description: 'Cash into my bank account.',
+          match: {
+            need: 'Dividends paid out in cash',
+            filter: { type: 'mentions', fields: ['ilp_dividend_settlement'], pattern: 'cash|pay ?out|bank' }
+          }
+        },
+        {
+          value: 'reinvest',
+          label: 'Reinvest them',
+          description: 'Buy more units in the fund.',
+          match: {
+            need: 'Dividends can be reinvested',
+            filter: { type: 'mentions', fields: ['ilp_dividend_settlement'], pattern: 'reinvest' }
+          }
+        }
+      ],
+      showIf: [{ questionId: 'q4_income', in: ['dividend_income'] }]
+    },
+    {
+      id: 'q5_funding',
+      question: 'How will you pay in?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'single_premium',
+          label: 'A single premium',
+          description: 'One lump sum to invest now.',
+          match: {
+            need: 'Single premium',
+            filter: {
+              type: 'mentions',
+              fields: ['ilp_premium_funding_options', 'premium_payment_options'],
+              pattern: 'single|lump|one[- ]?time'
+            }
+          }
+        },
+        {
+          value: 'regular_premium',
+          label: 'Regular premiums',
+          description: 'Invest a set amount every month or year.',
+          match: {
+            need: 'Regular premiums',
+            filter: {
+              type: 'mentions',
+              fields: ['ilp_premium_funding_options', 'premium_payment_options'],
+              pattern: 'regular|annual|monthly'
+            }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q5a_top_ups',
+      question: 'Would you like to top up with extra lump sums along the way?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'yes',
+          label: 'Yes',
+          description: 'Add bonuses or windfalls when I have them.',
+          match: {
+            need: 'Accepts top-ups',
+            filter: { type: 'has_benefit', fields: ['ilp_top_up_injections'] }
+          }
+        },
+        {
+          value: 'no',
+          label: 'No',
+          description: 'The regular premium is enough.'
+        }
+      ],
+      showIf: [{ questionId: 'q5_funding', in: ['regular_premium'] }]
+    },
+    {
+      id: 'q6_costs',
+      question: 'Which matters more to you?',
+      type: 'single',
+      required: false,
+      options: [
+        {
+          value: 'lowest_fees',
+          label: 'Low fees',
+          description: 'Fund management fees of 1.5% a year or less.',
+          match: {
+            need: 'Fund management fee of 1.5% or less',
+            filter: { type: 'range', field: 'ilp_fund_management_fee', unit: 'percent', max: 1.5 }
+          }
+        },
+        {
+          value: 'bonuses',
+          label: 'Bonuses for staying invested',
+          description: 'Welcome or loyalty bonuses, even if fees are a little higher.',
+          match: {
+            need: 'Welcome or loyalty bonuses',
+            filter: { type: 'has_benefit', fields: ['ilp_welcome_initial_bonus', 'ilp_loyalty_bonus'] }
+          }
+        }
+      ]
+    },
+    {
+      id: 'q7_currency',
+      question: 'Do you have a currency preference for this policy?',
+      type: 'single',
+      required: true,
+      options: [
+        {
+          value: 'local_currency',
+          label: 'Local Currency Only',
+          description: 'I earn and spend in my home currency, so I want my policy in my local currency (like SGD, MYR, or IDR) to avoid exchange rate risks.'
+        },
+        {
+          value: 'usd',
+          label: 'US Dollars (USD)',
+          description: 'I want a USD-denominated plan to hold a globally stable currency and diversify my wealth.'
+        },
+        {
+          value: 'multi_currency',
+          label: 'Multi-Currency Flexibility',
+          description: 'I want the option to switch currencies later, for example when retiring abroad or sending kids overseas.'
+        }
+      ]
+    }
+  ],
+};
+
+export const GUIDED_CATEGORY_NAMES: Record<string, string> = {
+  life_protection: 'Life Protection',
+  critical_illness: 'Critical Illness',
+  savings_and_wealth: 'Savings & Wealth',
+  health_insurance: 'Hospital & Health',
+  term_life: 'Term Life',
+  whole_life: 'Whole Life',
+  universal_life: 'Universal Life',
+  endowment: 'Endowment',
+  investment_linked: 'Investment-Linked (ILP)'
 };
 
 /**
@@ -1,8 +1,9 @@
 'use client';
 
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useRef, useState, ReactNode } from 'react';
 import { 
   AuthState, 
+  AuthResponse,
   User, 
   AuthTokens, 
   OTPRequest, 
@@ -10,8 +11,21 @@ import {
   OTPResponse, 
   ProfileUpdateData 
 } from '@/types/auth';
+import { useQueryClient } from '@tanstack/react-query';
 import { authService } from '@/services/auth';
-import { setAuthTokens, getAuthTokens, clearAuthTokens } from '@/lib/api';
+import {
+  setAuthTokens,
+  getAuthTokens,
+  clearAuthTokens,
+  clearSessionData,
+  getAccessTokenExpiry,
+  refreshAccessToken,
+  setSessionExpiredHandler,
+} from '@/lib/api';
+
+// Warn this long before the access token expires
+const SESSION_WARNING_MS = 10 * 60 * 1000;
+const SESSION_CHECK_INTERVAL_MS = 30 * 1000;
 
 // Action types
 type AuthAction =
@@ -107,8 +121,21 @@ function getRedirectPath(user: User | null): string {
   return '/oracle/dashboard';
 }
 
+function getTokensFromResponse(authResponse: AuthResponse): AuthTokens {
+  return {
+    access_token: authResponse.access_token,
+    token_type: authResponse.token_type,
+    expires_in: authResponse.expires_in,
+    refresh_token: authResponse.refresh_token,
+  };
+}
+
 // Context interface
 interface AuthContextType extends AuthState {
+  sessionExpiresInMinutes: number | null;  // Set while the expiry warning is showing
+  sessionExpired: boolean;  // Token is gone but the current page is kept mounted
+  reauthenticate: (otpCode: string) => Promise<void>;
+  dismissSessionWarning: () => void;
   requestOTP: (email: string) => Promise<OTPResponse>;
   verifyOTP: (email: string, otpCode: string) => Promise<void>;
   logout: () => Promise<void>;
@@ -128,13 +155,32 @@ interface AuthProviderProps {
 
 export function AuthProvider({ children }: AuthProviderProps) {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  const queryClient = useQueryClient();
+  const [sessionExpiresInMinutes, setSessionExpiresInMinutes] = useState<number | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const userRef = useRef<User | null>(null);
+  const warningDismissedRef = useRef(false);
+
+  useEffect(() => {
+    userRef.current = state.user;
+  }, [state.user]);
+
+  // Keep the page (and any unsaved draft) mounted when a request hits an expired session
+  useEffect(() => {
+    setSessionExpiredHandler(() => {
+      if (!userRef.current) return false;
+      setSessionExpiresInMinutes(null);
+      setSessionExpired(true);
+      return true;
+    });
+    return () => setSessionExpiredHandler(null);
+  }, []);
 
   // Helper function to fetch company jurisdiction
   const fetchCompanyJurisdiction = async (companyId: string): Promise<string | null> => {
     try {
-      const { apiClient } = await import('@/lib/api');
-      const response = await apiClient.get(`/api/v1/oracle/companies/${companyId}`);
-      const country = response.data?.country;
+      const { getCompany } = await import('@/lib/api/oracle/companies');
+      const { country } = await getCompany(companyId);
 
       if (country) {
         dispatch({ type: 'SET_COMPANY_JURISDICTION', payload: country });
@@ -186,21 +232,49 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   // Add token expiration monitoring
   useEffect(() => {
-    if (!state.isAuthenticated || !state.tokens) return;
+    if (!state.isAuthenticated || !state.tokens || sessionExpired) return;
 
-    const checkTokenExpiration = () => {
-      const tokens = getAuthTokens();
-      if (!tokens) {
+    const checkTokenExpiration = async () => {
+      const expiry = getAccessTokenExpiry();
+      if (!expiry) {
         // Token was cleared, logout user
         dispatch({ type: 'LOGOUT' });
+        return;
+      }
+
+      const remainingMs = expiry - Date.now();
+      if (remainingMs > SESSION_WARNING_MS) {
+        setSessionExpiresInMinutes(null);
+        return;
+      }
+
+      // Renew silently when the backend issued a refresh token
+      if (getAuthTokens()?.refresh_token) {
+        try {
+          const tokens = await refreshAccessToken();
+          dispatch({ type: 'SET_TOKENS', payload: tokens });
+          setSessionExpiresInMinutes(null);
+          return;
+        } catch (error) {
+          console.error('Failed to refresh session:', error);
+        }
+      }
+
+      if (remainingMs <= 0) {
+        clearAuthTokens();
+        clearSessionData();
+        setSessionExpiresInMinutes(null);
+        setSessionExpired(true);
+      } else if (!warningDismissedRef.current) {
+        setSessionExpiresInMinutes(Math.ceil(remainingMs / 60000));
       }
     };
 
-    // Check token every 5 minutes
-    const interval = setInterval(checkTokenExpiration, 5 * 60 * 1000);
+    checkTokenExpiration();
+    const interval = setInterval(checkTokenExpiration, SESSION_CHECK_INTERVAL_MS);
     
     return () => clearInterval(interval);
-  }, [state.isAuthenticated, state.tokens]);
+  }, [state.isAuthenticated, state.tokens, sessionExpired]);
 
   const requestOTP = async (email: string): Promise<OTPResponse> => {
     const otpRequest: OTPRequest = { email };
@@ -223,11 +297,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
       // console.log('[AUTH] Access token length:', authResponse.access_token?.length);
 
       // Set tokens in API client
-      setAuthTokens({
-        access_token: authResponse.access_token,
-        token_type: authResponse.token_type,
-        expires_in: authResponse.expires_in,
-      });
+      const tokens = getTokensFromResponse(authResponse);
+      setAuthTokens(tokens);
 
       // console.log('[AUTH] ✅ Tokens saved, dispatching LOGIN_SUCCESS');
 
@@ -236,11 +307,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         type: 'LOGIN_SUCCESS',
         payload: {
           user: authResponse.user,
-          tokens: {
-            access_token: authResponse.access_token,
-            token_type: authResponse.token_type,
-            expires_in: authResponse.expires_in,
-          },
+          tokens,
         },
       });
 
@@ -257,6 +324,27 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Sign the current user back in without unmounting the page they are on
+  const reauthenticate = async (otpCode: string): Promise<void> => {
+    if (!state.user) {
+      throw new Error('No user to re-authenticate');
+    }
+
+    const authResponse = await authService.verifyOTP({ email: state.user.email, otp_code: otpCode });
+    const tokens = getTokensFromResponse(authResponse);
+    setAuthTokens(tokens);
+    dispatch({ type: 'SET_TOKENS', payload: tokens });
+
+    warningDismissedRef.current = false;
+    setSessionExpiresInMinutes(null);
+    setSessionExpired(false);
+  };
+
+  const dismissSessionWarning = () => {
+    warningDismissedRef.current = true;
+    setSessionExpiresInMinutes(null);
+  };
+
   const logout = async (): Promise<void> => {
     try {
       await authService.logout();
@@ -264,6 +352,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
       console.error('Logout error:', error);
     } finally {
       clearAuthTokens();
+      // Drop cached data and queued uploads so the next user never sees them
+      queryClient.clear();
+      clearSessionData();
+      setSessionExpiresInMinutes(null);
+      setSessionExpired(false);
       dispatch({ type: 'LOGOUT' });
     }
   };
@@ -293,6 +386,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const contextValue: AuthContextType = {
     ...state,
+    sessionExpiresInMinutes,
+    sessionExpired,
+    reauthenticate,
+    dismissSessionWarning,
     requestOTP,
     verifyOTP,
     logout,
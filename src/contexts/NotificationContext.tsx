@@ -1,6 +1,7 @@
 'use client';
 
 import React, { createContext, useContext, useReducer, useCallback, useEffect, ReactNode } from 'react';
+import type { SavedSearchAlert } from '@/types/oracle/saved-search';
 
 // Notification types
 export interface Notification {
@@ -16,6 +17,8 @@ export interface Notification {
     uploadId?: string;
     documentId?: string;
     processStage?: string;
+    savedSearchId?: string;
+    insuranceId?: string;
   };
 }
 
@@ -131,6 +134,9 @@ interface NotificationContextType extends NotificationState {
   notifyUploadProgress: (stage: string, message: string, uploadId: string) => string;
   notifyUploadComplete: (message: string, uploadId: string, documentId?: string) => string;
   notifyUploadError: (message: string, uploadId: string, error?: string) => string;
+
+  // A newly ingested product matched one of the user's saved searches
+  notifySavedSearchMatch: (alert: SavedSearchAlert) => string;
 }
 
 // Create context
@@ -293,6 +299,18 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
     });
   }, [addNotification]);
 
+  const notifySavedSearchMatch = useCallback((alert: SavedSearchAlert): string => {
+    const product = alert.provider ? `${alert.insurance_name} (${alert.provider})` : alert.insurance_name;
+    return addNotification({
+      type: 'info',
+      title: 'New Product Matches Saved Search',
+      message: `${product} matches "${alert.search_name}"`,
+      metadata: { savedSearchId: alert.search_id, insuranceId: alert.insurance_id },
+      actionUrl: `/oracle/products?saved_search=${alert.search_id}`,
+      persistent: true,
+    });
+  }, [addNotification]);
+
   const contextValue: NotificationContextType = {
     ...state,
     addNotification,
@@ -307,6 +325,7 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
     notifyUploadProgress,
     notifyUploadComplete,
     notifyUploadError,
+    notifySavedSearchMatch,
   };
 
   return (
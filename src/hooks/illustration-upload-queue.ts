@@ -0,0 +1,201 @@
+/**
+ * Illustration upload queue hook
+ *
+ * Uploads a proposal's illustration PDFs one file at a time (a few in
+ * parallel) with progress, then follows each through extraction and cash value
+ * extraction using the proposal the workflow hook keeps loaded. Failed files
+ * can be retried on their own. The queue is saved in IndexedDB, so unfinished
+ * uploads resume after a reload. See src/lib/illustration-upload-queue.ts.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { reextractIllustration, uploadIllustration } from '@/lib/api/oracle/proposals';
+import {
+  MAX_CONCURRENT_UPLOADS,
+  createUploadItem,
+  isUploadActive,
+  isUploadFinished,
+  loadUploadQueue,
+  saveUploadQueue,
+  syncUploadItem,
+} from '@/lib/illustration-upload-queue';
+import { getUploadError } from '@/lib/proposal-workflow';
+import type { Proposal } from '@/types/oracle/proposal';
+import type { IllustrationUploadProgress } from '@/types/upload';
+
+export interface IllustrationUploadQueueOptions {
+  proposal: Proposal | null;
+  // Called once the backend has new work (an upload or re-extraction), to reload and poll
+  onProcessingStarted: () => Promise<void>;
+}
+
+export function useIllustrationUploadQueue(proposalId: string, options: IllustrationUploadQueueOptions) {
+  const [items, setItems] = useState<IllustrationUploadProgress[]>([]);
+  const [restored, setRestored] = useState(false);
+
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const inFlightRef = useRef<string[]>([]);
+
+  const updateItem = useCallback((id: string, updates: Partial<IllustrationUploadProgress>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+  }, []);
+
+  // Restore the unfinished part of the queue from the last visit
+  useEffect(() => {
+    let cancelled = false;
+    loadUploadQueue(proposalId)
+      .then((stored) => {
+        if (cancelled) return;
+        const unfinished = stored.filter((item) => item.status !== 'completed');
+        if (unfinished.length > 0) {
+          setItems((prev) => [...unfinished, ...prev]);
+          toast(`Resuming ${unfinished.length} illustration upload${unfinished.length === 1 ? '' : 's'}`);
+        }
+      })
+      .catch((error) => console.error('Error restoring upload queue:', error))
+      .finally(() => {
+        if (!cancelled) setRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [proposalId]);
+
+  // Save whenever an item changes stage (not on every progress tick)
+  const persistKey = items.map((item) => `${item.id}:${item.status}:${item.illustrationId || ''}`).join('|');
+  useEffect(() => {
+    if (!restored) return;
+    saveUploadQueue(proposalId, itemsRef.current).catch((error) => console.error('Error saving upload queue:', error));
+  }, [proposalId, persistKey, restored]);
+
+  // Follow uploaded files through extraction as the proposal reloads
+  const proposal = options.proposal;
+  useEffect(() => {
+    if (!proposal) return;
+    setItems((prev) => {
+      const next = prev.map((item) => syncUploadItem(item, proposal.illustrations));
+      return next.some((item, index) => item !== prev[index]) ? next : prev;
+    });
+  }, [proposal, restored]);
+
+  const startUpload = useCallback(
+    async (item: IllustrationUploadProgress) => {
+      inFlightRef.current = [...inFlightRef.current, item.id];
+      updateItem(item.id, { status: 'uploading', progress: 0, error: undefined, failedStage: undefined });
+
+      let updates: Partial<IllustrationUploadProgress>;
+      try {
+        const illustration = await uploadIllustration(proposalId, item.file, (progress) =>
+          updateItem(item.id, { progress })
+        );
+        updates = { status: 'extracting', progress: 100, illustrationId: illustration.id, confirmed: false };
+      } catch (error: any) {
+        console.error('Error uploading illustration:', error);
+        updates = { status: 'error', failedStage: 'upload', error: error.detail || 'Upload failed' };
+      }
+
+      // Free the slot before the update so the next file starts right away
+      inFlightRef.current = inFlightRef.current.filter((id) => id !== item.id);
+      updateItem(item.id, updates);
+      if (updates.illustrationId) {
+        await optionsRef.current.onProcessingStarted();
+      }
+    },
+    [proposalId, updateItem]
+  );
+
+  // Start queued files while there are free slots
+  useEffect(() => {
+    if (!restored) return;
+    const freeSlots = MAX_CONCURRENT_UPLOADS - inFlightRef.current.length;
+    items
+      .filter((item) => item.status === 'pending' && inFlightRef.current.indexOf(item.id) < 0)
+      .slice(0, Math.max(freeSlots, 0))
+      .forEach(startUpload);
+  }, [items, restored, startUpload]);
+
+  // =============================================================================
+  // Actions
+  // =============================================================================
+
+  const enqueue = useCallback((files: File[]) => {
+    const { proposal } = optionsRef.current;
+    if (!proposal) return;
+
+    const queuedCount = itemsRef.current.filter(isUploadActive).length;
+    const uploadError = getUploadError(proposal, files.length, queuedCount);
+    if (uploadError) {
+      toast.error(uploadError);
+      return;
+    }
+    setItems((prev) => [...prev, ...files.map(createUploadItem)]);
+  }, []);
+
+  // Upload a failed or removed file again
+  const retryUpload = useCallback(
+    (item: IllustrationUploadProgress) => {
+      updateItem(item.id, {
+        status: 'pending',
+        progress: 0,
+        error: undefined,
+        failedStage: undefined,
+        illustrationId: undefined,
+        confirmed: false,
+      });
+    },
+    [updateItem]
+  );
+
+  // Extract an uploaded illustration again, or only its cash values
+  const reextract = useCallback(
+    async (item: IllustrationUploadProgress, scope: 'all' | 'cash_values') => {
+      if (!item.illustrationId) return;
+      try {
+        await reextractIllustration(proposalId, item.illustrationId, scope);
+        updateItem(item.id, {
+          status: scope === 'cash_values' ? 'processing' : 'extracting',
+          error: undefined,
+          failedStage: undefined,
+        });
+        await optionsRef.current.onProcessingStarted();
+      } catch (error: any) {
+        console.error('Error restarting extraction:', error);
+        toast.error(error.detail || 'Failed to restart extraction');
+      }
+    },
+    [proposalId, updateItem]
+  );
+
+  const dismiss = useCallback((item: IllustrationUploadProgress) => {
+    setItems((prev) => prev.filter((candidate) => candidate.id !== item.id));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems((prev) => prev.filter((item) => !isUploadFinished(item)));
+  }, []);
+
+  // Drop the file of an illustration the advisor deleted
+  const forgetIllustration = useCallback((illustrationId: string) => {
+    setItems((prev) => prev.filter((item) => item.illustrationId !== illustrationId));
+  }, []);
+
+  // Drop everything, e.g. after processing was cancelled
+  const clear = useCallback(() => {
+    setItems([]);
+  }, []);
+
+  return {
+    items,
+    enqueue,
+    retryUpload,
+    reextract,
+    dismiss,
+    clearFinished,
+    forgetIllustration,
+    clear,
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * React Query hooks for Meeting Tracker data
+ *
+ * Shared by every page and widget so the same request is only made once
+ * and mutations keep lists, sidebar widgets and stats in sync.
+ */
+
+import { queryOptions, useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { getHierarchyMe, getSubordinates } from '@/lib/api/meeting-tracker/hierarchy';
+import { getUpcomingEvents, listMeetings, submitMeetingReport } from '@/lib/api/meeting-tracker/meetings';
+import { deleteTask, listTasks, updateTaskStatus } from '@/lib/api/meeting-tracker/tasks';
+import { getBadges, getGamificationStats } from '@/lib/api/meeting-tracker/gamification';
+import { queryKeys } from '@/lib/query-keys';
+import type {
+  GamificationStats,
+  MeetingListParams,
+  MeetingReportSubmitData,
+  TaskListParams,
+  TaskStatus,
+  XPAwarded,
+} from '@/types/meeting-tracker';
+
+// Hierarchy rarely changes during a session
+const HIERARCHY_STALE_TIME = 5 * 60 * 1000;
+
+// Also used with queryClient.fetchQuery where a page needs the value imperatively
+export const hierarchyMeQueryOptions = queryOptions({
+  queryKey: queryKeys.meetingTracker.hierarchyMe(),
+  queryFn: getHierarchyMe,
+  staleTime: HIERARCHY_STALE_TIME,
+});
+
+/**
+ * The current user's position in the hierarchy
+ */
+export function useHierarchyMe(enabled = true) {
+  return useQuery({ ...hierarchyMeQueryOptions, enabled });
+}
+
+/**
+ * Every direct and indirect subordinate of the current user
+ */
+export function useSubordinates(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.meetingTracker.subordinates(),
+    queryFn: async () => (await getSubordinates()).subordinates || [],
+    staleTime: HIERARCHY_STALE_TIME,
+    enabled,
+  });
+}
+
+/**
+ * Meetings matching the given filters
+ */
+export function useMeetings(params: MeetingListParams, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.meetingTracker.meetingList(params),
+    queryFn: async () => (await listMeetings(params)).meetings || [],
+    enabled,
+  });
+}
+
+/**
+ * Upcoming meetings grouped by date
+ */
+export function useUpcomingEvents(viewType: string, days = 7) {
+  return useQuery({
+    queryKey: queryKeys.meetingTracker.upcomingEvents(viewType, days),
+    queryFn: () => getUpcomingEvents(viewType, days),
+  });
+}
+
+/**
+ * Tasks (with statistics) matching the given filters
+ */
+export function useTasks(params: TaskListParams, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.meetingTracker.taskList(params),
+    queryFn: () => listTasks(params),
+    enabled,
+  });
+}
+
+/**
+ * The current user's XP, level and tier
+ */
+export function useGamificationStats() {
+  return useQuery({
+    queryKey: queryKeys.gamification.stats(),
+    queryFn: async () => (await getGamificationStats()).data,
+  });
+}
+
+/**
+ * The current user's most recently unlocked badges
+ */
+export function useRecentBadges(limit: number) {
+  return useQuery({
+    queryKey: queryKeys.gamification.recentBadges(limit),
+    queryFn: async () => (await getBadges(limit)).data || [],
+  });
+}
+
+/**
+ * Apply XP returned by a mutation to the cached stats, or refetch when none was returned
+ */
+function applyXPAwarded(queryClient: QueryClient, xpAwarded?: XPAwarded) {
+  if (xpAwarded && xpAwarded.user_id) {
+    queryClient.setQueryData<GamificationStats>(queryKeys.gamification.stats(), xpAwarded);
+    queryClient.invalidateQueries({ queryKey: queryKeys.gamification.badges() });
+  } else {
+    queryClient.invalidateQueries({ queryKey: queryKeys.gamification.all });
+  }
+}
+
+/**
+ * Change a task's status. Completing a task may award XP.
+ */
+export function useUpdateTaskStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ taskId, status }: { taskId: string; status: TaskStatus }) => updateTaskStatus(taskId, status),
+    onSuccess: (data) => {
+      applyXPAwarded(queryClient, data.xp_awarded);
+      queryClient.invalidateQueries({ queryKey: queryKeys.meetingTracker.tasks() });
+    },
+  });
+}
+
+/**
+ * Delete a task
+ */
+export function useDeleteTask() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteTask,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.meetingTracker.tasks() });
+    },
+  });
+}
+
+/**
+ * Submit a meeting report. Awards XP and may create tasks and a follow-up meeting.
+ */
+export function useSubmitMeetingReport() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: MeetingReportSubmitData) => submitMeetingReport(data),
+    onSuccess: (data) => {
+      applyXPAwarded(queryClient, data.xp_awarded);
+      queryClient.invalidateQueries({ queryKey: queryKeys.meetingTracker.meetings() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.meetingTracker.tasks() });
+    },
+  });
+}
+
+/**
+ * Refetch meeting and task lists after meetings or tasks are created elsewhere
+ */
+export function useInvalidateMeetingData() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.meetingTracker.meetings() });
+    queryClient.invalidateQueries({ queryKey: queryKeys.meetingTracker.tasks() });
+  };
+}
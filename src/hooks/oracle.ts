@@ -0,0 +1,562 @@
+/**
+ * React Query hooks for Oracle data
+ */
+
+import { useMemo } from 'react';
+import {
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+  type QueryClient,
+  type UseQueryResult,
+} from '@tanstack/react-query';
+import {
+  createClient,
+  deleteClientPolicy,
+  getClient,
+  listClientPolicies,
+  listClientProposals,
+} from '@/lib/api/oracle/clients';
+import {
+  clearProposalFxRateOverride,
+  getFxRate,
+  overrideProposalFxRate,
+  refreshProposalFxRates,
+} from '@/lib/api/oracle/fx-rates';
+import {
+  createShareLink,
+  listShareLinks,
+  listShareViews,
+  revokeShareLink,
+} from '@/lib/api/oracle/proposal-shares';
+import {
+  listGuidedQuestionSets,
+  resetGuidedQuestionSet,
+  saveGuidedQuestionSet,
+} from '@/lib/api/oracle/guided-questions';
+import {
+  createProposalTemplate,
+  deleteProposalTemplate,
+  getProposalTemplate,
+  listProposalTemplates,
+  updateProposalTemplate,
+} from '@/lib/api/oracle/proposal-templates';
+import { listProducts, type ProductListParams } from '@/lib/api/oracle/products';
+import {
+  createRevision,
+  getIllustrationPdf,
+  getProposal,
+  getRevision,
+  getSignature,
+  listRevisions,
+  restoreRevision,
+  signProposal,
+} from '@/lib/api/oracle/proposals';
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearch,
+  listSavedSearches,
+  markSavedSearchRun,
+  updateSavedSearch,
+} from '@/lib/api/oracle/saved-searches';
+import { FX_RATE_STALE_TIME_MS, findProposalFxRate } from '@/lib/fx-rates';
+import { resolveQuestionSet } from '@/lib/guided-questions';
+import { queryKeys } from '@/lib/query-keys';
+import type { Question } from '@/config/guidedQuestions';
+import type { ClientCreateData } from '@/types/client';
+import type { FxRateQuote, ProposalFxRate, ProposalFxRateOverride } from '@/types/oracle/fx-rate';
+import type { GuidedQuestionSet, GuidedQuestionSetUpdate } from '@/types/oracle/guided-question';
+import type { ProposalRevisionCreate, ProposalSignatureCreate } from '@/types/oracle/proposal';
+import type { ProposalShareCreate } from '@/types/oracle/proposal-share';
+import type { ProposalTemplateCreate } from '@/types/oracle/proposal-template';
+import type { SavedSearch, SavedSearchCreate, SavedSearchUpdate } from '@/types/oracle/saved-search';
+
+/**
+ * A single proposal
+ */
+export function useProposal(proposalId: string) {
+  return useQuery({
+    queryKey: queryKeys.oracle.proposal(proposalId),
+    queryFn: () => getProposal(proposalId),
+    enabled: !!proposalId,
+  });
+}
+
+/**
+ * A proposal's revision timeline, newest first
+ */
+export function useProposalRevisions(proposalId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.oracle.proposalRevisions(proposalId),
+    queryFn: () => listRevisions(proposalId),
+    enabled: !!proposalId && enabled,
+  });
+}
+
+/**
+ * A single revision with its snapshot. Revisions never change, so it is never refetched.
+ */
+export function useProposalRevision(proposalId: string, revisionId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.oracle.proposalRevision(proposalId, revisionId || ''),
+    queryFn: () => getRevision(proposalId, revisionId as string),
+    enabled: !!proposalId && !!revisionId,
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Record a revision after a save or regeneration
+ */
+export function useRecordProposalRevision(proposalId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: ProposalRevisionCreate) => createRevision(proposalId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.proposalRevisions(proposalId) });
+    },
+  });
+}
+
+/**
+ * Restore a proposal to an earlier revision (recorded as a new revision)
+ */
+export function useRestoreProposalRevision(proposalId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (revisionId: string) => restoreRevision(proposalId, revisionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.proposalRevisions(proposalId) });
+    },
+  });
+}
+
+/**
+ * An illustration's original PDF. The file never changes, so it is never refetched.
+ */
+export function useIllustrationPdf(proposalId: string, illustrationId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.oracle.illustrationPdf(proposalId, illustrationId || ''),
+    queryFn: () => getIllustrationPdf(proposalId, illustrationId as string),
+    enabled: !!proposalId && !!illustrationId,
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * The client's signature on a signed proposal
+ */
+export function useProposalSignature(proposalId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.oracle.proposalSignature(proposalId),
+    queryFn: () => getSignature(proposalId),
+    enabled: !!proposalId && enabled,
+  });
+}
+
+/**
+ * Record the client's signature in person (the proposal becomes signed)
+ */
+export function useSignProposal(proposalId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: ProposalSignatureCreate) => signProposal(proposalId, data),
+    onSuccess: (signature) => {
+      queryClient.setQueryData(queryKeys.oracle.proposalSignature(proposalId), signature);
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.proposal(proposalId), exact: true });
+    },
+  });
+}
+
+/**
+ * The current market rate between two currencies
+ */
+export function useFxRate(fromCurrency: string, toCurrency: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.oracle.fxRate(fromCurrency, toCurrency),
+    queryFn: () => getFxRate(fromCurrency, toCurrency),
+    enabled: !!fromCurrency && !!toCurrency && fromCurrency !== toCurrency && enabled,
+    staleTime: FX_RATE_STALE_TIME_MS,
+  });
+}
+
+/**
+ * The rate from each currency to the target currency: the proposal's snapshot
+ * rate when it has one, else the current market rate. The map only changes
+ * when a rate does, as long as the snapshot and currencies passed in are stable.
+ */
+export function useFxRateMap(
+  snapshot: ProposalFxRate[] | null | undefined,
+  currencies: string[],
+  toCurrency: string
+): Record<string, number | undefined> {
+  const liveCurrencies = useMemo(
+    () => currencies.filter((currency) => currency !== toCurrency && !findProposalFxRate(snapshot, currency, toCurrency)),
+    [snapshot, currencies, toCurrency]
+  );
+  // Combined results are structurally shared, so this list keeps its identity while the rates are unchanged
+  const liveRates = useQueries({
+    queries: liveCurrencies.map((currency) => ({
+      queryKey: queryKeys.oracle.fxRate(currency, toCurrency),
+      queryFn: () => getFxRate(currency, toCurrency),
+      staleTime: FX_RATE_STALE_TIME_MS,
+    })),
+    combine: (quotes: UseQueryResult<FxRateQuote>[]) => quotes.map((quote) => quote.data?.rate),
+  });
+
+  return useMemo(() => {
+    const rates: Record<string, number | undefined> = {};
+    currencies.forEach((currency) => {
+      rates[currency] = currency === toCurrency ? 1 : findProposalFxRate(snapshot, currency, toCurrency)?.rate;
+    });
+    liveCurrencies.forEach((currency, index) => {
+      rates[currency] = liveRates[index];
+    });
+    return rates;
+  }, [snapshot, currencies, toCurrency, liveCurrencies, liveRates]);
+}
+
+/**
+ * Re-capture a proposal's rates at today's market rates
+ */
+export function useRefreshProposalFxRates(proposalId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => refreshProposalFxRates(proposalId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.proposal(proposalId), exact: true });
+    },
+  });
+}
+
+/**
+ * Override a proposal's rate for one source currency
+ */
+export function useOverrideProposalFxRate(proposalId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ fromCurrency, data }: { fromCurrency: string; data: ProposalFxRateOverride }) =>
+      overrideProposalFxRate(proposalId, fromCurrency, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.proposal(proposalId), exact: true });
+    },
+  });
+}
+
+/**
+ * Go back to the captured market rate for one source currency
+ */
+export function useClearProposalFxRateOverride(proposalId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (fromCurrency: string) => clearProposalFxRateOverride(proposalId, fromCurrency),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.proposal(proposalId), exact: true });
+    },
+  });
+}
+
+/**
+ * A proposal's client share links with their view counts
+ */
+export function useProposalShareLinks(proposalId: string) {
+  return useQuery({
+    queryKey: queryKeys.oracle.proposalShares(proposalId),
+    queryFn: () => listShareLinks(proposalId),
+    enabled: !!proposalId,
+  });
+}
+
+/**
+ * The view log of one share link
+ */
+export function useProposalShareViews(proposalId: string, shareId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.oracle.proposalShareViews(proposalId, shareId || ''),
+    queryFn: () => listShareViews(proposalId, shareId as string),
+    enabled: !!proposalId && !!shareId,
+  });
+}
+
+/**
+ * Create a client share link
+ */
+export function useCreateProposalShareLink(proposalId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: ProposalShareCreate) => createShareLink(proposalId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.proposalShares(proposalId) });
+    },
+  });
+}
+
+/**
+ * Revoke a client share link
+ */
+export function useRevokeProposalShareLink(proposalId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (shareId: string) => revokeShareLink(proposalId, shareId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.proposalShares(proposalId) });
+    },
+  });
+}
+
+/**
+ * The proposal templates of the current user's company
+ */
+export function useProposalTemplates() {
+  return useQuery({
+    queryKey: queryKeys.oracle.proposalTemplates(),
+    queryFn: listProposalTemplates,
+  });
+}
+
+/**
+ * A single proposal template
+ */
+export function useProposalTemplate(templateId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.oracle.proposalTemplate(templateId || ''),
+    queryFn: () => getProposalTemplate(templateId as string),
+    enabled: !!templateId,
+  });
+}
+
+/**
+ * Create a proposal template, or update it when a template id is given
+ */
+export function useSaveProposalTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ templateId, data }: { templateId?: string; data: ProposalTemplateCreate }) =>
+      templateId ? updateProposalTemplate(templateId, data) : createProposalTemplate(data),
+    onSuccess: () => {
+      // Saving a default changes the is_default flag of the others too
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.proposalTemplates() });
+    },
+  });
+}
+
+/**
+ * Delete a proposal template
+ */
+export function useDeleteProposalTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (templateId: string) => deleteProposalTemplate(templateId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.proposalTemplates() });
+    },
+  });
+}
+
+/**
+ * A single client with policy stats
+ */
+export function useClient(clientId: string) {
+  return useQuery({
+    queryKey: queryKeys.oracle.client(clientId),
+    queryFn: () => getClient(clientId),
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * A client's policies
+ */
+export function useClientPolicies(clientId: string) {
+  return useQuery({
+    queryKey: queryKeys.oracle.clientPolicies(clientId),
+    queryFn: () => listClientPolicies(clientId),
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * The proposals made for a client
+ */
+export function useClientProposals(clientId: string) {
+  return useQuery({
+    queryKey: queryKeys.oracle.clientProposals(clientId),
+    queryFn: () => listClientProposals(clientId),
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * Create a client (e.g. inline while creating a proposal)
+ */
+export function useCreateClient() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: ClientCreateData) => createClient(data),
+    onSuccess: (client) => {
+      queryClient.setQueryData(queryKeys.oracle.client(client.client_id), client);
+    },
+  });
+}
+
+/**
+ * Delete one of a client's policies (refreshes the client's stats too)
+ */
+export function useDeleteClientPolicy(clientId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (policyId: string) => deleteClientPolicy(clientId, policyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.client(clientId) });
+    },
+  });
+}
+
+/**
+ * A page of the product catalogue
+ */
+export function useProducts(params: ProductListParams, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.oracle.products(params),
+    queryFn: () => listProducts(params),
+    enabled,
+  });
+}
+
+/**
+ * The current user's saved AI searches
+ */
+export function useSavedSearches() {
+  return useQuery({
+    queryKey: queryKeys.oracle.savedSearches(),
+    queryFn: listSavedSearches,
+  });
+}
+
+/**
+ * A single saved search, e.g. one opened from an alert
+ */
+export function useSavedSearch(searchId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.oracle.savedSearch(searchId || ''),
+    queryFn: () => getSavedSearch(searchId as string),
+    enabled: !!searchId,
+  });
+}
+
+/**
+ * Save the current AI search
+ */
+export function useCreateSavedSearch() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: SavedSearchCreate) => createSavedSearch(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.savedSearches() });
+    },
+  });
+}
+
+/**
+ * Rename a saved search or turn its alerts on or off
+ */
+export function useUpdateSavedSearch() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ searchId, data }: { searchId: string; data: SavedSearchUpdate }) =>
+      updateSavedSearch(searchId, data),
+    onSuccess: (search) => {
+      updateCachedSavedSearch(queryClient, search);
+    },
+  });
+}
+
+/**
+ * Record that a saved search was re-run (clears its new match count)
+ */
+export function useMarkSavedSearchRun() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (searchId: string) => markSavedSearchRun(searchId),
+    onSuccess: (search) => {
+      updateCachedSavedSearch(queryClient, search);
+    },
+  });
+}
+
+/**
+ * Delete a saved search; its pending alerts go with it
+ */
+export function useDeleteSavedSearch() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (searchId: string) => deleteSavedSearch(searchId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.oracle.savedSearches() });
+    },
+  });
+}
+
+/**
+ * The guided question sets the user's company has edited
+ */
+export function useGuidedQuestionSets() {
+  return useQuery({
+    queryKey: queryKeys.oracle.guidedQuestionSets(),
+    queryFn: listGuidedQuestionSets,
+  });
+}
+
+const NO_QUESTIONS: Question[] = [];
+
+/**
+ * A category's questions: the company's version if it has one, else the default.
+ * Empty while the company's sets load; the defaults if they fail to.
+ */
+export function useGuidedQuestions(categoryId: string) {
+  const { data, isLoading } = useGuidedQuestionSets();
+  return {
+    questions: isLoading ? NO_QUESTIONS : resolveQuestionSet(categoryId, data),
+    isLoading,
+  };
+}
+
+/**
+ * Replace the company's questions for a category
+ */
+export function useSaveGuidedQuestionSet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ categoryId, data }: { categoryId: string; data: GuidedQuestionSetUpdate }) =>
+      saveGuidedQuestionSet(categoryId, data),
+    onSuccess: (set) => {
+      queryClient.setQueryData<GuidedQuestionSet[]>(queryKeys.oracle.guidedQuestionSets(), (sets) =>
+        (sets || []).filter((candidate) => candidate.category_id !== set.category_id).concat(set)
+      );
+    },
+  });
+}
+
+/**
+ * Go back to the default questions for a category
+ */
+export function useResetGuidedQuestionSet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (categoryId: string) => resetGuidedQuestionSet(categoryId),
+    onSuccess: (_, categoryId) => {
+      queryClient.setQueryData<GuidedQuestionSet[]>(queryKeys.oracle.guidedQuestionSets(), (sets) =>
+        sets?.filter((candidate) => candidate.category_id !== categoryId)
+      );
+    },
+  });
+}
+
+function updateCachedSavedSearch(queryClient: QueryClient, search: SavedSearch) {
+  queryClient.setQueryData(queryKeys.oracle.savedSearch(search.search_id), search);
+  queryClient.setQueryData<SavedSearch[]>(queryKeys.oracle.savedSearches(), (searches) =>
+    searches?.map((candidate) => (candidate.search_id === search.search_id ? search : candidate))
+  );
+}
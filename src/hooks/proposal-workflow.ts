@@ -0,0 +1,929 @@
+/**
+ * Proposal workflow hook
+ *
+ * Drives the proposal editor through src/lib/proposal-workflow.ts: loads the
+ * proposal (retrying network failures), polls while the backend is processing,
+ * and runs generation behind the workflow guards. Uploads go through
+ * useIllustrationUploadQueue, which calls resumeProcessing once the backend has
+ * new work.
+ *
+ * The editor's other state lives in the hooks below: commission rates,
+ * exchange rate conversions, the AI-written pages (1, 2 and 4) and editing
+ * illustrations, including keeping client details and cash value ages the same
+ * across illustrations. The page only renders the state and calls these actions.
+ */
+
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { useFxRate, useFxRateMap } from '@/hooks/oracle';
+import { listBulkCommissions } from '@/lib/api/oracle/commissions';
+import { getFxRate } from '@/lib/api/oracle/fx-rates';
+import {
+  acceptSectionDraft,
+  generateProposal,
+  generateSectionContent,
+  getProposal,
+  listIllustrations,
+  updateIllustration,
+} from '@/lib/api/oracle/proposals';
+import { getIllustrationCurrency } from '@/lib/cash-value-projection';
+import { FX_RATE_STALE_TIME_MS, findProposalFxRate } from '@/lib/fx-rates';
+import { toPage2Content, toPage4Content } from '@/lib/proposal-content';
+import {
+  GENERATION_TIMEOUT_MS,
+  MAX_LOAD_RETRIES,
+  MAX_POLL_FAILURES,
+  POLL_INTERVAL_MS,
+  canTransition,
+  getCashValueAges,
+  getDisplayRoleId,
+  getGenerationError,
+  getIllustrationFieldValue,
+  getMappedInsuranceIds,
+  getNextCashValueAge,
+  getSharedClientDetails,
+  groupCommissionsByTerm,
+  initialProposalWorkflowState,
+  isProcessing,
+  isProposalStatus,
+  pickClientDetails,
+  proposalWorkflowReducer,
+  shouldPoll,
+  withCashValueAges,
+  type CashValueRow,
+  type ProductCommissions,
+} from '@/lib/proposal-workflow';
+import { queryKeys } from '@/lib/query-keys';
+import type { ApiError } from '@/types/auth';
+import type {
+  ExtractedIllustration,
+  Proposal,
+  ProposalContentDraft,
+  ProposalGeneratedContent,
+  ProposalRevisionTrigger,
+} from '@/types/oracle/proposal';
+
+const isDevelopment = process.env.NODE_ENV !== 'production';
+
+// Give the backend a moment to register an upload before reloading
+const UPLOAD_SETTLE_MS = 500;
+// ...and to commit client details copied to other illustrations before reloading them
+const CLIENT_SYNC_SETTLE_MS = 500;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface ProposalWorkflowOptions {
+  // Called after every full load of the proposal
+  onLoaded?: (proposal: Proposal) => void;
+  // Refresh illustrations on every poll, not only while they are processing
+  refreshIllustrations?: boolean;
+}
+
+export function useProposalWorkflow(proposalId: string, options: ProposalWorkflowOptions = {}) {
+  const router = useRouter();
+  const [state, dispatch] = useReducer(proposalWorkflowReducer, initialProposalWorkflowState);
+
+  // Actions read the latest values through refs so they stay stable between renders
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Load the proposal, retrying network and server errors with backoff (1s, 2s, 4s)
+  const reload = useCallback(async () => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const proposal = await getProposal(proposalId);
+        dispatch({ type: 'PROPOSAL_LOADED', proposal });
+        optionsRef.current.onLoaded?.(proposal);
+        return;
+      } catch (error: any) {
+        console.error('Error loading proposal:', error);
+        const statusCode = (error as ApiError).status_code;
+
+        if ((!statusCode || statusCode >= 500) && attempt < MAX_LOAD_RETRIES) {
+          dispatch({ type: 'LOAD_RETRIED', attempt: attempt + 1 });
+          await wait(Math.pow(2, attempt) * 1000);
+          continue;
+        }
+
+        if (statusCode === 404) {
+          toast.error('Proposal not found');
+        } else if (statusCode === 403) {
+          toast.error('Access denied to this proposal');
+        } else {
+          toast.error('Unable to load proposal. Please check your connection and try again.');
+        }
+        dispatch({ type: 'LOAD_FAILED' });
+        router.push('/oracle/proposals');
+        return;
+      }
+    }
+  }, [proposalId, router]);
+
+  // Load the illustrations with their extracted data. Resolves to whether it succeeded.
+  const loadIllustrations = useCallback(async () => {
+    dispatch({ type: 'ILLUSTRATIONS_REQUESTED' });
+    try {
+      const illustrations = await listIllustrations(proposalId);
+      dispatch({ type: 'ILLUSTRATIONS_LOADED', illustrations });
+      return true;
+    } catch (error) {
+      console.error('Error loading extracted data:', error);
+      toast.error('Failed to load extracted data');
+      dispatch({ type: 'ILLUSTRATIONS_FAILED' });
+      return false;
+    }
+  }, [proposalId]);
+
+  const clearIllustrations = useCallback(() => {
+    dispatch({ type: 'ILLUSTRATIONS_CLEARED' });
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Warn when the backend moves a proposal somewhere the workflow doesn't expect
+  const previousStatusRef = useRef<string | null>(null);
+  const status = state.proposal?.status ?? null;
+  useEffect(() => {
+    const previousStatus = previousStatusRef.current;
+    previousStatusRef.current = status;
+    if (!isDevelopment || !previousStatus || !status || previousStatus === status) return;
+
+    if (!isProposalStatus(status)) {
+      console.warn(`[Proposal workflow] Unknown status "${status}"`);
+    } else if (!canTransition(previousStatus, status)) {
+      console.warn(`[Proposal workflow] Unexpected transition ${previousStatus} → ${status}`);
+    }
+  }, [status]);
+
+  // =============================================================================
+  // Polling
+  // =============================================================================
+
+  const poll = useCallback(async () => {
+    try {
+      const proposal = await getProposal(proposalId);
+      const refreshIllustrations =
+        optionsRef.current.refreshIllustrations || isProcessing(proposal, stateRef.current.illustrations);
+      const illustrations = refreshIllustrations ? await listIllustrations(proposalId) : null;
+      dispatch({ type: 'POLLED', proposal, illustrations, at: new Date() });
+    } catch (error) {
+      console.error('Error polling proposal status:', error);
+      if (stateRef.current.pollFailures + 1 >= MAX_POLL_FAILURES) {
+        toast.error('Auto-refresh failed. Please refresh manually if needed.');
+      }
+      dispatch({ type: 'POLL_FAILED' });
+    }
+  }, [proposalId]);
+
+  // Start polling whenever processing begins, unless it has already failed too often
+  const wantsPolling = shouldPoll(state) && state.pollFailures < MAX_POLL_FAILURES;
+  useEffect(() => {
+    if (wantsPolling && !state.polling) {
+      dispatch({ type: 'POLLING_STARTED' });
+      toast.success('🔄 Auto-refresh enabled for real-time updates');
+    }
+  }, [wantsPolling, state.polling]);
+
+  useEffect(() => {
+    if (!state.polling) return;
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [state.polling, poll]);
+
+  useEffect(() => {
+    if (state.processingCompleted) {
+      toast.success('🎉 Processing completed! All illustrations are ready.');
+    }
+  }, [state.processingCompleted]);
+
+  // Reload everything now; polling restarts on its own if processing is still running
+  const refresh = useCallback(async () => {
+    dispatch({ type: 'POLLING_STOPPED' });
+    await reload();
+    if (optionsRef.current.refreshIllustrations) {
+      await loadIllustrations();
+    }
+    toast.success('Status refreshed manually');
+  }, [reload, loadIllustrations]);
+
+  // =============================================================================
+  // Upload & Generation
+  // =============================================================================
+
+  // Reload after an upload or re-extraction so polling picks up the new round of processing
+  const resumeProcessing = useCallback(async () => {
+    dispatch({ type: 'PROCESSING_RESUMED' });
+    await wait(UPLOAD_SETTLE_MS);
+    await reload();
+  }, [reload]);
+
+  // Generate the final proposal and open its preview in a new tab. Resolves to whether it succeeded.
+  // beforeGenerate saves pending edits so the backend generates from the latest data.
+  const generate = useCallback(
+    async (beforeGenerate?: () => Promise<void>) => {
+      const { proposal, illustrations } = stateRef.current;
+      if (!proposal) return false;
+
+      const generationError = getGenerationError(proposal, illustrations);
+      if (generationError) {
+        toast.error(generationError);
+        return false;
+      }
+
+      try {
+        await beforeGenerate?.();
+        dispatch({ type: 'GENERATION_STARTED' });
+        toast('Generating proposal... This may take a moment');
+
+        const result = await generateProposal(proposalId);
+        if (!result.success) {
+          throw new Error(result.message || 'Failed to generate proposal');
+        }
+
+        toast.success('Proposal generated successfully!');
+        window.open(`/oracle/proposals/${proposalId}/preview`, '_blank');
+        return true;
+      } catch (error: any) {
+        console.error('Error generating proposal:', error);
+        toast.error(error.detail || error.message || 'Failed to generate proposal');
+        return false;
+      } finally {
+        dispatch({ type: 'GENERATION_FINISHED' });
+      }
+    },
+    [proposalId]
+  );
+
+  useEffect(() => {
+    if (!state.generating) return;
+
+    const timeout = setTimeout(() => {
+      dispatch({ type: 'GENERATION_FINISHED' });
+      toast('Generation took longer than expected. Please check the proposal status.', { icon: '⚠️' });
+    }, GENERATION_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [state.generating]);
+
+  return {
+    ...state,
+    reload,
+    refresh,
+    loadIllustrations,
+    clearIllustrations,
+    resumeProcessing,
+    generate,
+  };
+}
+
+// =============================================================================
+// Commissions
+// =============================================================================
+
+/**
+ * The user's commission rates for the products the illustrations are matched
+ * to, by product and premium term. Loaded once every illustration is matched,
+ * and again when the matched products change.
+ */
+export function useProposalCommissions(illustrations: ExtractedIllustration[] | null, userRole: string | undefined) {
+  const [commissions, setCommissions] = useState<Record<string, ProductCommissions>>({});
+  const [loading, setLoading] = useState(false);
+  // A string, so status polls that return the same products don't reload the rates
+  const insuranceIdsKey = getMappedInsuranceIds(illustrations).join(',');
+  const roleId = getDisplayRoleId(userRole || '');
+
+  useEffect(() => {
+    if (!insuranceIdsKey) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const rates = await listBulkCommissions(insuranceIdsKey.split(','), roleId);
+        if (!cancelled) setCommissions(groupCommissionsByTerm(rates));
+      } catch (error) {
+        console.error('Error loading commission data:', error);
+        toast.error('Failed to load commission data');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [insuranceIdsKey, roleId]);
+
+  return { commissions, loading };
+}
+
+// =============================================================================
+// Exchange Rates
+// =============================================================================
+
+export interface CurrencyConversion {
+  success: boolean;
+  amount?: number;
+  rate?: number;
+  error?: string;
+  formatted: string;
+}
+
+export interface IllustrationConversions {
+  conversion: CurrencyConversion;
+  total_conversion: CurrencyConversion;
+  deathBenefitConversion: CurrencyConversion;
+}
+
+// Give the illustrations a moment to settle before the first conversion
+const INITIAL_CONVERSION_DELAY_MS = 1000;
+
+/**
+ * The proposal's exchange rates and each illustration's premiums and death
+ * benefit in the target currency. Amounts are converted at the proposal's
+ * captured rate when there is one, so the client's numbers don't move, else
+ * at today's market rate.
+ */
+export function useProposalFxConversions(proposal: Proposal | null, illustrations: ExtractedIllustration[] | null) {
+  const queryClient = useQueryClient();
+  const [conversions, setConversions] = useState<Record<string, IllustrationConversions>>({});
+  const [loadingConversions, setLoadingConversions] = useState(false);
+  const [hasConverted, setHasConverted] = useState(false);
+
+  // The proposal's rate snapshot, stable across status polls that return the same rates
+  const fxRatesKey = JSON.stringify(proposal?.fx_rates || []);
+  const proposalFxRates = useMemo(() => proposal?.fx_rates || [], [fxRatesKey]);
+  const targetCurrency = proposal?.target_currency || 'MYR';
+
+  // The first currency any illustration states, for the rate shown on page 1
+  const insuranceCurrency = useMemo(() => {
+    const withCurrency = (illustrations || []).find((item) => item.comprehensive_data?.currency || item.currency);
+    return withCurrency ? String(withCurrency.comprehensive_data?.currency || withCurrency.currency).toUpperCase() : 'USD';
+  }, [illustrations]);
+  const insuranceFxRate = findProposalFxRate(proposalFxRates, insuranceCurrency, targetCurrency);
+  const { data: liveInsuranceFxRate } = useFxRate(insuranceCurrency, targetCurrency, !insuranceFxRate);
+
+  // Currencies of the uploaded illustrations, for the exchange rates card
+  const sourceCurrencies = useMemo(() => {
+    const currencies = (illustrations || [])
+      .map((item) => String(item.comprehensive_data?.currency || item.currency || '').toUpperCase())
+      .filter((currency) => !!currency);
+    return currencies.filter((currency, index) => currencies.indexOf(currency) === index);
+  }, [illustrations]);
+
+  // Rates for the comparison figures of the illustrations
+  const comparisonCurrencies = useMemo(() => {
+    const currencies = (illustrations || []).map(getIllustrationCurrency);
+    return currencies.filter((currency, index) => currencies.indexOf(currency) === index);
+  }, [illustrations]);
+  const comparisonRates = useFxRateMap(proposalFxRates, comparisonCurrencies, targetCurrency);
+
+  const convertToCurrency = useCallback(
+    async (amount: number, fromCurrency: string): Promise<CurrencyConversion> => {
+      try {
+        let rate = 1;
+        if (fromCurrency.toUpperCase() !== targetCurrency) {
+          const snapshot = findProposalFxRate(proposalFxRates, fromCurrency, targetCurrency);
+          rate = snapshot
+            ? snapshot.rate
+            : (
+                await queryClient.fetchQuery({
+                  queryKey: queryKeys.oracle.fxRate(fromCurrency.toUpperCase(), targetCurrency),
+                  queryFn: () => getFxRate(fromCurrency.toUpperCase(), targetCurrency),
+                  staleTime: FX_RATE_STALE_TIME_MS,
+                })
+              ).rate;
+        }
+        const convertedAmount = amount * rate;
+        return {
+          success: true,
+          amount: convertedAmount,
+          rate,
+          formatted: `${targetCurrency} ${convertedAmount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`,
+        };
+      } catch (error: any) {
+        console.error('Currency conversion error:', error);
+        return { success: false, error: error.detail || error.message, formatted: `${targetCurrency} 0` };
+      }
+    },
+    [targetCurrency, proposalFxRates, queryClient]
+  );
+
+  // Convert every illustration's annual premium, total premium and death benefit
+  const refreshConversions = useCallback(async () => {
+    if (!illustrations || illustrations.length === 0) {
+      toast.error('No data available for currency conversion');
+      return;
+    }
+
+    toast.loading(`Refreshing all exchange rates and converting to ${targetCurrency}...`, { id: 'refresh-currencies' });
+    setLoadingConversions(true);
+    try {
+      const none: CurrencyConversion = { success: false, formatted: `${targetCurrency} 0` };
+      const convert = (amount: any, currency: string) => (amount && currency ? convertToCurrency(amount, currency) : none);
+      const next: Record<string, IllustrationConversions> = {};
+
+      for (const item of illustrations) {
+        const currency = item.comprehensive_data?.currency || item.currency || 'USD';
+        next[item.id] = {
+          conversion: await convert(item.comprehensive_data?.premium_per_year_original || item.premium_per_year, currency),
+          total_conversion: await convert(item.comprehensive_data?.total_premium, currency),
+          deathBenefitConversion: await convert(item.comprehensive_data?.death_benefit || item.death_benefit, currency),
+        };
+      }
+
+      setConversions(next);
+      toast.success(
+        `Exchange rates updated successfully to ${targetCurrency} for ${illustrations.length} insurance products`,
+        { id: 'refresh-currencies' }
+      );
+    } catch (error) {
+      console.error('Error during currency conversion:', error);
+      toast.error('Failed to refresh exchange rates. Please try again.', { id: 'refresh-currencies' });
+    } finally {
+      setLoadingConversions(false);
+    }
+  }, [illustrations, convertToCurrency, targetCurrency]);
+
+  // Convert once when the first illustrations finish extracting; after that on request
+  useEffect(() => {
+    if (hasConverted || !illustrations?.some((item) => item.extraction_status === 'completed')) return;
+    setHasConverted(true);
+    setTimeout(refreshConversions, INITIAL_CONVERSION_DELAY_MS);
+  }, [illustrations, hasConverted, refreshConversions]);
+
+  // Convert again after the proposal is reloaded
+  const resetConversions = useCallback(() => setHasConverted(false), []);
+
+  return {
+    targetCurrency,
+    proposalFxRates,
+    insuranceCurrency,
+    insuranceFxRate,
+    liveInsuranceFxRate,
+    sourceCurrencies,
+    comparisonRates,
+    convertToCurrency,
+    conversions,
+    loadingConversions,
+    refreshConversions,
+    resetConversions,
+  };
+}
+
+// =============================================================================
+// Section Content
+// =============================================================================
+
+export interface ProposalSectionContentOptions {
+  proposal: Proposal | null;
+  illustrations: ExtractedIllustration[] | null;
+  readOnly: boolean;
+  highlightedInsuranceId: string;
+  // Page 1 isn't generated automatically over a client needs summary the advisor wrote
+  hasClientNeedsSummary: boolean;
+  recordRevision: (trigger: ProposalRevisionTrigger, generatedContent?: ProposalGeneratedContent) => void;
+  // Called with new page 1 content, to copy its title and summaries into the editor
+  onPage1Content?: (content: Record<string, any>) => void;
+}
+
+// Page 2 waits for page 1 so the two generations don't race
+const PAGE2_GENERATION_DELAY_MS = 2000;
+
+/**
+ * The AI-written pages: page 1 (title and needs summary), page 2 (key features
+ * of each product) and page 4 (the recommendation). Pages 1 and 2 are
+ * generated once every illustration is matched to a product; regenerating any
+ * of them makes a draft the advisor accepts.
+ */
+export function useProposalSectionContent(proposalId: string, options: ProposalSectionContentOptions) {
+  const [page1Content, setPage1Content] = useState<any>(null);
+  const [page2Content, setPage2Content] = useState<any>({});
+  const [page4Content, setPage4Content] = useState<any>(null);
+  const [generatingPage1, setGeneratingPage1] = useState(false);
+  // Also set while page 2's automatic generation waits to start
+  const [generatingPage2, setGeneratingPage2] = useState(false);
+  const [generatingPage4, setGeneratingPage4] = useState(false);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const generatePage1Content = useCallback(async (forceRegenerate = false) => {
+    const { proposal, illustrations, recordRevision, onPage1Content } = optionsRef.current;
+    if (!proposal || !illustrations) return;
+
+    setGeneratingPage1(true);
+    try {
+      const content = await generateSectionContent(proposalId, 'page1', {}, forceRegenerate);
+      setPage1Content(content);
+      recordRevision('page1_generated', { page1: content });
+      onPage1Content?.(content);
+      toast.success(forceRegenerate ? 'Page 1 content regenerated successfully' : 'Page 1 content generated successfully');
+    } catch (error: any) {
+      console.error('Error generating Page 1 content:', error);
+      toast.error(error.detail || 'Failed to generate Page 1 content');
+    } finally {
+      setGeneratingPage1(false);
+    }
+  }, [proposalId]);
+
+  const generatePage2Content = useCallback(async () => {
+    const { proposal, illustrations, recordRevision } = optionsRef.current;
+    if (!proposal || !illustrations) {
+      setGeneratingPage2(false);
+      return;
+    }
+
+    setGeneratingPage2(true);
+    try {
+      const content = toPage2Content(await generateSectionContent(proposalId, 'page2'));
+      setPage2Content(content);
+      recordRevision('page2_generated', { page2: content });
+      toast.success('Page 2 content generated successfully');
+    } catch (error: any) {
+      console.error('Error generating Page 2 content:', error);
+      toast.error(error.detail || 'Failed to generate Page 2 content');
+    } finally {
+      setGeneratingPage2(false);
+    }
+  }, [proposalId]);
+
+  const generatePage4Content = useCallback(async (forceRegenerate = false) => {
+    const { proposal, illustrations, highlightedInsuranceId, recordRevision } = optionsRef.current;
+    if (!highlightedInsuranceId || !illustrations || !proposal) return;
+
+    setGeneratingPage4(true);
+    try {
+      const content = await generateSectionContent(
+        proposalId,
+        'page4',
+        { highlighted_insurance_id: highlightedInsuranceId },
+        forceRegenerate
+      );
+      const uiContent = toPage4Content(content);
+      setPage4Content(uiContent);
+      if (!content.cached) {
+        recordRevision('page4_generated', { page4: uiContent });
+      }
+
+      toast.success(
+        content.regenerated
+          ? 'Page 4 recommendation regenerated successfully'
+          : content.cached
+            ? 'Page 4 recommendation loaded from cache'
+            : 'Page 4 recommendation generated successfully'
+      );
+    } catch (error: any) {
+      console.error('Error generating Page 4 content:', error);
+      if (error.status_code === 400) {
+        toast.error(error.detail || 'Please select an insurance product first');
+      } else {
+        toast.error('Failed to generate recommendation content');
+      }
+    } finally {
+      setGeneratingPage4(false);
+    }
+  }, [proposalId]);
+
+  const acceptPage1Draft = useCallback(async ({ draft_id: draftId, ...content }: ProposalContentDraft) => {
+    await acceptSectionDraft(proposalId, 'page1', draftId);
+    setPage1Content(content);
+    optionsRef.current.onPage1Content?.(content);
+    optionsRef.current.recordRevision('page1_generated', { page1: content });
+  }, [proposalId]);
+
+  const acceptPage2Draft = useCallback(async ({ draft_id: draftId, ...content }: ProposalContentDraft) => {
+    await acceptSectionDraft(proposalId, 'page2', draftId);
+    const page2 = toPage2Content(content);
+    setPage2Content(page2);
+    optionsRef.current.recordRevision('page2_generated', { page2 });
+  }, [proposalId]);
+
+  const acceptPage4Draft = useCallback(async ({ draft_id: draftId, ...content }: ProposalContentDraft) => {
+    await acceptSectionDraft(proposalId, 'page4', draftId);
+    const page4 = toPage4Content(content);
+    setPage4Content(page4);
+    optionsRef.current.recordRevision('page4_generated', { page4 });
+  }, [proposalId]);
+
+  // Generate pages 1 and 2 once every illustration is matched, unless they already have content
+  const { readOnly } = options;
+  const hasProposal = !!options.proposal;
+  const allMapped = getMappedInsuranceIds(options.illustrations).length > 0;
+  const needsPage1 = !page1Content && !options.hasClientNeedsSummary;
+  const needsPage2 = Object.keys(page2Content).length === 0;
+  useEffect(() => {
+    if (!hasProposal || readOnly || !allMapped) return;
+
+    if (needsPage1 && !generatingPage1) {
+      generatePage1Content();
+    }
+    if (needsPage2 && !generatingPage2) {
+      setGeneratingPage2(true);
+      setTimeout(generatePage2Content, PAGE2_GENERATION_DELAY_MS);
+    }
+  }, [
+    hasProposal,
+    readOnly,
+    allMapped,
+    generatingPage1,
+    generatingPage2,
+    needsPage1,
+    needsPage2,
+    generatePage1Content,
+    generatePage2Content,
+  ]);
+
+  // Content from a restored revision replaces whatever is shown
+  const restoreContent = useCallback((content: ProposalGeneratedContent) => {
+    setPage1Content(content.page1 || null);
+    setPage2Content(content.page2 || {});
+    setPage4Content(content.page4 || null);
+  }, []);
+
+  return {
+    page1Content,
+    page2Content,
+    setPage2Content,
+    page4Content,
+    setPage4Content,
+    generatingPage1,
+    generatingPage2,
+    generatingPage4,
+    generatePage4Content,
+    acceptPage1Draft,
+    acceptPage2Draft,
+    acceptPage4Draft,
+    restoreContent,
+  };
+}
+
+// =============================================================================
+// Illustration Editing
+// =============================================================================
+
+export interface IllustrationEditingOptions {
+  illustrations: ExtractedIllustration[] | null;
+  // From the client's date of birth; overrides the age on every illustration
+  clientAge: number | null;
+  clientGender?: string;
+  convertToCurrency: (amount: number, fromCurrency: string) => Promise<CurrencyConversion>;
+  recordRevision: (trigger: ProposalRevisionTrigger) => void;
+  // Reload the illustrations after a save
+  onSaved: () => Promise<unknown>;
+}
+
+// Amounts saved with their converted value, so the PDF shows the same conversion
+const CONVERTED_FIELDS: Record<string, string> = {
+  premium_per_year: 'premium_per_year_myr',
+  total_premium: 'total_premium_myr',
+  death_benefit: 'death_benefit_myr',
+};
+
+/**
+ * Editing an illustration's card and its cash value ages. Saving copies the
+ * client details and the cash value ages to the other illustrations, so every
+ * illustration in the proposal describes the same client at the same ages.
+ */
+export function useIllustrationEditing(proposalId: string, options: IllustrationEditingOptions) {
+  const [editMode, setEditMode] = useState<{ [key: string]: boolean }>({});
+  const [editData, setEditData] = useState<{ [key: string]: any }>({});
+  const [savingChanges, setSavingChanges] = useState<{ [key: string]: boolean }>({});
+  const [cashEditMode, setCashEditMode] = useState<{ [key: string]: boolean }>({});
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const enterEditMode = useCallback((illustrationId: string, currentData: any) => {
+    const { illustrations, clientAge, clientGender } = optionsRef.current;
+    const field = (name: string, fallback: any = null) => getIllustrationFieldValue(currentData, name, fallback);
+
+    setEditMode((prev) => ({ ...prev, [illustrationId]: true }));
+    setEditData((prev) => ({
+      ...prev,
+      [illustrationId]: {
+        insurance_name: field('insurance_name', currentData.final_insurance_name || ''),
+        insurance_provider: field('insurance_provider', ''),
+        currency: field('currency', 'USD'),
+        premium_per_year: field('premium_per_year', ''),
+        death_benefit: field('death_benefit', ''),
+        payment_period: field('payment_period', ''),
+        coverage_term: field('coverage_term', ''),
+        total_premium: field('total_premium', ''),
+        has_cash_value: field('has_cash_value', false),
+        breakeven_years: field('breakeven_years', ''),
+        cash_surrender_values: field('cash_surrender_values'),
+        ...getSharedClientDetails(currentData, illustrations, clientAge, clientGender),
+      },
+    }));
+  }, []);
+
+  const exitEditMode = useCallback((illustrationId: string) => {
+    setEditMode((prev) => ({ ...prev, [illustrationId]: false }));
+    setEditData((prev) => {
+      const next = { ...prev };
+      delete next[illustrationId];
+      return next;
+    });
+  }, []);
+
+  const updateEditField = useCallback((illustrationId: string, field: string, value: any) => {
+    setEditData((prev) => ({
+      ...prev,
+      [illustrationId]: {
+        ...prev[illustrationId],
+        [field]: value,
+      },
+    }));
+  }, []);
+
+  // Update the other illustrations; a failure on one doesn't stop the rest
+  const updateOtherIllustrations = useCallback(
+    async (illustrationId: string, getUpdate: (illustration: ExtractedIllustration) => Record<string, unknown>) => {
+      const others = (optionsRef.current.illustrations || []).filter((item) => item.id !== illustrationId);
+      await Promise.all(
+        others.map(async (other) => {
+          try {
+            await updateIllustration(proposalId, other.id, getUpdate(other));
+          } catch (error) {
+            console.error(`Failed to sync illustration ${other.id}:`, error);
+          }
+        })
+      );
+      return others.length;
+    },
+    [proposalId]
+  );
+
+  const saveChanges = useCallback(async (illustrationId: string) => {
+    const changes = editData[illustrationId];
+    if (!changes) return;
+    const { convertToCurrency, recordRevision, onSaved } = optionsRef.current;
+
+    setSavingChanges((prev) => ({ ...prev, [illustrationId]: true }));
+    try {
+      const updateData: Record<string, any> = { ...changes };
+
+      // Save the converted amounts along with edited ones
+      const currency = updateData.currency;
+      const amountFields = Object.keys(CONVERTED_FIELDS).filter((field) => updateData[field]);
+      if (currency && amountFields.length > 0) {
+        for (const field of amountFields) {
+          const converted = await convertToCurrency(parseFloat(updateData[field]), currency);
+          if (converted.success) {
+            updateData[CONVERTED_FIELDS[field]] = converted.amount;
+            updateData[`${CONVERTED_FIELDS[field]}_formatted`] = converted.formatted;
+          }
+        }
+        updateData.conversion_timestamp = new Date().toISOString();
+        updateData.conversion_currency = currency;
+      }
+
+      // Cash values are saved by the age sync below, so the ages the age analysis picked aren't overwritten
+      const { cash_surrender_values: cashValues, ...cardChanges } = updateData;
+      // Sent flat; the backend stores it as the illustration's user_edited_data
+      await updateIllustration(proposalId, illustrationId, cardChanges);
+
+      const clientDetails = pickClientDetails(updateData);
+      if (clientDetails) {
+        const synced = await updateOtherIllustrations(illustrationId, () => clientDetails);
+        await wait(CLIENT_SYNC_SETTLE_MS);
+        if (synced > 0) {
+          toast.success(`🔗 Client details synced across ${synced + 1} insurance cards!`);
+        }
+      }
+
+      if (Object.prototype.hasOwnProperty.call(updateData, 'cash_surrender_values')) {
+        const ages = getCashValueAges(cashValues);
+        if (ages.length > 0) {
+          const synced = await updateOtherIllustrations(illustrationId, (other) => ({
+            user_edited_data: { cash_surrender_values: withCashValueAges(other, ages) },
+          }));
+          if (synced > 0) {
+            toast.success(`📊 Cash surrender value ages synced across ${synced + 1} insurance cards!`);
+          }
+        }
+      }
+
+      exitEditMode(illustrationId);
+      toast.success('Changes saved successfully!');
+      recordRevision('illustration_edited');
+      await onSaved();
+    } catch (error: any) {
+      console.error('Error saving changes:', error);
+
+      // The illustration may have been deleted in another tab
+      if (error.status_code === 404) {
+        toast.warning('Illustration was not found - it may have been deleted. Please refresh the page.');
+        return;
+      }
+
+      toast.error(error.detail || 'Failed to save changes');
+    } finally {
+      setSavingChanges((prev) => ({ ...prev, [illustrationId]: false }));
+    }
+  }, [editData, proposalId, exitEditMode, updateOtherIllustrations]);
+
+  /**
+   * Give a newly matched illustration, and the rest, the client's age from
+   * their date of birth
+   */
+  const syncClientAge = useCallback(async (illustrationId: string) => {
+    const { clientAge } = optionsRef.current;
+    if (clientAge === null) return;
+
+    const ageUpdate = { user_edited_data: { client_age: String(clientAge) } };
+    await updateIllustration(proposalId, illustrationId, ageUpdate);
+    // Read the illustrations again: the newly matched one may not be loaded yet
+    const current = await listIllustrations(proposalId);
+    await Promise.all(
+      current
+        .filter((item) => item.id !== illustrationId)
+        .map(async (item) => {
+          try {
+            await updateIllustration(proposalId, item.id, ageUpdate);
+          } catch (error) {
+            console.error(`Failed to sync age to illustration ${item.id}:`, error);
+          }
+        })
+    );
+  }, [proposalId]);
+
+  // ===========================================================================
+  // Cash value ages
+  // ===========================================================================
+
+  const toggleCashEditMode = useCallback((illustrationId: string) => {
+    setCashEditMode((prev) => ({ ...prev, [illustrationId]: !prev[illustrationId] }));
+  }, []);
+
+  const updateCashValues = useCallback(
+    (illustrationId: string, update: (rows: CashValueRow[]) => CashValueRow[] | null) => {
+      setEditData((prev) => {
+        const current = prev[illustrationId] || {};
+        const rows = update(current.cash_surrender_values || []);
+        if (!rows) return prev;
+        return { ...prev, [illustrationId]: { ...current, cash_surrender_values: rows } };
+      });
+    },
+    []
+  );
+
+  // Move a row to another age, keeping its value
+  const setCashValueAge = useCallback((illustrationId: string, age: number, newAge: number, value: any) => {
+    updateCashValues(illustrationId, (rows) => {
+      const current = rows.find((row) => row.age === age);
+      const preserved = (current && current.value) || value;
+      return rows
+        .map((row) => (row.age === age ? { ...row, age: newAge, value: preserved } : row))
+        .sort((a, b) => a.age - b.age);
+    });
+  }, [updateCashValues]);
+
+  // An empty value is stored as '-'
+  const setCashValue = useCallback((illustrationId: string, age: number, value: string) => {
+    updateCashValues(illustrationId, (rows) => {
+      const next = rows.map((row) => ({ ...row }));
+      const row = { age, value: value === '' ? '-' : value };
+      const index = next.findIndex((item) => item.age === age);
+      if (index >= 0) {
+        next[index] = row;
+        return next;
+      }
+      return next.concat([row]).sort((a, b) => a.age - b.age);
+    });
+  }, [updateCashValues]);
+
+  const removeCashValueAge = useCallback((illustrationId: string, age: number) => {
+    updateCashValues(illustrationId, (rows) => rows.filter((row) => row.age !== age));
+  }, [updateCashValues]);
+
+  const addCashValueAge = useCallback((illustrationId: string) => {
+    updateCashValues(illustrationId, (rows) => {
+      const age = getNextCashValueAge(rows.map((row) => row.age));
+      return age === null ? null : rows.concat([{ age, value: '-' }]).sort((a, b) => a.age - b.age);
+    });
+  }, [updateCashValues]);
+
+  return {
+    editMode,
+    editData,
+    savingChanges,
+    enterEditMode,
+    cancelEdit: exitEditMode,
+    updateEditField,
+    saveChanges,
+    syncClientAge,
+    cashEditMode,
+    toggleCashEditMode,
+    setCashValueAge,
+    setCashValue,
+    removeCashValueAge,
+    addCashValueAge,
+  };
+}
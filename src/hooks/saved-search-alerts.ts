@@ -0,0 +1,49 @@
+/**
+ * Saved search alerts hook
+ *
+ * Checks every few minutes for newly ingested products that match one of the
+ * user's saved searches, adds a notification for each, then acknowledges them
+ * so they aren't shown again. The sidebar runs it, so it is active on every
+ * signed-in page.
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/contexts/NotificationContext';
+import { acknowledgeSavedSearchAlerts, listSavedSearchAlerts } from '@/lib/api/oracle/saved-searches';
+import { queryKeys } from '@/lib/query-keys';
+import type { SavedSearchAlert } from '@/types/oracle/saved-search';
+
+export const SAVED_SEARCH_ALERT_INTERVAL_MS = 5 * 60 * 1000;
+
+export function useSavedSearchAlerts() {
+  const { isAuthenticated } = useAuth();
+  const { notifySavedSearchMatch } = useNotifications();
+  const queryClient = useQueryClient();
+
+  const { data: alerts } = useQuery({
+    queryKey: queryKeys.oracle.savedSearchAlerts(),
+    queryFn: listSavedSearchAlerts,
+    enabled: isAuthenticated,
+    refetchInterval: SAVED_SEARCH_ALERT_INTERVAL_MS,
+  });
+
+  useEffect(() => {
+    if (!alerts || alerts.length === 0) return;
+
+    // Taken out of the cache straight away, so a remounted sidebar doesn't show them twice
+    queryClient.setQueryData<SavedSearchAlert[]>(queryKeys.oracle.savedSearchAlerts(), []);
+    alerts.forEach((alert) => notifySavedSearchMatch(alert));
+
+    acknowledgeSavedSearchAlerts(alerts.map((alert) => alert.alert_id))
+      .then(() => {
+        // New match counts changed
+        queryClient.invalidateQueries({ queryKey: queryKeys.oracle.savedSearches() });
+      })
+      .catch((error) => {
+        // They come back on the next check
+        console.error('Error acknowledging saved search alerts:', error);
+      });
+  }, [alerts, notifySavedSearchMatch, queryClient]);
+}
@@ -1,7 +1,8 @@
-import axios, { AxiosError, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { clearUploadQueues } from '@/lib/illustration-upload-queue';
 import { AuthTokens, ApiError } from '@/types/auth';
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 
 // Create axios instance
 export const apiClient = axios.create({
@@ -36,8 +37,9 @@ export const getAuthTokens = (): AuthTokens | null => {
       try {
         const tokens = JSON.parse(stored) as AuthTokens;
         
-        // Check if token is expired (3-day sessions as per requirements)
-        if (isTokenExpired(tokens.access_token)) {
+        // Check if token is expired (3-day sessions as per requirements).
+        // Expired tokens are kept when a refresh token can renew them.
+        if (isTokenExpired(tokens.access_token) && !tokens.refresh_token) {
           // console.log('Stored token is expired, clearing tokens');
           localStorage.removeItem('auth_tokens');
           return null;
@@ -72,6 +74,80 @@ export const clearAuthTokens = () => {
   setAuthTokens(null);
 };
 
+/**
+ * Get the access token's expiry time (ms since epoch), or null when signed out
+ */
+export const getAccessTokenExpiry = (): number | null => {
+  const tokens = getAuthTokens();
+  if (!tokens) return null;
+
+  try {
+    const payload = JSON.parse(atob(tokens.access_token.split('.')[1]));
+    return payload.exp * 1000;
+  } catch (error) {
+    console.error('Error reading token expiry:', error);
+    return null;
+  }
+};
+
+// Shared by every caller so concurrent 401s trigger a single refresh request
+let refreshPromise: Promise<AuthTokens> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token
+ */
+export const refreshAccessToken = (): Promise<AuthTokens> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = getAuthTokens()?.refresh_token;
+      if (!refreshToken) {
+        throw new Error('No refresh token available');
+      }
+
+      // Plain axios so a failed refresh does not loop back through the interceptors
+      const response = await axios.post<AuthTokens>(`${API_BASE_URL}/api/v1/auth/refresh`, {
+        refresh_token: refreshToken,
+      });
+      const tokens: AuthTokens = {
+        ...response.data,
+        refresh_token: response.data.refresh_token || refreshToken,
+      };
+      setAuthTokens(tokens);
+      return tokens;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+/**
+ * Remove what the session left in the browser besides its tokens: queued
+ * illustration uploads hold client documents
+ */
+export const clearSessionData = () => {
+  clearUploadQueues().catch((error) => console.error('Failed to clear queued uploads:', error));
+};
+
+// Lets AuthContext handle an expired session in place instead of redirecting
+let sessionExpiredHandler: (() => boolean) | null = null;
+
+export const setSessionExpiredHandler = (handler: (() => boolean) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Also used by requests made outside axios (see src/lib/event-stream.ts)
+export const handleSessionExpired = () => {
+  clearAuthTokens();
+  clearSessionData();
+  if (sessionExpiredHandler?.()) return;
+
+  if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
+    const returnTo = window.location.pathname + window.location.search;
+    window.location.href = `/login?returnTo=${encodeURIComponent(returnTo)}`;
+  }
+};
+
 // Initialize tokens on startup
 if (typeof window !== 'undefined') {
   getAuthTokens();
@@ -113,7 +189,20 @@ apiClient.interceptors.response.use(
     // console.debug('API response data:', response.data);
     return response;
   },
-  (error: AxiosError) => {
+  async (error: AxiosError) => {
+    // Retry once with a fresh access token before treating the 401 as a logout
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry && getAuthTokens()?.refresh_token) {
+      originalRequest._retry = true;
+      try {
+        const tokens = await refreshAccessToken();
+        originalRequest.headers.Authorization = `Bearer ${tokens.access_token}`;
+        return apiClient(originalRequest);
+      } catch (refreshError) {
+        console.error('Token refresh failed:', refreshError);
+      }
+    }
+
     console.error('❌ API response error:', error);
     console.error('❌ Error config:', error.config);
     console.error('❌ Error response:', error.response);
@@ -135,12 +224,9 @@ apiClient.interceptors.response.use(
       }
     }
 
-    // Handle 401 unauthorized - clear tokens and redirect to login
+    // Handle 401 unauthorized - clear tokens and let the user sign in again
     if (error.response?.status === 401) {
-      clearAuthTokens();
-      if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
-        window.location.href = '/login';
-      }
+      handleSessionExpired();
     }
 
     console.error('❌ Transformed API error:', apiError);
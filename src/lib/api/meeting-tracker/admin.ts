@@ -0,0 +1,193 @@
+/**
+ * API service for Meeting Tracker administration
+ * (companies, CSV onboarding and team members)
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  adminCompanyListSchema,
+  adminCompanySchema,
+  adminTeamMemberListResponseSchema,
+  adminTeamMemberSchema,
+  companyLogoResponseSchema,
+  csvImportResultSchema,
+  csvValidationResultSchema,
+  hierarchyUploadResponseSchema,
+} from '@/schemas/meeting-tracker';
+import type {
+  AdminCompany,
+  AdminCompanyCreateData,
+  AdminCompanyUpdateData,
+  AdminTeamMember,
+  AdminTeamMemberCreateData,
+  AdminTeamMemberLinkData,
+  AdminTeamMemberListParams,
+  AdminTeamMemberListResponse,
+  AdminTeamMemberUpdateData,
+  CsvImportResult,
+  CsvValidationResult,
+  HierarchyUploadResponse,
+} from '@/types/meeting-tracker';
+
+const BASE_URL = '/api/v1/admin/meeting-tracker';
+
+// ============================================================================
+// Companies
+// ============================================================================
+
+/**
+ * List companies in a given lifecycle status
+ */
+export async function listCompanies(
+  status: 'drafts' | 'active' | 'inactive',
+  limit?: number
+): Promise<AdminCompany[]> {
+  const response = await apiClient.get<AdminCompany[]>(`${BASE_URL}/companies/${status}`, {
+    params: { limit },
+  });
+  return validateResponse(adminCompanyListSchema, response);
+}
+
+/**
+ * Get a single company
+ */
+export async function getCompany(companyId: string): Promise<AdminCompany> {
+  const response = await apiClient.get<AdminCompany>(`${BASE_URL}/companies/${companyId}`);
+  return validateResponse(adminCompanySchema, response);
+}
+
+/**
+ * Create a draft company
+ */
+export async function createCompany(data: AdminCompanyCreateData): Promise<AdminCompany> {
+  const response = await apiClient.post<AdminCompany>(`${BASE_URL}/companies`, data);
+  return validateResponse(adminCompanySchema, response);
+}
+
+/**
+ * Update a company's details
+ */
+export async function updateCompany(companyId: string, data: AdminCompanyUpdateData): Promise<AdminCompany> {
+  const response = await apiClient.put<AdminCompany>(`${BASE_URL}/companies/${companyId}`, data);
+  return validateResponse(adminCompanySchema, response);
+}
+
+/**
+ * Delete a draft company
+ */
+export async function deleteCompany(companyId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/companies/${companyId}`);
+}
+
+/**
+ * Activate an inactive company
+ */
+export async function activateCompany(companyId: string): Promise<void> {
+  await apiClient.post(`${BASE_URL}/companies/${companyId}/activate`);
+}
+
+/**
+ * Deactivate an active company (its users can no longer log in)
+ */
+export async function deactivateCompany(companyId: string): Promise<void> {
+  await apiClient.post(`${BASE_URL}/companies/${companyId}/deactivate`);
+}
+
+/**
+ * Upload a company logo image
+ */
+export async function uploadCompanyLogo(companyId: string, file: File): Promise<{ logo_url: string }> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await apiClient.post<{ logo_url: string }>(`${BASE_URL}/companies/${companyId}/logo`, formData);
+  return validateResponse(companyLogoResponseSchema, response);
+}
+
+/**
+ * Download the hierarchy CSV template for a company
+ */
+export async function downloadCsvTemplate(companyId: string): Promise<Blob> {
+  const response = await apiClient.get<Blob>(`${BASE_URL}/companies/${companyId}/csv-template`, {
+    responseType: 'blob',
+  });
+  return response.data;
+}
+
+/**
+ * Validate a hierarchy CSV without importing it
+ */
+export async function validateCompanyCsv(companyId: string, file: File): Promise<CsvValidationResult> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await apiClient.post<CsvValidationResult>(`${BASE_URL}/companies/${companyId}/validate-csv`, formData);
+  return validateResponse(csvValidationResultSchema, response);
+}
+
+/**
+ * Import a hierarchy CSV (activates draft companies on success)
+ */
+export async function importCompanyCsv(companyId: string, file: File): Promise<CsvImportResult> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await apiClient.post<CsvImportResult>(`${BASE_URL}/companies/${companyId}/import-csv`, formData);
+  return validateResponse(csvImportResultSchema, response);
+}
+
+// ============================================================================
+// Team Members
+// ============================================================================
+
+/**
+ * List team members (paginated)
+ */
+export async function listTeamMembers(params: AdminTeamMemberListParams = {}): Promise<AdminTeamMemberListResponse> {
+  const response = await apiClient.get<AdminTeamMemberListResponse>(`${BASE_URL}/hierarchy/members`, { params });
+  return validateResponse(adminTeamMemberListResponseSchema, response);
+}
+
+/**
+ * Update a team member
+ */
+export async function updateTeamMember(memberId: string, data: AdminTeamMemberUpdateData): Promise<AdminTeamMember> {
+  const response = await apiClient.put<AdminTeamMember>(`${BASE_URL}/hierarchy/members/${memberId}`, data);
+  return validateResponse(adminTeamMemberSchema, response);
+}
+
+/**
+ * Create a user and add them to a company hierarchy.
+ * Rejects with status_code 409 (detail = the existing user) when the email is taken.
+ */
+export async function createTeamMemberWithUser(data: AdminTeamMemberCreateData): Promise<AdminTeamMember> {
+  const response = await apiClient.post<AdminTeamMember>(`${BASE_URL}/hierarchy/members/with-user`, data);
+  return validateResponse(adminTeamMemberSchema, response);
+}
+
+/**
+ * Add an existing user to a company hierarchy
+ */
+export async function linkExistingTeamMember(data: AdminTeamMemberLinkData): Promise<AdminTeamMember> {
+  const response = await apiClient.post<AdminTeamMember>(`${BASE_URL}/hierarchy/members/link-existing`, data);
+  return validateResponse(adminTeamMemberSchema, response);
+}
+
+/**
+ * Bulk-import team members from a CSV
+ */
+export async function uploadHierarchyCsv(file: File): Promise<HierarchyUploadResponse> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await apiClient.post<HierarchyUploadResponse>(`${BASE_URL}/hierarchy/upload`, formData);
+  return validateResponse(hierarchyUploadResponseSchema, response);
+}
+
+/**
+ * Export team members as CSV, optionally for a single company
+ */
+export async function exportHierarchyCsv(companyId?: string): Promise<Blob> {
+  const response = await apiClient.get<Blob>(`${BASE_URL}/hierarchy/export`, {
+    params: { company_id: companyId || undefined },
+    responseType: 'blob',
+  });
+  return response.data;
+}
@@ -0,0 +1,98 @@
+/**
+ * API service for gamification (XP, levels, badges, leaderboard)
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  badgeProgressResponseSchema,
+  badgesResponseSchema,
+  gamificationStatsResponseSchema,
+  leaderboardResponseSchema,
+  retroactiveBadgesResponseSchema,
+  teamStatsResponseSchema,
+  transactionsResponseSchema,
+} from '@/schemas/meeting-tracker';
+import type {
+  Badge,
+  BadgeWithProgress,
+  GamificationResponse,
+  GamificationStats,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  TeamMemberStats,
+  XPTransaction,
+} from '@/types/meeting-tracker';
+
+const BASE_URL = '/api/v1/gamification';
+
+/**
+ * Get the current user's XP, level and tier
+ */
+export async function getGamificationStats(): Promise<GamificationResponse<GamificationStats>> {
+  const response = await apiClient.get<GamificationResponse<GamificationStats>>(`${BASE_URL}/stats`);
+  return validateResponse(gamificationStatsResponseSchema, response);
+}
+
+/**
+ * Get the current user's most recently unlocked badges
+ */
+export async function getBadges(limit?: number): Promise<GamificationResponse<Badge[]>> {
+  const response = await apiClient.get<GamificationResponse<Badge[]>>(`${BASE_URL}/badges`, {
+    params: { limit },
+  });
+  return validateResponse(badgesResponseSchema, response);
+}
+
+/**
+ * Get every badge with the current user's progress towards it
+ */
+export async function getBadgeProgress(): Promise<GamificationResponse<BadgeWithProgress[]>> {
+  const response = await apiClient.get<GamificationResponse<BadgeWithProgress[]>>(`${BASE_URL}/badges/progress`);
+  return validateResponse(badgeProgressResponseSchema, response);
+}
+
+/**
+ * Award any badges the user already qualifies for but never received
+ */
+export async function claimRetroactiveBadges(): Promise<GamificationResponse<{ badges_awarded: Badge[]; count: number }>> {
+  const response = await apiClient.post<GamificationResponse<{ badges_awarded: Badge[]; count: number }>>(
+    `${BASE_URL}/_retroactive_badges`
+  );
+  return validateResponse(retroactiveBadgesResponseSchema, response);
+}
+
+/**
+ * Get the current user's recent XP transactions
+ */
+export async function getTransactions(limit = 10): Promise<GamificationResponse<{ transactions: XPTransaction[] }>> {
+  const response = await apiClient.get<GamificationResponse<{ transactions: XPTransaction[] }>>(
+    `${BASE_URL}/transactions`,
+    { params: { limit } }
+  );
+  return validateResponse(transactionsResponseSchema, response);
+}
+
+/**
+ * Get the company leaderboard for a time period
+ */
+export async function getLeaderboard(
+  period: LeaderboardPeriod,
+  limit = 100
+): Promise<GamificationResponse<{ entries: LeaderboardEntry[] }>> {
+  const response = await apiClient.get<GamificationResponse<{ entries: LeaderboardEntry[] }>>(
+    `${BASE_URL}/leaderboard`,
+    { params: { period, limit } }
+  );
+  return validateResponse(leaderboardResponseSchema, response);
+}
+
+/**
+ * Get gamification stats for every member of the current user's team
+ */
+export async function getTeamStats(): Promise<GamificationResponse<{ team_members: TeamMemberStats[] }>> {
+  const response = await apiClient.get<GamificationResponse<{ team_members: TeamMemberStats[] }>>(
+    `${BASE_URL}/team-stats`
+  );
+  return validateResponse(teamStatsResponseSchema, response);
+}
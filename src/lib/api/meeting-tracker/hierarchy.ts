@@ -0,0 +1,38 @@
+/**
+ * API service for the Meeting Tracker team hierarchy
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  hierarchyMeSchema,
+  hierarchyTreeResponseSchema,
+  subordinatesResponseSchema,
+} from '@/schemas/meeting-tracker';
+import type { HierarchyMe, HierarchyTreeResponse, SubordinatesResponse } from '@/types/meeting-tracker';
+
+const BASE_URL = '/api/v1/meeting-tracker/hierarchy';
+
+/**
+ * Get the current user's position in the hierarchy (leader status, member id)
+ */
+export async function getHierarchyMe(): Promise<HierarchyMe> {
+  const response = await apiClient.get<HierarchyMe>(`${BASE_URL}/me`);
+  return validateResponse(hierarchyMeSchema, response);
+}
+
+/**
+ * Get every direct and indirect subordinate of the current user
+ */
+export async function getSubordinates(): Promise<SubordinatesResponse> {
+  const response = await apiClient.get<SubordinatesResponse>(`${BASE_URL}/subordinates`);
+  return validateResponse(subordinatesResponseSchema, response);
+}
+
+/**
+ * Get the current user's team as a flat tree
+ */
+export async function getHierarchyTree(): Promise<HierarchyTreeResponse> {
+  const response = await apiClient.get<HierarchyTreeResponse>(`${BASE_URL}/tree`);
+  return validateResponse(hierarchyTreeResponseSchema, response);
+}
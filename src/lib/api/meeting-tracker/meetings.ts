@@ -0,0 +1,101 @@
+/**
+ * API service for Meeting Tracker meetings and meeting reports
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  meetingListResponseSchema,
+  meetingReportResponseSchema,
+  meetingResponseSchema,
+  upcomingEventsResponseSchema,
+  xpAwardedResponseSchema,
+} from '@/schemas/meeting-tracker';
+import type {
+  MeetingCreateData,
+  MeetingFollowUpData,
+  MeetingListParams,
+  MeetingListResponse,
+  MeetingReportResponse,
+  MeetingReportSubmitData,
+  MeetingReportSubmitResponse,
+  MeetingRescheduleData,
+  MeetingResponse,
+  UpcomingEventsResponse,
+} from '@/types/meeting-tracker';
+
+const BASE_URL = '/api/v1/meeting-tracker';
+
+/**
+ * List meetings, optionally scoped to a team filter, user or date range
+ */
+export async function listMeetings(params: MeetingListParams = {}): Promise<MeetingListResponse> {
+  const response = await apiClient.get<MeetingListResponse>(`${BASE_URL}/meetings`, { params });
+  return validateResponse(meetingListResponseSchema, response);
+}
+
+/**
+ * Get a single meeting
+ */
+export async function getMeeting(meetingId: string): Promise<MeetingResponse> {
+  const response = await apiClient.get<MeetingResponse>(`${BASE_URL}/meetings/${meetingId}`);
+  return validateResponse(meetingResponseSchema, response);
+}
+
+/**
+ * Create a meeting (optionally on behalf of a subordinate)
+ */
+export async function createMeeting(data: MeetingCreateData): Promise<MeetingResponse> {
+  const response = await apiClient.post<MeetingResponse>(`${BASE_URL}/meetings`, data);
+  return validateResponse(meetingResponseSchema, response);
+}
+
+/**
+ * Get meetings grouped by day for the upcoming-events calendar
+ *
+ * @param viewType my_data, my_team or a subordinate user_id
+ * @param days Number of days to include
+ */
+export async function getUpcomingEvents(viewType: string, days = 7): Promise<UpcomingEventsResponse> {
+  const response = await apiClient.get<UpcomingEventsResponse>(`${BASE_URL}/meetings/upcoming-events`, {
+    params: { days, view_type: viewType },
+  });
+  return validateResponse(upcomingEventsResponseSchema, response);
+}
+
+/**
+ * Move a meeting to a new date and time
+ */
+export async function rescheduleMeeting(meetingId: string, data: MeetingRescheduleData): Promise<void> {
+  await apiClient.post(`${BASE_URL}/meetings/${meetingId}/reschedule`, data);
+}
+
+/**
+ * Cancel a meeting (also removes it from Google Calendar)
+ */
+export async function cancelMeeting(meetingId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/meetings/${meetingId}/cancel`);
+}
+
+/**
+ * Schedule a follow-up meeting for an existing meeting
+ */
+export async function scheduleFollowUp(meetingId: string, data: MeetingFollowUpData): Promise<void> {
+  await apiClient.post(`${BASE_URL}/meetings/${meetingId}/schedule-followup`, data);
+}
+
+/**
+ * Get the report (and its tasks) filed for a meeting
+ */
+export async function getMeetingReport(meetingId: string): Promise<MeetingReportResponse> {
+  const response = await apiClient.get<MeetingReportResponse>(`${BASE_URL}/reports/${meetingId}`);
+  return validateResponse(meetingReportResponseSchema, response);
+}
+
+/**
+ * Save a meeting report as a draft or submit it
+ */
+export async function submitMeetingReport(data: MeetingReportSubmitData): Promise<MeetingReportSubmitResponse> {
+  const response = await apiClient.post<MeetingReportSubmitResponse>(`${BASE_URL}/reports`, data);
+  return validateResponse(xpAwardedResponseSchema, response);
+}
@@ -0,0 +1,99 @@
+/**
+ * API service for Meeting Tracker settings and integrations
+ * (Google Calendar, Telegram)
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  googleAuthUrlResponseSchema,
+  googleCalendarStatusResponseSchema,
+  googleCalendarSyncResponseSchema,
+  meetingTrackerSettingsResponseSchema,
+  telegramLinkResponseSchema,
+  telegramStatusResponseSchema,
+} from '@/schemas/meeting-tracker';
+import type {
+  GoogleCalendarStatusResponse,
+  GoogleCalendarSyncResponse,
+  MeetingTrackerSettings,
+  MeetingTrackerSettingsResponse,
+  TelegramLinkResponse,
+  TelegramStatusResponse,
+} from '@/types/meeting-tracker';
+
+/**
+ * Get the current user's Meeting Tracker preferences
+ */
+export async function getSettings(): Promise<MeetingTrackerSettingsResponse> {
+  const response = await apiClient.get<MeetingTrackerSettingsResponse>('/api/v1/meeting-tracker/settings');
+  return validateResponse(meetingTrackerSettingsResponseSchema, response);
+}
+
+/**
+ * Update the current user's Meeting Tracker preferences
+ */
+export async function updateSettings(data: Partial<MeetingTrackerSettings>): Promise<void> {
+  await apiClient.patch('/api/v1/meeting-tracker/settings', data);
+}
+
+/**
+ * Get the Google Calendar connection status
+ */
+export async function getGoogleCalendarStatus(): Promise<GoogleCalendarStatusResponse> {
+  const response = await apiClient.get<GoogleCalendarStatusResponse>('/api/v1/meeting-tracker/google/status');
+  return validateResponse(googleCalendarStatusResponseSchema, response);
+}
+
+/**
+ * Get the Google OAuth URL to start connecting a calendar
+ */
+export async function getGoogleAuthUrl(): Promise<{ authorization_url: string }> {
+  const response = await apiClient.get<{ authorization_url: string }>('/api/v1/meeting-tracker/google/auth-url');
+  return validateResponse(googleAuthUrlResponseSchema, response);
+}
+
+/**
+ * Disconnect Google Calendar
+ */
+export async function disconnectGoogleCalendar(): Promise<void> {
+  await apiClient.post('/api/v1/meeting-tracker/google/disconnect');
+}
+
+/**
+ * Pull meetings from Google Calendar now
+ */
+export async function syncGoogleCalendar(): Promise<GoogleCalendarSyncResponse> {
+  const response = await apiClient.post<GoogleCalendarSyncResponse>('/api/v1/meeting-tracker/google/sync');
+  return validateResponse(googleCalendarSyncResponseSchema, response);
+}
+
+/**
+ * Get the Telegram link status
+ */
+export async function getTelegramStatus(): Promise<TelegramStatusResponse> {
+  const response = await apiClient.get<TelegramStatusResponse>('/api/v1/telegram/status');
+  return validateResponse(telegramStatusResponseSchema, response);
+}
+
+/**
+ * Generate a one-time Telegram deep link for connecting the bot
+ */
+export async function generateTelegramLink(): Promise<TelegramLinkResponse> {
+  const response = await apiClient.post<TelegramLinkResponse>('/api/v1/telegram/generate-link');
+  return validateResponse(telegramLinkResponseSchema, response);
+}
+
+/**
+ * Send a test notification to the linked Telegram chat
+ */
+export async function sendTelegramTest(): Promise<void> {
+  await apiClient.post('/api/v1/telegram/test');
+}
+
+/**
+ * Unlink Telegram
+ */
+export async function unlinkTelegram(): Promise<void> {
+  await apiClient.delete('/api/v1/telegram/unlink');
+}
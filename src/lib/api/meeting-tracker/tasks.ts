@@ -0,0 +1,52 @@
+/**
+ * API service for Meeting Tracker tasks
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  bulkTaskCreateResponseSchema,
+  taskListResponseSchema,
+  xpAwardedResponseSchema,
+} from '@/schemas/meeting-tracker';
+import type {
+  BulkTaskCreateData,
+  BulkTaskCreateResponse,
+  TaskListParams,
+  TaskListResponse,
+  TaskStatus,
+  TaskUpdateResponse,
+} from '@/types/meeting-tracker';
+
+const BASE_URL = '/api/v1/meeting-tracker/tasks';
+
+/**
+ * List tasks with their statistics
+ */
+export async function listTasks(params: TaskListParams = {}): Promise<TaskListResponse> {
+  const response = await apiClient.get<TaskListResponse>(`${BASE_URL}/`, { params });
+  return validateResponse(taskListResponseSchema, response);
+}
+
+/**
+ * Update a task's status. Completing a task may award XP.
+ */
+export async function updateTaskStatus(taskId: string, status: TaskStatus): Promise<TaskUpdateResponse> {
+  const response = await apiClient.patch<TaskUpdateResponse>(`${BASE_URL}/${taskId}`, { status });
+  return validateResponse(xpAwardedResponseSchema, response);
+}
+
+/**
+ * Delete a task
+ */
+export async function deleteTask(taskId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${taskId}`);
+}
+
+/**
+ * Create several tasks for one meeting in a single request
+ */
+export async function createTasksBulk(data: BulkTaskCreateData): Promise<BulkTaskCreateResponse> {
+  const response = await apiClient.post<BulkTaskCreateResponse>(`${BASE_URL}/bulk`, data);
+  return validateResponse(bulkTaskCreateResponseSchema, response);
+}
@@ -0,0 +1,80 @@
+/**
+ * API service for Oracle administration
+ * (product document uploads and the dashboards)
+ */
+
+import type { AxiosProgressEvent } from 'axios';
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import { adminDashboardResponseSchema, dashboardStatsResponseSchema } from '@/schemas/oracle/admin-dashboard';
+import {
+  insuranceUploadResponseSchema,
+  processingStatusSchema,
+  uploadedDocumentListResponseSchema,
+} from '@/schemas/upload';
+import type { AdminDashboardData, DashboardStatCard } from '@/types/oracle/admin-dashboard';
+import type { InsuranceUploadResponse, ProcessingStatus, UploadedDocument } from '@/types/upload';
+
+// ============================================================================
+// Product documents
+// ============================================================================
+
+/**
+ * Upload product brochures for extraction into the catalogue
+ */
+export async function uploadInsuranceDocuments(
+  files: File[],
+  category: string,
+  onUploadProgress?: (event: AxiosProgressEvent) => void
+): Promise<InsuranceUploadResponse> {
+  const formData = new FormData();
+  files.forEach((file) => formData.append('files', file));
+  formData.append('category', category);
+  const response = await apiClient.post<InsuranceUploadResponse>('/api/v1/oracle/admin/upload-insurance', formData, {
+    onUploadProgress,
+  });
+  return validateResponse(insuranceUploadResponseSchema, response);
+}
+
+/**
+ * Get how far an uploaded document's extraction has got
+ */
+export async function getUploadStatus(uploadId: string): Promise<ProcessingStatus> {
+  const response = await apiClient.get<ProcessingStatus>(`/api/v1/oracle/admin/upload-status/${uploadId}`);
+  return validateResponse(processingStatusSchema, response);
+}
+
+/**
+ * List the most recently uploaded product documents
+ */
+export async function listUploadedDocuments(limit = 5): Promise<UploadedDocument[]> {
+  const response = await apiClient.get<{ success: boolean; message: string; data: UploadedDocument[] }>(
+    '/api/v1/oracle/admin/uploaded-documents',
+    { params: { limit } }
+  );
+  return validateResponse(uploadedDocumentListResponseSchema, response).data;
+}
+
+// ============================================================================
+// Dashboards
+// ============================================================================
+
+/**
+ * Get the stat cards for the current user's home dashboard
+ */
+export async function getDashboardStats(): Promise<DashboardStatCard[]> {
+  const response = await apiClient.get<{ success: boolean; data: { stats: DashboardStatCard[] } }>(
+    '/api/v1/oracle/dashboard/stats'
+  );
+  return validateResponse(dashboardStatsResponseSchema, response).data.stats;
+}
+
+/**
+ * Get the admin panel's company totals and recent activity
+ */
+export async function getAdminDashboard(): Promise<AdminDashboardData> {
+  const response = await apiClient.get<{ success: boolean; data: AdminDashboardData }>(
+    '/api/v1/oracle/admin-dashboard/stats'
+  );
+  return validateResponse(adminDashboardResponseSchema, response).data;
+}
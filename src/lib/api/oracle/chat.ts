@@ -0,0 +1,124 @@
+/**
+ * API service for Oracle product chat
+ */
+
+import apiClient from '@/lib/api';
+import { isAbortError, streamJsonEvents } from '@/lib/event-stream';
+import { validateData, validateResponse } from '@/lib/response-validation';
+import {
+  chatMessageListResponseSchema,
+  chatMessageSchema,
+  chatSessionCreateResponseSchema,
+  chatSessionListResponseSchema,
+  sentChatMessageSchema,
+} from '@/schemas/oracle/product-chat';
+import type { ApiError } from '@/types/auth';
+import type {
+  ChatMessage,
+  ChatMessageListResponse,
+  ChatMessageStreamEvent,
+  ChatSession,
+  ChatSessionCreateData,
+  ChatSessionCreateResponse,
+  ChatSessionListParams,
+  ChatSessionListResponse,
+} from '@/types/oracle/product-chat';
+
+const BASE_URL = '/api/v1/oracle/chat/sessions';
+
+/**
+ * List the current user's chat sessions
+ */
+export async function listChatSessions(params: ChatSessionListParams = {}): Promise<ChatSessionListResponse> {
+  const response = await apiClient.get<ChatSessionListResponse>(BASE_URL, { params });
+  return validateResponse(chatSessionListResponseSchema, response);
+}
+
+/**
+ * Start a chat session about a product, optionally with a first question
+ */
+export async function createChatSession(data: ChatSessionCreateData): Promise<ChatSessionCreateResponse> {
+  const response = await apiClient.post<ChatSessionCreateResponse>(BASE_URL, data);
+  return validateResponse(chatSessionCreateResponseSchema, response);
+}
+
+/**
+ * List a session's messages
+ */
+export async function listChatMessages(
+  sessionId: string,
+  params: { limit?: number; order_direction?: 'asc' | 'desc' } = {}
+): Promise<ChatMessageListResponse> {
+  const response = await apiClient.get<ChatMessageListResponse>(`${BASE_URL}/${sessionId}/messages`, { params });
+  return validateResponse(chatMessageListResponseSchema, response);
+}
+
+/**
+ * Rename a chat session
+ */
+export async function renameChatSession(sessionId: string, newName: string): Promise<void> {
+  await apiClient.patch(`${BASE_URL}/${sessionId}/rename`, { new_name: newName });
+}
+
+/**
+ * Archive a chat session (deleting it archives it; it frees one of the five active slots)
+ */
+export async function archiveChatSession(sessionId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${sessionId}`);
+}
+
+export interface ChatMessageStreamHandlers {
+  // The user message once the backend has saved it
+  onUserMessage: (message: ChatMessage) => void;
+  // Each piece of answer text as it is generated
+  onToken: (delta: string) => void;
+}
+
+export interface SentChatMessage {
+  assistant_message?: ChatMessage;
+  session: ChatSession;
+}
+
+/**
+ * Send a message in a chat session, streaming the answer as it is generated.
+ * Aborting rejects with an AbortError.
+ */
+export async function streamChatMessage(
+  sessionId: string,
+  content: string,
+  handlers: ChatMessageStreamHandlers,
+  signal?: AbortSignal
+): Promise<SentChatMessage> {
+  const path = `${BASE_URL}/${sessionId}/messages/stream`;
+  let result = null as SentChatMessage | null;
+  let streamError = null as string | null;
+
+  try {
+    await streamJsonEvents<ChatMessageStreamEvent>(
+      path,
+      { body: { content, role: 'user' }, signal },
+      (event) => {
+        if (event.type === 'user_message') {
+          handlers.onUserMessage(validateData(chatMessageSchema, event.message, `POST ${path}`));
+        } else if (event.type === 'token') {
+          handlers.onToken(event.delta);
+        } else if (event.type === 'done') {
+          result = validateData(
+            sentChatMessageSchema,
+            { assistant_message: event.assistant_message, session: event.session },
+            `POST ${path}`
+          );
+        } else if (event.type === 'error') {
+          streamError = event.message;
+        }
+      }
+    );
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new Error((error as ApiError).detail || 'Failed to send message');
+  }
+
+  if (streamError) throw new Error(streamError);
+  if (!result) throw new Error('The answer was cut off. Please try again.');
+  return result;
+}
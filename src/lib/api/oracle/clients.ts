@@ -0,0 +1,120 @@
+/**
+ * API service for Oracle clients and their policies
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  clientListResponseSchema,
+  clientProposalListResponseSchema,
+  clientResponseSchema,
+  policyDocumentUploadResponseSchema,
+  policyListResponseSchema,
+  policyResponseSchema,
+} from '@/schemas/client';
+import type {
+  ClientCreateData,
+  ClientListResponse,
+  ClientPolicy,
+  ClientPolicyCreateData,
+  ClientProposal,
+  ClientProposalListResponse,
+  ClientPolicyWithInsurance,
+  ClientResponse,
+  ClientSearchParams,
+  ClientUpdateData,
+  ClientWithPolicies,
+  PolicyDocumentUploadResponse,
+  PolicyListResponse,
+  PolicyResponse,
+} from '@/types/client';
+
+const BASE_URL = '/api/v1/clients';
+
+/**
+ * List the current user's clients (paginated), or a team leader's team's with `team_filter`
+ */
+export async function listClients(params: ClientSearchParams = {}): Promise<ClientListResponse> {
+  const response = await apiClient.get<ClientListResponse>(BASE_URL, { params });
+  return validateResponse(clientListResponseSchema, response);
+}
+
+/**
+ * Get a single client with policy stats
+ */
+export async function getClient(clientId: string): Promise<ClientWithPolicies> {
+  const response = await apiClient.get<ClientResponse>(`${BASE_URL}/${clientId}`);
+  return validateResponse(clientResponseSchema, response).data;
+}
+
+/**
+ * Create a client
+ */
+export async function createClient(data: ClientCreateData): Promise<ClientWithPolicies> {
+  const response = await apiClient.post<ClientResponse>(BASE_URL, data);
+  return validateResponse(clientResponseSchema, response).data;
+}
+
+/**
+ * Update a client's details
+ */
+export async function updateClient(clientId: string, data: ClientUpdateData): Promise<ClientWithPolicies> {
+  const response = await apiClient.put<ClientResponse>(`${BASE_URL}/${clientId}`, data);
+  return validateResponse(clientResponseSchema, response).data;
+}
+
+/**
+ * List the proposals made for a client, newest first
+ */
+export async function listClientProposals(clientId: string): Promise<ClientProposal[]> {
+  const response = await apiClient.get<ClientProposalListResponse>(`${BASE_URL}/${clientId}/proposals`);
+  return validateResponse(clientProposalListResponseSchema, response).data.proposals;
+}
+
+/**
+ * List a client's policies
+ */
+export async function listClientPolicies(clientId: string): Promise<ClientPolicyWithInsurance[]> {
+  const response = await apiClient.get<PolicyListResponse>(`${BASE_URL}/${clientId}/policies`);
+  return validateResponse(policyListResponseSchema, response).data.policies;
+}
+
+/**
+ * Add a policy to a client
+ */
+export async function createClientPolicy(clientId: string, data: ClientPolicyCreateData): Promise<ClientPolicy> {
+  const response = await apiClient.post<PolicyResponse>(`${BASE_URL}/${clientId}/policies`, data);
+  return validateResponse(policyResponseSchema, response).data;
+}
+
+/**
+ * Attach the policy document (a PDF or image) to one of a client's policies
+ */
+export async function uploadPolicyDocument(
+  clientId: string,
+  policyId: string,
+  file: File
+): Promise<PolicyDocumentUploadResponse['data']> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await apiClient.post<PolicyDocumentUploadResponse>(
+    `${BASE_URL}/${clientId}/policies/${policyId}/upload-document`,
+    formData,
+    { headers: { 'Content-Type': 'multipart/form-data' } }
+  );
+  return validateResponse(policyDocumentUploadResponseSchema, response).data;
+}
+
+/**
+ * Delete a client and all of their policies
+ */
+export async function deleteClient(clientId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${clientId}`);
+}
+
+/**
+ * Delete one of a client's policies
+ */
+export async function deleteClientPolicy(clientId: string, policyId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${clientId}/policies/${policyId}`);
+}
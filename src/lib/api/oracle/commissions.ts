@@ -0,0 +1,103 @@
+/**
+ * API service for Oracle commission rates
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  commissionCalculationSchema,
+  commissionListSchema,
+  commissionSchema,
+  masterCommissionListResponseSchema,
+  productsWithCommissionsResponseSchema,
+} from '@/schemas/oracle/commission';
+import type {
+  Commission,
+  CommissionCalculation,
+  CommissionCreateData,
+  CommissionUpdateData,
+  MasterCommissionListParams,
+  MasterCommissionListResponse,
+  ProductWithCommissions,
+} from '@/types/oracle/commission';
+
+const BASE_URL = '/api/v1/oracle/commissions';
+
+/**
+ * List products together with their commission rates for one role
+ */
+export async function listProductsWithCommissions(
+  displayRoleId: number,
+  limit = 2000
+): Promise<{ success: boolean; data?: ProductWithCommissions[] }> {
+  const response = await apiClient.get<{ success: boolean; data?: ProductWithCommissions[] }>(
+    `${BASE_URL}/products-with-commissions`,
+    { params: { display_role_id: displayRoleId, limit } }
+  );
+  return validateResponse(productsWithCommissionsResponseSchema, response);
+}
+
+/**
+ * List the products a MASTER user manages commissions for (paginated)
+ */
+export async function listMasterCommissions(
+  params: MasterCommissionListParams = {}
+): Promise<MasterCommissionListResponse> {
+  const response = await apiClient.get<MasterCommissionListResponse>('/api/v1/oracle/master/commissions', {
+    params,
+  });
+  return validateResponse(masterCommissionListResponseSchema, response);
+}
+
+/**
+ * Get every commission rate for one insurance product
+ */
+export async function getInsuranceCommissions(insuranceId: string): Promise<Commission[]> {
+  const response = await apiClient.get<Commission[]>(`${BASE_URL}/insurance/${insuranceId}`);
+  return validateResponse(commissionListSchema, response);
+}
+
+/**
+ * Get one role's commission rates for several products at once
+ */
+export async function listBulkCommissions(insuranceIds: string[], roleId: number): Promise<Commission[]> {
+  // The backend reads insurance_ids as a repeated parameter
+  const params = new URLSearchParams();
+  insuranceIds.forEach((id) => params.append('insurance_ids', id));
+  params.append('role_id', String(roleId));
+  const response = await apiClient.get<Commission[]>(`${BASE_URL}/bulk`, { params });
+  return validateResponse(commissionListSchema, response);
+}
+
+/**
+ * Get a product's rates for one premium term, for roles that can't list them directly
+ */
+export async function calculateCommission(insuranceId: string, premiumTerm: string): Promise<CommissionCalculation> {
+  const response = await apiClient.get<CommissionCalculation>(`${BASE_URL}/calculate/${insuranceId}`, {
+    params: { premium_term: premiumTerm },
+  });
+  return validateResponse(commissionCalculationSchema, response);
+}
+
+/**
+ * Create a commission rate
+ */
+export async function createCommission(data: CommissionCreateData): Promise<Commission> {
+  const response = await apiClient.post<Commission>(BASE_URL, data);
+  return validateResponse(commissionSchema, response);
+}
+
+/**
+ * Update a commission rate
+ */
+export async function updateCommission(commissionId: string, data: CommissionUpdateData): Promise<Commission> {
+  const response = await apiClient.put<Commission>(`${BASE_URL}/${commissionId}`, data);
+  return validateResponse(commissionSchema, response);
+}
+
+/**
+ * Delete a commission rate
+ */
+export async function deleteCommission(commissionId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${commissionId}`);
+}
@@ -0,0 +1,88 @@
+/**
+ * API service for Oracle companies
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  companyListResponseSchema,
+  companyLogoUploadResponseSchema,
+  companyProfileSchema,
+  companySaveResponseSchema,
+} from '@/schemas/oracle/company';
+import type { CompanyProfile, CompanyProfileData } from '@/types/oracle/company';
+
+const BASE_URL = '/api/v1/oracle/companies';
+
+export interface CompanySummary {
+  company_id: string;
+  name: string;
+}
+
+/**
+ * List the companies visible to the current user
+ */
+export async function listCompanies(): Promise<{ success: boolean; companies: CompanyProfile[]; total_count?: number }> {
+  const response = await apiClient.get<{ success: boolean; companies: CompanyProfile[]; total_count?: number }>(
+    BASE_URL
+  );
+  return validateResponse(companyListResponseSchema, response);
+}
+
+/**
+ * Get a company's profile
+ */
+export async function getCompany(companyId: string): Promise<CompanyProfile> {
+  const response = await apiClient.get<CompanyProfile>(`${BASE_URL}/${companyId}`);
+  return validateResponse(companyProfileSchema, response);
+}
+
+/**
+ * Get the current user's company; 404 when they have none yet
+ */
+export async function getOwnCompany(): Promise<CompanyProfile> {
+  const response = await apiClient.get<CompanyProfile>(`${BASE_URL}/me`);
+  return validateResponse(companyProfileSchema, response);
+}
+
+function unwrapCompany(body: CompanyProfile | { company: CompanyProfile }): CompanyProfile {
+  return 'company' in body ? body.company : body;
+}
+
+/**
+ * Create a company (MASTER only)
+ */
+export async function createCompany(data: CompanyProfileData): Promise<CompanyProfile> {
+  const response = await apiClient.post<CompanyProfile | { company: CompanyProfile }>(BASE_URL, data);
+  return unwrapCompany(validateResponse(companySaveResponseSchema, response));
+}
+
+/**
+ * Update a company's profile
+ */
+export async function updateCompany(companyId: string, data: CompanyProfileData): Promise<CompanyProfile> {
+  const response = await apiClient.patch<CompanyProfile | { company: CompanyProfile }>(
+    `${BASE_URL}/${companyId}`,
+    data
+  );
+  return unwrapCompany(validateResponse(companySaveResponseSchema, response));
+}
+
+/**
+ * Delete a company
+ */
+export async function deleteCompany(companyId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${companyId}`);
+}
+
+/**
+ * Upload a company's logo and return its URL
+ */
+export async function uploadCompanyLogo(companyId: string, file: File): Promise<string> {
+  const formData = new FormData();
+  formData.append('logo_file', file);
+  const response = await apiClient.post<{ logo_url: string }>(`${BASE_URL}/${companyId}/upload-logo`, formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+  });
+  return validateResponse(companyLogoUploadResponseSchema, response).logo_url;
+}
@@ -3,55 +3,86 @@
  * Phase 6 of Enhanced Product Comparison Feature
  */
 
+import apiClient from "@/lib/api";
+import { isAbortError, streamJsonEvents } from "@/lib/event-stream";
+import { validateData, validateResponse } from "@/lib/response-validation";
+import { comparisonPdfSchema, comparisonSummarySchema } from "@/schemas/oracle/compare";
+import { chatResponseSchema } from "@/schemas/oracle/comparison-chat";
+import type { ApiError } from "@/types/auth";
 import type {
   ChatRequest,
   ChatResponse,
   ChatMessage,
+  ChatStreamEvent,
 } from "@/types/oracle/comparison-chat";
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
+const BASE_URL = "/api/v1/oracle/compare";
+const CHAT_STREAM_PATH = `${BASE_URL}/chat/stream`;
+
+// An AI-written overview of how the compared products differ
+export interface ComparisonSummary {
+  summary: string;
+  key_points: string[];
+  cached: boolean;
+  generated_at: string;
+  category: string | null;
+}
+
+export interface ComparisonPdfRequest {
+  product_ids: string[];
+  company_id?: string | null;
+  // Detected from the products when left out
+  category_group?: string;
+  upload_to_gcs?: boolean;
+}
+
+export interface ComparisonPdf {
+  pdf_url: string;
+  pdf_path: string;
+  generated_at: string;
+  page_count: number;
+  file_size: number;
+  category_group: string;
+  product_count: number;
+}
 
 /**
- * Get authentication token from localStorage
+ * Summarise how the compared products differ, optionally around the advisor's question
  */
-function getAuthToken(): string | null {
-  if (typeof window === "undefined") return null;
-
-  const stored = localStorage.getItem("auth_tokens");
-  if (!stored) {
-    console.warn("No authentication tokens found in localStorage");
-    return null;
-  }
+export async function getComparisonSummary(insuranceIds: string[], userQuery?: string): Promise<ComparisonSummary> {
+  const response = await apiClient.post<ComparisonSummary>(`${BASE_URL}/summary`, {
+    insurance_ids: insuranceIds,
+    user_query: userQuery || null,
+  });
+  return validateResponse(comparisonSummarySchema, response);
+}
 
-  try {
-    const tokens = JSON.parse(stored);
-    return tokens.access_token;
-  } catch (error) {
-    console.error("Failed to parse auth tokens:", error);
-    return null;
-  }
+/**
+ * Generate the comparison as a branded PDF and return where it was uploaded
+ */
+export async function generateComparisonPdf(data: ComparisonPdfRequest): Promise<ComparisonPdf> {
+  const response = await apiClient.post<ComparisonPdf>(`${BASE_URL}/generate-pdf`, data);
+  return validateResponse(comparisonPdfSchema, response);
 }
 
 /**
- * Send a chat message to the comparison chat endpoint
+ * Ask the comparison chat a question, streaming the answer as it is generated
  *
  * @param question User's question
  * @param insuranceIds List of insurance product IDs currently in comparison
  * @param chatHistory Previous chat messages for context
+ * @param onToken Called with each piece of answer text as it arrives
+ * @param signal Aborts the request; the promise then rejects with an AbortError
  * @returns ChatResponse (either answer or clarification)
  * @throws Error if request fails
  */
-export async function sendChatMessage(
+export async function streamChatMessage(
   question: string,
   insuranceIds: string[],
-  chatHistory: ChatMessage[]
+  chatHistory: ChatMessage[],
+  onToken: (delta: string) => void,
+  signal?: AbortSignal
 ): Promise<ChatResponse> {
-  const token = getAuthToken();
-
-  if (!token) {
-    throw new Error("Authentication token not found. Please log in again.");
-  }
-
   // Format chat history for API (only role and content)
   const formattedHistory = chatHistory.map((msg) => ({
     role: msg.role,
@@ -64,43 +95,26 @@ export async function sendChatMessage(
     chat_history: formattedHistory,
   };
 
-  const response = await fetch(`${API_BASE_URL}/api/v1/oracle/compare/chat`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    // Try to parse error message from response
-    let errorMessage = "Failed to send message";
-    try {
-      const errorData = await response.json();
-      errorMessage = errorData.detail || errorMessage;
-    } catch {
-      // If parsing fails, use status text
-      errorMessage = `${errorMessage}: ${response.statusText}`;
-    }
-
-    throw new Error(errorMessage);
+  let response = null as ChatResponse | null;
+  let streamError = null as string | null;
+  try {
+    await streamJsonEvents<ChatStreamEvent>(CHAT_STREAM_PATH, { body: requestBody, signal }, (event) => {
+      if (event.type === "token") {
+        onToken(event.delta);
+      } else if (event.type === "done") {
+        response = validateData(chatResponseSchema, event.response, `POST ${CHAT_STREAM_PATH}`);
+      } else if (event.type === "error") {
+        streamError = event.message;
+      }
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new Error((error as ApiError).detail || "Failed to send message");
   }
 
-  const data: ChatResponse = await response.json();
-
-  // Debug logging
-  // console.log("[Compare API] Response received:", {
-  //   type: data.type,
-  //   hasAnswer: 'answer' in data,
-  //   answerType: 'answer' in data ? typeof data.answer : 'N/A',
-  //   answerIsString: 'answer' in data ? typeof data.answer === 'string' : false,
-  //   answerLength: 'answer' in data && typeof data.answer === 'string' ? data.answer.length : 0,
-  //   answerValue: 'answer' in data ? data.answer : null,
-  //   hasClarification: 'message' in data,
-  // });
-
-  return data;
+  if (streamError) throw new Error(streamError);
+  if (!response) throw new Error("The answer was cut off. Please try again.");
+  return response;
 }
 
 /**
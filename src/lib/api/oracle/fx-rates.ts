@@ -0,0 +1,56 @@
+/**
+ * API service for exchange rates
+ *
+ * Every rate comes from the backend, which calls the rate provider with the
+ * server-side key and caches the result. Proposals keep their own snapshot of
+ * the rates they were generated with (Proposal.fx_rates); these calls manage it.
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import { fxRateQuoteResponseSchema, proposalFxRateListResponseSchema } from '@/schemas/oracle/fx-rate';
+import type { FxRateQuote, ProposalFxRate, ProposalFxRateOverride } from '@/types/oracle/fx-rate';
+
+const RATES_URL = '/api/v1/exchange-rates';
+const PROPOSALS_URL = '/api/v1/oracle/proposals';
+
+/**
+ * Get the current market rate from one currency to another
+ */
+export async function getFxRate(fromCurrency: string, toCurrency: string): Promise<FxRateQuote> {
+  const response = await apiClient.get<FxRateQuote>(`${RATES_URL}/${fromCurrency}/${toCurrency}`);
+  return validateResponse(fxRateQuoteResponseSchema, response);
+}
+
+/**
+ * Re-capture a proposal's rates at today's market rates (overrides are cleared)
+ */
+export async function refreshProposalFxRates(proposalId: string): Promise<ProposalFxRate[]> {
+  const response = await apiClient.post<{ data: ProposalFxRate[] }>(`${PROPOSALS_URL}/${proposalId}/fx-rates/refresh`);
+  return validateResponse(proposalFxRateListResponseSchema, response).data;
+}
+
+/**
+ * Override the rate for one source currency. The reason is kept with the snapshot.
+ */
+export async function overrideProposalFxRate(
+  proposalId: string,
+  fromCurrency: string,
+  data: ProposalFxRateOverride
+): Promise<ProposalFxRate[]> {
+  const response = await apiClient.put<{ data: ProposalFxRate[] }>(
+    `${PROPOSALS_URL}/${proposalId}/fx-rates/${fromCurrency}`,
+    data
+  );
+  return validateResponse(proposalFxRateListResponseSchema, response).data;
+}
+
+/**
+ * Remove an override, going back to the captured market rate
+ */
+export async function clearProposalFxRateOverride(proposalId: string, fromCurrency: string): Promise<ProposalFxRate[]> {
+  const response = await apiClient.delete<{ data: ProposalFxRate[] }>(
+    `${PROPOSALS_URL}/${proposalId}/fx-rates/${fromCurrency}`
+  );
+  return validateResponse(proposalFxRateListResponseSchema, response).data;
+}
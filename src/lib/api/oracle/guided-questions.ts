@@ -0,0 +1,39 @@
+/**
+ * API service for company guided discovery question sets
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  guidedQuestionSetListResponseSchema,
+  guidedQuestionSetResponseSchema,
+} from '@/schemas/oracle/guided-question';
+import type { GuidedQuestionSet, GuidedQuestionSetUpdate } from '@/types/oracle/guided-question';
+
+const BASE_URL = '/api/v1/oracle/guided-questions';
+
+/**
+ * The question sets the current user's company has edited. Categories not listed use the defaults.
+ */
+export async function listGuidedQuestionSets(): Promise<GuidedQuestionSet[]> {
+  const response = await apiClient.get<{ data: GuidedQuestionSet[] }>(BASE_URL);
+  return validateResponse(guidedQuestionSetListResponseSchema, response).data;
+}
+
+/**
+ * Replace the company's questions for a category (admins only)
+ */
+export async function saveGuidedQuestionSet(
+  categoryId: string,
+  data: GuidedQuestionSetUpdate
+): Promise<GuidedQuestionSet> {
+  const response = await apiClient.put<{ data: GuidedQuestionSet }>(`${BASE_URL}/${categoryId}`, data);
+  return validateResponse(guidedQuestionSetResponseSchema, response).data;
+}
+
+/**
+ * Drop the company's version of a category, going back to the default questions (admins only)
+ */
+export async function resetGuidedQuestionSet(categoryId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${categoryId}`);
+}
@@ -0,0 +1,70 @@
+/**
+ * API service for Oracle user invitations
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  cleanupExpiredInvitationsResponseSchema,
+  invitableRolesResponseSchema,
+  invitationListResponseSchema,
+} from '@/schemas/oracle/invitation';
+import type {
+  InvitableRole,
+  InvitationCreateData,
+  InvitationListParams,
+  InvitationListResponse,
+} from '@/types/oracle/invitation';
+
+const BASE_URL = '/api/v1/oracle/invitations';
+
+/**
+ * List the company's invitations, newest first
+ */
+export async function listInvitations(params: InvitationListParams = {}): Promise<InvitationListResponse['data']> {
+  const response = await apiClient.get<InvitationListResponse>(BASE_URL, { params });
+  return validateResponse(invitationListResponseSchema, response).data;
+}
+
+/**
+ * List the roles the current user may invite people into
+ */
+export async function listInvitableRoles(): Promise<InvitableRole[]> {
+  const response = await apiClient.get<{
+    success: boolean;
+    message: string;
+    data: { roles: InvitableRole[]; user_role: string };
+  }>(`${BASE_URL}/roles/available`);
+  return validateResponse(invitableRolesResponseSchema, response).data.roles;
+}
+
+/**
+ * Email an invitation
+ */
+export async function createInvitation(data: InvitationCreateData): Promise<void> {
+  await apiClient.post(`${BASE_URL}/invite`, data);
+}
+
+/**
+ * Email a pending invitation again
+ */
+export async function resendInvitation(invitationId: number): Promise<void> {
+  await apiClient.post(`${BASE_URL}/${invitationId}/resend`);
+}
+
+/**
+ * Revoke a pending invitation
+ */
+export async function revokeInvitation(invitationId: number): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${invitationId}`);
+}
+
+/**
+ * Mark pending invitations past their expiry as expired; returns how many were
+ */
+export async function cleanupExpiredInvitations(): Promise<number> {
+  const response = await apiClient.post<{ success: boolean; message: string; data: { expired_count: number } }>(
+    `${BASE_URL}/cleanup-expired`
+  );
+  return validateResponse(cleanupExpiredInvitationsResponseSchema, response).data.expired_count;
+}
@@ -0,0 +1,153 @@
+/**
+ * API service for Oracle insurance products
+ */
+
+import apiClient from '@/lib/api';
+import { streamJsonEvents } from '@/lib/event-stream';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  insuranceOptionListResponseSchema,
+  productCategoriesResponseSchema,
+  productListResponseSchema,
+  productProvidersResponseSchema,
+  productResponseSchema,
+} from '@/schemas/oracle/insurance-product';
+import type { CategoryOption, GuidedParameters } from '@/types/oracle/guided-question';
+import type { InsuranceOption, InsuranceProduct } from '@/types/oracle/insurance-product';
+
+export interface ProductListParams {
+  search?: string;
+  category?: string;
+  provider?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ProductListResponse {
+  success: boolean;
+  data: {
+    products: InsuranceProduct[];
+    total: number;
+    limit: number;
+    offset: number;
+  };
+}
+
+/**
+ * Search the product catalogue by name, category or provider
+ */
+export async function listProducts(params: ProductListParams = {}): Promise<ProductListResponse> {
+  const response = await apiClient.get<ProductListResponse>('/api/v1/products', { params });
+  return validateResponse(productListResponseSchema, response);
+}
+
+export interface ManagedProductListParams {
+  limit?: number;
+  offset?: number;
+  category?: string;
+  provider?: string;
+  // Admins see discontinued products too when set
+  include_discontinued?: boolean;
+}
+
+/**
+ * List the product catalogue (paginated), newest first
+ */
+export async function listManagedProducts(params: ManagedProductListParams = {}): Promise<ProductListResponse> {
+  const response = await apiClient.get<ProductListResponse>('/api/v1/oracle/products', { params });
+  return validateResponse(productListResponseSchema, response);
+}
+
+/**
+ * List every product as a picker option (id, name, provider, category)
+ */
+export async function listInsuranceOptions(): Promise<InsuranceOption[]> {
+  const response = await apiClient.get<{ data: InsuranceOption[] }>('/api/v1/oracle/insurance');
+  return validateResponse(insuranceOptionListResponseSchema, response).data;
+}
+
+/**
+ * Get a single product with every category-specific field
+ */
+export async function getProduct(insuranceId: string): Promise<InsuranceProduct> {
+  const response = await apiClient.get<{ success: boolean; data: InsuranceProduct }>(
+    `/api/v1/oracle/products/${insuranceId}`
+  );
+  return validateResponse(productResponseSchema, response).data;
+}
+
+/**
+ * List the product categories available for filtering
+ */
+export async function listProductCategories(): Promise<string[]> {
+  const response = await apiClient.get<{ success: boolean; data: string[] }>('/api/v1/oracle/products/categories');
+  return validateResponse(productCategoriesResponseSchema, response).data;
+}
+
+/**
+ * List the providers in the catalogue, for filtering
+ */
+export async function listProductProviders(): Promise<string[]> {
+  const response = await apiClient.get<{ success: boolean; data: string[] }>('/api/v1/oracle/products/providers');
+  return validateResponse(productProvidersResponseSchema, response).data;
+}
+
+/**
+ * Update a product's fields (admins)
+ */
+export async function updateProduct(
+  insuranceId: string,
+  data: { [K in keyof InsuranceProduct]?: InsuranceProduct[K] | null }
+): Promise<void> {
+  await apiClient.put(`/api/v1/oracle/products/${insuranceId}`, data);
+}
+
+/**
+ * Delete a product and its documents (admins)
+ */
+export async function deleteProduct(insuranceId: string): Promise<void> {
+  await apiClient.delete(`/api/v1/oracle/products/${insuranceId}`);
+}
+
+// Events from the streaming AI search, in the order they arrive
+export type AiSearchStreamEvent<TResult> =
+  | { type: 'init'; total: number }
+  | { type: 'progress'; current: number; total: number }
+  // One matching product, as soon as it has been checked
+  | { type: 'result'; data: TResult }
+  // The query is ambiguous or incomplete: ask for a category, then the guided questions
+  | {
+      type: 'guided_discovery_needed';
+      skip_category_selection?: boolean;
+      detected_category?: string;
+      pre_filled_answers?: Record<string, any>;
+      category_options?: CategoryOption[];
+    }
+  | { type: 'complete'; total_results: number; requires_category_selection?: boolean }
+  | { type: 'error'; message: string };
+
+export interface AiSearchParams {
+  query: string;
+  max_results?: number;
+  // Answers from the guided questionnaire, for a search that needed guided discovery
+  guided_parameters?: GuidedParameters;
+}
+
+/**
+ * Run an AI product search, calling onEvent as results stream in
+ */
+export function streamAiSearch<TResult>(
+  { query, max_results = 5, guided_parameters }: AiSearchParams,
+  onEvent: (event: AiSearchStreamEvent<TResult>) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  return streamJsonEvents<AiSearchStreamEvent<TResult>>(
+    '/api/v1/products/search-ai-stream',
+    {
+      params: { query, max_results },
+      body: guided_parameters ? { guided_parameters } : undefined,
+      signal,
+    },
+    onEvent
+  );
+}
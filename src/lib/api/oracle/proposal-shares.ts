@@ -0,0 +1,152 @@
+/**
+ * API service for client-facing proposal share links and their view log
+ *
+ * The shared-proposals endpoints are public: the client opens them without
+ * signing in. They answer 403 for a wrong PIN or view token, 404 for an unknown
+ * or revoked link and 410 for an expired one (never 401, which apiClient treats
+ * as an expired session).
+ */
+
+import apiClient, { API_BASE_URL } from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import { proposalSignatureResponseSchema } from '@/schemas/oracle/proposal';
+import {
+  proposalShareLinkListResponseSchema,
+  proposalShareLinkResponseSchema,
+  proposalShareViewListResponseSchema,
+  sharedProposalResponseSchema,
+  sharedProposalSessionResponseSchema,
+} from '@/schemas/oracle/proposal-share';
+import type { ProposalSignature, ProposalSignatureCreate } from '@/types/oracle/proposal';
+import type {
+  ProposalShareCreate,
+  ProposalShareLink,
+  ProposalSharePageTime,
+  ProposalShareView,
+  SharedProposal,
+  SharedProposalSession,
+} from '@/types/oracle/proposal-share';
+
+const PROPOSALS_URL = '/api/v1/oracle/proposals';
+const SHARED_URL = '/api/v1/oracle/shared-proposals';
+
+// ============================================================================
+// Advisor side
+// ============================================================================
+
+/**
+ * List a proposal's share links, newest first (revoked and expired ones included)
+ */
+export async function listShareLinks(proposalId: string): Promise<ProposalShareLink[]> {
+  const response = await apiClient.get<{ data: ProposalShareLink[] }>(`${PROPOSALS_URL}/${proposalId}/shares`);
+  return validateResponse(proposalShareLinkListResponseSchema, response).data;
+}
+
+/**
+ * Create a share link. The PIN is hashed by the backend and never returned.
+ */
+export async function createShareLink(proposalId: string, data: ProposalShareCreate): Promise<ProposalShareLink> {
+  const response = await apiClient.post<{ data: ProposalShareLink }>(`${PROPOSALS_URL}/${proposalId}/shares`, data);
+  return validateResponse(proposalShareLinkResponseSchema, response).data;
+}
+
+/**
+ * Revoke a share link. Its view log is kept.
+ */
+export async function revokeShareLink(proposalId: string, shareId: string): Promise<void> {
+  await apiClient.delete(`${PROPOSALS_URL}/${proposalId}/shares/${shareId}`);
+}
+
+/**
+ * List the views of a share link, newest first
+ */
+export async function listShareViews(proposalId: string, shareId: string): Promise<ProposalShareView[]> {
+  const response = await apiClient.get<{ data: ProposalShareView[] }>(
+    `${PROPOSALS_URL}/${proposalId}/shares/${shareId}/views`
+  );
+  return validateResponse(proposalShareViewListResponseSchema, response).data;
+}
+
+// ============================================================================
+// Client side
+// ============================================================================
+
+/**
+ * Get what the client sees before opening the proposal (and whether a PIN is needed)
+ */
+export async function getSharedProposal(token: string): Promise<SharedProposal> {
+  const response = await apiClient.get<{ data: SharedProposal }>(`${SHARED_URL}/${token}`);
+  return validateResponse(sharedProposalResponseSchema, response).data;
+}
+
+/**
+ * Open the proposal, starting a new view in the log
+ */
+export async function startSharedProposalView(token: string, pin?: string): Promise<SharedProposalSession> {
+  const response = await apiClient.post<{ data: SharedProposalSession }>(`${SHARED_URL}/${token}/views`, { pin });
+  return validateResponse(sharedProposalSessionResponseSchema, response).data;
+}
+
+/**
+ * Get the rendered HTML of one proposal page (the same rendering as /proposals/{id}/page/{n})
+ */
+export async function getSharedProposalPage(token: string, viewToken: string, pageNumber: number): Promise<string> {
+  const response = await apiClient.get<string>(`${SHARED_URL}/${token}/page/${pageNumber}`, {
+    headers: { 'X-View-Token': viewToken },
+    responseType: 'text',
+  });
+  return response.data;
+}
+
+/**
+ * Add reading time to the current view. Page times are increments since the last report.
+ */
+export async function recordSharedProposalActivity(
+  token: string,
+  session: SharedProposalSession,
+  pages: ProposalSharePageTime[]
+): Promise<void> {
+  await apiClient.post(
+    `${SHARED_URL}/${token}/views/${session.view_id}/activity`,
+    { pages },
+    { headers: { 'X-View-Token': session.view_token } }
+  );
+}
+
+/**
+ * Same as recordSharedProposalActivity, but survives the tab being closed.
+ * Beacons can't carry headers, so the view token goes in the body.
+ */
+export function sendSharedProposalActivityBeacon(
+  token: string,
+  session: SharedProposalSession,
+  pages: ProposalSharePageTime[]
+): void {
+  const body = new Blob([JSON.stringify({ pages, view_token: session.view_token })], { type: 'application/json' });
+  navigator.sendBeacon(`${API_BASE_URL}${SHARED_URL}/${token}/views/${session.view_id}/activity`, body);
+}
+
+/**
+ * Record the client's signature on the shared proposal
+ */
+export async function signSharedProposal(
+  token: string,
+  session: SharedProposalSession,
+  data: ProposalSignatureCreate
+): Promise<ProposalSignature> {
+  const response = await apiClient.post<{ data: ProposalSignature }>(`${SHARED_URL}/${token}/signature`, data, {
+    headers: { 'X-View-Token': session.view_token },
+  });
+  return validateResponse(proposalSignatureResponseSchema, response).data;
+}
+
+/**
+ * Download the client's copy of the sealed signed PDF
+ */
+export async function downloadSharedSignedPdf(token: string, session: SharedProposalSession): Promise<Blob> {
+  const response = await apiClient.get<Blob>(`${SHARED_URL}/${token}/signed-pdf`, {
+    headers: { 'X-View-Token': session.view_token },
+    responseType: 'blob',
+  });
+  return response.data;
+}
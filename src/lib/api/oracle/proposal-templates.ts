@@ -0,0 +1,60 @@
+/**
+ * API service for company proposal templates (layout and branding presets)
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  proposalTemplateListResponseSchema,
+  proposalTemplateResponseSchema,
+} from '@/schemas/oracle/proposal-template';
+import type {
+  ProposalTemplate,
+  ProposalTemplateCreate,
+  ProposalTemplateUpdate,
+} from '@/types/oracle/proposal-template';
+
+const BASE_URL = '/api/v1/oracle/proposal-templates';
+
+/**
+ * List the templates of the current user's company, default first
+ */
+export async function listProposalTemplates(): Promise<ProposalTemplate[]> {
+  const response = await apiClient.get<{ data: ProposalTemplate[] }>(BASE_URL);
+  return validateResponse(proposalTemplateListResponseSchema, response).data;
+}
+
+/**
+ * Get a single template
+ */
+export async function getProposalTemplate(templateId: string): Promise<ProposalTemplate> {
+  const response = await apiClient.get<{ data: ProposalTemplate }>(`${BASE_URL}/${templateId}`);
+  return validateResponse(proposalTemplateResponseSchema, response).data;
+}
+
+/**
+ * Create a template for the current user's company.
+ * Marking it as default unsets the previous default.
+ */
+export async function createProposalTemplate(data: ProposalTemplateCreate): Promise<ProposalTemplate> {
+  const response = await apiClient.post<{ data: ProposalTemplate }>(BASE_URL, data);
+  return validateResponse(proposalTemplateResponseSchema, response).data;
+}
+
+/**
+ * Update a template. Existing proposals pick up the change the next time they are generated.
+ */
+export async function updateProposalTemplate(
+  templateId: string,
+  data: ProposalTemplateUpdate
+): Promise<ProposalTemplate> {
+  const response = await apiClient.put<{ data: ProposalTemplate }>(`${BASE_URL}/${templateId}`, data);
+  return validateResponse(proposalTemplateResponseSchema, response).data;
+}
+
+/**
+ * Delete a template. Proposals that used it fall back to the company default.
+ */
+export async function deleteProposalTemplate(templateId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${templateId}`);
+}
@@ -0,0 +1,454 @@
+/**
+ * API service for Oracle proposals and their uploaded illustrations
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  aiQueryHistoryResponseSchema,
+  extractedIllustrationListSchema,
+  extractedIllustrationsResponseSchema,
+  illustrationInsuranceMatchListResponseSchema,
+  illustrationUploadResponseSchema,
+  intelligentAnalysisStatusResponseSchema,
+  proposalContentDraftResponseSchema,
+  proposalCreateResponseSchema,
+  proposalDeleteResponseSchema,
+  proposalGenerationResponseSchema,
+  proposalListResponseSchema,
+  proposalPageOverrideListResponseSchema,
+  proposalPageOverrideResponseSchema,
+  proposalResponseSchema,
+  proposalRevisionDetailResponseSchema,
+  proposalRevisionListResponseSchema,
+  proposalPageHtmlSchema,
+  proposalRevisionResponseSchema,
+  proposalSectionContentResponseSchema,
+  proposalSignatureResponseSchema,
+} from '@/schemas/oracle/proposal';
+import type {
+  AiQueryHistoryItem,
+  ExtractedIllustration,
+  IllustrationData,
+  IllustrationInsuranceMatch,
+  Proposal,
+  ProposalContentDraft,
+  ProposalContentGuidance,
+  ProposalContentSection,
+  ProposalCreate,
+  ProposalListItem,
+  ProposalListParams,
+  ProposalPageOverride,
+  ProposalRevision,
+  ProposalRevisionCreate,
+  ProposalRevisionDetail,
+  ProposalSignature,
+  ProposalSignatureCreate,
+} from '@/types/oracle/proposal';
+import type { ProposalComparison } from '@/types/oracle/proposal-analytics';
+
+const BASE_URL = '/api/v1/oracle/proposals';
+
+/**
+ * List proposals: the current user's, or their team's for team leaders
+ */
+export async function listProposals(params: ProposalListParams = {}): Promise<ProposalListItem[]> {
+  const response = await apiClient.get<{ data?: { proposals: ProposalListItem[] } }>(BASE_URL, {
+    params: {
+      team_filter: params.team_filter,
+      archived: params.archived || undefined,
+    },
+  });
+  return validateResponse(proposalListResponseSchema, response).data?.proposals || [];
+}
+
+/**
+ * Create a proposal for a client
+ */
+export async function createProposal(data: ProposalCreate): Promise<{ proposal_id: string }> {
+  const response = await apiClient.post<{ data: { proposal_id: string } }>(BASE_URL, data);
+  return validateResponse(proposalCreateResponseSchema, response).data;
+}
+
+/**
+ * Update a proposal's details; only the fields sent are changed
+ */
+export async function updateProposal(proposalId: string, data: Record<string, unknown>): Promise<void> {
+  await apiClient.put(`${BASE_URL}/${proposalId}`, data);
+}
+
+/**
+ * Delete a proposal, stopping any extraction or generation still running
+ */
+export async function deleteProposal(proposalId: string): Promise<{ success: boolean; message?: string }> {
+  const response = await apiClient.delete<{ success: boolean; message?: string }>(`${BASE_URL}/${proposalId}`);
+  return validateResponse(proposalDeleteResponseSchema, response);
+}
+
+/**
+ * List the current user's past AI product searches, to use as a new proposal's client needs
+ */
+export async function listAiQueryHistory(): Promise<AiQueryHistoryItem[]> {
+  const response = await apiClient.get<{ data?: { searches: AiQueryHistoryItem[] } }>(
+    '/api/v1/oracle/ai-generation/saved-searches'
+  );
+  return validateResponse(aiQueryHistoryResponseSchema, response).data?.searches || [];
+}
+
+/**
+ * Archive a proposal. It leaves the list and board but is kept, and can be unarchived.
+ */
+export async function archiveProposal(proposalId: string): Promise<void> {
+  await apiClient.post(`${BASE_URL}/${proposalId}/archive`);
+}
+
+export async function unarchiveProposal(proposalId: string): Promise<void> {
+  await apiClient.post(`${BASE_URL}/${proposalId}/unarchive`);
+}
+
+/**
+ * Get a single proposal.
+ * Timestamped so status polling never reads a cached response.
+ */
+export async function getProposal(proposalId: string): Promise<Proposal> {
+  const response = await apiClient.get<{ data: Proposal }>(`${BASE_URL}/${proposalId}`, {
+    params: { t: Date.now() },
+  });
+  return validateResponse(proposalResponseSchema, response).data;
+}
+
+/**
+ * List a proposal's illustrations with their extracted data.
+ * Timestamped so status polling never reads a cached response.
+ */
+export async function listIllustrations<T = ExtractedIllustration>(proposalId: string): Promise<T[]> {
+  const response = await apiClient.get<{ data?: T[] } | T[]>(`${BASE_URL}/${proposalId}/illustrations/extracted-data`, {
+    params: { t: Date.now() },
+  });
+  const schema = Array.isArray(response.data) ? extractedIllustrationListSchema : extractedIllustrationsResponseSchema;
+  const result = validateResponse(schema, response);
+  return Array.isArray(result) ? result : result.data || [];
+}
+
+/**
+ * Upload one or more illustration PDFs for extraction
+ */
+export async function uploadIllustrations(proposalId: string, files: File[]): Promise<void> {
+  const formData = new FormData();
+  files.forEach((file) => {
+    formData.append('files', file);
+  });
+  await apiClient.post(`${BASE_URL}/${proposalId}/illustrations`, formData);
+}
+
+/**
+ * Upload a single illustration PDF, reporting upload progress (0-100).
+ * Extraction starts on the backend once the file is in.
+ */
+export async function uploadIllustration(
+  proposalId: string,
+  file: File,
+  onProgress?: (progress: number) => void
+): Promise<IllustrationData> {
+  const formData = new FormData();
+  formData.append('files', file);
+  const response = await apiClient.post<{ data: IllustrationData[] }>(`${BASE_URL}/${proposalId}/illustrations`, formData, {
+    onUploadProgress: (event) => {
+      if (event.total) onProgress?.(Math.round((event.loaded / event.total) * 100));
+    },
+  });
+  return validateResponse(illustrationUploadResponseSchema, response).data[0];
+}
+
+/**
+ * Run extraction again for one illustration: everything, or only the cash values
+ */
+export async function reextractIllustration(
+  proposalId: string,
+  illustrationId: string,
+  scope: 'all' | 'cash_values'
+): Promise<void> {
+  await apiClient.post(`${BASE_URL}/${proposalId}/illustrations/${illustrationId}/reextract`, { scope });
+}
+
+/**
+ * Download an illustration's original PDF
+ */
+export async function getIllustrationPdf(proposalId: string, illustrationId: string): Promise<Blob> {
+  const response = await apiClient.get<Blob>(`${BASE_URL}/${proposalId}/illustrations/${illustrationId}/pdf`, {
+    responseType: 'blob',
+  });
+  return response.data;
+}
+
+/**
+ * Generate the final proposal.
+ * The backend builds it from the saved proposal and illustration data.
+ */
+export async function generateProposal(proposalId: string): Promise<{ success: boolean; message?: string }> {
+  const response = await apiClient.post<{ success: boolean; message?: string }>(`${BASE_URL}/${proposalId}/generate`, {
+    proposal_id: proposalId,
+    generation_type: 'complete',
+  });
+  return validateResponse(proposalGenerationResponseSchema, response);
+}
+
+/**
+ * Generate one AI-written section (page 1, 2 or 4). The backend serves the saved
+ * content unless `forceRegenerate` is set; `cached` in the result says which.
+ */
+export async function generateSectionContent(
+  proposalId: string,
+  section: ProposalContentSection,
+  body: Record<string, any> = {},
+  forceRegenerate = false
+): Promise<Record<string, any>> {
+  const response = await apiClient.post<{ data: Record<string, any> }>(
+    `${BASE_URL}/${proposalId}/generate-${section}-content`,
+    body,
+    { params: { force_regenerate: forceRegenerate } }
+  );
+  return validateResponse(proposalSectionContentResponseSchema, response).data;
+}
+
+/**
+ * Get one page of the generated proposal as HTML
+ */
+export async function getProposalPageHtml(proposalId: string, pageNumber: number): Promise<string> {
+  const response = await apiClient.get<string>(`${BASE_URL}/${proposalId}/page/${pageNumber}`);
+  return validateResponse(proposalPageHtmlSchema, response);
+}
+
+/**
+ * Where the cash value age analysis behind page 3 is ('pending', 'completed', ...)
+ */
+export async function getIntelligentAnalysisStatus(proposalId: string): Promise<string | undefined> {
+  const response = await apiClient.get<{ data?: { status: string } }>(
+    `${BASE_URL}/${proposalId}/intelligent-analysis-status`
+  );
+  return validateResponse(intelligentAnalysisStatusResponseSchema, response).data?.status;
+}
+
+/**
+ * Download the generated proposal as a PDF
+ */
+export async function downloadProposalPdf(proposalId: string): Promise<Blob> {
+  const response = await apiClient.get<Blob>(`${BASE_URL}/${proposalId}/download-pdf`, { responseType: 'blob' });
+  return response.data;
+}
+
+/**
+ * Regenerate one AI-written section as a draft, following the advisor's tone
+ * and instructions. `body` carries the section's usual request fields.
+ */
+export async function generateSectionDraft(
+  proposalId: string,
+  section: ProposalContentSection,
+  guidance: ProposalContentGuidance,
+  body: Record<string, any> = {}
+): Promise<ProposalContentDraft> {
+  const response = await apiClient.post<{ data: ProposalContentDraft }>(
+    `${BASE_URL}/${proposalId}/generate-${section}-content`,
+    { ...body, tone: guidance.tone || null, instructions: guidance.instructions || null },
+    { params: { force_regenerate: true, draft: true } }
+  );
+  return validateResponse(proposalContentDraftResponseSchema, response).data;
+}
+
+/**
+ * Replace a section's text with an accepted draft
+ */
+export async function acceptSectionDraft(
+  proposalId: string,
+  section: ProposalContentSection,
+  draftId: string
+): Promise<void> {
+  await apiClient.post(`${BASE_URL}/${proposalId}/content/${section}/drafts/${draftId}/accept`);
+}
+
+/**
+ * Update an illustration's extracted data or matched product
+ */
+export async function updateIllustration(
+  proposalId: string,
+  illustrationId: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  await apiClient.put(`${BASE_URL}/${proposalId}/illustrations/${illustrationId}`, data);
+}
+
+/**
+ * Confirm the currency of an illustration flagged for currency review
+ */
+export async function confirmIllustrationCurrency(
+  proposalId: string,
+  illustrationId: string,
+  currencyCode: string
+): Promise<void> {
+  await apiClient.patch(`${BASE_URL}/${proposalId}/illustrations/${illustrationId}/confirm-currency`, {
+    currency_code: currencyCode,
+  });
+}
+
+/**
+ * Name the product of an illustration that couldn't be matched to the catalogue
+ */
+export async function assignIllustrationInsurance(
+  proposalId: string,
+  illustrationId: string,
+  insuranceName: string
+): Promise<void> {
+  await apiClient.put(`${BASE_URL}/${proposalId}/illustrations/${illustrationId}/assign`, {
+    insurance_name: insuranceName,
+  });
+}
+
+/**
+ * Search the catalogue for the product an illustration is for
+ */
+export async function searchIllustrationInsurance(
+  proposalId: string,
+  illustrationId: string,
+  query: string
+): Promise<IllustrationInsuranceMatch[]> {
+  const response = await apiClient.get<{ data?: IllustrationInsuranceMatch[] }>(
+    `${BASE_URL}/${proposalId}/illustrations/${illustrationId}/search-insurance`,
+    { params: { query } }
+  );
+  return validateResponse(illustrationInsuranceMatchListResponseSchema, response).data || [];
+}
+
+/**
+ * Match an illustration to a catalogue product
+ */
+export async function mapIllustrationInsurance(
+  proposalId: string,
+  illustrationId: string,
+  insuranceId: string
+): Promise<void> {
+  await apiClient.post(`${BASE_URL}/${proposalId}/illustrations/${illustrationId}/map-insurance`, null, {
+    params: { insurance_id: insuranceId },
+  });
+}
+
+/**
+ * Stop all extraction and delete every illustration; the proposal goes back to draft
+ */
+export async function cancelIllustrationProcessing(proposalId: string): Promise<void> {
+  await apiClient.post(`${BASE_URL}/${proposalId}/illustrations/cancel-processing`);
+}
+
+/**
+ * Delete an illustration
+ */
+export async function deleteIllustration(proposalId: string, illustrationId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${proposalId}/illustrations/${illustrationId}`);
+}
+
+/**
+ * List a proposal's revisions, newest first
+ */
+export async function listRevisions(proposalId: string): Promise<ProposalRevision[]> {
+  const response = await apiClient.get<{ data: ProposalRevision[] }>(`${BASE_URL}/${proposalId}/revisions`);
+  return validateResponse(proposalRevisionListResponseSchema, response).data;
+}
+
+/**
+ * Get a revision with its snapshot of the proposal, illustrations and generated content
+ */
+export async function getRevision(proposalId: string, revisionId: string): Promise<ProposalRevisionDetail> {
+  const response = await apiClient.get<{ data: ProposalRevisionDetail }>(
+    `${BASE_URL}/${proposalId}/revisions/${revisionId}`
+  );
+  return validateResponse(proposalRevisionDetailResponseSchema, response).data;
+}
+
+/**
+ * Record a revision after a save or regeneration
+ */
+export async function createRevision(proposalId: string, data: ProposalRevisionCreate): Promise<ProposalRevision> {
+  const response = await apiClient.post<{ data: ProposalRevision }>(`${BASE_URL}/${proposalId}/revisions`, data);
+  return validateResponse(proposalRevisionResponseSchema, response).data;
+}
+
+/**
+ * Restore the proposal and its illustrations to a revision.
+ * The backend records the restore as a new revision and returns it.
+ */
+export async function restoreRevision(proposalId: string, revisionId: string): Promise<ProposalRevisionDetail> {
+  const response = await apiClient.post<{ data: ProposalRevisionDetail }>(
+    `${BASE_URL}/${proposalId}/revisions/${revisionId}/restore`
+  );
+  return validateResponse(proposalRevisionDetailResponseSchema, response).data;
+}
+
+/**
+ * Get the client's signature on a signed proposal
+ */
+export async function getSignature(proposalId: string): Promise<ProposalSignature> {
+  const response = await apiClient.get<{ data: ProposalSignature }>(`${BASE_URL}/${proposalId}/signature`);
+  return validateResponse(proposalSignatureResponseSchema, response).data;
+}
+
+/**
+ * Record the client's signature, signed in person on the advisor's device.
+ * The backend seals the signed PDF and moves the proposal to signed.
+ */
+export async function signProposal(proposalId: string, data: ProposalSignatureCreate): Promise<ProposalSignature> {
+  const response = await apiClient.post<{ data: ProposalSignature }>(`${BASE_URL}/${proposalId}/signature`, data);
+  return validateResponse(proposalSignatureResponseSchema, response).data;
+}
+
+/**
+ * Download the sealed signed PDF
+ */
+export async function downloadSignedPdf(proposalId: string): Promise<Blob> {
+  const response = await apiClient.get<Blob>(`${BASE_URL}/${proposalId}/signed-pdf`, { responseType: 'blob' });
+  return response.data;
+}
+
+/**
+ * Save the cash value chart (SVG markup) for the backend to embed in the PDF's
+ * Illustration page. Replaces the previous chart.
+ */
+export async function saveCashValueChart(proposalId: string, svg: string, currency: string): Promise<void> {
+  await apiClient.put(`${BASE_URL}/${proposalId}/charts/cash-value-projection`, { svg, currency });
+}
+
+/**
+ * Save the illustration comparison figures for the backend to render as the
+ * proposal's Comparison page. Replaces the previous figures.
+ */
+export async function saveProposalComparison(proposalId: string, comparison: ProposalComparison): Promise<void> {
+  await apiClient.put(`${BASE_URL}/${proposalId}/analytics/comparison`, comparison);
+}
+
+/**
+ * The pages the advisor has edited by hand
+ */
+export async function listPageOverrides(proposalId: string): Promise<ProposalPageOverride[]> {
+  const response = await apiClient.get<{ data: ProposalPageOverride[] }>(`${BASE_URL}/${proposalId}/page-overrides`);
+  return validateResponse(proposalPageOverrideListResponseSchema, response).data;
+}
+
+/**
+ * Save an edited page. The preview and PDF use it in place of the generated page.
+ */
+export async function savePageOverride(
+  proposalId: string,
+  pageNumber: number,
+  html: string
+): Promise<ProposalPageOverride> {
+  const response = await apiClient.put<{ data: ProposalPageOverride }>(
+    `${BASE_URL}/${proposalId}/page/${pageNumber}/override`,
+    { html }
+  );
+  return validateResponse(proposalPageOverrideResponseSchema, response).data;
+}
+
+/**
+ * Drop a page's edits and go back to the generated page
+ */
+export async function deletePageOverride(proposalId: string, pageNumber: number): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${proposalId}/page/${pageNumber}/override`);
+}
@@ -0,0 +1,73 @@
+/**
+ * API service for saved AI product searches and their new-product alerts
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import {
+  savedSearchAlertListResponseSchema,
+  savedSearchListResponseSchema,
+  savedSearchResponseSchema,
+} from '@/schemas/oracle/saved-search';
+import type {
+  SavedSearch,
+  SavedSearchAlert,
+  SavedSearchCreate,
+  SavedSearchUpdate,
+} from '@/types/oracle/saved-search';
+
+const BASE_URL = '/api/v1/products/saved-searches';
+
+/**
+ * List the current user's saved searches, most recently created first
+ */
+export async function listSavedSearches(): Promise<SavedSearch[]> {
+  const response = await apiClient.get<{ success: boolean; data: SavedSearch[] }>(BASE_URL);
+  return validateResponse(savedSearchListResponseSchema, response).data;
+}
+
+export async function getSavedSearch(searchId: string): Promise<SavedSearch> {
+  const response = await apiClient.get<{ success: boolean; data: SavedSearch }>(`${BASE_URL}/${searchId}`);
+  return validateResponse(savedSearchResponseSchema, response).data;
+}
+
+export async function createSavedSearch(data: SavedSearchCreate): Promise<SavedSearch> {
+  const response = await apiClient.post<{ success: boolean; data: SavedSearch }>(BASE_URL, data);
+  return validateResponse(savedSearchResponseSchema, response).data;
+}
+
+/**
+ * Rename a saved search or turn its alerts on or off
+ */
+export async function updateSavedSearch(searchId: string, data: SavedSearchUpdate): Promise<SavedSearch> {
+  const response = await apiClient.patch<{ success: boolean; data: SavedSearch }>(`${BASE_URL}/${searchId}`, data);
+  return validateResponse(savedSearchResponseSchema, response).data;
+}
+
+/**
+ * Record that the advisor re-ran a saved search, which resets its new match count
+ */
+export async function markSavedSearchRun(searchId: string): Promise<SavedSearch> {
+  const response = await apiClient.post<{ success: boolean; data: SavedSearch }>(`${BASE_URL}/${searchId}/run`);
+  return validateResponse(savedSearchResponseSchema, response).data;
+}
+
+export async function deleteSavedSearch(searchId: string): Promise<void> {
+  await apiClient.delete(`${BASE_URL}/${searchId}`);
+}
+
+/**
+ * Alerts the current user hasn't been shown yet, oldest first. The backend
+ * raises one when a newly ingested product matches a saved search with alerts on.
+ */
+export async function listSavedSearchAlerts(): Promise<SavedSearchAlert[]> {
+  const response = await apiClient.get<{ success: boolean; data: SavedSearchAlert[] }>(`${BASE_URL}/alerts`);
+  return validateResponse(savedSearchAlertListResponseSchema, response).data;
+}
+
+/**
+ * Mark alerts as shown so they aren't returned again
+ */
+export async function acknowledgeSavedSearchAlerts(alertIds: string[]): Promise<void> {
+  await apiClient.post(`${BASE_URL}/alerts/acknowledge`, { alert_ids: alertIds });
+}
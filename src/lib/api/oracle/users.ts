@@ -0,0 +1,39 @@
+/**
+ * API service for Oracle user management
+ */
+
+import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import { managedUserListResponseSchema } from '@/schemas/oracle/user';
+import type { ManagedUserListParams, ManagedUserListResponse, ManagedUserUpdateData } from '@/types/oracle/user';
+
+const BASE_URL = '/api/v1/oracle/admin/users';
+
+/**
+ * List users (paginated): the admin's company's, or every company's for MASTER users
+ */
+export async function listUsers(params: ManagedUserListParams = {}): Promise<ManagedUserListResponse> {
+  const response = await apiClient.get<ManagedUserListResponse>(BASE_URL, { params });
+  return validateResponse(managedUserListResponseSchema, response);
+}
+
+/**
+ * Update a user's name, phone and role
+ */
+export async function updateUser(userId: string, data: ManagedUserUpdateData): Promise<void> {
+  await apiClient.put(`${BASE_URL}/${userId}`, data);
+}
+
+/**
+ * Reactivate a deactivated user
+ */
+export async function activateUser(userId: string): Promise<void> {
+  await apiClient.post(`${BASE_URL}/${userId}/activate`);
+}
+
+/**
+ * Deactivate a user (they can no longer log in)
+ */
+export async function deactivateUser(userId: string): Promise<void> {
+  await apiClient.post(`${BASE_URL}/${userId}/deactivate`);
+}
@@ -0,0 +1,253 @@
+/**
+ * Cash value projection
+ *
+ * Builds the data behind the cash value chart from a proposal's illustrations:
+ * one cash value curve and one cumulative premium line per illustration, keyed
+ * by age, with the breakeven point marked. Values come from the full extracted
+ * cash surrender value table, with the advisor's edits applied on top, and can
+ * be converted to the proposal's target currency.
+ */
+
+import { differenceInYears } from 'date-fns';
+import type { ExtractedIllustration } from '@/types/oracle/proposal';
+
+export type ProjectionCurrencyMode = 'illustration' | 'target';
+
+export const PROJECTION_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626'];
+
+export interface CashValuePoint {
+  age: number;
+  value: number;
+}
+
+export interface CashValueSeries {
+  // Chart data keys of this illustration's lines
+  cashValueKey: string;
+  premiumKey: string;
+  name: string;
+  // Currency the series is shown in
+  currency: string;
+  color: string;
+  breakevenAge: number | null;
+  breakevenValue: number | null;
+}
+
+export interface CashValueProjection {
+  // One row per age: { age, [cashValueKey]: value, [premiumKey]: cumulative premium }
+  rows: Array<Record<string, number>>;
+  series: CashValueSeries[];
+  // Illustration currencies left out because there is no rate to the target currency
+  missingRates: string[];
+}
+
+// ============================================================================
+// Reading illustration data
+// ============================================================================
+
+/**
+ * A field with the advisor's edit taking precedence over the extracted value
+ */
+export function readIllustrationField(illustration: ExtractedIllustration, field: string): any {
+  const edited = illustration.user_edited_data?.[field];
+  if (edited !== null && edited !== undefined && edited !== '') return edited;
+  const extracted = illustration.comprehensive_data?.[field];
+  if (extracted !== null && extracted !== undefined && extracted !== '') return extracted;
+  return illustration[field] ?? null;
+}
+
+// Extracted tables are sometimes stored as JSON strings
+function toArray(raw: any): any[] {
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw === 'string') {
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+/**
+ * A number from an extracted amount such as "12,345.60" or "USD 12,345", or
+ * null for placeholders like "-"
+ */
+export function parseAmount(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.replace(/[^0-9.\-]/g, '');
+  if (!cleaned || cleaned === '-' || cleaned === '.') return null;
+  const amount = parseFloat(cleaned);
+  return isNaN(amount) ? null : amount;
+}
+
+function toPoints(raw: any): CashValuePoint[] {
+  return toArray(raw)
+    .map((item) => ({ age: parseInt(String(item?.age), 10), value: parseAmount(item?.value) }))
+    .filter((point): point is CashValuePoint => !isNaN(point.age) && point.value !== null);
+}
+
+/**
+ * The illustration's cash value by age: every extracted age, with the advisor's
+ * edited values in place of the extracted ones
+ */
+export function getCashValueCurve(illustration: ExtractedIllustration): CashValuePoint[] {
+  const extracted = illustration.comprehensive_data || {};
+  const points = toPoints(extracted.cash_surrender_values);
+  const byAge: Record<number, number> = {};
+  (points.length > 0 ? points : toPoints(extracted.cash_value_data?.cash_values)).forEach((point) => {
+    byAge[point.age] = point.value;
+  });
+  toPoints(illustration.user_edited_data?.cash_surrender_values).forEach((point) => {
+    byAge[point.age] = point.value;
+  });
+
+  return Object.keys(byAge)
+    .map((age) => ({ age: Number(age), value: byAge[Number(age)] }))
+    .sort((a, b) => a.age - b.age);
+}
+
+export function getIllustrationCurrency(illustration: ExtractedIllustration): string {
+  return String(readIllustrationField(illustration, 'currency') || 'USD').toUpperCase();
+}
+
+export function getIllustrationName(illustration: ExtractedIllustration, index: number): string {
+  return (
+    readIllustrationField(illustration, 'insurance_name') ||
+    illustration.final_insurance_name ||
+    illustration.original_filename ||
+    `Illustration ${index + 1}`
+  );
+}
+
+/**
+ * Years of premium payments from a payment period such as "20 years" or
+ * "to age 65", or null when premiums are paid throughout
+ */
+export function getPaymentYears(paymentPeriod: unknown, issueAge: number): number | null {
+  if (paymentPeriod === null || paymentPeriod === undefined) return null;
+  const text = String(paymentPeriod).toLowerCase();
+  const match = text.match(/\d+/);
+  if (!match) return null;
+  const years = parseInt(match[0], 10);
+  return text.indexOf('age') >= 0 ? Math.max(years - issueAge, 0) : years;
+}
+
+/**
+ * The client's age when the policies start: from their date of birth, else
+ * the year before the first illustrated age
+ */
+export function getIssueAge(clientDob: string | null | undefined, firstAge: number): number {
+  if (clientDob) {
+    const age = differenceInYears(new Date(), new Date(clientDob));
+    if (!isNaN(age) && age >= 0 && age < firstAge) return age;
+  }
+  return Math.max(firstAge - 1, 0);
+}
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+export interface CashValueProjectionOptions {
+  clientDob?: string | null;
+  targetCurrency: string;
+  mode: ProjectionCurrencyMode;
+  // Rate from each illustration currency to the target currency
+  rates: Record<string, number | undefined>;
+}
+
+export function buildCashValueProjection(
+  illustrations: ExtractedIllustration[],
+  { clientDob, targetCurrency, mode, rates }: CashValueProjectionOptions
+): CashValueProjection {
+  const rowsByAge: Record<number, Record<string, number>> = {};
+  const series: CashValueSeries[] = [];
+  const missingRates: string[] = [];
+
+  illustrations.forEach((illustration, index) => {
+    const curve = getCashValueCurve(illustration);
+    if (curve.length === 0) return;
+
+    const currency = getIllustrationCurrency(illustration);
+    let rate = 1;
+    if (mode === 'target' && currency !== targetCurrency.toUpperCase()) {
+      const targetRate = rates[currency];
+      if (!targetRate) {
+        if (missingRates.indexOf(currency) < 0) missingRates.push(currency);
+        return;
+      }
+      rate = targetRate;
+    }
+
+    const cashValueKey = `cash_value_${index}`;
+    const premiumKey = `premium_${index}`;
+    const issueAge = getIssueAge(clientDob, curve[0].age);
+    const annualPremium = parseAmount(readIllustrationField(illustration, 'premium_per_year'));
+    const paymentYears = getPaymentYears(readIllustrationField(illustration, 'payment_period'), issueAge);
+
+    // Premiums paid by the end of the policy year the client turns `age`
+    const cumulativePremium = (age: number) => {
+      if (annualPremium === null) return null;
+      const yearsPaid = Math.max(age - issueAge, 0);
+      return annualPremium * (paymentYears === null ? yearsPaid : Math.min(yearsPaid, paymentYears));
+    };
+
+    curve.forEach((point) => {
+      const row = rowsByAge[point.age] || (rowsByAge[point.age] = { age: point.age });
+      row[cashValueKey] = point.value * rate;
+      const premium = cumulativePremium(point.age);
+      if (premium !== null) row[premiumKey] = premium * rate;
+    });
+
+    // The extracted breakeven year when there is one, else where the curve first covers the premiums
+    const breakevenYears = parseAmount(readIllustrationField(illustration, 'breakeven_years'));
+    const breakevenPoint =
+      breakevenYears !== null
+        ? curve.find((point) => point.age >= issueAge + breakevenYears)
+        : curve.find((point) => {
+            const premium = cumulativePremium(point.age);
+            return premium !== null && premium > 0 && point.value >= premium;
+          });
+
+    series.push({
+      cashValueKey,
+      premiumKey,
+      name: getIllustrationName(illustration, index),
+      currency: mode === 'target' ? targetCurrency.toUpperCase() : currency,
+      color: PROJECTION_COLORS[index % PROJECTION_COLORS.length],
+      breakevenAge: breakevenPoint ? breakevenPoint.age : null,
+      breakevenValue: breakevenPoint ? breakevenPoint.value * rate : null,
+    });
+  });
+
+  const rows = Object.keys(rowsByAge)
+    .map((age) => rowsByAge[Number(age)])
+    .sort((a, b) => a.age - b.age);
+
+  return { rows, series, missingRates };
+}
+
+/**
+ * Short axis labels: 950, 12.5K, 1.2M
+ */
+export function formatCompactAmount(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(1).replace(/\.0$/, '')}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(1).replace(/\.0$/, '')}M`;
+  if (abs >= 1e3) return `${(value / 1e3).toFixed(1).replace(/\.0$/, '')}K`;
+  return String(Math.round(value));
+}
+
+/**
+ * Standalone SVG markup of the chart rendered inside `container`, or null when
+ * nothing has been drawn
+ */
+export function serializeChartSvg(container: HTMLElement | null): string | null {
+  const svg = container?.querySelector('svg.recharts-surface');
+  if (!svg) return null;
+  const clone = svg.cloneNode(true) as SVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return clone.outerHTML;
+}
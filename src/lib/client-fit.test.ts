@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { rankProducts, scoreProduct, type ClientFitProfile } from '@/lib/client-fit';
+import { PremiumPeriod } from '@/types/client';
+import type { InsuranceProduct } from '@/types/oracle/insurance-product';
+
+type Product = Partial<InsuranceProduct>;
+
+function makeProfile(overrides: Partial<ClientFitProfile> = {}): ClientFitProfile {
+  return {
+    age: 40,
+    currency: 'MYR',
+    budget: 5000,
+    budgetPeriod: PremiumPeriod.YEARLY,
+    answers: { category: 'life_protection' },
+    ...overrides,
+  };
+}
+
+function makeProduct(overrides: Product = {}): Product {
+  return {
+    insurance_name: 'Product',
+    age_of_entry: '18 to 65',
+    minimum_premium: 'RM 1,200 a year',
+    base_currency_options: ['MYR'],
+    ...overrides,
+  };
+}
+
+const RATES = { MYR: 1, USD: 4.5 };
+
+function getCheck(product: Product, profile: ClientFitProfile, criterion: string) {
+  return scoreProduct(product, profile, [], RATES).checks.filter((check) => check.criterion === criterion)[0];
+}
+
+describe('scoreProduct', () => {
+  it('scores a product that passes every check 100', () => {
+    const result = scoreProduct(makeProduct(), makeProfile(), [], RATES);
+    expect(result.eligible).toBe(true);
+    expect(result.score).toBe(100);
+    expect(result.checks.map((check) => check.outcome)).toEqual(['pass', 'pass', 'pass']);
+  });
+
+  it("doesn't read renewal ages as entry ages", () => {
+    const product = makeProduct({ age_of_entry: '0–65, renewable to age 99' });
+    const result = scoreProduct(product, makeProfile({ age: 80 }), [], RATES);
+    expect(result.eligible).toBe(false);
+    expect(result.checks[0]).toMatchObject({ outcome: 'fail', reason: 'Entry age 0–65; client is 80' });
+  });
+
+  it('reads a lone entry age as a maximum unless it says minimum', () => {
+    expect(getCheck(makeProduct({ age_of_entry: 'Up to age 65' }), makeProfile({ age: 70 }), 'age').outcome).toBe('fail');
+    expect(getCheck(makeProduct({ age_of_entry: 'Minimum age 18' }), makeProfile({ age: 70 }), 'age').outcome).toBe('pass');
+  });
+
+  it('falls back to the savings entry age limits', () => {
+    const product = makeProduct({ age_of_entry: undefined, savings_entry_age_limits: '1 month to 60 years' });
+    expect(getCheck(product, makeProfile({ age: 61 }), 'age').reason).toBe('Entry age 0–60; client is 61');
+  });
+
+  it('marks unreadable values unknown and scores them half', () => {
+    const product = makeProduct({ age_of_entry: 'See brochure', minimum_premium: '', base_currency_options: [] });
+    const result = scoreProduct(product, makeProfile(), [], RATES);
+    expect(result.checks.map((check) => check.outcome)).toEqual(['unknown', 'unknown', 'unknown']);
+    expect(result.eligible).toBe(true);
+    expect(result.score).toBe(50);
+  });
+
+  it('compares premiums in the client currency, with a near miss as partial', () => {
+    const profile = makeProfile({ budget: 500, budgetPeriod: PremiumPeriod.MONTHLY });
+    expect(getCheck(makeProduct({ minimum_premium: 'USD 1,200 a year' }), profile, 'budget').outcome).toBe('pass');
+    expect(getCheck(makeProduct({ minimum_premium: 'RM 650 a month' }), profile, 'budget').outcome).toBe('fail');
+    expect(getCheck(makeProduct({ minimum_premium: 'RM 550 a month' }), profile, 'budget').outcome).toBe('partial');
+    expect(getCheck(makeProduct({ minimum_premium: 'EUR 100' }), profile, 'budget').outcome).toBe('unknown');
+  });
+
+  it('fails a currency the product is not offered in', () => {
+    const check = getCheck(makeProduct({ base_currency_options: ['usd', 'sgd'] }), makeProfile(), 'currency');
+    expect(check).toMatchObject({ outcome: 'fail', reason: 'Offered in USD, SGD, not MYR' });
+  });
+});
+
+describe('rankProducts', () => {
+  it('ranks eligible products first, then by score, then by name', () => {
+    const products = [
+      makeProduct({ insurance_name: 'Too old', age_of_entry: '0–30' }),
+      makeProduct({ insurance_name: 'Wrong currency', base_currency_options: ['SGD'] }),
+      makeProduct({ insurance_name: 'Beta' }),
+      makeProduct({ insurance_name: 'Alpha' }),
+    ];
+    const ranked = rankProducts(products, makeProfile(), [], RATES);
+    expect(ranked.map((result) => result.product.insurance_name)).toEqual([
+      'Alpha',
+      'Beta',
+      'Wrong currency',
+      'Too old',
+    ]);
+    expect(ranked[3].eligible).toBe(false);
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Client fit
+ *
+ * Scores products against one client for "Find products for this client".
+ * Each product gets a check per criterion, with the reason behind it: entry
+ * age (from age_of_entry), budget (against minimum_premium), currency (against
+ * base_currency_options) and one check per guided answer whose option says
+ * what it asks of a product (see src/lib/guided-questions.ts).
+ * The extracted fields are free text, so a value that can't be read is
+ * "unknown" and scores half, rather than counting for or against the product.
+ *
+ * A product the client is too young or too old to enter is not eligible and
+ * ranks below every eligible product, whatever its score.
+ *
+ * Gender and occupation aren't checked: no product field limits who can buy
+ * by either, they only change the premium.
+ */
+
+import { differenceInYears } from 'date-fns';
+import type { Question } from '@/config/guidedQuestions';
+import {
+  getAnswerMatches,
+  getAnswerValues,
+  matchesAnswerFilter,
+  normalizeProductCategory,
+} from '@/lib/guided-questions';
+import { formatFacetNumber, getEntryAgeClause, parseFacetNumbers } from '@/lib/product-facets';
+import { PremiumPeriod, type ClientPolicy } from '@/types/client';
+import type { GuidedParameters } from '@/types/oracle/guided-question';
+import type { InsuranceProduct, ProductCategory } from '@/types/oracle/insurance-product';
+
+type FitProduct = Partial<InsuranceProduct>;
+
+// ============================================================================
+// Categories
+// ============================================================================
+
+// Guided question categories with products in the catalogue (there is no health insurance category yet)
+export type ClientFitCategoryId =
+  | 'life_protection'
+  | 'critical_illness'
+  | 'savings_and_wealth'
+  | 'term_life'
+  | 'whole_life'
+  | 'universal_life'
+  | 'endowment'
+  | 'investment_linked';
+
+export interface ClientFitCategory {
+  id: ClientFitCategoryId;
+  name: string;
+  description: string;
+  productCategories: ProductCategory[];
+  // The guided question that asks about currency, prefilled from the client's currency
+  currencyQuestion?: string;
+}
+
+export const CLIENT_FIT_CATEGORIES: ClientFitCategory[] = [
+  {
+    id: 'life_protection',
+    name: 'Life Protection',
+    description: 'Whole life, term and universal life',
+    productCategories: ['whole life', 'term life insurance', 'universal life'],
+    currencyQuestion: 'q6_currency',
+  },
+  {
+    id: 'critical_illness',
+    name: 'Critical Illness',
+    description: 'Lump sums on diagnosis of a covered illness',
+    productCategories: ['critical illness'],
+  },
+  {
+    id: 'savings_and_wealth',
+    name: 'Savings & Wealth',
+    description: 'Savings plans, endowments and investment-linked plans',
+    productCategories: ['savings plan', 'endowment', 'investment-linked'],
+    currencyQuestion: 'q5_currency',
+  },
+  {
+    id: 'term_life',
+    name: 'Term Life',
+    description: 'Cover for a set number of years or to a set age',
+    productCategories: ['term life insurance'],
+    currencyQuestion: 'q7_currency',
+  },
+  {
+    id: 'whole_life',
+    name: 'Whole Life',
+    description: 'Lifelong cover that builds cash value',
+    productCategories: ['whole life'],
+    currencyQuestion: 'q6_currency',
+  },
+  {
+    id: 'universal_life',
+    name: 'Universal Life',
+    description: 'Flexible premiums with a credited account value',
+    productCategories: ['universal life'],
+    currencyQuestion: 'q5_currency',
+  },
+  {
+    id: 'endowment',
+    name: 'Endowment',
+    description: 'Savings that mature on a set date',
+    productCategories: ['endowment'],
+    currencyQuestion: 'q6_currency',
+  },
+  {
+    id: 'investment_linked',
+    name: 'Investment-Linked',
+    description: 'Premiums invested in funds the client chooses',
+    productCategories: ['investment-linked'],
+    currencyQuestion: 'q7_currency',
+  },
+];
+
+export function getClientFitCategory(categoryId: string): ClientFitCategory | undefined {
+  return CLIENT_FIT_CATEGORIES.find((category) => category.id === categoryId);
+}
+
+export function isInFitCategory(product: FitProduct, category: ClientFitCategory): boolean {
+  return (category.productCategories as string[]).indexOf(normalizeProductCategory(product.category)) !== -1;
+}
+
+// ============================================================================
+// Client profile
+// ============================================================================
+
+export const CLIENT_FIT_CURRENCIES = ['MYR', 'SGD', 'IDR', 'USD'];
+
+export interface ClientFitProfile {
+  age: number | null;
+  currency: string;
+  // What the client can spend each budgetPeriod, in their currency
+  budget: number | null;
+  budgetPeriod: PremiumPeriod;
+  answers: GuidedParameters;
+}
+
+export function getClientAge(dateOfBirth: string | null | undefined, today: Date = new Date()): number | null {
+  if (!dateOfBirth) return null;
+  const born = new Date(dateOfBirth);
+  if (isNaN(born.getTime())) return null;
+  return differenceInYears(today, born);
+}
+
+/**
+ * The currency most of the client's policies are paid in, or MYR when they have none
+ */
+export function getClientCurrency(policies: Pick<ClientPolicy, 'currency'>[]): string {
+  const counts: Record<string, number> = {};
+  let best = CLIENT_FIT_CURRENCIES[0];
+  let bestCount = 0;
+  policies.forEach((policy) => {
+    const currency = (policy.currency || '').toUpperCase();
+    if (!currency) return;
+    counts[currency] = (counts[currency] || 0) + 1;
+    if (counts[currency] > bestCount) {
+      best = currency;
+      bestCount = counts[currency];
+    }
+  });
+  return best;
+}
+
+/**
+ * Guided answers known from the client record, so the questionnaire skips them
+ */
+export function getPrefilledAnswers(category: ClientFitCategory, currency: string): Record<string, string> {
+  if (!category.currencyQuestion) return {};
+  const local = category.id === 'life_protection' ? 'local_currency_only' : 'local_currency';
+  return { [category.currencyQuestion]: currency === 'USD' ? 'usd' : local };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+export type FitCriterion = 'age' | 'budget' | 'currency' | 'needs';
+export type FitOutcome = 'pass' | 'partial' | 'fail' | 'unknown';
+
+export interface FitCheck {
+  criterion: FitCriterion;
+  label: string;
+  outcome: FitOutcome;
+  reason: string;
+}
+
+export const FIT_CRITERION_LABELS: Record<FitCriterion, string> = {
+  age: 'Entry age',
+  budget: 'Budget',
+  currency: 'Currency',
+  needs: 'Coverage needs',
+};
+
+// Out of 100; a criterion with no checks (e.g. no guided answers) is left out and the rest scaled up
+const CRITERION_WEIGHTS: Record<FitCriterion, number> = {
+  age: 25,
+  budget: 25,
+  currency: 20,
+  needs: 30,
+};
+
+const OUTCOME_CREDIT: Record<FitOutcome, number> = {
+  pass: 1,
+  partial: 0.5,
+  unknown: 0.5,
+  fail: 0,
+};
+
+// A minimum premium this far over budget is a near miss rather than a fail
+const BUDGET_TOLERANCE = 1.2;
+
+function checkAge(product: FitProduct, age: number | null): FitCheck {
+  const label = FIT_CRITERION_LABELS.age;
+  const text = product.age_of_entry || product.savings_entry_age_limits;
+  const ages = parseFacetNumbers(text, 'age');
+  const entryClause = text ? getEntryAgeClause(text) : '';
+  if (age === null) return { criterion: 'age', label, outcome: 'unknown', reason: 'Client date of birth not recorded' };
+  if (ages.length === 0) return { criterion: 'age', label, outcome: 'unknown', reason: 'Entry age not stated' };
+
+  // A lone number is a maximum ("up to age 65") unless the text says it's a minimum
+  let min = Math.min.apply(null, ages);
+  let max = Math.max.apply(null, ages);
+  let stated = `${min}–${max}`;
+  if (ages.length === 1 && /\b(min|minimum|from|above|at least)\b/i.test(entryClause)) {
+    max = Infinity;
+    stated = `${min} and over`;
+  } else if (ages.length === 1) {
+    min = 0;
+    stated = `up to ${max}`;
+  }
+
+  if (age < min || age > max) {
+    return { criterion: 'age', label, outcome: 'fail', reason: `Entry age ${stated}; client is ${age}` };
+  }
+  return { criterion: 'age', label, outcome: 'pass', reason: `Client (${age}) is within entry age ${stated}` };
+}
+
+const CURRENCY_SYMBOLS: [RegExp, string][] = [
+  [/\b(MYR|RM)/, 'MYR'],
+  [/\b(SGD|S\$)/, 'SGD'],
+  [/\b(IDR|Rp)/, 'IDR'],
+  [/\b(HKD|HK\$)/, 'HKD'],
+  [/\b(USD|US\$)/, 'USD'],
+  [/\b(EUR|GBP|AUD|CNY|JPY|THB)\b/, ''],
+];
+
+/**
+ * The currency a premium is quoted in: from the text, else the product's first currency
+ */
+function getPremiumCurrency(product: FitProduct, text: string): string | null {
+  for (let i = 0; i < CURRENCY_SYMBOLS.length; i++) {
+    const match = text.match(CURRENCY_SYMBOLS[i][0]);
+    if (match) return CURRENCY_SYMBOLS[i][1] || match[1].toUpperCase();
+  }
+  const options = product.base_currency_options || [];
+  return options.length > 0 ? options[0].toUpperCase() : null;
+}
+
+function getPremiumPeriod(text: string): PremiumPeriod {
+  if (/single|one[- ]?time|lump/i.test(text)) return PremiumPeriod.ONE_TIME;
+  if (/month|mth|\/m\b/i.test(text)) return PremiumPeriod.MONTHLY;
+  return PremiumPeriod.YEARLY;
+}
+
+const PERIOD_LABELS: Record<PremiumPeriod, string> = {
+  [PremiumPeriod.MONTHLY]: 'a month',
+  [PremiumPeriod.YEARLY]: 'a year',
+  [PremiumPeriod.ONE_TIME]: 'single premium',
+};
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${formatFacetNumber(amount, 'amount')}`;
+}
+
+/**
+ * rates: what one unit of each product currency is worth in the client's currency (from useFxRateMap)
+ */
+function checkBudget(
+  product: FitProduct,
+  profile: ClientFitProfile,
+  rates: Record<string, number | undefined>
+): FitCheck {
+  const label = FIT_CRITERION_LABELS.budget;
+  const text = product.minimum_premium || '';
+  const amounts = parseFacetNumbers(text, 'amount');
+  if (profile.budget === null) return { criterion: 'budget', label, outcome: 'unknown', reason: 'No budget given' };
+  if (amounts.length === 0) return { criterion: 'budget', label, outcome: 'unknown', reason: 'Minimum premium not stated' };
+
+  const currency = getPremiumCurrency(product, text);
+  const rate = currency ? rates[currency] : undefined;
+  const period = getPremiumPeriod(text);
+  const stated = `${formatMoney(amounts[0], currency || '')} ${PERIOD_LABELS[period]}`.trim();
+  if (!currency || rate === undefined) {
+    return {
+      criterion: 'budget',
+      label,
+      outcome: 'unknown',
+      reason: `Minimum premium ${stated}; no exchange rate to ${profile.currency}`,
+    };
+  }
+
+  const isSingle = period === PremiumPeriod.ONE_TIME;
+  const budgetIsSingle = profile.budgetPeriod === PremiumPeriod.ONE_TIME;
+  if (isSingle !== budgetIsSingle) {
+    return {
+      criterion: 'budget',
+      label,
+      outcome: 'partial',
+      reason: `Minimum premium ${stated}; the client's budget is ${formatMoney(profile.budget, profile.currency)} ${
+        PERIOD_LABELS[profile.budgetPeriod]
+      }`,
+    };
+  }
+
+  // Recurring premiums are compared a year at a time
+  const toYearly = (amount: number, each: PremiumPeriod) => (each === PremiumPeriod.MONTHLY ? amount * 12 : amount);
+  const minimum = toYearly(amounts[0] * rate, period);
+  const budget = toYearly(profile.budget, profile.budgetPeriod);
+  const converted = currency === profile.currency ? '' : ` (about ${formatMoney(amounts[0] * rate, profile.currency)})`;
+
+  if (minimum <= budget) {
+    return { criterion: 'budget', label, outcome: 'pass', reason: `Minimum premium ${stated}${converted} is within budget` };
+  }
+  return {
+    criterion: 'budget',
+    label,
+    outcome: minimum <= budget * BUDGET_TOLERANCE ? 'partial' : 'fail',
+    reason: `Minimum premium ${stated}${converted} is over budget`,
+  };
+}
+
+function checkCurrency(product: FitProduct, profile: ClientFitProfile): FitCheck {
+  const label = FIT_CRITERION_LABELS.currency;
+  const options = (product.base_currency_options || []).map((currency) => currency.toUpperCase());
+  if (options.length === 0) return { criterion: 'currency', label, outcome: 'unknown', reason: 'Currencies not stated' };
+
+  const offered = options.join(', ');
+  if (options.indexOf(profile.currency) !== -1) {
+    return { criterion: 'currency', label, outcome: 'pass', reason: `Available in ${profile.currency}` };
+  }
+  // Whichever question asks about currency in the set the client answered
+  const wantsMulti = Object.keys(profile.answers).some(
+    (key) => getAnswerValues(profile.answers[key]).indexOf('multi_currency') !== -1
+  );
+  return {
+    criterion: 'currency',
+    label,
+    outcome: wantsMulti && options.length > 1 ? 'partial' : 'fail',
+    reason: `Offered in ${offered}, not ${profile.currency}`,
+  };
+}
+
+// ============================================================================
+// Coverage needs
+// ============================================================================
+
+/**
+ * One check per answer whose option says what it asks of a product (see the
+ * match on each option in src/config/guidedQuestions.ts)
+ */
+function checkNeeds(product: FitProduct, questions: Question[], answers: GuidedParameters): FitCheck[] {
+  return getAnswerMatches(questions, answers).map((match): FitCheck => {
+    const met = matchesAnswerFilter(product, match.filter);
+    return {
+      criterion: 'needs',
+      label: match.need,
+      outcome: met === null ? 'unknown' : met ? 'pass' : 'fail',
+      reason: met === null ? 'Not stated in the product details' : met ? 'Yes' : 'No',
+    };
+  });
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+export interface ClientFitResult<T extends FitProduct = FitProduct> {
+  product: T;
+  // 0-100
+  score: number;
+  // False when the client can't enter the product at their age
+  eligible: boolean;
+  checks: FitCheck[];
+}
+
+function scoreChecks(checks: FitCheck[]): number {
+  let total = 0;
+  let weights = 0;
+  (Object.keys(CRITERION_WEIGHTS) as FitCriterion[]).forEach((criterion) => {
+    const own = checks.filter((check) => check.criterion === criterion);
+    if (own.length === 0) return;
+    const credit = own.reduce((sum, check) => sum + OUTCOME_CREDIT[check.outcome], 0) / own.length;
+    total += CRITERION_WEIGHTS[criterion] * credit;
+    weights += CRITERION_WEIGHTS[criterion];
+  });
+  return weights > 0 ? Math.round((total / weights) * 100) : 0;
+}
+
+/**
+ * questions: the set the answers were given to, so hidden questions and the company's own options are respected
+ */
+export function scoreProduct<T extends FitProduct>(
+  product: T,
+  profile: ClientFitProfile,
+  questions: Question[],
+  rates: Record<string, number | undefined>
+): ClientFitResult<T> {
+  const age = checkAge(product, profile.age);
+  const checks = [age, checkBudget(product, profile, rates), checkCurrency(product, profile)].concat(
+    checkNeeds(product, questions, profile.answers)
+  );
+  return { product, score: scoreChecks(checks), eligible: age.outcome !== 'fail', checks };
+}
+
+/**
+ * Eligible products first, then by score, then by name
+ */
+export function rankProducts<T extends FitProduct>(
+  products: T[],
+  profile: ClientFitProfile,
+  questions: Question[],
+  rates: Record<string, number | undefined>
+): ClientFitResult<T>[] {
+  return products
+    .map((product) => scoreProduct(product, profile, questions, rates))
+    .sort((a, b) => {
+      if (a.eligible !== b.eligible) return a.eligible ? -1 : 1;
+      if (a.score !== b.score) return b.score - a.score;
+      return (a.product.insurance_name || '').localeCompare(b.product.insurance_name || '');
+    });
+}
+
+/**
+ * The currencies minimum premiums are quoted in, so their rates can be fetched
+ */
+export function getPremiumCurrencies(products: FitProduct[]): string[] {
+  const currencies: string[] = [];
+  products.forEach((product) => {
+    const currency = getPremiumCurrency(product, product.minimum_premium || '');
+    if (currency && currencies.indexOf(currency) === -1) currencies.push(currency);
+  });
+  return currencies;
+}
+
+export function getFitScoreColor(score: number): string {
+  if (score >= 75) return 'bg-green-100 text-green-800';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+}
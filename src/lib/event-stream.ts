@@ -0,0 +1,271 @@
+/**
+ * Server-sent event streams
+ *
+ * The AI search and both chats answer with `text/event-stream` so results and
+ * answer tokens show up as they are generated. axios can't hand over a
+ * response while it is still arriving, so these requests use fetch, with the
+ * same access token, refresh-on-401 and ApiError shape as apiClient.
+ *
+ * Our streaming endpoints send JSON in each event's data, with its kind in a
+ * `type` field; streamJsonEvents parses it. A stream that drops mid-way is
+ * reconnected when the server gave its events ids (sent back as
+ * Last-Event-ID), since only then can it carry on without repeating work.
+ */
+
+import { API_BASE_URL, getAuthTokens, handleSessionExpired, refreshAccessToken } from '@/lib/api';
+import type { ApiError } from '@/types/auth';
+
+export interface ServerSentEvent {
+  // 'message' unless the server names the event
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export interface EventStreamOptions {
+  method?: 'GET' | 'POST';
+  params?: Record<string, string | number | boolean | undefined>;
+  // Sent as JSON
+  body?: unknown;
+  // Aborting stops the request; the stream call then rejects with an AbortError
+  signal?: AbortSignal;
+  maxReconnects?: number;
+}
+
+const DEFAULT_MAX_RECONNECTS = 2;
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+
+export function isAbortError(error: unknown): boolean {
+  return !!error && typeof error === 'object' && (error as { name?: string }).name === 'AbortError';
+}
+
+function isApiError(error: unknown): error is ApiError {
+  return !!error && typeof error === 'object' && 'status_code' in error;
+}
+
+/**
+ * Stream a backend endpoint, calling onEvent for each event as it arrives.
+ * Resolves when the server closes the stream.
+ */
+export async function streamEvents(
+  path: string,
+  options: EventStreamOptions,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const maxReconnects = options.maxReconnects === undefined ? DEFAULT_MAX_RECONNECTS : options.maxReconnects;
+  let lastEventId: string | undefined;
+  let receivedEvent = false;
+  let reconnectDelay = DEFAULT_RECONNECT_DELAY_MS;
+  let reconnects = 0;
+
+  for (;;) {
+    try {
+      const response = await openStream(buildUrl(path, options.params), options, lastEventId);
+      await readEvents(response, (event, retry) => {
+        if (retry !== undefined) reconnectDelay = retry;
+        if (!event) return;
+        receivedEvent = true;
+        if (event.id !== undefined) lastEventId = event.id;
+        onEvent(event);
+      });
+      return;
+    } catch (error) {
+      if (isAbortError(error) || isApiError(error)) throw error;
+      if (lastEventId === undefined || reconnects >= maxReconnects) {
+        const apiError: ApiError = {
+          detail: receivedEvent
+            ? 'The connection was lost before the response finished'
+            : 'Could not connect to the server',
+          status_code: 0,
+          error_type: 'stream_interrupted',
+        };
+        throw apiError;
+      }
+      reconnects++;
+      await wait(reconnectDelay, options.signal);
+    }
+  }
+}
+
+/**
+ * streamEvents for endpoints that send a JSON object in each event's data
+ */
+export function streamJsonEvents<T>(
+  path: string,
+  options: EventStreamOptions,
+  onEvent: (event: T) => void
+): Promise<void> {
+  return streamEvents(path, options, (event) => {
+    let data: T;
+    try {
+      data = JSON.parse(event.data) as T;
+    } catch (parseError) {
+      console.error('Error parsing SSE data:', parseError);
+      return;
+    }
+    onEvent(data);
+  });
+}
+
+// ============================================================================
+// Request
+// ============================================================================
+
+function buildUrl(path: string, params: EventStreamOptions['params'] = {}): string {
+  const query = new URLSearchParams();
+  Object.keys(params).forEach((key) => {
+    const value = params[key];
+    if (value !== undefined) query.set(key, String(value));
+  });
+  const queryString = query.toString();
+  return `${API_BASE_URL}${path}${queryString ? `?${queryString}` : ''}`;
+}
+
+function buildInit(options: EventStreamOptions, lastEventId?: string): RequestInit {
+  const headers: Record<string, string> = { Accept: 'text/event-stream' };
+  const token = getAuthTokens()?.access_token;
+  if (token) headers.Authorization = `Bearer ${token}`;
+  if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+  if (lastEventId !== undefined) headers['Last-Event-ID'] = lastEventId;
+
+  return {
+    method: options.method || 'POST',
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    signal: options.signal,
+  };
+}
+
+async function openStream(url: string, options: EventStreamOptions, lastEventId?: string): Promise<Response> {
+  let response = await fetch(url, buildInit(options, lastEventId));
+
+  // Retry once with a fresh access token before treating the 401 as a logout
+  if (response.status === 401 && getAuthTokens()?.refresh_token) {
+    try {
+      await refreshAccessToken();
+      response = await fetch(url, buildInit(options, lastEventId));
+    } catch (refreshError) {
+      if (isAbortError(refreshError)) throw refreshError;
+      console.error('Token refresh failed:', refreshError);
+    }
+  }
+
+  if (response.status === 401) {
+    handleSessionExpired();
+  }
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  if (!response.body) {
+    const apiError: ApiError = { detail: 'Response body is not readable', status_code: response.status };
+    throw apiError;
+  }
+
+  return response;
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  const apiError: ApiError = {
+    detail: 'An unexpected error occurred',
+    status_code: response.status,
+  };
+  try {
+    const body = await response.json();
+    if (body && body.detail) apiError.detail = typeof body.detail === 'string' ? body.detail : JSON.stringify(body.detail);
+    if (body && body.error_type) apiError.error_type = body.error_type;
+  } catch (parseError) {
+    // Not JSON; keep the generic message
+  }
+  return apiError;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    // The signal outlives each wait, so don't leave a listener behind per reconnect
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ============================================================================
+// Framing
+// ============================================================================
+
+// Events end with a blank line; chunks can split an event, or a line, anywhere
+const EVENT_SEPARATOR = /\r\n\r\n|\n\n|\r\r/;
+
+async function readEvents(
+  response: Response,
+  onBlock: (event: ServerSentEvent | null, retry?: number) => void
+): Promise<void> {
+  const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(EVENT_SEPARATOR);
+    buffer = blocks.pop() || '';
+    blocks.forEach((block) => {
+      const parsed = parseEventBlock(block);
+      onBlock(parsed.event, parsed.retry);
+    });
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    const parsed = parseEventBlock(buffer);
+    onBlock(parsed.event, parsed.retry);
+  }
+}
+
+function parseEventBlock(block: string): { event: ServerSentEvent | null; retry?: number } {
+  let eventName = 'message';
+  let id: string | undefined;
+  let retry: number | undefined;
+  const data: string[] = [];
+
+  block.split(/\r\n|\n|\r/).forEach((line) => {
+    // Lines starting with ':' are comments, sent to keep the connection open
+    if (!line || line.charAt(0) === ':') return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.charAt(0) === ' ') value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventName = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+      case 'id':
+        id = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+    }
+  });
+
+  if (data.length === 0) return { event: null, retry };
+  return { event: { event: eventName, data: data.join('\n'), id }, retry };
+}
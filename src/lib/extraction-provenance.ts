@@ -0,0 +1,45 @@
+/**
+ * Extraction provenance
+ *
+ * Where each extracted illustration field came from in the source PDF, and how
+ * sure the extractor was of it. Fields without their own confidence fall back
+ * to the illustration's overall extraction_confidence.
+ */
+
+import type { FieldProvenance } from '@/types/oracle/proposal';
+
+export type FieldProvenanceMap = Record<string, FieldProvenance>;
+
+// Values the extractor was less sure of than this are flagged for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export function getFieldProvenance(
+  provenance: FieldProvenanceMap | null | undefined,
+  field: string
+): FieldProvenance | null {
+  return provenance?.[field] || null;
+}
+
+/**
+ * The field's confidence (0-1), else the illustration's, else null
+ */
+export function getFieldConfidence(
+  provenance: FieldProvenanceMap | null | undefined,
+  field: string,
+  extractionConfidence?: number | null
+): number | null {
+  const confidence = provenance?.[field]?.confidence;
+  if (typeof confidence === 'number') return confidence;
+  return typeof extractionConfidence === 'number' ? extractionConfidence : null;
+}
+
+export function isLowConfidence(confidence: number | null | undefined): boolean {
+  return typeof confidence === 'number' && confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * "Page 3 · Policy Summary"
+ */
+export function formatProvenance(provenance: FieldProvenance): string {
+  return provenance.section ? `Page ${provenance.page} · ${provenance.section}` : `Page ${provenance.page}`;
+}
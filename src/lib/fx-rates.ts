@@ -0,0 +1,64 @@
+/**
+ * FX rates
+ *
+ * Lookup and formatting for the exchange rates a proposal is converted with.
+ * A proposal's numbers always use its rate snapshot (Proposal.fx_rates) when
+ * there is one, so regenerating it later never changes them silently; live
+ * market rates are only used for currencies that haven't been captured yet.
+ */
+
+import { format } from 'date-fns';
+import type { ProposalFxRate } from '@/types/oracle/fx-rate';
+
+// Market rates are cached by the backend; the browser reuses one for this long
+export const FX_RATE_STALE_TIME_MS = 60 * 60 * 1000;
+
+export const MANUAL_FX_SOURCE = 'manual';
+
+export function findProposalFxRate(
+  rates: ProposalFxRate[] | null | undefined,
+  fromCurrency: string,
+  toCurrency: string
+): ProposalFxRate | undefined {
+  return (rates || []).find(
+    (rate) =>
+      rate.from_currency.toUpperCase() === fromCurrency.toUpperCase() &&
+      rate.to_currency.toUpperCase() === toCurrency.toUpperCase()
+  );
+}
+
+export function isFxRateOverridden(rate: Pick<ProposalFxRate, 'source'>): boolean {
+  return rate.source === MANUAL_FX_SOURCE;
+}
+
+/**
+ * "1 USD = 4.7215 MYR" (two decimals for large rates such as USD to IDR)
+ */
+export function formatFxRate(rate: { from_currency: string; to_currency: string; rate: number }): string {
+  const digits = rate.rate >= 100 ? 2 : 4;
+  return `1 ${rate.from_currency} = ${rate.rate.toFixed(digits)} ${rate.to_currency}`;
+}
+
+/**
+ * "Exchange rates as of 12 Oct 2026", using the oldest rate, or null when
+ * there are no rates
+ */
+export function formatRatesAsOf(rates: ProposalFxRate[] | null | undefined): string | null {
+  const dates = (rates || []).map((rate) => rate.as_of).sort();
+  if (dates.length === 0) return null;
+  return `Exchange rates as of ${format(new Date(dates[0]), 'd MMM yyyy')}`;
+}
+
+/**
+ * Why an override can't be saved, or null when it can
+ */
+export function getFxOverrideError(rate: string, reason: string): string | null {
+  const value = Number(rate);
+  if (!rate.trim() || isNaN(value) || value <= 0) {
+    return 'Enter a rate greater than 0';
+  }
+  if (reason.trim().length < 5) {
+    return 'Give a reason for the override (at least 5 characters)';
+  }
+  return null;
+}
@@ -0,0 +1,316 @@
+/**
+ * Guided questions
+ *
+ * Runs the question sets in src/config/guidedQuestions.ts: which questions are
+ * asked given the answers so far (showIf), and what the answers ask of a
+ * product (each option's match). Filters read the extracted product fields,
+ * which are free text, so a filter over fields that are all empty returns null
+ * ("not stated") rather than true or false.
+ *
+ * A company's admins can replace any category's set with their own; categories
+ * they haven't edited use the defaults.
+ */
+
+import {
+  getQuestionsForCategory,
+  type AnswerFilter,
+  type AnswerMatch,
+  type Question,
+} from '@/config/guidedQuestions';
+import { parseFacetNumbers } from '@/lib/product-facets';
+import { answerMatchSchema } from '@/schemas/oracle/guided-question';
+import type { GuidedQuestionSet } from '@/types/oracle/guided-question';
+import type { InsuranceProduct } from '@/types/oracle/insurance-product';
+
+type GuidedAnswers = Record<string, string | string[] | undefined>;
+
+// Suffix of the free-text answer that goes with an "Others" option
+const OTHER_DETAILS_SUFFIX = '_other_details';
+
+// ============================================================================
+// Company sets
+// ============================================================================
+
+/**
+ * The company's version of a category's questions, else the default set
+ */
+export function resolveQuestionSet(categoryId: string, companySets: GuidedQuestionSet[] | undefined): Question[] {
+  const own = (companySets || []).find((set) => set.category_id === categoryId);
+  return own ? own.questions : getQuestionsForCategory(categoryId);
+}
+
+// ============================================================================
+// Branching
+// ============================================================================
+
+export function getAnswerValues(value: string | string[] | undefined): string[] {
+  if (value === undefined || value === '') return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+export function isQuestionVisible(question: Question, answers: GuidedAnswers): boolean {
+  return (question.showIf || []).every((condition) => {
+    const values = getAnswerValues(answers[condition.questionId]);
+    if (condition.in && !condition.in.some((value) => values.indexOf(value) !== -1)) return false;
+    if (condition.notIn && condition.notIn.some((value) => values.indexOf(value) !== -1)) return false;
+    return true;
+  });
+}
+
+/**
+ * The questions asked, given the answers so far. A question hidden by an
+ * earlier answer doesn't count towards later conditions either.
+ */
+export function getVisibleQuestions(questions: Question[], answers: GuidedAnswers): Question[] {
+  const visible: Question[] = [];
+  const effective: GuidedAnswers = {};
+  questions.forEach((question) => {
+    if (!isQuestionVisible(question, effective)) return;
+    visible.push(question);
+    effective[question.id] = answers[question.id];
+  });
+  return visible;
+}
+
+/**
+ * The answers without those to questions that are no longer asked, e.g. after
+ * an earlier answer changed. Keys that aren't questions (category) are kept.
+ */
+export function pruneHiddenAnswers<T extends GuidedAnswers>(questions: Question[], answers: T): T {
+  const visibleIds = getVisibleQuestions(questions, answers).map((question) => question.id);
+  const questionIds = questions.map((question) => question.id);
+  const pruned = {} as T;
+  Object.keys(answers).forEach((key) => {
+    const ownerId =
+      key.slice(-OTHER_DETAILS_SUFFIX.length) === OTHER_DETAILS_SUFFIX ? key.slice(0, -OTHER_DETAILS_SUFFIX.length) : key;
+    if (questionIds.indexOf(ownerId) !== -1 && visibleIds.indexOf(ownerId) === -1) return;
+    (pruned as GuidedAnswers)[key] = answers[key];
+  });
+  return pruned;
+}
+
+// ============================================================================
+// Answer filters
+// ============================================================================
+
+// A value that says the benefit isn't there, as opposed to describing it
+const ABSENT_PATTERN = /^\s*(no|none|nil|n\/?a|not (covered|available|applicable|offered))\b/i;
+
+function getFilledValues(product: Partial<InsuranceProduct>, fields: (keyof InsuranceProduct)[]): string[] {
+  const values: string[] = [];
+  fields.forEach((field) => {
+    const value = product[field];
+    if (typeof value === 'number' && isFinite(value)) values.push(String(value));
+    else if (typeof value === 'string' && value.trim()) values.push(value);
+  });
+  return values;
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A product's category as ProductCategory spells it ("ilp" is investment-linked)
+ */
+export function normalizeProductCategory(category: string | undefined | null): string {
+  const normalized = (category || '').toLowerCase().trim();
+  return normalized === 'ilp' ? 'investment-linked' : normalized;
+}
+
+/**
+ * Whether the product meets the filter, or null when its fields don't say
+ */
+export function matchesAnswerFilter(product: Partial<InsuranceProduct>, filter: AnswerFilter): boolean | null {
+  switch (filter.type) {
+    case 'has_benefit': {
+      const values = getFilledValues(product, filter.fields);
+      if (values.length === 0) return null;
+      return values.some((value) => !ABSENT_PATTERN.test(value));
+    }
+    case 'mentions': {
+      const values = getFilledValues(product, filter.fields);
+      const pattern = compilePattern(filter.pattern);
+      if (values.length === 0 || !pattern) return null;
+      return values.some((value) => pattern.test(value));
+    }
+    case 'range': {
+      const value = product[filter.field];
+      if (getFilledValues(product, [filter.field]).length === 0) return null;
+      // Filled in without a number (e.g. "Unlimited") doesn't fall in any range
+      const numbers = parseFacetNumbers(value, filter.unit);
+      if (numbers.length === 0) return false;
+      const low = Math.min.apply(null, numbers);
+      const high = Math.max.apply(null, numbers);
+      return (filter.min === undefined || high >= filter.min) && (filter.max === undefined || low <= filter.max);
+    }
+    case 'category': {
+      if (!product.category) return null;
+      return (filter.categories as string[]).indexOf(normalizeProductCategory(product.category)) !== -1;
+    }
+    case 'all': {
+      // False if any fails; otherwise unknown if any is unknown
+      let result: boolean | null = true;
+      for (let i = 0; i < filter.filters.length; i++) {
+        const met = matchesAnswerFilter(product, filter.filters[i]);
+        if (met === false) return false;
+        if (met === null) result = null;
+      }
+      return result;
+    }
+    case 'any': {
+      // True if any passes; otherwise unknown if any is unknown
+      let result: boolean | null = false;
+      for (let i = 0; i < filter.filters.length; i++) {
+        const met = matchesAnswerFilter(product, filter.filters[i]);
+        if (met === true) return true;
+        if (met === null) result = null;
+      }
+      return result;
+    }
+    case 'not': {
+      const met = matchesAnswerFilter(product, filter.filter);
+      return met === null ? null : !met;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * What the answers to the questions still asked ask of a product, in question order
+ */
+export function getAnswerMatches(questions: Question[], answers: GuidedAnswers): AnswerMatch[] {
+  const matches: AnswerMatch[] = [];
+  getVisibleQuestions(questions, answers).forEach((question) => {
+    getAnswerValues(answers[question.id]).forEach((value) => {
+      const option = (question.options || []).find((item) => item.value === value);
+      if (option && option.match) matches.push(option.match);
+    });
+  });
+  return matches;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function getFilterError(filter: AnswerFilter): string | null {
+  switch (filter.type) {
+    case 'has_benefit':
+      return filter.fields.length === 0 ? 'needs at least one field' : null;
+    case 'mentions':
+      if (filter.fields.length === 0) return 'needs at least one field';
+      return compilePattern(filter.pattern) ? null : `"${filter.pattern}" is not a valid pattern`;
+    case 'range':
+      if (filter.min === undefined && filter.max === undefined) return 'needs a min or a max';
+      return filter.min !== undefined && filter.max !== undefined && filter.min > filter.max
+        ? 'min is more than max'
+        : null;
+    case 'category':
+      return filter.categories.length === 0 ? 'needs at least one category' : null;
+    case 'all':
+    case 'any':
+      if (filter.filters.length === 0) return 'needs at least one filter';
+      for (let i = 0; i < filter.filters.length; i++) {
+        const error = getFilterError(filter.filters[i]);
+        if (error) return error;
+      }
+      return null;
+    case 'not':
+      return getFilterError(filter.filter);
+    default:
+      return 'has an unknown type';
+  }
+}
+
+/**
+ * An option's product filter as admins type it (JSON in the config's shape); blank for none
+ */
+export function parseAnswerMatch(text: string): { match?: AnswerMatch; error?: string } {
+  if (!text.trim()) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: "isn't valid JSON" };
+  }
+  const result = answerMatchSchema.safeParse(parsed);
+  if (!result.success) {
+    return { error: 'needs a "need" and a "filter" of a known type' };
+  }
+  const match = result.data as AnswerMatch;
+  const filterError = getFilterError(match.filter);
+  return filterError ? { error: filterError } : { match };
+}
+
+export function getQuestionSetError(questions: Question[]): string | null {
+  if (questions.length === 0) {
+    return 'Include at least one question';
+  }
+  const seen: Question[] = [];
+  for (let i = 0; i < questions.length; i++) {
+    const question = questions[i];
+    const position = `Question ${i + 1}`;
+    if (!question.id.trim()) {
+      return `${position} needs an id`;
+    }
+    if (seen.some((earlier) => earlier.id === question.id)) {
+      return `${position} has the same id as an earlier question (${question.id})`;
+    }
+    if (!question.question.trim()) {
+      return `${position} needs its question text`;
+    }
+
+    if (question.type !== 'input') {
+      const options = question.options || [];
+      if (options.length < 2) {
+        return `${position} needs at least two options`;
+      }
+      const values: string[] = [];
+      for (let j = 0; j < options.length; j++) {
+        const option = options[j];
+        if (!option.value.trim() || !option.label.trim()) {
+          return `${position}: every option needs a value and a label`;
+        }
+        if (values.indexOf(option.value) !== -1) {
+          return `${position}: option value "${option.value}" is used twice`;
+        }
+        values.push(option.value);
+        if (option.match) {
+          if (!option.match.need.trim()) {
+            return `${position}: the product filter on "${option.label}" needs a description`;
+          }
+          const filterError = getFilterError(option.match.filter);
+          if (filterError) {
+            return `${position}: the product filter on "${option.label}" ${filterError}`;
+          }
+        }
+      }
+    }
+
+    const conditions = question.showIf || [];
+    for (let j = 0; j < conditions.length; j++) {
+      const condition = conditions[j];
+      const source = seen.find((earlier) => earlier.id === condition.questionId);
+      if (!source || source.type === 'input') {
+        return `${position} can only depend on an earlier multiple-choice question`;
+      }
+      const values = (source.options || []).map((option) => option.value);
+      const listed = (condition.in || []).concat(condition.notIn || []);
+      if (listed.length === 0) {
+        return `${position}: pick the answers to ${condition.questionId} it depends on`;
+      }
+      const unknown = listed.find((value) => values.indexOf(value) === -1);
+      if (unknown !== undefined) {
+        return `${position} depends on "${unknown}", which ${condition.questionId} doesn't offer`;
+      }
+    }
+    seen.push(question);
+  }
+  return null;
+}
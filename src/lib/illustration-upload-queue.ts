@@ -0,0 +1,137 @@
+/**
+ * Illustration upload queue
+ *
+ * Stages of the PDFs in a proposal's upload queue and where the queue is kept
+ * between visits. Once a file is uploaded, its stage follows the illustration's
+ * extraction statuses on the proposal. The queue, files included, is stored in
+ * IndexedDB so the advisor can close the tab mid-upload and pick up where they
+ * left off. The files hold client financial data, so the saved queues are
+ * cleared when the session ends (logout or expiry) and the next person to sign
+ * in on the browser never sees them.
+ */
+
+import type { IllustrationData } from '@/types/oracle/proposal';
+import type { IllustrationUploadProgress } from '@/types/upload';
+
+export const MAX_CONCURRENT_UPLOADS = 2;
+
+export function createUploadItem(file: File): IllustrationUploadProgress {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+    file,
+    progress: 0,
+    status: 'pending',
+  };
+}
+
+export function isUploadActive(item: IllustrationUploadProgress): boolean {
+  return item.status === 'pending' || item.status === 'uploading';
+}
+
+export function isUploadFinished(item: IllustrationUploadProgress): boolean {
+  return item.status === 'completed' || item.status === 'error';
+}
+
+/**
+ * The item with its stage taken from its illustration on the proposal.
+ * Returns the same item when nothing changed.
+ */
+export function syncUploadItem(
+  item: IllustrationUploadProgress,
+  illustrations: IllustrationData[]
+): IllustrationUploadProgress {
+  if (!item.illustrationId) return item;
+
+  const illustration = illustrations.find((candidate) => candidate.id === item.illustrationId);
+  let updates: Partial<IllustrationUploadProgress>;
+  if (!illustration) {
+    // Not loaded yet, unless it has been seen before
+    if (!item.confirmed) return item;
+    updates = {
+      status: 'error',
+      failedStage: 'upload',
+      illustrationId: undefined,
+      confirmed: false,
+      error: 'Removed from the proposal. Retry to upload it again.',
+    };
+  } else if (illustration.extraction_status === 'failed') {
+    updates = {
+      status: 'error',
+      failedStage: 'extraction',
+      error: illustration.processing_notes || 'Extraction failed',
+    };
+  } else if (illustration.extraction_status === 'pending' || illustration.extraction_status === 'processing') {
+    updates = { status: 'extracting', failedStage: undefined, error: undefined };
+  } else if (illustration.cash_extraction_status === 'failed') {
+    updates = { status: 'error', failedStage: 'cash_extraction', error: 'Cash value extraction failed' };
+  } else if (illustration.cash_extraction_status === 'pending' || illustration.cash_extraction_status === 'extracting') {
+    updates = { status: 'processing', failedStage: undefined, error: undefined };
+  } else {
+    updates = { status: 'completed', failedStage: undefined, error: undefined };
+  }
+  if (illustration) updates.confirmed = true;
+
+  const changed = (Object.keys(updates) as Array<keyof IllustrationUploadProgress>).some(
+    (key) => item[key] !== updates[key]
+  );
+  return changed ? { ...item, ...updates } : item;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+const DB_NAME = 'oracle-uploads';
+const STORE_NAME = 'illustration-queues';
+
+function openQueueDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runQueueRequest<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openQueueDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => db.close();
+  });
+}
+
+/**
+ * The proposal's saved queue. Uploads cut off by a reload go back to pending.
+ */
+export async function loadUploadQueue(proposalId: string): Promise<IllustrationUploadProgress[]> {
+  const items = await runQueueRequest<IllustrationUploadProgress[] | undefined>('readonly', (store) =>
+    store.get(proposalId)
+  );
+  return (items || []).map((item) => (item.status === 'uploading' ? { ...item, status: 'pending', progress: 0 } : item));
+}
+
+/**
+ * Save the proposal's queue; an empty queue is removed
+ */
+export async function saveUploadQueue(proposalId: string, items: IllustrationUploadProgress[]): Promise<void> {
+  if (items.length > 0) {
+    await runQueueRequest('readwrite', (store) => store.put(items, proposalId));
+  } else {
+    await runQueueRequest('readwrite', (store) => store.delete(proposalId));
+  }
+}
+
+/**
+ * Remove every proposal's saved queue
+ */
+export async function clearUploadQueues(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  await runQueueRequest('readwrite', (store) => store.clear());
+}
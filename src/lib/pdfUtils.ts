@@ -38,3 +38,21 @@ export function openPdfInNewTab(pdfUrl: string, pageNumber?: number): void {
   const url = getPdfUrl(pdfUrl, pageNumber);
   window.open(url, '_blank', 'noopener,noreferrer');
 }
+
+/**
+ * Saves a downloaded PDF through the browser's download prompt
+ *
+ * @param data - The PDF as returned by the API
+ * @param filename - Suggested file name, including .pdf
+ */
+export function savePdf(data: Blob, filename: string): void {
+  const blob = new Blob([data], { type: 'application/pdf' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,36 @@
+/**
+ * Product categories
+ *
+ * Groups the extracted product categories into the field groups of
+ * src/types/oracle/insurance-product.ts, for the comparison page and the
+ * manual search facets.
+ */
+
+import type { CategoryGroup } from '@/types/oracle/insurance-product';
+
+/**
+ * Map product category to category group
+ */
+export function getCategoryGroup(category: string | undefined | null): CategoryGroup | null {
+  if (!category) return null;
+
+  const normalized = category.toLowerCase().trim();
+
+  if (normalized === 'critical illness') {
+    return 'critical-illness';
+  }
+
+  if (normalized === 'whole life' || normalized === 'term life insurance' || normalized === 'universal life') {
+    return 'life-protection';
+  }
+
+  if (normalized === 'savings plan' || normalized === 'endowment') {
+    return 'savings';
+  }
+
+  if (normalized === 'investment-linked' || normalized === 'ilp') {
+    return 'ilp';
+  }
+
+  return null;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getEntryAgeClause, parseFacetNumbers } from '@/lib/product-facets';
+
+describe('getEntryAgeClause', () => {
+  it('leaves out renewal, expiry and cover ages', () => {
+    expect(getEntryAgeClause('0–65, renewable to age 99')).toBe('0–65');
+    expect(getEntryAgeClause('18 to 60 (expiry age 75)')).toBe('18 to 60');
+    expect(getEntryAgeClause('15 days to 70 years. Coverage up to age 100')).toBe('15 days to 70 years');
+  });
+
+  it('prefers a clause that says it is about entry', () => {
+    expect(getEntryAgeClause('Maximum age 100; entry age 1 to 60')).toBe('entry age 1 to 60');
+  });
+
+  it('keeps a single clause as it is', () => {
+    expect(getEntryAgeClause('Up to age 65')).toBe('Up to age 65');
+    expect(getEntryAgeClause('Renewable to age 80')).toBe('Renewable to age 80');
+  });
+});
+
+describe('parseFacetNumbers', () => {
+  it('reads ages from the entry clause only', () => {
+    expect(parseFacetNumbers('0–65, renewable to age 99', 'age')).toEqual([0, 65]);
+    expect(parseFacetNumbers('Issue age 18-60; maturity at age 85', 'age')).toEqual([18, 60]);
+  });
+
+  it('counts ages under a year as 0', () => {
+    expect(parseFacetNumbers('30 days to 70 years', 'age')).toEqual([0, 70]);
+    expect(parseFacetNumbers('6 months – 65 years', 'age')).toEqual([0, 65]);
+  });
+
+  it('scales amounts and keeps thousands separators', () => {
+    expect(parseFacetNumbers('RM 1,200 a year', 'amount')).toEqual([1200]);
+    expect(parseFacetNumbers('USD 1.5k to 2m', 'amount')).toEqual([1500, 2000000]);
+    expect(parseFacetNumbers('SGD 3 million', 'amount')).toEqual([3000000]);
+  });
+
+  it('converts durations to days and years', () => {
+    expect(parseFacetNumbers('2 weeks', 'days')).toEqual([14]);
+    expect(parseFacetNumbers('730 days', 'years')).toEqual([2]);
+  });
+
+  it('passes numbers through and ignores empty values', () => {
+    expect(parseFacetNumbers(4.5, 'percent')).toEqual([4.5]);
+    expect(parseFacetNumbers(NaN, 'percent')).toEqual([]);
+    expect(parseFacetNumbers('', 'age')).toEqual([]);
+    expect(parseFacetNumbers(undefined, 'age')).toEqual([]);
+    expect(parseFacetNumbers('Not stated', 'amount')).toEqual([]);
+  });
+});
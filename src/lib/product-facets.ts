@@ -0,0 +1,434 @@
+/**
+ * Product facets
+ *
+ * The manual search's facet sidebar: which structured product fields can be
+ * filtered, how their values are read, and the live counts shown next to each
+ * option. Most of the 113 fields are extracted as free text ("Age 30 days to
+ * 70 years", "RM 1,200 per year", "3.25% p.a."), so range facets read the
+ * numbers out of the text; a product whose value can't be read is left out
+ * once its facet is filtered.
+ *
+ * Facets are grouped like the category field groups in
+ * src/types/oracle/insurance-product.ts. Core facets apply to every product;
+ * a group's facets are offered when the loaded products include that group.
+ */
+
+import { getCategoryGroup } from '@/lib/product-categories';
+import type {
+  CategoryGroup,
+  CriticalIllnessFields,
+  ILPFields,
+  InsuranceProduct,
+  LifeProtectionFields,
+  SavingsFields,
+} from '@/types/oracle/insurance-product';
+
+export type FacetGroup = 'core' | CategoryGroup;
+
+// How a range facet's numbers are read and shown
+export type FacetUnit = 'age' | 'days' | 'years' | 'amount' | 'percent' | 'count' | 'multiple';
+
+interface FacetBase<K extends keyof InsuranceProduct = keyof InsuranceProduct> {
+  key: K;
+  label: string;
+  // Shown under the label, e.g. that amounts are in each product's own currency
+  hint?: string;
+}
+
+export interface RangeFacet<K extends keyof InsuranceProduct = keyof InsuranceProduct> extends FacetBase<K> {
+  kind: 'range';
+  unit: FacetUnit;
+}
+
+export interface MultiFacet<K extends keyof InsuranceProduct = keyof InsuranceProduct> extends FacetBase<K> {
+  kind: 'multi';
+}
+
+export type ProductFacet<K extends keyof InsuranceProduct = keyof InsuranceProduct> = RangeFacet<K> | MultiFacet<K>;
+
+export const FACET_GROUP_LABELS: Record<FacetGroup, string> = {
+  core: 'All products',
+  'critical-illness': 'Critical Illness',
+  'life-protection': 'Life Protection',
+  savings: 'Savings',
+  ilp: 'Investment-Linked',
+};
+
+const CORE_FACETS: ProductFacet[] = [
+  { key: 'base_currency_options', label: 'Currency', kind: 'multi' },
+  { key: 'snp_rating', label: 'S&P rating', kind: 'multi' },
+  { key: 'age_of_entry', label: 'Entry age', kind: 'range', unit: 'age' },
+  {
+    key: 'minimum_premium',
+    label: 'Minimum premium',
+    kind: 'range',
+    unit: 'amount',
+    hint: "In each product's own currency",
+  },
+  {
+    key: 'minimum_sum_assured',
+    label: 'Minimum sum assured',
+    kind: 'range',
+    unit: 'amount',
+    hint: "In each product's own currency",
+  },
+  {
+    key: 'maximum_sum_assured',
+    label: 'Maximum sum assured',
+    kind: 'range',
+    unit: 'amount',
+    hint: "In each product's own currency",
+  },
+  { key: 'guaranteed_interest_rate', label: 'Guaranteed interest rate', kind: 'range', unit: 'percent' },
+];
+
+const CRITICAL_ILLNESS_FACETS: ProductFacet<keyof CriticalIllnessFields>[] = [
+  { key: 'ci_total_conditions_covered', label: 'Conditions covered', kind: 'range', unit: 'count' },
+  { key: 'ci_survival_period', label: 'Survival period', kind: 'range', unit: 'days' },
+  { key: 'ci_initial_waiting_period', label: 'Initial waiting period', kind: 'range', unit: 'days' },
+  { key: 'ci_waiting_period_between_claims', label: 'Waiting period between claims', kind: 'range', unit: 'days' },
+];
+
+const LIFE_PROTECTION_FACETS: ProductFacet<keyof LifeProtectionFields>[] = [
+  { key: 'death_benefit_multipliers', label: 'Death benefit multiplier', kind: 'range', unit: 'multiple' },
+];
+
+const SAVINGS_FACETS: ProductFacet<keyof SavingsFields>[] = [
+  { key: 'savings_entry_age_limits', label: 'Entry age', kind: 'range', unit: 'age' },
+  { key: 'savings_guaranteed_breakeven_target', label: 'Guaranteed breakeven', kind: 'range', unit: 'years' },
+];
+
+const ILP_FACETS: ProductFacet<keyof ILPFields>[] = [
+  { key: 'ilp_fund_management_fee', label: 'Fund management fee', kind: 'range', unit: 'percent' },
+  { key: 'ilp_premium_charge', label: 'Premium charge', kind: 'range', unit: 'percent' },
+  {
+    key: 'ilp_minimum_account_balance',
+    label: 'Minimum account balance',
+    kind: 'range',
+    unit: 'amount',
+    hint: "In each product's own currency",
+  },
+];
+
+export interface ProductFacetGroup {
+  group: FacetGroup;
+  facets: ProductFacet[];
+}
+
+export const PRODUCT_FACET_GROUPS: ProductFacetGroup[] = [
+  { group: 'core', facets: CORE_FACETS },
+  { group: 'critical-illness', facets: CRITICAL_ILLNESS_FACETS },
+  { group: 'life-protection', facets: LIFE_PROTECTION_FACETS },
+  { group: 'savings', facets: SAVINGS_FACETS },
+  { group: 'ilp', facets: ILP_FACETS },
+];
+
+// ============================================================================
+// Reading values
+// ============================================================================
+
+export interface NumericRange {
+  min: number;
+  max: number;
+}
+
+type FacetableProduct = Partial<InsuranceProduct>;
+
+const NUMBER_PATTERN =
+  /(\d[\d,]*(?:\.\d+)?)\s*(k|m|mil|million|b|bil|billion|days?|weeks?|months?|years?|yrs?)?(?![a-z])/gi;
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  m: 1e6,
+  mil: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bil: 1e9,
+  billion: 1e9,
+};
+
+// Durations in the unit a facet is shown in
+const DAYS_PER: Record<string, number> = { day: 1, week: 7, month: 30, year: 365, yr: 365 };
+
+function toDays(value: number, suffix: string): number {
+  const singular = suffix.replace(/s$/, '');
+  return value * (DAYS_PER[singular] || 1);
+}
+
+// Clause breaks in an entry age text; commas and points inside numbers aren't breaks
+const CLAUSE_SEPARATOR = /[;\n()]|,(?!\d)|\.(?!\d)/;
+const ENTRY_CLAUSE_PATTERN = /\b(entry|enter|issue|eligib)/i;
+// Clauses about how long cover lasts rather than who can take it out
+const COVER_CLAUSE_PATTERN = /\b(renew|expir|matur|cover|ceas|terminat|until|term\b)/i;
+
+/**
+ * The part of an entry age text that gives the entry ages: "0–65, renewable to
+ * age 99" is 0–65, not 0–99. A clause that says it's about entry wins;
+ * otherwise clauses about renewal, expiry, maturity or cover are left out.
+ */
+export function getEntryAgeClause(text: string): string {
+  const clauses = text
+    .split(CLAUSE_SEPARATOR)
+    .map((clause) => clause.trim())
+    .filter((clause) => /\d/.test(clause));
+  if (clauses.length <= 1) return text;
+
+  const entryClauses = clauses.filter((clause) => ENTRY_CLAUSE_PATTERN.test(clause));
+  if (entryClauses.length > 0) return entryClauses.join('; ');
+  const otherClauses = clauses.filter((clause) => !COVER_CLAUSE_PATTERN.test(clause));
+  return otherClauses.length > 0 ? otherClauses.join('; ') : clauses[0];
+}
+
+/**
+ * The numbers in an extracted value, in the facet's unit. Ages are read from
+ * the entry clause only.
+ */
+export function parseFacetNumbers(value: unknown, unit: FacetUnit): number[] {
+  if (typeof value === 'number') return isFinite(value) ? [value] : [];
+  if (typeof value !== 'string' || !value.trim()) return [];
+
+  const text = unit === 'age' ? getEntryAgeClause(value) : value;
+  const numbers: number[] = [];
+  let match: RegExpExecArray | null;
+  NUMBER_PATTERN.lastIndex = 0;
+  while ((match = NUMBER_PATTERN.exec(text)) !== null) {
+    const number = parseFloat(match[1].replace(/,/g, ''));
+    if (!isFinite(number)) continue;
+    const suffix = (match[2] || '').toLowerCase();
+
+    if (unit === 'amount') {
+      numbers.push(number * (SCALES[suffix] || 1));
+    } else if (unit === 'age') {
+      // "30 days to 70 years": anything younger than a year counts as age 0
+      numbers.push(/^(day|week|month)/.test(suffix) ? 0 : number);
+    } else if (unit === 'days') {
+      numbers.push(toDays(number, suffix));
+    } else if (unit === 'years') {
+      numbers.push(/^(day|week|month)/.test(suffix) ? toDays(number, suffix) / 365 : number);
+    } else {
+      numbers.push(number);
+    }
+  }
+  return numbers;
+}
+
+/**
+ * The lowest and highest number in a product's value, or null when it has none
+ */
+export function getFacetRange(product: FacetableProduct, facet: RangeFacet): NumericRange | null {
+  const numbers = parseFacetNumbers(product[facet.key], facet.unit);
+  if (numbers.length === 0) return null;
+  return { min: Math.min.apply(null, numbers), max: Math.max.apply(null, numbers) };
+}
+
+const RATING_PATTERN = /\b(AAA|AA|A|BBB|BB|B|CCC|CC|C|D)([+-])?(?![A-Za-z])/;
+const RATING_ORDER = ['AAA', 'AA', 'A', 'BBB', 'BB', 'B', 'CCC', 'CC', 'C', 'D'];
+
+/**
+ * The options a product has for a multi-select facet
+ */
+export function getFacetValues(product: FacetableProduct, facet: MultiFacet): string[] {
+  const value = product[facet.key];
+  if (Array.isArray(value)) {
+    return value.map((item) => String(item).trim().toUpperCase()).filter(Boolean);
+  }
+  if (typeof value !== 'string' || !value.trim()) return [];
+  if (facet.key === 'snp_rating') {
+    if (/^(n\/?a|not rated)$/i.test(value.trim())) return [];
+    // "AA- (Very Strong)" and "S&P AA-" are both AA-
+    const rating = value.toUpperCase().match(RATING_PATTERN);
+    return rating ? [rating[0]] : [];
+  }
+  return [value.trim()];
+}
+
+// Strongest first: AA+, AA, AA-, A+ ...
+function getRatingRank(rating: string): number {
+  const modifier = rating.charAt(rating.length - 1);
+  const notch = modifier === '+' ? 0 : modifier === '-' ? 2 : 1;
+  return RATING_ORDER.indexOf(rating.replace(/[+-]$/, '')) * 3 + notch;
+}
+
+function compareFacetValues(facet: MultiFacet, a: string, b: string): number {
+  if (facet.key === 'snp_rating') return getRatingRank(a) - getRatingRank(b);
+  return a.localeCompare(b);
+}
+
+// ============================================================================
+// Filtering and counts
+// ============================================================================
+
+export interface ProductFacetFilters {
+  ranges: Record<string, NumericRange>;
+  values: Record<string, string[]>;
+}
+
+export const EMPTY_FACET_FILTERS: ProductFacetFilters = { ranges: {}, values: {} };
+
+/**
+ * Filtered facets among those offered; filters for facets the current products don't have are ignored
+ */
+export function countActiveFacets(facets: ProductFacet[], filters: ProductFacetFilters): number {
+  return facets.filter((facet) =>
+    facet.kind === 'range' ? !!filters.ranges[facet.key] : (filters.values[facet.key] || []).length > 0
+  ).length;
+}
+
+function matchesFacet(product: FacetableProduct, facet: ProductFacet, filters: ProductFacetFilters): boolean {
+  if (facet.kind === 'range') {
+    const selected = filters.ranges[facet.key];
+    if (!selected) return true;
+    const range = getFacetRange(product, facet);
+    // A product matches when any part of its range is inside the selected one
+    return !!range && range.max >= selected.min && range.min <= selected.max;
+  }
+
+  const selected = filters.values[facet.key];
+  if (!selected || selected.length === 0) return true;
+  const values = getFacetValues(product, facet);
+  return values.some((value) => selected.indexOf(value) !== -1);
+}
+
+function matchesFacets(
+  product: FacetableProduct,
+  facets: ProductFacet[],
+  filters: ProductFacetFilters,
+  except?: ProductFacet
+): boolean {
+  return facets.every((facet) => facet === except || matchesFacet(product, facet, filters));
+}
+
+/**
+ * The facets that apply to a set of products: core facets and those of the
+ * category groups present, keeping only facets at least one product has a value for
+ */
+export function getApplicableFacets(products: FacetableProduct[]): ProductFacetGroup[] {
+  const groups: string[] = [];
+  products.forEach((product) => {
+    const group = getCategoryGroup(product.category);
+    if (group && groups.indexOf(group) === -1) groups.push(group);
+  });
+
+  return PRODUCT_FACET_GROUPS.filter((entry) => entry.group === 'core' || groups.indexOf(entry.group) !== -1)
+    .map((entry) => ({
+      group: entry.group,
+      facets: entry.facets.filter((facet) =>
+        products.some((product) =>
+          facet.kind === 'range' ? !!getFacetRange(product, facet) : getFacetValues(product, facet).length > 0
+        )
+      ),
+    }))
+    .filter((entry) => entry.facets.length > 0);
+}
+
+export function flattenFacetGroups(groups: ProductFacetGroup[]): ProductFacet[] {
+  return groups.reduce<ProductFacet[]>((all, entry) => all.concat(entry.facets), []);
+}
+
+export function filterProductsByFacets<T extends FacetableProduct>(
+  products: T[],
+  facets: ProductFacet[],
+  filters: ProductFacetFilters
+): T[] {
+  return products.filter((product) => matchesFacets(product, facets, filters));
+}
+
+export interface MultiFacetSummary {
+  kind: 'multi';
+  // Products matching every other facet that have the value
+  options: Array<{ value: string; count: number }>;
+}
+
+export interface RangeFacetSummary {
+  kind: 'range';
+  // Over all loaded products, so the slider doesn't move as other facets change
+  bounds: NumericRange;
+  // Products matching every other facet whose value is in the selected range
+  count: number;
+}
+
+export type FacetSummary = MultiFacetSummary | RangeFacetSummary;
+
+/**
+ * Live counts for a facet: each one counts the products that match every other active facet
+ */
+export function summarizeFacet(
+  products: FacetableProduct[],
+  facet: ProductFacet,
+  facets: ProductFacet[],
+  filters: ProductFacetFilters
+): FacetSummary {
+  const others = products.filter((product) => matchesFacets(product, facets, filters, facet));
+
+  if (facet.kind === 'range') {
+    let min = Infinity;
+    let max = -Infinity;
+    products.forEach((product) => {
+      const range = getFacetRange(product, facet);
+      if (!range) return;
+      min = Math.min(min, range.min);
+      max = Math.max(max, range.max);
+    });
+    return {
+      kind: 'range',
+      bounds: { min, max },
+      count: others.filter((product) => {
+        if (!filters.ranges[facet.key]) return !!getFacetRange(product, facet);
+        return matchesFacet(product, facet, filters);
+      }).length,
+    };
+  }
+
+  const counts: Record<string, number> = {};
+  const values: string[] = [];
+  products.forEach((product) => {
+    getFacetValues(product, facet).forEach((value) => {
+      if (counts[value] === undefined) {
+        counts[value] = 0;
+        values.push(value);
+      }
+    });
+  });
+  others.forEach((product) => {
+    // A product listing a currency twice still counts once
+    getFacetValues(product, facet)
+      .filter((value, index, all) => all.indexOf(value) === index)
+      .forEach((value) => {
+        counts[value]++;
+      });
+  });
+
+  return {
+    kind: 'multi',
+    options: values
+      .sort((a, b) => compareFacetValues(facet, a, b))
+      .map((value) => ({ value, count: counts[value] })),
+  };
+}
+
+/**
+ * A slider step that gives roughly a hundred positions across the bounds
+ */
+export function getFacetStep(facet: RangeFacet, bounds: NumericRange): number {
+  if (facet.unit === 'percent' || facet.unit === 'multiple') return 0.1;
+  const span = bounds.max - bounds.min;
+  if (span <= 100) return 1;
+  return Math.pow(10, Math.floor(Math.log(span / 100) / Math.LN10));
+}
+
+export function formatFacetNumber(value: number, unit: FacetUnit): string {
+  switch (unit) {
+    case 'percent':
+      return `${Math.round(value * 100) / 100}%`;
+    case 'multiple':
+      return `${Math.round(value * 10) / 10}×`;
+    case 'days':
+      return `${Math.round(value)} day${Math.round(value) === 1 ? '' : 's'}`;
+    case 'years':
+      return `year ${Math.round(value * 10) / 10}`;
+    case 'amount':
+      return value >= 1e6 ? `${Math.round(value / 1e5) / 10}M` : Math.round(value).toLocaleString();
+    default:
+      return String(Math.round(value * 10) / 10);
+  }
+}
@@ -0,0 +1,302 @@
+import { describe, expect, it } from 'vitest';
+import {
+  COMPARISON_METRICS,
+  DELAY_REFERENCE_AGE,
+  DELAY_YEARS,
+  analyzeIllustration,
+  calculateIrr,
+  getCashValueAt,
+  getSurrenderCashFlows,
+  rankIllustrations,
+} from '@/lib/proposal-analytics';
+import type { ExtractedIllustration } from '@/types/oracle/proposal';
+import type { IllustrationAnalytics } from '@/types/oracle/proposal-analytics';
+
+const OPTIONS = { targetCurrency: 'USD', rates: {} };
+
+// Without a date of birth the issue age is the year before the first cash value age
+function makeIllustration(data: Partial<ExtractedIllustration['comprehensive_data']>): ExtractedIllustration {
+  return { id: 'illustration-1', comprehensive_data: { currency: 'USD', ...data } };
+}
+
+function cashValues(entries: Array<[number, number]>) {
+  return entries.map(([age, value]) => ({ age, value }));
+}
+
+function getIrr(analytics: IllustrationAnalytics, age: number) {
+  const entry = analytics.surrenderIrr.find((candidate) => candidate.age === age);
+  return entry ? entry.irr : undefined;
+}
+
+function makeAnalytics(illustrationId: string, totalPremium: number | null): IllustrationAnalytics {
+  return {
+    illustrationId,
+    name: illustrationId,
+    currency: 'USD',
+    annualPremium: null,
+    totalPremium,
+    deathBenefit: null,
+    deathBenefitMultiple: null,
+    surrenderIrr: [],
+    breakevenYear: null,
+    costOfDelay: null,
+  };
+}
+
+describe('calculateIrr', () => {
+  it('finds the rate of a single payment', () => {
+    expect(calculateIrr([-1000, 0, 1210])).toBeCloseTo(0.1, 8);
+  });
+
+  it('finds the rate of a series of premiums', () => {
+    // 100 * 1.1^2 + 100 * 1.1 = 231
+    expect(calculateIrr([-100, -100, 231])).toBeCloseTo(0.1, 8);
+  });
+
+  it('finds a negative rate when less comes back than was paid', () => {
+    expect(calculateIrr([-100, 90])).toBeCloseTo(-0.1, 8);
+  });
+
+  it('returns null when the cash flows never change sign', () => {
+    expect(calculateIrr([-100, -50])).toBeNull();
+    expect(calculateIrr([100, 50])).toBeNull();
+  });
+
+  it('returns null when the rate is outside the search range', () => {
+    // A 300% return
+    expect(calculateIrr([-100, 400])).toBeNull();
+  });
+});
+
+describe('getSurrenderCashFlows', () => {
+  it('stops premiums at the end of the payment period', () => {
+    expect(getSurrenderCashFlows(100, 2, 60, 64, 500)).toEqual([-100, -100, 0, 0, 500]);
+  });
+
+  it('pays premiums until the surrender year when they are paid throughout', () => {
+    expect(getSurrenderCashFlows(100, null, 60, 63, 400)).toEqual([-100, -100, -100, 400]);
+  });
+});
+
+describe('getCashValueAt', () => {
+  const curve = [
+    { age: 60, value: 1000 },
+    { age: 70, value: 2000 },
+  ];
+
+  it('interpolates between extracted ages', () => {
+    expect(getCashValueAt(curve, 65)).toBe(1500);
+  });
+
+  it('returns null outside the extracted range', () => {
+    expect(getCashValueAt(curve, 59)).toBeNull();
+    expect(getCashValueAt(curve, 71)).toBeNull();
+  });
+});
+
+describe('analyzeIllustration', () => {
+  describe('surrender IRR', () => {
+    it('matches the IRR of the surrender cash flows', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          payment_period: '5 years',
+          cash_surrender_values: cashValues([[55, 0], [60, 6000], [65, 8000], [70, 10000]]),
+        }),
+        0,
+        OPTIONS
+      );
+
+      // Issue age 54: five premiums, surrendered at 60
+      const expected = calculateIrr([-1000, -1000, -1000, -1000, -1000, 0, 6000]);
+      expect(getIrr(analytics, 60)).toBeCloseTo(expected as number, 8);
+      expect(getIrr(analytics, 65)).not.toBeNull();
+      expect(getIrr(analytics, 70)).not.toBeNull();
+    });
+
+    it('is null at the ages past the last cash value', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          payment_period: '5 years',
+          cash_surrender_values: cashValues([[50, 0], [60, 6000], [66, 7000]]),
+        }),
+        0,
+        OPTIONS
+      );
+
+      expect(getIrr(analytics, 60)).not.toBeNull();
+      expect(getIrr(analytics, 65)).not.toBeNull();
+      expect(getIrr(analytics, 70)).toBeNull();
+    });
+
+    it('is null at the ages before the policy starts', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          cash_surrender_values: cashValues([[66, 1000], [70, 5000]]),
+        }),
+        0,
+        OPTIONS
+      );
+
+      expect(getIrr(analytics, 60)).toBeNull();
+      expect(getIrr(analytics, 65)).toBeNull();
+      expect(getIrr(analytics, 70)).not.toBeNull();
+    });
+
+    it('is negative when the cash value is less than the premiums paid', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          payment_period: '5 years',
+          cash_surrender_values: cashValues([[56, 0], [60, 3000], [70, 4000]]),
+        }),
+        0,
+        OPTIONS
+      );
+
+      expect(getIrr(analytics, 60)).toBeLessThan(0);
+    });
+  });
+
+  describe('breakeven year', () => {
+    it('is the first policy year the cash value covers the premiums paid', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          payment_period: '3 years',
+          cash_surrender_values: cashValues([[41, 500], [43, 2500], [45, 3100]]),
+        }),
+        0,
+        OPTIONS
+      );
+
+      // Issue age 40; 3000 paid by 43, covered at 45
+      expect(analytics.breakevenYear).toBe(5);
+    });
+
+    it('is null when the cash value never covers the premiums paid', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          cash_surrender_values: cashValues([[41, 500], [45, 4000], [50, 8000]]),
+        }),
+        0,
+        OPTIONS
+      );
+
+      expect(analytics.breakevenYear).toBeNull();
+    });
+
+    it('prefers the extracted breakeven year', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          breakeven_years: '12',
+          cash_surrender_values: cashValues([[41, 500], [45, 4000]]),
+        }),
+        0,
+        OPTIONS
+      );
+
+      expect(analytics.breakevenYear).toBe(12);
+    });
+  });
+
+  describe('cost of delay', () => {
+    const delayedAge = DELAY_REFERENCE_AGE - DELAY_YEARS;
+
+    it('is the cash value given up at the reference age', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          cash_surrender_values: cashValues([[delayedAge, 4000], [DELAY_REFERENCE_AGE, 9000]]),
+        }),
+        0,
+        OPTIONS
+      );
+
+      expect(analytics.costOfDelay).toBe(5000);
+    });
+
+    it('is null when the cash values start after the delayed age', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          cash_surrender_values: cashValues([[delayedAge + 1, 4000], [DELAY_REFERENCE_AGE, 9000]]),
+        }),
+        0,
+        OPTIONS
+      );
+
+      expect(analytics.costOfDelay).toBeNull();
+    });
+
+    it('is null when the cash values stop before the reference age', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          cash_surrender_values: cashValues([[delayedAge, 4000], [DELAY_REFERENCE_AGE - 1, 8000]]),
+        }),
+        0,
+        OPTIONS
+      );
+
+      expect(analytics.costOfDelay).toBeNull();
+    });
+
+    it('is converted to the target currency', () => {
+      const analytics = analyzeIllustration(
+        makeIllustration({
+          premium_per_year: 1000,
+          cash_surrender_values: cashValues([[delayedAge, 4000], [DELAY_REFERENCE_AGE, 9000]]),
+        }),
+        0,
+        { targetCurrency: 'MYR', rates: { USD: 4 } }
+      );
+
+      expect(analytics.costOfDelay).toBe(20000);
+    });
+  });
+});
+
+describe('rankIllustrations', () => {
+  const totalPremium = COMPARISON_METRICS.find((metric) => metric.key === 'total_premium')!;
+  const illustrations = [
+    makeAnalytics('a', 5000),
+    makeAnalytics('b', 3000),
+    makeAnalytics('c', 5000),
+    makeAnalytics('d', null),
+    makeAnalytics('e', 8000),
+  ];
+
+  it('gives equal values the same rank and skips the ranks they share', () => {
+    const ranking = rankIllustrations(illustrations, totalPremium);
+
+    expect(ranking.entries.map((entry) => [entry.illustrationId, entry.rank])).toEqual([
+      ['b', 1],
+      ['a', 2],
+      ['c', 2],
+      ['e', 4],
+    ]);
+  });
+
+  it('ranks the highest value first when the metric says so', () => {
+    const ranking = rankIllustrations(illustrations, { ...totalPremium, ranksFirst: 'highest' });
+
+    expect(ranking.entries.map((entry) => [entry.illustrationId, entry.rank])).toEqual([
+      ['e', 1],
+      ['a', 2],
+      ['c', 2],
+      ['b', 4],
+    ]);
+  });
+
+  it('leaves out illustrations without a value', () => {
+    const ranking = rankIllustrations(illustrations, totalPremium);
+
+    expect(ranking.metric).toBe('total_premium');
+    expect(ranking.entries.some((entry) => entry.illustrationId === 'd')).toBe(false);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Proposal analytics
+ *
+ * The figures advisors compare illustrations on, derived from the extracted
+ * data: total premium outlay, death benefit multiple, the IRR of surrendering
+ * at 60, 65 and 70, breakeven year and the cost of buying five years later.
+ * Each figure is ranked across the proposal's illustrations. Amounts are
+ * converted to the proposal's target currency; ratios and IRRs are the same in
+ * any currency.
+ *
+ * Timing follows the cash value chart: premiums are paid at the start of each
+ * policy year from the issue age, and the cash value at an age is available at
+ * the end of the policy year the client turns that age.
+ */
+
+import {
+  getCashValueCurve,
+  getIllustrationCurrency,
+  getIllustrationName,
+  getIssueAge,
+  getPaymentYears,
+  parseAmount,
+  readIllustrationField,
+} from '@/lib/cash-value-projection';
+import type { CashValuePoint } from '@/lib/cash-value-projection';
+import type { ExtractedIllustration } from '@/types/oracle/proposal';
+import type {
+  ComparisonMetricKey,
+  ComparisonRanking,
+  IllustrationAnalytics,
+  ProposalComparison,
+} from '@/types/oracle/proposal-analytics';
+
+export const IRR_AGES = [60, 65, 70];
+export const DELAY_YEARS = 5;
+// Cost of delay is measured as the cash value given up at this age
+export const DELAY_REFERENCE_AGE = 65;
+
+export type ComparisonMetricFormat = 'amount' | 'multiple' | 'percent' | 'years';
+
+export interface ComparisonMetric {
+  key: ComparisonMetricKey;
+  label: string;
+  description: string;
+  format: ComparisonMetricFormat;
+  // Which end ranks first. For cost of delay that is the largest cost: the most to lose by waiting.
+  ranksFirst: 'highest' | 'lowest';
+}
+
+export const COMPARISON_METRICS: ComparisonMetric[] = [
+  {
+    key: 'total_premium',
+    label: 'Total premium outlay',
+    description: 'Premiums paid over the payment period',
+    format: 'amount',
+    ranksFirst: 'lowest',
+  },
+  {
+    key: 'death_benefit_multiple',
+    label: 'Death benefit multiple',
+    description: 'Death benefit divided by total premium',
+    format: 'multiple',
+    ranksFirst: 'highest',
+  },
+  ...IRR_AGES.map(
+    (age): ComparisonMetric => ({
+      key: `irr_${age}` as ComparisonMetricKey,
+      label: `Surrender IRR at ${age}`,
+      description: `Annual return on the premiums if the policy is surrendered at age ${age}`,
+      format: 'percent',
+      ranksFirst: 'highest',
+    })
+  ),
+  {
+    key: 'breakeven_year',
+    label: 'Breakeven year',
+    description: 'Policy years until the cash value covers the premiums paid',
+    format: 'years',
+    ranksFirst: 'lowest',
+  },
+  {
+    key: 'cost_of_delay',
+    label: `Cost of waiting ${DELAY_YEARS} years`,
+    description: `Cash value at ${DELAY_REFERENCE_AGE} given up by buying ${DELAY_YEARS} years later on the same terms`,
+    format: 'amount',
+    ranksFirst: 'highest',
+  },
+];
+
+// ============================================================================
+// Calculations
+// ============================================================================
+
+/**
+ * The rate at which the cash flows (one per year, outflows negative) have a
+ * net present value of zero, or null when there is none between -99% and 100%
+ */
+export function calculateIrr(cashFlows: number[]): number | null {
+  const npv = (rate: number) =>
+    cashFlows.reduce((total, cashFlow, year) => total + cashFlow / Math.pow(1 + rate, year), 0);
+
+  let low = -0.99;
+  let high = 1;
+  let npvLow = npv(low);
+  if (npvLow * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < 1e-9 || high - low < 1e-10) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * The cash value at an age, interpolated between the extracted ages, or null
+ * outside the extracted range
+ */
+export function getCashValueAt(curve: CashValuePoint[], age: number): number | null {
+  for (let i = 0; i < curve.length; i++) {
+    const point = curve[i];
+    if (point.age === age) return point.value;
+    if (point.age > age) {
+      if (i === 0) return null;
+      const previous = curve[i - 1];
+      return previous.value + ((point.value - previous.value) * (age - previous.age)) / (point.age - previous.age);
+    }
+  }
+  return null;
+}
+
+/**
+ * Cash flows of paying premiums from the issue age and surrendering at `age`
+ */
+export function getSurrenderCashFlows(
+  annualPremium: number,
+  paymentYears: number | null,
+  issueAge: number,
+  age: number,
+  cashValue: number
+): number[] {
+  const years = age - issueAge;
+  const cashFlows: number[] = [];
+  for (let year = 0; year <= years; year++) {
+    const paying = year < years && (paymentYears === null || year < paymentYears);
+    cashFlows.push((paying ? -annualPremium : 0) + (year === years ? cashValue : 0));
+  }
+  return cashFlows;
+}
+
+export interface ProposalComparisonOptions {
+  clientDob?: string | null;
+  targetCurrency: string;
+  // Rate from each illustration currency to the target currency
+  rates: Record<string, number | undefined>;
+}
+
+export function analyzeIllustration(
+  illustration: ExtractedIllustration,
+  index: number,
+  { clientDob, targetCurrency, rates }: ProposalComparisonOptions
+): IllustrationAnalytics {
+  const curve = getCashValueCurve(illustration);
+  const issueAge = getIssueAge(clientDob, curve.length > 0 ? curve[0].age : 1);
+  const annualPremium = parseAmount(readIllustrationField(illustration, 'premium_per_year'));
+  const paymentYears = getPaymentYears(readIllustrationField(illustration, 'payment_period'), issueAge);
+  const deathBenefit = parseAmount(readIllustrationField(illustration, 'death_benefit'));
+
+  const extractedTotal = parseAmount(readIllustrationField(illustration, 'total_premium'));
+  const totalPremium =
+    extractedTotal !== null
+      ? extractedTotal
+      : annualPremium !== null && paymentYears !== null
+      ? annualPremium * paymentYears
+      : null;
+
+  const surrenderIrr = IRR_AGES.map((age) => {
+    const cashValue = getCashValueAt(curve, age);
+    if (annualPremium === null || annualPremium <= 0 || cashValue === null || age <= issueAge) {
+      return { age, irr: null };
+    }
+    return { age, irr: calculateIrr(getSurrenderCashFlows(annualPremium, paymentYears, issueAge, age, cashValue)) };
+  });
+
+  // The extracted breakeven year when there is one, as on the cash value chart
+  const extractedBreakeven = parseAmount(readIllustrationField(illustration, 'breakeven_years'));
+  let breakevenYear = extractedBreakeven;
+  if (breakevenYear === null && annualPremium !== null && annualPremium > 0) {
+    const breakevenPoint = curve.find((point) => {
+      const yearsPaid = Math.max(point.age - issueAge, 0);
+      const premiumsPaid = annualPremium * (paymentYears === null ? yearsPaid : Math.min(yearsPaid, paymentYears));
+      return premiumsPaid > 0 && point.value >= premiumsPaid;
+    });
+    breakevenYear = breakevenPoint ? breakevenPoint.age - issueAge : null;
+  }
+
+  // Starting later on the same terms leaves the policy DELAY_YEARS younger at the reference age
+  const valueNow = getCashValueAt(curve, DELAY_REFERENCE_AGE);
+  const valueDelayed = getCashValueAt(curve, DELAY_REFERENCE_AGE - DELAY_YEARS);
+  const costOfDelay = valueNow !== null && valueDelayed !== null ? valueNow - valueDelayed : null;
+
+  // Amounts in the target currency; null when there is no rate
+  const currency = getIllustrationCurrency(illustration);
+  const target = targetCurrency.toUpperCase();
+  const rate = currency === target ? 1 : rates[currency];
+  const convert = (amount: number | null) => (amount === null || !rate ? null : amount * rate);
+
+  return {
+    illustrationId: illustration.id,
+    name: getIllustrationName(illustration, index),
+    currency: target,
+    annualPremium: convert(annualPremium),
+    totalPremium: convert(totalPremium),
+    deathBenefit: convert(deathBenefit),
+    deathBenefitMultiple:
+      deathBenefit !== null && totalPremium !== null && totalPremium > 0 ? deathBenefit / totalPremium : null,
+    surrenderIrr,
+    breakevenYear,
+    costOfDelay: convert(costOfDelay),
+  };
+}
+
+export function getMetricValue(analytics: IllustrationAnalytics, metric: ComparisonMetricKey): number | null {
+  switch (metric) {
+    case 'total_premium':
+      return analytics.totalPremium;
+    case 'death_benefit_multiple':
+      return analytics.deathBenefitMultiple;
+    case 'breakeven_year':
+      return analytics.breakevenYear;
+    case 'cost_of_delay':
+      return analytics.costOfDelay;
+    default: {
+      const age = parseInt(metric.replace('irr_', ''), 10);
+      const entry = analytics.surrenderIrr.find((candidate) => candidate.age === age);
+      return entry ? entry.irr : null;
+    }
+  }
+}
+
+/**
+ * Illustrations with a value for the metric, in rank order
+ */
+export function rankIllustrations(illustrations: IllustrationAnalytics[], metric: ComparisonMetric): ComparisonRanking {
+  const sorted = illustrations
+    .map((analytics) => ({ illustrationId: analytics.illustrationId, value: getMetricValue(analytics, metric.key) }))
+    .filter((entry): entry is { illustrationId: string; value: number } => entry.value !== null)
+    .sort((a, b) => (metric.ranksFirst === 'highest' ? b.value - a.value : a.value - b.value));
+
+  const entries = sorted.map((entry, index) => {
+    const firstEqual = sorted.findIndex((candidate) => candidate.value === entry.value);
+    return { ...entry, rank: (firstEqual < 0 ? index : firstEqual) + 1 };
+  });
+  return { metric: metric.key, entries };
+}
+
+export function buildProposalComparison(
+  illustrations: ExtractedIllustration[],
+  options: ProposalComparisonOptions
+): ProposalComparison {
+  const analytics = illustrations.map((illustration, index) => analyzeIllustration(illustration, index, options));
+
+  const target = options.targetCurrency.toUpperCase();
+  const missingRates = illustrations
+    .map(getIllustrationCurrency)
+    .filter((currency) => currency !== target && !options.rates[currency])
+    .filter((currency, index, all) => all.indexOf(currency) === index);
+
+  return {
+    currency: target,
+    illustrations: analytics,
+    rankings: COMPARISON_METRICS.map((metric) => rankIllustrations(analytics, metric)),
+    missingRates,
+  };
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+export function formatMetricValue(format: ComparisonMetricFormat, value: number | null, currency: string): string {
+  if (value === null) return '—';
+  switch (format) {
+    case 'amount':
+      return `${currency} ${Math.round(value).toLocaleString()}`;
+    case 'multiple':
+      return `${value.toFixed(1)}×`;
+    case 'percent':
+      return `${(value * 100).toFixed(2)}%`;
+    default:
+      return `${Math.round(value * 10) / 10} yrs`;
+  }
+}
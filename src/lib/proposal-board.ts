@@ -0,0 +1,84 @@
+/**
+ * Proposal board
+ *
+ * The pipeline board's columns and how proposals are grouped into them. Each
+ * column holds one or more workflow statuses; the backend moves proposals
+ * between them, so the board only lets advisors open or archive a card.
+ */
+
+import { differenceInCalendarDays } from 'date-fns';
+import type { ProposalStatus } from '@/lib/proposal-workflow';
+import type { ProposalListItem } from '@/types/oracle/proposal';
+
+export const OTHER_BOARD_COLUMN_KEY = 'other';
+
+export interface ProposalBoardColumn {
+  key: string;
+  label: string;
+  statuses: ProposalStatus[];
+  // Tailwind classes for the column header's accent
+  accent: string;
+}
+
+export const PROPOSAL_BOARD_COLUMNS: ProposalBoardColumn[] = [
+  { key: 'draft', label: 'Draft', statuses: ['draft'], accent: 'border-gray-400' },
+  { key: 'extracting', label: 'Extracting', statuses: ['extracting'], accent: 'border-blue-500' },
+  // Age analysis runs between review and generation
+  { key: 'reviewing', label: 'Reviewing', statuses: ['reviewing', 'ready_for_age_analysis'], accent: 'border-yellow-500' },
+  { key: 'needs_review', label: 'Needs review', statuses: ['needs_review'], accent: 'border-amber-500' },
+  { key: 'generating', label: 'Generating', statuses: ['generating'], accent: 'border-purple-500' },
+  { key: 'completed', label: 'Completed', statuses: ['completed'], accent: 'border-green-500' },
+  { key: 'signed', label: 'Signed', statuses: ['signed'], accent: 'border-emerald-600' },
+  { key: 'failed', label: 'Failed', statuses: ['failed'], accent: 'border-red-500' },
+  // Statuses this client doesn't know yet; shown only when it has proposals
+  { key: OTHER_BOARD_COLUMN_KEY, label: 'Other', statuses: [], accent: 'border-gray-300' },
+];
+
+/**
+ * The column a proposal belongs in. Statuses this client doesn't know yet go
+ * to Other rather than a stage they may not be in (e.g. an editable Draft).
+ */
+export function getBoardColumnKey(status: string): string {
+  const column = PROPOSAL_BOARD_COLUMNS.find((candidate) =>
+    (candidate.statuses as readonly string[]).includes(status)
+  );
+  return column ? column.key : OTHER_BOARD_COLUMN_KEY;
+}
+
+/**
+ * Proposals by column key, each column oldest first so the ones waiting longest are on top
+ */
+export function groupProposalsByColumn(proposals: ProposalListItem[]): Record<string, ProposalListItem[]> {
+  const groups: Record<string, ProposalListItem[]> = {};
+  PROPOSAL_BOARD_COLUMNS.forEach((column) => {
+    groups[column.key] = [];
+  });
+  proposals.forEach((proposal) => {
+    groups[getBoardColumnKey(proposal.status)].push(proposal);
+  });
+  PROPOSAL_BOARD_COLUMNS.forEach((column) => {
+    groups[column.key].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  });
+  return groups;
+}
+
+/**
+ * Days since the proposal was created
+ */
+export function getProposalAgeDays(proposal: ProposalListItem, now: Date = new Date()): number {
+  return Math.max(differenceInCalendarDays(now, new Date(proposal.created_at)), 0);
+}
+
+export function formatProposalAge(days: number): string {
+  if (days === 0) return 'Today';
+  if (days === 1) return '1 day';
+  return `${days} days`;
+}
+
+// Open proposals older than this are flagged on the board
+export const STALE_PROPOSAL_DAYS = 14;
+
+export function isStaleProposal(proposal: ProposalListItem, now: Date = new Date()): boolean {
+  const closed = proposal.status === 'completed' || proposal.status === 'signed';
+  return !closed && getProposalAgeDays(proposal, now) > STALE_PROPOSAL_DAYS;
+}
@@ -0,0 +1,88 @@
+/**
+ * Proposal content
+ *
+ * The AI-written sections of a proposal (page 1 overview, page 2 product
+ * features, page 4 recommendation): mapping the generation responses to what
+ * the editor holds, plain-text versions for comparing a regenerated draft with
+ * the current text, and the tone presets offered when regenerating.
+ */
+
+import type { ProposalContentTone } from '@/types/oracle/proposal';
+
+export const TONE_PRESETS: Array<{ value: ProposalContentTone; label: string }> = [
+  { value: 'concise', label: 'Concise' },
+  { value: 'warm', label: 'Warm' },
+  { value: 'formal', label: 'Formal' },
+  { value: 'persuasive', label: 'Persuasive' },
+];
+
+// ============================================================================
+// Generation responses
+// ============================================================================
+
+/**
+ * Page 2 key features by matched insurance id
+ */
+export function toPage2Content(data: Record<string, any>): Record<string, { keyFeatures: any }> {
+  const content: Record<string, { keyFeatures: any }> = {};
+  const features = data.insurance_key_features || {};
+  Object.keys(features).forEach((insuranceId) => {
+    content[insuranceId] = { keyFeatures: features[insuranceId] };
+  });
+  return content;
+}
+
+export function toPage4Content(data: Record<string, any>): Record<string, any> {
+  const page4 = data.page4_content || {};
+  return {
+    recommendedInsuranceName: page4.recommended_insurance_name,
+    provider: page4.provider,
+    keyFeatures: page4.key_features || [],
+    recommendation: page4.rationale || '',
+    advantages: page4.benefits || [],
+  };
+}
+
+// ============================================================================
+// Plain text, for comparing versions
+// ============================================================================
+
+function listText(items: any[] | string | null | undefined, key: string): string {
+  if (!items) return '';
+  if (typeof items === 'string') return items;
+  return items.map((item) => `• ${typeof item === 'string' ? item : item?.[key] || ''}`).join('\n');
+}
+
+/**
+ * Page 1 as text. `insuranceNames` labels the key points by matched insurance id.
+ */
+export function describePage1Content(content: Record<string, any>, insuranceNames: Record<string, string>): string {
+  const keyPoints = content.insurance_key_points || {};
+  return [
+    content.proposal_title || '',
+    content.client_needs_summary || '',
+    ...Object.keys(keyPoints).map((insuranceId) => `${insuranceNames[insuranceId] || insuranceId}:\n${keyPoints[insuranceId]}`),
+  ]
+    .filter((part) => !!part)
+    .join('\n\n');
+}
+
+export function describePage2Content(
+  content: Record<string, { keyFeatures: any }>,
+  insuranceNames: Record<string, string>
+): string {
+  return Object.keys(content)
+    .map((insuranceId) => `${insuranceNames[insuranceId] || insuranceId}:\n${listText(content[insuranceId]?.keyFeatures, 'feature')}`)
+    .join('\n\n');
+}
+
+export function describePage4Content(content: Record<string, any>): string {
+  return [
+    [content.recommendedInsuranceName, content.provider].filter((part) => !!part).join(' by '),
+    listText(content.keyFeatures, 'feature'),
+    content.recommendation || '',
+    listText(content.advantages, 'benefit'),
+  ]
+    .filter((part) => !!part)
+    .join('\n\n');
+}
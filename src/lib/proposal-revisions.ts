@@ -0,0 +1,210 @@
+/**
+ * Proposal revisions
+ *
+ * Labels for revision triggers and a field-level diff between two revision
+ * snapshots, used by the revision timeline on the proposal page.
+ */
+
+import type {
+  ExtractedIllustration,
+  ProposalRevisionSnapshot,
+  ProposalRevisionTrigger,
+} from '@/types/oracle/proposal';
+
+export const REVISION_TRIGGER_LABELS: Record<ProposalRevisionTrigger, string> = {
+  draft_saved: 'Draft saved',
+  illustration_edited: 'Illustration edited',
+  page1_generated: 'Page 1 content generated',
+  page2_generated: 'Page 2 content generated',
+  page4_generated: 'Recommendation generated',
+  proposal_generated: 'Proposal generated',
+  restored: 'Revision restored',
+};
+
+/**
+ * Whether the revision marks a proposal that was generated for the client
+ */
+export function isClientFacingRevision(trigger: string): boolean {
+  return trigger === 'proposal_generated';
+}
+
+export function getRevisionTriggerLabel(trigger: string): string {
+  return REVISION_TRIGGER_LABELS[trigger as ProposalRevisionTrigger] || trigger;
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+export interface RevisionFieldChange {
+  field: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface RevisionDiffSection {
+  title: string;
+  changes: RevisionFieldChange[];
+}
+
+const PROPOSAL_FIELD_LABELS: Record<string, string> = {
+  client_name: 'Client name',
+  client_dob: 'Client date of birth',
+  client_needs: 'Client needs',
+  status: 'Status',
+  highlighted_insurance_name: 'Recommended insurance',
+};
+
+const GENERATED_PAGE_TITLES: Record<string, string> = {
+  page1: 'Page 1 content',
+  page2: 'Page 2 content',
+  page4: 'Recommendation (page 4)',
+};
+
+/**
+ * Turn a field path like "cash_surrender_values.0.age" into "Cash surrender values › #1 › Age"
+ */
+export function humanizeFieldPath(path: string): string {
+  return path
+    .split('.')
+    .map((segment) => {
+      if (/^\d+$/.test(segment)) return `#${Number(segment) + 1}`;
+      const words = segment.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').toLowerCase();
+      return words.charAt(0).toUpperCase() + words.slice(1);
+    })
+    .join(' › ');
+}
+
+/**
+ * Flatten nested data to dot-separated paths with printable values.
+ * Lists of plain values are kept together as one line each.
+ */
+function flattenFields(value: unknown, prefix = '', fields: Record<string, string> = {}): Record<string, string> {
+  if (value === null || value === undefined || value === '') {
+    return fields;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.every((item) => typeof item !== 'object' || item === null)) {
+      if (value.length > 0 && prefix) fields[prefix] = value.join('\n');
+      return fields;
+    }
+    value.forEach((item, index) => flattenFields(item, prefix ? `${prefix}.${index}` : String(index), fields));
+    return fields;
+  }
+
+  if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, nested]) => {
+      flattenFields(nested, prefix ? `${prefix}.${key}` : key, fields);
+    });
+    return fields;
+  }
+
+  if (prefix) fields[prefix] = String(value);
+  return fields;
+}
+
+function diffFields(
+  before: Record<string, string>,
+  after: Record<string, string>,
+  labelFor: (field: string) => string = humanizeFieldPath
+): RevisionFieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  return fields
+    .filter((field) => before[field] !== after[field])
+    .map((field) => ({
+      field,
+      label: labelFor(field),
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    }));
+}
+
+/**
+ * The values the editor shows for an illustration: user edits take priority over extracted data
+ */
+function getEffectiveIllustrationFields(illustration: ExtractedIllustration): Record<string, string> {
+  return flattenFields({
+    ...(illustration.comprehensive_data || {}),
+    ...(illustration.user_edited_data || {}),
+  });
+}
+
+function getIllustrationTitle(illustration: ExtractedIllustration): string {
+  return (
+    illustration.final_insurance_name ||
+    illustration.user_edited_data?.insurance_name ||
+    illustration.comprehensive_data?.insurance_name ||
+    illustration.original_filename ||
+    'Illustration'
+  );
+}
+
+/**
+ * Every field that differs between two snapshots, grouped by proposal, illustration and generated page.
+ * Sections without changes are left out.
+ */
+export function diffRevisionSnapshots(
+  before: ProposalRevisionSnapshot,
+  after: ProposalRevisionSnapshot
+): RevisionDiffSection[] {
+  const sections: RevisionDiffSection[] = [];
+
+  sections.push({
+    title: 'Proposal details',
+    changes: diffFields(
+      flattenFields(before.proposal),
+      flattenFields(after.proposal),
+      (field) => PROPOSAL_FIELD_LABELS[field] || humanizeFieldPath(field)
+    ).filter((change) => change.field in PROPOSAL_FIELD_LABELS),
+  });
+
+  const beforeIllustrations = new Map(before.illustrations.map((illustration) => [illustration.id, illustration]));
+  const afterIllustrations = new Map(after.illustrations.map((illustration) => [illustration.id, illustration]));
+  const illustrationIds = Array.from(
+    new Set([...before.illustrations, ...after.illustrations].map((illustration) => illustration.id))
+  );
+
+  illustrationIds.forEach((illustrationId) => {
+    const beforeIllustration = beforeIllustrations.get(illustrationId);
+    const afterIllustration = afterIllustrations.get(illustrationId);
+    const title = getIllustrationTitle((afterIllustration || beforeIllustration) as ExtractedIllustration);
+
+    if (!beforeIllustration || !afterIllustration) {
+      sections.push({
+        title,
+        changes: [
+          {
+            field: 'illustration',
+            label: 'Illustration',
+            before: beforeIllustration ? 'Included' : null,
+            after: afterIllustration ? 'Included' : null,
+          },
+        ],
+      });
+      return;
+    }
+
+    sections.push({
+      title,
+      changes: diffFields(
+        getEffectiveIllustrationFields(beforeIllustration),
+        getEffectiveIllustrationFields(afterIllustration)
+      ),
+    });
+  });
+
+  Object.entries(GENERATED_PAGE_TITLES).forEach(([page, title]) => {
+    const key = page as keyof ProposalRevisionSnapshot['generated_content'];
+    sections.push({
+      title,
+      changes: diffFields(
+        flattenFields(before.generated_content[key]),
+        flattenFields(after.generated_content[key])
+      ),
+    });
+  });
+
+  return sections.filter((section) => section.changes.length > 0);
+}
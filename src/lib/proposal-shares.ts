@@ -0,0 +1,101 @@
+/**
+ * Proposal shares
+ *
+ * Link options, PIN rules and reading-time bookkeeping for client share
+ * links. The client viewer counts reading time per page with these helpers;
+ * the advisor's share dialog summarises the resulting view log.
+ */
+
+import type { ProposalShareLink, ProposalSharePageTime, ProposalShareView } from '@/types/oracle/proposal-share';
+
+export const SHARE_EXPIRY_OPTIONS = [
+  { days: 3, label: '3 days' },
+  { days: 7, label: '1 week' },
+  { days: 14, label: '2 weeks' },
+  { days: 30, label: '30 days' },
+];
+
+export const DEFAULT_SHARE_EXPIRY_DAYS = 7;
+
+// Reading time is sent this often while the client has the proposal open
+export const ACTIVITY_REPORT_INTERVAL_MS = 15 * 1000;
+// Time stops counting when the client hasn't scrolled, clicked or typed for this long
+export const READING_IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/shared/proposals/${token}`;
+}
+
+/**
+ * Why a PIN can't be used, or null when it can. An empty PIN means no PIN.
+ */
+export function getPinError(pin: string): string | null {
+  if (pin && !/^\d{4,6}$/.test(pin)) {
+    return 'PIN must be 4 to 6 digits';
+  }
+  return null;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export function getShareLinkStatus(link: ProposalShareLink, now: Date = new Date()): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (new Date(link.expires_at) <= now) return 'expired';
+  return 'active';
+}
+
+/**
+ * "45s", "3m 20s" or "1h 5m"
+ */
+export function formatReadingTime(seconds: number): string {
+  const total = Math.round(seconds);
+  if (total < 60) return `${total}s`;
+
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${total % 60}s`;
+}
+
+// ============================================================================
+// Reading time
+// ============================================================================
+
+// Seconds read per page number
+export type PageTimeTotals = Record<number, number>;
+
+export function addPageTime(totals: PageTimeTotals, pageNumber: number, seconds: number): PageTimeTotals {
+  return { ...totals, [pageNumber]: (totals[pageNumber] || 0) + seconds };
+}
+
+/**
+ * The totals as page times to report, leaving out pages with no time
+ */
+export function toPageTimes(totals: PageTimeTotals): ProposalSharePageTime[] {
+  return Object.keys(totals)
+    .map((pageNumber) => ({ page_number: Number(pageNumber), seconds: Math.round(totals[Number(pageNumber)]) }))
+    .filter((pageTime) => pageTime.seconds > 0)
+    .sort((a, b) => a.page_number - b.page_number);
+}
+
+export interface ShareViewSummary {
+  viewCount: number;
+  totalSeconds: number;
+  // Reading time per page across every view
+  pages: ProposalSharePageTime[];
+}
+
+export function summarizeShareViews(views: ProposalShareView[]): ShareViewSummary {
+  let totals: PageTimeTotals = {};
+  views.forEach((view) => {
+    view.pages.forEach((page) => {
+      totals = addPageTime(totals, page.page_number, page.seconds);
+    });
+  });
+
+  return {
+    viewCount: views.length,
+    totalSeconds: views.reduce((sum, view) => sum + view.duration_seconds, 0),
+    pages: toPageTimes(totals),
+  };
+}
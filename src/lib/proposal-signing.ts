@@ -0,0 +1,46 @@
+/**
+ * Proposal signing
+ *
+ * The statements a client acknowledges when signing a completed proposal,
+ * and the checks run before a signature is sent. The wording shown is stored
+ * with the signature, so later template edits don't change what was agreed.
+ */
+
+import type { ProposalAcknowledgement, ProposalSignatureCreate } from '@/types/oracle/proposal';
+import type { ProposalTemplate } from '@/types/oracle/proposal-template';
+
+export const READ_AND_UNDERSTOOD: ProposalAcknowledgement = {
+  title: 'Proposal',
+  text: 'I have read this proposal in full and understood the recommendation, the benefits illustrated and the premiums payable.',
+};
+
+/**
+ * What the client must tick before signing: the proposal itself, then each
+ * of the template's disclaimers
+ */
+export function getSigningAcknowledgements(template: ProposalTemplate | null): ProposalAcknowledgement[] {
+  const disclaimers = (template?.disclaimers || []).map((disclaimer) => ({
+    title: disclaimer.title,
+    text: `I have read and accept: ${disclaimer.body}`,
+  }));
+  return [READ_AND_UNDERSTOOD, ...disclaimers];
+}
+
+/**
+ * Why a signature can't be sent yet, or null when it can
+ */
+export function getSignatureError(
+  data: ProposalSignatureCreate,
+  acknowledgements: ProposalAcknowledgement[]
+): string | null {
+  if (!data.signer_name.trim()) {
+    return "Enter the client's full name";
+  }
+  if (!data.signature.trim()) {
+    return data.method === 'drawn' ? 'Draw the signature' : 'Type the signature';
+  }
+  if (data.acknowledgements.length < acknowledgements.length) {
+    return 'Tick every statement before signing';
+  }
+  return null;
+}
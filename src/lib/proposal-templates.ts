@@ -0,0 +1,277 @@
+/**
+ * Proposal templates
+ *
+ * Section catalogue, defaults and rendering helpers for company proposal
+ * templates. The preview page uses these to order the generated pages, add the
+ * template's cover and disclaimer pages and apply its palette and typography;
+ * the admin editor uses them for defaults and validation.
+ */
+
+import { DEFAULT_PROPOSAL_LOCALE, localize, translate } from '@/lib/proposal-i18n';
+import type { ProposalLocale } from '@/lib/proposal-i18n';
+import type { BrandColors } from '@/types/auth';
+import type { ProposalLanguage } from '@/types/oracle/proposal';
+import type {
+  ProposalSectionKey,
+  ProposalTemplate,
+  ProposalTemplateCreate,
+  ProposalTemplatePalette,
+  ProposalTemplateTypography,
+} from '@/types/oracle/proposal-template';
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+export interface ProposalSectionDefinition {
+  key: ProposalSectionKey;
+  label: string;
+  description: string;
+  // The backend page that renders this section (/proposals/{id}/page/{n})
+  pageNumber: number;
+}
+
+export const PROPOSAL_SECTIONS: ProposalSectionDefinition[] = [
+  { key: 'title', label: 'Title', description: 'Client summary and proposal overview', pageNumber: 1 },
+  { key: 'features', label: 'Features', description: 'Side-by-side product features', pageNumber: 2 },
+  { key: 'illustration', label: 'Illustration', description: 'Cash surrender values by age', pageNumber: 3 },
+  { key: 'recommendation', label: 'Recommendation', description: 'The recommended product and why', pageNumber: 4 },
+  { key: 'comparison', label: 'Comparison', description: 'Premium, benefit and return figures ranked', pageNumber: 5 },
+];
+
+export function getProposalSection(key: ProposalSectionKey): ProposalSectionDefinition {
+  return PROPOSAL_SECTIONS.find((section) => section.key === key) as ProposalSectionDefinition;
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const DEFAULT_PALETTE: ProposalTemplatePalette = {
+  primary: '#1e3a8a',
+  secondary: '#3b82f6',
+  accent: '#f59e0b',
+  text: '#111827',
+  background: '#ffffff',
+};
+
+export const DEFAULT_TYPOGRAPHY: ProposalTemplateTypography = {
+  heading_font: 'Inter',
+  body_font: 'Inter',
+  base_font_size: 11,
+};
+
+// Fonts the backend PDF renderer has installed
+export const TEMPLATE_FONTS = ['Inter', 'Roboto', 'Open Sans', 'Lato', 'Merriweather', 'Playfair Display', 'Georgia'];
+
+export const MIN_BASE_FONT_SIZE = 8;
+export const MAX_BASE_FONT_SIZE = 16;
+
+/**
+ * A new template with every section, seeded from the company's brand colours
+ */
+export function createBlankTemplate(brandColors?: BrandColors | null): ProposalTemplateCreate {
+  return {
+    name: '',
+    description: '',
+    audience: '',
+    sections: PROPOSAL_SECTIONS.map((section) => section.key),
+    cover: null,
+    disclaimers: [],
+    palette: {
+      ...DEFAULT_PALETTE,
+      primary: brandColors?.primary || DEFAULT_PALETTE.primary,
+      secondary: brandColors?.secondary || DEFAULT_PALETTE.secondary,
+      accent: brandColors?.accent || DEFAULT_PALETTE.accent,
+    },
+    typography: { ...DEFAULT_TYPOGRAPHY },
+    is_default: false,
+  };
+}
+
+/**
+ * The template preselected for new proposals: the company default, else the first one
+ */
+export function getDefaultTemplate(templates: ProposalTemplate[]): ProposalTemplate | null {
+  return templates.find((template) => template.is_default) || templates[0] || null;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export function isHexColor(value: string): boolean {
+  return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+}
+
+/**
+ * Why a template can't be saved, or null when it can
+ */
+export function getTemplateValidationError(template: ProposalTemplateCreate): string | null {
+  if (!template.name.trim()) {
+    return 'Template name is required';
+  }
+  if (template.sections.length === 0) {
+    return 'Include at least one section';
+  }
+  if (template.cover && !template.cover.title.trim()) {
+    return 'Cover title is required when the cover page is enabled';
+  }
+  if (template.disclaimers.some((disclaimer) => !disclaimer.title.trim() || !disclaimer.body.trim())) {
+    return 'Every disclaimer needs a title and text';
+  }
+  const invalidColor = Object.entries(template.palette).find(([, color]) => !isHexColor(color));
+  if (invalidColor) {
+    return `${invalidColor[0]} colour must be a hex value like #1e3a8a`;
+  }
+  const { base_font_size } = template.typography;
+  if (base_font_size < MIN_BASE_FONT_SIZE || base_font_size > MAX_BASE_FONT_SIZE) {
+    return `Base font size must be between ${MIN_BASE_FONT_SIZE} and ${MAX_BASE_FONT_SIZE}pt`;
+  }
+  return null;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function fontStack(font: string): string {
+  return `'${font.replace(/'/g, '')}', system-ui, sans-serif`;
+}
+
+export interface CoverPageDetails {
+  clientName: string;
+  companyName?: string | null;
+  logoUrl?: string | null;
+}
+
+/**
+ * The template's cover page. {client_name} in the title or subtitle is replaced with the client's name.
+ */
+export function renderCoverPage(template: ProposalTemplate, details: CoverPageDetails): string {
+  if (!template.cover) return '';
+
+  const fill = (text: string) => escapeHtml(text.replace(/\{client_name\}/g, details.clientName));
+  const { palette, typography } = template;
+
+  return `
+    <div style="min-height: 210mm; display: flex; flex-direction: column; justify-content: center; padding: 24mm; background: ${palette.primary}; color: ${palette.background}; font-family: ${fontStack(typography.body_font)};">
+      ${details.logoUrl ? `<img src="${escapeHtml(details.logoUrl)}" alt="" style="max-height: 64px; max-width: 240px; margin-bottom: 32px;" />` : ''}
+      <h1 style="font-family: ${fontStack(typography.heading_font)}; font-size: 36pt; margin: 0 0 12px;">${fill(template.cover.title)}</h1>
+      ${template.cover.subtitle ? `<p style="font-size: 16pt; margin: 0; color: ${palette.accent};">${fill(template.cover.subtitle)}</p>` : ''}
+      ${details.companyName ? `<p style="margin-top: auto; font-size: ${typography.base_font_size}pt;">${escapeHtml(details.companyName)}</p>` : ''}
+    </div>
+  `;
+}
+
+/**
+ * One page with all of the template's disclaimer blocks, or an empty string when it has none
+ */
+export function renderDisclaimerPage(template: ProposalTemplate): string {
+  if (template.disclaimers.length === 0) return '';
+
+  const { palette, typography } = template;
+  const blocks = template.disclaimers
+    .map(
+      (disclaimer) => `
+        <section style="margin-bottom: 16px;">
+          <h2 style="font-family: ${fontStack(typography.heading_font)}; color: ${palette.primary}; font-size: ${typography.base_font_size + 3}pt; margin: 0 0 6px;">${escapeHtml(disclaimer.title)}</h2>
+          <p style="margin: 0; white-space: pre-line;">${escapeHtml(disclaimer.body)}</p>
+        </section>
+      `
+    )
+    .join('');
+
+  return `
+    <div style="min-height: 210mm; padding: 20mm; background: ${palette.background}; color: ${palette.text}; font-family: ${fontStack(typography.body_font)}; font-size: ${typography.base_font_size}pt;">
+      ${blocks}
+    </div>
+  `;
+}
+
+export interface RenderedProposalPage {
+  title: string;
+  content: string;
+  // The backend page this was loaded from; unset for the template's cover and disclaimer pages
+  pageNumber?: number;
+}
+
+/**
+ * The backend pages to load, in order: the template's sections, or all of them for the standard layout
+ */
+export function getTemplatePageNumbers(template: ProposalTemplate | null): number[] {
+  const sections = template
+    ? template.sections.map(getProposalSection).filter((section) => !!section)
+    : PROPOSAL_SECTIONS;
+  return sections.map((section) => section.pageNumber);
+}
+
+/**
+ * e.g. "Page 1 - Title", in the proposal's language(s) when a locale is given
+ */
+export function getProposalPageTitle(pageNumber: number, locale: ProposalLocale = DEFAULT_PROPOSAL_LOCALE): string {
+  const section = PROPOSAL_SECTIONS.find((definition) => definition.pageNumber === pageNumber);
+  const title = (language: ProposalLanguage) =>
+    section
+      ? translate(language, 'page_title', { page: pageNumber, section: translate(language, `section_${section.key}`) })
+      : translate(language, 'page', { page: pageNumber });
+  return locale.secondaryLanguage && locale.secondaryLanguage !== locale.language
+    ? `${title(locale.language)} / ${title(locale.secondaryLanguage)}`
+    : title(locale.language);
+}
+
+/**
+ * Add the template's cover page before the loaded pages and its disclaimer page after them
+ */
+export function withTemplatePages(
+  pages: RenderedProposalPage[],
+  template: ProposalTemplate | null,
+  details: CoverPageDetails,
+  locale: ProposalLocale = DEFAULT_PROPOSAL_LOCALE
+): RenderedProposalPage[] {
+  if (!template) return pages;
+
+  const result = [...pages];
+  if (template.cover) {
+    result.unshift({ title: localize(locale, 'cover'), content: renderCoverPage(template, details) });
+  }
+  if (template.disclaimers.length > 0) {
+    result.push({ title: localize(locale, 'disclaimers'), content: renderDisclaimerPage(template) });
+  }
+  return result;
+}
+
+/**
+ * Stylesheet applying the template's palette and typography to the generated pages under a selector
+ */
+export function getTemplateStylesheet(template: ProposalTemplate, selector: string): string {
+  const { palette, typography } = template;
+  return `
+    ${selector} {
+      font-family: ${fontStack(typography.body_font)};
+      font-size: ${typography.base_font_size}pt;
+      color: ${palette.text};
+      background: ${palette.background};
+    }
+    ${selector} h1, ${selector} h2, ${selector} h3, ${selector} h4 {
+      font-family: ${fontStack(typography.heading_font)};
+      color: ${palette.primary};
+    }
+    ${selector} th {
+      background: ${palette.secondary};
+      color: ${palette.background};
+    }
+    ${selector} a {
+      color: ${palette.accent};
+    }
+  `;
+}
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_ILLUSTRATIONS,
+  MAX_POLL_FAILURES,
+  PROPOSAL_STATUSES,
+  PROPOSAL_TRANSITIONS,
+  canSignProposal,
+  canTransition,
+  canUploadIllustrations,
+  getGenerationError,
+  getUploadError,
+  initialProposalWorkflowState,
+  isAgeAnalysisPending,
+  isProcessing,
+  proposalWorkflowReducer,
+  shouldPoll,
+  type ProposalWorkflowState,
+} from '@/lib/proposal-workflow';
+import type { ExtractedIllustration, IllustrationData, Proposal } from '@/types/oracle/proposal';
+
+function makeProposal(overrides: Partial<Proposal> = {}): Proposal {
+  return {
+    proposal_id: 'proposal-1',
+    client_name: 'Client',
+    client_needs: '',
+    needs_source: 'manual',
+    proposal_type: 'comparison',
+    status: 'draft',
+    illustrations: [],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeIllustrationData(overrides: Partial<IllustrationData> = {}): IllustrationData {
+  return {
+    id: 'illustration-1',
+    original_filename: 'illustration.pdf',
+    illustration_order: 1,
+    extraction_status: 'completed',
+    is_duplicate_insurance: false,
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const MAPPED_ILLUSTRATION: ExtractedIllustration = {
+  id: 'illustration-1',
+  comprehensive_data: { insurance_name: 'Life Plan' },
+};
+
+describe('canTransition', () => {
+  it('allows every listed transition', () => {
+    PROPOSAL_STATUSES.forEach((from) => {
+      PROPOSAL_TRANSITIONS[from].forEach((to) => {
+        expect(canTransition(from, to)).toBe(true);
+      });
+    });
+  });
+
+  it('rejects transitions that skip the workflow', () => {
+    expect(canTransition('draft', 'generating')).toBe(false);
+    expect(canTransition('draft', 'signed')).toBe(false);
+    expect(canTransition('extracting', 'completed')).toBe(false);
+    expect(canTransition('generating', 'draft')).toBe(false);
+  });
+
+  it('keeps a signed proposal final', () => {
+    PROPOSAL_STATUSES.forEach((to) => {
+      expect(canTransition('signed', to)).toBe(false);
+    });
+  });
+
+  it('rejects every transition out of an unknown status', () => {
+    PROPOSAL_STATUSES.forEach((to) => {
+      expect(canTransition('archived_by_backend', to)).toBe(false);
+      expect(canTransition('', to)).toBe(false);
+    });
+  });
+});
+
+describe('guards', () => {
+  it('signs completed proposals only', () => {
+    expect(canSignProposal({ status: 'completed' })).toBe(true);
+    expect(canSignProposal({ status: 'signed' })).toBe(false);
+    expect(canSignProposal({ status: 'draft' })).toBe(false);
+    expect(canSignProposal({ status: 'unknown' })).toBe(false);
+  });
+
+  it('takes uploads while the proposal can go back to extracting and has room', () => {
+    expect(canUploadIllustrations(makeProposal({ status: 'draft' }))).toBe(true);
+    expect(canUploadIllustrations(makeProposal({ status: 'extracting' }))).toBe(true);
+    expect(canUploadIllustrations(makeProposal({ status: 'generating' }))).toBe(false);
+    expect(canUploadIllustrations(makeProposal({ status: 'signed' }))).toBe(false);
+    expect(canUploadIllustrations(makeProposal({ status: 'unknown' }))).toBe(false);
+
+    const full = Array.from({ length: MAX_ILLUSTRATIONS }, (_, index) =>
+      makeIllustrationData({ id: `illustration-${index}` })
+    );
+    expect(canUploadIllustrations(makeProposal({ illustrations: full }))).toBe(false);
+  });
+
+  it("explains why files can't be uploaded", () => {
+    const proposal = makeProposal();
+
+    expect(getUploadError(proposal, 2)).toBeNull();
+    expect(getUploadError(proposal, 1)).toMatch(/at least 2/);
+    expect(getUploadError(proposal, 4, 2)).toMatch(/Maximum 5/);
+    expect(getUploadError(makeProposal({ status: 'signed' }), 2)).toMatch(/while the proposal is signed/);
+  });
+
+  it('generates once an illustration is mapped and the status allows it', () => {
+    expect(getGenerationError(makeProposal({ status: 'reviewing' }), [MAPPED_ILLUSTRATION])).toBeNull();
+    expect(getGenerationError(makeProposal({ status: 'reviewing' }), [])).toMatch(/uploaded illustrations/);
+    expect(getGenerationError(makeProposal({ status: 'reviewing' }), [{ id: 'unmapped' }])).toMatch(/map at least one/);
+    expect(getGenerationError(makeProposal({ status: 'needs_review' }), [MAPPED_ILLUSTRATION])).toMatch(
+      /while it is needs_review/
+    );
+    expect(getGenerationError(makeProposal({ status: 'unknown' }), [MAPPED_ILLUSTRATION])).not.toBeNull();
+  });
+
+  it('waits for the age analysis until it has picked the ages', () => {
+    expect(isAgeAnalysisPending(makeProposal({ status: 'ready_for_age_analysis' }))).toBe(true);
+    expect(
+      isAgeAnalysisPending(
+        makeProposal({ status: 'ready_for_age_analysis', intelligent_cash_analysis: { selected_ages: [85, 90] } })
+      )
+    ).toBe(false);
+  });
+
+  it('is processing while extracting or while cash values are extracted', () => {
+    expect(isProcessing(makeProposal({ status: 'extracting' }), null)).toBe(true);
+    expect(isProcessing(makeProposal({ status: 'reviewing' }), null)).toBe(false);
+    expect(
+      isProcessing(makeProposal({ status: 'reviewing' }), [{ id: 'illustration-1', cash_extraction_status: 'pending' }])
+    ).toBe(true);
+    const extracting = makeIllustrationData({ extraction_status: 'processing' });
+    expect(isProcessing(makeProposal({ status: 'reviewing', illustrations: [extracting] }), null)).toBe(true);
+  });
+});
+
+describe('proposalWorkflowReducer', () => {
+  const loaded: ProposalWorkflowState = proposalWorkflowReducer(initialProposalWorkflowState, {
+    type: 'PROPOSAL_LOADED',
+    proposal: makeProposal({ status: 'extracting' }),
+  });
+
+  it('loads the proposal', () => {
+    expect(loaded.loadState).toBe('ready');
+    expect(loaded.proposal?.status).toBe('extracting');
+    expect(shouldPoll(loaded)).toBe(true);
+  });
+
+  it('keeps polling while the proposal is processing', () => {
+    const polled = proposalWorkflowReducer(
+      { ...loaded, polling: true },
+      { type: 'POLLED', proposal: makeProposal({ status: 'extracting' }), illustrations: null, at: new Date() }
+    );
+
+    expect(polled.polling).toBe(true);
+    expect(polled.processingCompleted).toBe(false);
+  });
+
+  it('stops polling once processing finishes, and only completes once', () => {
+    const polled = proposalWorkflowReducer(
+      { ...loaded, polling: true },
+      { type: 'POLLED', proposal: makeProposal({ status: 'reviewing' }), illustrations: [], at: new Date() }
+    );
+
+    expect(polled.polling).toBe(false);
+    expect(polled.processingCompleted).toBe(true);
+    expect(shouldPoll(polled)).toBe(false);
+
+    const resumed = proposalWorkflowReducer(
+      { ...polled, proposal: makeProposal({ status: 'extracting' }) },
+      { type: 'PROCESSING_RESUMED' }
+    );
+    expect(resumed.processingCompleted).toBe(false);
+    expect(shouldPoll(resumed)).toBe(true);
+  });
+
+  it("keeps the illustrations when a poll doesn't return them", () => {
+    const withIllustrations = { ...loaded, illustrations: [MAPPED_ILLUSTRATION] };
+    const polled = proposalWorkflowReducer(withIllustrations, {
+      type: 'POLLED',
+      proposal: makeProposal({ status: 'extracting' }),
+      illustrations: null,
+      at: new Date(),
+    });
+
+    expect(polled.illustrations).toEqual([MAPPED_ILLUSTRATION]);
+  });
+
+  it('gives up polling after repeated failures', () => {
+    let state: ProposalWorkflowState = { ...loaded, polling: true };
+    for (let i = 1; i < MAX_POLL_FAILURES; i++) {
+      state = proposalWorkflowReducer(state, { type: 'POLL_FAILED' });
+      expect(state.polling).toBe(true);
+    }
+    state = proposalWorkflowReducer(state, { type: 'POLL_FAILED' });
+
+    expect(state.polling).toBe(false);
+    expect(state.pollFailures).toBe(MAX_POLL_FAILURES);
+  });
+
+  it('tracks loading failures and generation', () => {
+    expect(proposalWorkflowReducer(initialProposalWorkflowState, { type: 'LOAD_FAILED' }).loadState).toBe('failed');
+
+    const generating = proposalWorkflowReducer(loaded, { type: 'GENERATION_STARTED' });
+    expect(generating.generating).toBe(true);
+    expect(proposalWorkflowReducer(generating, { type: 'GENERATION_FINISHED' }).generating).toBe(false);
+  });
+});
@@ -0,0 +1,574 @@
+/**
+ * Proposal workflow
+ *
+ * Pure model of a proposal's lifecycle: the statuses the backend moves a
+ * proposal through, which transitions are expected, the guards for
+ * user-initiated steps (upload, generate) and a reducer for the client-side
+ * workflow state. Also the rules the editor applies to illustrations: which
+ * commission rates to show, how an illustration's fields and cash values are
+ * read, and how client details and cash value ages are kept the same across
+ * illustrations. Side effects (fetching, polling, toasts) live in
+ * src/hooks/proposal-workflow.ts so this module stays free of React and the network.
+ */
+
+import type { Commission } from '@/types/oracle/commission';
+import type { ExtractedIllustration, Proposal } from '@/types/oracle/proposal';
+
+// ============================================================================
+// Statuses & Transitions
+// ============================================================================
+
+export const PROPOSAL_STATUSES = [
+  'draft',
+  'extracting',
+  'reviewing',
+  'needs_review',
+  'ready_for_age_analysis',
+  'generating',
+  'completed',
+  'signed',
+  'failed',
+] as const;
+
+export type ProposalStatus = (typeof PROPOSAL_STATUSES)[number];
+
+/**
+ * Expected next statuses for each status.
+ * Cancelling processing resets a proposal to draft; uploading more
+ * illustrations sends it back to extracting. A signed proposal is final.
+ */
+export const PROPOSAL_TRANSITIONS: Record<ProposalStatus, readonly ProposalStatus[]> = {
+  draft: ['extracting'],
+  extracting: ['reviewing', 'needs_review', 'ready_for_age_analysis', 'failed', 'draft'],
+  reviewing: ['extracting', 'needs_review', 'ready_for_age_analysis', 'generating', 'failed', 'draft'],
+  // Flagged illustrations (e.g. an unclear currency) must be reviewed before generating
+  needs_review: ['extracting', 'reviewing', 'ready_for_age_analysis', 'failed', 'draft'],
+  ready_for_age_analysis: ['extracting', 'reviewing', 'generating', 'failed', 'draft'],
+  generating: ['completed', 'failed'],
+  completed: ['generating', 'signed'],
+  signed: [],
+  failed: ['draft', 'extracting', 'generating'],
+};
+
+export const MAX_ILLUSTRATIONS = 5;
+export const MIN_ILLUSTRATIONS_PER_UPLOAD = 2;
+export const POLL_INTERVAL_MS = 5000;
+export const MAX_POLL_FAILURES = 3;
+export const MAX_LOAD_RETRIES = 3;
+// Re-enable the generate button if the backend never answers
+export const GENERATION_TIMEOUT_MS = 3 * 60 * 1000;
+
+export function isProposalStatus(status: string): status is ProposalStatus {
+  return (PROPOSAL_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Whether a proposal may move from one status to another.
+ * Nothing moves out of a status this client doesn't know.
+ */
+export function canTransition(from: string, to: ProposalStatus): boolean {
+  if (!isProposalStatus(from)) return false;
+  return PROPOSAL_TRANSITIONS[from].includes(to);
+}
+
+// ============================================================================
+// Guards
+// ============================================================================
+
+/**
+ * Phase 2 (picking the cash value ages) runs after extraction without changing the status
+ */
+export function isAgeAnalysisPending(proposal: Proposal): boolean {
+  return proposal.status === 'ready_for_age_analysis' && !proposal.intelligent_cash_analysis;
+}
+
+/**
+ * Whether the backend is still working on the proposal or any of its illustrations
+ */
+export function isProcessing(proposal: Proposal, illustrations: ExtractedIllustration[] | null): boolean {
+  if (proposal.status === 'extracting' || isAgeAnalysisPending(proposal)) {
+    return true;
+  }
+
+  if (proposal.illustrations?.some((illustration) => illustration.extraction_status === 'processing')) {
+    return true;
+  }
+
+  return !!illustrations?.some(
+    (illustration) =>
+      illustration.cash_extraction_status === 'extracting' || illustration.cash_extraction_status === 'pending'
+  );
+}
+
+export function canUploadIllustrations(proposal: Proposal): boolean {
+  const statusAllowsUpload = proposal.status === 'extracting' || canTransition(proposal.status, 'extracting');
+  return statusAllowsUpload && proposal.illustrations.length < MAX_ILLUSTRATIONS;
+}
+
+/**
+ * Why a set of files can't be uploaded, or null when it can.
+ * queuedCount is the number of files already waiting to be uploaded.
+ */
+export function getUploadError(proposal: Proposal, fileCount: number, queuedCount = 0): string | null {
+  if (!canUploadIllustrations(proposal)) {
+    return `Illustrations can't be added while the proposal is ${proposal.status}`;
+  }
+  if (fileCount + queuedCount + proposal.illustrations.length > MAX_ILLUSTRATIONS) {
+    return `Maximum ${MAX_ILLUSTRATIONS} illustrations allowed per proposal`;
+  }
+  if (fileCount < MIN_ILLUSTRATIONS_PER_UPLOAD) {
+    return `Please select at least ${MIN_ILLUSTRATIONS_PER_UPLOAD} PDF files to upload`;
+  }
+  return null;
+}
+
+/**
+ * An illustration counts as mapped once it has an assigned or extracted insurance name
+ */
+export function isIllustrationMapped(illustration: ExtractedIllustration): boolean {
+  return !!(
+    illustration.insurance_assignment?.insurance_id ||
+    illustration.user_edited_data?.insurance_name ||
+    illustration.comprehensive_data?.insurance_name
+  );
+}
+
+/**
+ * Why the proposal can't be generated yet, or null when it can
+ */
+export function getGenerationError(proposal: Proposal, illustrations: ExtractedIllustration[] | null): string | null {
+  if (!illustrations || illustrations.length === 0) {
+    return 'Please ensure you have uploaded illustrations and mapped them to insurance products';
+  }
+  if (!illustrations.some(isIllustrationMapped)) {
+    return 'Please map at least one illustration to an insurance product';
+  }
+  if (!canTransition(proposal.status, 'generating')) {
+    return `A proposal can't be generated while it is ${proposal.status}`;
+  }
+  return null;
+}
+
+/**
+ * Only a generated proposal can be signed, and only once
+ */
+export function canSignProposal(proposal: Pick<Proposal, 'status'>): boolean {
+  return canTransition(proposal.status, 'signed');
+}
+
+// ============================================================================
+// Workflow State
+// ============================================================================
+
+export interface ProposalWorkflowState {
+  proposal: Proposal | null;
+  illustrations: ExtractedIllustration[] | null;
+  loadState: 'loading' | 'ready' | 'failed';
+  loadAttempt: number;
+  loadingIllustrations: boolean;
+  polling: boolean;
+  pollFailures: number;
+  lastPolledAt: Date | null;
+  // Set once processing finishes so the completion toast is only shown once
+  processingCompleted: boolean;
+  generating: boolean;
+}
+
+export type ProposalWorkflowEvent =
+  | { type: 'LOAD_RETRIED'; attempt: number }
+  | { type: 'PROPOSAL_LOADED'; proposal: Proposal }
+  | { type: 'LOAD_FAILED' }
+  | { type: 'ILLUSTRATIONS_REQUESTED' }
+  | { type: 'ILLUSTRATIONS_LOADED'; illustrations: ExtractedIllustration[] }
+  | { type: 'ILLUSTRATIONS_FAILED' }
+  | { type: 'ILLUSTRATIONS_CLEARED' }
+  | { type: 'POLLING_STARTED' }
+  | { type: 'POLLED'; proposal: Proposal; illustrations: ExtractedIllustration[] | null; at: Date }
+  | { type: 'POLL_FAILED' }
+  | { type: 'POLLING_STOPPED' }
+  | { type: 'PROCESSING_RESUMED' }
+  | { type: 'GENERATION_STARTED' }
+  | { type: 'GENERATION_FINISHED' };
+
+export const initialProposalWorkflowState: ProposalWorkflowState = {
+  proposal: null,
+  illustrations: null,
+  loadState: 'loading',
+  loadAttempt: 0,
+  loadingIllustrations: false,
+  polling: false,
+  pollFailures: 0,
+  lastPolledAt: null,
+  processingCompleted: false,
+  generating: false,
+};
+
+/**
+ * Whether polling should be running for the current state
+ */
+export function shouldPoll(state: ProposalWorkflowState): boolean {
+  return !!state.proposal && !state.processingCompleted && isProcessing(state.proposal, state.illustrations);
+}
+
+export function proposalWorkflowReducer(
+  state: ProposalWorkflowState,
+  event: ProposalWorkflowEvent
+): ProposalWorkflowState {
+  switch (event.type) {
+    case 'LOAD_RETRIED':
+      return { ...state, loadAttempt: event.attempt };
+    case 'PROPOSAL_LOADED':
+      return { ...state, proposal: event.proposal, loadState: 'ready', loadAttempt: 0 };
+    case 'LOAD_FAILED':
+      return { ...state, loadState: 'failed', loadAttempt: 0 };
+
+    case 'ILLUSTRATIONS_REQUESTED':
+      return { ...state, loadingIllustrations: true };
+    case 'ILLUSTRATIONS_LOADED':
+      return { ...state, illustrations: event.illustrations, loadingIllustrations: false };
+    case 'ILLUSTRATIONS_FAILED':
+      return { ...state, loadingIllustrations: false };
+    case 'ILLUSTRATIONS_CLEARED':
+      return { ...state, illustrations: null };
+
+    case 'POLLING_STARTED':
+      return { ...state, polling: true, pollFailures: 0 };
+    case 'POLLED': {
+      const illustrations = event.illustrations ?? state.illustrations;
+      const stillProcessing = isProcessing(event.proposal, illustrations);
+      return {
+        ...state,
+        proposal: event.proposal,
+        illustrations,
+        lastPolledAt: event.at,
+        pollFailures: 0,
+        polling: stillProcessing,
+        processingCompleted: state.processingCompleted || !stillProcessing,
+      };
+    }
+    case 'POLL_FAILED': {
+      const pollFailures = state.pollFailures + 1;
+      return { ...state, pollFailures, polling: pollFailures < MAX_POLL_FAILURES };
+    }
+    case 'POLLING_STOPPED':
+      return { ...state, polling: false, pollFailures: 0 };
+
+    case 'PROCESSING_RESUMED':
+      // A new upload or re-extraction starts a new round of processing
+      return { ...state, processingCompleted: false };
+
+    case 'GENERATION_STARTED':
+      return { ...state, generating: true };
+    case 'GENERATION_FINISHED':
+      return { ...state, generating: false };
+  }
+}
+
+// ============================================================================
+// Commissions
+// ============================================================================
+
+// Whose commission rates each role sees; admins and the master account see senior partner rates
+const COMMISSION_DISPLAY_ROLE_IDS: Record<string, number> = {
+  SUPER_ADMIN: 6,
+  ADMIN: 6,
+  ADVISOR: 3,
+  LEADER_1: 4,
+  LEADER_2: 5,
+  SENIOR_PARTNER: 6,
+  MASTER: 6,
+};
+
+/**
+ * The role whose commission rates a user sees; advisor rates for unknown roles
+ */
+export function getDisplayRoleId(userRole: string): number {
+  return COMMISSION_DISPLAY_ROLE_IDS[userRole] || 3;
+}
+
+export interface ProductCommissions {
+  insurance_id: string;
+  commissions_by_term: Record<string, Commission[]>;
+}
+
+/**
+ * Commission rates by product, then by premium term
+ */
+export function groupCommissionsByTerm(commissions: Commission[]): Record<string, ProductCommissions> {
+  const lookup: Record<string, ProductCommissions> = {};
+  commissions.forEach((commission) => {
+    const product = lookup[commission.insurance_id] || {
+      insurance_id: commission.insurance_id,
+      commissions_by_term: {},
+    };
+    lookup[commission.insurance_id] = product;
+    (product.commissions_by_term[commission.premium_term] =
+      product.commissions_by_term[commission.premium_term] || []).push(commission);
+  });
+  return lookup;
+}
+
+/**
+ * The catalogue products the illustrations are matched to, sorted, or an empty
+ * list until every illustration is matched
+ */
+export function getMappedInsuranceIds(illustrations: ExtractedIllustration[] | null): string[] {
+  if (!illustrations || illustrations.length === 0) return [];
+  if (!illustrations.every((illustration) => illustration.matched_insurance_id)) return [];
+  return illustrations.map((illustration) => illustration.matched_insurance_id as string).sort();
+}
+
+// ============================================================================
+// Illustration Fields
+// ============================================================================
+
+/**
+ * An illustration field: the advisor's edit, else the extracted value, else
+ * the product's provider or the illustration's own column.
+ * Dotted names ("parent.child") read a nested edit or the extracted child field.
+ */
+export function getIllustrationFieldValue(data: any, fieldName: string, fallback: any = null): any {
+  const isSet = (value: any) => value !== null && value !== undefined;
+
+  if (data.user_edited_data && isSet(data.user_edited_data[fieldName])) {
+    return data.user_edited_data[fieldName];
+  }
+
+  if (fieldName.indexOf('.') !== -1) {
+    const [parentField, childField] = fieldName.split('.');
+    if (data.user_edited_data && data.user_edited_data[parentField] && isSet(data.user_edited_data[parentField][childField])) {
+      return data.user_edited_data[parentField][childField];
+    }
+    if (data.comprehensive_data && isSet(data.comprehensive_data[childField])) {
+      return data.comprehensive_data[childField];
+    }
+  }
+
+  if (data.comprehensive_data && isSet(data.comprehensive_data[fieldName])) {
+    return data.comprehensive_data[fieldName];
+  }
+
+  if (fieldName === 'insurance_provider' && data.insurances && data.insurances.provider) {
+    return data.insurances.provider;
+  }
+
+  if (isSet(data[fieldName])) {
+    return data[fieldName];
+  }
+
+  return fallback;
+}
+
+/**
+ * Age in whole years on `today`, or null for a missing or invalid date of birth
+ */
+export function getAgeFromDob(dob: string | undefined | null, today: Date = new Date()): number | null {
+  if (!dob) return null;
+  const birthDate = new Date(dob);
+  if (isNaN(birthDate.getTime())) return null;
+
+  let age = today.getFullYear() - birthDate.getFullYear();
+  const monthDiff = today.getMonth() - birthDate.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+// ============================================================================
+// Client Details
+// ============================================================================
+
+// Details about the client that every illustration in a proposal must agree on
+export const CLIENT_DETAIL_FIELDS = ['client_age', 'gender', 'smoker_status'] as const;
+
+export interface ClientDetails {
+  client_age: string;
+  gender: string;
+  smoker_status: string;
+}
+
+/**
+ * The client details to start editing an illustration with. The age always
+ * comes from the client's date of birth when there is one; gender and smoker
+ * status from whichever illustration already has them, else this one, else
+ * the linked client's gender.
+ */
+export function getSharedClientDetails(
+  current: any,
+  illustrations: ExtractedIllustration[] | null,
+  clientAge: number | null,
+  clientGender?: string
+): ClientDetails {
+  const age = clientAge !== null ? String(clientAge) : '';
+  const fallbackGender = clientGender === 'Male' || clientGender === 'Female' ? clientGender : 'Unknown';
+  const getGender = (data: any) => {
+    const gender = getIllustrationFieldValue(data, 'gender', 'Unknown');
+    return gender === 'Unknown' ? fallbackGender : gender;
+  };
+  const ownDetails = {
+    client_age: age || getIllustrationFieldValue(current, 'client_age', ''),
+    gender: getGender(current),
+    smoker_status: getIllustrationFieldValue(current, 'smoker_status', 'Unknown'),
+  };
+
+  const shared = (illustrations || []).find(
+    (item) =>
+      getIllustrationFieldValue(item, 'gender') !== 'Unknown' ||
+      getIllustrationFieldValue(item, 'smoker_status') !== 'Unknown'
+  );
+  if (!shared) return ownDetails;
+
+  return {
+    client_age: ownDetails.client_age,
+    gender: getIllustrationFieldValue(shared, 'gender') || ownDetails.gender,
+    smoker_status: getIllustrationFieldValue(shared, 'smoker_status') || ownDetails.smoker_status,
+  };
+}
+
+/**
+ * The client details among an illustration's changes, to copy to the other illustrations
+ */
+export function pickClientDetails(changes: Record<string, any>): Partial<ClientDetails> | null {
+  const details: Partial<ClientDetails> = {};
+  let found = false;
+  CLIENT_DETAIL_FIELDS.forEach((field) => {
+    if (Object.prototype.hasOwnProperty.call(changes, field)) {
+      details[field] = changes[field];
+      found = true;
+    }
+  });
+  return found ? details : null;
+}
+
+// ============================================================================
+// Cash Values
+// ============================================================================
+
+export interface CashValueRow {
+  age: number;
+  value: any;
+}
+
+// Ages shown when neither the advisor, the extraction nor the age analysis has picked any
+export const DEFAULT_CASH_VALUE_AGES = [85, 90, 95, 100];
+// Ages shown per illustration in the editor, unless the age analysis picked more
+export const MAX_DISPLAYED_CASH_VALUE_AGES = 4;
+// Cash value ages the advisor can choose
+export const MIN_CASH_VALUE_AGE = 60;
+export const MAX_CASH_VALUE_AGE = 120;
+
+/**
+ * Cash values as a list of rows. Extraction has stored them as JSON, escaped
+ * JSON and Python-style dict strings; anything else is null.
+ */
+export function parseCashValues(raw: unknown): CashValueRow[] | null {
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw !== 'string') return null;
+
+  const attempts = [
+    () => raw,
+    () => {
+      let fixed = raw.trim();
+      if (fixed.charAt(0) === '"' && fixed.charAt(fixed.length - 1) === '"') fixed = fixed.slice(1, -1);
+      return fixed.replace(/\\"/g, '"').replace(/\\\\/g, '\\');
+    },
+    () =>
+      raw
+        .trim()
+        .replace(/'/g, '"')
+        .replace(/True/g, 'true')
+        .replace(/False/g, 'false')
+        .replace(/None/g, 'null'),
+  ];
+  for (let i = 0; i < attempts.length; i++) {
+    try {
+      const parsed = JSON.parse(attempts[i]());
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // Try the next format
+    }
+  }
+  return null;
+}
+
+const toAge = (age: unknown) => (typeof age === 'string' ? parseInt(age, 10) : (age as number));
+
+/**
+ * The cash value rows the editor shows for an illustration, by priority:
+ * the advisor's unsaved edits (in edit mode), their saved edits, the extracted
+ * values at the ages the age analysis picked, the first extracted values, and
+ * finally the default ages with no values.
+ */
+export function getCashValueRows(
+  data: any,
+  originalData: any,
+  isEditMode: boolean,
+  selectedAges?: number[] | null
+): CashValueRow[] {
+  if (isEditMode && data.cash_surrender_values) {
+    const edited = parseCashValues(data.cash_surrender_values);
+    if (edited) return edited.slice(0, MAX_DISPLAYED_CASH_VALUE_AGES);
+  }
+
+  if (data.user_edited_data?.cash_surrender_values) {
+    const saved = parseCashValues(data.user_edited_data.cash_surrender_values);
+    if (saved) return saved.slice(0, MAX_DISPLAYED_CASH_VALUE_AGES);
+  }
+
+  const extracted = parseCashValues(originalData?.comprehensive_data?.cash_surrender_values);
+
+  if (selectedAges) {
+    return selectedAges.map((age) => {
+      const match = (extracted || []).find((item) => toAge(item.age) === age);
+      return { age, value: match ? match.value : '-' };
+    });
+  }
+
+  if (extracted && extracted.length > 0) {
+    return extracted.slice(0, MAX_DISPLAYED_CASH_VALUE_AGES);
+  }
+
+  return DEFAULT_CASH_VALUE_AGES.map((age) => ({ age, value: '-' }));
+}
+
+/**
+ * The valid ages among cash value rows, in order
+ */
+export function getCashValueAges(cashValues: unknown): number[] {
+  const rows = parseCashValues(cashValues) || [];
+  return rows
+    .map((row) => (row.age ? parseInt(String(row.age), 10) : NaN))
+    .filter((age) => !isNaN(age) && age >= MIN_CASH_VALUE_AGE && age <= MAX_CASH_VALUE_AGE)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * An illustration's cash values moved onto the given ages, keeping its value
+ * at each age it already had
+ */
+export function withCashValueAges(illustration: ExtractedIllustration, ages: number[]): CashValueRow[] {
+  const existing =
+    parseCashValues(
+      illustration.user_edited_data?.cash_surrender_values || illustration.comprehensive_data?.cash_surrender_values
+    ) || [];
+  return ages.map((age) => {
+    const entry = existing.find((row) => toAge(row.age) === age);
+    return { age, value: (entry && entry.value) || '-' };
+  });
+}
+
+/**
+ * The age an added cash value row gets: five years past the highest, else the
+ * first free age from 65 in steps of five; null when every such age is taken
+ */
+export function getNextCashValueAge(ages: number[]): number | null {
+  let next = (ages.length > 0 ? Math.max.apply(null, ages) : 80) + 5;
+  while (next <= MAX_CASH_VALUE_AGE && ages.indexOf(next) !== -1) next += 5;
+  if (next <= MAX_CASH_VALUE_AGE) return next;
+
+  for (let age = 65; age <= MAX_CASH_VALUE_AGE; age += 5) {
+    if (ages.indexOf(age) === -1) return age;
+  }
+  return null;
+}
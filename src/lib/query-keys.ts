@@ -0,0 +1,57 @@
+/**
+ * React Query key factory
+ *
+ * Keys are nested so a mutation can invalidate a whole family
+ * (e.g. every task list) with the parent key.
+ */
+
+import type { ProductListParams } from '@/lib/api/oracle/products';
+import type { MeetingListParams, TaskListParams } from '@/types/meeting-tracker';
+
+const MEETING_TRACKER = ['meeting-tracker'] as const;
+const GAMIFICATION = ['gamification'] as const;
+const ORACLE = ['oracle'] as const;
+
+export const queryKeys = {
+  meetingTracker: {
+    all: MEETING_TRACKER,
+    hierarchyMe: () => [...MEETING_TRACKER, 'hierarchy', 'me'] as const,
+    subordinates: () => [...MEETING_TRACKER, 'hierarchy', 'subordinates'] as const,
+    meetings: () => [...MEETING_TRACKER, 'meetings'] as const,
+    meetingList: (params: MeetingListParams) => [...MEETING_TRACKER, 'meetings', 'list', params] as const,
+    upcomingEvents: (viewType: string, days: number) =>
+      [...MEETING_TRACKER, 'meetings', 'upcoming', viewType, days] as const,
+    tasks: () => [...MEETING_TRACKER, 'tasks'] as const,
+    taskList: (params: TaskListParams) => [...MEETING_TRACKER, 'tasks', 'list', params] as const,
+  },
+  gamification: {
+    all: GAMIFICATION,
+    stats: () => [...GAMIFICATION, 'stats'] as const,
+    badges: () => [...GAMIFICATION, 'badges'] as const,
+    recentBadges: (limit: number) => [...GAMIFICATION, 'badges', 'recent', limit] as const,
+  },
+  oracle: {
+    all: ORACLE,
+    proposal: (proposalId: string) => [...ORACLE, 'proposals', proposalId] as const,
+    proposalRevisions: (proposalId: string) => [...ORACLE, 'proposals', proposalId, 'revisions'] as const,
+    proposalRevision: (proposalId: string, revisionId: string) =>
+      [...ORACLE, 'proposals', proposalId, 'revisions', revisionId] as const,
+    illustrationPdf: (proposalId: string, illustrationId: string) =>
+      [...ORACLE, 'proposals', proposalId, 'illustrations', illustrationId, 'pdf'] as const,
+    proposalSignature: (proposalId: string) => [...ORACLE, 'proposals', proposalId, 'signature'] as const,
+    proposalShares: (proposalId: string) => [...ORACLE, 'proposals', proposalId, 'shares'] as const,
+    proposalShareViews: (proposalId: string, shareId: string) =>
+      [...ORACLE, 'proposals', proposalId, 'shares', shareId, 'views'] as const,
+    fxRate: (fromCurrency: string, toCurrency: string) => [...ORACLE, 'fx-rates', fromCurrency, toCurrency] as const,
+    proposalTemplates: () => [...ORACLE, 'proposal-templates'] as const,
+    proposalTemplate: (templateId: string) => [...ORACLE, 'proposal-templates', templateId] as const,
+    client: (clientId: string) => [...ORACLE, 'clients', clientId] as const,
+    clientPolicies: (clientId: string) => [...ORACLE, 'clients', clientId, 'policies'] as const,
+    clientProposals: (clientId: string) => [...ORACLE, 'clients', clientId, 'proposals'] as const,
+    savedSearches: () => [...ORACLE, 'saved-searches'] as const,
+    savedSearch: (searchId: string) => [...ORACLE, 'saved-searches', searchId] as const,
+    savedSearchAlerts: () => [...ORACLE, 'saved-searches', 'alerts'] as const,
+    products: (params: ProductListParams) => [...ORACLE, 'products', params] as const,
+    guidedQuestionSets: () => [...ORACLE, 'guided-questions'] as const,
+  },
+};
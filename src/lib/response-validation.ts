@@ -0,0 +1,114 @@
+/**
+ * Runtime validation of backend responses
+ *
+ * Every API module passes its responses through validateResponse with the
+ * zod schema for that domain (see src/schemas). When the backend shape drifts:
+ * - in development a drift report names the endpoint and each mismatched field
+ * - fields that would break rendering (an object where text is expected, a
+ *   missing list) are replaced with empty values, so pages render with gaps
+ *   instead of crashing
+ *
+ * Mismatches that render fine (a number sent as a string, an unknown enum
+ * value) are reported but left untouched.
+ */
+
+import type { AxiosResponse } from 'axios';
+import type { ZodIssue, ZodTypeAny } from 'zod';
+import type { ApiError } from '@/types/auth';
+
+const isDevelopment = process.env.NODE_ENV !== 'production';
+
+type PathKey = string | number;
+
+/**
+ * Validate a response body against its schema and return it, degraded where needed.
+ *
+ * Throws an ApiError when the body as a whole has the wrong shape
+ * (e.g. an HTML error page instead of JSON).
+ */
+export function validateResponse<T>(schema: ZodTypeAny, response: AxiosResponse<T>): T {
+  const endpoint = `${(response.config.method || 'get').toUpperCase()} ${response.config.url}`;
+  return validateData(schema, response.data, endpoint, response.status);
+}
+
+/**
+ * validateResponse for data that doesn't arrive as an axios response, such as
+ * the final event of a stream
+ */
+export function validateData<T>(schema: ZodTypeAny, data: T, endpoint: string, status: number = 200): T {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    // Return the original body so fields the schema doesn't list are kept
+    return data;
+  }
+
+  const issues = result.error.issues;
+
+  if (isDevelopment) {
+    reportDrift(endpoint, issues);
+  } else {
+    console.warn(`[API] ${endpoint} returned ${issues.length} unexpected field(s)`);
+  }
+
+  if (issues.some((issue) => issue.path.length === 0)) {
+    const apiError: ApiError = {
+      detail: 'Received an unexpected response from the server',
+      status_code: status,
+      error_type: 'response_validation',
+    };
+    throw apiError;
+  }
+
+  issues.forEach((issue) => degradeField(data, issue));
+  return data;
+}
+
+function reportDrift(endpoint: string, issues: ZodIssue[]) {
+  const lines = issues.map((issue) => {
+    const field = issue.path.length > 0 ? issue.path.join('.') : '(response body)';
+    return `  ${field}: ${issue.message}`;
+  });
+  console.error(`[API drift] ${endpoint} no longer matches its schema:\n${lines.join('\n')}`);
+}
+
+/**
+ * Replace the value at an issue's path with an empty value of the expected kind
+ */
+function degradeField(data: unknown, issue: ZodIssue) {
+  if (issue.code !== 'invalid_type') return;
+
+  const parent = getParent(data, issue.path);
+  if (!parent) return;
+
+  const key = issue.path[issue.path.length - 1];
+  const value = parent[key];
+  const isStructured = typeof value === 'object' && value !== null;
+
+  switch (issue.expected) {
+    case 'array':
+      parent[key] = [];
+      break;
+    case 'object':
+      parent[key] = {};
+      break;
+    case 'string':
+      if (isStructured || value === null || value === undefined) {
+        parent[key] = '';
+      }
+      break;
+    default:
+      // Numbers, booleans and dates render fine as whatever primitive arrived
+      if (isStructured) {
+        parent[key] = undefined;
+      }
+  }
+}
+
+function getParent(data: unknown, path: PathKey[]): Record<PathKey, unknown> | null {
+  let current: unknown = data;
+  for (const key of path.slice(0, -1)) {
+    if (typeof current !== 'object' || current === null) return null;
+    current = (current as Record<PathKey, unknown>)[key];
+  }
+  return typeof current === 'object' && current !== null ? (current as Record<PathKey, unknown>) : null;
+}
@@ -0,0 +1,52 @@
+/**
+ * Saved searches
+ *
+ * Labels and defaults for saved AI product searches. The backend matches each
+ * newly ingested product against the saved searches with alerts on (query,
+ * category and guided answers, plus the jurisdiction against the advisor's
+ * company) and raises an alert for each match.
+ */
+
+import type { GuidedParameters } from '@/types/oracle/guided-question';
+import type { SavedSearch, SavedSearchJurisdiction } from '@/types/oracle/saved-search';
+
+export const JURISDICTION_LABELS: Record<SavedSearchJurisdiction, string> = {
+  all: 'All jurisdictions',
+  local: 'Local only',
+  global: 'Global only',
+};
+
+const DEFAULT_NAME_LENGTH = 60;
+
+/**
+ * The query, shortened to a name
+ */
+export function getDefaultSearchName(query: string): string {
+  const trimmed = query.trim().replace(/\s+/g, ' ');
+  if (trimmed.length <= DEFAULT_NAME_LENGTH) return trimmed;
+  return `${trimmed.slice(0, DEFAULT_NAME_LENGTH - 1).trim()}…`;
+}
+
+/**
+ * Questions answered in the guided questionnaire (the category itself doesn't count)
+ */
+export function countGuidedAnswers(parameters?: GuidedParameters | null): number {
+  if (!parameters) return 0;
+  return Object.keys(parameters).filter((key) => {
+    const value = parameters[key];
+    if (key === 'category' || value === undefined || value === '') return false;
+    return !Array.isArray(value) || value.length > 0;
+  }).length;
+}
+
+/**
+ * e.g. "Critical Illness · Local only · 4 guided answers"
+ */
+export function describeSavedSearchFilters(
+  search: Pick<SavedSearch, 'category' | 'jurisdiction' | 'guided_parameters'>
+): string {
+  const parts = [search.category || 'All categories', JURISDICTION_LABELS[search.jurisdiction]];
+  const answers = countGuidedAnswers(search.guided_parameters);
+  if (answers > 0) parts.push(`${answers} guided answer${answers === 1 ? '' : 's'}`);
+  return parts.join(' · ');
+}
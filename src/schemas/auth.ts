@@ -0,0 +1,54 @@
+/**
+ * Auth Response Schemas
+ *
+ * Runtime mirrors of the response types in src/types/auth.ts
+ */
+
+import { z } from 'zod';
+import { UserRole } from '@/types/auth';
+
+const companySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  country: z.string().nullable(),
+  city: z.string().nullable(),
+  logo_url: z.string().nullable(),
+  address: z.string().nullable(),
+  phone: z.string().nullable(),
+  email: z.string().nullable(),
+  website: z.string().nullable(),
+  description: z.string().nullable(),
+  brand_colors: z.record(z.string().nullish()).nullable(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  first_name: z.string().nullable(),
+  last_name: z.string().nullable(),
+  phone: z.string().nullable(),
+  role: z.nativeEnum(UserRole),
+  role_id: z.number(),
+  company_id: z.string().nullable(),
+  company: companySchema.nullish(),
+  is_profile_complete: z.boolean(),
+  subscribed_plans: z.array(z.string()),
+  created_at: z.string(),
+  updated_at: z.string().nullable(),
+});
+
+export const otpResponseSchema = z.object({
+  message: z.string(),
+  expires_in: z.number().nullish(),
+});
+
+export const authResponseSchema = z.object({
+  access_token: z.string(),
+  token_type: z.string(),
+  expires_in: z.number(),
+  refresh_token: z.string().nullish(),
+  user: userSchema,
+});
@@ -0,0 +1,137 @@
+/**
+ * Client Management Response Schemas
+ *
+ * Runtime mirrors of the response types in src/types/client.ts
+ */
+
+import { z } from 'zod';
+import { Gender, PolicyStatus, PremiumPeriod } from '@/types/client';
+
+export const clientWithPoliciesSchema = z.object({
+  client_id: z.string(),
+  user_id: z.string(),
+  company_id: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  date_of_birth: z.string(),
+  email: z.string().nullish(),
+  phone: z.string().nullish(),
+  address: z.string().nullish(),
+  gender: z.nativeEnum(Gender).nullish(),
+  occupation: z.string().nullish(),
+  national_id: z.string().nullish(),
+  preferred_language: z.string().nullish(),
+  tags: z.array(z.string()).nullish(),
+  notes: z.string().nullish(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  last_interaction_at: z.string().nullish(),
+  total_policies: z.number(),
+  active_policies: z.number(),
+  total_monthly_premium: z.number().nullish(),
+  total_yearly_premium: z.number().nullish(),
+  total_coverage: z.number().nullish(),
+});
+
+export const clientPolicySchema = z.object({
+  policy_id: z.string(),
+  client_id: z.string(),
+  insurance_id: z.string(),
+  policy_number: z.string().nullish(),
+  active_date: z.string(),
+  renewal_date: z.string().nullish(),
+  expiry_date: z.string().nullish(),
+  premium_amount: z.number().nullish(),
+  premium_period: z.nativeEnum(PremiumPeriod),
+  currency: z.string().nullish(),
+  coverage_amount: z.number().nullish(),
+  policy_status: z.nativeEnum(PolicyStatus),
+  policy_document_url: z.string().nullish(),
+  policy_document_filename: z.string().nullish(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  created_by: z.string().nullish(),
+});
+
+export const clientListItemSchema = z.object({
+  client_id: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  full_name: z.string(),
+  email: z.string().nullish(),
+  phone: z.string().nullish(),
+  date_of_birth: z.string(),
+  tags: z.array(z.string()).nullish(),
+  total_policies: z.number(),
+  active_policies: z.number(),
+  total_monthly_premium: z.number().nullish(),
+  user_id: z.string().nullish(),
+  owner_name: z.string().nullish(),
+  created_at: z.string(),
+  last_interaction_at: z.string().nullish(),
+});
+
+export const clientPolicyWithInsuranceSchema = clientPolicySchema.extend({
+  insurance_name: z.string(),
+  provider: z.string(),
+  category: z.string().nullish(),
+});
+
+export const clientProposalSchema = z.object({
+  proposal_id: z.string(),
+  client_name: z.string(),
+  status: z.string(),
+  highlighted_insurance_name: z.string().nullish(),
+  target_currency: z.string().nullish(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const clientListResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    clients: z.array(clientListItemSchema),
+    total: z.number(),
+    limit: z.number(),
+    offset: z.number(),
+  }),
+});
+
+export const clientResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: clientWithPoliciesSchema,
+});
+
+export const policyListResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    policies: z.array(clientPolicyWithInsuranceSchema),
+  }),
+});
+
+export const clientProposalListResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    proposals: z.array(clientProposalSchema),
+  }),
+});
+
+export const policyResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: clientPolicySchema,
+});
+
+export const policyDocumentUploadResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    policy_id: z.string(),
+    policy_document_url: z.string(),
+    policy_document_filename: z.string(),
+  }),
+});
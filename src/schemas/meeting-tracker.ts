@@ -0,0 +1,439 @@
+/**
+ * Meeting Tracker Response Schemas
+ *
+ * Runtime mirrors of the response types in src/types/meeting-tracker.ts.
+ * Optional fields accept null because the backend serialises missing values that way.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Meetings & Reports
+// ============================================================================
+
+const meetingUserSchema = z.object({
+  user_id: z.string(),
+  email: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+});
+
+export const meetingSchema = z.object({
+  meeting_id: z.string(),
+  title: z.string(),
+  category: z.enum(['R', 'N', 'S']),
+  start_time: z.string(),
+  end_time: z.string(),
+  description: z.string().nullish(),
+  user_id: z.string().nullish(),
+  needs_review: z.boolean().nullish(),
+  confidence: z.string().nullish(),
+  has_report: z.boolean(),
+  draft_saved: z.boolean().nullish(),
+  user: meetingUserSchema.nullish(),
+});
+
+export const meetingListResponseSchema = z.object({
+  meetings: z.array(meetingSchema),
+});
+
+export const meetingResponseSchema = z.object({
+  meeting: meetingSchema,
+});
+
+export const upcomingMeetingSchema = z.object({
+  id: z.string(),
+  meeting_type: z.enum(['S', 'R', 'N', 'U']),
+  person_name: z.string().nullish(),
+  meeting_title: z.string(),
+  start_time: z.string(),
+  end_time: z.string(),
+  status: z.string(),
+  user_id: z.string(),
+  has_report: z.boolean().nullish(),
+});
+
+export const upcomingEventsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    date_range: z.object({
+      start_date: z.string(),
+      end_date: z.string(),
+    }),
+    meetings_by_date: z.array(
+      z.object({
+        date: z.string(),
+        day_name: z.string(),
+        meetings: z.array(upcomingMeetingSchema),
+      })
+    ),
+  }),
+});
+
+const taskPrioritySchema = z.enum(['high', 'medium', 'low']);
+
+export const meetingReportResponseSchema = z.object({
+  report: z.object({
+    report_id: z.string(),
+    meeting_outcome: z.string(),
+    has_tasks: z.boolean(),
+    follow_up_needed: z.boolean(),
+    follow_up_date: z.string().nullish(),
+    follow_up_start_time: z.string().nullish(),
+    follow_up_end_time: z.string().nullish(),
+    follow_up_notes: z.string().nullish(),
+    is_draft: z.boolean(),
+  }),
+  tasks: z.array(
+    z.object({
+      title: z.string(),
+      due_date: z.string(),
+      priority: taskPrioritySchema,
+      status: z.enum(['in_progress', 'done']),
+    })
+  ),
+});
+
+// ============================================================================
+// Gamification
+// ============================================================================
+
+export const gamificationStatsSchema = z.object({
+  user_id: z.string(),
+  points: z.number().nullish(),
+  bonus_message: z.string().nullish(),
+  lifetime_xp: z.number(),
+  level: z.number(),
+  level_name: z.string(),
+  level_icon: z.string(),
+  xp_to_next_level: z.number(),
+  current_year_xp: z.number(),
+  current_year: z.number(),
+  annual_tier: z.string(),
+  tier_name: z.string(),
+  tier_icon: z.string(),
+  xp_to_next_tier: z.number(),
+  current_streak: z.number(),
+  longest_streak: z.number(),
+  reports_submitted: z.number(),
+  tasks_completed: z.number(),
+  current_rank: z.number().nullish(),
+  level_changed: z.boolean().nullish(),
+  old_level: z.number().nullish(),
+  new_level: z.number().nullish(),
+  tier_changed: z.boolean().nullish(),
+  old_tier: z.string().nullish(),
+  new_tier: z.string().nullish(),
+});
+
+const unlockedBadgeSchema = z.object({
+  badge_id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  icon: z.string(),
+  rarity: z.string(),
+});
+
+export const xpAwardedSchema = gamificationStatsSchema.extend({
+  badges_unlocked: z.array(unlockedBadgeSchema).nullish(),
+});
+
+export const badgeSchema = unlockedBadgeSchema.extend({
+  category: z.string(),
+  unlocked_at: z.string(),
+});
+
+export const badgeWithProgressSchema = badgeSchema.extend({
+  earned: z.boolean(),
+  unlocked_at: z.string().nullable(),
+  progress: z.number(),
+  progress_text: z.string(),
+});
+
+export const xpTransactionSchema = z.object({
+  transaction_id: z.string(),
+  points: z.number(),
+  action_type: z.string(),
+  description: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export const leaderboardEntrySchema = z.object({
+  rank: z.number(),
+  user_id: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  xp: z.number(),
+  level: z.number().nullish(),
+  annual_tier: z.string().nullish(),
+  is_current_user: z.boolean(),
+});
+
+export const teamMemberStatsSchema = gamificationStatsSchema.partial().extend({
+  user_id: z.string(),
+  has_stats: z.boolean(),
+});
+
+// Every /gamification endpoint wraps its payload in { success, data }
+function gamificationResponseSchema<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    success: z.boolean(),
+    data,
+  });
+}
+
+export const gamificationStatsResponseSchema = gamificationResponseSchema(gamificationStatsSchema);
+export const badgesResponseSchema = gamificationResponseSchema(z.array(badgeSchema));
+export const badgeProgressResponseSchema = gamificationResponseSchema(z.array(badgeWithProgressSchema));
+export const retroactiveBadgesResponseSchema = gamificationResponseSchema(
+  z.object({
+    badges_awarded: z.array(badgeSchema),
+    count: z.number(),
+  })
+);
+export const transactionsResponseSchema = gamificationResponseSchema(
+  z.object({ transactions: z.array(xpTransactionSchema) })
+);
+export const leaderboardResponseSchema = gamificationResponseSchema(
+  z.object({ entries: z.array(leaderboardEntrySchema) })
+);
+export const teamStatsResponseSchema = gamificationResponseSchema(
+  z.object({ team_members: z.array(teamMemberStatsSchema) })
+);
+
+// Report submissions and task updates return the same XP snapshot
+export const xpAwardedResponseSchema = z.object({
+  xp_awarded: xpAwardedSchema.nullish(),
+});
+
+// ============================================================================
+// Tasks
+// ============================================================================
+
+export const taskSchema = z.object({
+  task_id: z.string(),
+  title: z.string(),
+  task_description: z.string(),
+  due_date: z.string(),
+  priority: taskPrioritySchema,
+  status: z.enum(['pending', 'in_progress', 'completed', 'cancelled']),
+  completed_at: z.string().nullish(),
+  report_id: z.string().nullish(),
+  meetings: z
+    .object({
+      meeting_id: z.string(),
+      title: z.string(),
+      category: z.string(),
+      start_time: z.string(),
+    })
+    .nullish(),
+  users: meetingUserSchema.nullish(),
+});
+
+export const taskListResponseSchema = z.object({
+  tasks: z.array(taskSchema),
+  statistics: z
+    .object({
+      total: z.number(),
+      completed: z.number(),
+      pending: z.number(),
+      overdue: z.number(),
+    })
+    .nullish(),
+});
+
+export const bulkTaskCreateResponseSchema = z.object({
+  statistics: z
+    .object({
+      total_created: z.number(),
+    })
+    .nullish(),
+});
+
+// ============================================================================
+// Hierarchy
+// ============================================================================
+
+export const hierarchyMeSchema = z.object({
+  is_in_hierarchy: z.boolean(),
+  is_leader: z.boolean(),
+  member_id: z.string().nullish(),
+  level: z.number().nullish(),
+  subordinates_count: z.number().nullish(),
+});
+
+export const subordinatesResponseSchema = z.object({
+  subordinates: z.array(
+    z.object({
+      member_id: z.string(),
+      user_id: z.string(),
+      manager_id: z.string().nullish(),
+      level: z.number(),
+      team_name: z.string().nullish(),
+      position_title: z.string().nullish(),
+      user_name: z.string().nullish(),
+      user_email: z.string(),
+      depth: z.number(),
+    })
+  ),
+  total_count: z.number(),
+});
+
+export const hierarchyTreeResponseSchema = z.object({
+  tree: z.array(
+    z.object({
+      member_id: z.string(),
+      user_id: z.string(),
+      name: z.string(),
+      email: z.string(),
+      level: z.number(),
+      team_name: z.string().nullable(),
+      position_title: z.string().nullable(),
+      depth: z.number(),
+      manager_id: z.string().nullable(),
+    })
+  ),
+});
+
+// ============================================================================
+// Settings & Integrations
+// ============================================================================
+
+export const meetingTrackerSettingsResponseSchema = z.object({
+  settings: z
+    .object({
+      timezone: z.string().nullish(),
+      meeting_prefix: z.string().nullish(),
+    })
+    .nullish(),
+});
+
+export const googleCalendarStatusResponseSchema = z.object({
+  connected: z.boolean(),
+  email: z.string().nullish(),
+  last_sync_at: z.string().nullish(),
+});
+
+export const googleAuthUrlResponseSchema = z.object({
+  authorization_url: z.string(),
+});
+
+export const googleCalendarSyncResponseSchema = z.object({
+  stats: z
+    .object({
+      meetings_created: z.number().nullish(),
+      meetings_updated: z.number().nullish(),
+    })
+    .nullish(),
+});
+
+export const telegramStatusResponseSchema = z.object({
+  success: z.boolean(),
+  data: z
+    .object({
+      connected: z.boolean(),
+      chat_id: z.string().nullish(),
+    })
+    .nullish(),
+});
+
+export const telegramLinkResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    token: z.string(),
+    deep_link: z.string(),
+  }),
+});
+
+// ============================================================================
+// Admin: Companies & Team Members
+// ============================================================================
+
+export const adminCompanySchema = z.object({
+  company_id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  country: z.string(),
+  city: z.string(),
+  timezone: z.string(),
+  plan_type: z.enum(['meeting_tracker', 'oracle']),
+  status: z.string(),
+  website: z.string().nullish(),
+  meeting_prefix: z.string().nullish(),
+  vision: z.string().nullish(),
+  mission: z.string().nullish(),
+  summary: z.string().nullish(),
+  tagline: z.string().nullish(),
+  address: z.string().nullish(),
+  logo_url: z.string().nullish(),
+  created_at: z.string(),
+  updated_at: z.string().nullish(),
+  team_member_count: z.number().nullish(),
+});
+
+export const adminCompanyListSchema = z.array(adminCompanySchema);
+
+export const companyLogoResponseSchema = z.object({
+  logo_url: z.string(),
+});
+
+const csvRowErrorSchema = z.object({
+  row: z.number(),
+  field: z.string(),
+  error: z.string(),
+});
+
+export const csvValidationResultSchema = z.object({
+  is_valid: z.boolean(),
+  total_rows: z.number(),
+  valid_rows: z.number(),
+  errors: z.array(csvRowErrorSchema),
+});
+
+export const csvImportResultSchema = z.object({
+  success: z.boolean(),
+  imported_count: z.number(),
+  total_rows: z.number(),
+  errors: z.array(z.string()),
+  company_activated: z.boolean(),
+});
+
+export const adminTeamMemberSchema = z.object({
+  member_id: z.string(),
+  user_id: z.string(),
+  email: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  manager_id: z.string().nullable(),
+  manager_name: z.string().nullable(),
+  level: z.number(),
+  team_name: z.string().nullable(),
+  position_title: z.string().nullable(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  company: z
+    .object({
+      company_id: z.string(),
+      name: z.string(),
+    })
+    .nullish(),
+});
+
+export const adminTeamMemberListResponseSchema = z.object({
+  members: z.array(adminTeamMemberSchema),
+  total: z.number(),
+  page: z.number(),
+  limit: z.number(),
+  total_pages: z.number(),
+});
+
+export const hierarchyUploadResponseSchema = z.object({
+  success: z.boolean(),
+  validated: z.number(),
+  imported: z.number(),
+  errors: z.array(csvRowErrorSchema),
+  total_rows: z.number(),
+  message: z.string(),
+});
@@ -0,0 +1,40 @@
+/**
+ * Dashboard Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/admin-dashboard.ts
+ */
+
+import { z } from 'zod';
+
+export const dashboardStatsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    stats: z.array(
+      z.object({
+        title: z.string(),
+        value: z.union([z.string(), z.number()]),
+        suffix: z.string().nullish(),
+      })
+    ),
+  }),
+});
+
+export const adminDashboardResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    stats: z.object({
+      total_team_members: z.number(),
+      total_products: z.number(),
+      pending_invitations: z.number(),
+      total_proposals: z.number(),
+    }),
+    recent_activities: z.object({
+      recent_uploads: z.array(z.object({ insurance_name: z.string(), created_at: z.string() })),
+      recent_invitations: z.array(
+        z.object({ invited_by_name: z.string(), email: z.string(), created_at: z.string() })
+      ),
+      recent_proposals: z.array(
+        z.object({ created_by_name: z.string(), client_name: z.string(), created_at: z.string() })
+      ),
+    }),
+  }),
+});
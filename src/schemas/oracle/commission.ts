@@ -0,0 +1,65 @@
+/**
+ * Commission Response Schemas
+ * Runtime mirrors of the response types in src/types/oracle/commission.ts
+ */
+
+import { z } from 'zod';
+
+export const commissionSchema = z.object({
+  commission_id: z.string(),
+  insurance_id: z.string(),
+  premium_term: z.string(),
+  role_id: z.number(),
+  commission_year: z.number(),
+  commission_rate: z.number(),
+  role_name: z.string().nullish(),
+});
+
+export const commissionListSchema = z.array(commissionSchema);
+
+export const commissionCalculationSchema = z.object({
+  insurance_id: z.string(),
+  premium_term: z.string(),
+  commission_structure: z.record(z.record(z.number())),
+});
+
+export const productsWithCommissionsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z
+    .array(
+      z.object({
+        insurance_id: z.string(),
+        insurance_name: z.string(),
+        provider: z.string(),
+        category: z.string(),
+        commission_count: z.number().nullish(),
+        role_commission: z
+          .object({
+            year_1: z.number(),
+            year_2: z.number(),
+            year_3: z.number(),
+          })
+          .nullish(),
+      })
+    )
+    .nullish(),
+});
+
+export const masterCommissionListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z
+    .object({
+      insurances: z.array(
+        z.object({
+          insurance_id: z.string(),
+          insurance_name: z.string(),
+          category: z.string(),
+          discontinued: z.boolean(),
+          company_id: z.string(),
+          company_name: z.string(),
+        })
+      ),
+      total: z.number(),
+    })
+    .nullish(),
+});
@@ -0,0 +1,45 @@
+/**
+ * Company Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/company.ts
+ */
+
+import { z } from 'zod';
+
+export const companyProfileSchema = z.object({
+  company_id: z.string(),
+  name: z.string(),
+  email: z.string().nullish(),
+  phone: z.string().nullish(),
+  address: z.string().nullish(),
+  website: z.string().nullish(),
+  city: z.string().nullish(),
+  country: z.string().nullish(),
+  logo_url: z.string().nullish(),
+  vision: z.string().nullish(),
+  mission: z.string().nullish(),
+  tagline: z.string().nullish(),
+  summary: z.string().nullish(),
+  description: z.string().nullish(),
+  values: z.array(z.string()).nullish(),
+  licensing_info: z.string().nullish(),
+  certifications: z.array(z.string()).nullish(),
+  is_default: z.boolean().nullish(),
+  created_at: z.string().nullish(),
+  updated_at: z.string().nullish(),
+});
+
+export const companyListResponseSchema = z.object({
+  success: z.boolean(),
+  companies: z.array(companyProfileSchema),
+  total_count: z.number().nullish(),
+});
+
+// Create and update answer with the company, bare or wrapped
+export const companySaveResponseSchema = z.union([
+  companyProfileSchema,
+  z.object({ company: companyProfileSchema }),
+]);
+
+export const companyLogoUploadResponseSchema = z.object({
+  logo_url: z.string(),
+});
@@ -0,0 +1,24 @@
+/**
+ * Product Comparison Response Schemas
+ * Runtime mirrors of the types in src/lib/api/oracle/compare.ts
+ */
+
+import { z } from "zod";
+
+export const comparisonSummarySchema = z.object({
+  summary: z.string(),
+  key_points: z.array(z.string()),
+  cached: z.boolean(),
+  generated_at: z.string(),
+  category: z.string().nullable(),
+});
+
+export const comparisonPdfSchema = z.object({
+  pdf_url: z.string(),
+  pdf_path: z.string(),
+  generated_at: z.string(),
+  page_count: z.number(),
+  file_size: z.number(),
+  category_group: z.string(),
+  product_count: z.number(),
+});
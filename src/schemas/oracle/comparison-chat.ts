@@ -0,0 +1,67 @@
+/**
+ * Comparison Chat Response Schemas
+ * Runtime mirrors of ChatResponse in src/types/oracle/comparison-chat.ts
+ */
+
+import { z } from "zod";
+
+const productInfoSchema = z.object({
+  insurance_id: z.string(),
+  insurance_name: z.string(),
+});
+
+const referenceSchema = z.union([
+  z.object({
+    page: z.number(),
+    section: z.string(),
+    chunk_index: z.number().nullish(),
+  }),
+  z.object({
+    insurance_id: z.string(),
+    insurance_name: z.string(),
+    sections: z.array(z.string()),
+  }),
+]);
+
+const answerResponseSchema = z.object({
+  type: z.literal("answer"),
+  answer: z.string(),
+  source: z.enum(["rag", "markdown"]),
+  tier: z.string().nullish(),
+  insurance_id: z.string().nullish(),
+  insurance_name: z.string().nullish(),
+  chunks_retrieved: z.number().nullish(),
+  products: z.array(productInfoSchema).nullish(),
+  references: z.array(referenceSchema),
+  token_usage: z.object({
+    input_tokens: z.number(),
+    output_tokens: z.number(),
+    total_tokens: z.number(),
+  }),
+  cost: z.object({
+    input_cost_usd: z.number(),
+    output_cost_usd: z.number(),
+    total_cost_usd: z.number(),
+  }),
+  processing_time_ms: z.number(),
+  model_used: z.string(),
+  timestamp: z.string(),
+});
+
+const clarificationResponseSchema = z.object({
+  type: z.literal("clarification"),
+  message: z.string(),
+  detected_products: z.array(productInfoSchema),
+  options: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+    })
+  ),
+  timestamp: z.string(),
+});
+
+export const chatResponseSchema = z.discriminatedUnion("type", [
+  answerResponseSchema,
+  clarificationResponseSchema,
+]);
@@ -0,0 +1,36 @@
+/**
+ * FX Rate Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/fx-rate.ts
+ */
+
+import { z } from 'zod';
+
+export const fxRateQuoteResponseSchema = z.object({
+  success: z.boolean(),
+  from_currency: z.string(),
+  to_currency: z.string(),
+  rate: z.number(),
+  source: z.string(),
+  as_of: z.string(),
+});
+
+export const proposalFxRateSchema = z.object({
+  from_currency: z.string(),
+  to_currency: z.string(),
+  rate: z.number(),
+  source: z.string(),
+  as_of: z.string(),
+  captured_at: z.string(),
+  override_reason: z.string().nullish(),
+  overridden_by: z
+    .object({
+      user_id: z.string(),
+      name: z.string(),
+    })
+    .nullish(),
+  market_rate: z.number().nullish(),
+});
+
+export const proposalFxRateListResponseSchema = z.object({
+  data: z.array(proposalFxRateSchema),
+});
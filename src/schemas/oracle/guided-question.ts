@@ -0,0 +1,73 @@
+/**
+ * Guided Question Set Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/guided-question.ts and src/config/guidedQuestions.ts
+ */
+
+import { z } from 'zod';
+
+const facetUnitSchema = z.enum(['age', 'days', 'years', 'amount', 'percent', 'count', 'multiple']);
+
+// Filters nest (all / any / not), so the schema refers to itself
+const answerFilterSchema: z.ZodTypeAny = z.lazy(() =>
+  z.union([
+    z.object({ type: z.literal('has_benefit'), fields: z.array(z.string()) }),
+    z.object({ type: z.literal('mentions'), fields: z.array(z.string()), pattern: z.string() }),
+    z.object({
+      type: z.literal('range'),
+      field: z.string(),
+      unit: facetUnitSchema,
+      min: z.number().optional(),
+      max: z.number().optional(),
+    }),
+    z.object({ type: z.literal('category'), categories: z.array(z.string()) }),
+    z.object({ type: z.literal('all'), filters: z.array(answerFilterSchema) }),
+    z.object({ type: z.literal('any'), filters: z.array(answerFilterSchema) }),
+    z.object({ type: z.literal('not'), filter: answerFilterSchema }),
+  ])
+);
+
+export const answerMatchSchema = z.object({ need: z.string(), filter: answerFilterSchema });
+
+export const questionSchema = z.object({
+  id: z.string(),
+  question: z.string(),
+  type: z.enum(['single', 'multiple', 'input']),
+  options: z
+    .array(
+      z.object({
+        value: z.string(),
+        label: z.string(),
+        description: z.string().optional(),
+        match: answerMatchSchema.optional(),
+      })
+    )
+    .optional(),
+  placeholder: z.string().optional(),
+  required: z.boolean(),
+  helpText: z.string().optional(),
+  showIf: z
+    .array(
+      z.object({
+        questionId: z.string(),
+        in: z.array(z.string()).optional(),
+        notIn: z.array(z.string()).optional(),
+      })
+    )
+    .optional(),
+});
+
+export const guidedQuestionSetSchema = z.object({
+  category_id: z.string(),
+  company_id: z.string(),
+  questions: z.array(questionSchema),
+  updated_by_name: z.string().nullish(),
+  updated_at: z.string(),
+});
+
+export const guidedQuestionSetResponseSchema = z.object({
+  data: guidedQuestionSetSchema,
+});
+
+export const guidedQuestionSetListResponseSchema = z.object({
+  data: z.array(guidedQuestionSetSchema),
+});
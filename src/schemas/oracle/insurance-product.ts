@@ -0,0 +1,199 @@
+/**
+ * Insurance Product Response Schemas
+ * Runtime mirror of InsuranceProduct in src/types/oracle/insurance-product.ts
+ */
+
+import { z } from "zod";
+
+// Descriptive product fields are free text and often missing
+const text = z.string().nullish();
+
+export const insuranceProductSchema = z.object({
+  // System fields
+  insurance_id: z.string(),
+  created_at: text,
+  updated_at: text,
+  company_id: text,
+  processing_status: text,
+  uploaded_by: text,
+
+  // ===== 23 CORE PRODUCT FIELDS =====
+  insurance_name: z.string(),
+  provider: z.string(),
+  provider_country: text,
+  jurisdiction: text,
+  category: z.string(),
+  key_features: text,
+  key_features_bullets: text,
+  age_of_entry: text,
+  minimum_premium: text,
+  minimum_sum_assured: text,
+  maximum_sum_assured: text,
+  guaranteed_interest_rate: text,
+  historical_performance: text,
+  insurance_yield: text,
+  suitable_for: text,
+  time_horizon: text,
+  specific_needs: text,
+  reason_for_need: text,
+  target_market: text,
+  riders_addons: text,
+  premium_payment_options: text,
+  death_benefit_options: text,
+  market_positioning: text,
+
+  discontinued: z.boolean().nullish(),
+  jurisdiction_confidence_score: z.number().nullish(),
+  jurisdiction_confidence_level: z.enum(['HIGH', 'MEDIUM', 'LOW', 'NONE']).nullish(),
+  jurisdiction_requires_review: z.boolean().nullish(),
+  jurisdiction_manually_verified: z.boolean().nullish(),
+
+  // ===== 5 UNIVERSAL PRODUCT STRUCTURE FIELDS =====
+  product_core_type: text,
+  coverage_term: text,
+  base_currency_options: z.array(z.string()).nullish(),
+  policy_term_maturity: text,
+  premium_structure: text,
+
+  // ===== 18 CRITICAL ILLNESS (CI) SPECIFIC FIELDS =====
+  ci_total_conditions_covered: z.number().nullish(),
+  ci_early_minor_stage: text,
+  ci_intermediate_stage: text,
+  ci_major_advanced_stage: text,
+  ci_max_claims_allowed: text,
+  ci_waiting_period_between_claims: text,
+  ci_relapse_recurrent_rule: text,
+  ci_grouping_pot_rules: text,
+  ci_waiver_triggers: text,
+  ci_waiver_duration: text,
+  ci_icu_benefit: text,
+  ci_juvenile_special_needs: text,
+  ci_angioplasty_benefit: text,
+  ci_benign_tumor_benefit: text,
+  ci_initial_waiting_period: text,
+  ci_survival_period: text,
+  ci_pre_existing_conditions: text,
+  ci_age_limits_on_coverage: text,
+
+  // ===== 23 LIFE PROTECTION SPECIFIC FIELDS =====
+  death_benefit_guarantee: text,
+  death_benefit_multipliers: text,
+  death_benefit_payout_options: text,
+  terminal_illness_benefit: text,
+  total_permanent_disability: text,
+  growth_mechanism: text,
+  downside_protection_floor: text,
+  upside_potential_cap: text,
+  loyalty_special_bonuses: text,
+  cash_value_access: text,
+  premium_holiday_pause: text,
+  critical_illness_rider: text,
+  premium_waiver_riders: text,
+  accidental_death_benefit: text,
+  retrenchment_benefit: text,
+  change_of_life_insured: text,
+  policy_split_option: text,
+  contingent_policy_owner: text,
+  mental_incapacity_benefit: text,
+  guaranteed_issuance_option: text,
+  convertibility_option: text,
+  suicide_exclusion: text,
+  medical_underwriting: text,
+
+  // ===== 23 SAVINGS SPECIFIC FIELDS =====
+  savings_premium_funding_options: text,
+  savings_top_up_injections: text,
+  savings_growth_mechanism: text,
+  savings_bonus_structure: text,
+  savings_cashback_coupon_payouts: text,
+  savings_cashback_reinvestment: text,
+  savings_income_payout_period: text,
+  savings_capital_guarantee_status: text,
+  savings_guaranteed_breakeven_target: text,
+  savings_partial_withdrawals: text,
+  savings_policy_loan: text,
+  savings_premium_holiday: text,
+  savings_retrenchment_benefit: text,
+  savings_embedded_riders: text,
+  savings_accidental_death: text,
+  savings_change_of_insured: text,
+  savings_policy_split: text,
+  savings_contingent_owner: text,
+  savings_death_settlement: text,
+  savings_mental_incapacity: text,
+  savings_medical_underwriting: text,
+  savings_entry_age_limits: text,
+  savings_surrender_penalties: text,
+
+  // ===== 21 ILP (INVESTMENT-LINKED PRODUCT) SPECIFIC FIELDS =====
+  ilp_top_up_injections: text,
+  ilp_premium_funding_options: text,
+  ilp_fund_universe: text,
+  ilp_fund_switching_fee: text,
+  ilp_dividend_paying_funds: text,
+  ilp_dividend_settlement: text,
+  ilp_auto_rebalancing: text,
+  ilp_welcome_initial_bonus: text,
+  ilp_loyalty_bonus: text,
+  ilp_special_milestone_bonus: text,
+  ilp_bonus_clawback_rules: text,
+  ilp_premium_charge: text,
+  ilp_account_maintenance_fee: text,
+  ilp_fund_management_fee: text,
+  ilp_early_surrender_penalty: text,
+  ilp_premium_holiday: text,
+  ilp_partial_withdrawals: text,
+  ilp_minimum_account_balance: text,
+  ilp_embedded_riders: text,
+  ilp_change_of_insured: text,
+  ilp_medical_underwriting: text,
+
+  // ===== ADVISOR'S VERDICT (3 FIELDS) =====
+  key_strengths: text,
+  key_weaknesses: text,
+  best_for: text,
+
+  // ===== ADDITIONAL FIELDS =====
+  pdf_url: text,
+  markdown_url: text,
+  vector_id: text,
+  document_summary: text,
+  snp_rating: text,
+});
+
+export const productResponseSchema = z.object({
+  success: z.boolean(),
+  data: insuranceProductSchema,
+});
+
+// List rows come from the product search, which can omit the provider
+export const productListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    products: z.array(insuranceProductSchema.extend({ provider: text })),
+    total: z.number(),
+    limit: z.number(),
+    offset: z.number(),
+  }),
+});
+
+export const productCategoriesResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(z.string()),
+});
+
+export const productProvidersResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(z.string()),
+});
+
+export const insuranceOptionListResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      insurance_id: z.string(),
+      insurance_name: z.string(),
+      provider: z.string(),
+      category: z.string(),
+    })
+  ),
+});
@@ -0,0 +1,53 @@
+/**
+ * Invitation Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/invitation.ts
+ */
+
+import { z } from 'zod';
+
+export const invitationSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  role_id: z.number(),
+  role_name: z.string(),
+  company_id: z.string(),
+  company_name: z.string(),
+  invited_by: z.string(),
+  invited_by_email: z.string(),
+  status: z.string(),
+  created_at: z.string(),
+  expires_at: z.string(),
+  updated_at: z.string().nullish(),
+});
+
+export const invitationListResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    invitations: z.array(invitationSchema),
+    total: z.number(),
+  }),
+});
+
+export const invitableRolesResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    roles: z.array(
+      z.object({
+        id: z.number(),
+        name: z.string(),
+        description: z.string().nullish(),
+      })
+    ),
+    user_role: z.string(),
+  }),
+});
+
+export const cleanupExpiredInvitationsResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    expired_count: z.number(),
+  }),
+});
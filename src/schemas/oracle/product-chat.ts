@@ -0,0 +1,68 @@
+/**
+ * Product Chat Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/product-chat.ts
+ */
+
+import { z } from 'zod';
+
+export const chatMessageSchema = z.object({
+  message_id: z.string(),
+  session_id: z.string(),
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.string(),
+  created_at: z.string(),
+  sequence_number: z.number(),
+  status: z.enum(['pending', 'sent', 'delivered', 'failed', 'deleted']),
+  metadata: z.record(z.any()).nullish(),
+});
+
+export const chatSessionSchema = z.object({
+  session_id: z.string(),
+  user_id: z.string(),
+  insurance_id: z.string(),
+  session_name: z.string(),
+  status: z.enum(['active', 'archived', 'deleted']),
+  created_at: z.string(),
+  updated_at: z.string(),
+  last_message_at: z.string(),
+  message_count: z.number(),
+  session_metadata: z.record(z.any()).nullish(),
+});
+
+export const chatSessionListResponseSchema = z.object({
+  success: z.boolean(),
+  sessions: z.array(
+    chatSessionSchema.extend({
+      insurance_title: z.string().nullish(),
+      insurance_company: z.string().nullish(),
+      insurance_product_type: z.string().nullish(),
+      activity_status: z.enum(['recent', 'today', 'this_week', 'older']).nullish(),
+    })
+  ),
+  total_count: z.number(),
+  active_count: z.number(),
+  archived_count: z.number(),
+});
+
+export const chatSessionCreateResponseSchema = z.object({
+  success: z.boolean(),
+  session: chatSessionSchema,
+  first_message: chatMessageSchema.nullish(),
+  message: z.string(),
+});
+
+// The streamed answer's closing `done` event
+export const sentChatMessageSchema = z.object({
+  assistant_message: chatMessageSchema.nullish(),
+  session: chatSessionSchema,
+});
+
+export const chatMessageListResponseSchema = z.object({
+  success: z.boolean(),
+  messages: z.array(chatMessageSchema),
+  session: chatSessionSchema,
+  total_messages: z.number(),
+  page: z.number(),
+  limit: z.number(),
+  has_more: z.boolean(),
+});
@@ -0,0 +1,82 @@
+/**
+ * Proposal Share Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/proposal-share.ts
+ */
+
+import { z } from 'zod';
+import { proposalLanguageSchema } from '@/schemas/oracle/proposal';
+import { proposalTemplateSchema } from '@/schemas/oracle/proposal-template';
+
+const proposalShareLinkSchema = z.object({
+  share_id: z.string(),
+  proposal_id: z.string(),
+  token: z.string(),
+  pin_protected: z.boolean(),
+  expires_at: z.string(),
+  revoked_at: z.string().nullish(),
+  created_at: z.string(),
+  created_by: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+    })
+    .nullish(),
+  view_count: z.number(),
+  last_viewed_at: z.string().nullish(),
+});
+
+export const proposalShareLinkListResponseSchema = z.object({
+  data: z.array(proposalShareLinkSchema),
+});
+
+export const proposalShareLinkResponseSchema = z.object({
+  data: proposalShareLinkSchema,
+});
+
+export const proposalShareViewListResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      view_id: z.string(),
+      share_id: z.string(),
+      opened_at: z.string(),
+      last_active_at: z.string(),
+      duration_seconds: z.number(),
+      pages: z.array(
+        z.object({
+          page_number: z.number(),
+          seconds: z.number(),
+        })
+      ),
+      device: z.string().nullish(),
+    })
+  ),
+});
+
+export const sharedProposalResponseSchema = z.object({
+  data: z.object({
+    client_name: z.string(),
+    company_name: z.string().nullish(),
+    company_logo_url: z.string().nullish(),
+    advisor_name: z.string().nullish(),
+    expires_at: z.string(),
+    pin_required: z.boolean(),
+    status: z.string(),
+    signature: z
+      .object({
+        signer_name: z.string(),
+        signed_at: z.string(),
+      })
+      .nullish(),
+    fx_rates_as_of: z.string().nullish(),
+    language: proposalLanguageSchema.nullish(),
+    secondary_language: proposalLanguageSchema.nullish(),
+  }),
+});
+
+export const sharedProposalSessionResponseSchema = z.object({
+  data: z.object({
+    view_id: z.string(),
+    view_token: z.string(),
+    template: proposalTemplateSchema.nullable(),
+  }),
+});
@@ -0,0 +1,50 @@
+/**
+ * Proposal Template Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/proposal-template.ts
+ */
+
+import { z } from 'zod';
+
+export const proposalTemplateSchema = z.object({
+  template_id: z.string(),
+  company_id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  audience: z.string().nullish(),
+  sections: z.array(z.enum(['title', 'features', 'illustration', 'recommendation', 'comparison'])),
+  cover: z
+    .object({
+      title: z.string(),
+      subtitle: z.string().nullish(),
+    })
+    .nullable(),
+  disclaimers: z.array(
+    z.object({
+      title: z.string(),
+      body: z.string(),
+    })
+  ),
+  palette: z.object({
+    primary: z.string(),
+    secondary: z.string(),
+    accent: z.string(),
+    text: z.string(),
+    background: z.string(),
+  }),
+  typography: z.object({
+    heading_font: z.string(),
+    body_font: z.string(),
+    base_font_size: z.number(),
+  }),
+  is_default: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string().nullish(),
+});
+
+export const proposalTemplateResponseSchema = z.object({
+  data: proposalTemplateSchema,
+});
+
+export const proposalTemplateListResponseSchema = z.object({
+  data: z.array(proposalTemplateSchema),
+});
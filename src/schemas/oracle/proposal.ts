@@ -0,0 +1,296 @@
+/**
+ * Proposal Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/proposal.ts
+ */
+
+import { z } from 'zod';
+import { proposalFxRateSchema } from '@/schemas/oracle/fx-rate';
+
+export const proposalLanguageSchema = z.enum(['en', 'ms', 'zh']);
+
+const illustrationSchema = z.object({
+  id: z.string(),
+  original_filename: z.string(),
+  illustration_order: z.number(),
+  extraction_status: z.string(),
+  cash_extraction_status: z.string().nullish(),
+  extracted_insurance_name: z.string().nullish(),
+  matched_insurance_id: z.string().nullish(),
+  manual_insurance_assignment: z.string().nullish(),
+  final_insurance_name: z.string().nullish(),
+  is_duplicate_insurance: z.boolean(),
+  extraction_confidence: z.number().nullish(),
+  processing_notes: z.string().nullish(),
+  review_flags: z
+    .object({
+      currency_review_needed: z.boolean().nullish(),
+      currency_review_reason: z.string().nullish(),
+      detected_currency_value: z.string().nullish(),
+      suggested_currencies: z.array(z.string()).nullish(),
+    })
+    .nullish(),
+  created_at: z.string(),
+});
+
+export const proposalResponseSchema = z.object({
+  data: z.object({
+    proposal_id: z.string(),
+    client_id: z.string().nullish(),
+    client_name: z.string(),
+    client_dob: z.string().nullish(),
+    client_gender: z.string().nullish(),
+    client_occupation: z.string().nullish(),
+    client_needs: z.string(),
+    needs_source: z.string(),
+    proposal_type: z.string(),
+    status: z.string(),
+    target_currency: z.string().nullish(),
+    language: proposalLanguageSchema.nullish(),
+    secondary_language: proposalLanguageSchema.nullish(),
+    highlighted_insurance_id: z.string().nullish(),
+    highlighted_insurance_name: z.string().nullish(),
+    template_id: z.string().nullish(),
+    fx_rates: z.array(proposalFxRateSchema).nullish(),
+    intelligent_cash_analysis: z
+      .object({
+        selected_ages: z.array(z.number()).nullish(),
+      })
+      .nullish(),
+    illustrations: z.array(illustrationSchema),
+    created_by: z
+      .object({
+        user_id: z.string(),
+        name: z.string(),
+      })
+      .nullish(),
+    created_at: z.string(),
+    updated_at: z.string(),
+  }),
+});
+
+export const proposalListResponseSchema = z.object({
+  data: z
+    .object({
+      proposals: z.array(
+        z.object({
+          proposal_id: z.string(),
+          client_name: z.string(),
+          proposal_type: z.string(),
+          status: z.string(),
+          illustration_count: z.number(),
+          highlighted_insurance_name: z.string().nullish(),
+          created_by: z
+            .object({
+              user_id: z.string(),
+              name: z.string(),
+            })
+            .nullish(),
+          archived_at: z.string().nullish(),
+          created_at: z.string(),
+          updated_at: z.string(),
+        })
+      ),
+    })
+    .nullish(),
+});
+
+export const proposalCreateResponseSchema = z.object({
+  data: z.object({
+    proposal_id: z.string(),
+  }),
+});
+
+export const proposalDeleteResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string().nullish(),
+});
+
+export const aiQueryHistoryResponseSchema = z.object({
+  data: z
+    .object({
+      searches: z.array(
+        z.object({
+          id: z.string(),
+          query_text: z.string(),
+          created_at: z.string(),
+          result_count: z.number(),
+        })
+      ),
+    })
+    .nullish(),
+});
+
+// One page of the generated proposal, as HTML
+export const proposalPageHtmlSchema = z.string();
+
+export const intelligentAnalysisStatusResponseSchema = z.object({
+  data: z
+    .object({
+      status: z.string(),
+    })
+    .nullish(),
+});
+
+// Page 1, 2 or 4 content; its fields are free-form AI output
+export const proposalSectionContentResponseSchema = z.object({
+  data: z.record(z.unknown()),
+});
+
+// A regenerated section waiting for the advisor to accept it; the rest is the section's content
+export const proposalContentDraftResponseSchema = z.object({
+  data: z.object({
+    draft_id: z.string(),
+  }),
+});
+
+export const illustrationInsuranceMatchListResponseSchema = z.object({
+  data: z
+    .array(
+      z.object({
+        insurance_id: z.string(),
+        insurance_name: z.string(),
+        provider: z.string(),
+        category: z.string(),
+        currency: z.string().nullish(),
+      })
+    )
+    .nullish(),
+});
+
+// The illustrations created by an upload
+export const illustrationUploadResponseSchema = z.object({
+  data: z.array(illustrationSchema),
+});
+
+const fieldProvenanceSchema = z.object({
+  page: z.number(),
+  section: z.string(),
+  chunk_index: z.number().nullish(),
+  bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]).nullish(),
+  confidence: z.number().nullish(),
+});
+
+const extractedIllustrationSchema = z.object({
+  id: z.string(),
+  extraction_status: z.string().nullish(),
+  comprehensive_data: z.record(z.unknown()).nullish(),
+  user_edited_data: z.record(z.unknown()).nullish(),
+  field_provenance: z.record(fieldProvenanceSchema).nullish(),
+});
+
+// The endpoint has returned both a bare list and a { success, data } envelope
+export const extractedIllustrationListSchema = z.array(extractedIllustrationSchema);
+
+export const extractedIllustrationsResponseSchema = z.object({
+  data: extractedIllustrationListSchema.nullish(),
+});
+
+export const proposalGenerationResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string().nullish(),
+});
+
+// ============================================================================
+// Revisions
+// ============================================================================
+
+const generatedContentSchema = z.object({
+  page1: z.record(z.unknown()).nullish(),
+  page2: z.record(z.unknown()).nullish(),
+  page4: z.record(z.unknown()).nullish(),
+});
+
+const proposalRevisionSchema = z.object({
+  revision_id: z.string(),
+  proposal_id: z.string(),
+  revision_number: z.number(),
+  trigger: z.string(),
+  summary: z.string().nullish(),
+  restored_from_revision_id: z.string().nullish(),
+  created_by: z
+    .object({
+      user_id: z.string(),
+      name: z.string(),
+    })
+    .nullish(),
+  created_at: z.string(),
+});
+
+const proposalRevisionDetailSchema = proposalRevisionSchema.extend({
+  snapshot: z.object({
+    proposal: z.object({
+      client_name: z.string(),
+      client_dob: z.string().nullish(),
+      client_needs: z.string(),
+      status: z.string(),
+      highlighted_insurance_id: z.string().nullish(),
+      highlighted_insurance_name: z.string().nullish(),
+    }),
+    illustrations: extractedIllustrationListSchema,
+    generated_content: generatedContentSchema,
+  }),
+});
+
+export const proposalRevisionListResponseSchema = z.object({
+  data: z.array(proposalRevisionSchema),
+});
+
+export const proposalRevisionResponseSchema = z.object({
+  data: proposalRevisionSchema,
+});
+
+export const proposalRevisionDetailResponseSchema = z.object({
+  data: proposalRevisionDetailSchema,
+});
+
+// ============================================================================
+// Signatures
+// ============================================================================
+
+export const proposalSignatureResponseSchema = z.object({
+  data: z.object({
+    signature_id: z.string(),
+    proposal_id: z.string(),
+    signer_name: z.string(),
+    method: z.enum(['drawn', 'typed']),
+    channel: z.enum(['shared_link', 'in_person']),
+    acknowledgements: z.array(
+      z.object({
+        title: z.string(),
+        text: z.string(),
+      })
+    ),
+    signed_at: z.string(),
+    document_hash: z.string(),
+    witnessed_by: z
+      .object({
+        user_id: z.string(),
+        name: z.string(),
+      })
+      .nullish(),
+  }),
+});
+
+// ============================================================================
+// Page overrides
+// ============================================================================
+
+const proposalPageOverrideSchema = z.object({
+  page_number: z.number(),
+  html: z.string(),
+  updated_at: z.string(),
+  updated_by: z
+    .object({
+      user_id: z.string(),
+      name: z.string(),
+    })
+    .nullish(),
+});
+
+export const proposalPageOverrideListResponseSchema = z.object({
+  data: z.array(proposalPageOverrideSchema),
+});
+
+export const proposalPageOverrideResponseSchema = z.object({
+  data: proposalPageOverrideSchema,
+});
@@ -0,0 +1,48 @@
+/**
+ * Saved Search Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/saved-search.ts
+ */
+
+import { z } from 'zod';
+
+export const savedSearchSchema = z.object({
+  search_id: z.string(),
+  name: z.string(),
+  query: z.string(),
+  category: z.string().nullable(),
+  jurisdiction: z.enum(['all', 'local', 'global']),
+  guided_parameters: z
+    .object({ category: z.string() })
+    .catchall(z.union([z.string(), z.array(z.string())]).optional())
+    .nullish(),
+  alerts_enabled: z.boolean(),
+  new_match_count: z.number(),
+  last_run_at: z.string().nullish(),
+  created_at: z.string(),
+  updated_at: z.string().nullish(),
+});
+
+export const savedSearchResponseSchema = z.object({
+  success: z.boolean(),
+  data: savedSearchSchema,
+});
+
+export const savedSearchListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(savedSearchSchema),
+});
+
+export const savedSearchAlertSchema = z.object({
+  alert_id: z.string(),
+  search_id: z.string(),
+  search_name: z.string(),
+  insurance_id: z.string(),
+  insurance_name: z.string(),
+  provider: z.string().nullish(),
+  created_at: z.string(),
+});
+
+export const savedSearchAlertListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(savedSearchAlertSchema),
+});
@@ -0,0 +1,33 @@
+/**
+ * User Management Response Schemas
+ * Runtime mirrors of the types in src/types/oracle/user.ts
+ */
+
+import { z } from 'zod';
+
+export const managedUserSchema = z.object({
+  user_id: z.string(),
+  email: z.string(),
+  first_name: z.string().nullable(),
+  last_name: z.string().nullable(),
+  phone: z.string().nullable(),
+  role: z.string(),
+  company_id: z.string().nullable(),
+  company_name: z.string().nullish(),
+  is_profile_complete: z.boolean(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string().nullable(),
+  deactivated_at: z.string().nullable(),
+});
+
+export const managedUserListResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    users: z.array(managedUserSchema),
+    total: z.number(),
+    limit: z.number(),
+    offset: z.number(),
+  }),
+});
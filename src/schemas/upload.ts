@@ -0,0 +1,51 @@
+/**
+ * Document Upload Response Schemas
+ *
+ * Runtime mirrors of the response types in src/types/upload.ts
+ */
+
+import { z } from 'zod';
+
+export const processingStatusSchema = z.object({
+  upload_id: z.string(),
+  filename: z.string(),
+  status: z.enum(['processing', 'parsing', 'extracting', 'storing', 'completed', 'failed']),
+  progress_percentage: z.number(),
+  current_step: z.string(),
+  error: z.string().nullish(),
+  estimated_completion: z.string().nullish(),
+  saved_search_matches: z.number().nullish(),
+});
+
+export const insuranceUploadResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  uploads: z.array(
+    z.object({
+      upload_id: z.string(),
+      filename: z.string(),
+      status: z.enum(['uploaded', 'processing', 'completed', 'failed']),
+      message: z.string().nullish(),
+    })
+  ),
+  failed_uploads: z.array(z.record(z.string())),
+});
+
+export const uploadedDocumentListResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.array(
+    z.object({
+      id: z.string(),
+      filename: z.string(),
+      original_filename: z.string(),
+      file_size: z.number(),
+      content_type: z.string(),
+      upload_status: z.enum(['uploaded', 'processing', 'completed', 'failed']),
+      processing_status: processingStatusSchema.nullish(),
+      uploaded_at: z.string(),
+      processed_at: z.string().nullish(),
+      error_message: z.string().nullish(),
+    })
+  ),
+});
@@ -1,4 +1,6 @@
 import apiClient from '@/lib/api';
+import { validateResponse } from '@/lib/response-validation';
+import { authResponseSchema, otpResponseSchema, userSchema } from '@/schemas/auth';
 import {
   OTPRequest,
   OTPVerification,
@@ -16,7 +18,7 @@ class AuthService {
    */
   async requestOTP(data: OTPRequest): Promise<OTPResponse> {
     const response = await apiClient.post<OTPResponse>(`${this.baseUrl}/request-otp`, data);
-    return response.data;
+    return validateResponse(otpResponseSchema, response);
   }
 
   /**
@@ -24,7 +26,7 @@ class AuthService {
    */
   async verifyOTP(data: OTPVerification): Promise<AuthResponse> {
     const response = await apiClient.post<AuthResponse>(`${this.baseUrl}/verify-otp`, data);
-    return response.data;
+    return validateResponse(authResponseSchema, response);
   }
 
   /**
@@ -32,7 +34,7 @@ class AuthService {
    */
   async getCurrentUser(): Promise<User> {
     const response = await apiClient.get<User>(`${this.baseUrl}/me`);
-    return response.data;
+    return validateResponse(userSchema, response);
   }
 
   /**
@@ -40,7 +42,7 @@ class AuthService {
    */
   async updateProfile(data: ProfileUpdateData): Promise<User> {
     const response = await apiClient.put<User>(`${this.baseUrl}/me`, data);
-    return response.data;
+    return validateResponse(userSchema, response);
   }
 
   /**
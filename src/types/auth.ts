@@ -22,6 +22,14 @@ export interface Role {
   description: string | null;
 }
 
+// Company colours as hex strings; new proposal templates start from these
+export interface BrandColors {
+  primary?: string;
+  secondary?: string;
+  accent?: string;
+  [key: string]: string | undefined;
+}
+
 export interface Company {
   id: number;
   name: string;
@@ -33,7 +41,7 @@ export interface Company {
   email: string | null;
   website: string | null;
   description: string | null;
-  brand_colors: Record<string, any> | null;
+  brand_colors: BrandColors | null;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -43,6 +51,7 @@ export interface AuthTokens {
   access_token: string;
   token_type: string;
   expires_in: number;
+  refresh_token?: string;  // Only issued when the backend supports silent refresh
 }
 
 export interface AuthState {
@@ -71,6 +80,7 @@ export interface AuthResponse {
   access_token: string;
   token_type: string;
   expires_in: number;
+  refresh_token?: string;
   user: User;
 }
 
@@ -65,6 +65,9 @@ export interface ClientListItem {
   total_policies: number;
   active_policies: number;
   total_monthly_premium?: number | null;
+  // The advisor who owns the client, for team leaders viewing their team's clients
+  user_id?: string;
+  owner_name?: string | null;
   created_at: string;
   last_interaction_at?: string | null;
 }
@@ -156,6 +159,17 @@ export interface ClientPolicyUpdateData {
   policy_status?: PolicyStatus;
 }
 
+// A proposal made for the client, as listed on the client page
+export interface ClientProposal {
+  proposal_id: string;
+  client_name: string;
+  status: string;
+  highlighted_insurance_name?: string | null;
+  target_currency?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ClientSearchParams {
   search?: string;
   tags?: string;
@@ -164,6 +178,8 @@ export interface ClientSearchParams {
   offset?: number;
   sort_by?: string;
   sort_order?: 'asc' | 'desc';
+  // 'team' for the whole team, or one team member's user id; the current user's clients when unset
+  team_filter?: string;
 }
 
 export interface ClientListResponse {
@@ -191,6 +207,14 @@ export interface PolicyListResponse {
   };
 }
 
+export interface ClientProposalListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    proposals: ClientProposal[];
+  };
+}
+
 export interface PolicyResponse {
   success: boolean;
   message: string;
@@ -0,0 +1,551 @@
+/**
+ * Meeting Tracker Types
+ *
+ * TypeScript interfaces for meetings, reports, tasks, gamification,
+ * team hierarchy and admin endpoints of the Meeting Tracker backend
+ */
+
+// ============================================================================
+// Meetings & Reports
+// ============================================================================
+
+export type MeetingCategory = 'R' | 'N' | 'S';
+
+export interface Meeting {
+  meeting_id: string;
+  title: string;
+  category: MeetingCategory;
+  start_time: string;
+  end_time: string;
+  description?: string;
+  user_id?: string;
+  needs_review?: boolean;
+  confidence?: string;
+  has_report: boolean;
+  draft_saved?: boolean;
+  user?: {
+    user_id: string;
+    email: string;
+    first_name: string;
+    last_name: string;
+  };
+}
+
+export interface MeetingListParams {
+  team_filter?: string;
+  user_id?: string;
+  date_from?: string;
+  date_to?: string;
+  status?: string;
+}
+
+export interface MeetingListResponse {
+  meetings: Meeting[];
+}
+
+export interface MeetingResponse {
+  meeting: Meeting;
+}
+
+export interface MeetingCreateData {
+  title: string;
+  category: MeetingCategory;
+  start_time: string;
+  end_time: string;
+  description: string | null;
+  target_user_id: string | null;
+  sync_to_calendar: boolean;
+}
+
+export interface MeetingRescheduleData {
+  new_date: string;
+  new_start_time: string;
+  new_end_time: string;
+}
+
+export interface MeetingFollowUpData {
+  follow_up_date: string;
+  follow_up_start_time: string;
+  follow_up_end_time: string;
+  follow_up_notes?: string;
+}
+
+export interface UpcomingMeeting {
+  id: string;
+  meeting_type: 'S' | 'R' | 'N' | 'U';
+  person_name?: string;
+  meeting_title: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  user_id: string;
+  has_report?: boolean;
+}
+
+export interface UpcomingEventsResponse {
+  success: boolean;
+  data: {
+    date_range: {
+      start_date: string;
+      end_date: string;
+    };
+    meetings_by_date: Array<{
+      date: string;
+      day_name: string;
+      meetings: UpcomingMeeting[];
+    }>;
+  };
+}
+
+export interface MeetingReport {
+  report_id: string;
+  meeting_outcome: string;
+  has_tasks: boolean;
+  follow_up_needed: boolean;
+  follow_up_date?: string;
+  follow_up_start_time?: string;
+  follow_up_end_time?: string;
+  follow_up_notes?: string;
+  is_draft: boolean;
+}
+
+export interface ReportTask {
+  title: string;
+  due_date: string;
+  priority: TaskPriority;
+  status: 'in_progress' | 'done';
+}
+
+export interface MeetingReportResponse {
+  report: MeetingReport;
+  tasks: ReportTask[];
+}
+
+export interface MeetingReportSubmitData {
+  meeting_id: string;
+  meeting_outcome: string;
+  has_tasks: boolean;
+  tasks: ReportTask[];
+  follow_up_needed: boolean;
+  follow_up_date: string | null;
+  follow_up_start_time: string | null;
+  follow_up_end_time: string | null;
+  follow_up_notes: string | null;
+  is_draft: boolean;
+}
+
+export interface MeetingReportSubmitResponse {
+  xp_awarded?: XPAwarded;
+}
+
+// ============================================================================
+// Tasks
+// ============================================================================
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
+
+export interface Task {
+  task_id: string;
+  title: string;
+  task_description: string;
+  due_date: string;
+  priority: TaskPriority;
+  status: TaskStatus;
+  completed_at?: string;
+  report_id?: string;
+  meetings?: {
+    meeting_id: string;
+    title: string;
+    category: string;
+    start_time: string;
+  };
+  users?: {
+    user_id: string;
+    email: string;
+    first_name: string;
+    last_name: string;
+  };
+}
+
+export interface TaskStatistics {
+  total: number;
+  completed: number;
+  pending: number;
+  overdue: number;
+}
+
+export interface TaskListParams {
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  team_filter?: string;
+  due_from?: string;
+  due_to?: string;
+}
+
+export interface TaskListResponse {
+  tasks: Task[];
+  statistics?: TaskStatistics;
+}
+
+export interface TaskUpdateResponse {
+  xp_awarded?: XPAwarded;
+}
+
+export interface BulkTaskCreateData {
+  meeting_id: string;
+  target_user_id: string | null;
+  tasks: Array<{
+    task_description: string;
+    priority: 'High' | 'Medium' | 'Low'; // Bulk endpoint takes capitalised priorities
+    due_date: string;
+    assigned_to: string | null;
+  }>;
+}
+
+export interface BulkTaskCreateResponse {
+  statistics?: {
+    total_created: number;
+  };
+}
+
+// ============================================================================
+// Gamification
+// ============================================================================
+
+/**
+ * Envelope used by every /gamification endpoint
+ */
+export interface GamificationResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+export interface GamificationStats {
+  user_id: string;
+  points?: number; // Points awarded in this action (for toast notifications)
+  bonus_message?: string; // Bonus message if applicable (for toast notifications)
+  lifetime_xp: number;
+  level: number;
+  level_name: string;
+  level_icon: string;
+  xp_to_next_level: number;
+  current_year_xp: number;
+  current_year: number;
+  annual_tier: string;
+  tier_name: string;
+  tier_icon: string;
+  xp_to_next_tier: number;
+  current_streak: number;
+  longest_streak: number;
+  reports_submitted: number;
+  tasks_completed: number;
+  current_rank?: number; // Optional - not always returned from backend
+  level_changed?: boolean; // Indicates if level changed
+  old_level?: number;
+  new_level?: number;
+  tier_changed?: boolean; // Indicates if tier changed
+  old_tier?: string;
+  new_tier?: string;
+}
+
+export interface UnlockedBadge {
+  badge_id: string;
+  name: string;
+  description: string;
+  icon: string;
+  rarity: string;
+}
+
+/**
+ * Stats snapshot returned alongside report submissions and task updates
+ */
+export interface XPAwarded extends GamificationStats {
+  badges_unlocked?: UnlockedBadge[];
+}
+
+export interface Badge {
+  badge_id: string;
+  name: string;
+  description: string;
+  icon: string;
+  rarity: string;
+  category: string;
+  unlocked_at: string;
+}
+
+export interface BadgeWithProgress extends Omit<Badge, 'unlocked_at'> {
+  earned: boolean;
+  unlocked_at: string | null;
+  progress: number;
+  progress_text: string;
+}
+
+export interface XPTransaction {
+  transaction_id: string;
+  points: number;
+  action_type: string;
+  description: string | null;
+  created_at: string;
+}
+
+export type LeaderboardPeriod = 'annual' | 'all_time' | 'monthly' | 'weekly';
+
+export interface LeaderboardEntry {
+  rank: number;
+  user_id: string;
+  first_name: string;
+  last_name: string;
+  xp: number;
+  level?: number;
+  annual_tier?: string;
+  is_current_user: boolean;
+}
+
+export interface TeamMemberStats extends Partial<Omit<GamificationStats, 'user_id'>> {
+  user_id: string;
+  has_stats: boolean;
+}
+
+// ============================================================================
+// Hierarchy
+// ============================================================================
+
+export interface HierarchyMe {
+  is_in_hierarchy: boolean;
+  is_leader: boolean;
+  member_id?: string;
+  level?: number;
+  subordinates_count?: number;
+}
+
+export interface Subordinate {
+  member_id: string;
+  user_id: string;
+  manager_id?: string;
+  level: number;
+  team_name?: string;
+  position_title?: string;
+  user_name?: string;
+  user_email: string;
+  depth: number;
+}
+
+export interface SubordinatesResponse {
+  subordinates: Subordinate[];
+  total_count: number;
+}
+
+export interface HierarchyNode {
+  member_id: string;
+  user_id: string;
+  name: string;
+  email: string;
+  level: number;
+  team_name: string | null;
+  position_title: string | null;
+  depth: number;
+  manager_id: string | null;
+}
+
+export interface HierarchyTreeResponse {
+  tree: HierarchyNode[];
+}
+
+// ============================================================================
+// Settings & Integrations
+// ============================================================================
+
+export interface MeetingTrackerSettings {
+  timezone: string;
+  meeting_prefix: string;
+}
+
+export interface MeetingTrackerSettingsResponse {
+  settings?: Partial<MeetingTrackerSettings>;
+}
+
+export interface GoogleCalendarStatusResponse {
+  connected: boolean;
+  email?: string;
+  last_sync_at?: string;
+}
+
+export interface GoogleCalendarSyncResponse {
+  stats?: {
+    meetings_created?: number;
+    meetings_updated?: number;
+  };
+}
+
+export interface TelegramStatusResponse {
+  success: boolean;
+  data?: {
+    connected: boolean;
+    chat_id?: string;
+  };
+}
+
+export interface TelegramLinkResponse {
+  success: boolean;
+  data: {
+    token: string;
+    deep_link: string;
+  };
+}
+
+// ============================================================================
+// Admin: Companies & Team Members
+// ============================================================================
+
+export type CompanyPlanType = 'meeting_tracker' | 'oracle';
+
+export interface AdminCompany {
+  company_id: string;
+  name: string;
+  email: string;
+  phone: string;
+  country: string;
+  city: string;
+  timezone: string;
+  plan_type: CompanyPlanType;
+  status: string;
+  website?: string;
+  meeting_prefix?: string;
+  vision?: string;
+  mission?: string;
+  summary?: string;
+  tagline?: string;
+  address?: string;
+  logo_url?: string;
+  created_at: string;
+  updated_at?: string;
+  team_member_count?: number; // Only present for active companies
+}
+
+export interface AdminCompanyCreateData {
+  name: string;
+  email: string;
+  phone: string;
+  country: string;
+  city: string;
+  timezone: string;
+  subscribed_plans: string[];
+  website: string | null;
+  meeting_prefix: string | null;
+}
+
+export interface AdminCompanyUpdateData {
+  name: string;
+  email: string;
+  phone: string;
+  country: string;
+  city: string;
+  timezone: string;
+  plan_type: CompanyPlanType;
+  website: string | null;
+  meeting_prefix: string | null;
+  vision: string | null;
+  mission: string | null;
+  summary: string | null;
+  tagline: string | null;
+  address: string | null;
+}
+
+export interface CsvValidationResult {
+  is_valid: boolean;
+  total_rows: number;
+  valid_rows: number;
+  errors: Array<{
+    row: number;
+    field: string;
+    error: string;
+  }>;
+}
+
+export interface CsvImportResult {
+  success: boolean;
+  imported_count: number;
+  total_rows: number;
+  errors: string[];
+  company_activated: boolean;
+}
+
+export interface AdminTeamMember {
+  member_id: string;
+  user_id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  manager_id: string | null;
+  manager_name: string | null;
+  level: number;
+  team_name: string | null;
+  position_title: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  company?: {
+    company_id: string;
+    name: string;
+  };
+}
+
+export interface AdminTeamMemberListParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  level?: number;
+  company_id?: string;
+}
+
+export interface AdminTeamMemberListResponse {
+  members: AdminTeamMember[];
+  total: number;
+  page: number;
+  limit: number;
+  total_pages: number;
+}
+
+export interface AdminTeamMemberUpdateData {
+  first_name?: string;
+  last_name?: string;
+  level?: number;
+  manager_id?: string | null;
+  team_name?: string | null;
+  position_title?: string | null;
+}
+
+export interface AdminTeamMemberCreateData {
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone: string | null;
+  company_id: string;
+  manager_id: string | null;
+  level: number;
+  team_name: string | null;
+  position_title: string | null;
+}
+
+export interface AdminTeamMemberLinkData {
+  user_id: string;
+  company_id: string;
+  manager_id: string | null;
+  level: number;
+  team_name: string | null;
+  position_title: string | null;
+}
+
+export interface HierarchyUploadResponse {
+  success: boolean;
+  validated: number;
+  imported: number;
+  errors: Array<{
+    row: number;
+    field: string;
+    error: string;
+  }>;
+  total_rows: number;
+  message: string;
+}
@@ -0,0 +1,46 @@
+/**
+ * Dashboard Type Definitions
+ * The headline numbers on the home dashboard and the admin panel
+ */
+
+// One card on the home dashboard; which cards depends on the user's role
+export interface DashboardStatCard {
+  title: string;
+  value: string | number;
+  suffix?: string;
+}
+
+export interface AdminStats {
+  total_team_members: number;
+  total_products: number;
+  pending_invitations: number;
+  total_proposals: number;
+}
+
+export interface RecentUpload {
+  insurance_name: string;
+  created_at: string;
+}
+
+export interface RecentInvitation {
+  invited_by_name: string;
+  email: string;
+  created_at: string;
+}
+
+export interface RecentProposal {
+  created_by_name: string;
+  client_name: string;
+  created_at: string;
+}
+
+export interface RecentActivities {
+  recent_uploads: RecentUpload[];
+  recent_invitations: RecentInvitation[];
+  recent_proposals: RecentProposal[];
+}
+
+export interface AdminDashboardData {
+  stats: AdminStats;
+  recent_activities: RecentActivities;
+}
@@ -0,0 +1,70 @@
+/**
+ * Commission Type Definitions
+ * Per-role commission rates for insurance products
+ */
+
+export interface Commission {
+  commission_id: string;
+  insurance_id: string;
+  premium_term: string;
+  role_id: number;
+  commission_year: number;
+  commission_rate: number;
+  role_name?: string;
+}
+
+export interface CommissionCreateData {
+  insurance_id: string;
+  premium_term: string;
+  role_id: number;
+  commission_year: number;
+  commission_rate: number;
+}
+
+export type CommissionUpdateData = Partial<Omit<CommissionCreateData, 'insurance_id'>>;
+
+// One product's rates for one premium term, keyed by role id then commission year
+export interface CommissionCalculation {
+  insurance_id: string;
+  premium_term: string;
+  commission_structure: Record<string, Record<string, number>>;
+}
+
+// Product row in the SUPER_ADMIN commissions overview
+export interface ProductWithCommissions {
+  insurance_id: string;
+  insurance_name: string;
+  provider: string;
+  category: string;
+  commission_count?: number;
+  role_commission?: {
+    year_1: number;
+    year_2: number;
+    year_3: number;
+  };
+}
+
+// Product row in the MASTER commissions overview
+export interface MasterCommissionInsurance {
+  insurance_id: string;
+  insurance_name: string;
+  category: string;
+  discontinued: boolean;
+  company_id: string;
+  company_name: string;
+}
+
+export interface MasterCommissionListParams {
+  company_id?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MasterCommissionListResponse {
+  success: boolean;
+  data?: {
+    insurances: MasterCommissionInsurance[];
+    total: number;
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Company Type Definitions
+ * A company's profile as advisors' proposals and the admin pages show it
+ */
+
+export interface CompanyProfile {
+  company_id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  website?: string | null;
+  city?: string | null;
+  // Used for jurisdiction filtering of local/global products
+  country?: string | null;
+  logo_url?: string | null;
+  vision?: string | null;
+  mission?: string | null;
+  tagline?: string | null;
+  summary?: string | null;
+  description?: string | null;
+  values?: string[] | null;
+  licensing_info?: string | null;
+  certifications?: string[] | null;
+  is_default?: boolean | null;
+  created_at?: string;
+  updated_at?: string | null;
+}
+
+export type CompanyProfileData = Partial<Omit<CompanyProfile, 'company_id' | 'created_at' | 'updated_at' | 'logo_url'>>;
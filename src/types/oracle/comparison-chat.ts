@@ -108,6 +108,13 @@ export interface ClarificationResponse {
 
 export type ChatResponse = AnswerResponse | ClarificationResponse;
 
+// Events from the streaming chat endpoint: answer text as it is generated,
+// then the full response (a clarification arrives with no tokens before it)
+export type ChatStreamEvent =
+  | { type: "token"; delta: string }
+  | { type: "done"; response: ChatResponse }
+  | { type: "error"; message: string };
+
 // ================================
 // Component Props Types
 // ================================
@@ -130,6 +137,8 @@ export interface ComparisonChatbotProps {
 export interface ChatMessageProps {
   message: ChatMessage;
   isLoading?: boolean;
+  // The answer is still arriving: shows a cursor, no timestamp or references yet
+  isStreaming?: boolean;
   pdfUrl?: string;
 }
 
@@ -0,0 +1,42 @@
+/**
+ * FX Rate Type Definitions
+ * Exchange rates from the backend and the rate snapshots kept on each proposal
+ */
+
+// A current market rate, as served (and cached) by the backend
+export interface FxRateQuote {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  // Where the backend got the rate, e.g. "exchangerate-api"
+  source: string;
+  // When the provider published the rate
+  as_of: string;
+}
+
+/**
+ * The rate a proposal's numbers are converted with. Captured once, when the
+ * proposal is first generated, and reused on every regeneration until the
+ * advisor refreshes or overrides it.
+ */
+export interface ProposalFxRate {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  // 'manual' when the advisor overrode the rate
+  source: string;
+  as_of: string;
+  captured_at: string;
+  override_reason?: string;
+  overridden_by?: {
+    user_id: string;
+    name: string;
+  };
+  // The captured market rate, kept while an override is in place
+  market_rate?: number;
+}
+
+export interface ProposalFxRateOverride {
+  rate: number;
+  reason: string;
+}
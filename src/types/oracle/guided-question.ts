@@ -0,0 +1,34 @@
+/**
+ * Guided Question Set Type Definitions
+ * A company's own version of a guided discovery question set, replacing the default in src/config/guidedQuestions.ts
+ */
+
+import type { Question } from '@/config/guidedQuestions';
+
+export interface GuidedQuestionSet {
+  // A key of GUIDED_QUESTIONS, e.g. 'term_life'
+  category_id: string;
+  company_id: string;
+  // Stored as edited, in the config's shape (showIf conditions and answer matches included)
+  questions: Question[];
+  updated_by_name?: string | null;
+  updated_at: string;
+}
+
+export interface GuidedQuestionSetUpdate {
+  questions: Question[];
+}
+
+// A category the advisor can pick when a search needs guided discovery
+export interface CategoryOption {
+  id: string;
+  name: string;
+  description: string;
+  examples: string;
+}
+
+// Answers from the guided questionnaire, keyed by question id
+export interface GuidedParameters {
+  category: string;
+  [key: string]: string | string[] | undefined;
+}
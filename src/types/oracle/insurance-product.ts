@@ -41,6 +41,14 @@ export interface InsuranceProduct {
   death_benefit_options?: string;
   market_positioning?: string;
 
+  // Hidden from advisors; existing chat sessions keep working
+  discontinued?: boolean;
+  // How sure extraction is of the jurisdiction, and whether an admin has checked it
+  jurisdiction_confidence_score?: number;
+  jurisdiction_confidence_level?: 'HIGH' | 'MEDIUM' | 'LOW' | 'NONE';
+  jurisdiction_requires_review?: boolean;
+  jurisdiction_manually_verified?: boolean;
+
   // ===== 5 UNIVERSAL PRODUCT STRUCTURE FIELDS =====
   product_core_type?: string;
   coverage_term?: string;
@@ -164,6 +172,18 @@ export type ProductCategory =
   | "endowment"
   | "investment-linked";
 
+// The field groups below that a category's products fill in
+export type CategoryGroup = "critical-illness" | "life-protection" | "savings" | "ilp";
+
+// ===== PRODUCT PICKER OPTION =====
+// The slim row the product pickers list (e.g. when mapping an illustration)
+export interface InsuranceOption {
+  insurance_id: string;
+  insurance_name: string;
+  provider: string;
+  category: string;
+}
+
 // ===== CATEGORY-SPECIFIC FIELD GROUPS =====
 export interface CriticalIllnessFields {
   ci_total_conditions_covered?: number;
@@ -0,0 +1,47 @@
+/**
+ * Invitation Type Definitions
+ * Email invitations admins send to bring users into their company
+ */
+
+export interface Invitation {
+  id: number;
+  email: string;
+  role_id: number;
+  role_name: string;
+  company_id: string;
+  company_name: string;
+  invited_by: string;
+  invited_by_email: string;
+  // pending, activated, expired or revoked
+  status: string;
+  created_at: string;
+  expires_at: string;
+  updated_at?: string | null;
+}
+
+// A role the current user may invite people into
+export interface InvitableRole {
+  id: number;
+  name: string;
+  description?: string | null;
+}
+
+export interface InvitationCreateData {
+  email: string;
+  role_id: number;
+  expires_days?: number;
+}
+
+export interface InvitationListParams {
+  limit?: number;
+  status_filter?: string;
+}
+
+export interface InvitationListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    invitations: Invitation[];
+    total: number;
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Product Chat Type Definitions
+ * Chat sessions about a single insurance product, and the events its answers stream in as
+ */
+
+export interface ChatMessage {
+  message_id: string;
+  session_id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  created_at: string;
+  sequence_number: number;
+  status: 'pending' | 'sent' | 'delivered' | 'failed' | 'deleted';
+  metadata?: Record<string, any>;
+}
+
+export interface ChatSession {
+  session_id: string;
+  user_id: string;
+  insurance_id: string;
+  session_name: string;
+  status: 'active' | 'archived' | 'deleted';
+  created_at: string;
+  updated_at: string;
+  last_message_at: string;
+  message_count: number;
+  session_metadata?: Record<string, any>;
+}
+
+// A session as listed, with the product it is about
+export interface ChatSessionWithDetails extends ChatSession {
+  insurance_title?: string;
+  insurance_company?: string;
+  insurance_product_type?: string;
+  activity_status?: 'recent' | 'today' | 'this_week' | 'older';
+}
+
+export interface ChatSessionListParams {
+  status?: 'active' | 'archived';
+  limit?: number;
+  order_by?: string;
+  order_direction?: 'asc' | 'desc';
+}
+
+export interface ChatSessionListResponse {
+  success: boolean;
+  sessions: ChatSessionWithDetails[];
+  total_count: number;
+  active_count: number;
+  archived_count: number;
+}
+
+export interface ChatSessionCreateData {
+  insurance_id: string;
+  first_message?: string;
+}
+
+export interface ChatSessionCreateResponse {
+  success: boolean;
+  session: ChatSession;
+  first_message?: ChatMessage;
+  message: string;
+}
+
+export interface ChatMessageListResponse {
+  success: boolean;
+  messages: ChatMessage[];
+  session: ChatSession;
+  total_messages: number;
+  page: number;
+  limit: number;
+  has_more: boolean;
+}
+
+// Events from the streaming send-message endpoint, in the order they arrive
+export type ChatMessageStreamEvent =
+  // The saved user message, before the answer starts
+  | { type: 'user_message'; message: ChatMessage }
+  | { type: 'token'; delta: string }
+  // The saved answer (with its citations in metadata) and the updated session
+  | { type: 'done'; assistant_message?: ChatMessage; session: ChatSession }
+  | { type: 'error'; message: string };
@@ -0,0 +1,57 @@
+/**
+ * Proposal Analytics Type Definitions
+ * Comparison figures derived from a proposal's illustrations (see src/lib/proposal-analytics.ts)
+ */
+
+export interface SurrenderIrr {
+  age: number;
+  // Annual rate, e.g. 0.035 for 3.5%; null when there is no cash value at that age
+  irr: number | null;
+}
+
+export interface IllustrationAnalytics {
+  illustrationId: string;
+  name: string;
+  // Currency of the amounts below
+  currency: string;
+  annualPremium: number | null;
+  totalPremium: number | null;
+  deathBenefit: number | null;
+  // Death benefit per unit of total premium
+  deathBenefitMultiple: number | null;
+  surrenderIrr: SurrenderIrr[];
+  // Policy years until the cash value covers the premiums paid
+  breakevenYear: number | null;
+  // Cash value at 65 given up by starting five years later
+  costOfDelay: number | null;
+}
+
+export type ComparisonMetricKey =
+  | 'total_premium'
+  | 'death_benefit_multiple'
+  | 'irr_60'
+  | 'irr_65'
+  | 'irr_70'
+  | 'breakeven_year'
+  | 'cost_of_delay';
+
+export interface ComparisonRankEntry {
+  illustrationId: string;
+  value: number;
+  // 1 ranks first; equal values share a rank
+  rank: number;
+}
+
+export interface ComparisonRanking {
+  metric: ComparisonMetricKey;
+  // Illustrations with a value, in rank order
+  entries: ComparisonRankEntry[];
+}
+
+export interface ProposalComparison {
+  currency: string;
+  illustrations: IllustrationAnalytics[];
+  rankings: ComparisonRanking[];
+  // Illustration currencies whose amounts are left out because there is no rate to the target currency
+  missingRates: string[];
+}
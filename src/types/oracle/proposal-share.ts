@@ -0,0 +1,81 @@
+/**
+ * Proposal Share Type Definitions
+ * Expiring client-facing links to a generated proposal and the views they record
+ */
+
+import type { ProposalLanguage } from '@/types/oracle/proposal';
+import type { ProposalTemplate } from '@/types/oracle/proposal-template';
+
+// ============================================================================
+// Advisor side
+// ============================================================================
+
+export interface ProposalShareLink {
+  share_id: string;
+  proposal_id: string;
+  // Public token used in the client-facing URL
+  token: string;
+  pin_protected: boolean;
+  expires_at: string;
+  revoked_at?: string;
+  created_at: string;
+  created_by?: {
+    id: string;
+    name: string;
+  };
+  view_count: number;
+  last_viewed_at?: string;
+}
+
+export interface ProposalShareCreate {
+  expires_in_days: number;
+  // 4-6 digits the client must enter before the proposal is shown
+  pin?: string;
+}
+
+export interface ProposalSharePageTime {
+  page_number: number;
+  seconds: number;
+}
+
+// One visit to a share link, from opening it until the tab was closed or left idle
+export interface ProposalShareView {
+  view_id: string;
+  share_id: string;
+  opened_at: string;
+  last_active_at: string;
+  duration_seconds: number;
+  pages: ProposalSharePageTime[];
+  device?: string;
+}
+
+// ============================================================================
+// Client side (public, no sign-in)
+// ============================================================================
+
+export interface SharedProposal {
+  client_name: string;
+  company_name?: string;
+  company_logo_url?: string;
+  advisor_name?: string;
+  expires_at: string;
+  pin_required: boolean;
+  // The proposal's status; the client can sign while it is completed
+  status: string;
+  signature?: {
+    signer_name: string;
+    signed_at: string;
+  };
+  // Oldest as_of of the proposal's exchange rate snapshot (override details stay with the advisor)
+  fx_rates_as_of?: string;
+  language?: ProposalLanguage;
+  secondary_language?: ProposalLanguage;
+}
+
+// Returned when the client opens the link (after the PIN, if any)
+export interface SharedProposalSession {
+  view_id: string;
+  // Sent with every page and activity request of this view
+  view_token: string;
+  template: ProposalTemplate | null;
+}
@@ -0,0 +1,54 @@
+/**
+ * Proposal Template Type Definitions
+ * Company-level layouts and branding presets applied to generated proposals
+ */
+
+// The generated pages a template can include, in the order they are rendered
+export type ProposalSectionKey = 'title' | 'features' | 'illustration' | 'recommendation' | 'comparison';
+
+export interface ProposalTemplatePalette {
+  primary: string;
+  secondary: string;
+  accent: string;
+  text: string;
+  background: string;
+}
+
+export interface ProposalTemplateTypography {
+  heading_font: string;
+  body_font: string;
+  // Body text size in points
+  base_font_size: number;
+}
+
+export interface ProposalTemplateCover {
+  title: string;
+  subtitle?: string;
+}
+
+export interface ProposalTemplateDisclaimer {
+  title: string;
+  body: string;
+}
+
+export interface ProposalTemplate {
+  template_id: string;
+  company_id: string;
+  name: string;
+  description?: string;
+  // Who the template is meant for, e.g. "High net worth" or "Mass market"
+  audience?: string;
+  sections: ProposalSectionKey[];
+  cover: ProposalTemplateCover | null;
+  disclaimers: ProposalTemplateDisclaimer[];
+  palette: ProposalTemplatePalette;
+  typography: ProposalTemplateTypography;
+  // Preselected when an advisor creates a proposal
+  is_default: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type ProposalTemplateCreate = Omit<ProposalTemplate, 'template_id' | 'company_id' | 'created_at' | 'updated_at'>;
+
+export type ProposalTemplateUpdate = Partial<ProposalTemplateCreate>;
@@ -0,0 +1,296 @@
+/**
+ * Proposal Type Definitions
+ * Proposals and the illustration PDFs uploaded to them
+ */
+
+import type { PageReference } from '@/types/oracle/comparison-chat';
+import type { ProposalFxRate } from '@/types/oracle/fx-rate';
+
+export interface IllustrationData {
+  id: string;
+  original_filename: string;
+  illustration_order: number;
+  extraction_status: string;
+  cash_extraction_status?: string;
+  extracted_insurance_name?: string;
+  matched_insurance_id?: string;
+  manual_insurance_assignment?: string;
+  final_insurance_name?: string;
+  is_duplicate_insurance: boolean;
+  extraction_confidence?: number;
+  processing_notes?: string;
+  review_flags?: {
+    currency_review_needed?: boolean;
+    currency_review_reason?: string;
+    detected_currency_value?: string;
+    suggested_currencies?: string[];
+  };
+  created_at: string;
+}
+
+// Languages proposals can be generated in: English, Bahasa Melayu, Mandarin
+export type ProposalLanguage = 'en' | 'ms' | 'zh';
+
+export interface Proposal {
+  proposal_id: string;
+  // The CRM client this proposal is for. Name, DOB, gender and occupation are
+  // copied from the client at creation, so proposals without one keep working.
+  client_id?: string;
+  client_name: string;
+  client_dob?: string;
+  client_gender?: string;
+  client_occupation?: string;
+  client_needs: string;
+  needs_source: string;
+  proposal_type: string;
+  status: string;
+  target_currency?: string;
+  // Language of the generated content, labels and PDF; English when unset
+  language?: ProposalLanguage;
+  // Set for bilingual proposals: the same content in this language, side by side
+  secondary_language?: ProposalLanguage;
+  highlighted_insurance_id?: string;
+  highlighted_insurance_name?: string;
+  // Company proposal template used for layout and branding; the company default when unset
+  template_id?: string;
+  // Rates the proposal's numbers are converted with, captured at first generation
+  fx_rates?: ProposalFxRate[];
+  // Filled in once the age analysis phase has picked the cash value ages to show
+  intelligent_cash_analysis?: {
+    selected_ages?: number[];
+  };
+  illustrations: IllustrationData[];
+  // The advisor who owns the proposal; team leaders can open their team's proposals read-only
+  created_by?: {
+    user_id: string;
+    name: string;
+  };
+  created_at: string;
+  updated_at: string;
+}
+
+// A proposal in the proposals list and board
+export interface ProposalListItem {
+  proposal_id: string;
+  client_name: string;
+  proposal_type: string;
+  status: string;
+  illustration_count: number;
+  highlighted_insurance_name?: string;
+  // The advisor who owns the proposal, for team leaders viewing their team's proposals
+  created_by?: {
+    user_id: string;
+    name: string;
+  };
+  // Archived proposals are left out of the list unless asked for
+  archived_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProposalListParams {
+  // 'team' for the whole team, or one team member's user id; the current user's proposals when unset
+  team_filter?: string;
+  archived?: boolean;
+}
+
+// What the create proposal form sends; the client fields are copied from the selected client
+export interface ProposalCreate {
+  client_id: string;
+  client_name: string;
+  client_dob: string;
+  client_gender?: string;
+  client_occupation?: string;
+  client_needs: string;
+  needs_source: 'manual' | 'ai_query';
+  ai_query_id?: string;
+  proposal_type: 'complete' | 'summary' | 'both';
+  target_currency: string;
+  language?: ProposalLanguage;
+  secondary_language?: ProposalLanguage;
+  template_id?: string;
+}
+
+// A past AI product search, offered as the client's needs on a new proposal
+export interface AiQueryHistoryItem {
+  id: string;
+  query_text: string;
+  created_at: string;
+  result_count: number;
+}
+
+// A catalogue product offered when mapping an illustration by hand
+export interface IllustrationInsuranceMatch {
+  insurance_id: string;
+  insurance_name: string;
+  provider: string;
+  category: string;
+  currency?: string;
+}
+
+/**
+ * An illustration with the data extracted from its PDF.
+ * The extracted fields are free-form AI output, so they stay loosely typed.
+ */
+export interface ExtractedIllustration {
+  id: string;
+  extraction_status?: string;
+  comprehensive_data?: Record<string, any> | null;
+  user_edited_data?: Record<string, any> | null;
+  // Where each extracted field was read from in the PDF, keyed by field name
+  field_provenance?: Record<string, FieldProvenance> | null;
+  [key: string]: any;
+}
+
+/**
+ * Where in the illustration PDF an extracted value was read from. Same page
+ * reference the product chat cites, plus the region and the extractor's confidence.
+ */
+export interface FieldProvenance extends PageReference {
+  // Region on the page in PDF points: [x0, y0, x1, y1], origin bottom-left
+  bbox?: [number, number, number, number];
+  // 0-1; the illustration's extraction_confidence applies when missing
+  confidence?: number;
+}
+
+// ============================================================================
+// Revisions
+// ============================================================================
+
+export type ProposalRevisionTrigger =
+  | 'draft_saved'
+  | 'illustration_edited'
+  | 'page1_generated'
+  | 'page2_generated'
+  | 'page4_generated'
+  | 'proposal_generated'
+  | 'restored';
+
+/**
+ * AI-generated page content as the editor holds it
+ */
+export interface ProposalGeneratedContent {
+  page1?: Record<string, any> | null;
+  page2?: Record<string, any> | null;
+  page4?: Record<string, any> | null;
+}
+
+export type ProposalContentSection = keyof ProposalGeneratedContent;
+
+export type ProposalContentTone = 'concise' | 'warm' | 'formal' | 'persuasive';
+
+/**
+ * What the advisor asks for when regenerating a section
+ */
+export interface ProposalContentGuidance {
+  tone?: ProposalContentTone | null;
+  // Free text, e.g. "make it shorter" or "emphasise legacy planning"
+  instructions?: string;
+}
+
+/**
+ * A regenerated section waiting for the advisor to accept it. The backend keeps
+ * serving the current text until then.
+ */
+export interface ProposalContentDraft {
+  draft_id: string;
+  [key: string]: any;
+}
+
+/**
+ * Everything needed to show (or restore) a proposal as it was at a revision
+ */
+export interface ProposalRevisionSnapshot {
+  proposal: {
+    client_name: string;
+    client_dob?: string;
+    client_needs: string;
+    status: string;
+    highlighted_insurance_id?: string;
+    highlighted_insurance_name?: string;
+  };
+  illustrations: ExtractedIllustration[];
+  generated_content: ProposalGeneratedContent;
+}
+
+export interface ProposalRevision {
+  revision_id: string;
+  proposal_id: string;
+  revision_number: number;
+  trigger: ProposalRevisionTrigger;
+  summary?: string;
+  // Set on revisions created by restoring an earlier one
+  restored_from_revision_id?: string;
+  created_by?: {
+    user_id: string;
+    name: string;
+  };
+  created_at: string;
+}
+
+export interface ProposalRevisionDetail extends ProposalRevision {
+  snapshot: ProposalRevisionSnapshot;
+}
+
+export interface ProposalRevisionCreate {
+  trigger: ProposalRevisionTrigger;
+  summary?: string;
+  // The backend snapshots the proposal and illustrations itself; generated page
+  // content only lives in the editor, so it is sent along
+  generated_content: ProposalGeneratedContent;
+}
+
+// ============================================================================
+// Signatures
+// ============================================================================
+
+export type ProposalSignatureMethod = 'drawn' | 'typed';
+
+// A statement the client ticked before signing, stored with the wording they saw
+export interface ProposalAcknowledgement {
+  title: string;
+  text: string;
+}
+
+export interface ProposalSignature {
+  signature_id: string;
+  proposal_id: string;
+  signer_name: string;
+  method: ProposalSignatureMethod;
+  // Through a share link, or on the advisor's device from the preview
+  channel: 'shared_link' | 'in_person';
+  acknowledgements: ProposalAcknowledgement[];
+  // Set by the backend when the signature is recorded
+  signed_at: string;
+  // SHA-256 of the sealed signed PDF, to check a copy hasn't been altered
+  document_hash: string;
+  witnessed_by?: {
+    user_id: string;
+    name: string;
+  };
+}
+
+export interface ProposalSignatureCreate {
+  signer_name: string;
+  method: ProposalSignatureMethod;
+  // PNG data URL of the drawn signature, or the typed name
+  signature: string;
+  acknowledgements: ProposalAcknowledgement[];
+}
+
+// ============================================================================
+// Page overrides
+// ============================================================================
+
+// A generated page the advisor edited by hand. The preview and the PDF use it
+// in place of the generated page.
+export interface ProposalPageOverride {
+  page_number: number;
+  // The full page document, styles included
+  html: string;
+  updated_at: string;
+  updated_by?: {
+    user_id: string;
+    name: string;
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Saved Search Type Definitions
+ * AI product searches an advisor can re-run, and the alerts raised when a newly ingested product matches one
+ */
+
+import type { GuidedParameters } from '@/types/oracle/guided-question';
+
+// The products page's Local / Global tabs
+export type SavedSearchJurisdiction = 'all' | 'local' | 'global';
+
+export interface SavedSearch {
+  search_id: string;
+  name: string;
+  query: string;
+  // null for all categories
+  category: string | null;
+  jurisdiction: SavedSearchJurisdiction;
+  // Answers from the guided questionnaire, when the search needed guided discovery
+  guided_parameters?: GuidedParameters;
+  // Alert the advisor when a newly ingested product matches
+  alerts_enabled: boolean;
+  // Products matched since the search was last run
+  new_match_count: number;
+  last_run_at?: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type SavedSearchCreate = Pick<
+  SavedSearch,
+  'name' | 'query' | 'category' | 'jurisdiction' | 'guided_parameters' | 'alerts_enabled'
+>;
+
+export type SavedSearchUpdate = Partial<Pick<SavedSearch, 'name' | 'alerts_enabled'>>;
+
+/**
+ * A newly ingested product that matched one of the advisor's saved searches
+ */
+export interface SavedSearchAlert {
+  alert_id: string;
+  search_id: string;
+  search_name: string;
+  insurance_id: string;
+  insurance_name: string;
+  provider?: string;
+  created_at: string;
+}
@@ -0,0 +1,46 @@
+/**
+ * User Management Type Definitions
+ * Users as admins (their company's) and MASTER users (everyone) manage them
+ */
+
+export interface ManagedUser {
+  user_id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  phone: string | null;
+  role: string;
+  company_id: string | null;
+  // Only in the MASTER list, which spans companies
+  company_name?: string | null;
+  is_profile_complete: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string | null;
+  deactivated_at: string | null;
+}
+
+export interface ManagedUserUpdateData {
+  first_name: string;
+  last_name: string;
+  phone: string;
+  role: string;
+}
+
+export interface ManagedUserListParams {
+  limit?: number;
+  offset?: number;
+  search?: string;
+  include_inactive?: boolean;
+}
+
+export interface ManagedUserListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    users: ManagedUser[];
+    total: number;
+    limit: number;
+    offset: number;
+  };
+}
@@ -4,6 +4,23 @@ export interface FileUploadProgress {
   status: 'selected' | 'pending' | 'uploading' | 'processing' | 'extracting' | 'storing' | 'vectorizing' | 'completed' | 'error';
   error?: string;
   uploadId?: string;
+  // Set when processing completes, see ProcessingStatus
+  savedSearchMatches?: number;
+}
+
+/**
+ * A PDF in a proposal's illustration upload queue. Uses the FileUploadProgress
+ * statuses: pending (queued) → uploading → extracting → processing (cash value
+ * extraction) → completed, or error with the stage that failed.
+ */
+export interface IllustrationUploadProgress extends FileUploadProgress {
+  // Local id, stable across page reloads
+  id: string;
+  // Set once the backend has accepted the file
+  illustrationId?: string;
+  // Set once the illustration has been seen on the proposal, so a later absence means it was removed
+  confirmed?: boolean;
+  failedStage?: 'upload' | 'extraction' | 'cash_extraction';
 }
 
 export interface UploadResponse {
@@ -13,6 +30,14 @@ export interface UploadResponse {
   message?: string;
 }
 
+// Each file is either accepted (and processed in the background) or listed as failed
+export interface InsuranceUploadResponse {
+  success: boolean;
+  message: string;
+  uploads: UploadResponse[];
+  failed_uploads: Array<{[key: string]: string}>;
+}
+
 export interface ProcessingStatus {
   upload_id: string;
   filename: string;
@@ -21,6 +46,8 @@ export interface ProcessingStatus {
   current_step: string;
   error?: string;
   estimated_completion?: string;
+  // Once completed: saved searches the new product matched (their advisors are notified)
+  saved_search_matches?: number;
 }
 
 export interface UploadedDocument {